@@ -8,8 +8,14 @@ import { Technicians } from './pages/Technicians';
 import { WorkOrders } from './pages/WorkOrders';
 import { NewWorkOrder } from './pages/NewWorkOrder';
 import { WorkOrderDetails } from './pages/WorkOrderDetails';
+import { JobBoard } from './pages/JobBoard';
+import { Quotations } from './pages/Quotations';
+import { Appointments } from './pages/Appointments';
+import { NewQuotation } from './pages/NewQuotation';
+import { QuotationDetails } from './pages/QuotationDetails';
 import { Invoices } from './pages/Invoices';
 import { NewInvoice } from './pages/NewInvoice';
+import { NewConsolidatedInvoice } from './pages/NewConsolidatedInvoice';
 import { InvoiceDetails } from './pages/InvoiceDetails';
 import { Reports } from './pages/Reports';
 import { Inventory } from './pages/Inventory';
@@ -23,11 +29,17 @@ type ViewType =
   | 'dashboard'
   | 'customers'
   | 'technicians'
+  | 'quotations'
+  | 'new-quotation'
+  | 'quotation-details'
+  | 'appointments'
   | 'work-orders'
   | 'new-work-order'
   | 'work-order-details'
+  | 'job-board'
   | 'invoices'
   | 'new-invoice'
+  | 'new-consolidated-invoice'
   | 'invoice-details'
   | 'inventory'
   | 'expenses'
@@ -40,11 +52,14 @@ function AppContent() {
   const [activeTab, setActiveTab] = useState<ViewType>('dashboard');
   const [selectedOrderId, setSelectedOrderId] = useState<string>('');
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string>('');
+  const [selectedQuotationId, setSelectedQuotationId] = useState<string>('');
 
   const getDefaultAllowedTab = (): ViewType => {
     const tabPermissions: Array<{ tab: ViewType; permission: string }> = [
       { tab: 'dashboard', permission: 'dashboard' },
       { tab: 'customers', permission: 'customers' },
+      { tab: 'quotations', permission: 'quotations' },
+      { tab: 'appointments', permission: 'appointments' },
       { tab: 'work-orders', permission: 'work_orders' },
       { tab: 'invoices', permission: 'invoices' },
       { tab: 'inventory', permission: 'inventory' },
@@ -78,11 +93,17 @@ function AppContent() {
     const permissionMap: Record<ViewType, string | null> = {
       'dashboard': 'dashboard',
       'customers': 'customers',
+      'quotations': 'quotations',
+      'new-quotation': 'quotations',
+      'quotation-details': 'quotations',
+      'appointments': 'appointments',
       'work-orders': 'work_orders',
       'new-work-order': 'work_orders',
       'work-order-details': 'work_orders',
+      'job-board': 'work_orders',
       'invoices': 'invoices',
       'new-invoice': 'invoices',
+      'new-consolidated-invoice': 'invoices',
       'invoice-details': 'invoices',
       'inventory': 'inventory',
       'expenses': 'expenses',
@@ -116,6 +137,8 @@ function AppContent() {
         setSelectedOrderId(id);
       } else if (view === 'invoice-details') {
         setSelectedInvoiceId(id);
+      } else if (view === 'quotation-details') {
+        setSelectedQuotationId(id);
       }
     }
   };
@@ -128,6 +151,61 @@ function AppContent() {
         return <Customers />;
       case 'technicians':
         return <Technicians />;
+      case 'quotations':
+        return (
+          <Quotations
+            onNewQuotation={() => {
+              setSelectedQuotationId('');
+              setActiveTab('new-quotation');
+            }}
+            onViewQuotation={(quotationId) => {
+              setSelectedQuotationId(quotationId);
+              setActiveTab('quotation-details');
+            }}
+            onEditQuotation={(quotationId) => {
+              setSelectedQuotationId(quotationId);
+              setActiveTab('new-quotation');
+            }}
+          />
+        );
+      case 'new-quotation':
+        return (
+          <NewQuotation
+            quotationId={selectedQuotationId}
+            onBack={() => {
+              setSelectedQuotationId('');
+              setActiveTab('quotations');
+            }}
+            onSuccess={(quotationId) => {
+              setSelectedQuotationId(quotationId);
+              setActiveTab('quotation-details');
+            }}
+          />
+        );
+      case 'quotation-details':
+        return (
+          <QuotationDetails
+            quotationId={selectedQuotationId}
+            onBack={() => setActiveTab('quotations')}
+            onViewWorkOrder={(orderId) => {
+              setSelectedOrderId(orderId);
+              setActiveTab('work-order-details');
+            }}
+            onViewInvoice={(invoiceId) => {
+              setSelectedInvoiceId(invoiceId);
+              setActiveTab('invoice-details');
+            }}
+          />
+        );
+      case 'appointments':
+        return (
+          <Appointments
+            onViewWorkOrder={(orderId) => {
+              setSelectedOrderId(orderId);
+              setActiveTab('work-order-details');
+            }}
+          />
+        );
       case 'work-orders':
         return (
           <WorkOrders
@@ -159,6 +237,15 @@ function AppContent() {
             }}
           />
         );
+      case 'job-board':
+        return (
+          <JobBoard
+            onViewWorkOrder={(orderId) => {
+              setSelectedOrderId(orderId);
+              setActiveTab('work-order-details');
+            }}
+          />
+        );
       case 'work-order-details':
         return (
           <WorkOrderDetails
@@ -177,6 +264,7 @@ function AppContent() {
               setSelectedInvoiceId('');
               setActiveTab('new-invoice');
             }}
+            onNewConsolidatedInvoice={() => setActiveTab('new-consolidated-invoice')}
             onViewInvoice={(invoiceId) => {
               setSelectedInvoiceId(invoiceId);
               setActiveTab('invoice-details');
@@ -201,6 +289,16 @@ function AppContent() {
             }}
           />
         );
+      case 'new-consolidated-invoice':
+        return (
+          <NewConsolidatedInvoice
+            onBack={() => setActiveTab('invoices')}
+            onSuccess={(invoiceId) => {
+              setSelectedInvoiceId(invoiceId);
+              setActiveTab('invoice-details');
+            }}
+          />
+        );
       case 'invoice-details':
         return (
           <InvoiceDetails
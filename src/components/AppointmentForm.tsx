@@ -0,0 +1,509 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Ban, CheckCircle, ClipboardList, Plus, Save, Trash2, UserX, X } from 'lucide-react';
+import { appointmentsService, customersService, vehiclesService, ServiceError, SaveAppointmentData } from '../services';
+import { Appointment, AppointmentConflict, AppointmentService, Customer, Technician, Vehicle, WorkshopBay } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { normalizeNumberInput } from '../utils/numberUtils';
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  APPOINTMENT_STATUS_STYLES,
+  DURATION_OPTIONS,
+  formatTime,
+  toDateTimeInputValue,
+} from '../utils/appointments';
+
+interface AppointmentFormProps {
+  /** Appointment to edit; a new one is booked when null */
+  appointment: Appointment | null;
+  initialStart: Date;
+  initialBayId?: string | null;
+  bays: WorkshopBay[];
+  technicians: Technician[];
+  onClose: () => void;
+  onSaved: () => void;
+  onViewWorkOrder: (orderId: string) => void;
+}
+
+export function AppointmentForm({
+  appointment,
+  initialStart,
+  initialBayId,
+  bays,
+  technicians,
+  onClose,
+  onSaved,
+  onViewWorkOrder,
+}: AppointmentFormProps) {
+  const { t } = useTranslation();
+  const { hasDetailedPermission } = useAuth();
+  const toast = useToast();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [customerId, setCustomerId] = useState(appointment?.customer_id || '');
+  const [vehicleId, setVehicleId] = useState(appointment?.vehicle_id || '');
+  const [startsAt, setStartsAt] = useState(toDateTimeInputValue(appointment ? new Date(appointment.starts_at) : initialStart));
+  const [duration, setDuration] = useState(appointment?.duration_minutes || 60);
+  const [bayId, setBayId] = useState(appointment ? appointment.bay_id || '' : initialBayId || '');
+  const [technicianId, setTechnicianId] = useState(appointment?.technician_id || '');
+  const [services, setServices] = useState<AppointmentService[]>(appointment?.requested_services || []);
+  const [notes, setNotes] = useState(appointment?.notes || '');
+  const [conflicts, setConflicts] = useState<AppointmentConflict[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const isActive = !appointment || ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status);
+  const canSave = isActive && hasDetailedPermission(appointment ? 'appointments.update' : 'appointments.create');
+  const canUpdate = !!appointment && isActive && hasDetailedPermission('appointments.update');
+
+  const serviceTypes = [
+    t('services.mechanics'),
+    t('services.electricity'),
+    t('services.ac'),
+    t('services.tires'),
+    t('services.bodywork'),
+    t('services.other'),
+  ];
+
+  // Inactive bays and technicians stay listed while an appointment still uses them
+  const bayOptions = bays.filter((bay) => bay.is_active || bay.id === appointment?.bay_id);
+  const technicianOptions = technicians.some((technician) => technician.id === appointment?.technician_id) || !appointment?.technician
+    ? technicians
+    : [...technicians, { id: appointment.technician.id, name: appointment.technician.name } as Technician];
+
+  useEffect(() => {
+    customersService.getAllCustomers({ orderBy: 'name', orderDirection: 'asc' })
+      .then(setCustomers)
+      .catch((error) => console.error('Error loading customers:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!customerId) {
+      setVehicles([]);
+      return;
+    }
+    vehiclesService.getVehiclesByCustomer(customerId)
+      .then(setVehicles)
+      .catch((error) => console.error('Error loading vehicles:', error));
+  }, [customerId]);
+
+  // Checks the slot while it is being picked
+  useEffect(() => {
+    if (!isActive || !startsAt || (!bayId && !technicianId)) {
+      setConflicts([]);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      appointmentsService.getConflicts({
+        starts_at: new Date(startsAt).toISOString(),
+        duration_minutes: duration,
+        bay_id: bayId || null,
+        technician_id: technicianId || null,
+        exclude_id: appointment?.id,
+      })
+        .then(setConflicts)
+        .catch((error) => console.error('Error checking appointment conflicts:', error));
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [startsAt, duration, bayId, technicianId]);
+
+  function updateService(index: number, changes: Partial<AppointmentService>) {
+    setServices(services.map((service, i) => (i === index ? { ...service, ...changes } : service)));
+  }
+
+  async function handleSave() {
+    if (!customerId || !startsAt || services.some((service) => !service.service_type || !service.description.trim())) {
+      toast.error(t('validation.fill_all_required'));
+      return;
+    }
+
+    const data: SaveAppointmentData = {
+      customer_id: customerId,
+      vehicle_id: vehicleId || null,
+      starts_at: new Date(startsAt).toISOString(),
+      duration_minutes: duration,
+      bay_id: bayId || null,
+      technician_id: technicianId || null,
+      requested_services: services,
+      notes: notes || null,
+    };
+
+    setSaving(true);
+    try {
+      if (appointment) {
+        await appointmentsService.updateAppointment(appointment.id, data);
+      } else {
+        await appointmentsService.createAppointment(data);
+      }
+      toast.success(t('appointments.saved'));
+      onSaved();
+    } catch (error) {
+      console.error('Error saving appointment:', error);
+      if (error instanceof ServiceError && error.code === 'SCHEDULING_CONFLICT') {
+        setConflicts(error.details || []);
+        toast.error(t('appointments.conflict_error'));
+      } else {
+        toast.error(error instanceof ServiceError ? error.message : t('appointments.save_error'));
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleStatus(action: 'confirm' | 'cancel' | 'no-show') {
+    if (action !== 'confirm') {
+      const confirmed = await confirm({
+        title: t('common.confirm'),
+        message: t(action === 'cancel' ? 'appointments.confirm_cancel' : 'appointments.confirm_no_show'),
+        confirmText: t('common.confirm'),
+        cancelText: t('common.cancel'),
+        isDangerous: true,
+      });
+      if (!confirmed) return;
+    }
+
+    try {
+      await appointmentsService.setStatus(appointment!.id, action);
+      onSaved();
+    } catch (error) {
+      console.error('Error updating appointment status:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('appointments.save_error'));
+    }
+  }
+
+  async function handleConvert() {
+    try {
+      const converted = await appointmentsService.convertToWorkOrder(appointment!.id);
+      toast.success(t('appointments.converted'));
+      if (converted.work_order_id) {
+        onViewWorkOrder(converted.work_order_id);
+      } else {
+        onSaved();
+      }
+    } catch (error) {
+      console.error('Error converting appointment:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('appointments.convert_error'));
+    }
+  }
+
+  async function handleDelete() {
+    const confirmed = await confirm({
+      title: t('common.confirm'),
+      message: t('appointments.confirm_delete'),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      isDangerous: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await appointmentsService.deleteAppointment(appointment!.id);
+      onSaved();
+    } catch (error) {
+      console.error('Error deleting appointment:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('appointments.save_error'));
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <h3 className="text-xl font-bold text-gray-800">
+              {appointment ? t('appointments.edit_appointment') : t('appointments.new_appointment')}
+            </h3>
+            {appointment && (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${APPOINTMENT_STATUS_STYLES[appointment.status]}`}>
+                {t(`appointments.statuses.${appointment.status}`)}
+              </span>
+            )}
+          </div>
+          <button type="button" onClick={onClose} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('work_orders.customer')} *</label>
+              <select
+                value={customerId}
+                onChange={(e) => {
+                  setCustomerId(e.target.value);
+                  setVehicleId('');
+                }}
+                disabled={!canSave}
+                className={inputClass}
+              >
+                <option value="">{t('work_orders.select_customer')}</option>
+                {customers.map((customer) => (
+                  <option key={customer.id} value={customer.id}>
+                    {customer.name} - {customer.phone}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('work_orders.vehicle')}</label>
+              <select
+                value={vehicleId}
+                onChange={(e) => setVehicleId(e.target.value)}
+                disabled={!canSave || !customerId}
+                className={inputClass}
+              >
+                <option value="">{t('work_orders.select_vehicle')}</option>
+                {vehicles.map((vehicle) => (
+                  <option key={vehicle.id} value={vehicle.id}>
+                    {vehicle.car_make} {vehicle.car_model} - {vehicle.plate_number}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('appointments.starts_at')} *</label>
+              <input
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                disabled={!canSave}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('appointments.duration')}</label>
+              <select
+                value={duration}
+                onChange={(e) => setDuration(Number(e.target.value))}
+                disabled={!canSave}
+                className={inputClass}
+              >
+                {[...new Set([...DURATION_OPTIONS, duration])].sort((a, b) => a - b).map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {t('appointments.duration_minutes', { count: minutes })}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('appointments.bay')}</label>
+              <select value={bayId} onChange={(e) => setBayId(e.target.value)} disabled={!canSave} className={inputClass}>
+                <option value="">{t('appointments.no_bay')}</option>
+                {bayOptions.map((bay) => (
+                  <option key={bay.id} value={bay.id}>
+                    {bay.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('appointments.technician')}</label>
+              <select
+                value={technicianId}
+                onChange={(e) => setTechnicianId(e.target.value)}
+                disabled={!canSave}
+                className={inputClass}
+              >
+                <option value="">{t('appointments.no_technician')}</option>
+                {technicianOptions.map((technician) => (
+                  <option key={technician.id} value={technician.id}>
+                    {technician.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="bg-amber-50 border border-amber-300 rounded-lg p-3 text-sm text-amber-900">
+              <div className="flex items-center gap-2 font-semibold mb-1">
+                <AlertTriangle className="h-4 w-4" />
+                {t('appointments.conflicts_title')}
+              </div>
+              <ul className="space-y-0.5">
+                {conflicts.map((conflict) => (
+                  <li key={`${conflict.type}-${conflict.appointment_id}`}>
+                    {t(`appointments.conflict_${conflict.type}`, {
+                      customer: conflict.customer_name,
+                      from: formatTime(conflict.starts_at),
+                      to: formatTime(conflict.ends_at),
+                    })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">{t('appointments.requested_services')}</label>
+              {canSave && (
+                <button
+                  type="button"
+                  onClick={() => setServices([...services, { service_type: '', description: '', labor_cost: 0 }])}
+                  className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <Plus className="h-4 w-4" />
+                  {t('work_orders.add_service')}
+                </button>
+              )}
+            </div>
+            {services.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('appointments.no_services')}</p>
+            ) : (
+              <div className="space-y-2">
+                {services.map((service, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2">
+                    <select
+                      value={service.service_type}
+                      onChange={(e) => updateService(index, { service_type: e.target.value })}
+                      disabled={!canSave}
+                      className="col-span-12 md:col-span-3 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">{t('services.service_type')}</option>
+                      {[...new Set([...serviceTypes, service.service_type].filter(Boolean))].map((type) => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={service.description}
+                      onChange={(e) => updateService(index, { description: e.target.value })}
+                      placeholder={t('services.description')}
+                      disabled={!canSave}
+                      className="col-span-8 md:col-span-6 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={service.labor_cost || ''}
+                      onChange={(e) => updateService(index, { labor_cost: parseFloat(normalizeNumberInput(e.target.value)) || 0 })}
+                      placeholder={t('services.cost')}
+                      disabled={!canSave}
+                      className="col-span-3 md:col-span-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                    />
+                    {canSave && (
+                      <button
+                        type="button"
+                        onClick={() => setServices(services.filter((_, i) => i !== index))}
+                        className="col-span-1 flex items-center justify-center text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.notes')}</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              disabled={!canSave}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 p-5 border-t border-gray-200">
+          <div className="flex flex-wrap gap-2">
+            {canUpdate && appointment!.status === 'scheduled' && (
+              <button
+                type="button"
+                onClick={() => handleStatus('confirm')}
+                className="inline-flex items-center gap-2 px-3 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <CheckCircle className="h-4 w-4" />
+                {t('appointments.confirm')}
+              </button>
+            )}
+            {canUpdate && hasDetailedPermission('work_orders.create') && (
+              <button
+                type="button"
+                onClick={handleConvert}
+                className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <ClipboardList className="h-4 w-4" />
+                {t('appointments.convert')}
+              </button>
+            )}
+            {canUpdate && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => handleStatus('no-show')}
+                  className="inline-flex items-center gap-2 px-3 py-2 bg-amber-100 text-amber-800 text-sm rounded-lg hover:bg-amber-200 transition-colors"
+                >
+                  <UserX className="h-4 w-4" />
+                  {t('appointments.no_show')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleStatus('cancel')}
+                  className="inline-flex items-center gap-2 px-3 py-2 bg-red-50 text-red-700 text-sm rounded-lg hover:bg-red-100 transition-colors"
+                >
+                  <Ban className="h-4 w-4" />
+                  {t('appointments.cancel_appointment')}
+                </button>
+              </>
+            )}
+            {appointment?.work_order && (
+              <button
+                type="button"
+                onClick={() => onViewWorkOrder(appointment.work_order!.id)}
+                className="inline-flex items-center gap-2 px-3 py-2 bg-blue-50 text-blue-700 text-sm rounded-lg hover:bg-blue-100 transition-colors"
+              >
+                <ClipboardList className="h-4 w-4" />
+                {t('appointments.view_work_order', { number: appointment.work_order.order_number })}
+              </button>
+            )}
+            {appointment && appointment.status !== 'arrived' && hasDetailedPermission('appointments.delete') && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                title={t('common.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              {canSave ? t('common.cancel') : t('common.close')}
+            </button>
+            {canSave && (
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4" />
+                {saving ? t('settings.saving') : t('common.save')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
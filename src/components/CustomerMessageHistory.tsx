@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, RotateCcw, MessageSquare } from 'lucide-react';
+import { notificationsService, ServiceError } from '../services';
+import { NotificationMessage } from '../types';
+import { useToast } from '../contexts/ToastContext';
+
+interface CustomerMessageHistoryProps {
+  customerId: string;
+  customerName: string;
+  canRetry: boolean;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const STATUS_STYLES: Record<NotificationMessage['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export function CustomerMessageHistory({ customerId, customerName, canRetry, onClose }: CustomerMessageHistoryProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [messages, setMessages] = useState<NotificationMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMessages(0);
+  }, [customerId]);
+
+  async function loadMessages(offset: number) {
+    setLoading(true);
+    try {
+      const result = await notificationsService.getMessages({ customerId, limit: PAGE_SIZE, offset });
+      setMessages((prev) => (offset === 0 ? result.data : [...prev, ...result.data]));
+      setHasMore(result.hasMore);
+    } catch (error) {
+      console.error('Error loading messages:', error);
+      toast.error(t('customers.messages_load_error'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleRetry(messageId: string) {
+    setRetryingId(messageId);
+    try {
+      const updated = await notificationsService.retryMessage(messageId);
+      setMessages((prev) => prev.map((message) => (message.id === messageId ? updated : message)));
+    } catch (error) {
+      console.error('Error retrying message:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('customers.message_retry_error'));
+    } finally {
+      setRetryingId(null);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-2xl font-bold text-gray-900">{t('customers.message_history')}</h3>
+            <p className="text-gray-600 mt-1">{customerName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2 rounded-lg hover:bg-gray-100">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {messages.map((message) => (
+            <div key={message.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <MessageSquare className="h-4 w-4" />
+                  <span>{t(`settings.notification_events.${message.event}`)}</span>
+                  <span className="text-gray-400">·</span>
+                  <span dir="ltr">{message.recipient}</span>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[message.status]}`}>
+                  {t(`customers.message_statuses.${message.status}`)}
+                </span>
+              </div>
+
+              <p className="text-gray-800 whitespace-pre-line" dir={message.language === 'ar' ? 'rtl' : 'ltr'}>
+                {message.body}
+              </p>
+
+              <div className="flex items-center justify-between gap-2 mt-3 text-xs text-gray-500">
+                <span>
+                  {new Date(message.sent_at || message.created_at).toLocaleString('en-US', {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                  {message.attempts > 1 && ` · ${t('customers.message_attempts', { count: message.attempts })}`}
+                </span>
+                {message.status === 'failed' && canRetry && (
+                  <button
+                    onClick={() => handleRetry(message.id)}
+                    disabled={retryingId !== null}
+                    className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    {t('customers.message_retry')}
+                  </button>
+                )}
+              </div>
+
+              {message.status !== 'sent' && message.last_error && (
+                <p className="mt-2 text-xs text-red-600 break-words" dir="ltr">{message.last_error}</p>
+              )}
+            </div>
+          ))}
+
+          {!loading && messages.length === 0 && (
+            <p className="text-center text-gray-500 py-8">{t('customers.no_messages')}</p>
+          )}
+
+          {loading && (
+            <p className="text-center text-gray-500 py-4">{t('common.loading')}</p>
+          )}
+
+          {!loading && hasMore && (
+            <div className="flex justify-center">
+              <button
+                onClick={() => loadMessages(messages.length)}
+                className="px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+              >
+                {t('common.load_more')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
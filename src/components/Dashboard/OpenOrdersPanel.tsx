@@ -1,6 +1,8 @@
 import { Wrench, Clock, ArrowRight } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { DashboardOpenOrders } from '../../types/dashboard';
+import { WorkOrderStatus } from '../../types';
+import { WORK_ORDER_STATUS_STYLES } from '../../utils/workOrderStatus';
 
 interface OpenOrdersPanelProps {
   data: DashboardOpenOrders;
@@ -12,25 +14,11 @@ export default function OpenOrdersPanel({ data, onViewOrder, onViewAll }: OpenOr
   const { t } = useTranslation();
 
   const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'in_progress':
-        return 'bg-blue-100 text-blue-800';
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
+    return WORK_ORDER_STATUS_STYLES[status as WorkOrderStatus] || 'bg-gray-100 text-gray-800';
   };
 
   const getStatusLabel = (status: string) => {
-    switch (status) {
-      case 'in_progress':
-        return t('status.in_progress');
-      case 'pending':
-        return t('status.pending');
-      default:
-        return status;
-    }
+    return status in WORK_ORDER_STATUS_STYLES ? t(`status.${status}`) : status;
   };
 
   return (
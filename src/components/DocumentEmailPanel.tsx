@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Mail, Send } from 'lucide-react';
+import { ServiceError, SendDocumentEmailData } from '../services';
+import { DocumentEmail } from '../types';
+import { useToast } from '../contexts/ToastContext';
+
+interface DocumentEmailPanelProps {
+  /** Invoice or quotation id, reloads the history when it changes */
+  documentId: string;
+  defaultRecipient?: string | null;
+  canSend: boolean;
+  /** Shown instead of the form when the document cannot be sent yet */
+  disabledReason?: string | null;
+  loadEmails: () => Promise<DocumentEmail[]>;
+  sendEmail: (data: SendDocumentEmailData) => Promise<DocumentEmail>;
+  onSent?: () => void;
+}
+
+const STATUS_STYLES: Record<DocumentEmail['status'], string> = {
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export function DocumentEmailPanel({
+  documentId,
+  defaultRecipient,
+  canSend,
+  disabledReason,
+  loadEmails,
+  sendEmail,
+  onSent,
+}: DocumentEmailPanelProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [emails, setEmails] = useState<DocumentEmail[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const [language, setLanguage] = useState<'' | 'ar' | 'en'>('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [documentId]);
+
+  async function fetchEmails() {
+    try {
+      setEmails(await loadEmails());
+    } catch (error) {
+      console.error('Error loading document emails:', error);
+    }
+  }
+
+  function openForm() {
+    setRecipient(defaultRecipient || '');
+    setLanguage('');
+    setShowForm(true);
+  }
+
+  async function handleSend() {
+    setSending(true);
+    try {
+      await sendEmail({ to: recipient.trim() || undefined, language: language || undefined });
+      toast.success(t('email.success_sent'));
+      setShowForm(false);
+      onSent?.();
+    } catch (error) {
+      console.error('Error sending document email:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('email.error_send'));
+    } finally {
+      setSending(false);
+      // A failed attempt is logged as well
+      await fetchEmails();
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100 no-print">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Mail className="h-5 w-5 text-blue-600" />
+          <h3 className="text-xl font-bold text-gray-900">{t('email.title')}</h3>
+        </div>
+        {canSend && !disabledReason && !showForm && (
+          <button
+            onClick={openForm}
+            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-all font-semibold"
+          >
+            <Send className="h-4 w-4" />
+            {t('email.send_by_email')}
+          </button>
+        )}
+      </div>
+
+      {canSend && disabledReason && (
+        <p className="text-sm text-gray-500 mb-4">{disabledReason}</p>
+      )}
+
+      {showForm && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end mb-6 border-b border-gray-200 pb-6">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('email.recipient')}</label>
+            <input
+              type="email"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              dir="ltr"
+              placeholder="customer@example.com"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('email.language')}</label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as '' | 'ar' | 'en')}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">{t('email.language_customer')}</option>
+              <option value="ar">العربية</option>
+              <option value="en">English</option>
+            </select>
+          </div>
+          <div className="md:col-span-3 flex gap-3">
+            <button
+              onClick={handleSend}
+              disabled={sending || !recipient.trim()}
+              className="flex items-center gap-2 bg-blue-600 text-white px-6 py-2 rounded-xl hover:bg-blue-700 transition-all font-semibold disabled:bg-gray-400"
+            >
+              <Send className="h-4 w-4" />
+              {sending ? t('email.sending') : t('email.send')}
+            </button>
+            <button
+              onClick={() => setShowForm(false)}
+              disabled={sending}
+              className="px-6 py-2 border-2 border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-all font-semibold"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {emails.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('email.no_emails')}</p>
+      ) : (
+        <div className="overflow-hidden border border-gray-200 rounded-xl">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50 text-gray-700">
+                <th className="text-right py-3 px-4">{t('common.date')}</th>
+                <th className="text-right py-3 px-4">{t('email.recipient')}</th>
+                <th className="text-right py-3 px-4">{t('email.subject')}</th>
+                <th className="text-right py-3 px-4">{t('common.status')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {emails.map((email) => (
+                <tr key={email.id}>
+                  <td className="py-3 px-4 text-gray-700">
+                    {new Date(email.created_at).toLocaleString('en-US', {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </td>
+                  <td className="py-3 px-4 text-gray-900" dir="ltr">{email.recipient}</td>
+                  <td className="py-3 px-4 text-gray-700">
+                    {email.subject}
+                    {email.status === 'failed' && email.error && (
+                      <p className="mt-1 text-xs text-red-600 break-words" dir="ltr">{email.error}</p>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[email.status]}`}>
+                      {t(`email.statuses.${email.status}`)}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Hash, Save } from 'lucide-react';
+import { settingsService, ServiceError, DocumentSequence, DocumentType } from '../services';
+import { useToast } from '../contexts/ToastContext';
+
+interface DocumentSequencesSettingsProps {
+  canEdit: boolean;
+}
+
+type SequenceForm = Pick<DocumentSequence, 'prefix' | 'reset_period' | 'padding'>;
+
+// Mirrors format_document_number() so the preview follows unsaved edits
+function previewNumber(sequence: DocumentSequence, form: SequenceForm): string {
+  const now = new Date();
+  const year = String(now.getFullYear());
+  const period =
+    form.reset_period === 'yearly' ? year :
+    form.reset_period === 'monthly' ? year + String(now.getMonth() + 1).padStart(2, '0') :
+    '';
+
+  // Changing the reset period restarts the counter
+  const next = form.reset_period === sequence.reset_period
+    ? Number(sequence.next_number.match(/(\d+)$/)?.[1] ?? sequence.last_number + 1)
+    : 1;
+
+  return form.prefix + (period ? `${period}-` : '') + String(next).padStart(form.padding || 1, '0');
+}
+
+export function DocumentSequencesSettings({ canEdit }: DocumentSequencesSettingsProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [sequences, setSequences] = useState<DocumentSequence[]>([]);
+  const [forms, setForms] = useState<Record<string, SequenceForm>>({});
+  const [savingType, setSavingType] = useState<DocumentType | null>(null);
+
+  useEffect(() => {
+    loadSequences();
+  }, []);
+
+  async function loadSequences() {
+    try {
+      const data = await settingsService.getDocumentSequences();
+      setSequences(data);
+      setForms(Object.fromEntries(data.map((s) => [
+        s.document_type,
+        { prefix: s.prefix, reset_period: s.reset_period, padding: s.padding },
+      ])));
+    } catch (error) {
+      console.error('Error loading document sequences:', error);
+    }
+  }
+
+  function updateForm(type: DocumentType, changes: Partial<SequenceForm>) {
+    setForms((prev) => ({ ...prev, [type]: { ...prev[type], ...changes } }));
+  }
+
+  async function handleSave(type: DocumentType) {
+    const form = forms[type];
+    if (!form) return;
+
+    setSavingType(type);
+    try {
+      const updated = await settingsService.updateDocumentSequence(type, form);
+      setSequences((prev) => prev.map((s) => (s.document_type === type ? updated : s)));
+      updateForm(type, { prefix: updated.prefix, reset_period: updated.reset_period, padding: updated.padding });
+      toast.success(t('settings.sequence_saved'));
+    } catch (error) {
+      console.error('Error saving document sequence:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('settings.sequence_error'));
+    } finally {
+      setSavingType(null);
+    }
+  }
+
+  if (sequences.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-3 mb-2">
+        <Hash className="h-6 w-6 text-blue-600" />
+        <h3 className="text-xl font-bold text-gray-800">{t('settings.document_numbering')}</h3>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">{t('settings.document_numbering_description')}</p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-start text-sm font-semibold text-gray-700">{t('settings.document_type')}</th>
+              <th className="px-4 py-3 text-start text-sm font-semibold text-gray-700">{t('settings.prefix')}</th>
+              <th className="px-4 py-3 text-start text-sm font-semibold text-gray-700">{t('settings.reset_period')}</th>
+              <th className="px-4 py-3 text-start text-sm font-semibold text-gray-700">{t('settings.padding')}</th>
+              <th className="px-4 py-3 text-start text-sm font-semibold text-gray-700">{t('settings.next_number')}</th>
+              {canEdit && <th className="px-4 py-3" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {sequences.map((sequence) => {
+              const form = forms[sequence.document_type];
+              if (!form) return null;
+
+              const changed =
+                form.prefix !== sequence.prefix ||
+                form.reset_period !== sequence.reset_period ||
+                form.padding !== sequence.padding;
+
+              return (
+                <tr key={sequence.document_type}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-800">
+                    {t(`settings.document_types.${sequence.document_type}`)}
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={form.prefix}
+                      onChange={(e) => updateForm(sequence.document_type, { prefix: e.target.value })}
+                      disabled={!canEdit}
+                      maxLength={20}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                      dir="ltr"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={form.reset_period}
+                      onChange={(e) => updateForm(sequence.document_type, { reset_period: e.target.value as SequenceForm['reset_period'] })}
+                      disabled={!canEdit}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                    >
+                      <option value="never">{t('settings.reset_periods.never')}</option>
+                      <option value="yearly">{t('settings.reset_periods.yearly')}</option>
+                      <option value="monthly">{t('settings.reset_periods.monthly')}</option>
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      min={1}
+                      max={12}
+                      value={form.padding}
+                      onChange={(e) => updateForm(sequence.document_type, { padding: parseInt(e.target.value) || 1 })}
+                      disabled={!canEdit}
+                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                      dir="ltr"
+                    />
+                  </td>
+                  <td className="px-4 py-3 font-mono text-sm text-gray-700" dir="ltr">
+                    {previewNumber(sequence, form)}
+                  </td>
+                  {canEdit && (
+                    <td className="px-4 py-3 text-end">
+                      <button
+                        type="button"
+                        onClick={() => handleSave(sequence.document_type)}
+                        disabled={!changed || savingType !== null}
+                        className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Save className="h-4 w-4" />
+                        {savingType === sequence.document_type ? t('settings.saving') : t('common.save')}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { supabase } from '../lib/supabase';
 import { Technician } from '../types';
 import { Award, TrendingUp, TrendingDown, Minus, Trophy, FileText, X } from 'lucide-react';
 import { displayNumber, formatToFixed } from '../utils/numberUtils';
+import { FINISHED_STATUSES } from '../utils/workOrderStatus';
 
 interface TechnicianEvaluation {
   technician: Technician;
@@ -65,7 +66,7 @@ export function EvaluationManagement({ technicians }: EvaluationManagementProps)
             )
           `)
           .eq('technician_id', technician.id)
-          .eq('service.work_order.status', 'completed');
+          .in('service.work_order.status', FINISHED_STATUSES);
 
         if (startDate) {
           query = query.gte('service.work_order.created_at', startDate);
@@ -182,7 +183,7 @@ export function EvaluationManagement({ technicians }: EvaluationManagementProps)
           )
         `)
         .eq('technician_id', technician.id)
-        .eq('service.work_order.status', 'completed');
+        .in('service.work_order.status', FINISHED_STATUSES);
 
       if (startDate) {
         query = query.gte('service.work_order.completed_at', startDate);
@@ -0,0 +1,309 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ClipboardList, Edit, Plus, Save, Trash2, X } from 'lucide-react';
+import { inspectionsService, ServiceError } from '../services';
+import { InspectionTemplate, InspectionTemplateItem } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { normalizeNumberInput } from '../utils/numberUtils';
+import { STANDARD_CHECKLIST } from '../utils/inspections';
+
+interface InspectionTemplatesSettingsProps {
+  canEdit: boolean;
+}
+
+interface TemplateForm {
+  id: string | null;
+  name: string;
+  description: string;
+  is_active: boolean;
+  items: InspectionTemplateItem[];
+}
+
+/**
+ * Multi-point checklists the technicians fill in against a work order.
+ */
+export function InspectionTemplatesSettings({ canEdit }: InspectionTemplatesSettingsProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [templates, setTemplates] = useState<InspectionTemplate[]>([]);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  async function loadTemplates() {
+    try {
+      setTemplates(await inspectionsService.getTemplates());
+    } catch (error) {
+      console.error('Error loading inspection templates:', error);
+    }
+  }
+
+  function startNew() {
+    setForm({
+      id: null,
+      name: t('inspections.standard.name'),
+      description: '',
+      is_active: true,
+      items: STANDARD_CHECKLIST.flatMap(({ category, items }) =>
+        items.map((item) => ({
+          category: t(`inspections.standard.${category}`),
+          label: t(`inspections.standard.items.${item}`),
+          estimated_cost: 0,
+        }))
+      ),
+    });
+  }
+
+  function startEdit(template: InspectionTemplate) {
+    setForm({
+      id: template.id,
+      name: template.name,
+      description: template.description || '',
+      is_active: template.is_active,
+      items: template.items.map(({ category, label, estimated_cost }) => ({ category, label, estimated_cost: Number(estimated_cost) })),
+    });
+  }
+
+  function updateItem(index: number, changes: Partial<InspectionTemplateItem>) {
+    if (!form) return;
+    setForm({ ...form, items: form.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  }
+
+  async function handleSave() {
+    if (!form) return;
+
+    if (!form.name.trim() || form.items.length === 0 || form.items.some((item) => !item.category.trim() || !item.label.trim())) {
+      toast.error(t('validation.fill_all_required'));
+      return;
+    }
+
+    const data = {
+      name: form.name,
+      description: form.description,
+      is_active: form.is_active,
+      items: form.items,
+    };
+
+    setSaving(true);
+    try {
+      if (form.id) {
+        await inspectionsService.updateTemplate(form.id, data);
+      } else {
+        await inspectionsService.createTemplate(data);
+      }
+      toast.success(t('inspections.template_saved'));
+      setForm(null);
+      await loadTemplates();
+    } catch (error) {
+      console.error('Error saving inspection template:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('inspections.template_error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(template: InspectionTemplate) {
+    const confirmed = await confirm({
+      title: t('common.confirm'),
+      message: t('inspections.confirm_delete_template', { name: template.name }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      isDangerous: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await inspectionsService.deleteTemplate(template.id);
+      await loadTemplates();
+    } catch (error) {
+      console.error('Error deleting inspection template:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('inspections.template_error'));
+    }
+  }
+
+  const categories = [...new Set((form?.items || []).map((item) => item.category).filter(Boolean))];
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-3">
+          <ClipboardList className="h-6 w-6 text-blue-600" />
+          <h3 className="text-xl font-bold text-gray-800">{t('inspections.templates')}</h3>
+        </div>
+        {canEdit && !form && (
+          <button
+            type="button"
+            onClick={startNew}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {t('inspections.new_template')}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-6">{t('inspections.templates_description')}</p>
+
+      {form ? (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('inspections.template_name')}</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.description')}</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {t('settings.template_active')}
+          </label>
+
+          <datalist id="inspection-categories">
+            {categories.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+
+          <div className="space-y-2">
+            <div className="hidden md:grid grid-cols-12 gap-2 text-xs font-medium text-gray-500">
+              <span className="col-span-3">{t('inspections.category')}</span>
+              <span className="col-span-6">{t('inspections.check_point')}</span>
+              <span className="col-span-2">{t('inspections.estimated_cost')}</span>
+            </div>
+            {form.items.map((item, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <input
+                  type="text"
+                  list="inspection-categories"
+                  value={item.category}
+                  onChange={(e) => updateItem(index, { category: e.target.value })}
+                  placeholder={t('inspections.category')}
+                  className="col-span-12 md:col-span-3 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  type="text"
+                  value={item.label}
+                  onChange={(e) => updateItem(index, { label: e.target.value })}
+                  placeholder={t('inspections.check_point')}
+                  className="col-span-8 md:col-span-6 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={item.estimated_cost || ''}
+                  onChange={(e) => updateItem(index, { estimated_cost: parseFloat(normalizeNumberInput(e.target.value)) || 0 })}
+                  placeholder="0"
+                  className="col-span-3 md:col-span-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, items: form.items.filter((_, i) => i !== index) })}
+                  className="col-span-1 flex items-center justify-center text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setForm({
+                ...form,
+                items: [...form.items, { category: form.items[form.items.length - 1]?.category || '', label: '', estimated_cost: 0 }],
+              })}
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4" />
+              {t('inspections.add_check_point')}
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              <X className="h-4 w-4" />
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="h-4 w-4" />
+              {saving ? t('settings.saving') : t('common.save')}
+            </button>
+          </div>
+        </div>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('inspections.no_templates')}</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between py-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-800">{template.name}</span>
+                  {!template.is_active && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                      {t('inspections.inactive')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500">
+                  {t('inspections.check_point_count', { count: template.items.length })}
+                  {template.description && ` · ${template.description}`}
+                </p>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => startEdit(template)}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(template)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
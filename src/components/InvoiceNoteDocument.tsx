@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { useTranslation } from 'react-i18next';
+import { InvoiceNote } from '../types';
+import { formatToFixed, toEnglishDigits } from '../utils/numberUtils';
+
+interface InvoiceNoteDocumentProps {
+  note: InvoiceNote;
+  invoiceNumber: string;
+  invoiceDate: string;
+  discountPercentage: number;
+  workshop: {
+    name: string;
+    address?: string;
+    phone?: string;
+    tax_number?: string;
+    commercial_registration?: string;
+  } | null;
+  customer: { name: string; phone?: string } | null;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Printable credit / debit note. Rendered alongside the invoice and shown
+ * only while that note is being printed.
+ */
+export function InvoiceNoteDocument({
+  note,
+  invoiceNumber,
+  invoiceDate,
+  discountPercentage,
+  workshop,
+  customer
+}: InvoiceNoteDocumentProps) {
+  const { t } = useTranslation();
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const isCredit = note.note_type === 'credit';
+  const isTaxNote = Number(note.tax_rate) > 0;
+
+  useEffect(() => {
+    if (!note.einvoice?.qr_code) {
+      setQrDataUrl(null);
+      return;
+    }
+
+    QRCode.toDataURL(note.einvoice.qr_code, { errorCorrectionLevel: 'M', margin: 1, width: 320 })
+      .then(setQrDataUrl)
+      .catch((error) => {
+        console.error('Error generating QR code:', error);
+        setQrDataUrl(null);
+      });
+  }, [note]);
+
+  const title = isCredit
+    ? (isTaxNote ? t('invoices.tax_credit_note') : t('invoices.credit_note'))
+    : (isTaxNote ? t('invoices.tax_debit_note') : t('invoices.debit_note'));
+
+  return (
+    <div className="bg-white p-6" dir="rtl">
+      <div className={`border-b-4 pb-4 mb-4 ${isCredit ? 'border-red-600' : 'border-blue-600'}`}>
+        <div className="flex justify-between items-start">
+          <div className="flex-1">
+            <h1 className="text-xl font-bold text-gray-900 mb-2">{workshop?.name || t('settings.workshop_name')}</h1>
+            {workshop?.address && <p className="text-sm text-gray-600 mb-1">{workshop.address}</p>}
+            {workshop?.phone && <p className="text-sm text-gray-600">{t('customers.phone')}: {workshop.phone}</p>}
+            {isTaxNote && workshop?.tax_number && (
+              <p className="text-sm font-semibold text-gray-900 mt-2">{t('settings.tax_number')}: {workshop.tax_number}</p>
+            )}
+            {workshop?.commercial_registration && (
+              <p className="text-sm text-gray-600">{t('settings.commercial_registration')}: {workshop.commercial_registration}</p>
+            )}
+          </div>
+          <div className="text-left space-y-1 text-sm">
+            <p className="text-lg font-bold text-gray-900">{title}</p>
+            <p className="text-xl font-bold text-gray-900">{note.note_number}</p>
+            <p className="text-gray-600">{t('common.date')}: {formatDate(note.created_at)}</p>
+            {qrDataUrl && (
+              <img src={qrDataUrl} alt={t('invoices.zatca_qr')} className="mt-2 w-28 h-28 border border-gray-200 p-1" />
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+        <div className="border border-gray-300 p-3">
+          <h3 className="font-bold text-gray-900 mb-2">{t('invoices.note_reference')}</h3>
+          <p className="text-gray-700">{t('invoices.invoice_number')}: <span className="font-semibold">{invoiceNumber}</span></p>
+          <p className="text-gray-700">{t('common.date')}: {formatDate(invoiceDate)}</p>
+        </div>
+        <div className="border border-gray-300 p-3">
+          <h3 className="font-bold text-gray-900 mb-2">{t('invoices.customer_info')}</h3>
+          {customer && (
+            <>
+              <p className="font-semibold text-gray-900">{customer.name}</p>
+              {customer.phone && <p className="text-gray-700">{t('customers.phone')}: {customer.phone}</p>}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="border border-gray-300 p-3 mb-4 text-sm">
+        <span className="font-bold text-gray-900">{t('invoices.note_reason')}: </span>
+        <span className="text-gray-700">{note.reason}</span>
+      </div>
+
+      <table className="w-full text-sm mb-4 border border-gray-300">
+        <thead>
+          <tr className="border-b-2 border-gray-400 text-gray-900">
+            <th className="text-right py-2 px-3">{t('services.description')}</th>
+            <th className="text-center py-2 px-3">{t('invoices.quantity')}</th>
+            <th className="text-center py-2 px-3">{t('invoices.price')}</th>
+            <th className="text-left py-2 px-3">{t('common.total')}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {note.items.map(item => (
+            <tr key={item.id}>
+              <td className="py-2 px-3 text-gray-900">{item.description}</td>
+              <td className="py-2 px-3 text-center text-gray-700">{formatToFixed(Number(item.quantity))}</td>
+              <td className="py-2 px-3 text-center text-gray-700">{formatToFixed(Number(item.unit_price))}</td>
+              <td className="py-2 px-3 text-left font-semibold text-gray-900">{formatToFixed(Number(item.total))} {t('common.sar')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-end mb-4">
+        <div className="w-80 space-y-1 text-sm">
+          <div className="flex justify-between border border-gray-300 px-3 py-1">
+            <span>{t('invoices.subtotal')}:</span>
+            <span className="font-semibold">{formatToFixed(Number(note.subtotal))} {t('common.sar')}</span>
+          </div>
+          {Number(note.discount_amount) > 0 && (
+            <div className="flex justify-between border border-gray-300 px-3 py-1">
+              <span>{t('invoices.discount')} ({toEnglishDigits(discountPercentage)}%):</span>
+              <span className="font-semibold">- {formatToFixed(Number(note.discount_amount))} {t('common.sar')}</span>
+            </div>
+          )}
+          {isTaxNote && (
+            <div className="flex justify-between border border-gray-300 px-3 py-1">
+              <span>{t('invoices.tax')} ({toEnglishDigits(Number(note.tax_rate))}%):</span>
+              <span className="font-semibold">{formatToFixed(Number(note.tax_amount))} {t('common.sar')}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-2 border-gray-900 px-3 py-2 text-base font-bold">
+            <span>{t('invoices.note_total')}:</span>
+            <span>{formatToFixed(Number(note.total))} {t('common.sar')}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { Plus, Trash2, X, Save } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { invoicesService, ServiceError, CreateInvoiceNoteData } from '../services';
+import { useToast } from '../contexts/ToastContext';
+import { InvoiceNote } from '../types';
+import { formatToFixed, normalizeNumberInput } from '../utils/numberUtils';
+
+interface NoteSourceItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+}
+
+interface DebitLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+}
+
+interface InvoiceNoteFormProps {
+  invoiceId: string;
+  invoiceNumber: string;
+  noteType: InvoiceNote['note_type'];
+  items: NoteSourceItem[];
+  existingNotes: InvoiceNote[];
+  discountPercentage: number;
+  taxRate: number;
+  taxType: 'inclusive' | 'exclusive';
+  onClose: () => void;
+  onCreated: (note: InvoiceNote) => void;
+}
+
+/**
+ * Quantity of an invoice line that can still be credited, taking earlier
+ * credit and debit notes against the same line into account.
+ */
+function remainingQuantity(item: NoteSourceItem, notes: InvoiceNote[]): number {
+  return notes.reduce((remaining, note) => {
+    const adjusted = note.items
+      .filter(noteItem => noteItem.invoice_item_id === item.id)
+      .reduce((sum, noteItem) => sum + Number(noteItem.quantity), 0);
+    return note.note_type === 'debit' ? remaining + adjusted : remaining - adjusted;
+  }, Number(item.quantity));
+}
+
+export function InvoiceNoteForm({
+  invoiceId,
+  invoiceNumber,
+  noteType,
+  items,
+  existingNotes,
+  discountPercentage,
+  taxRate,
+  taxType,
+  onClose,
+  onCreated
+}: InvoiceNoteFormProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [reason, setReason] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [debitLines, setDebitLines] = useState<DebitLine[]>([{ description: '', quantity: 1, unit_price: 0 }]);
+  const [saving, setSaving] = useState(false);
+
+  const creditableItems = items.map(item => ({ ...item, remaining: remainingQuantity(item, existingNotes) }));
+
+  const gross = noteType === 'credit'
+    ? creditableItems.reduce((sum, item) => sum + (quantities[item.id] || 0) * Number(item.unit_price), 0)
+    : debitLines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+  const afterDiscount = gross - (gross * discountPercentage) / 100;
+  const tax = taxType === 'inclusive'
+    ? (afterDiscount * taxRate) / (100 + taxRate)
+    : (afterDiscount * taxRate) / 100;
+  const total = taxType === 'inclusive' ? afterDiscount : afterDiscount + tax;
+
+  const creditAll = () => {
+    setQuantities(Object.fromEntries(creditableItems.map(item => [item.id, Math.max(item.remaining, 0)])));
+  };
+
+  const updateDebitLine = (index: number, field: keyof DebitLine, value: string) => {
+    setDebitLines(lines => lines.map((line, i) => i === index
+      ? { ...line, [field]: field === 'description' ? value : Number(normalizeNumberInput(value)) || 0 }
+      : line
+    ));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason.trim()) {
+      toast.warning(t('invoices.note_reason_required'));
+      return;
+    }
+
+    const noteItems: CreateInvoiceNoteData['items'] = noteType === 'credit'
+      ? creditableItems
+        .filter(item => (quantities[item.id] || 0) > 0)
+        .map(item => ({ invoice_item_id: item.id, quantity: quantities[item.id] }))
+      : debitLines
+        .filter(line => line.description.trim() && line.quantity > 0)
+        .map(line => ({ description: line.description.trim(), quantity: line.quantity, unit_price: line.unit_price }));
+
+    if (noteItems.length === 0 || gross <= 0) {
+      toast.warning(t('invoices.note_items_required'));
+      return;
+    }
+
+    if (noteType === 'credit' && creditableItems.some(item => (quantities[item.id] || 0) > item.remaining)) {
+      toast.warning(t('invoices.note_quantity_exceeded'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const note = await invoicesService.createInvoiceNote(invoiceId, {
+        note_type: noteType,
+        reason: reason.trim(),
+        items: noteItems,
+      });
+      toast.success(t(noteType === 'credit' ? 'invoices.credit_note_created' : 'invoices.debit_note_created'));
+      onCreated(note);
+    } catch (error) {
+      console.error('Error creating invoice note:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.note_create_error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-2xl font-bold text-gray-900">
+              {noteType === 'credit' ? t('invoices.new_credit_note') : t('invoices.new_debit_note')}
+            </h3>
+            <p className="text-gray-600 mt-1">{t('invoices.note_reference')}: {invoiceNumber}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-6 w-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {noteType === 'credit' ? (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-bold text-gray-900">{t('invoices.note_lines')}</h4>
+                <button
+                  type="button"
+                  onClick={creditAll}
+                  className="text-sm font-semibold text-blue-600 hover:text-blue-800"
+                >
+                  {t('invoices.credit_all_remaining')}
+                </button>
+              </div>
+              <div className="overflow-hidden border border-gray-200 rounded-xl">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50 text-gray-700">
+                      <th className="text-right py-3 px-4">{t('services.description')}</th>
+                      <th className="text-center py-3 px-4">{t('invoices.price')}</th>
+                      <th className="text-center py-3 px-4">{t('invoices.note_remaining_quantity')}</th>
+                      <th className="text-center py-3 px-4">{t('invoices.note_credit_quantity')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {creditableItems.map(item => (
+                      <tr key={item.id}>
+                        <td className="py-3 px-4 text-gray-900">{item.description}</td>
+                        <td className="py-3 px-4 text-center text-gray-700">{formatToFixed(Number(item.unit_price))}</td>
+                        <td className="py-3 px-4 text-center text-gray-700">{formatToFixed(item.remaining)}</td>
+                        <td className="py-3 px-4 text-center">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            value={quantities[item.id] || ''}
+                            disabled={item.remaining <= 0}
+                            onChange={(e) => setQuantities(current => ({
+                              ...current,
+                              [item.id]: Number(normalizeNumberInput(e.target.value)) || 0
+                            }))}
+                            className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-bold text-gray-900">{t('invoices.note_lines')}</h4>
+                <button
+                  type="button"
+                  onClick={() => setDebitLines(lines => [...lines, { description: '', quantity: 1, unit_price: 0 }])}
+                  className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-800"
+                >
+                  <Plus className="h-4 w-4" />
+                  {t('invoices.add_item')}
+                </button>
+              </div>
+              <div className="space-y-3">
+                {debitLines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-3 items-center">
+                    <input
+                      type="text"
+                      value={line.description}
+                      onChange={(e) => updateDebitLine(index, 'description', e.target.value)}
+                      placeholder={t('services.description')}
+                      className="col-span-6 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={line.quantity || ''}
+                      onChange={(e) => updateDebitLine(index, 'quantity', e.target.value)}
+                      placeholder={t('invoices.quantity')}
+                      className="col-span-2 px-3 py-2 border border-gray-200 rounded-lg text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={line.unit_price || ''}
+                      onChange={(e) => updateDebitLine(index, 'unit_price', e.target.value)}
+                      placeholder={t('invoices.price')}
+                      className="col-span-3 px-3 py-2 border border-gray-200 rounded-lg text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setDebitLines(lines => lines.filter((_, i) => i !== index))}
+                      disabled={debitLines.length === 1}
+                      className="col-span-1 flex justify-center text-red-600 hover:text-red-800 disabled:text-gray-300"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('invoices.note_reason')} <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+          </div>
+
+          <div className="bg-gray-50 rounded-xl p-4 space-y-2 text-sm">
+            {discountPercentage > 0 && (
+              <div className="flex justify-between text-gray-700">
+                <span>{t('invoices.discount')} ({discountPercentage}%)</span>
+                <span>- {formatToFixed(gross - afterDiscount)} {t('common.sar')}</span>
+              </div>
+            )}
+            {taxRate > 0 && (
+              <div className="flex justify-between text-gray-700">
+                <span>{t('invoices.tax')} ({taxRate}%)</span>
+                <span>{formatToFixed(tax)} {t('common.sar')}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-bold text-gray-900 text-base">
+              <span>{t('invoices.note_total')}</span>
+              <span>{formatToFixed(total)} {t('common.sar')}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex gap-3">
+          <button
+            type="submit"
+            disabled={saving}
+            className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-white font-semibold transition-all disabled:bg-gray-400 ${
+              noteType === 'credit' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            <Save className="h-5 w-5" />
+            {saving ? t('common.saving') : t('invoices.issue_note')}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-all font-semibold"
+          >
+            {t('common.cancel')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Undo2 } from 'lucide-react';
+import { invoicesService, ServiceError, CreateInvoiceRefundData, RefundApprover } from '../services';
+import { InvoiceNote, InvoiceRefund } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { formatToFixed, normalizeNumberInput } from '../utils/numberUtils';
+
+interface InvoiceRefundsProps {
+  invoiceId: string;
+  /** Paid on the invoice, net of the refunds already made */
+  paidAmount: number;
+  notes: InvoiceNote[];
+  canRefund: boolean;
+  /** The refund lowers the paid amount of the invoice */
+  onRecorded: () => void;
+}
+
+const METHODS: CreateInvoiceRefundData['refund_method'][] = ['cash', 'card', 'bank_transfer', 'other'];
+
+const EMPTY_REFUND: CreateInvoiceRefundData = { amount: 0, refund_method: 'cash', card_type: null, reference: '', reason: '', note_id: null, approved_by: '' };
+
+export function InvoiceRefunds({ invoiceId, paidAmount, notes, canRefund, onRecorded }: InvoiceRefundsProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { user } = useAuth();
+  const [refunds, setRefunds] = useState<InvoiceRefund[]>([]);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<CreateInvoiceRefundData>(EMPTY_REFUND);
+  const [approvers, setApprovers] = useState<RefundApprover[]>([]);
+
+  useEffect(() => {
+    loadRefunds();
+  }, [invoiceId]);
+
+  async function loadRefunds() {
+    try {
+      setRefunds(await invoicesService.getInvoiceRefunds(invoiceId));
+    } catch (error) {
+      console.error('Error loading refunds:', error);
+    }
+  }
+
+  const creditNotes = notes.filter(note => note.note_type === 'credit');
+  const refundable = Math.max(paidAmount, 0);
+
+  function refundableFor(noteId: string | null | undefined) {
+    const note = creditNotes.find(creditNote => creditNote.id === noteId);
+    if (!note) return refundable;
+
+    const refundedOnNote = refunds
+      .filter(refund => refund.note_id === note.id)
+      .reduce((sum, refund) => sum + Number(refund.amount), 0);
+    return Math.min(refundable, Math.max(Number(note.total) - refundedOnNote, 0));
+  }
+
+  async function openForm() {
+    let list = approvers;
+    if (list.length === 0) {
+      try {
+        list = await invoicesService.getRefundApprovers();
+        setApprovers(list);
+      } catch (error) {
+        console.error('Error loading refund approvers:', error);
+      }
+    }
+
+    // Money is usually returned for the latest credit note
+    const noteId = creditNotes[creditNotes.length - 1]?.id || null;
+    // A user who may approve refunds approves their own
+    const approverId = list.find(approver => approver.id === user?.id)?.id || '';
+    setForm({ ...EMPTY_REFUND, note_id: noteId, amount: Math.round(refundableFor(noteId) * 100) / 100, approved_by: approverId });
+    setAdding(true);
+  }
+
+  async function handleSave() {
+    if (!(form.amount > 0) || !form.reason.trim() || !form.approved_by) {
+      toast.warning(t('validation.fill_all_required'));
+      return;
+    }
+    if (form.amount > refundableFor(form.note_id) + 0.01) {
+      toast.warning(t('invoices.refund_exceeds_refundable'));
+      return;
+    }
+    if (form.refund_method === 'bank_transfer' && !form.reference?.trim()) {
+      toast.warning(t('invoices.transfer_reference_required'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const refund = await invoicesService.createInvoiceRefund(invoiceId, form);
+      toast.success(t('invoices.refund_recorded', { number: refund.refund_number }));
+      setAdding(false);
+      await loadRefunds();
+      onRecorded();
+    } catch (error) {
+      console.error('Error recording refund:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.refund_error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function methodLabel(refund: InvoiceRefund) {
+    return refund.refund_method === 'card' && refund.card_type
+      ? `${t('common.payment_methods.card')} (${t(`common.card_types.${refund.card_type}`)})`
+      : t(`common.payment_methods.${refund.refund_method}`);
+  }
+
+  if (refunds.length === 0 && !canRefund) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100 no-print">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Undo2 className="h-5 w-5 text-orange-600" />
+          <h3 className="text-xl font-bold text-gray-900">{t('invoices.refunds')}</h3>
+        </div>
+        {canRefund && !adding && refundable > 0.009 && (
+          <button
+            onClick={openForm}
+            className="flex items-center gap-2 bg-orange-600 text-white px-4 py-2 rounded-xl hover:bg-orange-700 transition-all font-semibold"
+          >
+            <Undo2 className="h-4 w-4" />
+            {t('invoices.record_refund')}
+          </button>
+        )}
+      </div>
+
+      {refunds.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('invoices.no_refunds')}</p>
+      ) : (
+        <div className="overflow-hidden border border-gray-200 rounded-xl mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50 text-gray-700">
+                <th className="text-right py-3 px-4">{t('invoices.refund_number')}</th>
+                <th className="text-right py-3 px-4">{t('common.date')}</th>
+                <th className="text-right py-3 px-4">{t('common.payment_method')}</th>
+                <th className="text-right py-3 px-4">{t('invoices.refund_reason')}</th>
+                <th className="text-right py-3 px-4">{t('invoices.approved_by')}</th>
+                <th className="text-right py-3 px-4">{t('invoices.recorded_by')}</th>
+                <th className="text-left py-3 px-4">{t('invoices.refund_amount')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {refunds.map(refund => (
+                <tr key={refund.id}>
+                  <td className="py-3 px-4 font-semibold text-gray-900">
+                    {refund.refund_number}
+                    {refund.note && (
+                      <span className="block text-xs font-normal text-gray-500">{refund.note.note_number}</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-gray-700">
+                    {new Date(refund.refunded_at).toLocaleString('en-US', {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </td>
+                  <td className="py-3 px-4">
+                    {methodLabel(refund)}
+                    {refund.reference && <span className="block text-xs text-gray-500">{refund.reference}</span>}
+                  </td>
+                  <td className="py-3 px-4 text-gray-700">{refund.reason}</td>
+                  <td className="py-3 px-4 text-gray-700">{refund.approved_by_name || '-'}</td>
+                  <td className="py-3 px-4 text-gray-700">{refund.recorded_by_name || '-'}</td>
+                  <td className="py-3 px-4 text-left font-bold text-orange-700">-{formatToFixed(Number(refund.amount))} {t('common.sar')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {adding && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t border-gray-200 pt-6">
+          {creditNotes.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('invoices.refund_for_note')}</label>
+              <select
+                value={form.note_id || ''}
+                onChange={(e) => setForm({ ...form, note_id: e.target.value || null })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">{t('invoices.refund_no_note')}</option>
+                {creditNotes.map(note => (
+                  <option key={note.id} value={note.id}>
+                    {note.note_number} ({formatToFixed(Number(note.total))} {t('common.sar')})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('invoices.refund_amount')}
+              <span className="text-gray-400 font-normal mr-2">
+                {t('invoices.refundable', { amount: formatToFixed(refundableFor(form.note_id)) })}
+              </span>
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={form.amount || ''}
+              onChange={(e) => setForm({ ...form, amount: Number(normalizeNumberInput(e.target.value)) || 0 })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-semibold"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('common.payment_method')}</label>
+            <select
+              value={form.refund_method}
+              onChange={(e) => {
+                const method = e.target.value as CreateInvoiceRefundData['refund_method'];
+                setForm({ ...form, refund_method: method, card_type: method === 'card' ? form.card_type || 'mada' : null });
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {METHODS.map(method => (
+                <option key={method} value={method}>{t(`common.payment_methods.${method}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          {form.refund_method === 'card' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('common.card_type')}</label>
+              <select
+                value={form.card_type || 'mada'}
+                onChange={(e) => setForm({ ...form, card_type: e.target.value as 'mada' | 'visa' })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="mada">{t('common.card_types.mada')}</option>
+                <option value="visa">{t('common.card_types.visa')}</option>
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('invoices.payment_reference')}
+              {form.refund_method !== 'bank_transfer' && (
+                <span className="text-gray-400 font-normal"> ({t('common.optional')})</span>
+              )}
+            </label>
+            <input
+              type="text"
+              value={form.reference || ''}
+              onChange={(e) => setForm({ ...form, reference: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('invoices.approved_by')}</label>
+            <select
+              value={form.approved_by}
+              onChange={(e) => setForm({ ...form, approved_by: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">{t('invoices.select_approver')}</option>
+              {approvers.map(approver => (
+                <option key={approver.id} value={approver.id}>{approver.full_name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('invoices.refund_reason')}</label>
+            <textarea
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="md:col-span-2 flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 bg-orange-600 text-white px-6 py-2 rounded-xl hover:bg-orange-700 transition-all font-semibold disabled:bg-gray-400"
+            >
+              {saving ? t('common.saving') : t('invoices.confirm_refund')}
+            </button>
+            <button
+              onClick={() => setAdding(false)}
+              disabled={saving}
+              className="px-6 py-2 border-2 border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-all font-semibold"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ import {
   Menu,
   X,
   Car,
+  FileSignature,
+  CalendarDays,
+  KanbanSquare,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { PermissionKey } from '../types';
@@ -51,7 +54,10 @@ export function Navbar({ activeTab, setActiveTab }: NavbarProps) {
     { id: 'dashboard', label: t('nav.dashboard'), icon: LayoutDashboard, permission: 'dashboard' },
     { id: 'customers', label: t('nav.customers'), icon: UserCircle, permission: 'customers' },
     { id: 'technicians', label: t('nav.technicians'), icon: Users, permission: 'technicians' },
+    { id: 'quotations', label: t('nav.quotations'), icon: FileSignature, permission: 'quotations' },
+    { id: 'appointments', label: t('nav.appointments'), icon: CalendarDays, permission: 'appointments' },
     { id: 'work-orders', label: t('nav.work_orders'), icon: ClipboardList, permission: 'work_orders' },
+    { id: 'job-board', label: t('nav.job_board'), icon: KanbanSquare, permission: 'work_orders' },
     { id: 'invoices', label: t('nav.invoices'), icon: FileText, permission: 'invoices' },
     { id: 'inventory', label: t('nav.inventory'), icon: Package, permission: 'inventory' },
     { id: 'expenses', label: t('nav.expenses'), icon: Receipt, permission: 'expenses' },
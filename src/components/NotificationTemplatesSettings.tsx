@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MessageSquareText, Save } from 'lucide-react';
+import { notificationsService, ServiceError, NotificationTemplate } from '../services';
+import { NotificationEvent } from '../types';
+import { useToast } from '../contexts/ToastContext';
+
+interface NotificationTemplatesSettingsProps {
+  canEdit: boolean;
+}
+
+type TemplateForm = Pick<NotificationTemplate, 'body_en' | 'body_ar' | 'is_active'>;
+
+const PLACEHOLDERS = ['customer_name', 'vehicle', 'plate_number', 'document_number', 'amount', 'workshop_name'];
+
+export function NotificationTemplatesSettings({ canEdit }: NotificationTemplatesSettingsProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [forms, setForms] = useState<Record<string, TemplateForm>>({});
+  const [savingEvent, setSavingEvent] = useState<NotificationEvent | null>(null);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  async function loadTemplates() {
+    try {
+      const data = await notificationsService.getTemplates();
+      setTemplates(data);
+      setForms(Object.fromEntries(data.map((template) => [
+        template.event,
+        { body_en: template.body_en, body_ar: template.body_ar, is_active: template.is_active },
+      ])));
+    } catch (error) {
+      console.error('Error loading notification templates:', error);
+    }
+  }
+
+  function updateForm(event: NotificationEvent, changes: Partial<TemplateForm>) {
+    setForms((prev) => ({ ...prev, [event]: { ...prev[event], ...changes } }));
+  }
+
+  async function handleSave(event: NotificationEvent) {
+    const form = forms[event];
+    if (!form) return;
+
+    setSavingEvent(event);
+    try {
+      const updated = await notificationsService.updateTemplate(event, form);
+      setTemplates((prev) => prev.map((template) => (template.event === event ? updated : template)));
+      toast.success(t('settings.template_saved'));
+    } catch (error) {
+      console.error('Error saving notification template:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('settings.template_error'));
+    } finally {
+      setSavingEvent(null);
+    }
+  }
+
+  if (templates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-3 mb-2">
+        <MessageSquareText className="h-6 w-6 text-blue-600" />
+        <h3 className="text-xl font-bold text-gray-800">{t('settings.notification_templates')}</h3>
+      </div>
+      <p className="text-sm text-gray-500 mb-2">{t('settings.notification_templates_description')}</p>
+      <div className="flex flex-wrap gap-2 mb-6" dir="ltr">
+        {PLACEHOLDERS.map((placeholder) => (
+          <code key={placeholder} className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-700">
+            {`{{${placeholder}}}`}
+          </code>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        {templates.map((template) => {
+          const form = forms[template.event];
+          if (!form) return null;
+
+          const changed =
+            form.body_en !== template.body_en ||
+            form.body_ar !== template.body_ar ||
+            form.is_active !== template.is_active;
+
+          return (
+            <div key={template.event} className="border border-gray-200 rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold text-gray-800">{t(`settings.notification_events.${template.event}`)}</h4>
+                  {template.is_default && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                      {t('settings.template_default')}
+                    </span>
+                  )}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.is_active}
+                    onChange={(e) => updateForm(template.event, { is_active: e.target.checked })}
+                    disabled={!canEdit}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {t('settings.template_active')}
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('settings.template_arabic')}</label>
+                  <textarea
+                    value={form.body_ar}
+                    onChange={(e) => updateForm(template.event, { body_ar: e.target.value })}
+                    disabled={!canEdit}
+                    rows={4}
+                    maxLength={1000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                    dir="rtl"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('settings.template_english')}</label>
+                  <textarea
+                    value={form.body_en}
+                    onChange={(e) => updateForm(template.event, { body_en: e.target.value })}
+                    disabled={!canEdit}
+                    rows={4}
+                    maxLength={1000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                    dir="ltr"
+                  />
+                </div>
+              </div>
+
+              {canEdit && (
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => handleSave(template.event)}
+                    disabled={!changed || savingEvent !== null}
+                    className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Save className="h-4 w-4" />
+                    {savingEvent === template.event ? t('settings.saving') : t('common.save')}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
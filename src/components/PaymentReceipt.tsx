@@ -0,0 +1,106 @@
+import { useTranslation } from 'react-i18next';
+import { InvoicePayment } from '../types';
+import { formatToFixed } from '../utils/numberUtils';
+
+interface PaymentReceiptProps {
+  payment: InvoicePayment;
+  invoiceNumber: string;
+  invoiceTotal: number;
+  /** Total paid on the invoice up to and including this payment */
+  paidToDate: number;
+  workshop: {
+    name: string;
+    address?: string;
+    phone?: string;
+    tax_number?: string;
+    commercial_registration?: string;
+  } | null;
+  customer: { name: string; phone?: string } | null;
+}
+
+/**
+ * Printable receipt of a single invoice payment. Rendered alongside the
+ * invoice and shown only while that receipt is being printed.
+ */
+export function PaymentReceipt({
+  payment,
+  invoiceNumber,
+  invoiceTotal,
+  paidToDate,
+  workshop,
+  customer
+}: PaymentReceiptProps) {
+  const { t } = useTranslation();
+
+  const method = payment.payment_method === 'card' && payment.card_type
+    ? `${t('common.payment_methods.card')} (${t(`common.card_types.${payment.card_type}`)})`
+    : t(`common.payment_methods.${payment.payment_method}`);
+
+  const rows: Array<[string, string]> = [
+    [t('invoices.received_from'), customer?.name || '-'],
+    [t('invoices.payment_for_invoice'), invoiceNumber],
+    [t('common.payment_method'), method],
+    ...(payment.reference ? [[t('invoices.payment_reference'), payment.reference] as [string, string]] : []),
+    [t('invoices.grand_total'), `${formatToFixed(invoiceTotal)} ${t('common.sar')}`],
+    [t('invoices.amount_paid'), `${formatToFixed(paidToDate)} ${t('common.sar')}`],
+    [t('invoices.remaining_amount'), `${formatToFixed(Math.max(invoiceTotal - paidToDate, 0))} ${t('common.sar')}`],
+  ];
+
+  return (
+    <div className="bg-white p-6" dir="rtl">
+      <div className="border-b-4 border-emerald-600 pb-4 mb-4">
+        <div className="flex justify-between items-start">
+          <div className="flex-1">
+            <h1 className="text-xl font-bold text-gray-900 mb-2">{workshop?.name || t('settings.workshop_name')}</h1>
+            {workshop?.address && <p className="text-sm text-gray-600 mb-1">{workshop.address}</p>}
+            {workshop?.phone && <p className="text-sm text-gray-600">{t('customers.phone')}: {workshop.phone}</p>}
+            {workshop?.tax_number && (
+              <p className="text-sm text-gray-600">{t('settings.tax_number')}: {workshop.tax_number}</p>
+            )}
+            {workshop?.commercial_registration && (
+              <p className="text-sm text-gray-600">{t('settings.commercial_registration')}: {workshop.commercial_registration}</p>
+            )}
+          </div>
+          <div className="text-left space-y-1 text-sm">
+            <p className="text-lg font-bold text-gray-900">{t('invoices.payment_receipt')}</p>
+            <p className="text-xl font-bold text-gray-900">{payment.receipt_number}</p>
+            <p className="text-gray-600">
+              {t('common.date')}: {new Date(payment.paid_at).toLocaleString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit'
+              })}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="border-2 border-gray-900 p-4 mb-4 flex justify-between items-center">
+        <span className="text-base font-bold text-gray-900">{t('invoices.received_amount')}</span>
+        <span className="text-2xl font-bold text-gray-900">{formatToFixed(Number(payment.amount))} {t('common.sar')}</span>
+      </div>
+
+      <table className="w-full text-sm mb-6 border border-gray-300">
+        <tbody className="divide-y divide-gray-200">
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td className="py-2 px-3 font-semibold text-gray-900 w-1/3">{label}</td>
+              <td className="py-2 px-3 text-gray-700">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-2 gap-8 text-sm pt-8">
+        <div className="border-t border-gray-400 pt-2 text-center text-gray-700">
+          {t('invoices.received_by')}: {payment.received_by_name || '-'}
+        </div>
+        <div className="border-t border-gray-400 pt-2 text-center text-gray-700">
+          {t('invoices.customer_signature')}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { Banknote, CreditCard, Landmark, Plus, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { CreateInvoicePaymentData } from '../services';
+import { formatToFixed, normalizeNumberInput } from '../utils/numberUtils';
+
+interface PaymentTendersInputProps {
+  tenders: CreateInvoicePaymentData[];
+  onChange: (tenders: CreateInvoicePaymentData[]) => void;
+  /** Amount still due before these tenders */
+  amountDue: number;
+}
+
+const METHODS: Array<{ value: CreateInvoicePaymentData['payment_method']; icon: typeof Banknote; active: string }> = [
+  { value: 'cash', icon: Banknote, active: 'border-green-500 bg-green-50 text-green-700' },
+  { value: 'card', icon: CreditCard, active: 'border-blue-500 bg-blue-50 text-blue-700' },
+  { value: 'bank_transfer', icon: Landmark, active: 'border-purple-500 bg-purple-50 text-purple-700' },
+];
+
+/**
+ * Tenders of one checkout, e.g. part cash and part mada. Each tender is
+ * recorded as a separate payment on the invoice.
+ */
+export function PaymentTendersInput({ tenders, onChange, amountDue }: PaymentTendersInputProps) {
+  const { t } = useTranslation();
+
+  const tendered = tenders.reduce((sum, tender) => sum + (Number(tender.amount) || 0), 0);
+  const remaining = amountDue - tendered;
+
+  const updateTender = (index: number, changes: Partial<CreateInvoicePaymentData>) => {
+    onChange(tenders.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
+  };
+
+  const addTender = () => {
+    onChange([
+      ...tenders,
+      { payment_method: 'card', card_type: 'mada', amount: Math.max(Math.round(remaining * 100) / 100, 0), reference: '' },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {tenders.map((tender, index) => (
+        <div key={index} className="border border-gray-200 rounded-xl p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <div className="grid grid-cols-3 gap-2 flex-1">
+              {METHODS.map(({ value, icon: Icon, active }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => updateTender(index, {
+                    payment_method: value,
+                    card_type: value === 'card' ? tender.card_type || 'mada' : null,
+                  })}
+                  className={`flex items-center justify-center gap-2 py-2 px-3 rounded-xl border-2 transition-all text-sm ${
+                    tender.payment_method === value
+                      ? active
+                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  <span className="font-semibold">{t(`common.payment_methods.${value}`)}</span>
+                </button>
+              ))}
+            </div>
+            {tenders.length > 1 && (
+              <button
+                type="button"
+                onClick={() => onChange(tenders.filter((_, i) => i !== index))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title={t('common.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {tender.payment_method === 'card' && (
+              <div className="grid grid-cols-2 gap-2">
+                {(['mada', 'visa'] as const).map(cardType => (
+                  <button
+                    key={cardType}
+                    type="button"
+                    onClick={() => updateTender(index, { card_type: cardType })}
+                    className={`py-2 px-3 rounded-xl border-2 transition-all font-semibold text-sm ${
+                      tender.card_type === cardType
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    {t(`common.card_types.${cardType}`)}
+                  </button>
+                ))}
+              </div>
+            )}
+            <input
+              type="text"
+              inputMode="decimal"
+              value={tender.amount || ''}
+              onChange={(e) => updateTender(index, { amount: Number(normalizeNumberInput(e.target.value)) || 0 })}
+              placeholder={t('invoices.payment_amount')}
+              className="px-4 py-2 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent font-semibold"
+            />
+            <input
+              type="text"
+              value={tender.reference || ''}
+              onChange={(e) => updateTender(index, { reference: e.target.value })}
+              placeholder={tender.payment_method === 'bank_transfer'
+                ? t('invoices.transfer_reference_placeholder')
+                : `${t('invoices.payment_reference')} (${t('common.optional')})`}
+              className={`px-4 py-2 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                tender.payment_method === 'bank_transfer' && !tender.reference?.trim()
+                  ? 'border-amber-300'
+                  : 'border-gray-200'
+              } ${tender.payment_method === 'card' ? '' : 'md:col-span-2'}`}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={addTender}
+          className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="h-4 w-4" />
+          {t('invoices.add_tender')}
+        </button>
+        <div className="text-sm text-gray-700 space-x-4 space-x-reverse">
+          <span>{t('invoices.tendered_total')}: <span className="font-bold">{formatToFixed(tendered)} {t('common.sar')}</span></span>
+          <span className={remaining < -0.01 ? 'text-red-600 font-bold' : ''}>
+            {t('invoices.remaining_amount')}: <span className="font-bold">{formatToFixed(remaining)} {t('common.sar')}</span>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BookOpen, Search } from 'lucide-react';
+import { ServiceCatalogItem } from '../types';
+import { displayNumber } from '../utils/numberUtils';
+import { catalogItemName, matchesCatalogSearch } from '../utils/serviceCatalog';
+
+interface ServiceCatalogPickerProps {
+  items: ServiceCatalogItem[];
+  onSelect: (item: ServiceCatalogItem) => void;
+}
+
+const MAX_RESULTS = 8;
+
+/**
+ * Search box filling a service line from the catalog, by code or by name.
+ */
+export function ServiceCatalogPicker({ items, onSelect }: ServiceCatalogPickerProps) {
+  const { t, i18n } = useTranslation();
+  const [search, setSearch] = useState('');
+  const [open, setOpen] = useState(false);
+
+  if (items.length === 0) return null;
+
+  const results = items.filter((item) => matchesCatalogSearch(item, search)).slice(0, MAX_RESULTS);
+
+  function select(item: ServiceCatalogItem) {
+    onSelect(item);
+    setSearch('');
+    setOpen(false);
+  }
+
+  return (
+    <div className="relative">
+      <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-1">
+        <BookOpen className="h-4 w-4" />
+        {t('service_catalog.pick')}
+      </label>
+      <div className="relative">
+        <Search className="absolute top-1/2 -translate-y-1/2 start-3 h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder={t('service_catalog.search_placeholder')}
+          className="w-full ps-9 pe-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {open && (
+        <div className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-72 overflow-y-auto">
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">{t('service_catalog.no_results')}</p>
+          ) : (
+            results.map((item) => (
+              <button
+                key={item.id}
+                type="button"
+                // Keeps the input from blurring before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(item)}
+                className="w-full flex items-center justify-between gap-3 px-4 py-2 text-start hover:bg-blue-50"
+              >
+                <span>
+                  <span className="font-mono text-xs text-gray-500 me-2">{item.code}</span>
+                  <span className="text-gray-800">{catalogItemName(item, i18n.language)}</span>
+                </span>
+                <span className="text-sm text-gray-600 whitespace-nowrap">
+                  {displayNumber(item.default_price)} {t('common.sar')}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
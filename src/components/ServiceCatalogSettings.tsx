@@ -0,0 +1,383 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BookOpen, Edit, Plus, Save, Search, Trash2, X } from 'lucide-react';
+import { serviceCatalogService, inventoryService, ServiceError, SaveServiceCatalogItemData } from '../services';
+import { ServiceCatalogItem, SparePart } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { displayNumber } from '../utils/numberUtils';
+import { SERVICE_CATEGORIES, catalogItemName, matchesCatalogSearch } from '../utils/serviceCatalog';
+
+interface ServiceCatalogSettingsProps {
+  canEdit: boolean;
+}
+
+type ItemForm = Required<SaveServiceCatalogItemData> & { id: string | null };
+
+const EMPTY_ITEM: ItemForm = {
+  id: null,
+  code: '',
+  name_ar: '',
+  name_en: '',
+  category: 'mechanics',
+  standard_hours: 1,
+  default_price: 0,
+  default_parts: [],
+  is_active: true,
+};
+
+/**
+ * Standard jobs with their price, labor time and usual parts, picked from
+ * the work order and quotation screens.
+ */
+export function ServiceCatalogSettings({ canEdit }: ServiceCatalogSettingsProps) {
+  const { t, i18n } = useTranslation();
+  const toast = useToast();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [items, setItems] = useState<ServiceCatalogItem[]>([]);
+  const [spareParts, setSpareParts] = useState<SparePart[]>([]);
+  const [search, setSearch] = useState('');
+  const [form, setForm] = useState<ItemForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  // Default parts are only chosen by those who can edit the catalog
+  useEffect(() => {
+    if (canEdit) loadSpareParts();
+  }, [canEdit]);
+
+  async function loadItems() {
+    try {
+      setItems(await serviceCatalogService.getItems());
+    } catch (error) {
+      console.error('Error loading service catalog:', error);
+    }
+  }
+
+  async function loadSpareParts() {
+    try {
+      setSpareParts(await inventoryService.getAllSpareParts({ orderBy: 'name', orderDirection: 'asc' }));
+    } catch (error) {
+      console.error('Error loading spare parts:', error);
+    }
+  }
+
+  async function handleSave() {
+    if (!form) return;
+
+    if (!form.code.trim() || !form.name_ar.trim()) {
+      toast.error(t('validation.fill_all_required'));
+      return;
+    }
+
+    if (form.default_parts.some((part) => !part.spare_part_id || !(part.quantity > 0))) {
+      toast.error(t('service_catalog.invalid_parts'));
+      return;
+    }
+
+    const { id, ...data } = form;
+    setSaving(true);
+    try {
+      if (id) {
+        await serviceCatalogService.updateItem(id, data);
+      } else {
+        await serviceCatalogService.createItem(data);
+      }
+      toast.success(t('service_catalog.saved'));
+      setForm(null);
+      await loadItems();
+    } catch (error) {
+      console.error('Error saving catalog item:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('service_catalog.error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(item: ServiceCatalogItem) {
+    const confirmed = await confirm({
+      title: t('common.confirm'),
+      message: t('service_catalog.confirm_delete', { name: catalogItemName(item, i18n.language) }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      isDangerous: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await serviceCatalogService.deleteItem(item.id);
+      await loadItems();
+    } catch (error) {
+      console.error('Error deleting catalog item:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('service_catalog.error'));
+    }
+  }
+
+  function updatePart(index: number, changes: Partial<ItemForm['default_parts'][number]>) {
+    if (!form) return;
+    setForm({
+      ...form,
+      default_parts: form.default_parts.map((part, i) => (i === index ? { ...part, ...changes } : part)),
+    });
+  }
+
+  const visibleItems = items.filter((item) => matchesCatalogSearch(item, search));
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-3">
+          <BookOpen className="h-6 w-6 text-blue-600" />
+          <h3 className="text-xl font-bold text-gray-800">{t('service_catalog.title')}</h3>
+        </div>
+        {canEdit && !form && (
+          <button
+            type="button"
+            onClick={() => setForm({ ...EMPTY_ITEM })}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {t('service_catalog.new_item')}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-6">{t('service_catalog.description')}</p>
+
+      {form && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('service_catalog.code')}</label>
+              <input
+                type="text"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('service_catalog.name_ar')}</label>
+              <input
+                type="text"
+                dir="rtl"
+                value={form.name_ar}
+                onChange={(e) => setForm({ ...form, name_ar: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('service_catalog.name_en')}</label>
+              <input
+                type="text"
+                dir="ltr"
+                value={form.name_en || ''}
+                onChange={(e) => setForm({ ...form, name_en: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('service_catalog.category')}</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value as ItemForm['category'] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {SERVICE_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>{t(`services.${category}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('service_catalog.standard_hours')}</label>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={form.standard_hours}
+                onChange={(e) => setForm({ ...form, standard_hours: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('service_catalog.default_price')}</label>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={form.default_price}
+                onChange={(e) => setForm({ ...form, default_price: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">{t('service_catalog.default_parts')}</label>
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, default_parts: [...form.default_parts, { spare_part_id: '', quantity: 1 }] })}
+                className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="h-4 w-4" />
+                {t('service_catalog.add_part')}
+              </button>
+            </div>
+            {form.default_parts.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('service_catalog.no_parts')}</p>
+            ) : (
+              <div className="space-y-2">
+                {form.default_parts.map((part, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <select
+                      value={part.spare_part_id}
+                      onChange={(e) => updatePart(index, { spare_part_id: e.target.value })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">{t('service_catalog.select_part')}</option>
+                      {spareParts.map((sparePart) => (
+                        <option key={sparePart.id} value={sparePart.id}>
+                          {sparePart.part_number} - {sparePart.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      value={part.quantity}
+                      onChange={(e) => updatePart(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setForm({ ...form, default_parts: form.default_parts.filter((_, i) => i !== index) })}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {t('service_catalog.active')}
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              <X className="h-4 w-4" />
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="h-4 w-4" />
+              {saving ? t('settings.saving') : t('common.save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="relative mb-4">
+          <Search className="absolute top-1/2 -translate-y-1/2 start-3 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('service_catalog.search_placeholder')}
+            className="w-full ps-9 pe-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      )}
+
+      {visibleItems.length === 0 ? (
+        !form && (
+          <p className="text-sm text-gray-500">
+            {items.length === 0 ? t('service_catalog.no_items') : t('service_catalog.no_results')}
+          </p>
+        )
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {visibleItems.map((item) => (
+            <div key={item.id} className="flex items-center justify-between py-3">
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-xs text-gray-500">{item.code}</span>
+                  <span className="font-semibold text-gray-800">{catalogItemName(item, i18n.language)}</span>
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                    {t(`services.${item.category}`)}
+                  </span>
+                  {!item.is_active && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                      {t('service_catalog.inactive')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500">
+                  {displayNumber(item.default_price)} {t('common.sar')}
+                  {' · '}
+                  {t('labor.hours', { hours: displayNumber(item.standard_hours) })}
+                  {item.default_parts.length > 0 && (
+                    <>
+                      {' · '}
+                      {t('service_catalog.parts_count', { count: item.default_parts.length })}
+                    </>
+                  )}
+                </p>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setForm({
+                      id: item.id,
+                      code: item.code,
+                      name_ar: item.name_ar,
+                      name_en: item.name_en || '',
+                      category: item.category,
+                      standard_hours: item.standard_hours,
+                      default_price: item.default_price,
+                      default_parts: item.default_parts,
+                      is_active: item.is_active,
+                    })}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(item)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
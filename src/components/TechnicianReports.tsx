@@ -4,6 +4,7 @@ import { supabase } from '../lib/supabase';
 import { Technician } from '../types';
 import { FileText, Calendar } from 'lucide-react';
 import { displayNumber } from '../utils/numberUtils';
+import { FINISHED_STATUSES } from '../utils/workOrderStatus';
 import { useToast } from '../contexts/ToastContext';
 
 interface TechnicianReportsProps {
@@ -67,7 +68,7 @@ export function TechnicianReports({ technicians }: TechnicianReportsProps) {
           )
         `)
         .eq('technician_id', selectedTechnician.id)
-        .eq('service.work_order.status', 'completed');
+        .in('service.work_order.status', FINISHED_STATUSES);
 
       const workOrderIds = [...new Set(assignments?.map(a => a.service?.work_order_id).filter(Boolean) || [])];
 
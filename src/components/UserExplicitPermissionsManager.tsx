@@ -129,6 +129,8 @@ export function UserExplicitPermissionsManager({ user, onClose, onSave }: UserEx
       dashboard: t('nav.dashboard'),
       customers: t('nav.customers'),
       vehicles: t('nav.vehicles') || 'Vehicles',
+      quotations: t('nav.quotations'),
+      appointments: t('nav.appointments'),
       work_orders: t('nav.work_orders'),
       invoices: t('nav.invoices'),
       inventory: t('nav.inventory'),
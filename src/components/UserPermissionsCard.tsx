@@ -134,6 +134,8 @@ export function UserPermissionsCard({ user, onSave }: UserPermissionsCardProps)
       dashboard: { ar: 'لوحة التحكم', en: 'Dashboard' },
       customers: { ar: 'العملاء', en: 'Customers' },
       vehicles: { ar: 'المركبات', en: 'Vehicles' },
+      quotations: { ar: 'عروض الأسعار', en: 'Quotations' },
+      appointments: { ar: 'المواعيد', en: 'Appointments' },
       work_orders: { ar: 'أوامر العمل', en: 'Work Orders' },
       invoices: { ar: 'الفواتير', en: 'Invoices' },
       inventory: { ar: 'المخزون', en: 'Inventory' },
@@ -174,7 +176,7 @@ export function UserPermissionsCard({ user, onSave }: UserPermissionsCardProps)
 
   const groupedPermissions = groupPermissionsByResource();
   const resourceOrder = [
-    'dashboard', 'customers', 'vehicles', 'work_orders', 'invoices',
+    'dashboard', 'customers', 'vehicles', 'quotations', 'appointments', 'work_orders', 'invoices',
     'inventory', 'expenses', 'salaries', 'technicians', 'reports',
     'users', 'roles', 'settings', 'audit_logs'
   ];
@@ -0,0 +1,254 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ClipboardCheck, Fuel, Gauge, Printer } from 'lucide-react';
+import { workOrdersService } from '../services';
+import { VehicleCheckIn } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { VehicleDiagram } from './VehicleDiagram';
+import { DAMAGE_COLORS, vehicleDiagramSvg } from '../utils/vehicleDiagram';
+
+interface VehicleCheckInCardProps {
+  workOrderId: string;
+  orderNumber: string;
+  customer: { name: string; phone?: string } | null;
+  vehicle: { car_make: string; car_model: string; car_year: number; plate_number: string } | null;
+  workshop: { name: string; phone?: string; address?: string; tax_number?: string } | null;
+  printedBy?: string;
+}
+
+/**
+ * Condition of the car recorded at drop-off, with the sheet the customer signs.
+ */
+export function VehicleCheckInCard({
+  workOrderId,
+  orderNumber,
+  customer,
+  vehicle,
+  workshop,
+  printedBy,
+}: VehicleCheckInCardProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [checkIn, setCheckIn] = useState<VehicleCheckIn | null>(null);
+
+  useEffect(() => {
+    loadCheckIn();
+  }, [workOrderId]);
+
+  async function loadCheckIn() {
+    try {
+      setCheckIn(await workOrdersService.getCheckIn(workOrderId));
+    } catch (error) {
+      console.error('Error loading check-in:', error);
+    }
+  }
+
+  function printSheet(record: VehicleCheckIn) {
+    const checkedInAt = new Date(record.checked_in_at).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+    const rows: Array<[string, string]> = [
+      [t('work_orders.customer'), customer ? `${customer.name}${customer.phone ? ` - ${customer.phone}` : ''}` : '-'],
+      [t('work_orders.vehicle'), vehicle ? `${vehicle.car_make} ${vehicle.car_model} ${vehicle.car_year}` : '-'],
+      [t('vehicles.plate_number'), vehicle?.plate_number || '-'],
+      [t('work_orders.check_in.odometer'), record.odometer !== null ? record.odometer.toLocaleString('en-US') : '-'],
+      [t('work_orders.check_in.fuel_level'), record.fuel_level !== null ? t(`work_orders.check_in.fuel_levels.${record.fuel_level}`) : '-'],
+      [t('work_orders.check_in.complaints'), record.complaints || '-'],
+      [t('work_orders.check_in.valuables'), record.valuables || '-'],
+    ];
+
+    const damageList = record.damage_marks.length === 0
+      ? `<p>${t('work_orders.check_in.no_damage')}</p>`
+      : `<ol>${record.damage_marks.map((mark) => `
+          <li><span class="dot" style="background: ${DAMAGE_COLORS[mark.type]}"></span>
+          ${t(`work_orders.check_in.damage_types.${mark.type}`)}${mark.note ? ` - ${mark.note}` : ''}</li>`).join('')}</ol>`;
+
+    const printContent = `<!DOCTYPE html>
+<html dir="rtl">
+<head>
+  <meta charset="utf-8">
+  <title>${t('work_orders.check_in.sheet_title')} ${orderNumber}</title>
+  <style>
+    body { font-family: Arial, sans-serif; padding: 15px; direction: rtl; font-size: 13px; }
+    .header { display: flex; justify-content: space-between; border-bottom: 3px solid #2563eb; padding-bottom: 10px; margin-bottom: 12px; }
+    .workshop-name { font-size: 20px; font-weight: bold; margin: 0 0 6px 0; }
+    .info { font-size: 11px; color: #666; margin: 2px 0; }
+    .title { font-size: 16px; font-weight: bold; }
+    .number { font-size: 18px; font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 12px; }
+    td { padding: 6px 4px; border-bottom: 1px solid #eee; vertical-align: top; white-space: pre-line; }
+    td:first-child { color: #555; width: 30%; }
+    .damage { display: flex; gap: 20px; align-items: flex-start; }
+    .damage h3 { font-size: 14px; margin: 0 0 6px 0; }
+    .damage ol { margin: 0; padding-right: 18px; }
+    .damage li { margin-bottom: 4px; }
+    .dot { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-left: 4px; }
+    .photos { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 12px; }
+    .photos img { width: 110px; height: 110px; object-fit: cover; border: 1px solid #ddd; }
+    .note { margin-top: 16px; font-size: 11px; color: #555; }
+    .signatures { margin-top: 40px; display: flex; justify-content: space-between; font-size: 12px; }
+    .footer { margin-top: 20px; font-size: 10px; color: #999; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="workshop-name">${workshop?.name || t('work_orders.workshop_name')}</div>
+      ${workshop?.address ? `<div class="info">${workshop.address}</div>` : ''}
+      ${workshop?.phone ? `<div class="info">${t('common.phone')}: ${workshop.phone}</div>` : ''}
+      ${workshop?.tax_number ? `<div class="info">${t('settings.tax_number')}: ${workshop.tax_number}</div>` : ''}
+    </div>
+    <div style="text-align: left;">
+      <div class="title">${t('work_orders.check_in.sheet_title')}</div>
+      <div class="number">${orderNumber}</div>
+      <div class="info">${t('common.date')}: ${checkedInAt}</div>
+    </div>
+  </div>
+
+  <table>
+    ${rows.map(([label, value]) => `<tr><td>${label}</td><td>${value}</td></tr>`).join('')}
+  </table>
+
+  <div class="damage">
+    ${vehicleDiagramSvg(record.damage_marks)}
+    <div>
+      <h3>${t('work_orders.check_in.damage')}</h3>
+      ${damageList}
+    </div>
+  </div>
+
+  ${record.photo_urls.length > 0 ? `<div class="photos">${record.photo_urls.map((url) => `<img src="${url}" />`).join('')}</div>` : ''}
+
+  <p class="note">${t('work_orders.check_in.disclaimer')}</p>
+
+  <div class="signatures">
+    <span>${t('work_orders.check_in.received_by')}: ${record.checked_in_by_name || '____________'}</span>
+    <span>${t('invoices.customer_signature')}: ____________</span>
+  </div>
+
+  <div class="footer">${t('common.printed_by')}: ${printedBy || t('common.user')}</div>
+</body>
+</html>`;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(printContent);
+      printWindow.document.close();
+
+      setTimeout(() => {
+        printWindow.focus();
+        printWindow.print();
+        setTimeout(() => {
+          printWindow.close();
+        }, 100);
+      }, 500);
+    } else {
+      toast.error(t('common.print_error'));
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-blue-600" />
+          <h3 className="text-xl font-bold text-gray-800">{t('work_orders.check_in.title')}</h3>
+        </div>
+        {checkIn && (
+          <button
+            onClick={() => printSheet(checkIn)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Printer className="h-4 w-4" />
+            {t('work_orders.check_in.print_sheet')}
+          </button>
+        )}
+      </div>
+
+      {!checkIn ? (
+        <p className="text-sm text-gray-500">{t('work_orders.check_in.not_recorded')}</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex items-center gap-2">
+              <Gauge className="h-5 w-5 text-gray-500" />
+              <div>
+                <p className="text-sm text-gray-600">{t('work_orders.check_in.odometer')}</p>
+                <p className="font-medium text-gray-800">
+                  {checkIn.odometer !== null ? checkIn.odometer.toLocaleString('en-US') : '-'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Fuel className="h-5 w-5 text-gray-500" />
+              <div>
+                <p className="text-sm text-gray-600">{t('work_orders.check_in.fuel_level')}</p>
+                <p className="font-medium text-gray-800">
+                  {checkIn.fuel_level !== null ? t(`work_orders.check_in.fuel_levels.${checkIn.fuel_level}`) : '-'}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {checkIn.complaints && (
+            <div>
+              <p className="text-sm text-gray-600">{t('work_orders.check_in.complaints')}</p>
+              <p className="text-gray-800 whitespace-pre-line">{checkIn.complaints}</p>
+            </div>
+          )}
+
+          {checkIn.valuables && (
+            <div>
+              <p className="text-sm text-gray-600">{t('work_orders.check_in.valuables')}</p>
+              <p className="text-gray-800 whitespace-pre-line">{checkIn.valuables}</p>
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <VehicleDiagram marks={checkIn.damage_marks} className="w-28 shrink-0" />
+            <div className="flex-1 space-y-1">
+              <p className="text-sm text-gray-600">{t('work_orders.check_in.damage')}</p>
+              {checkIn.damage_marks.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('work_orders.check_in.no_damage')}</p>
+              ) : (
+                checkIn.damage_marks.map((mark, index) => (
+                  <div key={index} className="flex items-center gap-2 text-sm text-gray-800">
+                    <span
+                      className="h-5 w-5 rounded-full text-white text-xs flex items-center justify-center shrink-0"
+                      style={{ backgroundColor: DAMAGE_COLORS[mark.type] }}
+                    >
+                      {index + 1}
+                    </span>
+                    {t(`work_orders.check_in.damage_types.${mark.type}`)}
+                    {mark.note && <span className="text-gray-600">- {mark.note}</span>}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          {checkIn.photo_urls.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {checkIn.photo_urls.map((url) => (
+                <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                  <img src={url} alt="" className="h-16 w-16 object-cover rounded-lg border border-gray-200" />
+                </a>
+              ))}
+            </div>
+          )}
+
+          {checkIn.checked_in_by_name && (
+            <p className="text-xs text-gray-500">
+              {t('work_orders.check_in.received_by')}: {checkIn.checked_in_by_name}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Camera, ClipboardCheck, Fuel, X } from 'lucide-react';
+import { DamageMark } from '../types';
+import { VehicleDiagram } from './VehicleDiagram';
+import { DAMAGE_COLORS } from '../utils/vehicleDiagram';
+import { normalizeNumberInput } from '../utils/numberUtils';
+
+export interface VehicleCheckInFormValue {
+  odometer: string;
+  fuel_level: number;
+  complaints: string;
+  valuables: string;
+  damage_marks: DamageMark[];
+  /** Photos already stored, with their signed links */
+  photos: Array<{ path: string; url: string }>;
+  /** Photos picked but not uploaded yet */
+  new_photos: File[];
+}
+
+const DAMAGE_TYPES: DamageMark['type'][] = ['scratch', 'dent', 'crack', 'broken'];
+
+const FUEL_LEVELS = [0, 25, 50, 75, 100];
+
+interface VehicleCheckInFormProps {
+  value: VehicleCheckInFormValue;
+  onChange: (value: VehicleCheckInFormValue) => void;
+}
+
+/**
+ * Condition of the car at drop-off: odometer, fuel, complaints, valuables,
+ * damage marked on the outline and photos.
+ */
+export function VehicleCheckInForm({ value, onChange }: VehicleCheckInFormProps) {
+  const { t } = useTranslation();
+  const [damageType, setDamageType] = useState<DamageMark['type']>('scratch');
+  const [previews, setPreviews] = useState<string[]>([]);
+
+  useEffect(() => {
+    const urls = value.new_photos.map((file) => URL.createObjectURL(file));
+    setPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [value.new_photos]);
+
+  function updateMark(index: number, note: string) {
+    onChange({
+      ...value,
+      damage_marks: value.damage_marks.map((mark, i) => (i === index ? { ...mark, note } : mark)),
+    });
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ClipboardCheck className="h-5 w-5 text-blue-600" />
+        <h3 className="text-xl font-bold text-gray-800">{t('work_orders.check_in.title')}</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('work_orders.check_in.odometer')}</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={value.odometer}
+            onChange={(e) => onChange({ ...value, odometer: normalizeNumberInput(e.target.value).replace(/[^0-9]/g, '') })}
+            placeholder={t('work_orders.check_in.odometer_placeholder')}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-1">
+            <Fuel className="h-4 w-4" />
+            {t('work_orders.check_in.fuel_level')}
+          </label>
+          <div className="flex gap-2">
+            {FUEL_LEVELS.map((level) => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => onChange({ ...value, fuel_level: level })}
+                className={`flex-1 py-2 rounded-lg border-2 text-sm font-medium transition-colors ${
+                  value.fuel_level === level
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {t(`work_orders.check_in.fuel_levels.${level}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('work_orders.check_in.complaints')}</label>
+          <textarea
+            value={value.complaints}
+            onChange={(e) => onChange({ ...value, complaints: e.target.value })}
+            rows={3}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('work_orders.check_in.valuables')}</label>
+          <textarea
+            value={value.valuables}
+            onChange={(e) => onChange({ ...value, valuables: e.target.value })}
+            rows={3}
+            placeholder={t('work_orders.check_in.valuables_placeholder')}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6 mb-6">
+        <div className="shrink-0 flex flex-col items-center">
+          <div className="flex gap-1 mb-2">
+            {DAMAGE_TYPES.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setDamageType(type)}
+                className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-xs font-medium ${
+                  damageType === type ? 'border-gray-800 bg-gray-100' : 'border-gray-200'
+                }`}
+              >
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: DAMAGE_COLORS[type] }} />
+                {t(`work_orders.check_in.damage_types.${type}`)}
+              </button>
+            ))}
+          </div>
+          <VehicleDiagram
+            marks={value.damage_marks}
+            onAdd={(x, y) => onChange({ ...value, damage_marks: [...value.damage_marks, { x, y, type: damageType }] })}
+            onRemove={(index) => onChange({ ...value, damage_marks: value.damage_marks.filter((_, i) => i !== index) })}
+            className="w-48 border border-gray-200 rounded-lg bg-gray-50"
+          />
+          <p className="text-xs text-gray-500 mt-2 text-center max-w-[12rem]">{t('work_orders.check_in.diagram_hint')}</p>
+        </div>
+
+        <div className="flex-1 space-y-2">
+          <h4 className="font-medium text-gray-700">{t('work_orders.check_in.damage')}</h4>
+          {value.damage_marks.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('work_orders.check_in.no_damage')}</p>
+          ) : (
+            value.damage_marks.map((mark, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span
+                  className="h-6 w-6 rounded-full text-white text-xs flex items-center justify-center shrink-0"
+                  style={{ backgroundColor: DAMAGE_COLORS[mark.type] }}
+                >
+                  {index + 1}
+                </span>
+                <span className="text-sm text-gray-700 w-16 shrink-0">{t(`work_orders.check_in.damage_types.${mark.type}`)}</span>
+                <input
+                  type="text"
+                  value={mark.note || ''}
+                  onChange={(e) => updateMark(index, e.target.value)}
+                  placeholder={t('work_orders.check_in.damage_note_placeholder')}
+                  className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2">
+          <Camera className="h-4 w-4" />
+          {t('work_orders.check_in.photos')}
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {value.photos.map((photo) => (
+            <div key={photo.path} className="relative">
+              <img src={photo.url} alt="" className="h-20 w-20 object-cover rounded-lg border border-gray-200" />
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, photos: value.photos.filter((item) => item.path !== photo.path) })}
+                className="absolute -top-2 -left-2 bg-red-600 text-white rounded-full p-0.5"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {previews.map((url, index) => (
+            <div key={url} className="relative">
+              <img src={url} alt="" className="h-20 w-20 object-cover rounded-lg border border-blue-300" />
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, new_photos: value.new_photos.filter((_, i) => i !== index) })}
+                className="absolute -top-2 -left-2 bg-red-600 text-white rounded-full p-0.5"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          <label className="h-20 w-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg text-gray-500 cursor-pointer hover:bg-gray-50">
+            <Camera className="h-5 w-5" />
+            <span className="text-xs">{t('work_orders.check_in.add_photo')}</span>
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                if (files.length > 0) onChange({ ...value, new_photos: [...value.new_photos, ...files] });
+              }}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
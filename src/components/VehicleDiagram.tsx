@@ -0,0 +1,58 @@
+import { MouseEvent } from 'react';
+import { DamageMark } from '../types';
+import { DAMAGE_COLORS, OUTLINE_PATHS, VIEW_HEIGHT, VIEW_WIDTH, WHEELS } from '../utils/vehicleDiagram';
+
+interface VehicleDiagramProps {
+  marks: DamageMark[];
+  /** Called with the clicked position in percent; the diagram is read-only without it */
+  onAdd?: (x: number, y: number) => void;
+  onRemove?: (index: number) => void;
+  className?: string;
+}
+
+export function VehicleDiagram({ marks, onAdd, onRemove, className = 'w-48' }: VehicleDiagramProps) {
+  function handleClick(event: MouseEvent<SVGSVGElement>) {
+    if (!onAdd) return;
+    const box = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - box.left) / box.width) * 100;
+    const y = ((event.clientY - box.top) / box.height) * 100;
+    onAdd(Math.round(x * 10) / 10, Math.round(y * 10) / 10);
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+      className={`${className} ${onAdd ? 'cursor-crosshair' : ''}`}
+      onClick={handleClick}
+    >
+      {WHEELS.map((wheel, index) => (
+        <rect key={index} x={wheel.x} y={wheel.y} width={14} height={40} rx={5} fill="#d1d5db" />
+      ))}
+      {OUTLINE_PATHS.map((path, index) => (
+        <path key={index} d={path} fill="none" stroke="#374151" strokeWidth={2} />
+      ))}
+      {marks.map((mark, index) => (
+        <g
+          key={index}
+          onClick={(event) => {
+            if (!onRemove) return;
+            event.stopPropagation();
+            onRemove(index);
+          }}
+          className={onRemove ? 'cursor-pointer' : ''}
+        >
+          <circle cx={(mark.x / 100) * VIEW_WIDTH} cy={(mark.y / 100) * VIEW_HEIGHT} r={9} fill={DAMAGE_COLORS[mark.type]} />
+          <text
+            x={(mark.x / 100) * VIEW_WIDTH}
+            y={(mark.y / 100) * VIEW_HEIGHT + 4}
+            textAnchor="middle"
+            fontSize={11}
+            fill="#fff"
+          >
+            {index + 1}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
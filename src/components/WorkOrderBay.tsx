@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Warehouse } from 'lucide-react';
+import { baysService, workOrdersService, ServiceError } from '../services';
+import { WorkOrder, WorkshopBay } from '../types';
+import { useToast } from '../contexts/ToastContext';
+
+interface WorkOrderBayProps {
+  order: WorkOrder;
+  canEdit: boolean;
+  onChange: () => void;
+}
+
+/**
+ * Bay or lift the car is on while the order is open.
+ */
+export function WorkOrderBay({ order, canEdit, onChange }: WorkOrderBayProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [bays, setBays] = useState<WorkshopBay[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    baysService.getBays(true)
+      .then(setBays)
+      .catch((error) => console.error('Error loading bays:', error));
+  }, [canEdit]);
+
+  async function handleChange(bayId: string | null) {
+    setSaving(true);
+    try {
+      await workOrdersService.assignBay(order.id, bayId);
+      onChange();
+    } catch (error) {
+      console.error('Error assigning bay:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('job_board.bay_error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Warehouse className="h-5 w-5 text-gray-600" />
+        <h3 className="text-xl font-bold text-gray-800">{t('appointments.bay')}</h3>
+      </div>
+      {canEdit ? (
+        <select
+          value={order.bay_id || ''}
+          onChange={(e) => handleChange(e.target.value || null)}
+          disabled={saving}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+        >
+          <option value="">{t('appointments.no_bay')}</option>
+          {bays.map((bay) => (
+            <option key={bay.id} value={bay.id}>
+              {bay.name}
+            </option>
+          ))}
+          {order.bay && !bays.some((bay) => bay.id === order.bay!.id) && (
+            <option value={order.bay.id}>{order.bay.name}</option>
+          )}
+        </select>
+      ) : (
+        <p className="font-medium text-gray-800">{order.bay?.name || t('appointments.no_bay')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Banknote, CreditCard, Landmark, Plus, Printer, Trash2, Wallet } from 'lucide-react';
+import { workOrdersService, ServiceError, CreateWorkOrderDepositData } from '../services';
+import { WorkOrderDeposit } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { formatToFixed, normalizeNumberInput } from '../utils/numberUtils';
+
+interface WorkOrderDepositsProps {
+  workOrderId: string;
+  orderNumber: string;
+  /** Cancelled orders keep their deposits but take no new ones */
+  canAdd: boolean;
+  canManage: boolean;
+  customer: { name: string; phone?: string } | null;
+  workshop: { name: string; phone?: string; address?: string; tax_number?: string } | null;
+  printedBy?: string;
+}
+
+const METHODS: Array<{ value: CreateWorkOrderDepositData['payment_method']; icon: typeof Banknote; active: string }> = [
+  { value: 'cash', icon: Banknote, active: 'border-green-500 bg-green-50 text-green-700' },
+  { value: 'card', icon: CreditCard, active: 'border-blue-500 bg-blue-50 text-blue-700' },
+  { value: 'bank_transfer', icon: Landmark, active: 'border-purple-500 bg-purple-50 text-purple-700' },
+];
+
+const EMPTY_DEPOSIT: CreateWorkOrderDepositData = { amount: 0, payment_method: 'cash', card_type: null, reference: '', notes: '' };
+
+/**
+ * Deposits taken against a work order before the work is invoiced. They are
+ * applied to the invoice of the order automatically; the rest stays on the
+ * customer's account.
+ */
+export function WorkOrderDeposits({
+  workOrderId,
+  orderNumber,
+  canAdd,
+  canManage,
+  customer,
+  workshop,
+  printedBy,
+}: WorkOrderDepositsProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [deposits, setDeposits] = useState<WorkOrderDeposit[]>([]);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<CreateWorkOrderDepositData>(EMPTY_DEPOSIT);
+
+  useEffect(() => {
+    loadDeposits();
+  }, [workOrderId]);
+
+  async function loadDeposits() {
+    try {
+      setDeposits(await workOrdersService.getDeposits(workOrderId));
+    } catch (error) {
+      console.error('Error loading deposits:', error);
+    }
+  }
+
+  async function handleSave() {
+    if (!(form.amount > 0)) {
+      toast.warning(t('validation.fill_all_required'));
+      return;
+    }
+    if (form.payment_method === 'bank_transfer' && !form.reference?.trim()) {
+      toast.warning(t('invoices.transfer_reference_required'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const deposit = await workOrdersService.createDeposit(workOrderId, form);
+      toast.success(t('work_orders.deposit_recorded', { number: deposit.receipt_number }));
+      setAdding(false);
+      setForm(EMPTY_DEPOSIT);
+      await loadDeposits();
+      printReceipt(deposit);
+    } catch (error) {
+      console.error('Error recording deposit:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('work_orders.deposit_error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(deposit: WorkOrderDeposit) {
+    const confirmed = await confirm({
+      title: t('common.confirm'),
+      message: t('work_orders.confirm_delete_deposit', { number: deposit.receipt_number }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      isDangerous: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await workOrdersService.deleteDeposit(workOrderId, deposit.id);
+      await loadDeposits();
+    } catch (error) {
+      console.error('Error deleting deposit:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('work_orders.deposit_delete_error'));
+    }
+  }
+
+  function methodLabel(deposit: WorkOrderDeposit) {
+    return deposit.payment_method === 'card' && deposit.card_type
+      ? `${t('common.payment_methods.card')} (${t(`common.card_types.${deposit.card_type}`)})`
+      : t(`common.payment_methods.${deposit.payment_method}`);
+  }
+
+  function printReceipt(deposit: WorkOrderDeposit) {
+    const formatDate = (value: string) => new Date(value).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+    const rows: Array<[string, string]> = [
+      [t('invoices.received_from'), customer?.name || '-'],
+      [t('work_orders.deposit_for_order'), orderNumber],
+      [t('common.payment_method'), methodLabel(deposit)],
+      ...(deposit.reference ? [[t('invoices.payment_reference'), deposit.reference] as [string, string]] : []),
+      ...(deposit.notes ? [[t('common.notes'), deposit.notes] as [string, string]] : []),
+      ...(deposit.received_by_name ? [[t('invoices.received_by'), deposit.received_by_name] as [string, string]] : []),
+    ];
+
+    const printContent = `<!DOCTYPE html>
+<html dir="rtl">
+<head>
+  <meta charset="utf-8">
+  <title>${t('work_orders.deposit_receipt')} ${deposit.receipt_number}</title>
+  <style>
+    body { font-family: Arial, sans-serif; padding: 15px; direction: rtl; font-size: 13px; }
+    .header { display: flex; justify-content: space-between; border-bottom: 3px solid #059669; padding-bottom: 10px; margin-bottom: 12px; }
+    .workshop-name { font-size: 20px; font-weight: bold; margin: 0 0 6px 0; }
+    .info { font-size: 11px; color: #666; margin: 2px 0; }
+    .title { font-size: 16px; font-weight: bold; }
+    .number { font-size: 18px; font-weight: bold; }
+    .amount { border: 2px solid #111; padding: 10px; display: flex; justify-content: space-between; font-size: 18px; font-weight: bold; margin-bottom: 12px; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 6px 4px; border-bottom: 1px solid #eee; }
+    td:first-child { color: #555; width: 40%; }
+    .note { margin-top: 12px; font-size: 11px; color: #555; }
+    .footer { margin-top: 30px; display: flex; justify-content: space-between; font-size: 11px; color: #666; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="workshop-name">${workshop?.name || t('work_orders.workshop_name')}</div>
+      ${workshop?.address ? `<div class="info">${workshop.address}</div>` : ''}
+      ${workshop?.phone ? `<div class="info">${t('common.phone')}: ${workshop.phone}</div>` : ''}
+      ${workshop?.tax_number ? `<div class="info">${t('settings.tax_number')}: ${workshop.tax_number}</div>` : ''}
+    </div>
+    <div style="text-align: left;">
+      <div class="title">${t('work_orders.deposit_receipt')}</div>
+      <div class="number">${deposit.receipt_number}</div>
+      <div class="info">${t('common.date')}: ${formatDate(deposit.paid_at)}</div>
+    </div>
+  </div>
+
+  <div class="amount">
+    <span>${t('work_orders.deposit_amount')}</span>
+    <span>${formatToFixed(Number(deposit.amount))} ${t('common.sar')}</span>
+  </div>
+
+  <table>
+    ${rows.map(([label, value]) => `<tr><td>${label}</td><td>${value}</td></tr>`).join('')}
+  </table>
+
+  <p class="note">${t('work_orders.deposit_receipt_note')}</p>
+
+  <div class="footer">
+    <span>${t('common.printed_by')}: ${printedBy || t('common.user')}</span>
+    <span>${t('invoices.customer_signature')}: ____________</span>
+  </div>
+</body>
+</html>`;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(printContent);
+      printWindow.document.close();
+
+      setTimeout(() => {
+        printWindow.focus();
+        printWindow.print();
+        setTimeout(() => {
+          printWindow.close();
+        }, 100);
+      }, 250);
+    } else {
+      toast.error(t('common.print_error'));
+    }
+  }
+
+  const total = deposits.reduce((sum, deposit) => sum + Number(deposit.amount), 0);
+  const applied = deposits.reduce((sum, deposit) => sum + Number(deposit.applied_amount), 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-emerald-600" />
+          <h3 className="text-xl font-bold text-gray-800">{t('work_orders.deposits')}</h3>
+        </div>
+        {canManage && canAdd && !adding && (
+          <button
+            onClick={() => setAdding(true)}
+            className="flex items-center gap-1 bg-emerald-600 text-white px-3 py-2 rounded-lg hover:bg-emerald-700 transition-colors text-sm font-semibold"
+          >
+            <Plus className="h-4 w-4" />
+            {t('work_orders.add_deposit')}
+          </button>
+        )}
+      </div>
+
+      {deposits.length === 0 && !adding && (
+        <p className="text-sm text-gray-500">{t('work_orders.no_deposits')}</p>
+      )}
+
+      {deposits.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {deposits.map((deposit) => (
+            <div key={deposit.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-semibold text-gray-900">{deposit.receipt_number}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(deposit.paid_at).toLocaleDateString('en-US')} · {methodLabel(deposit)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="font-bold text-gray-900 me-2">{formatToFixed(Number(deposit.amount))} {t('common.sar')}</span>
+                  <button
+                    onClick={() => printReceipt(deposit)}
+                    className="p-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                    title={t('invoices.print_receipt')}
+                  >
+                    <Printer className="h-4 w-4" />
+                  </button>
+                  {canManage && Number(deposit.applied_amount) === 0 && (
+                    <button
+                      onClick={() => handleDelete(deposit)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {(deposit.applications || []).map((application) => (
+                <p key={application.id} className="text-xs text-emerald-700 mt-1">
+                  {t('work_orders.deposit_applied_to', {
+                    amount: formatToFixed(Number(application.amount)),
+                    invoice: application.invoice?.invoice_number || '-',
+                  })}
+                </p>
+              ))}
+            </div>
+          ))}
+
+          <div className="text-sm space-y-1 border-t border-gray-200 pt-3">
+            <div className="flex justify-between">
+              <span className="text-gray-600">{t('work_orders.deposits_total')}</span>
+              <span className="font-semibold">{formatToFixed(total)} {t('common.sar')}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">{t('work_orders.deposits_unapplied')}</span>
+              <span className="font-bold text-emerald-700">{formatToFixed(total - applied)} {t('common.sar')}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {adding && (
+        <div className="space-y-3 border-t border-gray-200 pt-4">
+          <div className="grid grid-cols-3 gap-2">
+            {METHODS.map(({ value, icon: Icon, active }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setForm({ ...form, payment_method: value, card_type: value === 'card' ? form.card_type || 'mada' : null })}
+                className={`flex items-center justify-center gap-1 py-2 px-2 rounded-lg border-2 transition-all text-xs ${
+                  form.payment_method === value ? active : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+                <span className="font-semibold">{t(`common.payment_methods.${value}`)}</span>
+              </button>
+            ))}
+          </div>
+
+          {form.payment_method === 'card' && (
+            <div className="grid grid-cols-2 gap-2">
+              {(['mada', 'visa'] as const).map(cardType => (
+                <button
+                  key={cardType}
+                  type="button"
+                  onClick={() => setForm({ ...form, card_type: cardType })}
+                  className={`py-2 px-3 rounded-lg border-2 transition-all font-semibold text-sm ${
+                    form.card_type === cardType
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                  }`}
+                >
+                  {t(`common.card_types.${cardType}`)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <input
+            type="text"
+            inputMode="decimal"
+            value={form.amount || ''}
+            onChange={(e) => setForm({ ...form, amount: Number(normalizeNumberInput(e.target.value)) || 0 })}
+            placeholder={t('work_orders.deposit_amount')}
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-semibold"
+          />
+          <input
+            type="text"
+            value={form.reference || ''}
+            onChange={(e) => setForm({ ...form, reference: e.target.value })}
+            placeholder={form.payment_method === 'bank_transfer'
+              ? t('invoices.transfer_reference_placeholder')
+              : `${t('invoices.payment_reference')} (${t('common.optional')})`}
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <input
+            type="text"
+            value={form.notes || ''}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder={`${t('common.notes')} (${t('common.optional')})`}
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 bg-emerald-600 text-white px-4 py-2 rounded-lg hover:bg-emerald-700 transition-colors font-semibold disabled:bg-gray-400"
+            >
+              {saving ? t('common.saving') : t('work_orders.record_deposit')}
+            </button>
+            <button
+              onClick={() => { setAdding(false); setForm(EMPTY_DEPOSIT); }}
+              className="px-4 py-2 border-2 border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
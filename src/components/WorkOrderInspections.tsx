@@ -0,0 +1,530 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Camera, CheckCircle, ClipboardList, ListPlus, Play, Printer, Save, Trash2, X } from 'lucide-react';
+import { inspectionsService, workOrdersService, ServiceError } from '../services';
+import { InspectionRating, InspectionTemplate, WorkOrderInspection, WorkOrderInspectionItem } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { INSPECTION_RATINGS, RATING_STYLES, groupByCategory } from '../utils/inspections';
+import { formatToFixed } from '../utils/numberUtils';
+
+interface WorkOrderInspectionsProps {
+  workOrderId: string;
+  orderNumber: string;
+  canEdit: boolean;
+  /** Services can no longer be added once the car is ready or the order cancelled */
+  canAddServices: boolean;
+  customer: { name: string; phone?: string } | null;
+  vehicle: { car_make: string; car_model: string; car_year: number; plate_number: string } | null;
+  workshop: { name: string; phone?: string; address?: string; tax_number?: string } | null;
+  onServicesAdded: () => void;
+}
+
+/**
+ * Red / amber / green checklists filled in against the work order, with the
+ * customer report and one-click services for the items that need work.
+ */
+export function WorkOrderInspections({
+  workOrderId,
+  orderNumber,
+  canEdit,
+  canAddServices,
+  customer,
+  vehicle,
+  workshop,
+  onServicesAdded,
+}: WorkOrderInspectionsProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const toast = useToast();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [templates, setTemplates] = useState<InspectionTemplate[]>([]);
+  const [inspections, setInspections] = useState<WorkOrderInspection[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInspections();
+  }, [workOrderId]);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    inspectionsService.getTemplates()
+      .then((data) => setTemplates(data.filter((template) => template.is_active)))
+      .catch((error) => console.error('Error loading inspection templates:', error));
+  }, [canEdit]);
+
+  async function loadInspections() {
+    try {
+      const data = await inspectionsService.getInspections(workOrderId);
+      setInspections(data);
+      setOpenId((current) => current ?? data.find((inspection) => inspection.status === 'in_progress')?.id ?? null);
+    } catch (error) {
+      console.error('Error loading inspections:', error);
+    }
+  }
+
+  function replaceInspection(updated: WorkOrderInspection) {
+    setInspections((prev) => prev.map((inspection) => (inspection.id === updated.id ? updated : inspection)));
+  }
+
+  function updateItem(inspectionId: string, itemId: string, changes: Partial<WorkOrderInspectionItem>) {
+    setInspections((prev) => prev.map((inspection) => (
+      inspection.id !== inspectionId ? inspection : {
+        ...inspection,
+        items: inspection.items.map((item) => (item.id === itemId ? { ...item, ...changes } : item)),
+      }
+    )));
+  }
+
+  async function handleStart() {
+    if (!templateId) return;
+
+    setBusyId('new');
+    try {
+      const inspection = await inspectionsService.startInspection(workOrderId, templateId);
+      setInspections((prev) => [...prev, inspection]);
+      setOpenId(inspection.id);
+      setTemplateId('');
+    } catch (error) {
+      console.error('Error starting inspection:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('inspections.save_error'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleAddPhotos(inspectionId: string, item: WorkOrderInspectionItem, files: File[]) {
+    if (!user || files.length === 0) return;
+
+    setBusyId(inspectionId);
+    try {
+      const paths = await Promise.all(files.map((file) => workOrdersService.uploadPhoto(user.organization_id, workOrderId, file)));
+      updateItem(inspectionId, item.id, {
+        photos: [...item.photos, ...paths],
+        photo_urls: [...item.photo_urls, ...files.map((file) => URL.createObjectURL(file))],
+      });
+    } catch (error) {
+      console.error('Error uploading inspection photo:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('inspections.photo_error'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function save(inspection: WorkOrderInspection, complete = false) {
+    return inspectionsService.saveInspection(inspection.id, {
+      notes: inspection.notes,
+      complete,
+      items: inspection.items.map(({ id, rating, note, photos }) => ({ id, rating, note, photos })),
+    });
+  }
+
+  async function handleSave(inspection: WorkOrderInspection, complete = false) {
+    if (complete && inspection.items.some((item) => !item.rating)) {
+      toast.error(t('inspections.rate_all_items'));
+      return;
+    }
+
+    setBusyId(inspection.id);
+    try {
+      replaceInspection(await save(inspection, complete));
+      toast.success(complete ? t('inspections.completed_success') : t('inspections.saved'));
+    } catch (error) {
+      console.error('Error saving inspection:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('inspections.save_error'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handlePropose(inspection: WorkOrderInspection) {
+    setBusyId(inspection.id);
+    try {
+      // Ratings that were not saved yet count as well
+      if (inspection.status === 'in_progress') await save(inspection);
+
+      const result = await inspectionsService.proposeServices(inspection.id);
+      replaceInspection(result.inspection);
+      toast.success(t('inspections.services_added', { count: result.created }));
+      onServicesAdded();
+    } catch (error) {
+      console.error('Error proposing services:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('inspections.save_error'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(inspection: WorkOrderInspection) {
+    const confirmed = await confirm({
+      title: t('common.confirm'),
+      message: t('inspections.confirm_delete', { name: inspection.name }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      isDangerous: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await inspectionsService.deleteInspection(inspection.id);
+      setInspections((prev) => prev.filter((item) => item.id !== inspection.id));
+    } catch (error) {
+      console.error('Error deleting inspection:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('inspections.save_error'));
+    }
+  }
+
+  function printReport(inspection: WorkOrderInspection) {
+    const formatDate = (value: string) => new Date(value).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+
+    const counts = INSPECTION_RATINGS.map((rating) => ({
+      rating,
+      count: inspection.items.filter((item) => item.rating === rating).length,
+    }));
+
+    const ratingChip = (rating: InspectionRating | null) => rating
+      ? `<span class="chip" style="background: ${RATING_STYLES[rating].color}">${t(`inspections.ratings.${rating}`)}</span>`
+      : '-';
+
+    const sections = groupByCategory(inspection.items).map(([category, items]) => `
+      <tr class="category"><td colspan="3">${category}</td></tr>
+      ${items.map((item) => `
+        <tr>
+          <td>${item.label}</td>
+          <td class="rating">${ratingChip(item.rating)}</td>
+          <td>
+            ${item.note || ''}
+            ${item.photo_urls.length > 0 ? `<div class="photos">${item.photo_urls.map((url) => `<img src="${url}" />`).join('')}</div>` : ''}
+          </td>
+        </tr>`).join('')}`).join('');
+
+    const printContent = `<!DOCTYPE html>
+<html dir="rtl">
+<head>
+  <meta charset="utf-8">
+  <title>${t('inspections.report_title')} ${orderNumber}</title>
+  <style>
+    body { font-family: Arial, sans-serif; padding: 15px; direction: rtl; font-size: 13px; }
+    .header { display: flex; justify-content: space-between; border-bottom: 3px solid #2563eb; padding-bottom: 10px; margin-bottom: 12px; }
+    .workshop-name { font-size: 20px; font-weight: bold; margin: 0 0 6px 0; }
+    .info { font-size: 11px; color: #666; margin: 2px 0; }
+    .title { font-size: 16px; font-weight: bold; }
+    .number { font-size: 18px; font-weight: bold; }
+    .vehicle { display: flex; justify-content: space-between; background: #f3f4f6; padding: 8px; border-radius: 6px; margin-bottom: 12px; }
+    .summary { display: flex; gap: 10px; margin-bottom: 12px; }
+    .summary div { flex: 1; border-radius: 6px; padding: 8px; color: #fff; text-align: center; }
+    .summary strong { display: block; font-size: 20px; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 6px 4px; border-bottom: 1px solid #eee; vertical-align: top; }
+    tr.category td { background: #e5e7eb; font-weight: bold; }
+    td.rating { width: 90px; text-align: center; }
+    .chip { display: inline-block; color: #fff; border-radius: 10px; padding: 2px 10px; font-size: 11px; }
+    .photos { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 4px; }
+    .photos img { width: 90px; height: 90px; object-fit: cover; border: 1px solid #ddd; }
+    .note { margin-top: 12px; white-space: pre-line; }
+    .footer { margin-top: 30px; display: flex; justify-content: space-between; font-size: 11px; color: #666; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="workshop-name">${workshop?.name || t('work_orders.workshop_name')}</div>
+      ${workshop?.address ? `<div class="info">${workshop.address}</div>` : ''}
+      ${workshop?.phone ? `<div class="info">${t('common.phone')}: ${workshop.phone}</div>` : ''}
+      ${workshop?.tax_number ? `<div class="info">${t('settings.tax_number')}: ${workshop.tax_number}</div>` : ''}
+    </div>
+    <div style="text-align: left;">
+      <div class="title">${t('inspections.report_title')}</div>
+      <div class="number">${orderNumber}</div>
+      <div class="info">${t('common.date')}: ${formatDate(inspection.completed_at || inspection.updated_at)}</div>
+    </div>
+  </div>
+
+  <div class="vehicle">
+    <span>${customer?.name || '-'}</span>
+    <span>${vehicle ? `${vehicle.car_make} ${vehicle.car_model} ${vehicle.car_year} - ${vehicle.plate_number}` : '-'}</span>
+    <span>${inspection.name}</span>
+  </div>
+
+  <div class="summary">
+    ${counts.map(({ rating, count }) => `
+      <div style="background: ${RATING_STYLES[rating].color}">
+        <strong>${count}</strong>${t(`inspections.rating_meaning.${rating}`)}
+      </div>`).join('')}
+  </div>
+
+  <table>${sections}</table>
+
+  ${inspection.notes ? `<p class="note"><strong>${t('common.notes')}:</strong> ${inspection.notes}</p>` : ''}
+
+  <div class="footer">
+    <span>${t('inspections.inspected_by')}: ${inspection.inspected_by_name || '-'}</span>
+    <span>${t('invoices.customer_signature')}: ____________</span>
+  </div>
+</body>
+</html>`;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(printContent);
+      printWindow.document.close();
+
+      setTimeout(() => {
+        printWindow.focus();
+        printWindow.print();
+        setTimeout(() => {
+          printWindow.close();
+        }, 100);
+      }, 500);
+    } else {
+      toast.error(t('common.print_error'));
+    }
+  }
+
+  if (!canEdit && inspections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ClipboardList className="h-5 w-5 text-blue-600" />
+        <h3 className="text-xl font-bold text-gray-800">{t('inspections.title')}</h3>
+      </div>
+
+      {canEdit && (
+        templates.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">{t('inspections.no_templates')}</p>
+        ) : (
+          <div className="flex gap-2 mb-4">
+            <select
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{t('inspections.select_template')}</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleStart}
+              disabled={!templateId || busyId === 'new'}
+              className="flex items-center gap-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+            >
+              <Play className="h-4 w-4" />
+              {t('inspections.start')}
+            </button>
+          </div>
+        )
+      )}
+
+      {inspections.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('inspections.empty')}</p>
+      ) : (
+        <div className="space-y-4">
+          {inspections.map((inspection) => {
+            const editable = canEdit && inspection.status === 'in_progress';
+            const proposable = inspection.items.filter(
+              (item) => (item.rating === 'red' || item.rating === 'amber') && !item.service_id
+            );
+            const busy = busyId === inspection.id;
+
+            return (
+              <div key={inspection.id} className="border border-gray-200 rounded-lg">
+                <button
+                  onClick={() => setOpenId(openId === inspection.id ? null : inspection.id)}
+                  className="w-full flex items-center justify-between p-4 text-right"
+                >
+                  <div>
+                    <p className="font-semibold text-gray-800">{inspection.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(inspection.created_at).toLocaleDateString('en-US')}
+                      {inspection.inspected_by_name && ` · ${inspection.inspected_by_name}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {INSPECTION_RATINGS.map((rating) => {
+                      const count = inspection.items.filter((item) => item.rating === rating).length;
+                      return count > 0 && (
+                        <span key={rating} className={`px-2 py-0.5 rounded-full text-xs font-medium ${RATING_STYLES[rating].badge}`}>
+                          {count}
+                        </span>
+                      );
+                    })}
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      inspection.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                    }`}>
+                      {t(`inspections.statuses.${inspection.status}`)}
+                    </span>
+                  </div>
+                </button>
+
+                {openId === inspection.id && (
+                  <div className="border-t border-gray-200 p-4 space-y-4">
+                    {groupByCategory(inspection.items).map(([category, items]) => (
+                      <div key={category}>
+                        <h4 className="font-semibold text-gray-700 mb-2">{category}</h4>
+                        <div className="space-y-3">
+                          {items.map((item) => (
+                            <div key={item.id} className="flex flex-col gap-2 md:flex-row md:items-start">
+                              <div className="md:w-1/3">
+                                <p className="text-sm text-gray-800">{item.label}</p>
+                                {item.service_id && (
+                                  <p className="text-xs text-green-700">{t('inspections.added_to_order')}</p>
+                                )}
+                              </div>
+                              <div className="flex gap-1 shrink-0">
+                                {INSPECTION_RATINGS.map((rating) => (
+                                  <button
+                                    key={rating}
+                                    type="button"
+                                    disabled={!editable}
+                                    onClick={() => updateItem(inspection.id, item.id, { rating: item.rating === rating ? null : rating })}
+                                    className={`px-2 py-1 rounded-lg border text-xs font-medium ${
+                                      item.rating === rating ? RATING_STYLES[rating].active : 'border-gray-200 text-gray-600'
+                                    } ${editable ? 'hover:opacity-80' : 'cursor-default'}`}
+                                  >
+                                    {t(`inspections.ratings.${rating}`)}
+                                  </button>
+                                ))}
+                              </div>
+                              <div className="flex-1 space-y-2">
+                                {editable ? (
+                                  <input
+                                    type="text"
+                                    value={item.note || ''}
+                                    onChange={(e) => updateItem(inspection.id, item.id, { note: e.target.value })}
+                                    placeholder={t('inspections.note_placeholder')}
+                                    className="w-full px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                                  />
+                                ) : (
+                                  item.note && <p className="text-sm text-gray-700">{item.note}</p>
+                                )}
+                                <div className="flex flex-wrap gap-2">
+                                  {item.photo_urls.map((url, index) => (
+                                    <div key={url} className="relative">
+                                      <a href={url} target="_blank" rel="noopener noreferrer">
+                                        <img src={url} alt="" className="h-14 w-14 object-cover rounded-lg border border-gray-200" />
+                                      </a>
+                                      {editable && (
+                                        <button
+                                          type="button"
+                                          onClick={() => updateItem(inspection.id, item.id, {
+                                            photos: item.photos.filter((_, i) => i !== index),
+                                            photo_urls: item.photo_urls.filter((_, i) => i !== index),
+                                          })}
+                                          className="absolute -top-2 -left-2 bg-red-600 text-white rounded-full p-0.5"
+                                        >
+                                          <X className="h-3 w-3" />
+                                        </button>
+                                      )}
+                                    </div>
+                                  ))}
+                                  {editable && (
+                                    <label className="h-14 w-14 flex items-center justify-center border-2 border-dashed border-gray-300 rounded-lg text-gray-500 cursor-pointer hover:bg-gray-50">
+                                      <Camera className="h-4 w-4" />
+                                      <input
+                                        type="file"
+                                        accept="image/*"
+                                        capture="environment"
+                                        multiple
+                                        className="hidden"
+                                        onChange={(e) => {
+                                          const files = Array.from(e.target.files || []);
+                                          e.target.value = '';
+                                          handleAddPhotos(inspection.id, item, files);
+                                        }}
+                                      />
+                                    </label>
+                                  )}
+                                </div>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                    {editable ? (
+                      <textarea
+                        value={inspection.notes || ''}
+                        onChange={(e) => replaceInspection({ ...inspection, notes: e.target.value })}
+                        placeholder={t('inspections.notes_placeholder')}
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    ) : (
+                      inspection.notes && <p className="text-sm text-gray-700 whitespace-pre-line">{inspection.notes}</p>
+                    )}
+
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {canEdit && canAddServices && proposable.length > 0 && (
+                        <button
+                          onClick={() => handlePropose(inspection)}
+                          disabled={busy}
+                          className="flex items-center gap-1 bg-amber-500 text-white px-3 py-2 rounded-lg text-sm hover:bg-amber-600 transition-colors disabled:bg-gray-400"
+                          title={t('inspections.propose_services_hint', {
+                            amount: `${formatToFixed(proposable.reduce((sum, item) => sum + Number(item.estimated_cost), 0))} ${t('common.sar')}`,
+                          })}
+                        >
+                          <ListPlus className="h-4 w-4" />
+                          {t('inspections.propose_services', { count: proposable.length })}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => printReport(inspection)}
+                        className="flex items-center gap-1 bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm hover:bg-gray-200 transition-colors"
+                      >
+                        <Printer className="h-4 w-4" />
+                        {t('inspections.print_report')}
+                      </button>
+                      {editable && (
+                        <>
+                          <button
+                            onClick={() => handleSave(inspection)}
+                            disabled={busy}
+                            className="flex items-center gap-1 bg-blue-600 text-white px-3 py-2 rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+                          >
+                            <Save className="h-4 w-4" />
+                            {t('common.save')}
+                          </button>
+                          <button
+                            onClick={() => handleSave(inspection, true)}
+                            disabled={busy}
+                            className="flex items-center gap-1 bg-green-600 text-white px-3 py-2 rounded-lg text-sm hover:bg-green-700 transition-colors disabled:bg-gray-400"
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                            {t('inspections.complete')}
+                          </button>
+                        </>
+                      )}
+                      {canEdit && (
+                        <button
+                          onClick={() => handleDelete(inspection)}
+                          className="flex items-center gap-1 text-red-600 px-3 py-2 rounded-lg text-sm hover:bg-red-50 transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          {t('common.delete')}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
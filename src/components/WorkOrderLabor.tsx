@@ -0,0 +1,323 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle, Pause, Play, Timer } from 'lucide-react';
+import { workOrdersService, ServiceError, ClockLaborData } from '../services';
+import { LaborPauseReason, LaborState, ServiceLabor, WorkOrderLabor as Labor } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { displayNumber } from '../utils/numberUtils';
+
+interface WorkOrderLaborProps {
+  workOrderId: string;
+  canEdit: boolean;
+  /** Technicians can only clock on while the order is open */
+  canClock: boolean;
+  version?: number;
+}
+
+const PAUSE_REASONS: LaborPauseReason[] = [
+  'waiting_parts',
+  'waiting_approval',
+  'break',
+  'end_of_shift',
+  'other',
+];
+
+const STATE_STYLES: Record<LaborState, string> = {
+  idle: 'bg-gray-100 text-gray-700',
+  working: 'bg-green-100 text-green-800',
+  paused: 'bg-amber-100 text-amber-800',
+  finished: 'bg-blue-100 text-blue-800',
+};
+
+const REFRESH_INTERVAL = 60_000;
+
+function efficiencyStyle(efficiency: number) {
+  if (efficiency >= 100) return 'text-green-700';
+  if (efficiency >= 80) return 'text-amber-700';
+  return 'text-red-700';
+}
+
+/**
+ * Technicians clocking on and off the services of a work order, with the
+ * clocked hours set against the billed hours.
+ */
+export function WorkOrderLabor({ workOrderId, canEdit, canClock, version }: WorkOrderLaborProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [labor, setLabor] = useState<Labor | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [pausing, setPausing] = useState<string | null>(null);
+  const [pauseReason, setPauseReason] = useState<LaborPauseReason>('waiting_parts');
+  const [billedDrafts, setBilledDrafts] = useState<Record<string, string>>({});
+
+  const working = labor?.services.some((service) =>
+    service.technicians.some((technician) => technician.state === 'working')
+  );
+
+  useEffect(() => {
+    loadLabor();
+  }, [workOrderId, version]);
+
+  // Keeps the running sessions up to date
+  useEffect(() => {
+    if (!working) return;
+    const timer = setInterval(() => loadLabor(), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [working, workOrderId]);
+
+  async function loadLabor() {
+    try {
+      setLabor(await workOrdersService.getLabor(workOrderId));
+    } catch (error) {
+      console.error('Error loading labor time:', error);
+    }
+  }
+
+  async function clock(service: ServiceLabor, technicianId: string, action: ClockLaborData['action']) {
+    const key = `${service.id}:${technicianId}`;
+    setSaving(key);
+    try {
+      setLabor(await workOrdersService.clockLabor(workOrderId, {
+        service_id: service.id,
+        technician_id: technicianId,
+        action,
+        ...(action === 'pause' ? { pause_reason: pauseReason } : {}),
+      }));
+      setPausing(null);
+    } catch (error) {
+      console.error('Error clocking labor:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('labor.error_clock'));
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  async function saveBilledHours(service: ServiceLabor) {
+    const draft = billedDrafts[service.id];
+    if (draft === undefined) return;
+
+    const billedHours = draft.trim() === '' ? null : Number(draft);
+    if (billedHours !== null && !(billedHours >= 0)) {
+      toast.error(t('labor.invalid_hours'));
+      return;
+    }
+    if (billedHours === service.billed_hours) return;
+
+    setSaving(service.id);
+    try {
+      setLabor(await workOrdersService.setBilledHours(workOrderId, service.id, billedHours));
+      setBilledDrafts((drafts) => {
+        const next = { ...drafts };
+        delete next[service.id];
+        return next;
+      });
+    } catch (error) {
+      console.error('Error saving billed hours:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('common.error.update'));
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  if (!labor || labor.services.length === 0) return null;
+
+  const formatHours = (hours: number) => t('labor.hours', { hours: displayNumber(hours) });
+
+  const renderEfficiency = (efficiency: number | null) =>
+    efficiency === null ? (
+      <span className="text-gray-400">—</span>
+    ) : (
+      <span className={`font-bold ${efficiencyStyle(efficiency)}`}>{displayNumber(efficiency)}%</span>
+    );
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Timer className="h-5 w-5 text-gray-600" />
+        <h3 className="text-xl font-bold text-gray-800">{t('labor.title')}</h3>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        <div className="bg-blue-50 rounded-lg p-3">
+          <p className="text-sm text-gray-600">{t('labor.actual_hours')}</p>
+          <p className="text-lg font-bold text-blue-700">{formatHours(labor.actual_hours)}</p>
+        </div>
+        <div className="bg-green-50 rounded-lg p-3">
+          <p className="text-sm text-gray-600">{t('labor.billed_hours')}</p>
+          <p className="text-lg font-bold text-green-700">{formatHours(labor.billed_hours)}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-sm text-gray-600">{t('labor.efficiency')}</p>
+          <p className="text-lg">{renderEfficiency(labor.efficiency)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {labor.services.map((service) => (
+          <div key={service.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex flex-wrap items-start justify-between gap-3 mb-3">
+              <div>
+                <h4 className="font-bold text-gray-800">{service.service_type}</h4>
+                <p className="text-sm text-gray-600">{service.description}</p>
+              </div>
+              <div className="flex items-center gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500">{t('labor.actual_hours')}</p>
+                  <p className="font-semibold text-gray-800">{formatHours(service.actual_hours)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">{t('labor.billed_hours')}</p>
+                  {canEdit ? (
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={billedDrafts[service.id] ?? (service.billed_hours ?? '')}
+                      onChange={(e) => setBilledDrafts((drafts) => ({ ...drafts, [service.id]: e.target.value }))}
+                      onBlur={() => saveBilledHours(service)}
+                      disabled={saving === service.id}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    />
+                  ) : (
+                    <p className="font-semibold text-gray-800">
+                      {service.billed_hours === null ? '—' : formatHours(service.billed_hours)}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-gray-500">{t('labor.efficiency')}</p>
+                  <p>{renderEfficiency(service.efficiency)}</p>
+                </div>
+              </div>
+            </div>
+
+            {service.technicians.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('labor.no_technicians')}</p>
+            ) : (
+              <div className="space-y-2">
+                {service.technicians.map((technician) => {
+                  const key = `${service.id}:${technician.technician_id}`;
+
+                  return (
+                    <div key={key} className="bg-gray-50 rounded-lg p-3 space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-800">{technician.name}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATE_STYLES[technician.state]}`}>
+                            {technician.state === 'paused' && technician.pause_reason
+                              ? t(`labor.pause_reasons.${technician.pause_reason}`)
+                              : t(`labor.states.${technician.state}`)}
+                          </span>
+                          {technician.state === 'working' && technician.since && (
+                            <span className="text-xs text-gray-500">
+                              {t('labor.since', {
+                                time: new Date(technician.since).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+                              })}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-600">{formatHours(technician.actual_hours)}</span>
+                          {canEdit && canClock && technician.state !== 'working' && (
+                            <button
+                              type="button"
+                              onClick={() => clock(service, technician.technician_id, 'start')}
+                              disabled={saving === key}
+                              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                            >
+                              <Play className="h-4 w-4" />
+                              {technician.state === 'idle' ? t('labor.start') : t('labor.resume')}
+                            </button>
+                          )}
+                          {canEdit && technician.state === 'working' && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => setPausing(pausing === key ? null : key)}
+                                disabled={saving === key}
+                                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50"
+                              >
+                                <Pause className="h-4 w-4" />
+                                {t('labor.pause')}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => clock(service, technician.technician_id, 'finish')}
+                                disabled={saving === key}
+                                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                                {t('labor.finish')}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+
+                      {pausing === key && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <select
+                            value={pauseReason}
+                            onChange={(e) => setPauseReason(e.target.value as LaborPauseReason)}
+                            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                          >
+                            {PAUSE_REASONS.map((reason) => (
+                              <option key={reason} value={reason}>
+                                {t(`labor.pause_reasons.${reason}`)}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => clock(service, technician.technician_id, 'pause')}
+                            disabled={saving === key}
+                            className="px-3 py-1.5 text-sm rounded-lg bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50"
+                          >
+                            {t('labor.confirm_pause')}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setPausing(null)}
+                            className="px-3 py-1.5 text-sm rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300"
+                          >
+                            {t('common.cancel')}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {labor.technicians.length > 1 && (
+        <div className="mt-6">
+          <h4 className="font-semibold text-gray-800 mb-2">{t('labor.by_technician')}</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 border-b border-gray-200">
+                <th className="text-start py-2">{t('labor.technician')}</th>
+                <th className="text-start py-2">{t('labor.actual_hours')}</th>
+                <th className="text-start py-2">{t('labor.billed_hours')}</th>
+                <th className="text-start py-2">{t('labor.efficiency')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {labor.technicians.map((technician) => (
+                <tr key={technician.technician_id} className="border-b border-gray-100">
+                  <td className="py-2 font-medium text-gray-800">{technician.name}</td>
+                  <td className="py-2">{formatHours(technician.actual_hours)}</td>
+                  <td className="py-2">{formatHours(technician.billed_hours)}</td>
+                  <td className="py-2">{renderEfficiency(technician.efficiency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
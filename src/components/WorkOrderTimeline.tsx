@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Banknote, History, MessageSquare, Package, PlusCircle, RefreshCw, UserCheck, UserMinus, Warehouse, Wrench } from 'lucide-react';
+import { workOrdersService, ServiceError } from '../services';
+import { WorkOrderEvent, WorkOrderEventType } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { formatToFixed } from '../utils/numberUtils';
+
+interface WorkOrderTimelineProps {
+  workOrderId: string;
+  canAddNote: boolean;
+  /** Bumped by the page whenever the order was reloaded */
+  version: number;
+}
+
+const EVENT_ICONS: Record<WorkOrderEventType, { icon: typeof History; color: string }> = {
+  created: { icon: PlusCircle, color: 'bg-gray-100 text-gray-600' },
+  status_changed: { icon: RefreshCw, color: 'bg-blue-100 text-blue-600' },
+  bay_changed: { icon: Warehouse, color: 'bg-sky-100 text-sky-600' },
+  service_added: { icon: Wrench, color: 'bg-indigo-100 text-indigo-600' },
+  service_updated: { icon: Wrench, color: 'bg-indigo-100 text-indigo-600' },
+  service_removed: { icon: Wrench, color: 'bg-red-100 text-red-600' },
+  part_added: { icon: Package, color: 'bg-orange-100 text-orange-600' },
+  part_updated: { icon: Package, color: 'bg-orange-100 text-orange-600' },
+  part_removed: { icon: Package, color: 'bg-red-100 text-red-600' },
+  technician_assigned: { icon: UserCheck, color: 'bg-teal-100 text-teal-600' },
+  technician_unassigned: { icon: UserMinus, color: 'bg-red-100 text-red-600' },
+  payment_received: { icon: Banknote, color: 'bg-green-100 text-green-600' },
+  note: { icon: MessageSquare, color: 'bg-yellow-100 text-yellow-700' },
+};
+
+/**
+ * History of the work order as logged by the database, newest first, with a
+ * box for adding notes.
+ */
+export function WorkOrderTimeline({ workOrderId, canAddNote, version }: WorkOrderTimelineProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [events, setEvents] = useState<WorkOrderEvent[]>([]);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadEvents();
+  }, [workOrderId, version]);
+
+  async function loadEvents() {
+    try {
+      setEvents(await workOrdersService.getEvents(workOrderId));
+    } catch (error) {
+      console.error('Error loading work order events:', error);
+    }
+  }
+
+  async function handleAddNote() {
+    if (!note.trim()) return;
+
+    setSaving(true);
+    try {
+      await workOrdersService.addNote(workOrderId, note.trim());
+      setNote('');
+      await loadEvents();
+    } catch (error) {
+      console.error('Error adding note:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('work_orders.timeline.note_error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function describe(event: WorkOrderEvent) {
+    const { data } = event;
+    const amount = data.amount !== undefined ? `${formatToFixed(Number(data.amount))} ${t('common.sar')}` : '';
+
+    switch (event.event_type) {
+      case 'created':
+        return t('work_orders.timeline.events.created');
+      case 'status_changed':
+        return t('work_orders.timeline.events.status_changed', {
+          from: t(`status.${data.from}`),
+          to: t(`status.${data.to}`),
+        });
+      case 'bay_changed':
+        return data.bay_name
+          ? t('work_orders.timeline.events.bay_assigned', { bay: data.bay_name })
+          : t('work_orders.timeline.events.bay_released', { bay: data.previous_bay_name || '-' });
+      case 'service_added':
+      case 'service_updated':
+      case 'service_removed':
+        return t(`work_orders.timeline.events.${event.event_type}`, {
+          service: data.description || data.service_type,
+          amount: `${formatToFixed(Number(data.labor_cost || 0))} ${t('common.sar')}`,
+        });
+      case 'part_added':
+      case 'part_updated':
+      case 'part_removed':
+        return t(`work_orders.timeline.events.${event.event_type}`, {
+          part: data.name,
+          quantity: data.quantity,
+          previous: data.previous_quantity ?? data.quantity,
+        });
+      case 'technician_assigned':
+      case 'technician_unassigned':
+        return t(`work_orders.timeline.events.${event.event_type}`, {
+          technician: data.technician_name,
+          service: data.service_type,
+        });
+      case 'payment_received':
+        return t(
+          data.source === 'deposit'
+            ? 'work_orders.timeline.events.deposit_received'
+            : 'work_orders.timeline.events.payment_received',
+          {
+            receipt: data.receipt_number,
+            invoice: data.invoice_number,
+            amount,
+            method: t(`common.payment_methods.${data.payment_method}`),
+          }
+        );
+      case 'note':
+        return t('work_orders.timeline.events.note');
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="h-5 w-5 text-gray-600" />
+        <h3 className="text-xl font-bold text-gray-800">{t('work_orders.timeline.title')}</h3>
+      </div>
+
+      {canAddNote && (
+        <div className="mb-6 flex gap-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t('work_orders.timeline.note_placeholder')}
+            rows={2}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleAddNote}
+            disabled={saving || !note.trim()}
+            className="self-end bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+          >
+            {saving ? t('common.saving') : t('work_orders.timeline.add_note')}
+          </button>
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('work_orders.timeline.empty')}</p>
+      ) : (
+        <ol className="space-y-4">
+          {[...events].reverse().map((event) => {
+            const { icon: Icon, color } = EVENT_ICONS[event.event_type];
+            return (
+              <li key={event.id} className="flex gap-3">
+                <div className={`h-8 w-8 rounded-full flex items-center justify-center shrink-0 ${color}`}>
+                  <Icon className="h-4 w-4" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-800">{describe(event)}</p>
+                  {event.event_type === 'note' && (
+                    <p className="text-sm text-gray-700 whitespace-pre-line mt-1">{event.data.note}</p>
+                  )}
+                  {event.data.reason && (
+                    <p className="text-sm text-red-700 mt-1">
+                      {t('work_orders.cancellation_reason')}: {event.data.reason}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(event.created_at).toLocaleString('en-US', {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                    {event.actor_name && ` · ${event.actor_name}`}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Warehouse, Edit, Plus, Save, Trash2, X } from 'lucide-react';
+import { baysService, ServiceError, SaveWorkshopBayData } from '../services';
+import { WorkshopBay } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+
+interface WorkshopBaysSettingsProps {
+  canEdit: boolean;
+}
+
+type BayForm = Required<SaveWorkshopBayData> & { id: string | null };
+
+const EMPTY_BAY: BayForm = { id: null, name: '', kind: 'bay', capacity: 1, is_active: true, sort_order: 0 };
+
+/**
+ * Bays and lifts appointments are booked on.
+ */
+export function WorkshopBaysSettings({ canEdit }: WorkshopBaysSettingsProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
+  const [bays, setBays] = useState<WorkshopBay[]>([]);
+  const [form, setForm] = useState<BayForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadBays();
+  }, []);
+
+  async function loadBays() {
+    try {
+      setBays(await baysService.getBays());
+    } catch (error) {
+      console.error('Error loading bays:', error);
+    }
+  }
+
+  async function handleSave() {
+    if (!form) return;
+
+    if (!form.name.trim()) {
+      toast.error(t('validation.fill_all_required'));
+      return;
+    }
+
+    const { id, ...data } = form;
+    setSaving(true);
+    try {
+      if (id) {
+        await baysService.updateBay(id, data);
+      } else {
+        await baysService.createBay(data);
+      }
+      toast.success(t('appointments.bays.saved'));
+      setForm(null);
+      await loadBays();
+    } catch (error) {
+      console.error('Error saving bay:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('appointments.bays.error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(bay: WorkshopBay) {
+    const confirmed = await confirm({
+      title: t('common.confirm'),
+      message: t('appointments.bays.confirm_delete', { name: bay.name }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      isDangerous: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await baysService.deleteBay(bay.id);
+      await loadBays();
+    } catch (error) {
+      console.error('Error deleting bay:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('appointments.bays.error'));
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-3">
+          <Warehouse className="h-6 w-6 text-blue-600" />
+          <h3 className="text-xl font-bold text-gray-800">{t('appointments.bays.title')}</h3>
+        </div>
+        {canEdit && !form && (
+          <button
+            type="button"
+            onClick={() => setForm({ ...EMPTY_BAY, sort_order: bays.length })}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {t('appointments.bays.new_bay')}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-6">{t('appointments.bays.description')}</p>
+
+      {form && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('appointments.bays.name')}</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('appointments.bays.kind')}</label>
+              <select
+                value={form.kind}
+                onChange={(e) => setForm({ ...form, kind: e.target.value as WorkshopBay['kind'] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="bay">{t('appointments.bays.kinds.bay')}</option>
+                <option value="lift">{t('appointments.bays.kinds.lift')}</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('appointments.bays.capacity')}</label>
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={form.capacity}
+                onChange={(e) => setForm({ ...form, capacity: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {t('appointments.bays.in_use')}
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              <X className="h-4 w-4" />
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="h-4 w-4" />
+              {saving ? t('settings.saving') : t('common.save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {bays.length === 0 ? (
+        !form && <p className="text-sm text-gray-500">{t('appointments.bays.no_bays')}</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {bays.map((bay) => (
+            <div key={bay.id} className="flex items-center justify-between py-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-800">{bay.name}</span>
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                    {t(`appointments.bays.kinds.${bay.kind}`)}
+                  </span>
+                  {!bay.is_active && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                      {t('appointments.bays.not_in_use')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500">{t('appointments.bays.capacity_count', { count: bay.capacity })}</p>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setForm({
+                      id: bay.id,
+                      name: bay.name,
+                      kind: bay.kind,
+                      capacity: bay.capacity,
+                      is_active: bay.is_active,
+                      sort_order: bay.sort_order,
+                    })}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(bay)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {ConfirmDialogComponent}
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, ShieldAlert, User, Wrench } from 'lucide-react';
+import { Appointment, Technician, WorkshopBay } from '../types';
+import { appointmentsService, baysService, techniciansService } from '../services';
+import { useAuth } from '../contexts/AuthContext';
+import { AppointmentForm } from '../components/AppointmentForm';
+import {
+  APPOINTMENT_STATUS_STYLES,
+  CALENDAR_END_HOUR,
+  CALENDAR_START_HOUR,
+  addDays,
+  formatTime,
+  isSameDay,
+  startOfDay,
+  startOfWeek,
+} from '../utils/appointments';
+
+interface AppointmentsProps {
+  onViewWorkOrder: (orderId: string) => void;
+}
+
+type CalendarView = 'day' | 'week';
+
+const HOUR_HEIGHT = 64;
+const UNASSIGNED = '';
+
+interface FormState {
+  appointment: Appointment | null;
+  start: Date;
+  bayId?: string | null;
+}
+
+/**
+ * Places overlapping appointments of a column side by side: each gets the
+ * first lane free at its start time.
+ */
+function assignLanes(appointments: Appointment[]) {
+  const laneEnds: number[] = [];
+  const lanes = appointments.map((appointment) => {
+    const start = new Date(appointment.starts_at).getTime();
+    let lane = laneEnds.findIndex((end) => end <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = new Date(appointment.ends_at).getTime();
+    return { appointment, lane };
+  });
+  return { lanes, count: Math.max(1, laneEnds.length) };
+}
+
+export function Appointments({ onViewWorkOrder }: AppointmentsProps) {
+  const { t, i18n } = useTranslation();
+  const { hasPermission, hasDetailedPermission } = useAuth();
+  const [view, setView] = useState<CalendarView>('day');
+  const [date, setDate] = useState(() => startOfDay(new Date()));
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [bays, setBays] = useState<WorkshopBay[]>([]);
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState | null>(null);
+
+  const canCreate = hasDetailedPermission('appointments.create');
+  const rangeStart = view === 'day' ? date : startOfWeek(date);
+  const rangeEnd = addDays(rangeStart, view === 'day' ? 1 : 7);
+
+  useEffect(() => {
+    loadResources();
+  }, []);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [view, date]);
+
+  async function loadResources() {
+    const [baysResult, techniciansResult] = await Promise.allSettled([
+      baysService.getBays(),
+      techniciansService.getActiveTechnicians(),
+    ]);
+    if (baysResult.status === 'fulfilled') setBays(baysResult.value);
+    if (techniciansResult.status === 'fulfilled') setTechnicians(techniciansResult.value);
+  }
+
+  async function loadAppointments() {
+    setLoading(true);
+    try {
+      setAppointments(await appointmentsService.getAppointments(rangeStart, rangeEnd));
+    } catch (error) {
+      console.error('Error loading appointments:', error);
+      setAppointments([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function move(direction: 1 | -1) {
+    setDate(addDays(date, direction * (view === 'day' ? 1 : 7)));
+  }
+
+  function openNew(start: Date, bayId?: string | null) {
+    if (!canCreate) return;
+    setForm({ appointment: null, start, bayId });
+  }
+
+  const weekdayLocale = i18n.language === 'ar' ? 'ar' : 'en-US';
+  const formatDay = (day: Date) =>
+    `${day.toLocaleDateString(weekdayLocale, { weekday: 'long' })} ${day.toLocaleDateString('en-GB')}`;
+
+  const renderCard = (appointment: Appointment, compact = false) => (
+    <div className={`h-full border rounded-md px-2 py-1 text-xs overflow-hidden ${APPOINTMENT_STATUS_STYLES[appointment.status]}`}>
+      <div className="font-semibold truncate">
+        {formatTime(appointment.starts_at)} - {formatTime(appointment.ends_at)} · {appointment.customer?.name || '-'}
+      </div>
+      {appointment.vehicle && (
+        <div className="truncate">
+          {appointment.vehicle.car_make} {appointment.vehicle.car_model} · {appointment.vehicle.plate_number}
+        </div>
+      )}
+      {!compact && (
+        <div className="flex flex-wrap gap-x-2 truncate">
+          {appointment.technician && (
+            <span className="inline-flex items-center gap-1">
+              <User className="h-3 w-3" />
+              {appointment.technician.name}
+            </span>
+          )}
+          {appointment.requested_services.length > 0 && (
+            <span className="inline-flex items-center gap-1">
+              <Wrench className="h-3 w-3" />
+              {appointment.requested_services.map((service) => service.description).join('، ')}
+            </span>
+          )}
+        </div>
+      )}
+      {compact && appointment.bay && <div className="truncate">{appointment.bay.name}</div>}
+    </div>
+  );
+
+  if (!hasPermission('appointments')) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <ShieldAlert className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">{t('appointments.unauthorized')}</h2>
+          <p className="text-gray-600">{t('appointments.unauthorized_message')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const hours = Array.from({ length: CALENDAR_END_HOUR - CALENDAR_START_HOUR }, (_, i) => CALENDAR_START_HOUR + i);
+  const activeBays = bays.filter((bay) => bay.is_active || appointments.some((appointment) => appointment.bay_id === bay.id));
+  const columns = [
+    ...activeBays.map((bay) => ({ id: bay.id, label: bay.name, capacity: bay.capacity })),
+    { id: UNASSIGNED, label: t('appointments.no_bay'), capacity: 0 },
+  ];
+
+  const renderDayView = () => (
+    <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+      <div className="flex min-w-max">
+        <div className="w-14 flex-shrink-0 border-l border-gray-200">
+          <div className="h-10 border-b border-gray-200" />
+          {hours.map((hour) => (
+            <div key={hour} style={{ height: HOUR_HEIGHT }} className="text-xs text-gray-500 text-center border-b border-gray-100 pt-1">
+              {String(hour).padStart(2, '0')}:00
+            </div>
+          ))}
+        </div>
+
+        {columns.map((column) => {
+          const columnAppointments = appointments.filter((appointment) => (appointment.bay_id || UNASSIGNED) === column.id);
+          const { lanes, count } = assignLanes(columnAppointments);
+
+          return (
+            <div key={column.id || 'unassigned'} className="w-56 flex-shrink-0 border-l border-gray-200">
+              <div className="h-10 border-b border-gray-200 bg-gray-50 px-2 flex items-center justify-between">
+                <span className="font-semibold text-sm text-gray-800 truncate">{column.label}</span>
+                {column.capacity > 1 && (
+                  <span className="text-xs text-gray-500">{t('appointments.bays.capacity_count', { count: column.capacity })}</span>
+                )}
+              </div>
+              <div className="relative">
+                {hours.map((hour) => (
+                  <div
+                    key={hour}
+                    style={{ height: HOUR_HEIGHT }}
+                    onClick={() => {
+                      const start = new Date(date);
+                      start.setHours(hour, 0, 0, 0);
+                      openNew(start, column.id || null);
+                    }}
+                    className={`border-b border-gray-100 ${canCreate ? 'cursor-pointer hover:bg-blue-50' : ''}`}
+                  />
+                ))}
+                {lanes.map(({ appointment, lane }) => {
+                  const startMinutes = Math.max(
+                    0,
+                    (new Date(appointment.starts_at).getTime() - date.getTime()) / 60000 - CALENDAR_START_HOUR * 60
+                  );
+                  const endMinutes = Math.min(
+                    (CALENDAR_END_HOUR - CALENDAR_START_HOUR) * 60,
+                    (new Date(appointment.ends_at).getTime() - date.getTime()) / 60000 - CALENDAR_START_HOUR * 60
+                  );
+                  if (endMinutes <= startMinutes) return null;
+
+                  return (
+                    <button
+                      key={appointment.id}
+                      type="button"
+                      onClick={() => setForm({ appointment, start: new Date(appointment.starts_at) })}
+                      className="absolute p-0.5 text-start"
+                      style={{
+                        top: (startMinutes / 60) * HOUR_HEIGHT,
+                        height: Math.max(((endMinutes - startMinutes) / 60) * HOUR_HEIGHT, 24),
+                        insetInlineStart: `${(lane / count) * 100}%`,
+                        width: `${100 / count}%`,
+                      }}
+                    >
+                      {renderCard(appointment, endMinutes - startMinutes < 45)}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const renderWeekView = () => (
+    <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+      {Array.from({ length: 7 }, (_, i) => addDays(rangeStart, i)).map((day) => {
+        const dayAppointments = appointments.filter((appointment) => isSameDay(new Date(appointment.starts_at), day));
+        const isToday = isSameDay(day, new Date());
+
+        return (
+          <div key={day.toISOString()} className={`bg-white rounded-xl shadow-md p-2 min-h-[160px] ${isToday ? 'ring-2 ring-blue-400' : ''}`}>
+            <button
+              type="button"
+              onClick={() => {
+                setDate(day);
+                setView('day');
+              }}
+              className="w-full text-start text-sm font-semibold text-gray-800 hover:text-blue-600 mb-2"
+            >
+              {formatDay(day)}
+            </button>
+            <div className="space-y-1">
+              {dayAppointments.map((appointment) => (
+                <button
+                  key={appointment.id}
+                  type="button"
+                  onClick={() => setForm({ appointment, start: new Date(appointment.starts_at) })}
+                  className="w-full text-start"
+                >
+                  {renderCard(appointment, true)}
+                </button>
+              ))}
+              {dayAppointments.length === 0 && <p className="text-xs text-gray-400">{t('appointments.no_appointments')}</p>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-800">{t('appointments.title')}</h2>
+        {canCreate && (
+          <button
+            onClick={() => {
+              const start = new Date(date);
+              start.setHours(Math.max(new Date().getHours() + 1, CALENDAR_START_HOUR), 0, 0, 0);
+              openNew(start);
+            }}
+            className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-3 sm:py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium min-h-[44px]"
+          >
+            <Plus className="h-5 w-5 sm:h-4 sm:w-4" />
+            <span>{t('appointments.new_appointment')}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg sm:rounded-xl shadow-md p-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => move(-1)} className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200" title={t('common.previous')}>
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setDate(startOfDay(new Date()))}
+            className="px-3 py-2 text-sm rounded-lg bg-gray-100 hover:bg-gray-200"
+          >
+            {t('common.today')}
+          </button>
+          <button type="button" onClick={() => move(1)} className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200" title={t('common.next')}>
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="flex items-center gap-2 font-semibold text-gray-800">
+            <CalendarDays className="h-5 w-5 text-blue-600" />
+            {view === 'day'
+              ? formatDay(date)
+              : `${rangeStart.toLocaleDateString('en-GB')} - ${addDays(rangeEnd, -1).toLocaleDateString('en-GB')}`}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {(['day', 'week'] as CalendarView[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setView(value)}
+              className={`px-4 py-2 text-sm rounded-lg transition-colors ${
+                view === value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {t(`appointments.views.${value}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">{t('common.loading')}</div>
+      ) : view === 'day' ? (
+        renderDayView()
+      ) : (
+        renderWeekView()
+      )}
+
+      {form && (
+        <AppointmentForm
+          appointment={form.appointment}
+          initialStart={form.start}
+          initialBayId={form.bayId}
+          bays={bays}
+          technicians={technicians}
+          onClose={() => setForm(null)}
+          onSaved={() => {
+            setForm(null);
+            loadAppointments();
+          }}
+          onViewWorkOrder={onViewWorkOrder}
+        />
+      )}
+    </div>
+  );
+}
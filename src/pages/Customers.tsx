@@ -1,12 +1,13 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { Customer, Vehicle } from '../types';
-import { Plus, Edit2, Trash2, Phone, Mail, Car, User, X, Search, ShieldAlert } from 'lucide-react';
+import { Plus, Edit2, Trash2, Phone, Mail, Car, User, X, Search, ShieldAlert, MessageSquare } from 'lucide-react';
 import { useToast } from '../contexts/ToastContext';
 import { useConfirm } from '../hooks/useConfirm';
 import { useTranslation } from 'react-i18next';
-import { normalizeNumberInput } from '../utils/numberUtils';
+import { normalizeNumberInput, formatToFixed } from '../utils/numberUtils';
 import { useAuth } from '../contexts/AuthContext';
+import { CustomerMessageHistory } from '../components/CustomerMessageHistory';
 
 interface VehicleFormData {
   car_make: string;
@@ -35,11 +36,20 @@ export function Customers() {
   const [hasMore, setHasMore] = useState(true);
   const PAGE_SIZE = 30;
 
-  const [customerForm, setCustomerForm] = useState({
+  const [customerForm, setCustomerForm] = useState<{
+    name: string;
+    phone: string;
+    email: string;
+    payment_terms: NonNullable<Customer['payment_terms']>;
+    preferred_language: NonNullable<Customer['preferred_language']>;
+  }>({
     name: '',
     phone: '',
     email: '',
+    payment_terms: 'cash',
+    preferred_language: 'ar',
   });
+  const [messagesCustomer, setMessagesCustomer] = useState<Customer | null>(null);
 
   const [vehicleForm, setVehicleForm] = useState({
     customer_id: '',
@@ -71,6 +81,20 @@ export function Customers() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  async function withDepositBalances(customerRows: Customer[]): Promise<Customer[]> {
+    if (customerRows.length === 0) return customerRows;
+
+    const { data: balances, error } = await supabase.rpc('get_customer_deposit_balances', {
+      p_customer_ids: customerRows.map(c => c.id),
+    });
+    if (error) console.error('Error loading deposit balances:', error);
+
+    const byCustomer = new Map<string, number>(
+      (balances || []).map((row: { customer_id: string; balance: number }) => [row.customer_id, Number(row.balance)])
+    );
+    return customerRows.map(c => ({ ...c, deposit_balance: byCustomer.get(c.id) || 0 }));
+  }
+
   async function loadCustomersAndVehicles(resetPage = false) {
     try {
       const currentPage = resetPage ? 0 : page;
@@ -82,11 +106,13 @@ export function Customers() {
 
       if (customersError) throw customersError;
 
+      const pageCustomers = await withDepositBalances(customersData || []);
+
       if (resetPage) {
-        setCustomers(customersData || []);
+        setCustomers(pageCustomers);
         setPage(0);
       } else {
-        setCustomers(prev => currentPage === 0 ? (customersData || []) : [...prev, ...(customersData || [])]);
+        setCustomers(prev => currentPage === 0 ? pageCustomers : [...prev, ...pageCustomers]);
       }
 
       setHasMore((customersData?.length || 0) === PAGE_SIZE && ((currentPage + 1) * PAGE_SIZE) < (count || 0));
@@ -262,6 +288,8 @@ export function Customers() {
       name: customer.name,
       phone: customer.phone,
       email: customer.email || '',
+      payment_terms: customer.payment_terms || 'cash',
+      preferred_language: customer.preferred_language || 'ar',
     });
     setShowCustomerForm(true);
   }
@@ -293,7 +321,7 @@ export function Customers() {
   }
 
   function resetCustomerForm() {
-    setCustomerForm({ name: '', phone: '', email: '' });
+    setCustomerForm({ name: '', phone: '', email: '', payment_terms: 'cash', preferred_language: 'ar' });
     setEditingCustomerId(null);
     setShowCustomerForm(false);
     setNewCustomerVehicles([]);
@@ -407,7 +435,7 @@ export function Customers() {
           <form onSubmit={handleCustomerSubmit} className="space-y-6">
             <div>
               <h4 className="text-lg font-semibold text-gray-700 mb-3">{t('customers.customer_info')}</h4>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">{t('customers.name')}</label>
                   <input
@@ -437,6 +465,29 @@ export function Customers() {
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('customers.payment_terms')}</label>
+                  <select
+                    value={customerForm.payment_terms}
+                    onChange={(e) => setCustomerForm({ ...customerForm, payment_terms: e.target.value as typeof customerForm.payment_terms })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="cash">{t('customers.payment_terms_options.cash')}</option>
+                    <option value="net_15">{t('customers.payment_terms_options.net_15')}</option>
+                    <option value="net_30">{t('customers.payment_terms_options.net_30')}</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('customers.preferred_language')}</label>
+                  <select
+                    value={customerForm.preferred_language}
+                    onChange={(e) => setCustomerForm({ ...customerForm, preferred_language: e.target.value as typeof customerForm.preferred_language })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="ar">العربية</option>
+                    <option value="en">English</option>
+                  </select>
+                </div>
               </div>
             </div>
 
@@ -662,10 +713,23 @@ export function Customers() {
                           <span className="text-xs">{customer.email}</span>
                         </div>
                       )}
+                      {customer.payment_terms && customer.payment_terms !== 'cash' && (
+                        <span className="text-xs">{t(`customers.payment_terms_options.${customer.payment_terms}`)}</span>
+                      )}
+                      {Number(customer.deposit_balance) > 0 && (
+                        <span className="text-xs">{t('customers.deposit_balance', { amount: formatToFixed(Number(customer.deposit_balance)) })}</span>
+                      )}
                     </div>
                   </div>
                 </div>
                 <div className="flex flex-col space-y-1">
+                  <button
+                    onClick={() => setMessagesCustomer(customer)}
+                    title={t('customers.message_history')}
+                    className="bg-white bg-opacity-20 hover:bg-opacity-30 text-white p-1 rounded transition-colors min-h-[32px] min-w-[32px] flex items-center justify-center"
+                  >
+                    <MessageSquare className="h-3 w-3" />
+                  </button>
                   {hasDetailedPermission('customers.update') && (
                     <button
                       onClick={() => handleEditCustomer(customer)}
@@ -772,10 +836,23 @@ export function Customers() {
                             <span className="text-sm truncate">{customer.email}</span>
                           </div>
                         )}
+                        {customer.payment_terms && customer.payment_terms !== 'cash' && (
+                          <span className="text-xs">{t(`customers.payment_terms_options.${customer.payment_terms}`)}</span>
+                        )}
+                        {Number(customer.deposit_balance) > 0 && (
+                          <span className="text-xs">{t('customers.deposit_balance', { amount: formatToFixed(Number(customer.deposit_balance)) })}</span>
+                        )}
                       </div>
                     </div>
                   </div>
                   <div className="flex space-x-2 space-x-reverse ml-2">
+                    <button
+                      onClick={() => setMessagesCustomer(customer)}
+                      title={t('customers.message_history')}
+                      className="bg-white bg-opacity-20 hover:bg-opacity-30 text-white p-2 rounded transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
+                    >
+                      <MessageSquare className="h-5 w-5" />
+                    </button>
                     {hasDetailedPermission('customers.update') && (
                       <button
                         onClick={() => handleEditCustomer(customer)}
@@ -889,6 +966,15 @@ export function Customers() {
         </div>
       )}
 
+      {messagesCustomer && (
+        <CustomerMessageHistory
+          customerId={messagesCustomer.id}
+          customerName={messagesCustomer.name}
+          canRetry={hasDetailedPermission('customers.update')}
+          onClose={() => setMessagesCustomer(null)}
+        />
+      )}
+
       {ConfirmDialogComponent}
     </div>
   );
@@ -1,11 +1,20 @@
-import { useState, useEffect, useRef } from 'react';
+import { Fragment, useState, useEffect, useRef } from 'react';
+import QRCode from 'qrcode';
 import { useTranslation } from 'react-i18next';
-import { ArrowRight, Printer, CheckCircle, XCircle, Clock, Edit, CreditCard, Banknote, FileText } from 'lucide-react';
-import { settingsService, invoicesService, ServiceError } from '../services';
+import { ArrowRight, Printer, CheckCircle, XCircle, Clock, CreditCard, Banknote, FileText, FileCode, ShieldCheck, FileMinus, FilePlus, Send, Plus, Trash2, Download } from 'lucide-react';
+import { settingsService, invoicesService, ServiceError, CreateInvoicePaymentData, InvoicePdfFormat } from '../services';
 import { supabase } from '../lib/supabase';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
-import { formatToFixed, toEnglishDigits, normalizeNumberInput } from '../utils/numberUtils';
+import { useConfirm } from '../hooks/useConfirm';
+import { formatToFixed, toEnglishDigits } from '../utils/numberUtils';
+import { ConsolidatedWorkOrder, InvoiceEInvoice, InvoiceNote, InvoicePayment, TaxBreakdownRow, VatCategory } from '../types';
+import { InvoiceNoteForm } from '../components/InvoiceNoteForm';
+import { InvoiceNoteDocument } from '../components/InvoiceNoteDocument';
+import { PaymentReceipt } from '../components/PaymentReceipt';
+import { PaymentTendersInput } from '../components/PaymentTendersInput';
+import { DocumentEmailPanel } from '../components/DocumentEmailPanel';
+import { InvoiceRefunds } from '../components/InvoiceRefunds';
 
 interface InvoiceDetailsProps {
   invoiceId: string;
@@ -15,6 +24,7 @@ interface InvoiceDetailsProps {
 interface Invoice {
   id: string;
   invoice_number: string;
+  status?: 'draft' | 'issued';
   work_order_id: string;
   customer_id: string;
   vehicle_id: string;
@@ -31,6 +41,13 @@ interface Invoice {
   card_type?: 'mada' | 'visa';
   notes: string;
   created_at: string;
+  qr_code?: string | null;
+  einvoice?: { qr_code: string } | null;
+  is_consolidated?: boolean;
+  period_start?: string | null;
+  period_end?: string | null;
+  work_orders?: ConsolidatedWorkOrder[];
+  tax_breakdown?: TaxBreakdownRow[];
 }
 
 interface WorkOrder {
@@ -46,7 +63,11 @@ interface InvoiceItem {
   description: string;
   quantity: number;
   unit_price: number;
+  discount_percentage?: number;
+  discount_amount?: number;
+  vat_category?: VatCategory;
   total: number;
+  work_order_id?: string | null;
 }
 
 interface SparePart {
@@ -81,10 +102,24 @@ interface WorkshopSettings {
   tax_enabled: boolean;
 }
 
+// Credit notes reduce the amount owed, debit notes add to it
+function netInvoiceTotal(invoice: Invoice, notes: InvoiceNote[]) {
+  return notes.reduce(
+    (sum, note) => sum + (note.note_type === 'debit' ? 1 : -1) * Number(note.total),
+    Number(invoice.total)
+  );
+}
+
+// paid_amount is already net of refunds
+function balanceDue(invoice: Invoice, notes: InvoiceNote[]) {
+  return netInvoiceTotal(invoice, notes) - Number(invoice.paid_amount);
+}
+
 export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
   const { t } = useTranslation();
   const toast = useToast();
-  const { user } = useAuth();
+  const { user, hasDetailedPermission } = useAuth();
+  const { confirm, ConfirmDialogComponent } = useConfirm();
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [items, setItems] = useState<InvoiceItem[]>([]);
   const [spareParts, setSpareParts] = useState<SparePart[]>([]);
@@ -93,68 +128,65 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
   const [workOrder, setWorkOrder] = useState<WorkOrder | null>(null);
   const [workshop, setWorkshop] = useState<WorkshopSettings | null>(null);
   const [loading, setLoading] = useState(true);
-  const [editingPayment, setEditingPayment] = useState(false);
-  const [newPaidAmount, setNewPaidAmount] = useState(0);
-  const [newPaymentMethod, setNewPaymentMethod] = useState<'cash' | 'card'>('cash');
-  const [newCardType, setNewCardType] = useState<'mada' | 'visa'>('mada');
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [addingPayment, setAddingPayment] = useState(false);
+  const [savingPayment, setSavingPayment] = useState(false);
+  const [newTenders, setNewTenders] = useState<CreateInvoicePaymentData[]>([]);
+  const [printingPayment, setPrintingPayment] = useState<InvoicePayment | null>(null);
+  const [einvoice, setEInvoice] = useState<InvoiceEInvoice | null>(null);
+  const [issuingEInvoice, setIssuingEInvoice] = useState(false);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [invoiceNotes, setInvoiceNotes] = useState<InvoiceNote[]>([]);
+  const [noteFormType, setNoteFormType] = useState<InvoiceNote['note_type'] | null>(null);
+  const [printingNote, setPrintingNote] = useState<InvoiceNote | null>(null);
+  const [issuing, setIssuing] = useState(false);
+  const [pdfFormat, setPdfFormat] = useState<InvoicePdfFormat>('a4');
+  const [downloadingPdf, setDownloadingPdf] = useState(false);
   const printRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     fetchInvoiceDetails();
     fetchWorkshopSettings();
+    fetchEInvoice();
+    fetchInvoiceNotes();
+    fetchPayments();
   }, [invoiceId]);
 
-  const fetchInvoiceDetails = async () => {
-    try {
-      const { data: invoiceData, error: invoiceError } = await supabase
-        .from('invoices')
-        .select('*')
-        .eq('id', invoiceId)
-        .maybeSingle();
-
-      if (invoiceError) throw invoiceError;
-      if (!invoiceData) {
-        toast.error('Invoice not found');
-        navigate('/invoices');
-        return;
-      }
-      setInvoice(invoiceData);
-      setNewPaidAmount(Number(invoiceData.paid_amount));
-
-      const { data: itemsData } = await supabase
-        .from('invoice_items')
-        .select('*')
-        .eq('invoice_id', invoiceId);
-
-      setItems(itemsData || []);
-
-      const { data: customerData } = await supabase
-        .from('customers')
-        .select('name, phone, email')
-        .eq('id', invoiceData.customer_id)
-        .single();
+  useEffect(() => {
+    if (!printingNote && !printingPayment) return;
+    window.print();
+    setPrintingNote(null);
+    setPrintingPayment(null);
+  }, [printingNote, printingPayment]);
 
-      setCustomer(customerData);
+  useEffect(() => {
+    // The stamped (Phase 2) QR supersedes the Phase 1 payload once issued
+    const payload = einvoice?.qr_code || invoice?.einvoice?.qr_code || invoice?.qr_code;
+    if (!payload) {
+      setQrDataUrl(null);
+      return;
+    }
 
-      if (invoiceData.vehicle_id) {
-        const { data: vehicleData } = await supabase
-          .from('vehicles')
-          .select('car_make, car_model, car_year, plate_number')
-          .eq('id', invoiceData.vehicle_id)
-          .single();
+    QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 1, width: 320 })
+      .then(setQrDataUrl)
+      .catch((error) => {
+        console.error('Error generating QR code:', error);
+        setQrDataUrl(null);
+      });
+  }, [invoice, einvoice]);
 
-        setVehicle(vehicleData);
-      }
+  const fetchInvoiceDetails = async () => {
+    try {
+      const invoiceData = await invoicesService.getInvoiceById(invoiceId);
+      setInvoice(invoiceData as unknown as Invoice);
+      setItems((invoiceData.items || []) as InvoiceItem[]);
+      setCustomer((invoiceData.customer as Customer | undefined) || null);
+      setVehicle((invoiceData.vehicle as Vehicle | undefined) || null);
+      setWorkOrder(invoiceData.work_order
+        ? { ...invoiceData.work_order, description: invoiceData.work_order.description || '' }
+        : null);
 
       if (invoiceData.work_order_id) {
-        const { data: workOrderData } = await supabase
-          .from('work_orders')
-          .select('id, order_number, description')
-          .eq('id', invoiceData.work_order_id)
-          .single();
-
-        setWorkOrder(workOrderData);
-
         const { data: sparePartsData } = await supabase
           .from('work_order_spare_parts')
           .select(`
@@ -184,6 +216,10 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
       }
     } catch (error) {
       console.error('Error fetching invoice:', error);
+      if (error instanceof ServiceError && error.status === 404) {
+        toast.error(t('invoices.not_found'));
+        onBack();
+      }
     } finally {
       setLoading(false);
     }
@@ -198,40 +234,171 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
     }
   };
 
+  const fetchEInvoice = async () => {
+    try {
+      setEInvoice(await invoicesService.getEInvoice(invoiceId));
+    } catch {
+      // Not issued yet (or issuing failed when the invoice was created)
+      setEInvoice(null);
+    }
+  };
+
+  const issueEInvoice = async () => {
+    setIssuingEInvoice(true);
+    try {
+      setEInvoice(await invoicesService.issueEInvoice(invoiceId));
+      toast.success(t('invoices.einvoice_issued'));
+    } catch (error) {
+      console.error('Error issuing e-invoice:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.einvoice_issue_error'));
+    } finally {
+      setIssuingEInvoice(false);
+    }
+  };
+
+  const fetchInvoiceNotes = async () => {
+    try {
+      setInvoiceNotes(await invoicesService.getInvoiceNotes(invoiceId));
+    } catch (error) {
+      console.error('Error fetching invoice notes:', error);
+    }
+  };
+
+  const issueInvoice = async () => {
+    setIssuing(true);
+    try {
+      await invoicesService.issueInvoice(invoiceId);
+      toast.success(t('invoices.invoice_issued'));
+      await Promise.all([fetchInvoiceDetails(), fetchEInvoice()]);
+    } catch (error) {
+      console.error('Error issuing invoice:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.error_update'));
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const issueNoteEInvoice = async (noteId: string) => {
+    try {
+      await invoicesService.issueNoteEInvoice(invoiceId, noteId);
+      toast.success(t('invoices.einvoice_issued'));
+      fetchInvoiceNotes();
+    } catch (error) {
+      console.error('Error issuing note e-invoice:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.einvoice_issue_error'));
+    }
+  };
+
+  const downloadEInvoiceXml = () => {
+    if (!einvoice || !invoice) return;
+    const blob = new Blob([einvoice.xml], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${invoice.invoice_number}.xml`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadPdf = async () => {
+    if (!invoice) return;
+    try {
+      setDownloadingPdf(true);
+      const blob = await invoicesService.getInvoicePdf(invoiceId, pdfFormat);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoice.invoice_number}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading invoice PDF:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.pdf_error'));
+    } finally {
+      setDownloadingPdf(false);
+    }
+  };
+
   const handlePrint = () => {
     window.print();
   };
 
-  const updatePayment = async () => {
+  const fetchPayments = async () => {
+    try {
+      setPayments(await invoicesService.getInvoicePayments(invoiceId));
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+    }
+  };
+
+  const openPaymentForm = () => {
     if (!invoice) return;
+    setNewTenders([{
+      payment_method: 'cash',
+      card_type: null,
+      amount: Math.max(Math.round(balanceDue(invoice, invoiceNotes) * 100) / 100, 0),
+      reference: ''
+    }]);
+    setAddingPayment(true);
+  };
+
+  const addPayment = async () => {
+    if (!invoice) return;
+
+    const tenders = newTenders.filter(tender => tender.amount > 0);
 
-    const total = Number(invoice.total);
-    let paymentStatus: 'paid' | 'partial' | 'unpaid' = 'unpaid';
+    if (tenders.length === 0) {
+      toast.warning(t('invoices.payment_amount_required'));
+      return;
+    }
+
+    if (tenders.some(tender => tender.payment_method === 'bank_transfer' && !tender.reference?.trim())) {
+      toast.warning(t('invoices.transfer_reference_required'));
+      return;
+    }
 
-    if (newPaidAmount >= total) {
-      paymentStatus = 'paid';
-    } else if (newPaidAmount > 0) {
-      paymentStatus = 'partial';
+    const tendered = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+    if (tendered > balanceDue(invoice, invoiceNotes) + 0.01) {
+      toast.warning(t('invoices.payment_exceeds_balance'));
+      return;
     }
 
+    setSavingPayment(true);
     try {
-      await invoicesService.updateInvoice(invoiceId, {
-        paid_amount: newPaidAmount,
-        payment_status: paymentStatus,
-        payment_method: newPaymentMethod,
-        card_type: newPaymentMethod === 'card' ? newCardType : null
-      });
+      await invoicesService.addInvoicePayments(invoiceId, tenders);
 
-      toast.success(t('invoices.success_updated'));
-      setEditingPayment(false);
-      fetchInvoiceDetails();
+      toast.success(t('invoices.payment_added'));
+      setAddingPayment(false);
+      await Promise.all([fetchInvoiceDetails(), fetchPayments()]);
     } catch (error) {
-      console.error('Error updating payment:', error);
+      console.error('Error adding payment:', error);
       if (error instanceof ServiceError) {
         toast.error(error.message);
       } else {
         toast.error(t('invoices.error_update'));
       }
+    } finally {
+      setSavingPayment(false);
+    }
+  };
+
+  const deletePayment = async (payment: InvoicePayment) => {
+    const confirmed = await confirm({
+      title: t('invoices.confirm_delete_payment', { number: payment.receipt_number }),
+      message: t('invoices.confirm_delete_payment_message'),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      isDangerous: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await invoicesService.deleteInvoicePayment(invoiceId, payment.id);
+      toast.success(t('invoices.payment_deleted'));
+      await Promise.all([fetchInvoiceDetails(), fetchPayments()]);
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.error_update'));
     }
   };
 
@@ -281,7 +448,8 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
         </span>
       );
     }
-    return method;
+    // bank_transfer, other and split (several methods on one invoice)
+    return t(`common.payment_methods.${method}`, method);
   };
 
   if (loading) {
@@ -310,6 +478,29 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
   }
 
   const isTaxInvoice = Number(invoice.tax_rate) > 0;
+  const canManagePayments = hasDetailedPermission('invoices.update') || hasDetailedPermission('invoices.manage_payments');
+  const remainingAmount = balanceDue(invoice, invoiceNotes);
+  const isDraft = invoice.status === 'draft';
+  // Consolidated invoices list their lines under each vehicle and work order
+  const itemGroups: { heading: string | null; items: InvoiceItem[] }[] = invoice.is_consolidated
+    ? (invoice.work_orders || [])
+      .map(order => ({
+        heading: [
+          order.vehicle?.plate_number,
+          order.vehicle ? `${order.vehicle.car_make} ${order.vehicle.car_model}` : null,
+          `${t('invoices.work_order_number')}: ${order.order_number}`,
+        ].filter(Boolean).join(' - '),
+        items: items.filter(item => item.work_order_id === order.id),
+      }))
+      .filter(group => group.items.length > 0)
+    : [{ heading: null, items }];
+  const hasLineDiscounts = items.some(item => Number(item.discount_percentage) > 0);
+  // Only printed when some lines are zero rated or exempt
+  const taxBreakdown = (invoice.tax_breakdown || []).some(row => row.vat_category !== 'standard')
+    ? invoice.tax_breakdown || []
+    : [];
+
+  const netTotal = netInvoiceTotal(invoice, invoiceNotes);
 
   return (
     <div className="space-y-6">
@@ -324,19 +515,57 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
           </button>
           <div>
             <h2 className="text-3xl font-bold text-gray-900">{t('invoices.invoice_details')}</h2>
-            <p className="text-gray-500 mt-1">{isTaxInvoice ? t('invoices.tax_invoice') : t('invoices.invoice')}</p>
+            <p className="text-gray-500 mt-1">
+              {isTaxInvoice ? t('invoices.tax_invoice') : t('invoices.invoice')}
+              {isDraft && (
+                <span className="mr-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">
+                  {t('invoices.draft')}
+                </span>
+              )}
+            </p>
           </div>
         </div>
-        <button
-          onClick={handlePrint}
-          className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700 transition-all shadow-lg hover:shadow-xl"
-        >
-          <Printer className="h-5 w-5" />
-          <span className="font-semibold">{t('common.print')}</span>
-        </button>
+        <div className="flex items-center gap-3">
+          {isDraft && hasDetailedPermission('invoices.update') && (
+            <button
+              onClick={issueInvoice}
+              disabled={issuing}
+              className="flex items-center gap-2 bg-emerald-600 text-white px-6 py-3 rounded-xl hover:bg-emerald-700 transition-all shadow-lg disabled:bg-gray-400"
+            >
+              <Send className="h-5 w-5" />
+              <span className="font-semibold">{issuing ? t('common.loading') : t('invoices.issue_invoice')}</span>
+            </button>
+          )}
+          <div className="flex items-center rounded-xl border-2 border-gray-200 bg-white overflow-hidden">
+            <select
+              value={pdfFormat}
+              onChange={(e) => setPdfFormat(e.target.value as InvoicePdfFormat)}
+              className="px-3 py-3 bg-transparent text-sm font-semibold text-gray-700 focus:outline-none"
+            >
+              <option value="a4">{t('invoices.pdf_formats.a4')}</option>
+              <option value="thermal80">{t('invoices.pdf_formats.thermal80')}</option>
+              <option value="thermal58">{t('invoices.pdf_formats.thermal58')}</option>
+            </select>
+            <button
+              onClick={downloadPdf}
+              disabled={downloadingPdf}
+              className="flex items-center gap-2 px-4 py-3 border-s-2 border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors disabled:text-gray-400"
+            >
+              <Download className="h-5 w-5" />
+              <span className="font-semibold">{downloadingPdf ? t('common.loading') : t('invoices.download_pdf')}</span>
+            </button>
+          </div>
+          <button
+            onClick={handlePrint}
+            className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700 transition-all shadow-lg hover:shadow-xl"
+          >
+            <Printer className="h-5 w-5" />
+            <span className="font-semibold">{t('common.print')}</span>
+          </button>
+        </div>
       </div>
 
-      <div ref={printRef} className="bg-white rounded-2xl shadow-lg border-2 border-gray-200 print:shadow-none print:border print:rounded-none" dir="rtl">
+      <div ref={printRef} className={`bg-white rounded-2xl shadow-lg border-2 border-gray-200 print:shadow-none print:border print:rounded-none ${printingNote || printingPayment ? 'print:hidden' : ''}`} dir="rtl">
         <div className="p-8 print:p-6">
           <div className={`border-b-4 pb-6 mb-6 print:pb-4 print:mb-4 ${isTaxInvoice ? 'border-blue-600' : 'border-gray-300'}`}>
             <div className="flex justify-between items-start">
@@ -370,8 +599,20 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
                       day: 'numeric'
                     })}
                   </p>
+                  {invoice.is_consolidated && invoice.period_start && (
+                    <p className="text-xs text-gray-500">
+                      {t('invoices.consolidated_period')}: {invoice.period_start} - {invoice.period_end}
+                    </p>
+                  )}
                   <div className="mt-2">{getStatusBadge(invoice.payment_status)}</div>
                 </div>
+                {qrDataUrl && (
+                  <img
+                    src={qrDataUrl}
+                    alt={t('invoices.zatca_qr')}
+                    className="mt-3 w-32 h-32 border border-gray-200 rounded-lg p-1 print:w-28 print:h-28 print:rounded-none"
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -411,6 +652,13 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
                   <p className="text-gray-700">{t('vehicles.year')}: <span className="font-medium">{vehicle.car_year}</span></p>
                   <p className="text-gray-700">{t('vehicles.plate_number')}: <span className="font-medium">{vehicle.plate_number}</span></p>
                 </div>
+              ) : invoice.is_consolidated ? (
+                <p className="text-sm text-gray-700">
+                  {t('invoices.consolidated_summary', {
+                    vehicles: new Set((invoice.work_orders || []).map(order => order.vehicle?.id)).size,
+                    orders: (invoice.work_orders || []).length,
+                  })}
+                </p>
               ) : (
                 <p className="text-sm text-gray-500">{t('customers.no_vehicles')}</p>
               )}
@@ -427,34 +675,62 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
                     <th className="text-center py-3 px-4 font-bold print:py-2">{t('common.type')}</th>
                     <th className="text-center py-3 px-4 font-bold print:py-2">{t('invoices.quantity')}</th>
                     <th className="text-center py-3 px-4 font-bold print:py-2">{t('invoices.price')}</th>
+                    {hasLineDiscounts && (
+                      <th className="text-center py-3 px-4 font-bold print:py-2">{t('invoices.line_discount')}</th>
+                    )}
                     <th className="text-left py-3 px-4 font-bold print:py-2">{t('common.total')}</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {items.map((item, index) => (
-                    <tr key={item.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} print:bg-white`}>
-                      <td className="py-3 px-4 text-gray-900 font-medium text-sm print:py-2">{item.description}</td>
-                      <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">
-                        {item.item_type === 'service' && item.service_type ? (
-                          <span className="px-2 py-1 rounded-lg text-xs font-medium bg-blue-100 text-blue-700 print:bg-white print:text-gray-900 print:border print:border-gray-400">
-                            {item.service_type}
-                          </span>
-                        ) : (
-                          <span className={`px-2 py-1 rounded-lg text-xs font-medium ${
-                            item.item_type === 'service'
-                              ? 'bg-blue-100 text-blue-700'
-                              : 'bg-green-100 text-green-700'
-                          } print:bg-white print:text-gray-900 print:border print:border-gray-400`}>
-                            {item.item_type === 'service' ? t('services.service_type') : t('work_orders.spare_parts')}
-                          </span>
-                        )}
-                      </td>
-                      <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">{formatToFixed(Number(item.quantity))}</td>
-                      <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">{formatToFixed(Number(item.unit_price))}</td>
-                      <td className="text-left py-3 px-4 text-gray-900 font-semibold text-sm print:py-2">
-                        {formatToFixed(Number(item.total))} {t('common.sar')}
-                      </td>
-                    </tr>
+                  {itemGroups.map((group, groupIndex) => (
+                    <Fragment key={group.heading || groupIndex}>
+                      {group.heading && (
+                        <tr className="bg-indigo-50 print:bg-white">
+                          <td colSpan={hasLineDiscounts ? 6 : 5} className="py-2 px-4 text-sm font-bold text-indigo-900 print:text-gray-900 print:border-b print:border-gray-300">
+                            {group.heading}
+                          </td>
+                        </tr>
+                      )}
+                      {group.items.map((item, index) => (
+                        <tr key={item.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} print:bg-white`}>
+                          <td className="py-3 px-4 text-gray-900 font-medium text-sm print:py-2">
+                            {item.description}
+                            {item.vat_category && item.vat_category !== 'standard' && (
+                              <span className="ms-2 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 print:bg-white print:border print:border-gray-400">
+                                {t(`invoices.vat_categories.${item.vat_category}`)}
+                              </span>
+                            )}
+                          </td>
+                          <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">
+                            {item.item_type === 'service' && item.service_type ? (
+                              <span className="px-2 py-1 rounded-lg text-xs font-medium bg-blue-100 text-blue-700 print:bg-white print:text-gray-900 print:border print:border-gray-400">
+                                {item.service_type}
+                              </span>
+                            ) : (
+                              <span className={`px-2 py-1 rounded-lg text-xs font-medium ${
+                                item.item_type === 'service'
+                                  ? 'bg-blue-100 text-blue-700'
+                                  : 'bg-green-100 text-green-700'
+                              } print:bg-white print:text-gray-900 print:border print:border-gray-400`}>
+                                {item.item_type === 'service' ? t('services.service_type') : t('work_orders.spare_parts')}
+                              </span>
+                            )}
+                          </td>
+                          <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">{formatToFixed(Number(item.quantity))}</td>
+                          <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">{formatToFixed(Number(item.unit_price))}</td>
+                          {hasLineDiscounts && (
+                            <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">
+                              {Number(item.discount_percentage) > 0
+                                ? `${toEnglishDigits(Number(item.discount_percentage))}% (-${formatToFixed(Number(item.discount_amount))})`
+                                : '-'}
+                            </td>
+                          )}
+                          <td className="text-left py-3 px-4 text-gray-900 font-semibold text-sm print:py-2">
+                            {formatToFixed(Number(item.total))} {t('common.sar')}
+                          </td>
+                        </tr>
+                      ))}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
@@ -550,6 +826,32 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
                 </>
               )}
 
+              {isTaxInvoice && taxBreakdown.length > 0 && (
+                <div className="p-3 border border-gray-200 rounded-lg print:border-gray-300">
+                  <p className="text-sm font-semibold text-gray-700 mb-2">{t('invoices.tax_breakdown')}</p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th className="text-right font-medium pb-1">{t('invoices.vat_category')}</th>
+                        <th className="text-center font-medium pb-1">{t('invoices.taxable_amount')}</th>
+                        <th className="text-left font-medium pb-1">{t('invoices.tax')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {taxBreakdown.map(row => (
+                        <tr key={row.vat_category} className="text-gray-900">
+                          <td className="py-0.5">
+                            {t(`invoices.vat_categories.${row.vat_category}`)} ({toEnglishDigits(Number(row.tax_rate))}%)
+                          </td>
+                          <td className="py-0.5 text-center">{formatToFixed(Number(row.taxable_amount))}</td>
+                          <td className="py-0.5 text-left">{formatToFixed(Number(row.tax_amount))}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               <div className="flex justify-between items-center py-3 px-4 bg-gray-100 rounded-lg border-2 border-gray-300 print:py-3 print:bg-white print:text-gray-900 print:border-2 print:border-gray-900">
                 <span className="text-lg font-bold text-gray-900 print:text-base">{t('invoices.grand_total')}:</span>
                 <span className="text-2xl font-bold text-gray-900 print:text-xl">{formatToFixed(Number(invoice.total))} {t('common.sar')}</span>
@@ -561,21 +863,21 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
                   <p className="text-lg font-bold text-green-900 print:text-base print:text-gray-900">{formatToFixed(Number(invoice.paid_amount))} {t('common.sar')}</p>
                 </div>
                 <div className={`py-2 px-4 rounded-lg border ${
-                  Number(invoice.total) - Number(invoice.paid_amount) > 0
+                  remainingAmount > 0
                     ? 'bg-red-50 border-red-200'
                     : 'bg-gray-50 border-gray-200'
                 } print:bg-white print:border print:border-gray-300`}>
                   <p className={`text-xs font-medium mb-1 ${
-                    Number(invoice.total) - Number(invoice.paid_amount) > 0
+                    remainingAmount > 0
                       ? 'text-red-700'
                       : 'text-gray-700'
                   } print:text-gray-700`}>{t('invoices.remaining_amount')}</p>
                   <p className={`text-lg font-bold print:text-base ${
-                    Number(invoice.total) - Number(invoice.paid_amount) > 0
+                    remainingAmount > 0
                       ? 'text-red-900'
                       : 'text-gray-900'
                   } print:text-gray-900`}>
-                    {formatToFixed(Number(invoice.total) - Number(invoice.paid_amount))} {t('common.sar')}
+                    {formatToFixed(remainingAmount)} {t('common.sar')}
                   </p>
                 </div>
               </div>
@@ -623,127 +925,319 @@ export function InvoiceDetails({ invoiceId, onBack }: InvoiceDetailsProps) {
       </div>
 
       <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100 no-print">
-        <div className="flex items-center gap-2 mb-4">
-          <CreditCard className="h-5 w-5 text-blue-600" />
-          <h3 className="text-xl font-bold text-gray-900">{t('invoices.payment_info')}</h3>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-emerald-600" />
+            <h3 className="text-xl font-bold text-gray-900">{t('invoices.einvoice')}</h3>
+          </div>
+          {einvoice ? (
+            <button
+              onClick={downloadEInvoiceXml}
+              className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-2.5 rounded-xl hover:bg-emerald-700 transition-all shadow-md font-semibold"
+            >
+              <FileCode className="h-5 w-5" />
+              {t('invoices.download_xml')}
+            </button>
+          ) : !isDraft && hasDetailedPermission('invoices.create') && (
+            <button
+              onClick={issueEInvoice}
+              disabled={issuingEInvoice}
+              className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-2.5 rounded-xl hover:bg-emerald-700 transition-all shadow-md font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ShieldCheck className="h-5 w-5" />
+              {issuingEInvoice ? t('common.loading') : t('invoices.issue_einvoice')}
+            </button>
+          )}
         </div>
 
-        {editingPayment ? (
-          <div className="space-y-6">
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-3">
-                {t('common.payment_method')}
-              </label>
-              <div className="grid grid-cols-2 gap-3">
+        {einvoice ? (
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <dt className="text-gray-500 mb-1">{t('invoices.einvoice_counter')}</dt>
+              <dd className="font-bold text-gray-900">{einvoice.icv}</dd>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <dt className="text-gray-500 mb-1">{t('invoices.einvoice_environment')}</dt>
+              <dd className="font-bold text-gray-900">{t(`settings.zatca_env_${einvoice.environment}`)}</dd>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg md:col-span-2">
+              <dt className="text-gray-500 mb-1">UUID</dt>
+              <dd className="font-mono text-xs text-gray-900 break-all" dir="ltr">{einvoice.uuid}</dd>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg md:col-span-2">
+              <dt className="text-gray-500 mb-1">{t('invoices.einvoice_hash')}</dt>
+              <dd className="font-mono text-xs text-gray-900 break-all" dir="ltr">{einvoice.invoice_hash}</dd>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg md:col-span-2">
+              <dt className="text-gray-500 mb-1">{t('invoices.einvoice_previous_hash')}</dt>
+              <dd className="font-mono text-xs text-gray-900 break-all" dir="ltr">{einvoice.previous_hash}</dd>
+            </div>
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500">{t('invoices.einvoice_not_issued')}</p>
+        )}
+      </div>
+
+      {printingNote && (
+        <div className="hidden print:block">
+          <InvoiceNoteDocument
+            note={printingNote}
+            invoiceNumber={invoice.invoice_number}
+            invoiceDate={invoice.created_at}
+            discountPercentage={Number(invoice.discount_percentage)}
+            workshop={workshop}
+            customer={customer}
+          />
+        </div>
+      )}
+
+      {!isDraft && (
+        <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100 no-print">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <FileMinus className="h-5 w-5 text-red-600" />
+              <h3 className="text-xl font-bold text-gray-900">{t('invoices.credit_debit_notes')}</h3>
+            </div>
+            <div className="flex gap-2">
+              {hasDetailedPermission('invoices.void') && (
                 <button
-                  type="button"
-                  onClick={() => setNewPaymentMethod('cash')}
-                  className={`flex items-center justify-center gap-2 py-3 px-4 rounded-xl border-2 transition-all ${
-                    newPaymentMethod === 'cash'
-                      ? 'border-green-500 bg-green-50 text-green-700'
-                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                  }`}
+                  onClick={() => setNoteFormType('credit')}
+                  className="flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-xl hover:bg-red-700 transition-all font-semibold"
                 >
-                  <Banknote className="h-5 w-5" />
-                  <span className="font-semibold">{t('common.cash')}</span>
+                  <FileMinus className="h-4 w-4" />
+                  {t('invoices.credit_note')}
                 </button>
+              )}
+              {hasDetailedPermission('invoices.create') && (
                 <button
-                  type="button"
-                  onClick={() => setNewPaymentMethod('card')}
-                  className={`flex items-center justify-center gap-2 py-3 px-4 rounded-xl border-2 transition-all ${
-                    newPaymentMethod === 'card'
-                      ? 'border-blue-500 bg-blue-50 text-blue-700'
-                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                  }`}
+                  onClick={() => setNoteFormType('debit')}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-all font-semibold"
                 >
-                  <CreditCard className="h-5 w-5" />
-                  <span className="font-semibold">{t('common.card')}</span>
+                  <FilePlus className="h-4 w-4" />
+                  {t('invoices.debit_note')}
                 </button>
-              </div>
+              )}
             </div>
+          </div>
 
-            {newPaymentMethod === 'card' && (
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-3">
-                  {t('common.card_type')}
-                </label>
-                <div className="grid grid-cols-2 gap-3">
-                  <button
-                    type="button"
-                    onClick={() => setNewCardType('mada')}
-                    className={`py-3 px-4 rounded-xl border-2 transition-all font-semibold ${
-                      newCardType === 'mada'
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                    }`}
-                  >
-                    {t('common.mada')}
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setNewCardType('visa')}
-                    className={`py-3 px-4 rounded-xl border-2 transition-all font-semibold ${
-                      newCardType === 'visa'
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                    }`}
-                  >
-                    {t('common.visa')}
-                  </button>
+          {invoiceNotes.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('invoices.no_notes')}</p>
+          ) : (
+            <div className="space-y-3">
+              {invoiceNotes.map(note => (
+                <div
+                  key={note.id}
+                  className={`flex items-center justify-between gap-4 border rounded-xl p-4 ${
+                    note.note_type === 'credit' ? 'border-red-200 bg-red-50' : 'border-blue-200 bg-blue-50'
+                  }`}
+                >
+                  <div className="space-y-1 text-sm">
+                    <p className="font-bold text-gray-900">
+                      {note.note_number}
+                      <span className="mr-2 text-xs font-semibold text-gray-600">
+                        {note.note_type === 'credit' ? t('invoices.credit_note') : t('invoices.debit_note')}
+                      </span>
+                    </p>
+                    <p className="text-gray-700">{note.reason}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(note.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`font-bold ${note.note_type === 'credit' ? 'text-red-700' : 'text-blue-700'}`}>
+                      {note.note_type === 'credit' ? '-' : '+'} {formatToFixed(Number(note.total))} {t('common.sar')}
+                    </span>
+                    {!note.einvoice && hasDetailedPermission('invoices.create') && (
+                      <button
+                        onClick={() => issueNoteEInvoice(note.id)}
+                        className="p-2 text-emerald-700 hover:bg-emerald-100 rounded-lg transition-colors"
+                        title={t('invoices.issue_einvoice')}
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setPrintingNote(note)}
+                      className="p-2 text-gray-700 hover:bg-white rounded-lg transition-colors"
+                      title={t('common.print')}
+                    >
+                      <Printer className="h-4 w-4" />
+                    </button>
+                  </div>
                 </div>
+              ))}
+              <div className="flex justify-between items-center pt-3 border-t border-gray-200">
+                <span className="font-semibold text-gray-700">{t('invoices.net_total_after_notes')}</span>
+                <span className="text-lg font-bold text-gray-900">{formatToFixed(netTotal)} {t('common.sar')}</span>
               </div>
-            )}
-
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                {t('invoices.amount_paid')}
-              </label>
-              <input
-                type="text"
-                value={newPaidAmount}
-                onChange={(e) => setNewPaidAmount(Number(normalizeNumberInput(e.target.value)))}
-                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg font-semibold"
-              />
-              <p className="text-sm text-gray-500 mt-2">
-                {t('invoices.grand_total')}: {formatToFixed(Number(invoice.total))} {t('common.sar')}
-              </p>
             </div>
+          )}
+        </div>
+      )}
+
+      {noteFormType && (
+        <InvoiceNoteForm
+          invoiceId={invoiceId}
+          invoiceNumber={invoice.invoice_number}
+          noteType={noteFormType}
+          items={items}
+          existingNotes={invoiceNotes}
+          discountPercentage={Number(invoice.discount_percentage) || 0}
+          taxRate={Number(invoice.tax_rate) || 0}
+          taxType={invoice.tax_type}
+          onClose={() => setNoteFormType(null)}
+          onCreated={() => {
+            setNoteFormType(null);
+            fetchInvoiceNotes();
+            // The note changes what is left to pay
+            fetchInvoiceDetails();
+          }}
+        />
+      )}
+
+      {printingPayment && (
+        <div className="hidden print:block">
+          <PaymentReceipt
+            payment={printingPayment}
+            invoiceNumber={invoice.invoice_number}
+            invoiceTotal={Number(invoice.total)}
+            paidToDate={payments
+              .slice(0, payments.findIndex(payment => payment.id === printingPayment.id) + 1)
+              .reduce((sum, payment) => sum + Number(payment.amount), 0)}
+            workshop={workshop}
+            customer={customer}
+          />
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100 no-print">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5 text-blue-600" />
+            <h3 className="text-xl font-bold text-gray-900">{t('invoices.payment_info')}</h3>
+          </div>
+          {canManagePayments && !addingPayment && remainingAmount > 0.01 && (
+            <button
+              onClick={openPaymentForm}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-all font-semibold"
+            >
+              <Plus className="h-4 w-4" />
+              {t('invoices.add_payment')}
+            </button>
+          )}
+        </div>
+
+        {payments.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">{t('invoices.no_payments')}</p>
+        ) : (
+          <div className="overflow-hidden border border-gray-200 rounded-xl mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50 text-gray-700">
+                  <th className="text-right py-3 px-4">{t('invoices.receipt_number')}</th>
+                  <th className="text-right py-3 px-4">{t('common.date')}</th>
+                  <th className="text-right py-3 px-4">{t('common.payment_method')}</th>
+                  <th className="text-right py-3 px-4">{t('invoices.payment_reference')}</th>
+                  <th className="text-right py-3 px-4">{t('invoices.received_by')}</th>
+                  <th className="text-left py-3 px-4">{t('invoices.payment_amount')}</th>
+                  <th className="py-3 px-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {payments.map(payment => (
+                  <tr key={payment.id}>
+                    <td className="py-3 px-4 font-semibold text-gray-900">{payment.receipt_number}</td>
+                    <td className="py-3 px-4 text-gray-700">
+                      {new Date(payment.paid_at).toLocaleString('en-US', {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit'
+                      })}
+                    </td>
+                    <td className="py-3 px-4">
+                      {getPaymentMethodLabel(payment.payment_method, payment.card_type || undefined)}
+                      {payment.deposit_id && (
+                        <span className="ms-2 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                          {t('invoices.from_deposit')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-gray-700">{payment.reference || '-'}</td>
+                    <td className="py-3 px-4 text-gray-700">{payment.received_by_name || '-'}</td>
+                    <td className="py-3 px-4 text-left font-bold text-gray-900">{formatToFixed(Number(payment.amount))} {t('common.sar')}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => setPrintingPayment(payment)}
+                          className="p-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                          title={t('invoices.print_receipt')}
+                        >
+                          <Printer className="h-4 w-4" />
+                        </button>
+                        {canManagePayments && (
+                          <button
+                            onClick={() => deletePayment(payment)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title={t('common.delete')}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {addingPayment && (
+          <div className="space-y-6 border-t border-gray-200 pt-6">
+            <PaymentTendersInput tenders={newTenders} onChange={setNewTenders} amountDue={remainingAmount} />
+
             <div className="flex gap-4">
               <button
-                onClick={updatePayment}
-                className="flex-1 bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700 transition-all font-semibold shadow-lg"
+                onClick={addPayment}
+                disabled={savingPayment}
+                className="flex-1 bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700 transition-all font-semibold shadow-lg disabled:bg-gray-400"
               >
-                {t('common.save')}
+                {savingPayment ? t('common.saving') : t('invoices.record_payment')}
               </button>
               <button
-                onClick={() => {
-                  setEditingPayment(false);
-                  setNewPaidAmount(Number(invoice.paid_amount));
-                  setNewPaymentMethod(invoice.payment_method || 'cash');
-                  setNewCardType(invoice.card_type || 'mada');
-                }}
+                onClick={() => setAddingPayment(false)}
                 className="px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-all font-semibold"
               >
                 {t('common.cancel')}
               </button>
             </div>
           </div>
-        ) : (
-          <button
-            onClick={() => {
-              setEditingPayment(true);
-              setNewPaidAmount(Number(invoice.paid_amount));
-              setNewPaymentMethod(invoice.payment_method || 'cash');
-              setNewCardType(invoice.card_type || 'mada');
-            }}
-            className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700 transition-all shadow-lg font-semibold"
-          >
-            <Edit className="h-5 w-5" />
-            {t('invoices.update_payment_status')}
-          </button>
         )}
       </div>
 
+      {!isDraft && (
+        <InvoiceRefunds
+          invoiceId={invoice.id}
+          paidAmount={Number(invoice.paid_amount)}
+          notes={invoiceNotes}
+          canRefund={hasDetailedPermission('invoices.refund') || hasDetailedPermission('invoices.manage_payments')}
+          onRecorded={fetchInvoiceDetails}
+        />
+      )}
+
+      <DocumentEmailPanel
+        documentId={invoice.id}
+        defaultRecipient={customer?.email}
+        canSend={hasDetailedPermission('invoices.update')}
+        disabledReason={invoice.status === 'draft' ? t('email.draft_not_sendable') : null}
+        loadEmails={() => invoicesService.getInvoiceEmails(invoice.id)}
+        sendEmail={(data) => invoicesService.emailInvoice(invoice.id, data)}
+      />
+
+      {ConfirmDialogComponent}
+
       <style>
         {`
           @media print {
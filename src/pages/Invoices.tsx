@@ -1,17 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { FileText, Plus, Eye, Search, CheckCircle, XCircle, Clock, CreditCard, Banknote, Calendar, DollarSign, TrendingUp, Edit, Trash2 } from 'lucide-react';
+import { FileText, Plus, Eye, Search, CheckCircle, XCircle, Clock, CreditCard, Banknote, Landmark, Calendar, DollarSign, TrendingUp, Edit, Trash2, Download, Layers, SlidersHorizontal, X } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { ConfirmDialog } from '../components/ConfirmDialog';
 import { Pagination } from '../components/Pagination';
 import { usePagination } from '../hooks/usePagination';
-import { formatToFixed } from '../utils/numberUtils';
-import { invoicesService } from '../services';
+import { formatToFixed, normalizeNumberInput } from '../utils/numberUtils';
+import { invoicesService, ServiceError, InvoicePdfFormat, InvoiceListFilters } from '../services';
 
 interface Invoice {
   id: string;
   invoice_number: string;
+  status?: 'draft' | 'issued';
   work_order_id: string;
   customer_id: string;
   vehicle_id: string;
@@ -23,8 +24,9 @@ interface Invoice {
   total: number;
   paid_amount: number;
   payment_status: 'paid' | 'partial' | 'unpaid';
-  payment_method: 'cash' | 'card';
+  payment_method: 'cash' | 'card' | 'bank_transfer' | 'other' | 'split';
   card_type?: 'mada' | 'visa';
+  is_consolidated?: boolean;
   notes: string;
   created_at: string;
 }
@@ -33,22 +35,46 @@ interface Customer {
   name: string;
 }
 
+interface AdvancedFilters {
+  startDate: string;
+  endDate: string;
+  minAmount: string;
+  maxAmount: string;
+  paymentMethod: '' | NonNullable<InvoiceListFilters['paymentMethod']>;
+}
+
+// Drafts saved before invoices were numbered on issue already hold their number
+const isDeletable = (invoice: Invoice) => invoice.status === 'draft' && invoice.invoice_number.startsWith('DRAFT-');
+
+const EMPTY_FILTERS: AdvancedFilters = { startDate: '', endDate: '', minAmount: '', maxAmount: '', paymentMethod: '' };
+
 interface InvoicesProps {
   onNewInvoice: () => void;
+  onNewConsolidatedInvoice?: () => void;
   onViewInvoice: (id: string) => void;
   onEditInvoice?: (id: string) => void;
 }
 
-export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: InvoicesProps) {
+export function Invoices({ onNewInvoice, onNewConsolidatedInvoice, onViewInvoice, onEditInvoice }: InvoicesProps) {
   const { t } = useTranslation();
   const { isCustomerServiceOrAdmin, hasDetailedPermission } = useAuth();
   const toast = useToast();
   const [invoices, setInvoices] = useState<(Invoice & { customer?: Customer })[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'paid' | 'partial' | 'unpaid'>('all');
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<AdvancedFilters>(EMPTY_FILTERS);
+  const [debouncedFilters, setDebouncedFilters] = useState<AdvancedFilters>(EMPTY_FILTERS);
   const pagination = usePagination(20);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [pdfExport, setPdfExport] = useState<{ startDate: string; endDate: string; format: InvoicePdfFormat }>(() => {
+    const today = new Date().toISOString().split('T')[0];
+    return { startDate: today, endDate: today, format: 'a4' };
+  });
+  const [exportingPdf, setExportingPdf] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; invoiceId: string; invoiceNumber: string }>({
     isOpen: false,
     invoiceId: '',
@@ -67,10 +93,25 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedFilters(filters);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [filters]);
+
   useEffect(() => {
     pagination.reset();
     fetchInvoices();
-  }, [filterStatus]);
+  }, [filterStatus, debouncedSearchTerm, debouncedFilters]);
+
+  const activeFiltersCount = Object.values(debouncedFilters).filter(Boolean).length;
+
+  const parseAmount = (value: string) => {
+    const amount = parseFloat(value);
+    return isNaN(amount) ? undefined : amount;
+  };
 
   const fetchInvoices = async () => {
     setLoading(true);
@@ -80,16 +121,43 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
         limit: pagination.state.pageSize,
         offset: from,
         orderBy: 'created_at',
-        orderDirection: 'desc'
+        orderDirection: 'desc',
+        search: debouncedSearchTerm,
+        paymentStatus: filterStatus === 'all' ? undefined : filterStatus,
+        paymentMethod: debouncedFilters.paymentMethod || undefined,
+        startDate: debouncedFilters.startDate || undefined,
+        endDate: debouncedFilters.endDate || undefined,
+        minAmount: parseAmount(debouncedFilters.minAmount),
+        maxAmount: parseAmount(debouncedFilters.maxAmount),
       });
 
       setInvoices(result.data);
       pagination.setTotalItems(result.total || result.count || 0);
     } catch (error) {
       console.error('Error fetching invoices:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.error_load'));
       pagination.setTotalItems(0);
     } finally {
       setLoading(false);
+      setLoaded(true);
+    }
+  };
+
+  const handleExportPdf = async () => {
+    try {
+      setExportingPdf(true);
+      const blob = await invoicesService.getInvoicesPdf(pdfExport.startDate, pdfExport.endDate, pdfExport.format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `invoices-${pdfExport.startDate}-${pdfExport.endDate}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting invoices PDF:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.pdf_error'));
+    } finally {
+      setExportingPdf(false);
     }
   };
 
@@ -146,7 +214,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
     }
   };
 
-  const getPaymentMethodBadge = (method: 'cash' | 'card', cardType?: 'mada' | 'visa') => {
+  const getPaymentMethodBadge = (method: Invoice['payment_method'], cardType?: 'mada' | 'visa') => {
     if (method === 'cash') {
       return (
         <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium bg-green-50 text-green-700 border border-green-200">
@@ -164,17 +232,17 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
         </span>
       );
     }
+    if (method) {
+      return (
+        <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium bg-purple-50 text-purple-700 border border-purple-200">
+          {method === 'bank_transfer' && <Landmark className="h-3.5 w-3.5" />}
+          {t(`common.payment_methods.${method}`)}
+        </span>
+      );
+    }
     return null;
   };
 
-  const filteredInvoices = invoices
-    .filter(invoice => {
-      const matchesSearch = invoice.invoice_number.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-                           invoice.customer?.name.toLowerCase().includes(debouncedSearchTerm.toLowerCase());
-      const matchesStatus = filterStatus === 'all' || invoice.payment_status === filterStatus;
-      return matchesSearch && matchesStatus;
-    });
-
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
@@ -192,7 +260,8 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
   const totalPaid = invoices.reduce((sum, inv) => sum + Number(inv.paid_amount), 0);
   const totalOutstanding = totalRevenue - totalPaid;
 
-  if (loading) {
+  // Later reloads keep the list mounted so the search box keeps its focus
+  if (loading && !loaded) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="flex flex-col items-center gap-3">
@@ -210,17 +279,81 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
           <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900">{t('invoices.title')}</h2>
           <p className="text-gray-500 mt-1 text-sm sm:text-base">{t('invoices.invoice_info')}</p>
         </div>
-        {hasDetailedPermission('invoices.create') && (
+        <div className="flex flex-col sm:flex-row gap-2">
           <button
-            onClick={onNewInvoice}
-            className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 sm:px-6 py-3 rounded-lg sm:rounded-xl hover:bg-blue-700 transition-all shadow-lg hover:shadow-xl hover:scale-105 duration-200 min-h-[44px]"
+            onClick={() => setShowPdfExport(!showPdfExport)}
+            className="flex items-center justify-center gap-2 bg-white text-gray-700 border-2 border-gray-200 px-4 sm:px-6 py-3 rounded-lg sm:rounded-xl hover:bg-gray-50 transition-all min-h-[44px]"
           >
-            <Plus className="h-5 w-5" />
-            <span className="font-semibold">{t('invoices.new_invoice')}</span>
+            <Download className="h-5 w-5" />
+            <span className="font-semibold">{t('invoices.export_pdf')}</span>
           </button>
-        )}
+          {hasDetailedPermission('invoices.create') && onNewConsolidatedInvoice && (
+            <button
+              onClick={onNewConsolidatedInvoice}
+              className="flex items-center justify-center gap-2 bg-white text-blue-700 border-2 border-blue-200 px-4 sm:px-6 py-3 rounded-lg sm:rounded-xl hover:bg-blue-50 transition-all min-h-[44px]"
+            >
+              <Layers className="h-5 w-5" />
+              <span className="font-semibold">{t('invoices.consolidated_invoice')}</span>
+            </button>
+          )}
+          {hasDetailedPermission('invoices.create') && (
+            <button
+              onClick={onNewInvoice}
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 sm:px-6 py-3 rounded-lg sm:rounded-xl hover:bg-blue-700 transition-all shadow-lg hover:shadow-xl hover:scale-105 duration-200 min-h-[44px]"
+            >
+              <Plus className="h-5 w-5" />
+              <span className="font-semibold">{t('invoices.new_invoice')}</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      {showPdfExport && (
+        <div className="bg-white rounded-lg sm:rounded-2xl shadow-md p-4 sm:p-6 border border-gray-100">
+          <p className="text-sm text-gray-600 mb-3">{t('invoices.export_pdf_desc')}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('common.from')}</label>
+              <input
+                type="date"
+                value={pdfExport.startDate}
+                onChange={(e) => setPdfExport({ ...pdfExport, startDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('common.to')}</label>
+              <input
+                type="date"
+                value={pdfExport.endDate}
+                onChange={(e) => setPdfExport({ ...pdfExport, endDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('invoices.pdf_format')}</label>
+              <select
+                value={pdfExport.format}
+                onChange={(e) => setPdfExport({ ...pdfExport, format: e.target.value as InvoicePdfFormat })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="a4">{t('invoices.pdf_formats.a4')}</option>
+                <option value="thermal80">{t('invoices.pdf_formats.thermal80')}</option>
+                <option value="thermal58">{t('invoices.pdf_formats.thermal58')}</option>
+              </select>
+            </div>
+            <button
+              onClick={handleExportPdf}
+              disabled={exportingPdf || !pdfExport.startDate || !pdfExport.endDate}
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+            >
+              <Download className="h-4 w-4" />
+              <span className="font-semibold">{exportingPdf ? t('common.loading') : t('invoices.download_pdf')}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
         <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg sm:rounded-2xl shadow-lg p-4 sm:p-6 text-white relative overflow-hidden">
           <div className="absolute top-0 right-0 w-32 h-32 bg-white opacity-5 rounded-full -mr-16 -mt-16"></div>
@@ -321,12 +454,94 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
               <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
               <input
                 type="text"
-                placeholder={t('customers.search_placeholder')}
+                placeholder={t('invoices.search_placeholder')}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full pr-10 pl-4 py-3 border border-gray-200 rounded-lg sm:rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
               />
             </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`flex items-center gap-2 px-3 sm:px-4 py-2.5 rounded-lg sm:rounded-xl text-xs sm:text-sm font-medium transition-all min-h-[44px] ${
+                  showFilters || activeFiltersCount > 0
+                    ? 'bg-blue-50 text-blue-700 border border-blue-200'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+                {t('common.filter')}
+                {activeFiltersCount > 0 && (
+                  <span className="px-1.5 py-0.5 rounded-full text-xs bg-blue-600 text-white">{activeFiltersCount}</span>
+                )}
+              </button>
+              {activeFiltersCount > 0 && (
+                <button
+                  onClick={() => setFilters(EMPTY_FILTERS)}
+                  className="flex items-center gap-1 px-3 py-2.5 rounded-lg sm:rounded-xl text-xs sm:text-sm font-medium text-gray-600 hover:bg-gray-100 transition-all min-h-[44px]"
+                >
+                  <X className="h-4 w-4" />
+                  {t('common.clear')}
+                </button>
+              )}
+            </div>
+            {showFilters && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{t('common.from')}</label>
+                  <input
+                    type="date"
+                    value={filters.startDate}
+                    onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{t('common.to')}</label>
+                  <input
+                    type="date"
+                    value={filters.endDate}
+                    min={filters.startDate || undefined}
+                    onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{t('invoices.min_amount')}</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={filters.minAmount}
+                    onChange={(e) => setFilters({ ...filters, minAmount: normalizeNumberInput(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{t('invoices.max_amount')}</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={filters.maxAmount}
+                    onChange={(e) => setFilters({ ...filters, maxAmount: normalizeNumberInput(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{t('common.payment_method')}</label>
+                  <select
+                    value={filters.paymentMethod}
+                    onChange={(e) => setFilters({ ...filters, paymentMethod: e.target.value as AdvancedFilters['paymentMethod'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">{t('common.all')}</option>
+                    <option value="cash">{t('common.payment_methods.cash')}</option>
+                    <option value="card">{t('common.payment_methods.card')}</option>
+                    <option value="bank_transfer">{t('common.payment_methods.bank_transfer')}</option>
+                    <option value="other">{t('common.payment_methods.other')}</option>
+                  </select>
+                </div>
+              </div>
+            )}
             <div className="flex gap-2 overflow-x-auto pb-1">
               <button
                 onClick={() => setFilterStatus('all')}
@@ -336,7 +551,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                     : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                 }`}
               >
-                {t('common.all')} ({invoices.length})
+                {t('common.all')}
               </button>
               <button
                 onClick={() => setFilterStatus('paid')}
@@ -346,7 +561,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                     : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                 }`}
               >
-                {t('status.paid')} ({paidInvoices.length})
+                {t('status.paid')}
               </button>
               <button
                 onClick={() => setFilterStatus('partial')}
@@ -356,7 +571,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                     : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                 }`}
               >
-                {t('status.partially_paid')} ({partialInvoices.length})
+                {t('status.partially_paid')}
               </button>
               <button
                 onClick={() => setFilterStatus('unpaid')}
@@ -366,13 +581,13 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                     : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                 }`}
               >
-                {t('status.unpaid')} ({unpaidInvoices.length})
+                {t('status.unpaid')}
               </button>
             </div>
           </div>
         </div>
 
-        {filteredInvoices.length === 0 ? (
+        {invoices.length === 0 ? (
           <div className="text-center py-12 sm:py-16">
             <div className="w-16 h-16 sm:w-20 sm:h-20 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
               <FileText className="h-8 w-8 sm:h-10 sm:w-10 text-gray-400" />
@@ -405,10 +620,20 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
-                  {filteredInvoices.map((invoice) => (
+                  {invoices.map((invoice) => (
                     <tr key={invoice.id} className="hover:bg-gray-50 transition-colors group">
                       <td className="py-4 px-6">
                         <span className="font-semibold text-gray-900">{invoice.invoice_number}</span>
+                        {invoice.status === 'draft' && (
+                          <span className="mr-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">
+                            {t('invoices.draft')}
+                          </span>
+                        )}
+                        {invoice.is_consolidated && (
+                          <span className="mr-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-indigo-100 text-indigo-700">
+                            {t('invoices.consolidated')}
+                          </span>
+                        )}
                       </td>
                       <td className="py-4 px-6">
                         <span className="text-gray-700">{invoice.customer?.name || t('common.not_specified')}</span>
@@ -441,7 +666,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                           >
                             <Eye className="h-4 w-4" />
                           </button>
-                          {hasDetailedPermission('invoices.update') && onEditInvoice && (
+                          {invoice.status === 'draft' && !invoice.is_consolidated && hasDetailedPermission('invoices.update') && onEditInvoice && (
                             <button
                               onClick={() => onEditInvoice(invoice.id)}
                               className="inline-flex items-center gap-1.5 text-green-600 hover:text-green-800 hover:bg-green-50 px-3 py-2 rounded-lg transition-all"
@@ -450,7 +675,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                               <Edit className="h-4 w-4" />
                             </button>
                           )}
-                          {hasDetailedPermission('invoices.delete') && (
+                          {isDeletable(invoice) && hasDetailedPermission('invoices.delete') && (
                             <button
                               onClick={() => handleDeleteClick(invoice.id, invoice.invoice_number)}
                               className="inline-flex items-center gap-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 px-3 py-2 rounded-lg transition-all"
@@ -469,12 +694,24 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
 
             {/* Mobile Card Layout */}
             <div className="lg:hidden p-3 space-y-3">
-              {filteredInvoices.map((invoice) => (
+              {invoices.map((invoice) => (
                 <div key={invoice.id} className="bg-gray-50 rounded-lg overflow-hidden border border-gray-200">
                   <div className="bg-gradient-to-r from-blue-600 to-blue-700 p-4">
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex-1">
-                        <p className="text-white font-bold text-lg mb-1">{invoice.invoice_number}</p>
+                        <p className="text-white font-bold text-lg mb-1">
+                          {invoice.invoice_number}
+                          {invoice.status === 'draft' && (
+                            <span className="mr-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-white/20 text-white">
+                              {t('invoices.draft')}
+                            </span>
+                          )}
+                          {invoice.is_consolidated && (
+                            <span className="mr-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-white/20 text-white">
+                              {t('invoices.consolidated')}
+                            </span>
+                          )}
+                        </p>
                         <p className="text-blue-100 text-sm">{invoice.customer?.name || t('common.not_specified')}</p>
                       </div>
                       {getStatusBadge(invoice.payment_status)}
@@ -512,7 +749,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                         >
                           <Eye className="h-5 w-5" />
                         </button>
-                        {hasDetailedPermission('invoices.update') && onEditInvoice && (
+                        {invoice.status === 'draft' && !invoice.is_consolidated && hasDetailedPermission('invoices.update') && onEditInvoice && (
                           <button
                             onClick={() => onEditInvoice(invoice.id)}
                             className="flex items-center justify-center bg-green-600 text-white px-3 py-2 rounded-lg hover:bg-green-700 transition-colors min-h-[44px] min-w-[44px]"
@@ -520,7 +757,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
                             <Edit className="h-5 w-5" />
                           </button>
                         )}
-                        {hasDetailedPermission('invoices.delete') && (
+                        {isDeletable(invoice) && hasDetailedPermission('invoices.delete') && (
                           <button
                             onClick={() => handleDeleteClick(invoice.id, invoice.invoice_number)}
                             className="flex items-center justify-center bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 transition-colors min-h-[44px] min-w-[44px]"
@@ -538,7 +775,7 @@ export function Invoices({ onNewInvoice, onViewInvoice, onEditInvoice }: Invoice
         )}
       </div>
 
-      {filteredInvoices.length > 0 && (
+      {invoices.length > 0 && (
         <Pagination
           currentPage={pagination.state.currentPage}
           totalPages={pagination.state.totalPages}
@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Car, Clock, GripVertical, RefreshCw, ShieldAlert, User, Users, Warehouse } from 'lucide-react';
+import { JobBoardOrder, WorkOrderStatus, WorkshopBay } from '../types';
+import { baysService, workOrdersService, ServiceError } from '../services';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import {
+  WORK_ORDER_STATUS_STYLES,
+  WORK_ORDER_TRANSITIONS,
+  WORK_ORDER_TRANSITION_PERMISSIONS,
+} from '../utils/workOrderStatus';
+
+interface JobBoardProps {
+  onViewWorkOrder: (orderId: string) => void;
+}
+
+// Delivered orders leave the board; the column only takes drops
+const BOARD_COLUMNS: WorkOrderStatus[] = [
+  'received',
+  'diagnosing',
+  'awaiting_approval',
+  'awaiting_parts',
+  'in_progress',
+  'quality_check',
+  'ready_for_pickup',
+  'delivered',
+];
+
+const REFRESH_INTERVAL = 30_000;
+
+/**
+ * Kanban board of the work orders still at the workshop. Cards are dragged
+ * between status columns and put on a bay; the board refreshes itself.
+ */
+export function JobBoard({ onViewWorkOrder }: JobBoardProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { hasPermission, hasDetailedPermission } = useAuth();
+  const [orders, setOrders] = useState<JobBoardOrder[]>([]);
+  const [bays, setBays] = useState<WorkshopBay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [dragged, setDragged] = useState<JobBoardOrder | null>(null);
+  const [dropTarget, setDropTarget] = useState<WorkOrderStatus | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const canAssignBay = hasDetailedPermission('work_orders.update');
+
+  useEffect(() => {
+    loadBoard();
+    baysService.getBays(true)
+      .then(setBays)
+      .catch((error) => console.error('Error loading bays:', error));
+
+    const timer = setInterval(() => loadBoard(), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  async function loadBoard() {
+    try {
+      setOrders(await workOrdersService.getJobBoard());
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error loading job board:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const canMove = (order: JobBoardOrder, status: WorkOrderStatus) =>
+    WORK_ORDER_TRANSITIONS[order.status].includes(status) &&
+    hasDetailedPermission(WORK_ORDER_TRANSITION_PERMISSIONS[status] || 'work_orders.update');
+
+  async function moveOrder(order: JobBoardOrder, status: WorkOrderStatus) {
+    if (order.status === status) return;
+
+    if (!canMove(order, status)) {
+      toast.warning(t('job_board.invalid_move', {
+        from: t(`status.${order.status}`),
+        to: t(`status.${status}`),
+      }));
+      return;
+    }
+
+    // Finishing the job issues the invoice, which the work order page does
+    if (status === 'ready_for_pickup') {
+      toast.warning(t('job_board.finish_on_details'));
+      onViewWorkOrder(order.id);
+      return;
+    }
+
+    setSavingId(order.id);
+    setOrders((current) => current.map((item) => (item.id === order.id ? { ...item, status } : item)));
+    try {
+      await workOrdersService.updateStatus(order.id, status);
+    } catch (error) {
+      console.error('Error updating status:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('common.error.update'));
+    } finally {
+      setSavingId(null);
+      await loadBoard();
+    }
+  }
+
+  async function assignBay(order: JobBoardOrder, bayId: string | null) {
+    setSavingId(order.id);
+    try {
+      await workOrdersService.assignBay(order.id, bayId);
+    } catch (error) {
+      console.error('Error assigning bay:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('job_board.bay_error'));
+    } finally {
+      setSavingId(null);
+      await loadBoard();
+    }
+  }
+
+  function formatElapsed(since: string) {
+    const minutes = Math.max(0, Math.floor((now - new Date(since).getTime()) / 60000));
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+
+    if (days > 0) return t('job_board.elapsed_days', { days, hours });
+    if (hours > 0) return t('job_board.elapsed_hours', { hours, minutes: minutes % 60 });
+    return t('job_board.elapsed_minutes', { minutes });
+  }
+
+  if (!hasPermission('work_orders')) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <ShieldAlert className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">{t('job_board.unauthorized')}</h2>
+          <p className="text-gray-600">{t('job_board.unauthorized_message')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <div className="text-center py-8">{t('common.loading')}</div>;
+  }
+
+  const occupancy = (bayId: string) =>
+    orders.filter((order) => order.bay_id === bayId);
+
+  const renderCard = (order: JobBoardOrder) => {
+    const canDrag = savingId !== order.id && WORK_ORDER_TRANSITIONS[order.status].some((status) => canMove(order, status));
+
+    return (
+      <div
+        key={order.id}
+        draggable={canDrag}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDragged(order);
+        }}
+        onDragEnd={() => {
+          setDragged(null);
+          setDropTarget(null);
+        }}
+        className={`bg-white rounded-lg border border-gray-200 shadow-sm p-3 space-y-2 ${
+          canDrag ? 'cursor-grab active:cursor-grabbing' : ''
+        } ${savingId === order.id ? 'opacity-50' : ''}`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <button
+            type="button"
+            onClick={() => onViewWorkOrder(order.id)}
+            className="text-start font-bold text-gray-900 hover:text-blue-600"
+          >
+            {order.vehicle?.plate_number || order.order_number}
+          </button>
+          {canDrag && <GripVertical className="h-4 w-4 text-gray-400 flex-shrink-0" />}
+        </div>
+
+        <div className="text-xs text-gray-500">{order.order_number}</div>
+
+        {order.vehicle && (
+          <div className="flex items-center gap-1.5 text-sm text-gray-700">
+            <Car className="h-3.5 w-3.5 text-gray-400" />
+            <span className="truncate">{order.vehicle.car_make} {order.vehicle.car_model}</span>
+          </div>
+        )}
+        {order.customer && (
+          <div className="flex items-center gap-1.5 text-sm text-gray-700">
+            <User className="h-3.5 w-3.5 text-gray-400" />
+            <span className="truncate">{order.customer.name}</span>
+          </div>
+        )}
+        <div className="flex items-center gap-1.5 text-sm text-gray-700">
+          <Users className="h-3.5 w-3.5 text-gray-400" />
+          <span className="truncate">
+            {order.technicians.length > 0
+              ? order.technicians.map((technician) => technician.name).join('، ')
+              : t('job_board.no_technicians')}
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between text-xs">
+          <span className="flex items-center gap-1 text-gray-600" title={t('job_board.in_status')}>
+            <Clock className="h-3.5 w-3.5" />
+            {formatElapsed(order.status_changed_at)}
+          </span>
+          <span className="text-gray-400" title={t('job_board.since_opened')}>
+            {formatElapsed(order.created_at)}
+          </span>
+        </div>
+
+        {order.status !== 'ready_for_pickup' && (canAssignBay || order.bay) && (
+          <select
+            value={order.bay_id || ''}
+            onChange={(e) => assignBay(order, e.target.value || null)}
+            disabled={!canAssignBay || savingId === order.id}
+            className="w-full px-2 py-1 border border-gray-200 rounded-md text-xs focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+          >
+            <option value="">{t('appointments.no_bay')}</option>
+            {bays.map((bay) => (
+              <option
+                key={bay.id}
+                value={bay.id}
+                disabled={bay.id !== order.bay_id && occupancy(bay.id).length >= bay.capacity}
+              >
+                {bay.name} ({occupancy(bay.id).length}/{bay.capacity})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-800">{t('job_board.title')}</h2>
+        <button
+          type="button"
+          onClick={() => loadBoard()}
+          className="flex items-center gap-2 px-3 py-2 text-sm rounded-lg bg-gray-100 hover:bg-gray-200"
+        >
+          <RefreshCw className="h-4 w-4" />
+          {t('job_board.refresh')}
+        </button>
+      </div>
+
+      {bays.length > 0 && (
+        <div className="bg-white rounded-xl shadow-md p-3 flex flex-wrap gap-2">
+          {bays.map((bay) => {
+            const cars = occupancy(bay.id);
+            const full = cars.length >= bay.capacity;
+
+            return (
+              <div
+                key={bay.id}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm ${
+                  full ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'
+                }`}
+              >
+                <Warehouse className="h-4 w-4" />
+                <span className="font-semibold">{bay.name}</span>
+                <span>
+                  {cars.length > 0
+                    ? cars.map((order) => order.vehicle?.plate_number || order.order_number).join('، ')
+                    : t('job_board.free')}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {BOARD_COLUMNS.map((status) => {
+          const columnOrders = orders.filter((order) => order.status === status);
+          const allowed = dragged ? canMove(dragged, status) : false;
+
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                if (!dragged || dragged.status === status) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = allowed ? 'move' : 'none';
+                setDropTarget(status);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === status ? null : current))}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragged) moveOrder(dragged, status);
+                setDragged(null);
+                setDropTarget(null);
+              }}
+              className={`w-64 flex-shrink-0 rounded-xl p-2 transition-colors ${
+                dropTarget === status
+                  ? allowed ? 'bg-blue-100 ring-2 ring-blue-400' : 'bg-red-50 ring-2 ring-red-300'
+                  : dragged && allowed ? 'bg-blue-50' : 'bg-gray-100'
+              }`}
+            >
+              <div className="flex items-center justify-between px-1 mb-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${WORK_ORDER_STATUS_STYLES[status]}`}>
+                  {t(`status.${status}`)}
+                </span>
+                {status !== 'delivered' && <span className="text-xs text-gray-500">{columnOrders.length}</span>}
+              </div>
+              <div className="space-y-2 min-h-[120px]">
+                {status === 'delivered' ? (
+                  <p className="text-xs text-gray-500 text-center py-6">{t('job_board.drop_to_deliver')}</p>
+                ) : (
+                  columnOrders.map(renderCard)
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
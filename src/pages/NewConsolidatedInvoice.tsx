@@ -0,0 +1,335 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowRight, Layers, Car, Percent, Search, Save } from 'lucide-react';
+import { customersService, invoicesService, settingsService, ServiceError } from '../services';
+import { ConsolidatedWorkOrder, Customer, Invoice } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { formatToFixed, normalizeNumberInput, toEnglishDigits } from '../utils/numberUtils';
+
+interface NewConsolidatedInvoiceProps {
+  onBack: () => void;
+  onSuccess: (invoiceId: string) => void;
+}
+
+interface VehicleGroup {
+  label: string;
+  orders: ConsolidatedWorkOrder[];
+}
+
+// Previous calendar month, the usual statement period
+const lastMonth = () => {
+  const now = new Date();
+  const start = new Date(Date.UTC(now.getFullYear(), now.getMonth() - 1, 1));
+  const end = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 0));
+  return { start: start.toISOString().split('T')[0], end: end.toISOString().split('T')[0] };
+};
+
+function groupByVehicle(orders: ConsolidatedWorkOrder[]): VehicleGroup[] {
+  const groups = new Map<string, VehicleGroup>();
+  for (const order of orders) {
+    const key = order.vehicle?.id || '';
+    if (!groups.has(key)) {
+      groups.set(key, {
+        label: order.vehicle
+          ? `${order.vehicle.plate_number} - ${order.vehicle.car_make} ${order.vehicle.car_model}`
+          : '-',
+        orders: [],
+      });
+    }
+    groups.get(key)!.orders.push(order);
+  }
+  return [...groups.values()];
+}
+
+export function NewConsolidatedInvoice({ onBack, onSuccess }: NewConsolidatedInvoiceProps) {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerId, setCustomerId] = useState('');
+  const [periodStart, setPeriodStart] = useState(lastMonth().start);
+  const [periodEnd, setPeriodEnd] = useState(lastMonth().end);
+  const [orders, setOrders] = useState<ConsolidatedWorkOrder[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [discountPercentage, setDiscountPercentage] = useState(0);
+  const [taxRate, setTaxRate] = useState(0);
+  const [taxType, setTaxType] = useState<Invoice['tax_type']>('exclusive');
+  const [notes, setNotes] = useState('');
+  const [loadingOrders, setLoadingOrders] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    setOrders(null);
+    setSelectedIds(new Set());
+  }, [customerId, periodStart, periodEnd]);
+
+  async function loadData() {
+    try {
+      const [customersData, settings] = await Promise.all([
+        customersService.getAllCustomers({ orderBy: 'name', orderDirection: 'asc' }),
+        settingsService.getWorkshopSettings(),
+      ]);
+      setCustomers(customersData);
+
+      if (settings?.tax_enabled) {
+        setTaxRate(Number(settings.tax_rate) || 15);
+        setTaxType(settings.tax_type || 'exclusive');
+      }
+    } catch (error) {
+      console.error('Error loading data:', error);
+    }
+  }
+
+  async function loadOrders() {
+    if (!customerId || !periodStart || !periodEnd || periodEnd < periodStart) {
+      toast.warning(t('validation.fill_all_required'));
+      return;
+    }
+
+    setLoadingOrders(true);
+    try {
+      const data = await invoicesService.getUninvoicedWorkOrders(customerId, periodStart, periodEnd);
+      setOrders(data);
+      setSelectedIds(new Set(data.map(order => order.id)));
+    } catch (error) {
+      console.error('Error loading work orders:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.consolidated_load_error'));
+    } finally {
+      setLoadingOrders(false);
+    }
+  }
+
+  function toggleOrder(orderId: string) {
+    const next = new Set(selectedIds);
+    if (next.has(orderId)) {
+      next.delete(orderId);
+    } else {
+      next.add(orderId);
+    }
+    setSelectedIds(next);
+  }
+
+  // Preview only; the invoice totals are calculated by the server
+  const linesTotal = (orders || [])
+    .filter(order => selectedIds.has(order.id))
+    .reduce((sum, order) => sum + Number(order.total || 0), 0);
+  const discountAmount = Math.round(linesTotal * discountPercentage) / 100;
+  const afterDiscount = linesTotal - discountAmount;
+  const taxAmount = taxRate > 0
+    ? Math.round((taxType === 'inclusive' ? afterDiscount * taxRate / (100 + taxRate) : afterDiscount * taxRate / 100) * 100) / 100
+    : 0;
+  const total = taxType === 'inclusive' ? afterDiscount : afterDiscount + taxAmount;
+
+  async function handleCreate() {
+    if (selectedIds.size === 0) {
+      toast.warning(t('invoices.consolidated_select_orders'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const invoice = await invoicesService.createConsolidatedInvoice({
+        customer_id: customerId,
+        period_start: periodStart,
+        period_end: periodEnd,
+        work_order_ids: [...selectedIds],
+        discount_percentage: discountPercentage,
+        tax_rate: taxRate,
+        tax_type: taxType,
+        notes,
+      });
+      toast.success(`${t('invoices.consolidated_created')} ${invoice.invoice_number}`);
+      onSuccess(invoice.id);
+    } catch (error) {
+      console.error('Error creating consolidated invoice:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.consolidated_create_error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors bg-white px-4 py-2 rounded-xl shadow-sm border border-gray-200"
+        >
+          <ArrowRight className="h-5 w-5" />
+          <span className="font-medium">{t('common.back')}</span>
+        </button>
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">{t('invoices.consolidated_invoice')}</h2>
+          <p className="text-gray-500 mt-1">{t('invoices.consolidated_desc')}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100">
+        <div className="flex items-center gap-2 mb-6">
+          <div className="p-2 bg-blue-50 rounded-lg">
+            <Layers className="h-5 w-5 text-blue-600" />
+          </div>
+          <h3 className="text-xl font-bold text-gray-900">{t('invoices.consolidated_period')}</h3>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('customers.title')} <span className="text-red-500">*</span>
+            </label>
+            <select
+              value={customerId}
+              onChange={(e) => setCustomerId(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">{t('work_orders.select_customer')}</option>
+              {customers.map(customer => (
+                <option key={customer.id} value={customer.id}>
+                  {customer.name} - {customer.phone}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">{t('common.from')}</label>
+            <input
+              type="date"
+              value={periodStart}
+              onChange={(e) => setPeriodStart(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">{t('common.to')}</label>
+            <input
+              type="date"
+              value={periodEnd}
+              min={periodStart}
+              onChange={(e) => setPeriodEnd(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={loadOrders}
+            disabled={loadingOrders}
+            className="flex items-center gap-2 bg-blue-600 text-white px-5 py-2.5 rounded-xl hover:bg-blue-700 transition-all shadow-md disabled:bg-gray-400"
+          >
+            <Search className="h-4 w-4" />
+            <span className="font-semibold">{loadingOrders ? t('common.loading') : t('invoices.consolidated_find_orders')}</span>
+          </button>
+        </div>
+      </div>
+
+      {orders !== null && (
+        <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100">
+          <h3 className="text-xl font-bold text-gray-900 mb-4">{t('invoices.consolidated_work_orders')}</h3>
+
+          {orders.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">{t('invoices.consolidated_no_orders')}</p>
+          ) : (
+            <div className="space-y-4">
+              {groupByVehicle(orders).map(group => (
+                <div key={group.label} className="border-2 border-gray-100 rounded-xl overflow-hidden">
+                  <div className="flex items-center gap-2 bg-gray-50 px-4 py-2 font-semibold text-gray-800">
+                    <Car className="h-4 w-4 text-gray-500" />
+                    <span>{group.label}</span>
+                  </div>
+                  <div className="divide-y divide-gray-100">
+                    {group.orders.map(order => (
+                      <label key={order.id} className="flex items-center gap-3 px-4 py-3 cursor-pointer hover:bg-blue-50">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(order.id)}
+                          onChange={() => toggleOrder(order.id)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="font-semibold text-gray-900">{order.order_number}</span>
+                        <span className="text-sm text-gray-500 flex-1 truncate">{order.description}</span>
+                        <span className="text-sm text-gray-500">{new Date(order.completed_at).toLocaleDateString('en-US')}</span>
+                        <span className="font-semibold text-gray-900 w-32 text-left">{formatToFixed(Number(order.total || 0))} {t('common.sar')}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {orders.length > 0 && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    <div className="flex items-center gap-2">
+                      <Percent className="h-4 w-4 text-gray-400" />
+                      {t('invoices.discount_percentage')} (%)
+                    </div>
+                  </label>
+                  <input
+                    type="text"
+                    value={discountPercentage}
+                    onChange={(e) => setDiscountPercentage(Number(normalizeNumberInput(e.target.value)) || 0)}
+                    className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('common.notes')}</label>
+                  <input
+                    type="text"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  />
+                </div>
+              </div>
+
+              <div className="mt-6 border-t-2 border-gray-100 pt-6">
+                <div className="max-w-md mr-auto space-y-2">
+                  <div className="flex justify-between items-center py-2 px-4 bg-gray-50 rounded-lg">
+                    <span className="font-medium text-gray-700">{t('invoices.subtotal')}:</span>
+                    <span className="font-bold text-gray-900">{formatToFixed(linesTotal)} {t('common.currency')}</span>
+                  </div>
+                  {discountAmount > 0 && (
+                    <div className="flex justify-between items-center py-2 px-4 bg-red-50 rounded-lg">
+                      <span className="font-medium text-red-700">{t('invoices.discount')} ({toEnglishDigits(discountPercentage)}%):</span>
+                      <span className="font-bold text-red-700">- {formatToFixed(discountAmount)} {t('common.currency')}</span>
+                    </div>
+                  )}
+                  {taxRate > 0 && (
+                    <div className="flex justify-between items-center py-2 px-4 bg-blue-50 rounded-lg">
+                      <span className="font-medium text-blue-700">{t('invoices.tax')} ({toEnglishDigits(taxRate)}%):</span>
+                      <span className="font-bold text-blue-900">{formatToFixed(taxAmount)} {t('common.currency')}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center py-3 px-4 bg-gradient-to-r from-blue-600 to-blue-700 rounded-lg text-white">
+                    <span className="font-bold">{t('invoices.grand_total')}:</span>
+                    <span className="font-bold text-xl">{formatToFixed(total)} {t('common.currency')}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end mt-6">
+                <button
+                  onClick={handleCreate}
+                  disabled={saving || selectedIds.size === 0}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700 transition-all shadow-lg disabled:bg-gray-400"
+                >
+                  <Save className="h-5 w-5" />
+                  <span className="font-semibold">
+                    {saving ? t('common.loading') : t('invoices.consolidated_create', { count: selectedIds.size })}
+                  </span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import { useState, useEffect } from 'react';
-import { ArrowRight, Plus, Trash2, Save, Receipt, Percent, CreditCard, Banknote } from 'lucide-react';
-import { customersService, vehiclesService, workOrdersService, settingsService, invoicesService, ServiceError } from '../services';
+import { ArrowRight, Plus, Trash2, Save, Receipt, Percent, FileText, Lock } from 'lucide-react';
+import { customersService, vehiclesService, workOrdersService, settingsService, invoicesService, ServiceError, CreateInvoicePaymentData } from '../services';
 import { apiClient } from '../services/apiClient';
 import { supabase } from '../lib/supabase';
 import { useToast } from '../contexts/ToastContext';
 import { useTranslation } from 'react-i18next';
 import { normalizeNumberInput, formatToFixed, toEnglishDigits } from '../utils/numberUtils';
+import { PaymentTendersInput } from '../components/PaymentTendersInput';
+import type { VatCategory } from '../types';
 
 interface NewInvoiceProps {
   invoiceId?: string;
@@ -37,12 +39,28 @@ interface WorkOrder {
 }
 
 interface InvoiceItem {
+  item_type?: 'service' | 'part';
   description: string;
   quantity: number;
   unit_price: number;
+  discount_percentage: number;
+  vat_category: VatCategory;
   total: number;
 }
 
+const VAT_CATEGORIES: VatCategory[] = ['standard', 'zero_rated', 'exempt'];
+
+const EMPTY_ITEM: InvoiceItem = { description: '', quantity: 1, unit_price: 0, discount_percentage: 0, vat_category: 'standard', total: 0 };
+
+/** Rounds to halalas the way the database does */
+const roundAmount = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/** Line amount after its own discount, as computed by save_invoice() */
+const lineTotal = (item: Pick<InvoiceItem, 'quantity' | 'unit_price' | 'discount_percentage'>) => {
+  const gross = roundAmount(item.quantity * item.unit_price);
+  return gross - roundAmount((gross * (item.discount_percentage || 0)) / 100);
+};
+
 interface SparePart {
   id: string;
   name: string;
@@ -65,15 +83,15 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
   const [taxEnabled, setTaxEnabled] = useState(false);
   const [taxType, setTaxType] = useState<'inclusive' | 'exclusive'>('exclusive');
   const [discountPercentage, setDiscountPercentage] = useState(0);
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card'>('cash');
-  const [cardType, setCardType] = useState<'mada' | 'visa'>('mada');
-  const [paidAmount, setPaidAmount] = useState(0);
-  const [notes, setNotes] = useState('');
-  const [items, setItems] = useState<InvoiceItem[]>([
-    { description: '', quantity: 1, unit_price: 0, total: 0 }
+  const [tenders, setTenders] = useState<CreateInvoicePaymentData[]>([
+    { payment_method: 'cash', card_type: null, amount: 0, reference: '' }
   ]);
+  const [notes, setNotes] = useState('');
+  const [items, setItems] = useState<InvoiceItem[]>([EMPTY_ITEM]);
   const [spareParts, setSpareParts] = useState<SparePart[]>([]);
   const [loading, setLoading] = useState(false);
+  const [invoiceStatus, setInvoiceStatus] = useState<'draft' | 'issued'>('draft');
+  const [depositCredit, setDepositCredit] = useState(0);
 
   useEffect(() => {
     fetchCustomers();
@@ -97,6 +115,18 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
     }
   }, [selectedWorkOrderId, workOrders]);
 
+  // Open deposits of the work order are applied to the new invoice on save
+  useEffect(() => {
+    setDepositCredit(0);
+    if (!selectedWorkOrderId || invoiceId) return;
+
+    workOrdersService.getDeposits(selectedWorkOrderId)
+      .then(deposits => setDepositCredit(
+        deposits.reduce((sum, deposit) => sum + Number(deposit.amount) - Number(deposit.applied_amount), 0)
+      ))
+      .catch(error => console.error('Error loading deposits:', error));
+  }, [selectedWorkOrderId, invoiceId]);
+
   useEffect(() => {
     if (invoiceId) {
       loadInvoice();
@@ -169,13 +199,11 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
 
       if (invoiceError) throw invoiceError;
 
+      setInvoiceStatus(invoice.status || 'issued');
       setSelectedCustomerId(invoice.customer_id);
       setSelectedVehicleId(invoice.vehicle_id || '');
       setSelectedWorkOrderId(invoice.work_order_id || '');
       setDiscountPercentage(invoice.discount_percentage || 0);
-      setPaymentMethod(invoice.payment_method);
-      setCardType(invoice.card_type || 'mada');
-      setPaidAmount(invoice.paid_amount || 0);
       setNotes(invoice.notes || '');
 
       const invoiceTaxRate = Number(invoice.tax_rate) || 0;
@@ -197,9 +225,12 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
 
       if (itemsData && itemsData.length > 0) {
         setItems(itemsData.map(item => ({
+          item_type: item.item_type,
           description: item.description,
           quantity: item.quantity,
           unit_price: item.unit_price,
+          discount_percentage: Number(item.discount_percentage) || 0,
+          vat_category: item.vat_category || 'standard',
           total: item.total,
         })));
       }
@@ -239,7 +270,7 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
   };
 
   const addItem = () => {
-    setItems([...items, { description: '', quantity: 1, unit_price: 0, total: 0 }]);
+    setItems([...items, EMPTY_ITEM]);
   };
 
   const removeItem = (index: number) => {
@@ -252,8 +283,8 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
     const newItems = [...items];
     newItems[index] = { ...newItems[index], [field]: value };
 
-    if (field === 'quantity' || field === 'unit_price') {
-      newItems[index].total = newItems[index].quantity * newItems[index].unit_price;
+    if (field === 'quantity' || field === 'unit_price' || field === 'discount_percentage') {
+      newItems[index].total = lineTotal(newItems[index]);
     }
 
     setItems(newItems);
@@ -265,23 +296,32 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
 
   const calculateDiscount = () => {
     const subtotal = calculateSubtotal();
-    return (subtotal * discountPercentage) / 100;
+    return roundAmount((subtotal * discountPercentage) / 100);
   };
 
   const calculateSubtotalAfterDiscount = () => {
     return calculateSubtotal() - calculateDiscount();
   };
 
+  /** Lines of one VAT category after their share of the invoice discount */
+  const calculateCategoryAfterDiscount = (category: VatCategory) => {
+    const categoryTotal = items
+      .filter(item => item.vat_category === category)
+      .reduce((sum, item) => sum + item.total, 0);
+    return categoryTotal - roundAmount((categoryTotal * discountPercentage) / 100);
+  };
+
   const calculateTax = () => {
     if (!taxEnabled) {
       return 0;
     }
-    const subtotalAfterDiscount = calculateSubtotalAfterDiscount();
+    // Zero rated and exempt lines carry no VAT
+    const taxable = calculateCategoryAfterDiscount('standard');
     const calculatedTax = taxType === 'inclusive'
-      ? (subtotalAfterDiscount * taxRate) / (100 + taxRate)
-      : (subtotalAfterDiscount * taxRate) / 100;
+      ? (taxable * taxRate) / (100 + taxRate)
+      : (taxable * taxRate) / 100;
 
-    return calculatedTax;
+    return roundAmount(calculatedTax);
   };
 
   const calculateTotal = () => {
@@ -294,6 +334,8 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
     return calculateSubtotalAfterDiscount() + calculateTax();
   };
 
+  const calculateAmountDue = () => Math.max(calculateTotal() - depositCredit, 0);
+
   const calculateBaseAmount = () => {
     if (!taxEnabled) {
       return calculateSubtotalAfterDiscount();
@@ -304,9 +346,35 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
     return calculateSubtotalAfterDiscount();
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  /** Same split as invoice_tax_breakdown(): standard rated takes what the other categories leave of the base amount */
+  const calculateTaxBreakdown = () => {
+    const untaxed = VAT_CATEGORIES
+      .filter(category => category !== 'standard' && items.some(item => item.vat_category === category))
+      .map(category => ({ category, taxable: calculateCategoryAfterDiscount(category), tax: 0 }));
+    const standard = items.some(item => item.vat_category === 'standard')
+      ? [{
+        category: 'standard' as VatCategory,
+        taxable: calculateBaseAmount() - untaxed.reduce((sum, row) => sum + row.taxable, 0),
+        tax: calculateTax(),
+      }]
+      : [];
+    return [...standard, ...untaxed];
+  };
+
+  const hasLineCategories = items.some(item => item.vat_category !== 'standard');
+
+  /**
+   * Saves the invoice and, unless it is kept as a draft, issues it.
+   * Issued invoices can no longer be edited.
+   */
+  const handleSubmit = async (e: React.SyntheticEvent, issue = true) => {
     e.preventDefault();
 
+    if (invoiceStatus === 'issued') {
+      toast.warning(t('invoices.issued_locked'));
+      return;
+    }
+
     if (!selectedCustomerId) {
       toast.warning(t('validation.fill_all_required'));
       return;
@@ -317,6 +385,18 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
       return;
     }
 
+    const paidTenders = invoiceId ? [] : tenders.filter(tender => tender.amount > 0);
+
+    if (paidTenders.some(tender => tender.payment_method === 'bank_transfer' && !tender.reference?.trim())) {
+      toast.warning(t('invoices.transfer_reference_required'));
+      return;
+    }
+
+    if (paidTenders.reduce((sum, tender) => sum + tender.amount, 0) > calculateAmountDue() + 0.01) {
+      toast.warning(t('invoices.payment_exceeds_balance'));
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -325,13 +405,6 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
       const taxAmount = taxEnabled ? calculateTax() : 0;
       const total = calculateTotal();
 
-      let paymentStatus: 'paid' | 'partial' | 'unpaid' = 'unpaid';
-      if (paidAmount >= total) {
-        paymentStatus = 'paid';
-      } else if (paidAmount > 0) {
-        paymentStatus = 'partial';
-      }
-
       if (invoiceId) {
         const invoiceData = {
           work_order_id: selectedWorkOrderId || null,
@@ -344,18 +417,17 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
           tax_type: taxEnabled ? taxType : 'exclusive',
           tax_amount: taxEnabled ? Number(taxAmount) : 0,
           total,
-          paid_amount: paidAmount,
-          payment_status: paymentStatus,
-          payment_method: paymentMethod,
-          card_type: paymentMethod === 'card' ? cardType : null,
           notes,
           items: items.map(item => ({
-            item_type: 'service',
+            item_type: item.item_type || 'service',
             description: item.description,
             quantity: item.quantity,
             unit_price: item.unit_price,
+            discount_percentage: item.discount_percentage,
+            vat_category: item.vat_category,
             total: item.total
-          }))
+          })),
+          ...(issue ? { status: 'issued' as const } : {})
         };
 
         await invoicesService.updateInvoice(invoiceId, invoiceData);
@@ -372,18 +444,19 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
           tax_type: taxEnabled ? taxType : 'exclusive',
           tax_amount: taxEnabled ? Number(taxAmount) : 0,
           total,
-          paid_amount: paidAmount,
-          payment_status: paymentStatus,
-          payment_method: paymentMethod,
-          card_type: paymentMethod === 'card' ? cardType : null,
+          // Recorded as the first payments of the invoice
+          tenders: paidTenders,
           notes,
           items: items.map(item => ({
-            item_type: 'service',
+            item_type: item.item_type || 'service',
             description: item.description,
             quantity: item.quantity,
             unit_price: item.unit_price,
+            discount_percentage: item.discount_percentage,
+            vat_category: item.vat_category,
             total: item.total
-          }))
+          })),
+          status: issue ? 'issued' as const : 'draft' as const
         };
 
         await invoicesService.createInvoice(invoiceData);
@@ -393,7 +466,7 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
       onSuccess();
     } catch (error) {
       console.error('Error saving invoice:', error);
-      toast.error(t('invoices.error_create'));
+      toast.error(error instanceof ServiceError ? error.message : t('invoices.error_create'));
     } finally {
       setLoading(false);
     }
@@ -419,6 +492,13 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
         </div>
       </div>
 
+      {invoiceId && invoiceStatus === 'issued' && (
+        <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-4">
+          <Lock className="h-5 w-5 mt-0.5 flex-shrink-0" />
+          <p className="text-sm font-medium">{t('invoices.issued_locked')}</p>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100">
           <div className="flex items-center gap-2 mb-6">
@@ -535,7 +615,7 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
           <div className="space-y-4">
             {items.map((item, index) => (
               <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-4 p-4 border-2 border-gray-100 rounded-xl hover:border-gray-200 transition-all">
-                <div className="md:col-span-5">
+                <div className="md:col-span-3">
                   <label className="block text-xs font-semibold text-gray-600 mb-2">{t('services.description')}</label>
                   <input
                     type="text"
@@ -547,7 +627,7 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
                   />
                 </div>
 
-                <div className="md:col-span-2">
+                <div className="md:col-span-1">
                   <label className="block text-xs font-semibold text-gray-600 mb-2">{t('invoices.quantity')}</label>
                   <input
                     type="text"
@@ -569,6 +649,29 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
                   />
                 </div>
 
+                <div className="md:col-span-1">
+                  <label className="block text-xs font-semibold text-gray-600 mb-2">{t('invoices.line_discount')}</label>
+                  <input
+                    type="text"
+                    value={item.discount_percentage}
+                    onChange={(e) => updateItem(index, 'discount_percentage', Math.min(100, Math.max(0, Number(normalizeNumberInput(e.target.value)) || 0)))}
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-semibold text-gray-600 mb-2">{t('invoices.vat_category')}</label>
+                  <select
+                    value={item.vat_category}
+                    onChange={(e) => updateItem(index, 'vat_category', e.target.value as VatCategory)}
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  >
+                    {VAT_CATEGORIES.map(category => (
+                      <option key={category} value={category}>{t(`invoices.vat_categories.${category}`)}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="md:col-span-2 flex items-end">
                   <div className="flex-1">
                     <label className="block text-xs font-semibold text-gray-600 mb-2">{t('common.total')}</label>
@@ -644,6 +747,30 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
                 </>
               )}
 
+              {taxEnabled && hasLineCategories && (
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-100">
+                  <p className="text-sm font-semibold text-gray-700 mb-2">{t('invoices.tax_breakdown')}</p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th className="text-right font-medium pb-1">{t('invoices.vat_category')}</th>
+                        <th className="text-center font-medium pb-1">{t('invoices.taxable_amount')}</th>
+                        <th className="text-left font-medium pb-1">{t('invoices.tax')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {calculateTaxBreakdown().map(row => (
+                        <tr key={row.category} className="text-gray-900">
+                          <td className="py-0.5">{t(`invoices.vat_categories.${row.category}`)}</td>
+                          <td className="py-0.5 text-center">{formatToFixed(row.taxable)}</td>
+                          <td className="py-0.5 text-left">{formatToFixed(row.tax)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               <div className="flex justify-between items-center py-3 px-4 bg-gradient-to-r from-blue-600 to-blue-700 rounded-xl text-white shadow-lg">
                 <span className="font-bold text-lg">{t('invoices.grand_total')}:</span>
                 <span className="font-bold text-2xl">{formatToFixed(calculateTotal())} {t('common.currency')}</span>
@@ -708,81 +835,20 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
           <h3 className="text-xl font-bold text-gray-900 mb-6">{t('invoices.payment_info')}</h3>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-3">
-                {t('invoices.payment_method')}
-              </label>
-              <div className="grid grid-cols-2 gap-3">
-                <button
-                  type="button"
-                  onClick={() => setPaymentMethod('cash')}
-                  className={`flex items-center justify-center gap-2 py-3 px-4 rounded-xl border-2 transition-all ${
-                    paymentMethod === 'cash'
-                      ? 'border-green-500 bg-green-50 text-green-700'
-                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                  }`}
-                >
-                  <Banknote className="h-5 w-5" />
-                  <span className="font-semibold">{t('common.cash')}</span>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setPaymentMethod('card')}
-                  className={`flex items-center justify-center gap-2 py-3 px-4 rounded-xl border-2 transition-all ${
-                    paymentMethod === 'card'
-                      ? 'border-blue-500 bg-blue-50 text-blue-700'
-                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                  }`}
-                >
-                  <CreditCard className="h-5 w-5" />
-                  <span className="font-semibold">{t('common.card')}</span>
-                </button>
-              </div>
-            </div>
-
-            {paymentMethod === 'card' && (
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-3">
-                  {t('invoices.card_type')}
-                </label>
-                <div className="grid grid-cols-2 gap-3">
-                  <button
-                    type="button"
-                    onClick={() => setCardType('mada')}
-                    className={`py-3 px-4 rounded-xl border-2 transition-all font-semibold ${
-                      cardType === 'mada'
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                    }`}
-                  >
-                    {t('common.mada')}
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setCardType('visa')}
-                    className={`py-3 px-4 rounded-xl border-2 transition-all font-semibold ${
-                      cardType === 'visa'
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                    }`}
-                  >
-                    {t('common.visa')}
-                  </button>
-                </div>
-              </div>
-            )}
-
-            <div className={paymentMethod === 'card' ? 'md:col-span-2' : 'md:col-span-1'}>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                {t('invoices.amount_paid')}
-              </label>
-              <input
-                type="text"
-                value={paidAmount}
-                onChange={(e) => setPaidAmount(Number(normalizeNumberInput(e.target.value)))}
-                placeholder="0.00"
-                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg font-semibold"
-              />
+            {/* Later payments are recorded from the invoice details */}
+            <div className="md:col-span-2">
+              {invoiceId ? (
+                <p className="text-sm text-gray-600">{t('invoices.payments_recorded_on_details')}</p>
+              ) : (
+                <>
+                  {depositCredit > 0 && (
+                    <p className="text-sm text-emerald-700 bg-emerald-50 rounded-lg px-4 py-2 mb-4">
+                      {t('invoices.deposit_credit_applied', { amount: formatToFixed(Math.min(depositCredit, calculateTotal())) })}
+                    </p>
+                  )}
+                  <PaymentTendersInput tenders={tenders} onChange={setTenders} amountDue={calculateAmountDue()} />
+                </>
+              )}
             </div>
 
             <div className="md:col-span-2">
@@ -803,11 +869,20 @@ export function NewInvoice({ invoiceId, onBack, onSuccess }: NewInvoiceProps) {
         <div className="flex gap-4">
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || invoiceStatus === 'issued'}
             className="flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white px-6 py-4 rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all disabled:from-gray-400 disabled:to-gray-400 disabled:cursor-not-allowed shadow-lg hover:shadow-xl font-semibold text-lg"
           >
             <Save className="h-5 w-5" />
-            {loading ? t('common.saving') : t('common.save')}
+            {loading ? t('common.saving') : t('invoices.save_and_issue')}
+          </button>
+          <button
+            type="button"
+            onClick={(e) => handleSubmit(e, false)}
+            disabled={loading || invoiceStatus === 'issued'}
+            className="flex items-center justify-center gap-2 px-6 py-4 border-2 border-blue-600 text-blue-700 rounded-xl hover:bg-blue-50 transition-all font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileText className="h-5 w-5" />
+            {t('invoices.save_as_draft')}
           </button>
           <button
             type="button"
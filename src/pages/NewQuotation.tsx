@@ -0,0 +1,568 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowRight, Plus, Trash2, Save, FileSignature, Wrench, Package, Percent } from 'lucide-react';
+import { customersService, vehiclesService, inventoryService, settingsService, quotationsService, serviceCatalogService, ServiceError, SaveQuotationData } from '../services';
+import { Customer, Vehicle, SparePart, Quotation, ServiceCatalogItem } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { ServiceCatalogPicker } from '../components/ServiceCatalogPicker';
+import { catalogItemName } from '../utils/serviceCatalog';
+import { normalizeNumberInput, formatToFixed, toEnglishDigits } from '../utils/numberUtils';
+
+interface NewQuotationProps {
+  quotationId?: string;
+  onBack: () => void;
+  onSuccess: (quotationId: string) => void;
+}
+
+interface ServiceLine {
+  service_type: string;
+  description: string;
+  labor_cost: number;
+  catalog_item_id: string | null;
+}
+
+const EMPTY_SERVICE: ServiceLine = { service_type: '', description: '', labor_cost: 0, catalog_item_id: null };
+
+interface SparePartLine {
+  spare_part_id: string;
+  quantity: number;
+  unit_price: number;
+}
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+export function NewQuotation({ quotationId, onBack, onSuccess }: NewQuotationProps) {
+  const { t, i18n } = useTranslation();
+  const toast = useToast();
+  const { hasDetailedPermission } = useAuth();
+  const today = new Date().toISOString().split('T')[0];
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [spareParts, setSpareParts] = useState<SparePart[]>([]);
+  const [catalogItems, setCatalogItems] = useState<ServiceCatalogItem[]>([]);
+  const [selectedCustomerId, setSelectedCustomerId] = useState('');
+  const [selectedVehicleId, setSelectedVehicleId] = useState('');
+  const [issueDate, setIssueDate] = useState(today);
+  const [validUntil, setValidUntil] = useState(addDays(today, 14));
+  const [discountPercentage, setDiscountPercentage] = useState(0);
+  const [taxRate, setTaxRate] = useState(0);
+  const [taxType, setTaxType] = useState<Quotation['tax_type']>('exclusive');
+  const [notes, setNotes] = useState('');
+  const [services, setServices] = useState<ServiceLine[]>([EMPTY_SERVICE]);
+  const [partLines, setPartLines] = useState<SparePartLine[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const serviceTypes = [
+    t('services.mechanics'),
+    t('services.electricity'),
+    t('services.ac'),
+    t('services.tires'),
+    t('services.bodywork'),
+    t('services.other'),
+  ];
+
+  const canOverridePrice = hasDetailedPermission('quotations.override_price');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (quotationId) {
+      loadQuotation();
+    }
+  }, [quotationId]);
+
+  useEffect(() => {
+    if (selectedCustomerId) {
+      loadVehicles(selectedCustomerId);
+    } else {
+      setVehicles([]);
+    }
+  }, [selectedCustomerId]);
+
+  async function loadData() {
+    try {
+      const [customersData, sparePartsData, settings] = await Promise.all([
+        customersService.getAllCustomers({ orderBy: 'name', orderDirection: 'asc' }),
+        inventoryService.getAllSpareParts({ orderBy: 'name', orderDirection: 'asc' }),
+        quotationId ? Promise.resolve(null) : settingsService.getWorkshopSettings(),
+      ]);
+      setCustomers(customersData);
+      setSpareParts(sparePartsData);
+
+      if (settings?.tax_enabled) {
+        setTaxRate(Number(settings.tax_rate) || 15);
+        setTaxType(settings.tax_type || 'exclusive');
+      }
+    } catch (error) {
+      console.error('Error loading data:', error);
+    }
+
+    try {
+      setCatalogItems(await serviceCatalogService.getItems(true));
+    } catch (error) {
+      console.error('Error loading service catalog:', error);
+    }
+  }
+
+  async function loadVehicles(customerId: string) {
+    try {
+      setVehicles(await vehiclesService.getVehiclesByCustomer(customerId));
+    } catch (error) {
+      console.error('Error loading vehicles:', error);
+    }
+  }
+
+  async function loadQuotation() {
+    if (!quotationId) return;
+
+    try {
+      const quotation = await quotationsService.getQuotationById(quotationId);
+      setSelectedCustomerId(quotation.customer_id);
+      setSelectedVehicleId(quotation.vehicle_id || '');
+      setIssueDate(quotation.issue_date);
+      setValidUntil(quotation.valid_until);
+      setDiscountPercentage(Number(quotation.discount_percentage) || 0);
+      setTaxRate(Number(quotation.tax_rate) || 0);
+      setTaxType(quotation.tax_type);
+      setNotes(quotation.notes || '');
+      setServices((quotation.services || []).map(service => ({
+        service_type: service.service_type,
+        description: service.description,
+        labor_cost: Number(service.labor_cost),
+        catalog_item_id: service.catalog_item_id ?? null,
+      })));
+      setPartLines((quotation.spare_parts || []).map(part => ({
+        spare_part_id: part.spare_part_id,
+        quantity: Number(part.quantity),
+        unit_price: Number(part.unit_price),
+      })));
+    } catch (error) {
+      console.error('Error loading quotation:', error);
+      toast.error(t('quotations.error_load'));
+    }
+  }
+
+  function updateService(index: number, changes: Partial<ServiceLine>) {
+    setServices(services.map((service, i) => (i === index ? { ...service, ...changes } : service)));
+  }
+
+  // Fills the line from the catalog and adds the item's usual parts at the inventory price
+  function applyCatalogItem(index: number, item: ServiceCatalogItem) {
+    updateService(index, {
+      service_type: t(`services.${item.category}`),
+      description: catalogItemName(item, i18n.language),
+      labor_cost: Number(item.default_price),
+      catalog_item_id: item.id,
+    });
+
+    const defaultLines = item.default_parts.flatMap((part) => {
+      const sparePart = spareParts.find(p => p.id === part.spare_part_id);
+      return sparePart
+        ? [{ spare_part_id: sparePart.id, quantity: part.quantity, unit_price: Number(sparePart.unit_price) }]
+        : [];
+    });
+    if (defaultLines.length > 0) {
+      setPartLines([...partLines, ...defaultLines]);
+    }
+  }
+
+  function updatePartLine(index: number, changes: Partial<SparePartLine>) {
+    setPartLines(partLines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  }
+
+  function selectSparePart(index: number, sparePartId: string) {
+    const part = spareParts.find(p => p.id === sparePartId);
+    updatePartLine(index, { spare_part_id: sparePartId, unit_price: part ? Number(part.unit_price) : 0 });
+  }
+
+  // Preview only; the server calculates the stored totals the same way
+  const linesTotal = services.reduce((sum, service) => sum + (Number(service.labor_cost) || 0), 0)
+    + partLines.reduce((sum, line) => sum + Math.round(line.quantity * line.unit_price * 100) / 100, 0);
+  const discountAmount = Math.round(linesTotal * discountPercentage) / 100;
+  const afterDiscount = linesTotal - discountAmount;
+  const taxAmount = taxRate > 0
+    ? Math.round((taxType === 'inclusive' ? afterDiscount * taxRate / (100 + taxRate) : afterDiscount * taxRate / 100) * 100) / 100
+    : 0;
+  const total = taxType === 'inclusive' ? afterDiscount : afterDiscount + taxAmount;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!selectedCustomerId || validUntil < issueDate) {
+      toast.warning(t('validation.fill_all_required'));
+      return;
+    }
+
+    if (services.length === 0 && partLines.length === 0) {
+      toast.warning(t('quotations.lines_required'));
+      return;
+    }
+
+    if (services.some(s => !s.service_type || !s.description || s.labor_cost < 0)
+      || partLines.some(line => !line.spare_part_id || line.quantity <= 0 || line.unit_price < 0)) {
+      toast.warning(t('validation.fill_all_required'));
+      return;
+    }
+
+    const data: SaveQuotationData = {
+      customer_id: selectedCustomerId,
+      vehicle_id: selectedVehicleId || null,
+      issue_date: issueDate,
+      valid_until: validUntil,
+      notes,
+      discount_percentage: discountPercentage,
+      tax_rate: taxRate,
+      tax_type: taxType,
+      services,
+      spare_parts: partLines,
+    };
+
+    setSaving(true);
+    try {
+      const saved = quotationId
+        ? await quotationsService.updateQuotation(quotationId, data)
+        : await quotationsService.createQuotation(data);
+      toast.success(quotationId ? t('quotations.success_updated') : t('quotations.success_created'));
+      onSuccess(saved.id);
+    } catch (error) {
+      console.error('Error saving quotation:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('quotations.error_save'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors bg-white px-4 py-2 rounded-xl shadow-sm border border-gray-200"
+        >
+          <ArrowRight className="h-5 w-5" />
+          <span className="font-medium">{t('common.back')}</span>
+        </button>
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">
+            {quotationId ? t('quotations.edit_quotation') : t('quotations.new_quotation')}
+          </h2>
+          <p className="text-gray-500 mt-1">{t('quotations.form_desc')}</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100">
+          <div className="flex items-center gap-2 mb-6">
+            <div className="p-2 bg-blue-50 rounded-lg">
+              <FileSignature className="h-5 w-5 text-blue-600" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-900">{t('quotations.quotation_info')}</h3>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('customers.title')} <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={selectedCustomerId}
+                onChange={(e) => {
+                  setSelectedCustomerId(e.target.value);
+                  setSelectedVehicleId('');
+                }}
+                required
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              >
+                <option value="">{t('work_orders.select_customer')}</option>
+                {customers.map(customer => (
+                  <option key={customer.id} value={customer.id}>
+                    {customer.name} - {customer.phone}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('vehicles.title')} <span className="text-gray-400 font-normal">({t('common.optional')})</span>
+              </label>
+              <select
+                value={selectedVehicleId}
+                onChange={(e) => setSelectedVehicleId(e.target.value)}
+                disabled={!selectedCustomerId}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all disabled:bg-gray-50 disabled:text-gray-500"
+              >
+                <option value="">{t('work_orders.select_vehicle')}</option>
+                {vehicles.map(vehicle => (
+                  <option key={vehicle.id} value={vehicle.id}>
+                    {vehicle.car_make} {vehicle.car_model} {vehicle.car_year} - {vehicle.plate_number}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">{t('quotations.issue_date')}</label>
+              <input
+                type="date"
+                value={issueDate}
+                onChange={(e) => setIssueDate(e.target.value)}
+                required
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">{t('quotations.valid_until')}</label>
+              <input
+                type="date"
+                value={validUntil}
+                min={issueDate}
+                onChange={(e) => setValidUntil(e.target.value)}
+                required
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                <div className="flex items-center gap-2">
+                  <Percent className="h-4 w-4 text-gray-400" />
+                  {t('invoices.discount_percentage')} (%)
+                </div>
+              </label>
+              <input
+                type="text"
+                value={discountPercentage}
+                onChange={(e) => setDiscountPercentage(Number(normalizeNumberInput(e.target.value)) || 0)}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">{t('common.notes')}</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+            </div>
+          </div>
+
+          {taxRate > 0 && (
+            <div className="mt-6 p-4 bg-blue-50 border border-blue-100 rounded-xl flex items-center gap-4 text-sm text-blue-700">
+              <span>{t('invoices.tax_rate')}: <span className="font-bold">{toEnglishDigits(taxRate)}%</span></span>
+              <span>{t('invoices.tax_type')}: <span className="font-bold">{taxType === 'inclusive' ? t('invoices.tax_inclusive') : t('invoices.tax_exclusive')}</span></span>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2">
+              <Wrench className="h-5 w-5 text-blue-600" />
+              <h3 className="text-xl font-bold text-gray-900">{t('work_orders.services')}</h3>
+            </div>
+            <button
+              type="button"
+              onClick={() => setServices([...services, EMPTY_SERVICE])}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-all shadow-md"
+            >
+              <Plus className="h-4 w-4" />
+              {t('work_orders.add_service')}
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            {services.map((service, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-4 p-4 border-2 border-gray-100 rounded-xl">
+                {catalogItems.length > 0 && (
+                  <div className="md:col-span-12">
+                    <ServiceCatalogPicker items={catalogItems} onSelect={(item) => applyCatalogItem(index, item)} />
+                  </div>
+                )}
+                <div className="md:col-span-3">
+                  <label className="block text-xs font-semibold text-gray-600 mb-2">{t('services.service_type')}</label>
+                  <select
+                    value={service.service_type}
+                    onChange={(e) => updateService(index, { service_type: e.target.value })}
+                    required
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">{t('services.service_type')}</option>
+                    {[...new Set([...serviceTypes, service.service_type].filter(Boolean))].map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-6">
+                  <label className="block text-xs font-semibold text-gray-600 mb-2">{t('services.description')}</label>
+                  <input
+                    type="text"
+                    value={service.description}
+                    onChange={(e) => updateService(index, { description: e.target.value })}
+                    required
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-semibold text-gray-600 mb-2">{t('services.cost')}</label>
+                  <input
+                    type="text"
+                    value={service.labor_cost}
+                    onChange={(e) => updateService(index, { labor_cost: Number(normalizeNumberInput(e.target.value)) || 0 })}
+                    readOnly={!!service.catalog_item_id && !canOverridePrice}
+                    title={service.catalog_item_id && !canOverridePrice ? t('service_catalog.price_locked') : undefined}
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent read-only:bg-gray-50"
+                  />
+                </div>
+                <div className="md:col-span-1 flex items-end justify-center">
+                  <button
+                    type="button"
+                    onClick={() => setServices(services.filter((_, i) => i !== index))}
+                    className="p-2.5 text-red-600 hover:bg-red-50 rounded-lg transition-all border border-red-200"
+                    title={t('common.delete')}
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-md p-6 border border-gray-100">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2">
+              <Package className="h-5 w-5 text-blue-600" />
+              <h3 className="text-xl font-bold text-gray-900">{t('work_orders.spare_parts')}</h3>
+            </div>
+            <button
+              type="button"
+              onClick={() => setPartLines([...partLines, { spare_part_id: '', quantity: 1, unit_price: 0 }])}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-all shadow-md"
+            >
+              <Plus className="h-4 w-4" />
+              {t('quotations.add_spare_part')}
+            </button>
+          </div>
+
+          {partLines.length === 0 ? (
+            <p className="text-center text-gray-500 py-4">{t('quotations.no_spare_parts')}</p>
+          ) : (
+            <div className="space-y-4">
+              {partLines.map((line, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-4 p-4 border-2 border-gray-100 rounded-xl">
+                  <div className="md:col-span-5">
+                    <label className="block text-xs font-semibold text-gray-600 mb-2">{t('inventory.part_name')}</label>
+                    <select
+                      value={line.spare_part_id}
+                      onChange={(e) => selectSparePart(index, e.target.value)}
+                      required
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">{t('quotations.select_part')}</option>
+                      {spareParts.map(part => (
+                        <option key={part.id} value={part.id}>
+                          {part.name} - {part.part_number}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-semibold text-gray-600 mb-2">{t('invoices.quantity')}</label>
+                    <input
+                      type="text"
+                      value={line.quantity}
+                      onChange={(e) => updatePartLine(index, { quantity: Number(normalizeNumberInput(e.target.value)) || 0 })}
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-semibold text-gray-600 mb-2">{t('invoices.price')}</label>
+                    <input
+                      type="text"
+                      value={line.unit_price}
+                      onChange={(e) => updatePartLine(index, { unit_price: Number(normalizeNumberInput(e.target.value)) || 0 })}
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-semibold text-gray-600 mb-2">{t('common.total')}</label>
+                    <input
+                      type="text"
+                      value={formatToFixed(line.quantity * line.unit_price)}
+                      readOnly
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-gray-50 font-semibold text-gray-700"
+                    />
+                  </div>
+                  <div className="md:col-span-1 flex items-end justify-center">
+                    <button
+                      type="button"
+                      onClick={() => setPartLines(partLines.filter((_, i) => i !== index))}
+                      className="p-2.5 text-red-600 hover:bg-red-50 rounded-lg transition-all border border-red-200"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-6 border-t-2 border-gray-100 pt-6">
+            <div className="max-w-md mr-auto space-y-2">
+              <div className="flex justify-between items-center py-2 px-4 bg-gray-50 rounded-lg">
+                <span className="font-medium text-gray-700">{t('invoices.subtotal')}:</span>
+                <span className="font-bold text-gray-900">{formatToFixed(linesTotal)} {t('common.currency')}</span>
+              </div>
+              {discountAmount > 0 && (
+                <div className="flex justify-between items-center py-2 px-4 bg-red-50 rounded-lg">
+                  <span className="font-medium text-red-700">{t('invoices.discount')} ({toEnglishDigits(discountPercentage)}%):</span>
+                  <span className="font-bold text-red-700">- {formatToFixed(discountAmount)} {t('common.currency')}</span>
+                </div>
+              )}
+              {taxRate > 0 && (
+                <div className="flex justify-between items-center py-2 px-4 bg-blue-50 rounded-lg">
+                  <span className="font-medium text-blue-700">{t('invoices.tax')} ({toEnglishDigits(taxRate)}%):</span>
+                  <span className="font-bold text-blue-900">{formatToFixed(taxAmount)} {t('common.currency')}</span>
+                </div>
+              )}
+              <div className="flex justify-between items-center py-3 px-4 bg-gradient-to-r from-blue-600 to-blue-700 rounded-lg text-white">
+                <span className="font-bold">{t('invoices.grand_total')}:</span>
+                <span className="font-bold text-xl">{formatToFixed(total)} {t('common.currency')}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onBack}
+            className="px-6 py-3 border-2 border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-all font-semibold"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700 transition-all shadow-lg disabled:bg-gray-400"
+          >
+            <Save className="h-5 w-5" />
+            <span className="font-semibold">{saving ? t('common.loading') : t('common.save')}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
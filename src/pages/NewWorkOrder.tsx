@@ -1,23 +1,40 @@
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { customersService, vehiclesService, techniciansService, ServiceError } from '../services';
+import { customersService, vehiclesService, techniciansService, workOrdersService, serviceCatalogService, ServiceError } from '../services';
 import { supabase } from '../lib/supabase';
-import { Customer, Vehicle, Technician } from '../types';
+import { Customer, Vehicle, Technician, ServiceCatalogItem } from '../types';
 import { Plus, Trash2, ArrowRight, Save } from 'lucide-react';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
 import { displayNumber, normalizeNumberInput } from '../utils/numberUtils';
+import { VehicleCheckInForm, VehicleCheckInFormValue } from '../components/VehicleCheckInForm';
+import { ServiceCatalogPicker } from '../components/ServiceCatalogPicker';
+import { catalogItemName } from '../utils/serviceCatalog';
 
 interface Service {
+  /** Set for lines already saved on the order */
+  id?: string;
   service_type: string;
   description: string;
   labor_cost: number;
+  catalog_item_id: string | null;
+  billed_hours: number | null;
   technicians: Array<{
     technician_id: string;
     share_amount: number;
   }>;
 }
 
+const EMPTY_CHECK_IN: VehicleCheckInFormValue = {
+  odometer: '',
+  fuel_level: 50,
+  complaints: '',
+  valuables: '',
+  damage_marks: [],
+  photos: [],
+  new_photos: [],
+};
+
 interface NewWorkOrderProps {
   orderId?: string;
   onBack: () => void;
@@ -25,20 +42,24 @@ interface NewWorkOrderProps {
 }
 
 export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const toast = useToast();
-  const { user } = useAuth();
+  const { user, hasDetailedPermission } = useAuth();
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [catalogItems, setCatalogItems] = useState<ServiceCatalogItem[]>([]);
   const [selectedCustomerId, setSelectedCustomerId] = useState('');
   const [selectedVehicleId, setSelectedVehicleId] = useState('');
   const [services, setServices] = useState<Service[]>([{
     service_type: '',
     description: '',
     labor_cost: 0,
+    catalog_item_id: null,
+    billed_hours: null,
     technicians: [],
   }]);
+  const [checkIn, setCheckIn] = useState<VehicleCheckInFormValue>(EMPTY_CHECK_IN);
 
   const serviceTypes = [
     t('services.mechanics'),
@@ -52,6 +73,8 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
     t('services.other'),
   ];
 
+  const canOverridePrice = hasDetailedPermission('work_orders.override_price');
+
   useEffect(() => {
     loadData();
   }, []);
@@ -83,6 +106,12 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
     } catch (error) {
       console.error('Error loading data:', error);
     }
+
+    try {
+      setCatalogItems(await serviceCatalogService.getItems(true));
+    } catch (error) {
+      console.error('Error loading service catalog:', error);
+    }
   }
 
   async function loadVehicles(customerId: string) {
@@ -130,9 +159,12 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
           .eq('service_id', service.id);
 
         loadedServices.push({
+          id: service.id,
           service_type: service.service_type,
           description: service.description,
           labor_cost: service.labor_cost,
+          catalog_item_id: service.catalog_item_id,
+          billed_hours: service.billed_hours,
           technicians: (assignments || []).map(a => ({
             technician_id: a.technician_id,
             share_amount: a.share_amount,
@@ -143,6 +175,22 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
       if (loadedServices.length > 0) {
         setServices(loadedServices);
       }
+
+      const existingCheckIn = await workOrdersService.getCheckIn(orderId);
+      if (existingCheckIn) {
+        setCheckIn({
+          odometer: existingCheckIn.odometer !== null ? String(existingCheckIn.odometer) : '',
+          fuel_level: existingCheckIn.fuel_level ?? 50,
+          complaints: existingCheckIn.complaints || '',
+          valuables: existingCheckIn.valuables || '',
+          damage_marks: existingCheckIn.damage_marks,
+          photos: existingCheckIn.photos.map((path, index) => ({
+            path,
+            url: existingCheckIn.photo_urls[index] || '',
+          })),
+          new_photos: [],
+        });
+      }
     } catch (error) {
       console.error('Error loading work order:', error);
       toast.error(t('work_orders.error_update'));
@@ -154,6 +202,8 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
       service_type: '',
       description: '',
       labor_cost: 0,
+      catalog_item_id: null,
+      billed_hours: null,
       technicians: [],
     }]);
   }
@@ -178,6 +228,24 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
     setServices(updated);
   }
 
+  function applyCatalogItem(index: number, item: ServiceCatalogItem) {
+    const updated = [...services];
+    const techCount = updated[index].technicians.length;
+    updated[index] = {
+      ...updated[index],
+      service_type: t(`services.${item.category}`),
+      description: catalogItemName(item, i18n.language),
+      labor_cost: Number(item.default_price),
+      catalog_item_id: item.id,
+      billed_hours: Number(item.standard_hours),
+      technicians: updated[index].technicians.map(tech => ({
+        ...tech,
+        share_amount: Number(item.default_price) / techCount,
+      })),
+    };
+    setServices(updated);
+  }
+
   function redistributeShares(serviceIndex: number, updatedTechnicians: Array<{ technician_id: string; share_amount: number }>) {
     const service = services[serviceIndex];
     const techCount = updatedTechnicians.length;
@@ -224,6 +292,115 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
     setServices(updated);
   }
 
+  // The order is already saved when this runs, so a failure only warns
+  async function saveCheckIn(workOrderId: string) {
+    if (checkIn === EMPTY_CHECK_IN || !user) return;
+
+    try {
+      const uploaded = await Promise.all(
+        checkIn.new_photos.map((file) => workOrdersService.uploadPhoto(user.organization_id, workOrderId, file))
+      );
+
+      await workOrdersService.saveCheckIn(workOrderId, {
+        odometer: checkIn.odometer ? Number(checkIn.odometer) : null,
+        fuel_level: checkIn.fuel_level,
+        complaints: checkIn.complaints,
+        valuables: checkIn.valuables,
+        damage_marks: checkIn.damage_marks,
+        photos: [...checkIn.photos.map((photo) => photo.path), ...uploaded],
+      });
+    } catch (error) {
+      console.error('Error saving check-in:', error);
+      toast.warning(t('work_orders.check_in.save_error'));
+    }
+  }
+
+  // Brings a saved line's technicians in line with the form without
+  // touching the assignments that stay
+  async function saveAssignments(serviceId: string, assigned: Service['technicians']) {
+    const { data: existing, error } = await supabase
+      .from('technician_assignments')
+      .select('id, technician_id, share_amount')
+      .eq('service_id', serviceId);
+
+    if (error) throw error;
+
+    const removedIds = (existing || [])
+      .filter(a => !assigned.some(tech => tech.technician_id === a.technician_id))
+      .map(a => a.id);
+
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('technician_assignments')
+        .delete()
+        .in('id', removedIds);
+
+      if (deleteError) throw deleteError;
+    }
+
+    for (const tech of assigned) {
+      const current = (existing || []).find(a => a.technician_id === tech.technician_id);
+      if (current && Number(current.share_amount) === tech.share_amount) continue;
+
+      const { error: saveError } = current
+        ? await supabase
+          .from('technician_assignments')
+          .update({ share_amount: tech.share_amount })
+          .eq('id', current.id)
+        : await supabase
+          .from('technician_assignments')
+          .insert({ service_id: serviceId, technician_id: tech.technician_id, share_amount: tech.share_amount });
+
+      if (saveError) throw saveError;
+    }
+  }
+
+  // Parts the catalog items usually need, added once when the order is opened.
+  // Each line is inserted on its own so a part out of stock does not hold up the rest.
+  async function saveDefaultParts(workOrderId: string) {
+    const quantities = new Map<string, number>();
+    for (const service of services) {
+      const item = catalogItems.find((catalogItem) => catalogItem.id === service.catalog_item_id);
+      for (const part of item?.default_parts || []) {
+        quantities.set(part.spare_part_id, (quantities.get(part.spare_part_id) || 0) + part.quantity);
+      }
+    }
+    if (quantities.size === 0) return;
+
+    try {
+      const { data: spareParts, error } = await supabase
+        .from('spare_parts')
+        .select('id, unit_price')
+        .in('id', [...quantities.keys()]);
+
+      if (error) throw error;
+
+      let failed = false;
+      for (const sparePart of spareParts || []) {
+        const { error: insertError } = await supabase
+          .from('work_order_spare_parts')
+          .insert({
+            work_order_id: workOrderId,
+            spare_part_id: sparePart.id,
+            quantity: quantities.get(sparePart.id),
+            unit_price: Number(sparePart.unit_price),
+          });
+
+        if (insertError) {
+          console.error('Error adding default part:', insertError);
+          failed = true;
+        }
+      }
+
+      if (failed || (spareParts || []).length !== quantities.size) {
+        toast.warning(t('service_catalog.parts_error'));
+      }
+    } catch (error) {
+      console.error('Error adding default parts:', error);
+      toast.warning(t('service_catalog.parts_error'));
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
 
@@ -251,6 +428,27 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
       const totalLaborCost = services.reduce((sum, s) => sum + s.labor_cost, 0);
 
       if (orderId) {
+        // Lines are updated in place so the labor clocked on them is kept.
+        // Removed lines go first: the database refuses to drop one with clocked time.
+        const { data: existingServices, error: existingError } = await supabase
+          .from('work_order_services')
+          .select('id')
+          .eq('work_order_id', orderId);
+
+        if (existingError) throw existingError;
+
+        const keptIds = new Set(services.map(s => s.id));
+        const removedIds = (existingServices || []).map(s => s.id).filter(id => !keptIds.has(id));
+
+        if (removedIds.length > 0) {
+          const { error: deleteError } = await supabase
+            .from('work_order_services')
+            .delete()
+            .in('id', removedIds);
+
+          if (deleteError) throw deleteError;
+        }
+
         const { error: orderError } = await supabase
           .from('work_orders')
           .update({
@@ -262,66 +460,45 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
 
         if (orderError) throw orderError;
 
-        const { data: existingServices } = await supabase
-          .from('work_order_services')
-          .select('id')
-          .eq('work_order_id', orderId);
-
-        if (existingServices) {
-          for (const service of existingServices) {
-            await supabase
-              .from('technician_assignments')
-              .delete()
-              .eq('service_id', service.id);
-          }
-        }
-
-        await supabase
-          .from('work_order_services')
-          .delete()
-          .eq('work_order_id', orderId);
-
         for (const service of services) {
-          const { data: serviceData, error: serviceError } = await supabase
-            .from('work_order_services')
-            .insert([{
-              work_order_id: orderId,
-              service_type: service.service_type,
-              description: service.description,
-              labor_cost: service.labor_cost,
-            }])
-            .select()
-            .single();
-
-          if (serviceError) throw serviceError;
-
-          const assignments = service.technicians.map(t => ({
-            service_id: serviceData.id,
-            technician_id: t.technician_id,
-            share_amount: t.share_amount,
-          }));
-
-          const { error: assignmentError } = await supabase
-            .from('technician_assignments')
-            .insert(assignments);
-
-          if (assignmentError) throw assignmentError;
+          const fields = {
+            service_type: service.service_type,
+            description: service.description,
+            labor_cost: service.labor_cost,
+            catalog_item_id: service.catalog_item_id,
+            billed_hours: service.billed_hours,
+          };
+
+          if (service.id) {
+            const { error: serviceError } = await supabase
+              .from('work_order_services')
+              .update(fields)
+              .eq('id', service.id);
+
+            if (serviceError) throw serviceError;
+            await saveAssignments(service.id, service.technicians);
+          } else {
+            const { data: serviceData, error: serviceError } = await supabase
+              .from('work_order_services')
+              .insert([{ work_order_id: orderId, ...fields }])
+              .select()
+              .single();
+
+            if (serviceError) throw serviceError;
+            await saveAssignments(serviceData.id, service.technicians);
+          }
         }
 
+        await saveCheckIn(orderId);
         toast.success(t('work_orders.success_updated'));
       } else {
-        const { data: orderNumber, error: numberError } = await supabase
-          .rpc('generate_work_order_number');
-
-        if (numberError) throw numberError;
-
+        // order_number is assigned by the database from the organization's sequence
         const { data: workOrder, error: orderError } = await supabase
           .from('work_orders')
           .insert([{
             customer_id: selectedCustomerId,
             vehicle_id: selectedVehicleId,
-            order_number: orderNumber,
-            status: 'in_progress',
+            status: 'received',
             total_labor_cost: totalLaborCost,
             organization_id: user?.organization_id,
           }])
@@ -338,6 +515,8 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
               service_type: service.service_type,
               description: service.description,
               labor_cost: service.labor_cost,
+              catalog_item_id: service.catalog_item_id,
+              billed_hours: service.billed_hours,
             }])
             .select()
             .single();
@@ -357,13 +536,18 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
           if (assignmentError) throw assignmentError;
         }
 
+        await saveCheckIn(workOrder.id);
+        await saveDefaultParts(workOrder.id);
         toast.success(t('work_orders.success_created'));
       }
 
       onSuccess();
     } catch (error) {
       console.error('Error saving work order:', error);
-      toast.error(t('work_orders.error_create'));
+      // 23503: a removed line still has clocked labor referencing it
+      toast.error((error as { code?: string }).code === '23503'
+        ? t('labor.error_remove_clocked')
+        : t('work_orders.error_create'));
     }
   }
 
@@ -429,6 +613,8 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
           </div>
         </div>
 
+        <VehicleCheckInForm value={checkIn} onChange={setCheckIn} />
+
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <h3 className="text-xl font-bold text-gray-800">{t('work_orders.services')}</h3>
@@ -457,6 +643,8 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
                 )}
               </div>
 
+              <ServiceCatalogPicker items={catalogItems} onSelect={(item) => applyCatalogItem(index, item)} />
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">{t('services.service_type')}</label>
@@ -467,7 +655,7 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
                     required
                   >
                     <option value="">{t('work_orders.select_customer')}</option>
-                    {serviceTypes.map((type) => (
+                    {[...new Set([...serviceTypes, service.service_type].filter(Boolean))].map((type) => (
                       <option key={type} value={type}>{type}</option>
                     ))}
                   </select>
@@ -478,9 +666,13 @@ export function NewWorkOrder({ orderId, onBack, onSuccess }: NewWorkOrderProps)
                     type="text"
                     value={service.labor_cost}
                     onChange={(e) => updateService(index, 'labor_cost', parseFloat(normalizeNumberInput(e.target.value)) || 0)}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                    readOnly={!!service.catalog_item_id && !canOverridePrice}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg read-only:bg-gray-50"
                     required
                   />
+                  {service.catalog_item_id && !canOverridePrice && (
+                    <p className="text-xs text-gray-500 mt-1">{t('service_catalog.price_locked')}</p>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,372 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowRight, Printer, Send, XCircle, CheckCircle, FileText, Wrench } from 'lucide-react';
+import { quotationsService, settingsService, ServiceError } from '../services';
+import { Quotation } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+import { DocumentEmailPanel } from '../components/DocumentEmailPanel';
+import { formatToFixed, toEnglishDigits } from '../utils/numberUtils';
+
+interface QuotationDetailsProps {
+  quotationId: string;
+  onBack: () => void;
+  onViewWorkOrder: (orderId: string) => void;
+  onViewInvoice: (invoiceId: string) => void;
+}
+
+interface WorkshopSettings {
+  name: string;
+  phone: string;
+  address: string;
+  tax_number: string;
+  commercial_registration: string;
+}
+
+type QuotationAction = 'send' | 'reject' | 'accept' | 'invoice';
+
+const STATUS_STYLES: Record<Quotation['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  accepted: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  expired: 'bg-amber-100 text-amber-700',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export function QuotationDetails({ quotationId, onBack, onViewWorkOrder, onViewInvoice }: QuotationDetailsProps) {
+  const { t } = useTranslation();
+  const { hasDetailedPermission } = useAuth();
+  const toast = useToast();
+  const [quotation, setQuotation] = useState<Quotation | null>(null);
+  const [workshop, setWorkshop] = useState<WorkshopSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<QuotationAction | null>(null);
+  const [confirmAction, setConfirmAction] = useState<QuotationAction | null>(null);
+
+  useEffect(() => {
+    fetchQuotation();
+    fetchWorkshopSettings();
+  }, [quotationId]);
+
+  const fetchQuotation = async () => {
+    try {
+      setQuotation(await quotationsService.getQuotationById(quotationId));
+    } catch (error) {
+      console.error('Error fetching quotation:', error);
+      if (error instanceof ServiceError && error.status === 404) {
+        toast.error(t('quotations.not_found'));
+        onBack();
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWorkshopSettings = async () => {
+    try {
+      const data = await settingsService.getWorkshopSettings();
+      setWorkshop(data as WorkshopSettings | null);
+    } catch (error) {
+      console.error('Error fetching workshop settings:', error);
+    }
+  };
+
+  const runAction = async (action: QuotationAction) => {
+    setConfirmAction(null);
+    setPendingAction(action);
+    try {
+      switch (action) {
+        case 'send':
+          await quotationsService.sendQuotation(quotationId);
+          break;
+        case 'reject':
+          await quotationsService.rejectQuotation(quotationId);
+          break;
+        case 'accept':
+          await quotationsService.acceptQuotation(quotationId);
+          break;
+        case 'invoice':
+          await quotationsService.convertQuotationToInvoice(quotationId);
+          break;
+      }
+      toast.success(t(`quotations.success_${action}`));
+      await fetchQuotation();
+    } catch (error) {
+      console.error(`Error running quotation action ${action}:`, error);
+      toast.error(error instanceof ServiceError ? error.message : t('quotations.error_action'));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!quotation) {
+    return <div className="text-center py-8 text-gray-500">{t('quotations.not_found')}</div>;
+  }
+
+  const services = quotation.services || [];
+  const spareParts = quotation.spare_parts || [];
+  const isTaxed = Number(quotation.tax_rate) > 0;
+  const canUpdate = hasDetailedPermission('quotations.update');
+  const isOpen = quotation.status === 'draft' || quotation.status === 'sent';
+
+  const actionButton = (action: QuotationAction, label: string, Icon: typeof Send, color: string) => (
+    <button
+      onClick={() => setConfirmAction(action)}
+      disabled={pendingAction !== null}
+      className={`flex items-center gap-2 text-white px-5 py-3 rounded-xl transition-all shadow-lg disabled:bg-gray-400 ${color}`}
+    >
+      <Icon className="h-5 w-5" />
+      <span className="font-semibold">{pendingAction === action ? t('common.loading') : label}</span>
+    </button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 no-print">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <ArrowRight className="h-5 w-5" />
+            <span className="font-medium">{t('common.back')}</span>
+          </button>
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900">{t('quotations.quotation_details')}</h2>
+            <span className={`inline-block mt-1 px-3 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[quotation.status]}`}>
+              {t(`quotations.statuses.${quotation.status}`)}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {canUpdate && quotation.status === 'draft' &&
+            actionButton('send', t('quotations.mark_sent'), Send, 'bg-blue-600 hover:bg-blue-700')}
+          {canUpdate && isOpen && hasDetailedPermission('work_orders.create') &&
+            actionButton('accept', t('quotations.accept'), CheckCircle, 'bg-emerald-600 hover:bg-emerald-700')}
+          {canUpdate && isOpen &&
+            actionButton('reject', t('quotations.reject'), XCircle, 'bg-red-600 hover:bg-red-700')}
+          {canUpdate && quotation.status === 'accepted' && !quotation.invoice_id && hasDetailedPermission('invoices.create') &&
+            actionButton('invoice', t('quotations.convert_to_invoice'), FileText, 'bg-indigo-600 hover:bg-indigo-700')}
+          <button
+            onClick={() => window.print()}
+            className="flex items-center gap-2 bg-white border-2 border-gray-200 text-gray-700 px-5 py-3 rounded-xl hover:bg-gray-50 transition-all"
+          >
+            <Printer className="h-5 w-5" />
+            <span className="font-semibold">{t('common.print')}</span>
+          </button>
+        </div>
+      </div>
+
+      {(quotation.work_order || quotation.invoice) && (
+        <div className="flex flex-wrap gap-3 no-print">
+          {quotation.work_order && (
+            <button
+              onClick={() => onViewWorkOrder(quotation.work_order!.id)}
+              className="flex items-center gap-2 bg-blue-50 border border-blue-200 text-blue-800 px-4 py-2 rounded-xl hover:bg-blue-100 transition-colors"
+            >
+              <Wrench className="h-4 w-4" />
+              <span>{t('invoices.work_order_number')}: <span className="font-semibold">{quotation.work_order.order_number}</span></span>
+            </button>
+          )}
+          {quotation.invoice && (
+            <button
+              onClick={() => onViewInvoice(quotation.invoice!.id)}
+              className="flex items-center gap-2 bg-indigo-50 border border-indigo-200 text-indigo-800 px-4 py-2 rounded-xl hover:bg-indigo-100 transition-colors"
+            >
+              <FileText className="h-4 w-4" />
+              <span>{t('invoices.invoice_number')}: <span className="font-semibold">{quotation.invoice.invoice_number}</span></span>
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-lg border-2 border-gray-200 print:shadow-none print:border print:rounded-none" dir="rtl">
+        <div className="p-8 print:p-6">
+          <div className="border-b-4 border-blue-600 pb-6 mb-6 print:pb-4 print:mb-4">
+            <div className="flex justify-between items-start">
+              <div className="flex-1">
+                <h1 className="text-2xl font-bold text-gray-900 mb-2 print:text-xl">{workshop?.name || t('settings.workshop_name')}</h1>
+                {workshop?.address && <p className="text-sm text-gray-600 mb-1">{workshop.address}</p>}
+                {workshop?.phone && <p className="text-sm text-gray-600">{t('customers.phone')}: {workshop.phone}</p>}
+                {isTaxed && workshop?.tax_number && (
+                  <p className="text-sm font-semibold text-gray-900 mt-2">{t('settings.tax_number')}: {workshop.tax_number}</p>
+                )}
+                {workshop?.commercial_registration && (
+                  <p className="text-sm text-gray-600">{t('settings.commercial_registration')}: {workshop.commercial_registration}</p>
+                )}
+              </div>
+              <div className="text-left space-y-1 text-sm">
+                <p className="text-lg font-bold text-gray-900">{t('quotations.quotation')}</p>
+                <p className="text-2xl font-bold text-gray-900 print:text-xl">{quotation.quotation_number}</p>
+                <p className="text-gray-600">{t('quotations.issue_date')}: {formatDate(quotation.issue_date)}</p>
+                <p className="text-gray-600">{t('quotations.valid_until')}: <span className="font-semibold">{formatDate(quotation.valid_until)}</span></p>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-6 mb-6 print:gap-4 print:mb-4">
+            <div className="bg-gray-50 p-4 rounded-xl print:p-3 print:bg-white print:border print:border-gray-300">
+              <h3 className="text-sm font-bold text-gray-900 mb-3 print:mb-2">{t('invoices.customer_info')}</h3>
+              {quotation.customer && (
+                <div className="space-y-1.5 text-sm">
+                  <p className="font-bold text-gray-900">{quotation.customer.name}</p>
+                  <p className="text-gray-700">{t('customers.phone')}: <span className="font-medium">{quotation.customer.phone}</span></p>
+                  {quotation.customer.email && <p className="text-gray-700">{t('customers.email')}: <span className="font-medium">{quotation.customer.email}</span></p>}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-gray-50 p-4 rounded-xl print:p-3 print:bg-white print:border print:border-gray-300">
+              <h3 className="text-sm font-bold text-gray-900 mb-3 print:mb-2">{t('invoices.vehicle_info')}</h3>
+              {quotation.vehicle ? (
+                <div className="space-y-1.5 text-sm">
+                  <p className="font-bold text-gray-900">{quotation.vehicle.car_make} {quotation.vehicle.car_model}</p>
+                  <p className="text-gray-700">{t('vehicles.year')}: <span className="font-medium">{quotation.vehicle.car_year}</span></p>
+                  <p className="text-gray-700">{t('vehicles.plate_number')}: <span className="font-medium">{quotation.vehicle.plate_number}</span></p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">{t('customers.no_vehicles')}</p>
+              )}
+            </div>
+          </div>
+
+          {services.length > 0 && (
+            <div className="mb-6 print:mb-4">
+              <h3 className="text-lg font-bold text-gray-900 mb-3 print:mb-2 print:text-base">{t('work_orders.services')}</h3>
+              <div className="overflow-hidden border border-gray-200 rounded-xl">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-blue-600 text-white text-sm print:bg-white print:text-gray-900 print:border-b-2 print:border-gray-400">
+                      <th className="text-right py-3 px-4 font-bold print:py-2">{t('services.service_type')}</th>
+                      <th className="text-right py-3 px-4 font-bold print:py-2">{t('services.description')}</th>
+                      <th className="text-left py-3 px-4 font-bold print:py-2">{t('services.cost')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {services.map((service, index) => (
+                      <tr key={service.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} print:bg-white`}>
+                        <td className="py-3 px-4 text-gray-700 text-sm print:py-2">{service.service_type}</td>
+                        <td className="py-3 px-4 text-gray-900 font-medium text-sm print:py-2">{service.description}</td>
+                        <td className="text-left py-3 px-4 text-gray-900 font-semibold text-sm print:py-2">
+                          {formatToFixed(Number(service.labor_cost))} {t('common.sar')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {spareParts.length > 0 && (
+            <div className="mb-6 print:mb-4">
+              <h3 className="text-lg font-bold text-gray-900 mb-3 print:mb-2 print:text-base">{t('work_orders.spare_parts')}</h3>
+              <div className="overflow-hidden border border-gray-200 rounded-xl">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-green-600 text-white text-sm print:bg-white print:text-gray-900 print:border-b-2 print:border-gray-400">
+                      <th className="text-right py-3 px-4 font-bold print:py-2">{t('inventory.part_name')}</th>
+                      <th className="text-center py-3 px-4 font-bold print:py-2">{t('inventory.part_number')}</th>
+                      <th className="text-center py-3 px-4 font-bold print:py-2">{t('invoices.quantity')}</th>
+                      <th className="text-center py-3 px-4 font-bold print:py-2">{t('invoices.price')}</th>
+                      <th className="text-left py-3 px-4 font-bold print:py-2">{t('common.total')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {spareParts.map((part, index) => (
+                      <tr key={part.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} print:bg-white`}>
+                        <td className="py-3 px-4 text-gray-900 font-medium text-sm print:py-2">{part.spare_part?.name}</td>
+                        <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">
+                          <span className="px-2 py-1 bg-gray-100 rounded-lg text-xs font-mono print:bg-white print:border print:border-gray-400">
+                            {part.spare_part?.part_number}
+                          </span>
+                        </td>
+                        <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">{formatToFixed(Number(part.quantity))}</td>
+                        <td className="text-center py-3 px-4 text-gray-700 text-sm print:py-2">{formatToFixed(Number(part.unit_price))}</td>
+                        <td className="text-left py-3 px-4 text-gray-900 font-semibold text-sm print:py-2">
+                          {formatToFixed(Number(part.total))} {t('common.sar')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end mb-6 print:mb-4">
+            <div className="w-96 space-y-2 print:w-80">
+              <div className="flex justify-between items-center py-2 px-4 bg-gray-100 rounded-lg print:bg-white print:border print:border-gray-300">
+                <span className="text-sm font-semibold text-gray-700">{t('invoices.subtotal')}:</span>
+                <span className="font-bold text-gray-900">{formatToFixed(Number(quotation.subtotal))} {t('common.sar')}</span>
+              </div>
+              {Number(quotation.discount_amount) > 0 && (
+                <div className="flex justify-between items-center py-2 px-4 bg-red-50 rounded-lg print:bg-white print:border print:border-gray-300">
+                  <span className="text-sm font-semibold text-red-700 print:text-gray-700">
+                    {t('invoices.discount')} ({toEnglishDigits(Number(quotation.discount_percentage))}%):
+                  </span>
+                  <span className="font-bold text-red-700 print:text-gray-900">- {formatToFixed(Number(quotation.discount_amount))} {t('common.sar')}</span>
+                </div>
+              )}
+              {isTaxed && (
+                <div className="flex justify-between items-center py-2 px-4 bg-blue-50 rounded-lg print:bg-white print:border print:border-gray-300">
+                  <span className="text-sm font-semibold text-blue-700 print:text-gray-700">
+                    {t('invoices.tax')} ({toEnglishDigits(Number(quotation.tax_rate))}%{quotation.tax_type === 'inclusive' ? ` - ${t('invoices.tax_inclusive')}` : ''}):
+                  </span>
+                  <span className="font-bold text-blue-900 print:text-gray-900">{formatToFixed(Number(quotation.tax_amount))} {t('common.sar')}</span>
+                </div>
+              )}
+              <div className="flex justify-between items-center py-3 px-4 bg-gradient-to-r from-blue-600 to-blue-700 rounded-lg text-white print:bg-white print:text-gray-900 print:border-2 print:border-gray-900">
+                <span className="font-bold">{t('invoices.grand_total')}:</span>
+                <span className="font-bold text-xl print:text-lg">{formatToFixed(Number(quotation.total))} {t('common.sar')}</span>
+              </div>
+            </div>
+          </div>
+
+          {quotation.notes && (
+            <div className="border border-gray-300 rounded-xl p-4 mb-6 text-sm print:rounded-none print:p-3">
+              <span className="font-bold text-gray-900">{t('common.notes')}: </span>
+              <span className="text-gray-700">{quotation.notes}</span>
+            </div>
+          )}
+
+          <p className="text-center text-sm text-gray-500 border-t border-gray-200 pt-4">
+            {t('quotations.validity_note', { date: formatDate(quotation.valid_until) })}
+          </p>
+        </div>
+      </div>
+
+      <DocumentEmailPanel
+        documentId={quotation.id}
+        defaultRecipient={quotation.customer?.email}
+        canSend={canUpdate}
+        loadEmails={() => quotationsService.getQuotationEmails(quotation.id)}
+        sendEmail={(data) => quotationsService.emailQuotation(quotation.id, data)}
+        onSent={fetchQuotation}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmAction !== null}
+        title={t('quotations.confirm_action')}
+        message={confirmAction ? t(`quotations.confirm_${confirmAction}`) : ''}
+        onConfirm={() => confirmAction && runAction(confirmAction)}
+        onCancel={() => setConfirmAction(null)}
+        confirmText={t('common.confirm')}
+        cancelText={t('common.cancel')}
+        isDangerous={confirmAction === 'reject'}
+      />
+    </div>
+  );
+}
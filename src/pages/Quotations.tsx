@@ -0,0 +1,357 @@
+import { useEffect, useState } from 'react';
+import { Quotation } from '../types';
+import { Plus, Eye, Calendar, Car, User, DollarSign, Edit, Trash2, ShieldAlert, Clock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+import { Pagination } from '../components/Pagination';
+import { usePagination } from '../hooks/usePagination';
+import { useTranslation } from 'react-i18next';
+import { displayNumber } from '../utils/numberUtils';
+import { quotationsService, ServiceError } from '../services';
+
+interface QuotationsProps {
+  onNewQuotation: () => void;
+  onViewQuotation: (quotationId: string) => void;
+  onEditQuotation: (quotationId: string) => void;
+}
+
+const QUOTATION_STATUS_STYLES: Record<Quotation['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  accepted: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  expired: 'bg-amber-100 text-amber-700',
+};
+
+// Only drafts and sent quotations can still be edited
+const isEditable = (quotation: Quotation) => quotation.status === 'draft' || quotation.status === 'sent';
+
+export function Quotations({ onNewQuotation, onViewQuotation, onEditQuotation }: QuotationsProps) {
+  const { t } = useTranslation();
+  const { hasPermission, isAdmin, hasDetailedPermission } = useAuth();
+  const toast = useToast();
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<string>('all');
+  const pagination = usePagination(20);
+  const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; quotationId: string; quotationNumber: string }>({
+    isOpen: false,
+    quotationId: '',
+    quotationNumber: '',
+  });
+
+  useEffect(() => {
+    loadQuotations();
+  }, [pagination.state.currentPage]);
+
+  useEffect(() => {
+    pagination.reset();
+    loadQuotations();
+  }, [filter]);
+
+  async function loadQuotations() {
+    setLoading(true);
+    try {
+      const { from } = pagination.getRange();
+      const result = await quotationsService.getPaginatedQuotations({
+        limit: pagination.state.pageSize,
+        offset: from,
+        status: filter === 'all' ? undefined : filter,
+      });
+
+      setQuotations(result.data || []);
+      pagination.setTotalItems(result.total || 0);
+    } catch (error) {
+      console.error('Error loading quotations:', error);
+      setQuotations([]);
+      pagination.setTotalItems(0);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleDeleteConfirm = async () => {
+    try {
+      await quotationsService.deleteQuotation(deleteConfirm.quotationId);
+      toast.success(t('quotations.success_deleted'));
+      setDeleteConfirm({ isOpen: false, quotationId: '', quotationNumber: '' });
+      pagination.reset();
+      await loadQuotations();
+    } catch (error) {
+      console.error('Error deleting quotation:', error);
+      toast.error(error instanceof ServiceError ? error.message : t('quotations.error_delete'));
+    }
+  };
+
+  const getStatusBadge = (status: Quotation['status']) => (
+    <span className={`px-3 py-1 rounded-full text-xs font-medium ${QUOTATION_STATUS_STYLES[status]}`}>
+      {t(`quotations.statuses.${status}`)}
+    </span>
+  );
+
+  if (!isAdmin() && !hasPermission('quotations')) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <ShieldAlert className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">
+            {t('quotations.unauthorized')}
+          </h2>
+          <p className="text-gray-600">
+            {t('quotations.unauthorized_message')}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <div className="text-center py-8">{t('common.loading')}</div>;
+  }
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-800">{t('quotations.title')}</h2>
+        {hasDetailedPermission('quotations.create') && (
+          <button
+            onClick={onNewQuotation}
+            className="flex items-center justify-center space-x-2 space-x-reverse bg-blue-600 text-white px-4 py-3 sm:py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium min-h-[44px]"
+          >
+            <Plus className="h-5 w-5 sm:h-4 sm:w-4" />
+            <span>{t('quotations.new_quotation')}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg sm:rounded-xl shadow-md p-3">
+        <div className="flex space-x-2 space-x-reverse overflow-x-auto">
+          {['all', 'draft', 'sent', 'accepted', 'rejected', 'expired'].map((value) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-4 py-2.5 text-sm rounded-lg whitespace-nowrap transition-colors min-h-[44px] ${
+                filter === value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {value === 'all' ? t('common.all') : t(`quotations.statuses.${value}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Desktop Table Layout */}
+      <div className="hidden lg:block bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">{t('quotations.quotation_number')}</th>
+                <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">{t('work_orders.customer')}</th>
+                <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">{t('work_orders.vehicle')}</th>
+                <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">{t('quotations.issue_date')}</th>
+                <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">{t('quotations.valid_until')}</th>
+                <th className="text-center px-4 py-3 text-sm font-semibold text-gray-700">{t('common.status')}</th>
+                <th className="text-center px-4 py-3 text-sm font-semibold text-gray-700">{t('common.total')}</th>
+                <th className="text-center px-4 py-3 text-sm font-semibold text-gray-700">{t('common.actions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {quotations.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                    {t('quotations.no_quotations')}
+                  </td>
+                </tr>
+              ) : (
+                quotations.map((quotation) => (
+                  <tr key={quotation.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-3">
+                      <div className="font-semibold text-gray-900">{quotation.quotation_number}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      {quotation.customer ? (
+                        <div>
+                          <div className="font-medium text-gray-900">{quotation.customer.name}</div>
+                          <div className="text-sm text-gray-500">{quotation.customer.phone}</div>
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {quotation.vehicle ? (
+                        <div>
+                          <div className="text-gray-900">{quotation.vehicle.car_make} {quotation.vehicle.car_model}</div>
+                          <div className="text-sm text-gray-500">{quotation.vehicle.plate_number}</div>
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {new Date(quotation.issue_date).toLocaleDateString('en-US')}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {new Date(quotation.valid_until).toLocaleDateString('en-US')}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      {getStatusBadge(quotation.status)}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <span className="font-semibold text-green-600">
+                        {displayNumber(quotation.total)} {t('common.sar')}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2 justify-center">
+                        <button
+                          onClick={() => onViewQuotation(quotation.id)}
+                          className="inline-flex items-center gap-1.5 text-blue-600 hover:text-blue-800 hover:bg-blue-50 px-3 py-2 rounded-lg transition-all"
+                          title={t('common.view')}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </button>
+                        {hasDetailedPermission('quotations.update') && isEditable(quotation) && (
+                          <button
+                            onClick={() => onEditQuotation(quotation.id)}
+                            className="inline-flex items-center gap-1.5 text-green-600 hover:text-green-800 hover:bg-green-50 px-3 py-2 rounded-lg transition-all"
+                            title={t('common.edit')}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {hasDetailedPermission('quotations.delete') && quotation.status === 'draft' && (
+                          <button
+                            onClick={() => setDeleteConfirm({ isOpen: true, quotationId: quotation.id, quotationNumber: quotation.quotation_number })}
+                            className="inline-flex items-center gap-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 px-3 py-2 rounded-lg transition-all"
+                            title={t('common.delete')}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Mobile Card Layout */}
+      <div className="lg:hidden space-y-3">
+        {quotations.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg shadow-md">
+            <p className="text-gray-500">{t('quotations.no_quotations')}</p>
+          </div>
+        ) : (
+          quotations.map((quotation) => (
+            <div key={quotation.id} className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div className="bg-gradient-to-r from-blue-600 to-blue-700 p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center space-x-2 space-x-reverse mb-2">
+                      <span className="text-white font-bold text-lg">{quotation.quotation_number}</span>
+                      {getStatusBadge(quotation.status)}
+                    </div>
+                    <div className="flex items-center space-x-2 space-x-reverse text-sm text-white">
+                      <Calendar className="h-4 w-4" />
+                      <span>{new Date(quotation.issue_date).toLocaleDateString('en-US')}</span>
+                    </div>
+                    <div className="flex items-center space-x-2 space-x-reverse text-sm text-white mt-1">
+                      <Clock className="h-4 w-4" />
+                      <span>{t('quotations.valid_until')}: {new Date(quotation.valid_until).toLocaleDateString('en-US')}</span>
+                    </div>
+                  </div>
+                  <div className="text-white text-right">
+                    <div className="flex items-center space-x-1 space-x-reverse mb-1">
+                      <DollarSign className="h-4 w-4" />
+                      <span className="text-lg font-bold">{displayNumber(quotation.total)}</span>
+                    </div>
+                    <span className="text-xs opacity-90">{t('common.sar')}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="p-4 space-y-3">
+                {quotation.customer && (
+                  <div className="flex items-start space-x-2 space-x-reverse">
+                    <User className="h-5 w-5 text-gray-600 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">{quotation.customer.name}</p>
+                      <p className="text-sm text-gray-600">{quotation.customer.phone}</p>
+                    </div>
+                  </div>
+                )}
+
+                {quotation.vehicle && (
+                  <div className="flex items-start space-x-2 space-x-reverse">
+                    <Car className="h-5 w-5 text-gray-600 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">{quotation.vehicle.car_make} {quotation.vehicle.car_model}</p>
+                      <p className="text-sm text-gray-600">{quotation.vehicle.plate_number}</p>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex gap-2 pt-2">
+                  <button
+                    onClick={() => onViewQuotation(quotation.id)}
+                    className="flex-1 flex items-center justify-center space-x-2 space-x-reverse bg-blue-600 text-white py-2.5 rounded-lg hover:bg-blue-700 transition-colors min-h-[44px]"
+                  >
+                    <Eye className="h-5 w-5" />
+                    <span className="font-medium">{t('common.view')}</span>
+                  </button>
+                  {hasDetailedPermission('quotations.update') && isEditable(quotation) && (
+                    <button
+                      onClick={() => onEditQuotation(quotation.id)}
+                      className="flex items-center justify-center bg-green-600 text-white px-4 py-2.5 rounded-lg hover:bg-green-700 transition-colors min-h-[44px] min-w-[44px]"
+                    >
+                      <Edit className="h-5 w-5" />
+                    </button>
+                  )}
+                  {hasDetailedPermission('quotations.delete') && quotation.status === 'draft' && (
+                    <button
+                      onClick={() => setDeleteConfirm({ isOpen: true, quotationId: quotation.id, quotationNumber: quotation.quotation_number })}
+                      className="flex items-center justify-center bg-red-600 text-white px-4 py-2.5 rounded-lg hover:bg-red-700 transition-colors min-h-[44px] min-w-[44px]"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {quotations.length > 0 && (
+        <Pagination
+          currentPage={pagination.state.currentPage}
+          totalPages={pagination.state.totalPages}
+          totalItems={pagination.state.totalItems}
+          pageSize={pagination.state.pageSize}
+          onPageChange={pagination.goToPage}
+          onNextPage={pagination.nextPage}
+          onPrevPage={pagination.prevPage}
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={deleteConfirm.isOpen}
+        title={t('common.confirm_delete')}
+        message={t('quotations.confirm_delete_message', { quotationNumber: deleteConfirm.quotationNumber })}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteConfirm({ isOpen: false, quotationId: '', quotationNumber: '' })}
+        confirmText={t('common.delete')}
+        cancelText={t('common.cancel')}
+        isDangerous={true}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { reportsService, ServiceError } from '../services';
+import { reportsService, ServiceError, VatReport, ReconciliationReport, AgingReport, AgingBucket } from '../services';
 import { Technician } from '../types';
 import { displayNumber, toEnglishDigits } from '../utils/numberUtils';
 import {
@@ -20,14 +20,21 @@ import {
   AlertTriangle,
   CheckCircle2,
   Clock,
+  Hourglass,
+  ArrowRight,
 } from 'lucide-react';
 
+const AGING_BUCKETS: AgingBucket[] = ['0_30', '31_60', '61_90', '90_plus'];
+
 interface TechnicianReport {
   technician: Technician;
   totalRevenue: number;
   totalEarnings: number;
   jobsCompleted: number;
   averageJobValue: number;
+  actualHours: number;
+  billedHours: number;
+  efficiency: number | null;
   jobs: Array<{
     service_type: string;
     description: string;
@@ -38,6 +45,7 @@ interface TechnicianReport {
 
 interface OverviewStats {
   totalRevenue: number;
+  totalRefunds: number;
   totalWorkOrders: number;
   completedOrders: number;
   pendingOrders: number;
@@ -62,25 +70,41 @@ interface InventoryStats {
 
 export function Reports() {
   const { t } = useTranslation();
-  const [activeTab, setActiveTab] = useState<'overview' | 'financial' | 'inventory' | 'technicians'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'financial' | 'aging' | 'inventory' | 'technicians'>('overview');
   const [reports, setReports] = useState<TechnicianReport[]>([]);
   const [overviewStats, setOverviewStats] = useState<OverviewStats | null>(null);
   const [inventoryStats, setInventoryStats] = useState<InventoryStats | null>(null);
+  const [vatReport, setVatReport] = useState<VatReport | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedTechnicianId, setSelectedTechnicianId] = useState<string>('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [agingAsOf, setAgingAsOf] = useState(() => new Date().toISOString().split('T')[0]);
+  const [agingReport, setAgingReport] = useState<AgingReport | null>(null);
+  const [agingCustomer, setAgingCustomer] = useState<{ id: string; name: string | null } | null>(null);
+  const [agingDetail, setAgingDetail] = useState<AgingReport | null>(null);
 
   useEffect(() => {
     loadAllReports();
   }, [startDate, endDate]);
 
+  useEffect(() => {
+    loadAgingReport();
+  }, [agingAsOf]);
+
+  useEffect(() => {
+    loadAgingDetail();
+  }, [agingAsOf, agingCustomer]);
+
   async function loadAllReports() {
     setLoading(true);
     await Promise.all([
       loadOverviewStats(),
       loadInventoryStats(),
       loadTechnicianReports(),
+      loadVatReport(),
+      loadReconciliation(),
     ]);
     setLoading(false);
   }
@@ -112,6 +136,86 @@ export function Reports() {
     }
   }
 
+  async function loadVatReport() {
+    try {
+      setVatReport(await reportsService.getVatReport(startDate || undefined, endDate || undefined));
+    } catch (error) {
+      console.error('Error loading VAT report:', error);
+    }
+  }
+
+  async function loadReconciliation() {
+    try {
+      setReconciliation(await reportsService.getReconciliationReport(startDate || undefined, endDate || undefined));
+    } catch (error) {
+      console.error('Error loading reconciliation report:', error);
+    }
+  }
+
+  async function loadAgingReport() {
+    try {
+      setAgingReport(await reportsService.getAgingReport(agingAsOf || undefined));
+    } catch (error) {
+      console.error('Error loading aging report:', error);
+    }
+  }
+
+  async function loadAgingDetail() {
+    if (!agingCustomer) {
+      setAgingDetail(null);
+      return;
+    }
+    try {
+      setAgingDetail(await reportsService.getAgingReport(agingAsOf || undefined, agingCustomer.id));
+    } catch (error) {
+      console.error('Error loading customer aging:', error);
+    }
+  }
+
+  const handleExportAging = () => {
+    const escape = (value: string | number | null) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const bucketHeaders = AGING_BUCKETS.map(bucket => t(`reports.aging_buckets.${bucket}`));
+
+    const rows = agingCustomer && agingDetail
+      ? [
+        [t('invoices.invoice_number'), t('common.date'), t('reports.due_date'), t('customers.payment_terms'), t('common.total'), t('invoices.amount_paid'), t('reports.balance'), t('reports.days_overdue')],
+        ...agingDetail.invoices.map(invoice => [
+          invoice.invoiceNumber,
+          invoice.invoiceDate.split('T')[0],
+          invoice.dueDate.split('T')[0],
+          invoice.paymentTerms ? t(`customers.payment_terms_options.${invoice.paymentTerms}`) : '',
+          invoice.total,
+          invoice.paidAmount,
+          invoice.balance,
+          invoice.daysOverdue,
+        ]),
+      ]
+      : [
+        [t('customers.name'), t('customers.phone'), t('customers.payment_terms'), ...bucketHeaders, t('common.total')],
+        ...(agingReport?.customers || []).map(customer => [
+          customer.name,
+          customer.phone,
+          customer.paymentTerms ? t(`customers.payment_terms_options.${customer.paymentTerms}`) : '',
+          ...AGING_BUCKETS.map(bucket => customer[bucket].toFixed(2)),
+          customer.total.toFixed(2),
+        ]),
+      ];
+
+    // BOM so spreadsheet apps detect UTF-8 (Arabic names)
+    const csv = '\uFEFF' + rows.map(row => row.map(escape).join(',')).join('\r\n');
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = agingCustomer
+      ? `aging-${agingCustomer.name || agingCustomer.id}-${agingAsOf}.csv`
+      : `aging-${agingAsOf}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handlePrint = () => {
     window.print();
   };
@@ -121,6 +225,9 @@ export function Reports() {
       overview: overviewStats,
       inventory: inventoryStats,
       technicians: reports,
+      vat: vatReport,
+      reconciliation,
+      aging: agingReport,
       generatedAt: new Date().toISOString(),
     };
 
@@ -224,6 +331,17 @@ export function Reports() {
             <DollarSign className="h-5 w-5 inline ml-2" />
             {t('reports.financial_reports')}
           </button>
+          <button
+            onClick={() => setActiveTab('aging')}
+            className={`flex-1 px-6 py-4 font-medium transition-colors ${
+              activeTab === 'aging'
+                ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            <Hourglass className="h-5 w-5 inline ml-2" />
+            {t('reports.aging')}
+          </button>
           <button
             onClick={() => setActiveTab('inventory')}
             className={`flex-1 px-6 py-4 font-medium transition-colors ${
@@ -259,6 +377,11 @@ export function Reports() {
             <p className="text-blue-100 mt-2">
               {startDate || endDate ? t('dashboard.for_selected_period') : t('dashboard.all_time')}
             </p>
+            {overviewStats.totalRefunds > 0 && (
+              <p className="text-blue-100 mt-1">
+                {t('reports.refunds_paid')}: {displayNumber(overviewStats.totalRefunds)} {t('dashboard.sar')}
+              </p>
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -444,6 +567,143 @@ export function Reports() {
             </div>
           </div>
 
+          {vatReport && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-6">{t('reports.vat_summary')}</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-600 text-sm">
+                      <th className="text-right py-3 px-4">{t('reports.vat_document')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.vat_count')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.vat_taxable_amount')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.vat_amount')}</th>
+                      <th className="text-right py-3 px-4">{t('common.total')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {([
+                      [t('reports.vat_invoices'), vatReport.invoices, 'text-gray-800'],
+                      [t('reports.vat_credit_notes'), vatReport.creditNotes, 'text-red-600'],
+                      [t('reports.vat_debit_notes'), vatReport.debitNotes, 'text-blue-600'],
+                    ] as const).map(([label, row, color]) => (
+                      <tr key={label} className={`border-b border-gray-100 ${color}`}>
+                        <td className="py-3 px-4 font-medium">{label}</td>
+                        <td className="py-3 px-4">{row.count}</td>
+                        <td className="py-3 px-4">{displayNumber(row.taxableAmount)} {t('dashboard.sar')}</td>
+                        <td className="py-3 px-4">{displayNumber(row.vatAmount)} {t('dashboard.sar')}</td>
+                        <td className="py-3 px-4">{displayNumber(row.total)} {t('dashboard.sar')}</td>
+                      </tr>
+                    ))}
+                    <tr className="font-bold text-green-700">
+                      <td className="py-3 px-4">{t('reports.vat_net')}</td>
+                      <td className="py-3 px-4"></td>
+                      <td className="py-3 px-4">{displayNumber(vatReport.net.taxableAmount)} {t('dashboard.sar')}</td>
+                      <td className="py-3 px-4">{displayNumber(vatReport.net.vatAmount)} {t('dashboard.sar')}</td>
+                      <td className="py-3 px-4">{displayNumber(vatReport.net.total)} {t('dashboard.sar')}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {(vatReport.categories || []).length > 0 && (
+                <div className="overflow-x-auto mt-6">
+                  <h4 className="text-lg font-semibold text-gray-800 mb-3">{t('reports.vat_by_category')}</h4>
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-gray-600 text-sm">
+                        <th className="text-right py-3 px-4">{t('invoices.vat_category')}</th>
+                        <th className="text-right py-3 px-4">{t('reports.vat_taxable_amount')}</th>
+                        <th className="text-right py-3 px-4">{t('reports.vat_amount')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {vatReport.categories.map(row => (
+                        <tr key={row.category} className="border-b border-gray-100 text-gray-800">
+                          <td className="py-3 px-4 font-medium">{t(`invoices.vat_categories.${row.category}`)}</td>
+                          <td className="py-3 px-4">{displayNumber(row.taxableAmount)} {t('dashboard.sar')}</td>
+                          <td className="py-3 px-4">{displayNumber(row.vatAmount)} {t('dashboard.sar')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {reconciliation && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-2">{t('reports.reconciliation')}</h3>
+              <p className="text-sm text-gray-500 mb-6">{t('reports.reconciliation_desc')}</p>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-600 text-sm">
+                      <th className="text-right py-3 px-4">{t('reports.cashier')}</th>
+                      <th className="text-right py-3 px-4">{t('common.payment_methods.cash')}</th>
+                      <th className="text-right py-3 px-4">{t('common.payment_methods.card')}</th>
+                      <th className="text-right py-3 px-4">{t('common.payment_methods.bank_transfer')}</th>
+                      <th className="text-right py-3 px-4">{t('common.payment_methods.other')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.payments_count')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.deposits_taken')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.refunds')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.net_total')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      ...reconciliation.cashiers.map(cashier => ({
+                        key: cashier.userId || 'unassigned',
+                        label: cashier.name || t('reports.unassigned_cashier'),
+                        row: cashier,
+                        className: 'border-b border-gray-100 text-gray-800'
+                      })),
+                      { key: 'total', label: t('common.total'), row: reconciliation.totals, className: 'font-bold text-green-700' }
+                    ].map(({ key, label, row, className }) => (
+                      <tr key={key} className={className}>
+                        <td className="py-3 px-4 font-medium">{label}</td>
+                        <td className="py-3 px-4">{displayNumber(row.cash) || 0} {t('dashboard.sar')}</td>
+                        <td className="py-3 px-4">
+                          {displayNumber(row.card) || 0} {t('dashboard.sar')}
+                          {row.card > 0 && (
+                            <span className="block text-xs font-normal text-gray-500">
+                              {t('common.card_types.mada')} {displayNumber(row.mada) || 0} · {t('common.card_types.visa')} {displayNumber(row.visa) || 0}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">{displayNumber(row.bankTransfer) || 0} {t('dashboard.sar')}</td>
+                        <td className="py-3 px-4">{displayNumber(row.other) || 0} {t('dashboard.sar')}</td>
+                        <td className="py-3 px-4">{row.count}</td>
+                        <td className="py-3 px-4">
+                          {row.deposits > 0 ? `${displayNumber(row.deposits)} ${t('dashboard.sar')}` : '-'}
+                          {row.depositCount > 0 && (
+                            <span className="block text-xs font-normal text-gray-500">{row.depositCount}</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-red-600">
+                          {row.refunds > 0 ? `-${displayNumber(row.refunds)} ${t('dashboard.sar')}` : '-'}
+                          {row.refundCount > 0 && (
+                            <span className="block text-xs font-normal text-gray-500">{row.refundCount}</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">{displayNumber(row.total) || 0} {t('dashboard.sar')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {reconciliation.appliedDeposits.count > 0 && (
+                <p className="text-sm text-gray-500 mt-4">
+                  {t('reports.applied_deposits_note', {
+                    amount: displayNumber(reconciliation.appliedDeposits.amount),
+                    count: reconciliation.appliedDeposits.count
+                  })}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="bg-white rounded-xl shadow-md p-6">
             <h3 className="text-xl font-bold text-gray-800 mb-6">{t('reports.financial_performance_summary')}</h3>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -488,6 +748,153 @@ export function Reports() {
         </div>
       )}
 
+      {activeTab === 'aging' && (
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+              <div>
+                <h3 className="text-xl font-bold text-gray-800 mb-2">{t('reports.aging')}</h3>
+                <p className="text-sm text-gray-500">{t('reports.aging_desc')}</p>
+              </div>
+              <div className="flex items-end gap-3 print:hidden">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('reports.as_of')}</label>
+                  <input
+                    type="date"
+                    value={agingAsOf}
+                    onChange={(e) => setAgingAsOf(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <button
+                  onClick={handleExportAging}
+                  disabled={!agingReport}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400"
+                >
+                  <Download className="h-5 w-5" />
+                  {t('reports.export_csv')}
+                </button>
+              </div>
+            </div>
+
+            {agingReport && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {AGING_BUCKETS.map(bucket => (
+                  <div key={bucket} className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-sm text-gray-600 mb-1">{t(`reports.aging_buckets.${bucket}`)}</p>
+                    <p className={`text-xl font-bold ${bucket === '0_30' ? 'text-gray-800' : bucket === '90_plus' ? 'text-red-700' : 'text-orange-600'}`}>
+                      {displayNumber(agingReport.totals[bucket]) || 0} {t('dashboard.sar')}
+                    </p>
+                  </div>
+                ))}
+                <div className="p-4 bg-blue-50 rounded-lg">
+                  <p className="text-sm text-gray-600 mb-1">{t('reports.total_receivables')}</p>
+                  <p className="text-xl font-bold text-blue-700">{displayNumber(agingReport.totals.total) || 0} {t('dashboard.sar')}</p>
+                  <p className="text-xs text-gray-500">{agingReport.totals.count} {t('nav.invoices')}</p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {agingCustomer ? (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <div className="flex items-center gap-3 mb-6">
+                <button
+                  onClick={() => setAgingCustomer(null)}
+                  className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 print:hidden"
+                  title={t('common.back')}
+                >
+                  <ArrowRight className="h-5 w-5" />
+                </button>
+                <h3 className="text-xl font-bold text-gray-800">{agingCustomer.name || t('reports.unknown_customer')}</h3>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-600 text-sm">
+                      <th className="text-right py-3 px-4">{t('invoices.invoice_number')}</th>
+                      <th className="text-right py-3 px-4">{t('common.date')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.due_date')}</th>
+                      <th className="text-right py-3 px-4">{t('common.total')}</th>
+                      <th className="text-right py-3 px-4">{t('invoices.amount_paid')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.balance')}</th>
+                      <th className="text-right py-3 px-4">{t('reports.days_overdue')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(agingDetail?.invoices || []).map(invoice => (
+                      <tr key={invoice.invoiceId} className="border-b border-gray-100 text-gray-800">
+                        <td className="py-3 px-4 font-medium">{invoice.invoiceNumber}</td>
+                        <td className="py-3 px-4">{new Date(invoice.invoiceDate).toLocaleDateString('en-GB')}</td>
+                        <td className="py-3 px-4">{new Date(invoice.dueDate).toLocaleDateString('en-GB')}</td>
+                        <td className="py-3 px-4">{displayNumber(invoice.total)} {t('dashboard.sar')}</td>
+                        <td className="py-3 px-4">{displayNumber(invoice.paidAmount) || 0} {t('dashboard.sar')}</td>
+                        <td className="py-3 px-4 font-semibold">{displayNumber(invoice.balance)} {t('dashboard.sar')}</td>
+                        <td className={`py-3 px-4 ${invoice.daysOverdue > 0 ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                          {invoice.daysOverdue > 0 ? invoice.daysOverdue : t('reports.not_due')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : agingReport && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              {agingReport.customers.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">{t('reports.no_receivables')}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-gray-600 text-sm">
+                        <th className="text-right py-3 px-4">{t('customers.name')}</th>
+                        <th className="text-right py-3 px-4">{t('customers.payment_terms')}</th>
+                        {AGING_BUCKETS.map(bucket => (
+                          <th key={bucket} className="text-right py-3 px-4">{t(`reports.aging_buckets.${bucket}`)}</th>
+                        ))}
+                        <th className="text-right py-3 px-4">{t('common.total')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {agingReport.customers.map(customer => (
+                        <tr
+                          key={customer.customerId || 'unknown'}
+                          onClick={() => customer.customerId && setAgingCustomer({ id: customer.customerId, name: customer.name })}
+                          className="border-b border-gray-100 text-gray-800 hover:bg-gray-50 cursor-pointer"
+                        >
+                          <td className="py-3 px-4 font-medium">
+                            {customer.name || t('reports.unknown_customer')}
+                            {customer.phone && <span className="block text-xs font-normal text-gray-500">{customer.phone}</span>}
+                          </td>
+                          <td className="py-3 px-4 text-sm">
+                            {customer.paymentTerms ? t(`customers.payment_terms_options.${customer.paymentTerms}`) : '-'}
+                          </td>
+                          {AGING_BUCKETS.map(bucket => (
+                            <td key={bucket} className={`py-3 px-4 ${customer[bucket] > 0 && bucket !== '0_30' ? 'text-red-600' : ''}`}>
+                              {customer[bucket] > 0 ? `${displayNumber(customer[bucket])} ${t('dashboard.sar')}` : '-'}
+                            </td>
+                          ))}
+                          <td className="py-3 px-4 font-semibold">{displayNumber(customer.total)} {t('dashboard.sar')}</td>
+                        </tr>
+                      ))}
+                      <tr className="font-bold text-green-700">
+                        <td className="py-3 px-4">{t('common.total')}</td>
+                        <td className="py-3 px-4"></td>
+                        {AGING_BUCKETS.map(bucket => (
+                          <td key={bucket} className="py-3 px-4">{displayNumber(agingReport.totals[bucket]) || 0} {t('dashboard.sar')}</td>
+                        ))}
+                        <td className="py-3 px-4">{displayNumber(agingReport.totals.total) || 0} {t('dashboard.sar')}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {activeTab === 'inventory' && inventoryStats && (
         <div className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -616,6 +1023,16 @@ export function Reports() {
                         </span>
                       </div>
 
+                      <div className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
+                        <div className="flex items-center space-x-2 space-x-reverse">
+                          <Clock className="h-5 w-5 text-purple-600" />
+                          <span className="text-sm text-gray-700">{t('labor.efficiency')}</span>
+                        </div>
+                        <span className="font-bold text-purple-700">
+                          {report.efficiency === null ? '—' : `${displayNumber(report.efficiency)}%`}
+                        </span>
+                      </div>
+
                       <div className="pt-3 border-t border-gray-200">
                         <div className="text-sm text-gray-600 mb-1">{t('reports.dues')}</div>
                         <div className="text-xl font-bold text-gray-800">
@@ -680,6 +1097,27 @@ export function Reports() {
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <div className="bg-purple-50 rounded-lg p-4">
+                      <p className="text-sm text-gray-600 mb-1">{t('labor.actual_hours')}</p>
+                      <p className="text-2xl font-bold text-purple-700">
+                        {t('labor.hours', { hours: displayNumber(selectedReport.actualHours) })}
+                      </p>
+                    </div>
+                    <div className="bg-purple-50 rounded-lg p-4">
+                      <p className="text-sm text-gray-600 mb-1">{t('labor.billed_hours')}</p>
+                      <p className="text-2xl font-bold text-purple-700">
+                        {t('labor.hours', { hours: displayNumber(selectedReport.billedHours) })}
+                      </p>
+                    </div>
+                    <div className="bg-purple-50 rounded-lg p-4">
+                      <p className="text-sm text-gray-600 mb-1">{t('labor.efficiency')}</p>
+                      <p className="text-2xl font-bold text-purple-700">
+                        {selectedReport.efficiency === null ? '—' : `${displayNumber(selectedReport.efficiency)}%`}
+                      </p>
+                    </div>
+                  </div>
+
                   <h4 className="text-xl font-bold text-gray-800 mb-4">{t('reports.completed_jobs_list')}</h4>
                   <div className="space-y-3">
                     {selectedReport.jobs.length > 0 ? (
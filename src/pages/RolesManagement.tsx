@@ -193,6 +193,8 @@ export default function RolesManagement() {
       dashboard: 'لوحة التحكم',
       customers: 'العملاء',
       vehicles: 'المركبات',
+      quotations: 'عروض الأسعار',
+      appointments: 'المواعيد',
       work_orders: 'أوامر العمل',
       invoices: 'الفواتير',
       inventory: 'المخزون',
@@ -583,6 +583,8 @@ export function Users() {
                                 {resource === 'dashboard' ? 'لوحة التحكم' :
                                  resource === 'customers' ? 'العملاء' :
                                  resource === 'vehicles' ? 'المركبات' :
+                                 resource === 'quotations' ? 'عروض الأسعار' :
+                                 resource === 'appointments' ? 'المواعيد' :
                                  resource === 'work_orders' ? 'أوامر العمل' :
                                  resource === 'invoices' ? 'الفواتير' :
                                  resource === 'inventory' ? 'المخزون' :
@@ -1,13 +1,25 @@
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { settingsService, workOrdersService, ServiceError } from '../services';
+import { settingsService, workOrdersService, invoicesService, ServiceError } from '../services';
 import { supabase } from '../lib/supabase';
-import { WorkOrder, WorkOrderService, TechnicianAssignment } from '../types';
+import { WorkOrder, WorkOrderService, WorkOrderStatus, TechnicianAssignment } from '../types';
 import { ArrowRight, User, Car, Calendar, DollarSign, FileText, Printer, Receipt } from 'lucide-react';
 import { WorkOrderSpareParts } from '../components/WorkOrderSpareParts';
+import { WorkOrderDeposits } from '../components/WorkOrderDeposits';
+import { WorkOrderTimeline } from '../components/WorkOrderTimeline';
+import { VehicleCheckInCard } from '../components/VehicleCheckInCard';
+import { WorkOrderInspections } from '../components/WorkOrderInspections';
+import { WorkOrderBay } from '../components/WorkOrderBay';
+import { WorkOrderLabor } from '../components/WorkOrderLabor';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
 import { displayNumber } from '../utils/numberUtils';
+import {
+  WORK_ORDER_STATUS_STYLES,
+  WORK_ORDER_TRANSITIONS,
+  WORK_ORDER_TRANSITION_PERMISSIONS,
+  isWorkOrderFinished,
+} from '../utils/workOrderStatus';
 
 interface WorkOrderDetailsProps {
   orderId: string;
@@ -35,12 +47,16 @@ interface WorkshopSettings {
 export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDetailsProps) {
   const { t } = useTranslation();
   const toast = useToast();
-  const { user } = useAuth();
+  const { user, hasDetailedPermission } = useAuth();
   const [order, setOrder] = useState<WorkOrder | null>(null);
   const [services, setServices] = useState<ServiceWithAssignments[]>([]);
   const [workshopSettings, setWorkshopSettings] = useState<WorkshopSettings | null>(null);
   const [invoice, setInvoice] = useState<{ id: string; invoice_number: string } | null>(null);
   const [loading, setLoading] = useState(true);
+  const [timelineVersion, setTimelineVersion] = useState(0);
+  const [statusSaving, setStatusSaving] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [cancellationReason, setCancellationReason] = useState('');
 
   useEffect(() => {
     loadOrderDetails();
@@ -55,7 +71,8 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
         .select(`
           *,
           customer:customers(*),
-          vehicle:vehicles(*)
+          vehicle:vehicles(*),
+          bay:workshop_bays(id, name, kind)
         `)
         .eq('id', orderId)
         .single();
@@ -88,6 +105,7 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
       );
 
       setServices(servicesWithAssignments);
+      setTimelineVersion((version) => version + 1);
     } catch (error) {
       console.error('Error loading order details:', error);
     } finally {
@@ -108,39 +126,47 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
 
   async function loadInvoice() {
     try {
+      // Also finds consolidated invoices, which bill several work orders
       const { data, error } = await supabase
-        .from('invoices')
-        .select('id, invoice_number')
+        .from('invoice_work_orders')
+        .select('invoice:invoices(id, invoice_number)')
         .eq('work_order_id', orderId)
         .maybeSingle();
 
       if (error) throw error;
-      setInvoice(data);
+      setInvoice((data?.invoice as unknown as { id: string; invoice_number: string } | null) || null);
     } catch (error) {
       console.error('Error loading invoice:', error);
     }
   }
 
-  async function updateStatus(newStatus: string) {
-    try {
-      const { error } = await supabase
-        .from('work_orders')
-        .update({
-          status: newStatus,
-          completed_at: newStatus === 'completed' ? new Date().toISOString() : null
-        })
-        .eq('id', orderId);
+  async function updateStatus(newStatus: WorkOrderStatus) {
+    if (newStatus === 'cancelled' && !cancellationReason.trim()) {
+      toast.warning(t('work_orders.cancellation_reason_required'));
+      return;
+    }
 
-      if (error) throw error;
+    setStatusSaving(true);
+    try {
+      await workOrdersService.updateStatus(
+        orderId,
+        newStatus,
+        newStatus === 'cancelled' ? cancellationReason.trim() : undefined
+      );
 
-      if (newStatus === 'completed') {
+      // The server sends the "ready for pickup" message itself
+      if (newStatus === 'ready_for_pickup') {
         await createInvoiceForWorkOrder();
       }
 
+      setCancelling(false);
+      setCancellationReason('');
       loadOrderDetails();
     } catch (error) {
       console.error('Error updating status:', error);
-      toast.error(t('common.error.update'));
+      toast.error(error instanceof ServiceError ? error.message : t('common.error.update'));
+    } finally {
+      setStatusSaving(false);
     }
   }
 
@@ -172,11 +198,6 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
 
       const partsTotal = (workOrderParts || []).reduce((sum, part) => sum + Number(part.total), 0);
 
-      const { data: invoiceNumber } = await supabase
-        .rpc('generate_invoice_number');
-
-      if (!invoiceNumber) throw new Error('Failed to generate invoice number');
-
       const baseAmount = Number(order.total_labor_cost) + partsTotal;
 
       const taxEnabled = workshopSettings?.tax_enabled ?? false;
@@ -201,28 +222,20 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
         total = baseAmount;
       }
 
-      const { data: invoice, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert({
-          invoice_number: invoiceNumber,
-          work_order_id: orderId,
-          customer_id: order.customer_id,
-          vehicle_id: order.vehicle_id,
-          organization_id: order.organization_id,
-          subtotal: subtotal,
-          tax_rate: taxEnabled ? taxRate : 0,
-          tax_amount: taxAmount,
-          tax_type: taxType,
-          total: total,
-          paid_amount: 0,
-          payment_status: 'unpaid',
-          payment_method: 'cash',
-          notes: `${t('work_orders.auto_invoice_for')} ${order.order_number}`
-        })
-        .select()
-        .single();
-
-      if (invoiceError) throw invoiceError;
+      const invoiceData = {
+        work_order_id: orderId,
+        customer_id: order.customer_id,
+        vehicle_id: order.vehicle_id,
+        subtotal: subtotal,
+        tax_rate: taxEnabled ? taxRate : 0,
+        tax_amount: taxAmount,
+        tax_type: taxType as 'inclusive' | 'exclusive',
+        total: total,
+        paid_amount: 0,
+        payment_status: 'unpaid' as const,
+        payment_method: 'cash' as const,
+        notes: `${t('work_orders.auto_invoice_for')} ${order.order_number}`
+      };
 
       // Re-fetch services to ensure we have the latest data
       const { data: servicesData, error: servicesError } = await supabase
@@ -233,7 +246,6 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
       if (servicesError) throw servicesError;
 
       const serviceItems = (servicesData || []).map(service => ({
-        invoice_id: invoice.id,
         item_type: 'service',
         service_type: service.service_type,
         description: service.description,
@@ -243,7 +255,6 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
       }));
 
       const partItems = (workOrderParts || []).map((part: any) => ({
-        invoice_id: invoice.id,
         item_type: 'part',
         description: part.spare_part?.name || t('work_orders.spare_part'),
         quantity: Number(part.quantity),
@@ -254,20 +265,10 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
 
       const allItems = [...serviceItems, ...partItems];
 
-      if (allItems.length > 0) {
-        const { error: itemsError } = await supabase
-          .from('invoice_items')
-          .insert(allItems);
+      // Created through the API so the invoice is numbered and e-invoiced server-side
+      const invoice = await invoicesService.createInvoice({ ...invoiceData, items: allItems });
 
-        if (itemsError) {
-          console.error('Error inserting invoice items:', itemsError);
-          throw itemsError;
-        }
-      } else {
-        console.warn('No items to insert into invoice');
-      }
-
-      toast.success(`${t('work_orders.invoice_created')} ${invoiceNumber}`);
+      toast.success(`${t('work_orders.invoice_created')} ${invoice.invoice_number}`);
       loadInvoice();
     } catch (error) {
       console.error('Error creating invoice:', error);
@@ -283,14 +284,14 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
     return <div className="text-center py-8">{t('work_orders.not_found')}</div>;
   }
 
-  const getStatusBadge = (status: string) => {
-    const styles = {
-      in_progress: 'bg-blue-100 text-blue-700',
-      completed: 'bg-green-100 text-green-700',
-      cancelled: 'bg-red-100 text-red-700',
-    };
+  const nextStatuses = WORK_ORDER_TRANSITIONS[order.status] || [];
+
+  const canMoveTo = (status: WorkOrderStatus) =>
+    hasDetailedPermission(WORK_ORDER_TRANSITION_PERMISSIONS[status] || 'work_orders.update');
+
+  const getStatusBadge = (status: WorkOrderStatus) => {
     return (
-      <span className={`px-4 py-2 rounded-full text-sm font-medium ${styles[status as keyof typeof styles]}`}>
+      <span className={`px-4 py-2 rounded-full text-sm font-medium ${WORK_ORDER_STATUS_STYLES[status]}`}>
         {t(`status.${status}`)}
       </span>
     );
@@ -772,11 +773,35 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
             </div>
           </div>
 
+          <WorkOrderLabor
+            workOrderId={orderId}
+            canEdit={hasDetailedPermission('work_orders.update')}
+            canClock={!isWorkOrderFinished(order.status) && order.status !== 'cancelled'}
+            version={timelineVersion}
+          />
+
           <WorkOrderSpareParts
             workOrderId={orderId}
-            isCompleted={order.status === 'completed'}
+            isCompleted={isWorkOrderFinished(order.status)}
             onUpdate={loadOrderDetails}
           />
+
+          <WorkOrderInspections
+            workOrderId={orderId}
+            orderNumber={order.order_number}
+            canEdit={hasDetailedPermission('work_orders.update')}
+            canAddServices={!isWorkOrderFinished(order.status) && order.status !== 'cancelled'}
+            customer={order.customer || null}
+            vehicle={order.vehicle || null}
+            workshop={workshopSettings}
+            onServicesAdded={loadOrderDetails}
+          />
+
+          <WorkOrderTimeline
+            workOrderId={orderId}
+            canAddNote={hasDetailedPermission('work_orders.update')}
+            version={timelineVersion}
+          />
         </div>
 
         <div className="space-y-6">
@@ -817,6 +842,26 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
             </div>
           </div>
 
+          <VehicleCheckInCard
+            workOrderId={orderId}
+            orderNumber={order.order_number}
+            customer={order.customer || null}
+            vehicle={order.vehicle || null}
+            workshop={workshopSettings}
+            printedBy={user?.full_name}
+          />
+
+          <WorkOrderDeposits
+            key={invoice?.id || 'uninvoiced'}
+            workOrderId={orderId}
+            orderNumber={order.order_number}
+            canAdd={order.status !== 'cancelled'}
+            canManage={hasDetailedPermission('invoices.update') || hasDetailedPermission('invoices.manage_payments')}
+            customer={order.customer || null}
+            workshop={workshopSettings}
+            printedBy={user?.full_name}
+          />
+
           {invoice && (
             <div className="bg-gradient-to-br from-green-500 to-green-600 rounded-xl shadow-md p-6">
               <div className="flex items-center justify-between mb-4">
@@ -839,26 +884,76 @@ export function WorkOrderDetails({ orderId, onBack, onViewInvoice }: WorkOrderDe
             </div>
           )}
 
-          <div className="bg-white rounded-xl shadow-md p-6">
-            <h3 className="text-xl font-bold text-gray-800 mb-4">{t('work_orders.change_status')}</h3>
-            <div className="space-y-2">
-              {[
-                { value: 'pending', label: t('status.pending'), color: 'bg-yellow-600' },
-                { value: 'in_progress', label: t('status.in_progress'), color: 'bg-blue-600' },
-                { value: 'completed', label: t('status.completed'), color: 'bg-green-600' },
-                { value: 'cancelled', label: t('status.cancelled'), color: 'bg-red-600' },
-              ].map((status) => (
-                <button
-                  key={status.value}
-                  onClick={() => updateStatus(status.value)}
-                  disabled={order.status === status.value}
-                  className={`w-full text-white px-4 py-2 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed ${status.color}`}
-                >
-                  {status.label}
-                </button>
-              ))}
+          {order.status === 'cancelled' && order.cancellation_reason && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+              <p className="text-sm font-medium text-red-700 mb-1">{t('work_orders.cancellation_reason')}</p>
+              <p className="text-red-900">{order.cancellation_reason}</p>
             </div>
-          </div>
+          )}
+
+          {!isWorkOrderFinished(order.status) && order.status !== 'cancelled' && (
+            <WorkOrderBay
+              order={order}
+              canEdit={hasDetailedPermission('work_orders.update')}
+              onChange={loadOrderDetails}
+            />
+          )}
+
+          {nextStatuses.length > 0 && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-4">{t('work_orders.change_status')}</h3>
+              <div className="space-y-2">
+                {nextStatuses.filter((status) => status !== 'cancelled').map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => updateStatus(status)}
+                    disabled={statusSaving || !canMoveTo(status)}
+                    className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {t(`status.${status}`)}
+                  </button>
+                ))}
+
+                {nextStatuses.includes('cancelled') && canMoveTo('cancelled') && (
+                  cancelling ? (
+                    <div className="border border-red-200 rounded-lg p-3 space-y-2">
+                      <label className="block text-sm font-medium text-gray-700">{t('work_orders.cancellation_reason')}</label>
+                      <textarea
+                        value={cancellationReason}
+                        onChange={(e) => setCancellationReason(e.target.value)}
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => updateStatus('cancelled')}
+                          disabled={statusSaving}
+                          className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+                        >
+                          {t('work_orders.confirm_cancellation')}
+                        </button>
+                        <button
+                          onClick={() => setCancelling(false)}
+                          disabled={statusSaving}
+                          className="flex-1 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          {t('common.back')}
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setCancelling(true)}
+                      disabled={statusSaving}
+                      className="w-full bg-red-600 text-white px-4 py-2 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+                    >
+                      {t('work_orders.cancel_order')}
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
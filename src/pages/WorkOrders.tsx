@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { WorkOrder } from '../types';
+import { WorkOrder, WorkOrderStatus } from '../types';
 import { Plus, Eye, Calendar, Car, User, DollarSign, Edit, Trash2, ShieldAlert } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
@@ -8,6 +8,7 @@ import { Pagination } from '../components/Pagination';
 import { usePagination } from '../hooks/usePagination';
 import { useTranslation } from 'react-i18next';
 import { displayNumber } from '../utils/numberUtils';
+import { WORK_ORDER_STATUSES, WORK_ORDER_STATUS_STYLES } from '../utils/workOrderStatus';
 import { workOrdersService } from '../services';
 
 interface WorkOrdersProps {
@@ -93,14 +94,9 @@ export function WorkOrders({ onNewOrder, onViewOrder, onEditOrder }: WorkOrdersP
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    const styles = {
-      in_progress: 'bg-blue-100 text-blue-700',
-      completed: 'bg-green-100 text-green-700',
-      cancelled: 'bg-red-100 text-red-700',
-    };
+  const getStatusBadge = (status: WorkOrderStatus) => {
     return (
-      <span className={`px-3 py-1 rounded-full text-xs font-medium ${styles[status as keyof typeof styles]}`}>
+      <span className={`px-3 py-1 rounded-full text-xs font-medium ${WORK_ORDER_STATUS_STYLES[status]}`}>
         {t(`status.${status}`)}
       </span>
     );
@@ -145,9 +141,7 @@ export function WorkOrders({ onNewOrder, onViewOrder, onEditOrder }: WorkOrdersP
         <div className="flex space-x-2 space-x-reverse overflow-x-auto">
           {[
             { value: 'all', label: t('common.all') },
-            { value: 'in_progress', label: t('status.in_progress') },
-            { value: 'completed', label: t('status.completed') },
-            { value: 'cancelled', label: t('status.cancelled') },
+            ...WORK_ORDER_STATUSES.map((status) => ({ value: status, label: t(`status.${status}`) })),
           ].map((item) => (
             <button
               key={item.value}
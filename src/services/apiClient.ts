@@ -97,6 +97,23 @@ export const apiClient = {
     return handleResponse<T>(response);
   },
 
+  async getBlob(endpoint: string, params?: Record<string, string>): Promise<Blob> {
+    const url = new URL(`${API_BASE_URL}/${endpoint}`);
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          url.searchParams.append(key, value);
+        }
+      });
+    }
+
+    const headers = await getAuthHeaders();
+    const response = await fetch(url.toString(), { method: 'GET', headers });
+    // Errors are still returned as JSON
+    if (!response.ok) return handleResponse<Blob>(response);
+    return response.blob();
+  },
+
   async post<T>(endpoint: string, data?: unknown): Promise<T> {
     const headers = await getAuthHeaders();
     const response = await fetch(`${API_BASE_URL}/${endpoint}`, {
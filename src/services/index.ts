@@ -1,8 +1,9 @@
 import { supabase } from '../lib/supabase';
 import { apiClient, ApiError } from './apiClient';
-import { User, UserPermission, Customer, Vehicle, WorkOrder, Invoice, Technician, Salary, SparePart, Expense } from '../types';
+import { User, UserPermission, Customer, Vehicle, WorkOrder, WorkOrderStatus, Quotation, Invoice, ConsolidatedWorkOrder, InvoiceEInvoice, InvoiceNote, InvoicePayment, InvoiceRefund, VatCategory, NotificationEvent, NotificationMessage, NotificationProvider, DocumentEmail, WorkOrderDeposit, WorkOrderEvent, VehicleCheckIn, DamageMark, InspectionRating, InspectionTemplate, InspectionTemplateItem, WorkOrderInspection, WorkshopBay, ServiceCatalogItem, JobBoardOrder, WorkOrderLabor, LaborPauseReason, Appointment, AppointmentConflict, AppointmentService, Technician, Salary, SparePart, Expense } from '../types';
 import type { User as SupabaseUser, Session, AuthChangeEvent } from '@supabase/supabase-js';
 import { cache, CacheKeys, CacheTTL } from '../utils/cacheUtils';
+import { WAITING_STATUSES, IN_PROGRESS_STATUSES } from '../utils/workOrderStatus';
 
 export { ApiError as ServiceError } from './apiClient';
 
@@ -56,15 +57,418 @@ class WorkOrdersService {
   async deleteWorkOrder(id: string): Promise<void> {
     await apiClient.delete(`work-orders/${id}`);
   }
+
+  /** Moves the order to its next status; cancelling requires a reason */
+  async updateStatus(id: string, status: WorkOrderStatus, cancellationReason?: string): Promise<WorkOrder> {
+    return apiClient.put<WorkOrder>(`work-orders/${id}`, { status, cancellation_reason: cancellationReason });
+  }
+
+  /** Puts the car on a bay, or takes it off with null; fails when the bay is full */
+  async assignBay(id: string, bayId: string | null): Promise<WorkOrder> {
+    return apiClient.put<WorkOrder>(`work-orders/${id}`, { bay_id: bayId });
+  }
+
+  /** Orders still at the workshop, with their bay and technicians */
+  async getJobBoard(): Promise<JobBoardOrder[]> {
+    return apiClient.get<JobBoardOrder[]>('work-orders/board');
+  }
+
+  async getLabor(workOrderId: string): Promise<WorkOrderLabor> {
+    return apiClient.get<WorkOrderLabor>(`work-orders/${workOrderId}/labor`);
+  }
+
+  /** Clocks a technician on or off a service of the order */
+  async clockLabor(workOrderId: string, data: ClockLaborData): Promise<WorkOrderLabor> {
+    return apiClient.post<WorkOrderLabor>(`work-orders/${workOrderId}/labor`, data);
+  }
+
+  async setBilledHours(workOrderId: string, serviceId: string, billedHours: number | null): Promise<WorkOrderLabor> {
+    return apiClient.put<WorkOrderLabor>(`work-orders/${workOrderId}/labor/${serviceId}`, { billed_hours: billedHours });
+  }
+
+  async getDeposits(workOrderId: string): Promise<WorkOrderDeposit[]> {
+    return apiClient.get<WorkOrderDeposit[]>(`work-orders/${workOrderId}/deposits`);
+  }
+
+  /** Records a deposit; it is applied to the invoice of the work order later */
+  async createDeposit(workOrderId: string, data: CreateWorkOrderDepositData): Promise<WorkOrderDeposit> {
+    return apiClient.post<WorkOrderDeposit>(`work-orders/${workOrderId}/deposits`, data);
+  }
+
+  async deleteDeposit(workOrderId: string, depositId: string): Promise<void> {
+    await apiClient.delete(`work-orders/${workOrderId}/deposits/${depositId}`);
+  }
+
+  async getCheckIn(workOrderId: string): Promise<VehicleCheckIn | null> {
+    return apiClient.get<VehicleCheckIn | null>(`work-orders/${workOrderId}/check-in`);
+  }
+
+  async saveCheckIn(workOrderId: string, data: SaveVehicleCheckInData): Promise<VehicleCheckIn> {
+    return apiClient.put<VehicleCheckIn>(`work-orders/${workOrderId}/check-in`, data);
+  }
+
+  /** Uploads a check-in or inspection photo and returns its storage path */
+  async uploadPhoto(organizationId: string, workOrderId: string, file: File): Promise<string> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+    const path = `${organizationId}/${workOrderId}/${crypto.randomUUID()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from('work-order-photos')
+      .upload(path, file, { contentType: file.type || undefined });
+
+    if (error) throw new ApiError(error.message, 500);
+    return path;
+  }
+
+  async getEvents(workOrderId: string): Promise<WorkOrderEvent[]> {
+    return apiClient.get<WorkOrderEvent[]>(`work-orders/${workOrderId}/events`);
+  }
+
+  async addNote(workOrderId: string, note: string): Promise<WorkOrderEvent> {
+    return apiClient.post<WorkOrderEvent>(`work-orders/${workOrderId}/events`, { note });
+  }
+}
+
+export interface CreateWorkOrderDepositData extends CreateInvoicePaymentData {
+  notes?: string;
+}
+
+export interface ClockLaborData {
+  service_id: string;
+  technician_id: string;
+  action: 'start' | 'pause' | 'finish';
+  /** Required when pausing */
+  pause_reason?: LaborPauseReason;
+  note?: string;
+}
+
+export interface SaveVehicleCheckInData {
+  odometer: number | null;
+  fuel_level: number | null;
+  complaints?: string;
+  valuables?: string;
+  damage_marks: DamageMark[];
+  photos: string[];
+}
+
+export interface SaveInspectionTemplateData {
+  name?: string;
+  description?: string | null;
+  is_active?: boolean;
+  items?: InspectionTemplateItem[];
+}
+
+export interface SaveInspectionData {
+  notes?: string | null;
+  /** Rated, noted and photographed items; the inspection cannot change after this */
+  complete?: boolean;
+  items: Array<{ id: string; rating: InspectionRating | null; note: string | null; photos: string[] }>;
+}
+
+export interface SaveWorkshopBayData {
+  name?: string;
+  kind?: WorkshopBay['kind'];
+  capacity?: number;
+  is_active?: boolean;
+  sort_order?: number;
+}
+
+export interface SaveServiceCatalogItemData {
+  code?: string;
+  name_ar?: string;
+  name_en?: string | null;
+  category?: ServiceCatalogItem['category'];
+  standard_hours?: number;
+  default_price?: number;
+  default_parts?: ServiceCatalogItem['default_parts'];
+  is_active?: boolean;
+}
+
+export interface SaveAppointmentData {
+  customer_id?: string;
+  vehicle_id?: string | null;
+  starts_at?: string;
+  duration_minutes?: number;
+  bay_id?: string | null;
+  technician_id?: string | null;
+  requested_services?: AppointmentService[];
+  notes?: string | null;
+}
+
+export interface SaveQuotationData {
+  customer_id?: string;
+  vehicle_id?: string | null;
+  issue_date?: string;
+  valid_until?: string;
+  notes?: string;
+  discount_percentage?: number;
+  tax_rate?: number;
+  tax_type?: Quotation['tax_type'];
+  services?: Array<{ service_type: string; description: string; labor_cost: number; catalog_item_id?: string | null }>;
+  spare_parts?: Array<{ spare_part_id: string; quantity: number; unit_price: number }>;
+}
+
+class InspectionsService {
+  async getTemplates(): Promise<InspectionTemplate[]> {
+    return apiClient.get<InspectionTemplate[]>('inspections/templates');
+  }
+
+  async createTemplate(data: SaveInspectionTemplateData): Promise<InspectionTemplate> {
+    return apiClient.post<InspectionTemplate>('inspections/templates', data);
+  }
+
+  async updateTemplate(id: string, data: SaveInspectionTemplateData): Promise<InspectionTemplate> {
+    return apiClient.put<InspectionTemplate>(`inspections/templates/${id}`, data);
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await apiClient.delete(`inspections/templates/${id}`);
+  }
+
+  async getInspections(workOrderId: string): Promise<WorkOrderInspection[]> {
+    return apiClient.get<WorkOrderInspection[]>('inspections', { work_order_id: workOrderId });
+  }
+
+  async startInspection(workOrderId: string, templateId: string): Promise<WorkOrderInspection> {
+    return apiClient.post<WorkOrderInspection>('inspections', { work_order_id: workOrderId, template_id: templateId });
+  }
+
+  async saveInspection(id: string, data: SaveInspectionData): Promise<WorkOrderInspection> {
+    return apiClient.put<WorkOrderInspection>(`inspections/${id}`, data);
+  }
+
+  async deleteInspection(id: string): Promise<void> {
+    await apiClient.delete(`inspections/${id}`);
+  }
+
+  /** Adds red and amber items as services of the work order; all of them unless `itemIds` is given */
+  async proposeServices(id: string, itemIds?: string[]): Promise<{ created: number; inspection: WorkOrderInspection }> {
+    return apiClient.post<{ created: number; inspection: WorkOrderInspection }>(`inspections/${id}/propose-services`, {
+      item_ids: itemIds,
+    });
+  }
+}
+
+class BaysService {
+  async getBays(activeOnly = false): Promise<WorkshopBay[]> {
+    return apiClient.get<WorkshopBay[]>('bays', activeOnly ? { activeOnly: 'true' } : undefined);
+  }
+
+  async createBay(data: SaveWorkshopBayData): Promise<WorkshopBay> {
+    return apiClient.post<WorkshopBay>('bays', data);
+  }
+
+  async updateBay(id: string, data: SaveWorkshopBayData): Promise<WorkshopBay> {
+    return apiClient.put<WorkshopBay>(`bays/${id}`, data);
+  }
+
+  async deleteBay(id: string): Promise<void> {
+    await apiClient.delete(`bays/${id}`);
+  }
+}
+
+class ServiceCatalogService {
+  async getItems(activeOnly = false): Promise<ServiceCatalogItem[]> {
+    return apiClient.get<ServiceCatalogItem[]>('service-catalog', activeOnly ? { activeOnly: 'true' } : undefined);
+  }
+
+  async createItem(data: SaveServiceCatalogItemData): Promise<ServiceCatalogItem> {
+    return apiClient.post<ServiceCatalogItem>('service-catalog', data);
+  }
+
+  async updateItem(id: string, data: SaveServiceCatalogItemData): Promise<ServiceCatalogItem> {
+    return apiClient.put<ServiceCatalogItem>(`service-catalog/${id}`, data);
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    await apiClient.delete(`service-catalog/${id}`);
+  }
+}
+
+class AppointmentsService {
+  /** Appointments overlapping the [from, to) range */
+  async getAppointments(from: Date, to: Date): Promise<Appointment[]> {
+    return apiClient.get<Appointment[]>('appointments', { from: from.toISOString(), to: to.toISOString() });
+  }
+
+  async getConflicts(slot: {
+    starts_at: string;
+    duration_minutes: number;
+    bay_id?: string | null;
+    technician_id?: string | null;
+    exclude_id?: string | null;
+  }): Promise<AppointmentConflict[]> {
+    const params: Record<string, string> = {
+      starts_at: slot.starts_at,
+      duration_minutes: String(slot.duration_minutes),
+    };
+    if (slot.bay_id) params.bay_id = slot.bay_id;
+    if (slot.technician_id) params.technician_id = slot.technician_id;
+    if (slot.exclude_id) params.exclude_id = slot.exclude_id;
+
+    return apiClient.get<AppointmentConflict[]>('appointments/conflicts', params);
+  }
+
+  /** Fails with SCHEDULING_CONFLICT, listing the conflicts as details, when the slot is taken */
+  async createAppointment(data: SaveAppointmentData): Promise<Appointment> {
+    return apiClient.post<Appointment>('appointments', data);
+  }
+
+  async updateAppointment(id: string, data: SaveAppointmentData): Promise<Appointment> {
+    return apiClient.put<Appointment>(`appointments/${id}`, data);
+  }
+
+  async setStatus(id: string, action: 'confirm' | 'cancel' | 'no-show'): Promise<Appointment> {
+    return apiClient.post<Appointment>(`appointments/${id}/${action}`);
+  }
+
+  /** Opens a work order with the requested services when the car arrives */
+  async convertToWorkOrder(id: string): Promise<Appointment> {
+    return apiClient.post<Appointment>(`appointments/${id}/convert`);
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    await apiClient.delete(`appointments/${id}`);
+  }
+}
+
+class QuotationsService {
+  async getPaginatedQuotations(options: QueryOptions & { status?: string }): Promise<PaginatedResponse<Quotation>> {
+    const params: Record<string, string> = {};
+    if (options.limit) params.limit = String(options.limit);
+    if (options.offset) params.offset = String(options.offset);
+    if (options.status) params.status = options.status;
+
+    return apiClient.get<PaginatedResponse<Quotation>>('quotations', params);
+  }
+
+  async getQuotationById(id: string): Promise<Quotation> {
+    return apiClient.get<Quotation>(`quotations/${id}`);
+  }
+
+  /** Creates the quotation with its lines; totals are calculated by the server */
+  async createQuotation(data: SaveQuotationData): Promise<Quotation> {
+    return apiClient.post<Quotation>('quotations', data);
+  }
+
+  async updateQuotation(id: string, data: SaveQuotationData): Promise<Quotation> {
+    return apiClient.put<Quotation>(`quotations/${id}`, data);
+  }
+
+  async deleteQuotation(id: string): Promise<void> {
+    await apiClient.delete(`quotations/${id}`);
+  }
+
+  async sendQuotation(id: string): Promise<Quotation> {
+    return apiClient.post<Quotation>(`quotations/${id}/send`);
+  }
+
+  async rejectQuotation(id: string): Promise<Quotation> {
+    return apiClient.post<Quotation>(`quotations/${id}/reject`);
+  }
+
+  /** Accepts the quotation and opens a work order with the same lines */
+  async acceptQuotation(id: string): Promise<Quotation> {
+    return apiClient.post<Quotation>(`quotations/${id}/accept`);
+  }
+
+  /** Creates a draft invoice from an accepted quotation */
+  async convertQuotationToInvoice(id: string): Promise<Quotation> {
+    return apiClient.post<Quotation>(`quotations/${id}/invoice`);
+  }
+
+  /** Emails the quotation PDF; a draft is marked as sent */
+  async emailQuotation(id: string, data: SendDocumentEmailData): Promise<DocumentEmail> {
+    return apiClient.post<DocumentEmail>(`quotations/${id}/email`, data);
+  }
+
+  async getQuotationEmails(id: string): Promise<DocumentEmail[]> {
+    return apiClient.get<DocumentEmail[]>(`quotations/${id}/emails`);
+  }
+}
+
+export interface CreateInvoiceNoteData {
+  note_type: InvoiceNote['note_type'];
+  reason: string;
+  items?: Array<{
+    invoice_item_id?: string;
+    description?: string;
+    quantity: number;
+    unit_price?: number;
+    /** Free lines only; lines reversing an invoice line keep its category */
+    vat_category?: VatCategory;
+  }>;
+}
+
+export interface CreateInvoicePaymentData {
+  amount: number;
+  payment_method: InvoicePayment['payment_method'];
+  card_type?: InvoicePayment['card_type'];
+  reference?: string;
+}
+
+export interface CreateInvoiceRefundData {
+  amount: number;
+  refund_method: InvoiceRefund['refund_method'];
+  card_type?: InvoiceRefund['card_type'];
+  reference?: string;
+  reason: string;
+  /** The credit note the money is returned for */
+  note_id?: string | null;
+  /** User holding invoices.refund who approved the refund */
+  approved_by: string;
+}
+
+export interface RefundApprover {
+  id: string;
+  full_name: string;
+}
+
+export type InvoicePdfFormat = 'a4' | 'thermal80' | 'thermal58';
+
+export interface SendDocumentEmailData {
+  to?: string;
+  language?: 'ar' | 'en';
+}
+
+export interface CreateConsolidatedInvoiceData {
+  customer_id: string;
+  period_start: string;
+  period_end: string;
+  /** Omitted to include every completed, uninvoiced work order of the period */
+  work_order_ids?: string[];
+  discount_percentage?: number;
+  tax_rate?: number;
+  tax_type?: Invoice['tax_type'];
+  notes?: string;
+}
+
+export interface InvoiceListFilters {
+  /** Invoice number, customer name / phone or plate number */
+  search?: string;
+  paymentStatus?: Invoice['payment_status'];
+  paymentMethod?: InvoicePayment['payment_method'];
+  /** Issue date range (YYYY-MM-DD), both days included */
+  startDate?: string;
+  endDate?: string;
+  minAmount?: number;
+  maxAmount?: number;
 }
 
 class InvoicesService {
-  async getPaginatedInvoices(options: QueryOptions): Promise<PaginatedResponse<Invoice>> {
+  async getPaginatedInvoices(options: QueryOptions & InvoiceListFilters): Promise<PaginatedResponse<Invoice>> {
     const params: Record<string, string> = {};
     if (options.limit) params.limit = String(options.limit);
     if (options.offset) params.offset = String(options.offset);
     if (options.orderBy) params.orderBy = options.orderBy;
     if (options.orderDirection) params.orderDir = options.orderDirection;
+    if (options.search?.trim()) params.search = options.search.trim();
+    if (options.paymentStatus) params.paymentStatus = options.paymentStatus;
+    if (options.paymentMethod) params.paymentMethod = options.paymentMethod;
+    if (options.startDate) params.startDate = options.startDate;
+    if (options.endDate) params.endDate = options.endDate;
+    if (options.minAmount !== undefined) params.minAmount = String(options.minAmount);
+    if (options.maxAmount !== undefined) params.maxAmount = String(options.maxAmount);
 
     return apiClient.get<PaginatedResponse<Invoice>>('invoices', params);
   }
@@ -73,17 +477,103 @@ class InvoicesService {
     return apiClient.get<Invoice>(`invoices/${id}`);
   }
 
-  async createInvoice(data: Partial<Invoice> & { items?: unknown[] }): Promise<Invoice> {
+  async createInvoice(
+    data: Omit<Partial<Invoice>, 'items'> & { items?: unknown[]; tenders?: CreateInvoicePaymentData[] }
+  ): Promise<Invoice> {
     return apiClient.post<Invoice>('invoices', data);
   }
 
-  async updateInvoice(id: string, data: Partial<Invoice> & { items?: unknown[] }): Promise<Invoice> {
+  async updateInvoice(id: string, data: Omit<Partial<Invoice>, 'items'> & { items?: unknown[] }): Promise<Invoice> {
     return apiClient.put<Invoice>(`invoices/${id}`, data);
   }
 
   async deleteInvoice(id: string): Promise<void> {
     await apiClient.delete(`invoices/${id}`);
   }
+
+  async getEInvoice(invoiceId: string): Promise<InvoiceEInvoice> {
+    return apiClient.get<InvoiceEInvoice>(`invoices/${invoiceId}/einvoice`);
+  }
+
+  async issueEInvoice(invoiceId: string): Promise<InvoiceEInvoice> {
+    return apiClient.post<InvoiceEInvoice>(`invoices/${invoiceId}/einvoice`);
+  }
+
+  async issueInvoice(id: string): Promise<Invoice> {
+    return apiClient.put<Invoice>(`invoices/${id}`, { status: 'issued' });
+  }
+
+  async getInvoiceNotes(invoiceId: string): Promise<InvoiceNote[]> {
+    return apiClient.get<InvoiceNote[]>(`invoices/${invoiceId}/notes`);
+  }
+
+  /**
+   * Creates a credit or debit note. A credit note without items reverses
+   * everything not yet credited.
+   */
+  async createInvoiceNote(invoiceId: string, data: CreateInvoiceNoteData): Promise<InvoiceNote> {
+    return apiClient.post<InvoiceNote>(`invoices/${invoiceId}/notes`, data);
+  }
+
+  async issueNoteEInvoice(invoiceId: string, noteId: string): Promise<InvoiceEInvoice> {
+    return apiClient.post<InvoiceEInvoice>(`invoices/${invoiceId}/notes/${noteId}/einvoice`);
+  }
+
+  async getInvoicePayments(invoiceId: string): Promise<InvoicePayment[]> {
+    return apiClient.get<InvoicePayment[]>(`invoices/${invoiceId}/payments`);
+  }
+
+  /**
+   * Records the tenders of one checkout. The invoice paid amount and payment
+   * status are derived from its payments.
+   */
+  async addInvoicePayments(invoiceId: string, tenders: CreateInvoicePaymentData[]): Promise<InvoicePayment[]> {
+    return apiClient.post<InvoicePayment[]>(`invoices/${invoiceId}/payments`, { tenders });
+  }
+
+  async deleteInvoicePayment(invoiceId: string, paymentId: string): Promise<void> {
+    await apiClient.delete(`invoices/${invoiceId}/payments/${paymentId}`);
+  }
+
+  async getInvoiceRefunds(invoiceId: string): Promise<InvoiceRefund[]> {
+    return apiClient.get<InvoiceRefund[]>(`invoices/${invoiceId}/refunds`);
+  }
+
+  /** Users who may approve a refund */
+  async getRefundApprovers(): Promise<RefundApprover[]> {
+    return apiClient.get<RefundApprover[]>('invoices/refund-approvers');
+  }
+
+  /** Refunds are capped at what was paid, and at the credit note when one is given */
+  async createInvoiceRefund(invoiceId: string, data: CreateInvoiceRefundData): Promise<InvoiceRefund> {
+    return apiClient.post<InvoiceRefund>(`invoices/${invoiceId}/refunds`, data);
+  }
+
+  async getInvoicePdf(invoiceId: string, format: InvoicePdfFormat): Promise<Blob> {
+    return apiClient.getBlob(`invoices/${invoiceId}/pdf`, { format });
+  }
+
+  /** Emails the invoice PDF; without `to` it goes to the customer's address */
+  async emailInvoice(invoiceId: string, data: SendDocumentEmailData): Promise<DocumentEmail> {
+    return apiClient.post<DocumentEmail>(`invoices/${invoiceId}/email`, data);
+  }
+
+  async getInvoiceEmails(invoiceId: string): Promise<DocumentEmail[]> {
+    return apiClient.get<DocumentEmail[]>(`invoices/${invoiceId}/emails`);
+  }
+
+  /** All invoices created in the range, one after the other in a single PDF */
+  async getInvoicesPdf(startDate: string, endDate: string, format: InvoicePdfFormat): Promise<Blob> {
+    return apiClient.getBlob('invoices/pdf', { startDate, endDate, format });
+  }
+
+  async getUninvoicedWorkOrders(customerId: string, startDate: string, endDate: string): Promise<ConsolidatedWorkOrder[]> {
+    return apiClient.get<ConsolidatedWorkOrder[]>('invoices/consolidated', { customerId, startDate, endDate });
+  }
+
+  async createConsolidatedInvoice(data: CreateConsolidatedInvoiceData): Promise<Invoice> {
+    return apiClient.post<Invoice>('invoices/consolidated', data);
+  }
 }
 
 class CustomersService {
@@ -360,6 +850,7 @@ class ExpensesService {
 
 interface OverviewStats {
   totalRevenue: number;
+  totalRefunds: number;
   totalWorkOrders: number;
   completedOrders: number;
   pendingOrders: number;
@@ -384,6 +875,9 @@ interface TechnicianReport {
   totalEarnings: number;
   jobsCompleted: number;
   averageJobValue: number;
+  actualHours: number;
+  billedHours: number;
+  efficiency: number | null;
   jobs: Array<{
     service_type: string;
     description: string;
@@ -392,6 +886,75 @@ interface TechnicianReport {
   }>;
 }
 
+interface VatSummary {
+  count: number;
+  taxableAmount: number;
+  vatAmount: number;
+  total: number;
+}
+
+export interface VatReport {
+  invoices: VatSummary;
+  creditNotes: VatSummary;
+  debitNotes: VatSummary;
+  /** Net of credit and debit notes, per VAT category */
+  categories: { category: VatCategory; taxableAmount: number; vatAmount: number }[];
+  net: Omit<VatSummary, 'count'>;
+}
+
+/** Method amounts and total include the deposits taken and are net of refunds */
+interface TenderTotals {
+  cash: number;
+  card: number;
+  mada: number;
+  visa: number;
+  bankTransfer: number;
+  other: number;
+  total: number;
+  count: number;
+  deposits: number;
+  depositCount: number;
+  refunds: number;
+  refundCount: number;
+}
+
+export interface ReconciliationReport {
+  totals: TenderTotals;
+  /** Deposits applied to invoices in the period, not counted in the totals */
+  appliedDeposits: { amount: number; count: number };
+  cashiers: Array<TenderTotals & { userId: string | null; name: string | null }>;
+}
+
+export type AgingBucket = '0_30' | '31_60' | '61_90' | '90_plus';
+
+type AgingTotals = Record<AgingBucket, number> & { total: number; count: number };
+
+export interface AgingReport {
+  asOf: string;
+  totals: AgingTotals;
+  customers: Array<AgingTotals & {
+    customerId: string | null;
+    name: string | null;
+    phone: string | null;
+    paymentTerms: Customer['payment_terms'] | null;
+    maxDaysOverdue: number;
+  }>;
+  /** Only filled when the report is requested for one customer */
+  invoices: Array<{
+    invoiceId: string;
+    invoiceNumber: string;
+    invoiceDate: string;
+    dueDate: string;
+    paymentTerms: Customer['payment_terms'] | null;
+    total: number;
+    paidAmount: number;
+    adjustments: number;
+    balance: number;
+    daysOverdue: number;
+    bucket: AgingBucket;
+  }>;
+}
+
 class ReportsService {
   async getOverviewStats(startDate?: string, endDate?: string): Promise<OverviewStats> {
     const params: Record<string, string> = {};
@@ -412,6 +975,30 @@ class ReportsService {
 
     return apiClient.get<TechnicianReport[]>('reports/technicians', params);
   }
+
+  async getVatReport(startDate?: string, endDate?: string): Promise<VatReport> {
+    const params: Record<string, string> = {};
+    if (startDate) params.startDate = startDate;
+    if (endDate) params.endDate = endDate;
+
+    return apiClient.get<VatReport>('reports/vat', params);
+  }
+
+  async getReconciliationReport(startDate?: string, endDate?: string): Promise<ReconciliationReport> {
+    const params: Record<string, string> = {};
+    if (startDate) params.startDate = startDate;
+    if (endDate) params.endDate = endDate;
+
+    return apiClient.get<ReconciliationReport>('reports/reconciliation', params);
+  }
+
+  async getAgingReport(asOf?: string, customerId?: string): Promise<AgingReport> {
+    const params: Record<string, string> = {};
+    if (asOf) params.asOf = asOf;
+    if (customerId) params.customerId = customerId;
+
+    return apiClient.get<AgingReport>('reports/aging', params);
+  }
 }
 
 interface WorkshopSettings {
@@ -422,13 +1009,47 @@ interface WorkshopSettings {
   email?: string;
   logo_url?: string;
   tax_number?: string;
+  tax_enabled?: boolean;
   tax_rate?: number;
-  tax_type?: string;
+  tax_type?: 'inclusive' | 'exclusive';
   currency?: string;
+  zatca_environment?: 'development' | 'simulation' | 'production';
+  zatca_certificate?: string | null;
+  /** Write-only: never returned by the API */
+  zatca_private_key?: string | null;
+  zatca_private_key_configured?: boolean;
+  notifications_enabled?: boolean;
+  notification_provider?: NotificationProvider;
+  notification_api_url?: string | null;
+  notification_sender?: string | null;
+  /** Write-only: never returned by the API */
+  notification_api_key?: string | null;
+  notification_api_key_configured?: boolean;
+  smtp_host?: string | null;
+  smtp_port?: number;
+  smtp_secure?: boolean;
+  smtp_username?: string | null;
+  smtp_from_email?: string | null;
+  smtp_from_name?: string | null;
+  /** Write-only: never returned by the API */
+  smtp_password?: string | null;
+  smtp_password_configured?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export type DocumentType = 'invoice' | 'credit_note' | 'debit_note' | 'quotation' | 'work_order' | 'expense' | 'salary' | 'payment' | 'deposit' | 'refund';
+
+export interface DocumentSequence {
+  document_type: DocumentType;
+  prefix: string;
+  reset_period: 'never' | 'yearly' | 'monthly';
+  padding: number;
+  last_number: number;
+  /** Next number, shown without taking it */
+  next_number: string;
+}
+
 class SettingsService {
   async getWorkshopSettings(): Promise<WorkshopSettings | null> {
     try {
@@ -457,6 +1078,22 @@ class SettingsService {
   invalidateCache(): void {
     cache.remove(CacheKeys.WORKSHOP_SETTINGS);
   }
+
+  /** Sends a test message with the saved SMTP settings */
+  async sendTestEmail(to: string): Promise<{ sent: boolean; message_id: string | null }> {
+    return apiClient.post<{ sent: boolean; message_id: string | null }>('settings/test-email', { to });
+  }
+
+  async getDocumentSequences(): Promise<DocumentSequence[]> {
+    return apiClient.get<DocumentSequence[]>('settings/sequences');
+  }
+
+  async updateDocumentSequence(
+    documentType: DocumentType,
+    data: Pick<DocumentSequence, 'prefix' | 'reset_period' | 'padding'>
+  ): Promise<DocumentSequence> {
+    return apiClient.put<DocumentSequence>(`settings/sequences/${documentType}`, data);
+  }
 }
 
 import {
@@ -471,6 +1108,48 @@ import {
   DashboardPermissions,
 } from '../types/dashboard';
 
+export interface NotificationTemplate {
+  event: NotificationEvent;
+  body_en: string;
+  body_ar: string;
+  is_active: boolean;
+  /** True while the organization still uses the built-in text */
+  is_default: boolean;
+}
+
+class NotificationsService {
+  async getMessages(options: QueryOptions & { customerId?: string; status?: string }): Promise<PaginatedResponse<NotificationMessage>> {
+    const params: Record<string, string> = {};
+    if (options.limit) params.limit = String(options.limit);
+    if (options.offset) params.offset = String(options.offset);
+    if (options.customerId) params.customer_id = options.customerId;
+    if (options.status) params.status = options.status;
+
+    return apiClient.get<PaginatedResponse<NotificationMessage>>('notifications', params);
+  }
+
+  /** Queues a failed message again and tries to send it right away */
+  async retryMessage(id: string): Promise<NotificationMessage> {
+    return apiClient.post<NotificationMessage>(`notifications/${id}/retry`);
+  }
+
+  /** Sends the messages waiting in the organization's queue */
+  async processQueue(): Promise<{ sent: number; failed: number }> {
+    return apiClient.post<{ sent: number; failed: number }>('notifications/process');
+  }
+
+  async getTemplates(): Promise<NotificationTemplate[]> {
+    return apiClient.get<NotificationTemplate[]>('notifications/templates');
+  }
+
+  async updateTemplate(
+    event: NotificationEvent,
+    data: Pick<NotificationTemplate, 'body_en' | 'body_ar' | 'is_active'>
+  ): Promise<NotificationTemplate> {
+    return apiClient.put<NotificationTemplate>(`notifications/templates/${event}`, data);
+  }
+}
+
 class DashboardService {
   async getStats(userId: string, computedPermissions: string[]): Promise<DashboardBasicStats> {
     const isAdmin = computedPermissions.includes('admin');
@@ -583,21 +1262,21 @@ class DashboardService {
     const { data: inProgress } = await supabase
       .from('work_orders_detailed')
       .select('*')
-      .eq('status', 'in_progress')
+      .in('status', IN_PROGRESS_STATUSES)
       .order('created_at', { ascending: false })
       .limit(5);
 
     const { data: pending } = await supabase
       .from('work_orders_detailed')
       .select('*')
-      .eq('status', 'pending')
+      .in('status', WAITING_STATUSES)
       .order('created_at', { ascending: false })
       .limit(5);
 
     const { count } = await supabase
       .from('work_orders')
       .select('*', { count: 'exact', head: true })
-      .in('status', ['pending', 'in_progress']);
+      .in('status', [...WAITING_STATUSES, ...IN_PROGRESS_STATUSES]);
 
     return {
       inProgress: inProgress || [],
@@ -610,15 +1289,16 @@ class DashboardService {
     const { data: unpaid } = await supabase
       .from('invoices_detailed')
       .select('*')
-      .eq('payment_status', 'unpaid')
+      .in('payment_status', ['unpaid', 'partial'])
       .order('created_at', { ascending: false })
       .limit(5);
 
+    // due_date follows the customer's payment terms
     const today = new Date().toISOString().split('T')[0];
     const { data: overdue } = await supabase
       .from('invoices_detailed')
       .select('*')
-      .eq('payment_status', 'unpaid')
+      .in('payment_status', ['unpaid', 'partial'])
       .lt('due_date', today)
       .order('due_date', { ascending: true })
       .limit(5);
@@ -629,10 +1309,10 @@ class DashboardService {
     if (includeAmounts) {
       const { data: allUnpaid, count } = await supabase
         .from('invoices')
-        .select('total', { count: 'exact' })
-        .eq('payment_status', 'unpaid');
+        .select('total, paid_amount', { count: 'exact' })
+        .in('payment_status', ['unpaid', 'partial']);
 
-      totalAmount = allUnpaid?.reduce((sum, inv) => sum + (parseFloat(inv.total) || 0), 0) || 0;
+      totalAmount = allUnpaid?.reduce((sum, inv) => sum + (parseFloat(inv.total) || 0) - (parseFloat(inv.paid_amount) || 0), 0) || 0;
       totalCount = count || 0;
     }
 
@@ -742,6 +1422,11 @@ class DashboardService {
 }
 
 export const workOrdersService = new WorkOrdersService();
+export const inspectionsService = new InspectionsService();
+export const quotationsService = new QuotationsService();
+export const baysService = new BaysService();
+export const serviceCatalogService = new ServiceCatalogService();
+export const appointmentsService = new AppointmentsService();
 export const invoicesService = new InvoicesService();
 export const customersService = new CustomersService();
 export const vehiclesService = new VehiclesService();
@@ -753,6 +1438,7 @@ export const salariesService = new SalariesService();
 export const expensesService = new ExpensesService();
 export const reportsService = new ReportsService();
 export const settingsService = new SettingsService();
+export const notificationsService = new NotificationsService();
 export const dashboardService = new DashboardService();
 
 export { rolesService } from './rolesService';
@@ -3,6 +3,11 @@ export interface Customer {
   name: string;
   phone: string;
   email?: string;
+  payment_terms?: 'cash' | 'net_15' | 'net_30';
+  /** Language of the SMS / WhatsApp messages sent to the customer */
+  preferred_language?: 'ar' | 'en';
+  /** Work order deposits not yet applied to an invoice */
+  deposit_balance?: number;
   created_at: string;
 }
 
@@ -33,18 +38,36 @@ export interface Technician {
   created_at: string;
 }
 
+export type WorkOrderStatus =
+  | 'received'
+  | 'diagnosing'
+  | 'awaiting_approval'
+  | 'awaiting_parts'
+  | 'in_progress'
+  | 'quality_check'
+  | 'ready_for_pickup'
+  | 'delivered'
+  | 'cancelled';
+
 export interface WorkOrder {
   id: string;
   customer_id: string;
   vehicle_id: string;
   order_number: string;
-  status: 'in_progress' | 'completed' | 'cancelled';
+  status: WorkOrderStatus;
   description?: string;
   total_labor_cost: number;
   created_at: string;
+  /** Set when the order reaches ready_for_pickup */
   completed_at?: string;
+  cancellation_reason?: string | null;
+  /** Bay or lift the car is on; cleared once the order is finished or cancelled */
+  bay_id?: string | null;
+  /** When the order entered its current status */
+  status_changed_at?: string;
   customer?: Customer;
   vehicle?: Vehicle;
+  bay?: Pick<WorkshopBay, 'id' | 'name' | 'kind'> | null;
 }
 
 export interface WorkOrderService {
@@ -53,9 +76,62 @@ export interface WorkOrderService {
   service_type: string;
   description: string;
   labor_cost: number;
+  /** Labor hours charged for the service, compared with the clocked hours */
+  billed_hours?: number | null;
+  /** Catalog job the service was taken from */
+  catalog_item_id?: string | null;
+  created_at: string;
+}
+
+export interface Quotation {
+  id: string;
+  quotation_number: string;
+  customer_id: string;
+  vehicle_id?: string | null;
+  status: 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+  issue_date: string;
+  valid_until: string;
+  notes?: string;
+  discount_percentage: number;
+  tax_rate: number;
+  tax_type: 'inclusive' | 'exclusive';
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  total: number;
+  work_order_id?: string | null;
+  invoice_id?: string | null;
+  sent_at?: string | null;
+  responded_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+  customer?: Customer;
+  vehicle?: Vehicle;
+  work_order?: Pick<WorkOrder, 'id' | 'order_number' | 'status'> | null;
+  invoice?: Pick<Invoice, 'id' | 'invoice_number' | 'status'> | null;
+  services?: QuotationService[];
+  spare_parts?: QuotationSparePart[];
+}
+
+export interface QuotationService {
+  id: string;
+  service_type: string;
+  description: string;
+  labor_cost: number;
+  catalog_item_id?: string | null;
   created_at: string;
 }
 
+export interface QuotationSparePart {
+  id: string;
+  spare_part_id: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+  created_at: string;
+  spare_part?: Pick<SparePart, 'id' | 'name' | 'part_number'>;
+}
+
 export interface TechnicianAssignment {
   id: string;
   service_id: string;
@@ -84,6 +160,8 @@ export interface Invoice {
   id: string;
   work_order_id: string;
   invoice_number: string;
+  /** Issued invoices are immutable, corrections go through credit / debit notes */
+  status?: 'draft' | 'issued';
   customer_id: string;
   vehicle_id: string;
   subtotal: number;
@@ -95,12 +173,62 @@ export interface Invoice {
   total: number;
   paid_amount: number;
   payment_status: 'paid' | 'unpaid' | 'partial';
-  payment_method: 'cash' | 'card';
+  /** `split` when the payments of the invoice use more than one method */
+  payment_method: 'cash' | 'card' | 'bank_transfer' | 'other' | 'split';
   card_type?: 'mada' | 'visa';
   notes?: string;
   created_at: string;
+  /** Set when the invoice is issued */
+  issued_at?: string | null;
   customer?: Customer;
   vehicle?: Vehicle;
+  einvoice?: Pick<InvoiceEInvoice, 'id' | 'icv' | 'uuid' | 'invoice_hash' | 'qr_code' | 'created_at'> | null;
+  items?: InvoiceItem[];
+  work_order?: Pick<WorkOrder, 'id' | 'order_number' | 'description'> | null;
+  /** Bills several work orders of one customer over `period_start`..`period_end` */
+  is_consolidated?: boolean;
+  period_start?: string | null;
+  period_end?: string | null;
+  /** Work orders billed by a consolidated invoice, returned by GET invoices/:id */
+  work_orders?: ConsolidatedWorkOrder[];
+  /** ZATCA Phase 1 QR payload (TLV, base64), returned by GET invoices/:id */
+  qr_code?: string | null;
+  /** Taxable amount and VAT per category, returned by GET invoices/:id */
+  tax_breakdown?: TaxBreakdownRow[];
+}
+
+export type VatCategory = 'standard' | 'zero_rated' | 'exempt';
+
+export interface TaxBreakdownRow {
+  vat_category: VatCategory;
+  tax_rate: number;
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface ConsolidatedWorkOrder {
+  id: string;
+  order_number: string;
+  description?: string;
+  completed_at: string;
+  vehicle: Pick<Vehicle, 'id' | 'plate_number' | 'car_make' | 'car_model' | 'car_year'> | null;
+  /** Billable total, returned with the uninvoiced work orders of a period */
+  total?: number;
+}
+
+export interface InvoiceEInvoice {
+  id: string;
+  invoice_id: string;
+  note_id?: string | null;
+  icv: number;
+  uuid: string;
+  previous_hash: string;
+  invoice_hash: string;
+  signature: string;
+  qr_code: string;
+  xml: string;
+  environment: 'development' | 'simulation' | 'production';
+  created_at: string;
 }
 
 export interface InvoiceItem {
@@ -110,12 +238,374 @@ export interface InvoiceItem {
   description: string;
   quantity: number;
   unit_price: number;
+  /** Line discount; `total` is the line amount after it */
+  discount_percentage?: number;
+  discount_amount?: number;
+  vat_category?: VatCategory;
   total: number;
   spare_part_id?: string;
+  /** Work order the line was billed from, on consolidated invoices */
+  work_order_id?: string | null;
   created_at: string;
   spare_part?: SparePart;
 }
 
+export interface InvoiceNoteItem {
+  id: string;
+  note_id: string;
+  invoice_item_id?: string | null;
+  item_type: 'service' | 'part';
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_percentage?: number;
+  vat_category?: VatCategory;
+  total: number;
+  created_at: string;
+}
+
+export interface InvoiceNote {
+  id: string;
+  invoice_id: string;
+  note_type: 'credit' | 'debit';
+  note_number: string;
+  reason: string;
+  subtotal: number;
+  discount_amount: number;
+  tax_rate: number;
+  tax_type: 'inclusive' | 'exclusive';
+  tax_amount: number;
+  total: number;
+  created_by?: string | null;
+  created_at: string;
+  items: InvoiceNoteItem[];
+  einvoice?: Pick<InvoiceEInvoice, 'id' | 'icv' | 'uuid' | 'invoice_hash' | 'qr_code' | 'created_at'> | null;
+}
+
+export interface InvoicePayment {
+  id: string;
+  invoice_id: string;
+  receipt_number: string;
+  amount: number;
+  payment_method: 'cash' | 'card' | 'bank_transfer' | 'other';
+  card_type?: 'mada' | 'visa' | null;
+  reference?: string | null;
+  paid_at: string;
+  received_by?: string | null;
+  received_by_name?: string | null;
+  /** Set when the payment applies a work order deposit */
+  deposit_id?: string | null;
+  created_at: string;
+}
+
+/** Money returned to the customer, optionally for a credit note */
+export interface InvoiceRefund {
+  id: string;
+  invoice_id: string;
+  note_id?: string | null;
+  note?: { id: string; note_number: string } | null;
+  refund_number: string;
+  amount: number;
+  refund_method: InvoicePayment['payment_method'];
+  card_type?: 'mada' | 'visa' | null;
+  reference?: string | null;
+  reason: string;
+  refunded_at: string;
+  approved_by: string;
+  approved_by_name?: string | null;
+  recorded_by?: string | null;
+  recorded_by_name?: string | null;
+  created_at: string;
+}
+
+/** An advance payment taken against a work order */
+export interface WorkOrderDeposit {
+  id: string;
+  work_order_id: string;
+  customer_id: string;
+  receipt_number: string;
+  amount: number;
+  /** Part of the deposit already used to pay invoices */
+  applied_amount: number;
+  payment_method: InvoicePayment['payment_method'];
+  card_type?: 'mada' | 'visa' | null;
+  reference?: string | null;
+  notes?: string | null;
+  paid_at: string;
+  received_by?: string | null;
+  received_by_name?: string | null;
+  applications?: Array<{ id: string; amount: number; invoice: { id: string; invoice_number: string } | null }>;
+  created_at: string;
+}
+
+export interface DamageMark {
+  /** Position on the car outline, in percent of its width and height */
+  x: number;
+  y: number;
+  type: 'scratch' | 'dent' | 'crack' | 'broken';
+  note?: string;
+}
+
+export interface VehicleCheckIn {
+  id: string;
+  work_order_id: string;
+  odometer: number | null;
+  /** Percent of a full tank */
+  fuel_level: number | null;
+  complaints: string | null;
+  valuables: string | null;
+  damage_marks: DamageMark[];
+  /** Paths in the work-order-photos storage bucket */
+  photos: string[];
+  /** Signed links to the photos, valid for an hour */
+  photo_urls: string[];
+  checked_in_by?: string | null;
+  checked_in_by_name?: string | null;
+  checked_in_at: string;
+}
+
+export type InspectionRating = 'red' | 'amber' | 'green';
+
+export interface InspectionTemplateItem {
+  id?: string;
+  category: string;
+  label: string;
+  estimated_cost: number;
+  sort_order?: number;
+}
+
+export interface InspectionTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  items: InspectionTemplateItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkOrderInspectionItem {
+  id: string;
+  category: string;
+  label: string;
+  estimated_cost: number;
+  sort_order: number;
+  rating: InspectionRating | null;
+  note: string | null;
+  /** Paths in the work-order-photos storage bucket */
+  photos: string[];
+  photo_urls: string[];
+  /** Work order service proposed from this item */
+  service_id: string | null;
+}
+
+export interface WorkOrderInspection {
+  id: string;
+  work_order_id: string;
+  template_id: string | null;
+  name: string;
+  status: 'in_progress' | 'completed';
+  notes: string | null;
+  inspected_by: string | null;
+  inspected_by_name?: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  items: WorkOrderInspectionItem[];
+}
+
+export interface WorkshopBay {
+  id: string;
+  name: string;
+  kind: 'bay' | 'lift';
+  /** Cars the bay can hold at the same time */
+  capacity: number;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ServiceCategory = 'mechanics' | 'electricity' | 'ac' | 'tires' | 'bodywork' | 'other';
+
+/** A standard job of the workshop with its price and usual parts */
+export interface ServiceCatalogItem {
+  id: string;
+  code: string;
+  name_ar: string;
+  name_en: string | null;
+  category: ServiceCategory;
+  standard_hours: number;
+  default_price: number;
+  default_parts: Array<{ spare_part_id: string; quantity: number }>;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'arrived' | 'cancelled' | 'no_show';
+
+export interface AppointmentService {
+  service_type: string;
+  description: string;
+  labor_cost: number;
+}
+
+export interface Appointment {
+  id: string;
+  customer_id: string;
+  vehicle_id: string | null;
+  starts_at: string;
+  duration_minutes: number;
+  ends_at: string;
+  bay_id: string | null;
+  technician_id: string | null;
+  requested_services: AppointmentService[];
+  notes: string | null;
+  status: AppointmentStatus;
+  /** Work order opened when the car arrived */
+  work_order_id: string | null;
+  created_at: string;
+  updated_at: string;
+  customer?: { id: string; name: string; phone: string | null } | null;
+  vehicle?: { id: string; car_make: string; car_model: string; plate_number: string | null } | null;
+  bay?: { id: string; name: string; kind: WorkshopBay['kind'] } | null;
+  technician?: { id: string; name: string } | null;
+  work_order?: Pick<WorkOrder, 'id' | 'order_number' | 'status'> | null;
+}
+
+/** Open work order as shown on the job board */
+export interface JobBoardOrder {
+  id: string;
+  order_number: string;
+  status: WorkOrderStatus;
+  bay_id: string | null;
+  created_at: string;
+  status_changed_at: string;
+  customer: { id: string; name: string; phone: string | null } | null;
+  vehicle: { id: string; car_make: string; car_model: string; plate_number: string | null } | null;
+  bay: Pick<WorkshopBay, 'id' | 'name' | 'kind'> | null;
+  /** Technicians assigned to any service of the order */
+  technicians: Array<{ id: string; name: string }>;
+}
+
+export type LaborPauseReason =
+  | 'waiting_parts'
+  | 'waiting_approval'
+  | 'break'
+  | 'other_job'
+  | 'end_of_shift'
+  | 'other';
+
+/** A work session of a technician on a service; open while `ended_at` is null */
+export interface ServiceTimeEntry {
+  id: string;
+  service_id: string;
+  technician_id: string;
+  started_at: string;
+  ended_at: string | null;
+  end_reason: 'pause' | 'finish' | null;
+  pause_reason: LaborPauseReason | null;
+  note: string | null;
+}
+
+export type LaborState = 'idle' | 'working' | 'paused' | 'finished';
+
+export interface ServiceLabor {
+  id: string;
+  service_type: string;
+  description: string;
+  labor_cost: number;
+  billed_hours: number | null;
+  actual_hours: number;
+  /** Billed hours per clocked hour, in percent */
+  efficiency: number | null;
+  technicians: Array<{
+    technician_id: string;
+    name: string;
+    actual_hours: number;
+    state: LaborState;
+    /** When the current state began */
+    since: string | null;
+    pause_reason: LaborPauseReason | null;
+  }>;
+}
+
+/** Clocked against billed labor hours of a work order */
+export interface WorkOrderLabor {
+  services: ServiceLabor[];
+  technicians: Array<{
+    technician_id: string;
+    name: string;
+    actual_hours: number;
+    billed_hours: number;
+    efficiency: number | null;
+  }>;
+  entries: ServiceTimeEntry[];
+  actual_hours: number;
+  billed_hours: number;
+  efficiency: number | null;
+}
+
+/** An appointment already holding the bay or the technician during a slot */
+export interface AppointmentConflict {
+  type: 'bay' | 'technician';
+  appointment_id: string;
+  starts_at: string;
+  ends_at: string;
+  customer_name: string;
+}
+
+export type WorkOrderEventType =
+  | 'created'
+  | 'status_changed'
+  | 'bay_changed'
+  | 'service_added'
+  | 'service_updated'
+  | 'service_removed'
+  | 'part_added'
+  | 'part_updated'
+  | 'part_removed'
+  | 'technician_assigned'
+  | 'technician_unassigned'
+  | 'payment_received'
+  | 'note';
+
+export interface WorkOrderEvent {
+  id: string;
+  work_order_id: string;
+  event_type: WorkOrderEventType;
+  /** Details of the event; the keys depend on the event type */
+  data: {
+    status?: WorkOrderStatus;
+    from?: WorkOrderStatus;
+    to?: WorkOrderStatus;
+    reason?: string;
+    bay_name?: string;
+    previous_bay_name?: string;
+    service_type?: string;
+    description?: string;
+    labor_cost?: number;
+    previous_labor_cost?: number;
+    name?: string;
+    quantity?: number;
+    previous_quantity?: number;
+    unit_price?: number;
+    technician_name?: string;
+    share_amount?: number;
+    source?: 'deposit' | 'invoice';
+    invoice_number?: string;
+    receipt_number?: string;
+    amount?: number;
+    payment_method?: InvoicePayment['payment_method'];
+    card_type?: 'mada' | 'visa';
+    note?: string;
+  };
+  actor_id?: string | null;
+  actor_name?: string | null;
+  created_at: string;
+}
+
 export interface WorkOrderSparePart {
   id: string;
   work_order_id: string;
@@ -160,6 +650,8 @@ export interface UserPermission {
 export type PermissionKey =
   | 'dashboard'
   | 'customers'
+  | 'quotations'
+  | 'appointments'
   | 'work_orders'
   | 'invoices'
   | 'inventory'
@@ -292,6 +784,8 @@ export type ResourceType =
   | 'dashboard'
   | 'customers'
   | 'vehicles'
+  | 'quotations'
+  | 'appointments'
   | 'work_orders'
   | 'invoices'
   | 'inventory'
@@ -316,6 +810,7 @@ export type ActionType =
   | 'complete'
   | 'void'
   | 'adjust_stock'
+  | 'override_price'
   | 'view_performance'
   | 'manage_assignments'
   | 'financial'
@@ -338,6 +833,15 @@ export type DetailedPermissionKey =
   | 'vehicles.create'
   | 'vehicles.update'
   | 'vehicles.delete'
+  | 'quotations.view'
+  | 'quotations.create'
+  | 'quotations.update'
+  | 'quotations.delete'
+  | 'quotations.override_price'
+  | 'appointments.view'
+  | 'appointments.create'
+  | 'appointments.update'
+  | 'appointments.delete'
   | 'work_orders.view'
   | 'work_orders.create'
   | 'work_orders.update'
@@ -345,6 +849,7 @@ export type DetailedPermissionKey =
   | 'work_orders.cancel'
   | 'work_orders.complete'
   | 'work_orders.export'
+  | 'work_orders.override_price'
   | 'invoices.view'
   | 'invoices.create'
   | 'invoices.update'
@@ -352,6 +857,8 @@ export type DetailedPermissionKey =
   | 'invoices.print'
   | 'invoices.export'
   | 'invoices.void'
+  | 'invoices.manage_payments'
+  | 'invoices.refund'
   | 'inventory.view'
   | 'inventory.create'
   | 'inventory.update'
@@ -412,3 +919,39 @@ export interface AuditLog {
   user_agent?: string;
   created_at: string;
 }
+
+export type NotificationEvent = 'work_order_completed' | 'invoice_issued';
+
+export type NotificationProvider = 'log' | 'http_sms' | 'whatsapp';
+
+export interface NotificationMessage {
+  id: string;
+  customer_id: string | null;
+  event: NotificationEvent;
+  reference_type: 'work_order' | 'invoice';
+  reference_id: string;
+  provider: NotificationProvider;
+  recipient: string;
+  language: 'ar' | 'en';
+  body: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error?: string | null;
+  sent_at?: string | null;
+  created_at: string;
+}
+
+/** An email sent for an invoice or a quotation */
+export interface DocumentEmail {
+  id: string;
+  recipient: string;
+  language: 'ar' | 'en';
+  subject: string;
+  status: 'sent' | 'failed';
+  message_id?: string | null;
+  error?: string | null;
+  sent_by?: string | null;
+  created_at: string;
+}
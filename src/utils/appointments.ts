@@ -0,0 +1,50 @@
+import { AppointmentStatus } from '../types';
+
+export const APPOINTMENT_STATUS_STYLES: Record<AppointmentStatus, string> = {
+  scheduled: 'bg-blue-50 border-blue-300 text-blue-900',
+  confirmed: 'bg-green-50 border-green-400 text-green-900',
+  arrived: 'bg-gray-100 border-gray-300 text-gray-700',
+  cancelled: 'bg-red-50 border-red-200 text-red-700 opacity-60 line-through',
+  no_show: 'bg-amber-50 border-amber-300 text-amber-800 opacity-60',
+};
+
+/** Appointments still holding their bay and technician */
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ['scheduled', 'confirmed'];
+
+/** Hours shown by the day view, from the first row to the end of the last one */
+export const CALENDAR_START_HOUR = 7;
+export const CALENDAR_END_HOUR = 22;
+
+export const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240, 300, 360, 480];
+
+export function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/** The week starts on Sunday, as in the workshop's schedule */
+export function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  return addDays(day, -day.getDay());
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
+
+/** Value for a `datetime-local` input, in the browser's time zone */
+export function toDateTimeInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function formatTime(value: string | Date): string {
+  return new Date(value).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+}
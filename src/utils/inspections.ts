@@ -0,0 +1,32 @@
+import { InspectionRating } from '../types';
+
+export const INSPECTION_RATINGS: InspectionRating[] = ['red', 'amber', 'green'];
+
+export const RATING_STYLES: Record<InspectionRating, { active: string; badge: string; color: string }> = {
+  red: { active: 'bg-red-600 text-white border-red-600', badge: 'bg-red-100 text-red-800', color: '#dc2626' },
+  amber: { active: 'bg-amber-500 text-white border-amber-500', badge: 'bg-amber-100 text-amber-800', color: '#f59e0b' },
+  green: { active: 'bg-green-600 text-white border-green-600', badge: 'bg-green-100 text-green-800', color: '#16a34a' },
+};
+
+/**
+ * Translation keys of the checklist offered when a new template is created,
+ * under `inspections.standard.<category>` and `inspections.standard.items.<item>`.
+ */
+export const STANDARD_CHECKLIST: Array<{ category: string; items: string[] }> = [
+  { category: 'brakes', items: ['front_pads', 'rear_pads', 'discs', 'brake_fluid', 'handbrake'] },
+  { category: 'suspension', items: ['shock_absorbers', 'bushings', 'ball_joints'] },
+  { category: 'steering', items: ['steering_play', 'tie_rods'] },
+  { category: 'tires', items: ['tread_depth', 'tire_pressure', 'spare_tire'] },
+  { category: 'fluids', items: ['engine_oil', 'coolant', 'transmission_fluid', 'washer_fluid'] },
+  { category: 'engine', items: ['belts', 'hoses', 'air_filter', 'leaks'] },
+  { category: 'electrical', items: ['battery', 'lights', 'wipers', 'ac'] },
+];
+
+/** Groups items by category, keeping the order in which categories first appear */
+export function groupByCategory<T extends { category: string }>(items: T[]): Array<[string, T[]]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(item.category, [...(groups.get(item.category) || []), item]);
+  }
+  return [...groups.entries()];
+}
@@ -0,0 +1,14 @@
+import { ServiceCatalogItem, ServiceCategory } from '../types';
+
+export const SERVICE_CATEGORIES: ServiceCategory[] = ['mechanics', 'electricity', 'ac', 'tires', 'bodywork', 'other'];
+
+/** The item's name in the interface language, falling back to Arabic */
+export function catalogItemName(item: ServiceCatalogItem, language: string): string {
+  return language === 'en' && item.name_en ? item.name_en : item.name_ar;
+}
+
+export function matchesCatalogSearch(item: ServiceCatalogItem, search: string): boolean {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+  return [item.code, item.name_ar, item.name_en || ''].some((value) => value.toLowerCase().includes(term));
+}
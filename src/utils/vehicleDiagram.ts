@@ -0,0 +1,55 @@
+import { DamageMark } from '../types';
+
+// Top view of a car, front at the top, in a 200 x 400 box
+export const VIEW_WIDTH = 200;
+export const VIEW_HEIGHT = 400;
+
+export const OUTLINE_PATHS = [
+  // Body
+  'M60 20 Q100 5 140 20 Q170 30 172 70 L175 330 Q172 380 140 390 Q100 398 60 390 Q28 380 25 330 L28 70 Q30 30 60 20 Z',
+  // Windshield
+  'M52 110 Q100 90 148 110 L140 150 Q100 140 60 150 Z',
+  // Roof
+  'M60 155 Q100 147 140 155 L140 265 Q100 272 60 265 Z',
+  // Rear window
+  'M60 270 Q100 278 140 270 L148 305 Q100 318 52 305 Z',
+  // Hood and trunk lines
+  'M45 100 Q100 80 155 100',
+  'M45 320 Q100 338 155 320',
+];
+
+export const WHEELS = [
+  { x: 14, y: 75 },
+  { x: 172, y: 75 },
+  { x: 14, y: 285 },
+  { x: 172, y: 285 },
+];
+
+export const DAMAGE_COLORS: Record<DamageMark['type'], string> = {
+  scratch: '#f59e0b',
+  dent: '#ef4444',
+  crack: '#8b5cf6',
+  broken: '#111827',
+};
+
+function outlineMarkup() {
+  return [
+    ...WHEELS.map((wheel) => `<rect x="${wheel.x}" y="${wheel.y}" width="14" height="40" rx="5" fill="#d1d5db" />`),
+    ...OUTLINE_PATHS.map((path) => `<path d="${path}" fill="none" stroke="#374151" stroke-width="2" />`),
+  ].join('');
+}
+
+function markMarkup(mark: DamageMark, index: number) {
+  const cx = (mark.x / 100) * VIEW_WIDTH;
+  const cy = (mark.y / 100) * VIEW_HEIGHT;
+  return `<circle cx="${cx}" cy="${cy}" r="9" fill="${DAMAGE_COLORS[mark.type]}" />`
+    + `<text x="${cx}" y="${cy + 4}" text-anchor="middle" font-size="11" font-family="Arial" fill="#fff">${index + 1}</text>`;
+}
+
+/** The diagram as standalone SVG markup, for printed sheets */
+export function vehicleDiagramSvg(marks: DamageMark[], width = 180) {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}" width="${width}" height="${width * 2}">`
+    + outlineMarkup()
+    + marks.map(markMarkup).join('')
+    + '</svg>';
+}
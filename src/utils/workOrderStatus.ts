@@ -0,0 +1,55 @@
+import { DetailedPermissionKey, WorkOrderStatus } from '../types';
+
+export const WORK_ORDER_STATUSES: WorkOrderStatus[] = [
+  'received',
+  'diagnosing',
+  'awaiting_approval',
+  'awaiting_parts',
+  'in_progress',
+  'quality_check',
+  'ready_for_pickup',
+  'delivered',
+  'cancelled',
+];
+
+// Mirrors the transitions enforced by the work-orders edge function
+export const WORK_ORDER_TRANSITIONS: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  received: ['diagnosing', 'cancelled'],
+  diagnosing: ['awaiting_approval', 'awaiting_parts', 'in_progress', 'cancelled'],
+  awaiting_approval: ['diagnosing', 'awaiting_parts', 'in_progress', 'cancelled'],
+  awaiting_parts: ['in_progress', 'cancelled'],
+  in_progress: ['awaiting_parts', 'quality_check', 'cancelled'],
+  quality_check: ['in_progress', 'ready_for_pickup'],
+  ready_for_pickup: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const WORK_ORDER_TRANSITION_PERMISSIONS: Partial<Record<WorkOrderStatus, DetailedPermissionKey>> = {
+  ready_for_pickup: 'work_orders.complete',
+  delivered: 'work_orders.complete',
+  cancelled: 'work_orders.cancel',
+};
+
+export const WAITING_STATUSES: WorkOrderStatus[] = ['received', 'diagnosing', 'awaiting_approval', 'awaiting_parts'];
+
+export const IN_PROGRESS_STATUSES: WorkOrderStatus[] = ['in_progress', 'quality_check'];
+
+export const FINISHED_STATUSES: WorkOrderStatus[] = ['ready_for_pickup', 'delivered'];
+
+export const WORK_ORDER_STATUS_STYLES: Record<WorkOrderStatus, string> = {
+  received: 'bg-gray-100 text-gray-700',
+  diagnosing: 'bg-indigo-100 text-indigo-700',
+  awaiting_approval: 'bg-yellow-100 text-yellow-700',
+  awaiting_parts: 'bg-orange-100 text-orange-700',
+  in_progress: 'bg-blue-100 text-blue-700',
+  quality_check: 'bg-purple-100 text-purple-700',
+  ready_for_pickup: 'bg-teal-100 text-teal-700',
+  delivered: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+/** True once the work is done, i.e. the car is ready for pickup or delivered */
+export function isWorkOrderFinished(status: string): boolean {
+  return FINISHED_STATUSES.includes(status as WorkOrderStatus);
+}
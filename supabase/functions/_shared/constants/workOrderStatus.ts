@@ -0,0 +1,7 @@
+// Work order statuses grouped the way the dashboard and reports count them
+export const WAITING_STATUSES = ['received', 'diagnosing', 'awaiting_approval', 'awaiting_parts'];
+
+export const IN_PROGRESS_STATUSES = ['in_progress', 'quality_check'];
+
+// The work is done once the car is ready for pickup
+export const FINISHED_STATUSES = ['ready_for_pickup', 'delivered'];
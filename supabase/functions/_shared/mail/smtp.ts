@@ -0,0 +1,65 @@
+/**
+ * SMTP delivery through nodemailer. The connection settings come from the
+ * organization's `workshop_settings`; nothing is pooled between requests.
+ */
+import nodemailer from "npm:nodemailer@6.9.16";
+import { Buffer } from "node:buffer";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered */
+  secure: boolean;
+  username?: string | null;
+  password?: string | null;
+  fromEmail: string;
+  fromName?: string | null;
+}
+
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+const CONNECTION_TIMEOUT_MS = 15_000;
+
+/** Sends one message and returns the Message-ID assigned to it */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<string | null> {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Local catchers (Mailpit, MailHog) accept mail without a login
+    auth: config.username ? { user: config.username, pass: config.password || "" } : undefined,
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+    greetingTimeout: CONNECTION_TIMEOUT_MS,
+    socketTimeout: CONNECTION_TIMEOUT_MS,
+  });
+
+  try {
+    const info = await transport.sendMail({
+      from: config.fromName ? { name: config.fromName, address: config.fromEmail } : config.fromEmail,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: (message.attachments || []).map((attachment) => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content),
+        contentType: attachment.contentType,
+      })),
+    });
+    return info.messageId ?? null;
+  } finally {
+    transport.close();
+  }
+}
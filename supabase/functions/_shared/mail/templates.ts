@@ -0,0 +1,93 @@
+/**
+ * Bilingual email texts for documents sent to customers. The language
+ * follows the customer's `preferred_language` unless the sender picks one.
+ */
+
+export type MailLanguage = "ar" | "en";
+
+export type MailDocumentKind = "invoice" | "quotation";
+
+export interface DocumentMailContext {
+  kind: MailDocumentKind;
+  number: string;
+  /** YYYY-MM-DD */
+  date: string;
+  total: number;
+  /** Amount still owed on an invoice */
+  balance?: number;
+  /** YYYY-MM-DD, quotations only */
+  validUntil?: string | null;
+  customerName?: string | null;
+  workshopName: string;
+  workshopPhone?: string | null;
+}
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function amount(value: number): string {
+  return (Number(value) || 0).toFixed(2);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function paragraphs(context: DocumentMailContext, language: MailLanguage): { subject: string; lines: string[] } {
+  const { kind, number, date, total, balance, validUntil, customerName, workshopName, workshopPhone } = context;
+  const owed = kind === "invoice" && Number(balance) > 0.01;
+
+  if (language === "ar") {
+    return {
+      subject: kind === "invoice"
+        ? `فاتورة رقم ${number} من ${workshopName}`
+        : `عرض سعر رقم ${number} من ${workshopName}`,
+      lines: [
+        customerName ? `عزيزنا ${customerName}،` : "عزيزنا العميل،",
+        kind === "invoice"
+          ? `تجدون مرفقاً الفاتورة رقم ${number} بتاريخ ${date} بمبلغ ${amount(total)} ر.س.`
+          : `تجدون مرفقاً عرض السعر رقم ${number} بتاريخ ${date} بمبلغ ${amount(total)} ر.س.`,
+        owed ? `المبلغ المتبقي: ${amount(balance!)} ر.س.` : "",
+        kind === "quotation" && validUntil ? `العرض صالح حتى ${validUntil}.` : "",
+        "مع خالص التحية،",
+        [workshopName, workshopPhone].filter(Boolean).join(" - "),
+      ].filter(Boolean),
+    };
+  }
+
+  return {
+    subject: kind === "invoice"
+      ? `Invoice ${number} from ${workshopName}`
+      : `Quotation ${number} from ${workshopName}`,
+    lines: [
+      customerName ? `Dear ${customerName},` : "Dear customer,",
+      kind === "invoice"
+        ? `Please find attached invoice ${number} dated ${date} for ${amount(total)} SAR.`
+        : `Please find attached quotation ${number} dated ${date} for ${amount(total)} SAR.`,
+      owed ? `Balance due: ${amount(balance!)} SAR.` : "",
+      kind === "quotation" && validUntil ? `This quotation is valid until ${validUntil}.` : "",
+      "Kind regards,",
+      [workshopName, workshopPhone].filter(Boolean).join(" - "),
+    ].filter(Boolean),
+  };
+}
+
+export function renderDocumentMail(context: DocumentMailContext, language: MailLanguage): RenderedMail {
+  const { subject, lines } = paragraphs(context, language);
+  const dir = language === "ar" ? "rtl" : "ltr";
+
+  return {
+    subject,
+    text: lines.join("\n\n"),
+    html: `<div dir="${dir}" style="font-family: Tahoma, Arial, sans-serif; font-size: 14px; line-height: 1.6;">`
+      + lines.map((line) => `<p>${escapeHtml(line)}</p>`).join("")
+      + "</div>",
+  };
+}
@@ -1,4 +1,5 @@
 import { errorResponse } from "../utils/response.ts";
+import { ApiError } from "../types.ts";
 
 export class AppError extends Error {
   constructor(
@@ -47,6 +48,27 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * Maps errors raised by database triggers and functions (RAISE ... USING
+ * ERRCODE) to API errors.
+ */
+export function dbError(error: { code?: string; message: string }): ApiError {
+  switch (error.code) {
+    case "P0002":
+      return new ApiError(error.message, "NOT_FOUND", 404);
+    case "42501":
+      return new ApiError(error.message, "FORBIDDEN", 403);
+    case "22023":
+      return new ApiError(error.message, "VALIDATION_ERROR", 400);
+    case "23514":
+      return new ApiError(error.message, "CONSTRAINT_VIOLATION", 409);
+    case "23505":
+      return new ApiError(error.message, "DUPLICATE", 409);
+    default:
+      return new ApiError(error.message, "DB_ERROR", 500);
+  }
+}
+
 export function handleError(error: unknown): Response {
   console.error("Error occurred:", error);
 
@@ -61,6 +83,17 @@ export function handleError(error: unknown): Response {
     );
   }
 
+  if (error instanceof ApiError) {
+    return errorResponse(
+      {
+        error: error.message,
+        code: error.code,
+        details: error.details,
+      },
+      error.status
+    );
+  }
+
   if (error instanceof Error) {
     return errorResponse(error.message, 500);
   }
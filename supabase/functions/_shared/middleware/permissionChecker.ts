@@ -10,6 +10,14 @@ const PERMISSION_TRANSLATIONS: Record<string, { ar: string; en: string }> = {
   'customers.create': { ar: 'إضافة عملاء', en: 'create customers' },
   'customers.update': { ar: 'تعديل العملاء', en: 'update customers' },
   'customers.delete': { ar: 'حذف العملاء', en: 'delete customers' },
+  'quotations.view': { ar: 'عرض عروض الأسعار', en: 'view quotations' },
+  'quotations.create': { ar: 'إنشاء عروض أسعار', en: 'create quotations' },
+  'quotations.update': { ar: 'تعديل عروض الأسعار', en: 'update quotations' },
+  'quotations.delete': { ar: 'حذف عروض الأسعار', en: 'delete quotations' },
+  'appointments.view': { ar: 'عرض المواعيد', en: 'view appointments' },
+  'appointments.create': { ar: 'حجز مواعيد', en: 'create appointments' },
+  'appointments.update': { ar: 'تعديل المواعيد', en: 'update appointments' },
+  'appointments.delete': { ar: 'حذف المواعيد', en: 'delete appointments' },
   'work_orders.view': { ar: 'عرض أوامر العمل', en: 'view work orders' },
   'work_orders.create': { ar: 'إنشاء أوامر عمل', en: 'create work orders' },
   'work_orders.update': { ar: 'تعديل أوامر العمل', en: 'update work orders' },
@@ -0,0 +1,156 @@
+/**
+ * Outbound message providers. Every provider takes a recipient phone number
+ * and a rendered text; the queue (notificationService.ts) handles retries.
+ */
+
+export type ProviderName = "log" | "http_sms" | "whatsapp";
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  /** Endpoint of the HTTP SMS gateway */
+  apiUrl?: string | null;
+  /** SMS sender name, or the WhatsApp Business phone number id */
+  sender?: string | null;
+  /** Gateway API key or WhatsApp access token */
+  apiKey?: string | null;
+}
+
+export interface OutboundMessage {
+  id: string;
+  to: string;
+  body: string;
+}
+
+export interface NotificationProvider {
+  readonly name: ProviderName;
+  /** Returns the message id assigned by the provider */
+  send(message: OutboundMessage): Promise<string | null>;
+}
+
+/** `retryable` is false for errors another attempt cannot fix (bad number, rejected credentials) */
+export class NotificationSendError extends Error {
+  constructor(message: string, public retryable: boolean = true) {
+    super(message);
+    this.name = "NotificationSendError";
+  }
+}
+
+const WHATSAPP_API_URL = "https://graph.facebook.com/v19.0";
+
+/**
+ * Saudi numbers are stored as typed (05xxxxxxxx, 5xxxxxxxx, +9665xxxxxxxx);
+ * gateways expect the international form without "+".
+ */
+export function toInternationalPhone(phone: string): string {
+  let digits = phone.replace(/[^\d+]/g, "");
+  if (digits.startsWith("+")) digits = digits.slice(1);
+  else if (digits.startsWith("00")) digits = digits.slice(2);
+  else if (digits.startsWith("05")) digits = "966" + digits.slice(1);
+  else if (digits.startsWith("5") && digits.length === 9) digits = "966" + digits;
+
+  if (!/^\d{8,15}$/.test(digits)) {
+    throw new NotificationSendError(`Invalid phone number: ${phone}`, false);
+  }
+  return digits;
+}
+
+/** Maps an HTTP failure to a send error; 4xx other than 408 / 429 will fail again */
+async function responseError(response: Response): Promise<NotificationSendError> {
+  const text = await response.text().catch(() => "");
+  const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+  return new NotificationSendError(`HTTP ${response.status}: ${text.slice(0, 500)}`, retryable);
+}
+
+class LogProvider implements NotificationProvider {
+  readonly name = "log" as const;
+
+  send(message: OutboundMessage): Promise<string | null> {
+    console.log(`[notifications] to ${message.to}: ${message.body}`);
+    return Promise.resolve(`log-${message.id}`);
+  }
+}
+
+/**
+ * Generic HTTP SMS gateway: POST { to, from, message } as JSON with the API
+ * key as bearer token. The response may carry the message id as `id` or
+ * `message_id`.
+ */
+class HttpSmsProvider implements NotificationProvider {
+  readonly name = "http_sms" as const;
+
+  constructor(private apiUrl: string, private apiKey: string, private sender: string | null) {}
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        to: toInternationalPhone(message.to),
+        from: this.sender || undefined,
+        message: message.body,
+      }),
+    });
+
+    if (!response.ok) throw await responseError(response);
+
+    const result = await response.json().catch(() => ({}));
+    return result?.id?.toString() ?? result?.message_id?.toString() ?? null;
+  }
+}
+
+/**
+ * WhatsApp Business Cloud API text message. Outside the 24 hour customer
+ * service window Meta only delivers approved templates; such rejections are
+ * reported as failures on the message.
+ */
+class WhatsAppProvider implements NotificationProvider {
+  readonly name = "whatsapp" as const;
+
+  constructor(private phoneNumberId: string, private accessToken: string) {}
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    const response = await fetch(`${WHATSAPP_API_URL}/${this.phoneNumberId}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.accessToken}`,
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        to: toInternationalPhone(message.to),
+        type: "text",
+        text: { body: message.body },
+      }),
+    });
+
+    if (!response.ok) throw await responseError(response);
+
+    const result = await response.json().catch(() => ({}));
+    return result?.messages?.[0]?.id ?? null;
+  }
+}
+
+export function createProvider(config: ProviderConfig): NotificationProvider {
+  switch (config.provider) {
+    case "http_sms":
+      if (!config.apiUrl || !config.apiKey) {
+        throw new NotificationSendError("SMS gateway URL or API key is not configured", false);
+      }
+      return new HttpSmsProvider(config.apiUrl, config.apiKey, config.sender ?? null);
+
+    case "whatsapp":
+      if (!config.sender || !config.apiKey) {
+        throw new NotificationSendError("WhatsApp phone number id or access token is not configured", false);
+      }
+      return new WhatsAppProvider(config.sender, config.apiKey);
+
+    case "log":
+      return new LogProvider();
+
+    default:
+      throw new NotificationSendError(`Unknown notification provider: ${config.provider}`, false);
+  }
+}
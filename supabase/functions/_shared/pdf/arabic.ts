@@ -0,0 +1,149 @@
+/**
+ * Arabic text preparation for PDF output
+ *
+ * PDF text is drawn glyph by glyph from left to right, without OpenType
+ * shaping or bidirectional reordering. Arabic letters are therefore replaced
+ * by their contextual forms (Arabic Presentation Forms-B) and right-to-left
+ * runs are reversed, leaving numbers and Latin text in reading order.
+ */
+
+// Isolated form of each letter, and whether it also joins to the following letter
+const FORMS: Record<number, [number, boolean]> = {
+  0x0621: [0xfe80, false], // ء
+  0x0622: [0xfe81, false], // آ
+  0x0623: [0xfe83, false], // أ
+  0x0624: [0xfe85, false], // ؤ
+  0x0625: [0xfe87, false], // إ
+  0x0626: [0xfe89, true], // ئ
+  0x0627: [0xfe8d, false], // ا
+  0x0628: [0xfe8f, true], // ب
+  0x0629: [0xfe93, false], // ة
+  0x062a: [0xfe95, true], // ت
+  0x062b: [0xfe99, true], // ث
+  0x062c: [0xfe9d, true], // ج
+  0x062d: [0xfea1, true], // ح
+  0x062e: [0xfea5, true], // خ
+  0x062f: [0xfea9, false], // د
+  0x0630: [0xfeab, false], // ذ
+  0x0631: [0xfead, false], // ر
+  0x0632: [0xfeaf, false], // ز
+  0x0633: [0xfeb1, true], // س
+  0x0634: [0xfeb5, true], // ش
+  0x0635: [0xfeb9, true], // ص
+  0x0636: [0xfebd, true], // ض
+  0x0637: [0xfec1, true], // ط
+  0x0638: [0xfec5, true], // ظ
+  0x0639: [0xfec9, true], // ع
+  0x063a: [0xfecd, true], // غ
+  0x0641: [0xfed1, true], // ف
+  0x0642: [0xfed5, true], // ق
+  0x0643: [0xfed9, true], // ك
+  0x0644: [0xfedd, true], // ل
+  0x0645: [0xfee1, true], // م
+  0x0646: [0xfee5, true], // ن
+  0x0647: [0xfee9, true], // ه
+  0x0648: [0xfeed, false], // و
+  0x0649: [0xfeef, false], // ى
+  0x064a: [0xfef1, true], // ي
+};
+
+const TATWEEL = 0x0640;
+const LAM = 0x0644;
+
+// Lam followed by an alef variant is written as a single ligature (isolated form)
+const LAM_ALEF: Record<number, number> = {
+  0x0622: 0xfef5,
+  0x0623: 0xfef7,
+  0x0625: 0xfef9,
+  0x0627: 0xfefb,
+};
+
+const MIRRORED: Record<string, string> = { "(": ")", ")": "(", "[": "]", "]": "[", "<": ">", ">": "<" };
+
+const ARABIC_PATTERN = /[؀-ۿ]/;
+// Runs kept left to right inside Arabic text: numbers, Latin words and what joins them
+const LTR_RUN = /[A-Za-z0-9٠-٩](?:[A-Za-z0-9٠-٩.,:/+%@_\- ]*[A-Za-z0-9٠-٩%])?/g;
+
+function isTransparent(code: number): boolean {
+  return (code >= 0x064b && code <= 0x065f) || code === 0x0670;
+}
+
+function joinsForward(code: number | undefined): boolean {
+  return code !== undefined && (code === TATWEEL || FORMS[code]?.[1] === true);
+}
+
+function joinsBackward(code: number | undefined): boolean {
+  return code !== undefined && (code === TATWEEL || FORMS[code] !== undefined);
+}
+
+/**
+ * Replaces Arabic letters with their contextual presentation forms, in
+ * logical (reading) order.
+ */
+export function shapeArabic(text: string): string {
+  const codes = Array.from(text, (char) => char.codePointAt(0)!);
+  const neighbour = (index: number, step: number) => {
+    for (let i = index + step; i >= 0 && i < codes.length; i += step) {
+      if (!isTransparent(codes[i])) return codes[i];
+    }
+    return undefined;
+  };
+
+  let shaped = "";
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    const form = FORMS[code];
+    if (!form) {
+      shaped += String.fromCodePoint(code);
+      continue;
+    }
+
+    const previous = neighbour(i, -1);
+    const next = neighbour(i, 1);
+    const joinsPrevious = joinsForward(previous);
+
+    if (code === LAM && next !== undefined && LAM_ALEF[next]) {
+      shaped += String.fromCodePoint(LAM_ALEF[next] + (joinsPrevious ? 1 : 0));
+      // Skip the alef (and any marks before it)
+      while (codes[i + 1] !== next) i++;
+      i++;
+      continue;
+    }
+
+    const joinsNext = form[1] && joinsBackward(next);
+    const offset = joinsPrevious && joinsNext ? 3 : joinsPrevious ? 1 : joinsNext ? 2 : 0;
+    shaped += String.fromCodePoint(form[0] + offset);
+  }
+
+  return shaped;
+}
+
+/**
+ * Splits a line of text into runs in visual left-to-right order: Arabic
+ * runs are shaped and reversed, numbers and Latin text are kept as they are.
+ */
+export function visualRuns(text: string): string[] {
+  if (!ARABIC_PATTERN.test(text)) return [text];
+
+  const shaped = shapeArabic(text);
+  const runs: string[] = [];
+  let last = 0;
+
+  for (const match of shaped.matchAll(LTR_RUN)) {
+    if (match.index! > last) runs.push(reverseRtl(shaped.slice(last, match.index)));
+    runs.push(match[0]);
+    last = match.index! + match[0].length;
+  }
+  if (last < shaped.length) runs.push(reverseRtl(shaped.slice(last)));
+
+  return runs.reverse();
+}
+
+/** A line of text in the visual order it is drawn in */
+export function toVisual(text: string): string {
+  return visualRuns(text).join("");
+}
+
+function reverseRtl(run: string): string {
+  return Array.from(run, (char) => MIRRORED[char] ?? char).reverse().join("");
+}
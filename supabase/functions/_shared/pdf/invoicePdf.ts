@@ -0,0 +1,606 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, rgb, StandardFonts } from "npm:pdf-lib@1.17.1";
+import fontkit from "npm:@pdf-lib/fontkit@1.1.1";
+import QRCode from "npm:qrcode@1.5.4";
+import { visualRuns } from "./arabic.ts";
+
+/**
+ * Bilingual (Arabic / English) invoice PDFs
+ *
+ * Every invoice is laid out as a list of blocks (header, lines, totals...)
+ * measured against the paper width. A4 flows the blocks over as many pages
+ * as needed; thermal rolls get a single page as long as the invoice.
+ */
+
+export type PdfFormat = "a4" | "thermal80" | "thermal58";
+
+export const PDF_FORMATS: PdfFormat[] = ["a4", "thermal80", "thermal58"];
+
+export interface PdfWorkshop {
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+  tax_number?: string | null;
+  commercial_registration?: string | null;
+  logo_url?: string | null;
+}
+
+export interface PdfInvoice {
+  /** Quotations print the same layout under their own title, without payments */
+  kind?: "invoice" | "quotation";
+  invoice_number: string;
+  status?: string | null;
+  created_at: string;
+  discount_percentage: number | null;
+  discount_amount: number | null;
+  tax_rate: number | null;
+  tax_type: string | null;
+  tax_amount: number | null;
+  subtotal: number | null;
+  total: number;
+  paid_amount: number | null;
+  notes?: string | null;
+  customer: { name: string; phone?: string | null } | null;
+  vehicle: { plate_number?: string | null; car_make?: string | null; car_model?: string | null } | null;
+  /** Billing period of a consolidated invoice */
+  period?: string | null;
+  /** Last day a quotation can be accepted (YYYY-MM-DD) */
+  valid_until?: string | null;
+  /** Lines sharing a `group` (vehicle and work order) are printed under one heading */
+  items: PdfInvoiceLine[];
+  /** Taxable amount and VAT per category, printed when some lines are not standard rated */
+  tax_breakdown?: { vat_category: VatCategory; tax_rate: number; taxable_amount: number; tax_amount: number }[];
+  /** ZATCA QR payload (base64 TLV) */
+  qr_code: string | null;
+}
+
+export type VatCategory = "standard" | "zero_rated" | "exempt";
+
+export interface PdfInvoiceLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  /** Amount after the line discount */
+  total: number;
+  discount_percentage?: number | null;
+  discount_amount?: number | null;
+  vat_category?: VatCategory | null;
+  group?: string | null;
+}
+
+interface PaperLayout {
+  width: number;
+  /** Fixed page height, or null for a roll cut to the content */
+  height: number | null;
+  margin: number;
+  fontSize: number;
+  logoSize: number;
+}
+
+const LAYOUTS: Record<PdfFormat, PaperLayout> = {
+  a4: { width: 595.28, height: 841.89, margin: 40, fontSize: 10, logoSize: 64 },
+  thermal80: { width: 226.77, height: null, margin: 10, fontSize: 8, logoSize: 48 },
+  thermal58: { width: 164.41, height: null, margin: 6, fontSize: 7, logoSize: 36 },
+};
+
+const DEFAULT_FONT_URLS = {
+  regular: "https://raw.githubusercontent.com/google/fonts/main/ofl/amiri/Amiri-Regular.ttf",
+  bold: "https://raw.githubusercontent.com/google/fonts/main/ofl/amiri/Amiri-Bold.ttf",
+};
+
+// Letters are already in their contextual forms (see arabic.ts); the font's own
+// substitutions rely on glyph positioning that pdf-lib does not apply
+const ARABIC_FONT_FEATURES = Object.fromEntries(
+  ["ccmp", "locl", "isol", "init", "medi", "med2", "fina", "fin2", "fin3", "rlig", "calt", "rclt", "liga", "clig", "mset"]
+    .map((feature) => [feature, false])
+);
+
+const LABELS = {
+  taxInvoice: ["فاتورة ضريبية مبسطة", "Simplified Tax Invoice"],
+  invoice: ["فاتورة", "Invoice"],
+  quotation: ["عرض سعر", "Quotation"],
+  draft: ["مسودة", "DRAFT"],
+  vatNumber: ["الرقم الضريبي", "VAT No"],
+  commercialRegistration: ["السجل التجاري", "CR No"],
+  phone: ["الهاتف", "Phone"],
+  invoiceNumber: ["رقم الفاتورة", "Invoice No"],
+  quotationNumber: ["رقم العرض", "Quotation No"],
+  validUntil: ["صالح حتى", "Valid Until"],
+  date: ["التاريخ", "Date"],
+  customer: ["العميل", "Customer"],
+  vehicle: ["المركبة", "Vehicle"],
+  period: ["الفترة", "Period"],
+  description: ["الوصف", "Description"],
+  quantity: ["الكمية", "Qty"],
+  unitPrice: ["السعر", "Unit Price"],
+  lineTotal: ["المجموع", "Amount"],
+  lineDiscount: ["خصم", "Discount"],
+  taxable: ["المبلغ الخاضع", "Taxable"],
+  subtotal: ["المجموع قبل الضريبة", "Total excl VAT"],
+  discount: ["الخصم", "Discount"],
+  vat: ["ضريبة القيمة المضافة", "VAT"],
+  total: ["الإجمالي شامل الضريبة", "Total incl VAT"],
+  paid: ["المدفوع", "Paid"],
+  balance: ["المتبقي", "Balance Due"],
+  notes: ["ملاحظات", "Notes"],
+  thanks: ["شكراً لتعاملكم معنا", "Thank you for your business"],
+} as const;
+
+type Label = readonly [string, string];
+
+const VAT_CATEGORY_LABELS: Record<VatCategory, Label> = {
+  standard: ["خاضع للنسبة الأساسية", "Standard rated"],
+  zero_rated: ["خاضع لنسبة صفر", "Zero rated"],
+  exempt: ["معفى", "Exempt"],
+};
+
+interface TextOp {
+  kind: "text";
+  /** Glyph runs, left to right */
+  runs: string[];
+  x: number;
+  /** Baseline, from the top of the block */
+  y: number;
+  size: number;
+  bold: boolean;
+}
+
+interface RuleOp {
+  kind: "rule";
+  y: number;
+  x1: number;
+  x2: number;
+}
+
+interface ImageOp {
+  kind: "image";
+  image: PDFImage;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface QrOp {
+  kind: "qr";
+  x: number;
+  y: number;
+  size: number;
+  payload: string;
+}
+
+type DrawOp = TextOp | RuleOp | ImageOp | QrOp;
+
+interface Block {
+  height: number;
+  ops: DrawOp[];
+}
+
+interface Fonts {
+  arabic: PDFFont;
+  arabicBold: PDFFont;
+  latin: PDFFont;
+  latinBold: PDFFont;
+}
+
+type Align = "left" | "center" | "right";
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+
+/**
+ * Glyph runs of a line of text. fontkit lays out a run it detects as Arabic
+ * from right to left, so Arabic runs are handed over reversed to come out in
+ * the visual order computed by `visualRuns`.
+ */
+function glyphRuns(text: string): string[] {
+  return visualRuns(text).map((run) => (ARABIC_SCRIPT.test(run) ? Array.from(run).reverse().join("") : run));
+}
+
+// Numbers and Latin text are set in Helvetica, everything else in the Arabic font
+function fontFor(run: string, fonts: Fonts, bold: boolean): PDFFont {
+  if (/^[\x20-\x7E]*$/.test(run)) return bold ? fonts.latinBold : fonts.latin;
+  return bold ? fonts.arabicBold : fonts.arabic;
+}
+
+function runsWidth(runs: string[], fonts: Fonts, bold: boolean, size: number): number {
+  return runs.reduce((sum, run) => sum + fontFor(run, fonts, bold).widthOfTextAtSize(run, size), 0);
+}
+
+let fontCache: Promise<{ regular: Uint8Array; bold: Uint8Array }> | null = null;
+
+async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/** The Arabic font is downloaded once per function instance */
+function loadFontBytes() {
+  if (!fontCache) {
+    fontCache = Promise.all([
+      fetchBytes(Deno.env.get("PDF_FONT_URL") || DEFAULT_FONT_URLS.regular),
+      fetchBytes(Deno.env.get("PDF_FONT_BOLD_URL") || DEFAULT_FONT_URLS.bold),
+    ]).then(([regular, bold]) => ({ regular, bold }));
+    fontCache.catch(() => {
+      fontCache = null;
+    });
+  }
+  return fontCache;
+}
+
+async function embedLogo(doc: PDFDocument, url: string | null | undefined): Promise<PDFImage | null> {
+  if (!url) return null;
+  try {
+    const bytes = await fetchBytes(url);
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await doc.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await doc.embedJpg(bytes);
+  } catch (error) {
+    console.error("Failed to load workshop logo:", error);
+  }
+  return null;
+}
+
+const amount = (value: number | null | undefined) => (Number(value) || 0).toFixed(2);
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString("en-GB", {
+    timeZone: "Asia/Riyadh",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Builds the blocks of one invoice for a given paper layout.
+ */
+function composeInvoice(
+  invoice: PdfInvoice,
+  workshop: PdfWorkshop,
+  layout: PaperLayout,
+  fonts: Fonts,
+  logo: PDFImage | null
+): Block[] {
+  const thermal = layout.height === null;
+  const left = layout.margin;
+  const right = layout.width - layout.margin;
+  const contentWidth = right - left;
+  const size = layout.fontSize;
+  const lineHeight = size * 1.5;
+  const blocks: Block[] = [];
+
+  const width = (text: string, bold = false, textSize = size) =>
+    runsWidth(glyphRuns(text), fonts, bold, textSize);
+
+  const textOp = (text: string, x: number, y: number, align: Align, bold = false, textSize = size): TextOp => {
+    const runs = glyphRuns(text);
+    const w = runsWidth(runs, fonts, bold, textSize);
+    const start = align === "left" ? x : align === "right" ? x - w : x - w / 2;
+    return { kind: "text", runs, x: start, y, size: textSize, bold };
+  };
+
+  // Wraps on words in reading order; each line is converted to visual order when drawn
+  const wrap = (text: string, maxWidth: number, bold = false, textSize = size): string[] => {
+    const lines: string[] = [];
+    let current = "";
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && width(candidate, bold, textSize) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current || lines.length === 0) lines.push(current);
+    return lines;
+  };
+
+  const isArabic = (text: string) => /[؀-ۿ]/.test(text);
+
+  const centered = (lines: string[], bold = false, textSize = size) => {
+    const ops = lines
+      .flatMap((line) => wrap(line, contentWidth, bold, textSize))
+      .map((part, index) => textOp(part, left + contentWidth / 2, textSize * 1.2 + index * textSize * 1.5, "center", bold, textSize));
+    blocks.push({ height: ops.length * textSize * 1.5, ops });
+  };
+
+  const rule = (gap = lineHeight / 2) => {
+    blocks.push({ height: gap * 2, ops: [{ kind: "rule", y: gap, x1: left, x2: right }] });
+  };
+
+  // A4: English label left, value centered, Arabic label right.
+  // Rolls: bilingual label right and value left, on two lines when they do not fit.
+  const row = (label: Label, value: string, bold = false) => {
+    if (!value) return;
+    if (thermal) {
+      const labelText = `${label[0]} ${label[1]}`;
+      const labelWidth = width(labelText, bold);
+      const sameLine = labelWidth + width(value, bold) + size <= contentWidth;
+      const valueLines = wrap(value, sameLine ? contentWidth - labelWidth - size : contentWidth, bold);
+      const valueTop = sameLine ? 0 : lineHeight;
+      const ops = [
+        textOp(labelText, right, size * 1.2, "right", bold),
+        ...valueLines.map((line, index) => textOp(line, left, valueTop + size * 1.2 + index * lineHeight, "left", bold)),
+      ];
+      blocks.push({ height: valueTop + valueLines.length * lineHeight, ops });
+      return;
+    }
+    blocks.push({
+      height: lineHeight,
+      ops: [
+        textOp(label[1], left, size * 1.2, "left", bold),
+        textOp(value, left + contentWidth / 2, size * 1.2, "center", bold),
+        textOp(label[0], right, size * 1.2, "right", bold),
+      ],
+    });
+  };
+
+  // Header
+  if (logo) {
+    const scale = Math.min(layout.logoSize / logo.width, layout.logoSize / logo.height);
+    const w = logo.width * scale;
+    const h = logo.height * scale;
+    blocks.push({
+      height: h + lineHeight / 2,
+      ops: [{ kind: "image", image: logo, x: thermal ? left + (contentWidth - w) / 2 : left, y: 0, width: w, height: h }],
+    });
+  }
+
+  centered([workshop.name], true, size * 1.4);
+  centered([
+    workshop.address || "",
+    workshop.phone ? `${LABELS.phone[1]}: ${workshop.phone}` : "",
+    workshop.tax_number ? `${LABELS.vatNumber[0]} ${LABELS.vatNumber[1]}: ${workshop.tax_number}` : "",
+    workshop.commercial_registration
+      ? `${LABELS.commercialRegistration[0]} ${LABELS.commercialRegistration[1]}: ${workshop.commercial_registration}`
+      : "",
+  ].filter(Boolean));
+  rule();
+
+  const quotation = invoice.kind === "quotation";
+  const title = quotation ? LABELS.quotation : Number(invoice.tax_rate) > 0 ? LABELS.taxInvoice : LABELS.invoice;
+  centered([title[0], title[1]], true, size * 1.2);
+  if (!quotation && invoice.status === "draft") {
+    centered([`${LABELS.draft[0]} - ${LABELS.draft[1]}`], true);
+  }
+  rule();
+
+  row(quotation ? LABELS.quotationNumber : LABELS.invoiceNumber, invoice.invoice_number, true);
+  row(LABELS.date, formatDate(invoice.created_at));
+  row(LABELS.validUntil, invoice.valid_until || "");
+  row(LABELS.customer, invoice.customer?.name || "");
+  row(LABELS.phone, invoice.customer?.phone || "");
+  row(LABELS.vehicle, [invoice.vehicle?.plate_number, invoice.vehicle?.car_make, invoice.vehicle?.car_model]
+    .filter(Boolean).join(" "));
+  row(LABELS.period, invoice.period || "");
+  rule();
+
+  const groupHeading = (group: string) => {
+    const lines = wrap(group, contentWidth, true);
+    const align: Align = isArabic(group) ? "right" : "left";
+    blocks.push({
+      height: (lines.length + 0.5) * lineHeight,
+      ops: lines.map((line, index) =>
+        textOp(line, align === "right" ? right : left, lineHeight / 2 + size * 1.2 + index * lineHeight, align, true)
+      ),
+    });
+  };
+  let currentGroup: string | null | undefined;
+  const startGroup = (group: string | null | undefined) => {
+    if (group && group !== currentGroup) groupHeading(group);
+    currentGroup = group;
+  };
+
+  // Discount and VAT category of a line, printed under its description
+  const lineDetails = (item: PdfInvoiceLine): string[] => [
+    Number(item.discount_percentage) > 0
+      ? `${LABELS.lineDiscount[0]} ${LABELS.lineDiscount[1]} ${Number(item.discount_percentage)}% (-${amount(item.discount_amount)})`
+      : "",
+    item.vat_category && item.vat_category !== "standard"
+      ? `${VAT_CATEGORY_LABELS[item.vat_category][0]} ${VAT_CATEGORY_LABELS[item.vat_category][1]}`
+      : "",
+  ].filter(Boolean);
+
+  // Lines
+  if (thermal) {
+    for (const item of invoice.items) {
+      startGroup(item.group);
+      const description = [item.description, ...lineDetails(item)].flatMap((text) => wrap(text, contentWidth));
+      const align: Align = isArabic(item.description) ? "right" : "left";
+      const ops = description.map((line, index) =>
+        textOp(line, align === "right" ? right : left, size * 1.2 + index * lineHeight, align)
+      );
+      const detailY = size * 1.2 + description.length * lineHeight;
+      ops.push(
+        textOp(`${Number(item.quantity)} x ${amount(item.unit_price)}`, left, detailY, "left"),
+        textOp(amount(item.total), right, detailY, "right", true),
+      );
+      blocks.push({ height: (description.length + 1) * lineHeight, ops });
+    }
+  } else {
+    const columns = {
+      description: left,
+      quantity: left + contentWidth * 0.62,
+      unitPrice: left + contentWidth * 0.8,
+      total: right,
+    };
+    blocks.push({
+      height: lineHeight * 2,
+      ops: [
+        ...([LABELS.description, LABELS.quantity, LABELS.unitPrice, LABELS.lineTotal] as Label[]).flatMap((label, column) => {
+          const x = [columns.description, columns.quantity, columns.unitPrice, columns.total][column];
+          const align: Align = column === 0 ? "left" : column === 3 ? "right" : "center";
+          return [
+            textOp(label[0], x, size * 1.2, align, true),
+            textOp(label[1], x, size * 1.2 + lineHeight, align, true),
+          ];
+        }),
+      ],
+    });
+    rule(lineHeight / 4);
+
+    for (const item of invoice.items) {
+      startGroup(item.group);
+      const description = [item.description, ...lineDetails(item)].flatMap((text) => wrap(text, contentWidth * 0.55));
+      blocks.push({
+        height: description.length * lineHeight,
+        ops: [
+          ...description.map((line, index) => textOp(line, columns.description, size * 1.2 + index * lineHeight, "left")),
+          textOp(String(Number(item.quantity)), columns.quantity, size * 1.2, "center"),
+          textOp(amount(item.unit_price), columns.unitPrice, size * 1.2, "center"),
+          textOp(amount(item.total), columns.total, size * 1.2, "right"),
+        ],
+      });
+    }
+  }
+  rule();
+
+  // Totals
+  const paid = Number(invoice.paid_amount) || 0;
+  row(LABELS.subtotal, amount(invoice.subtotal));
+  if (Number(invoice.discount_amount) > 0) {
+    row([`${LABELS.discount[0]} (${Number(invoice.discount_percentage)}%)`, LABELS.discount[1]], `- ${amount(invoice.discount_amount)}`);
+  }
+  if (Number(invoice.tax_rate) > 0) {
+    row([`${LABELS.vat[0]} (${Number(invoice.tax_rate)}%)`, LABELS.vat[1]], amount(invoice.tax_amount));
+    const breakdown = invoice.tax_breakdown || [];
+    if (breakdown.some((category) => category.vat_category !== "standard")) {
+      for (const category of breakdown) {
+        const label = VAT_CATEGORY_LABELS[category.vat_category];
+        row(
+          [`${label[0]} (${Number(category.tax_rate)}%)`, label[1]],
+          `${LABELS.taxable[1]} ${amount(category.taxable_amount)} / ${LABELS.vat[1]} ${amount(category.tax_amount)}`
+        );
+      }
+    }
+  }
+  row(LABELS.total, `${amount(invoice.total)} SAR`, true);
+  if (paid > 0) {
+    row(LABELS.paid, amount(paid));
+    row(LABELS.balance, amount(Math.max(Number(invoice.total) - paid, 0)), true);
+  }
+
+  if (invoice.notes) {
+    rule();
+    centered([`${LABELS.notes[0]} - ${LABELS.notes[1]}`], true);
+    centered([invoice.notes]);
+  }
+
+  if (invoice.qr_code) {
+    const qrSize = thermal ? contentWidth * 0.6 : 110;
+    blocks.push({
+      height: qrSize + lineHeight,
+      ops: [{ kind: "qr", x: left + (contentWidth - qrSize) / 2, y: lineHeight / 2, size: qrSize, payload: invoice.qr_code }],
+    });
+  }
+
+  centered([LABELS.thanks[0], LABELS.thanks[1]]);
+
+  return blocks;
+}
+
+function drawOp(page: PDFPage, op: DrawOp, top: number, fonts: Fonts) {
+  const pageHeight = page.getHeight();
+  const black = rgb(0, 0, 0);
+
+  switch (op.kind) {
+    case "text": {
+      let x = op.x;
+      for (const run of op.runs) {
+        const font = fontFor(run, fonts, op.bold);
+        page.drawText(run, { x, y: pageHeight - top - op.y, size: op.size, font, color: black });
+        x += font.widthOfTextAtSize(run, op.size);
+      }
+      break;
+    }
+    case "rule":
+      page.drawLine({
+        start: { x: op.x1, y: pageHeight - top - op.y },
+        end: { x: op.x2, y: pageHeight - top - op.y },
+        thickness: 0.5,
+        color: rgb(0.6, 0.6, 0.6),
+      });
+      break;
+    case "image":
+      page.drawImage(op.image, {
+        x: op.x,
+        y: pageHeight - top - op.y - op.height,
+        width: op.width,
+        height: op.height,
+      });
+      break;
+    case "qr": {
+      const { modules } = QRCode.create(op.payload, { errorCorrectionLevel: "M" });
+      const cell = op.size / modules.size;
+      for (let r = 0; r < modules.size; r++) {
+        for (let c = 0; c < modules.size; c++) {
+          if (!modules.get(r, c)) continue;
+          page.drawRectangle({
+            x: op.x + c * cell,
+            y: pageHeight - top - op.y - (r + 1) * cell,
+            width: cell,
+            height: cell,
+            color: black,
+          });
+        }
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Renders one or more invoices into a single PDF, each invoice starting on
+ * a new page.
+ */
+export async function renderInvoicesPdf(
+  invoices: PdfInvoice[],
+  workshop: PdfWorkshop,
+  format: PdfFormat
+): Promise<Uint8Array> {
+  const layout = LAYOUTS[format];
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(invoices.length === 1 ? invoices[0].invoice_number : `${workshop.name} invoices`);
+  doc.setCreator(workshop.name);
+
+  const fontBytes = await loadFontBytes();
+  const fonts: Fonts = {
+    // Subsetting drops the composite glyphs Arabic fonts are built from
+    arabic: await doc.embedFont(fontBytes.regular, { features: ARABIC_FONT_FEATURES }),
+    arabicBold: await doc.embedFont(fontBytes.bold, { features: ARABIC_FONT_FEATURES }),
+    latin: await doc.embedFont(StandardFonts.Helvetica),
+    latinBold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+  const logo = await embedLogo(doc, workshop.logo_url);
+
+  for (const invoice of invoices) {
+    const blocks = composeInvoice(invoice, workshop, layout, fonts, logo);
+
+    if (layout.height === null) {
+      const height = blocks.reduce((sum, block) => sum + block.height, 0) + layout.margin * 2;
+      const page = doc.addPage([layout.width, height]);
+      let top = layout.margin;
+      for (const block of blocks) {
+        block.ops.forEach((op) => drawOp(page, op, top, fonts));
+        top += block.height;
+      }
+      continue;
+    }
+
+    let page = doc.addPage([layout.width, layout.height]);
+    let top = layout.margin;
+    for (const block of blocks) {
+      if (top + block.height > layout.height - layout.margin) {
+        page = doc.addPage([layout.width, layout.height]);
+        top = layout.margin;
+      }
+      block.ops.forEach((op) => drawOp(page, op, top, fonts));
+      top += block.height;
+    }
+  }
+
+  return await doc.save();
+}
@@ -0,0 +1,133 @@
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { ApiError } from "../types.ts";
+import { sendMail, SmtpConfig } from "../mail/smtp.ts";
+import { DocumentMailContext, MailDocumentKind, MailLanguage, renderDocumentMail } from "../mail/templates.ts";
+
+export interface DocumentEmailRequest {
+  organizationId: string;
+  userId: string;
+  kind: MailDocumentKind;
+  documentId: string;
+  to: string;
+  language: MailLanguage;
+  context: Omit<DocumentMailContext, "kind" | "workshopName" | "workshopPhone">;
+  pdf: Uint8Array;
+  filename: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Recipient and language of a document email: the customer's email address
+ * and preferred language unless the sender chose others.
+ */
+export function resolveRecipient(
+  body: { to?: unknown; language?: unknown },
+  customer: { email?: string | null; preferred_language?: string | null } | null
+): { to: string; language: MailLanguage } {
+  const to = (typeof body.to === "string" && body.to.trim()) || customer?.email?.trim() || "";
+  if (!to) {
+    throw new ApiError("The customer has no email address, enter a recipient", "VALIDATION_ERROR", 400);
+  }
+  if (!EMAIL_PATTERN.test(to)) {
+    throw new ApiError("Invalid email address", "VALIDATION_ERROR", 400);
+  }
+
+  const requested = body.language === "ar" || body.language === "en" ? body.language : null;
+  const language = requested ?? (customer?.preferred_language === "en" ? "en" : "ar");
+
+  return { to, language };
+}
+
+/**
+ * SMTP settings of an organization. Needs the service role client: the
+ * password is not readable by users.
+ */
+export async function loadSmtpConfig(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<{ config: SmtpConfig; workshopName: string; workshopPhone: string | null }> {
+  const [{ data: settings, error }, { data: credentials }] = await Promise.all([
+    supabase
+      .from("workshop_settings")
+      .select("name, phone, smtp_host, smtp_port, smtp_secure, smtp_username, smtp_from_email, smtp_from_name")
+      .eq("organization_id", organizationId)
+      .maybeSingle(),
+    supabase
+      .from("mail_credentials")
+      .select("smtp_password")
+      .eq("organization_id", organizationId)
+      .maybeSingle(),
+  ]);
+
+  if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+  if (!settings?.smtp_host || !settings.smtp_from_email) {
+    throw new ApiError("Email is not configured, set the SMTP server in the settings", "EMAIL_NOT_CONFIGURED", 400);
+  }
+
+  return {
+    config: {
+      host: settings.smtp_host,
+      port: settings.smtp_port,
+      secure: settings.smtp_secure,
+      username: settings.smtp_username,
+      password: credentials?.smtp_password ?? null,
+      fromEmail: settings.smtp_from_email,
+      fromName: settings.smtp_from_name || settings.name,
+    },
+    workshopName: settings.name,
+    workshopPhone: settings.phone || null,
+  };
+}
+
+/**
+ * Emails a document with its PDF and records the attempt in
+ * `document_emails`. A failed delivery is recorded too, then reported as 502.
+ */
+export async function sendDocumentEmail(supabase: SupabaseClient, request: DocumentEmailRequest) {
+  const { config, workshopName, workshopPhone } = await loadSmtpConfig(supabase, request.organizationId);
+  const mail = renderDocumentMail(
+    { ...request.context, kind: request.kind, workshopName, workshopPhone },
+    request.language
+  );
+
+  let messageId: string | null = null;
+  let sendError: string | null = null;
+  try {
+    messageId = await sendMail(config, {
+      to: request.to,
+      subject: mail.subject,
+      text: mail.text,
+      html: mail.html,
+      attachments: [{ filename: request.filename, content: request.pdf, contentType: "application/pdf" }],
+    });
+  } catch (error) {
+    console.error(`Failed to email ${request.kind} ${request.documentId}:`, error);
+    sendError = error instanceof Error ? error.message : String(error);
+  }
+
+  const { data: log, error: logError } = await supabase
+    .from("document_emails")
+    .insert({
+      organization_id: request.organizationId,
+      invoice_id: request.kind === "invoice" ? request.documentId : null,
+      quotation_id: request.kind === "quotation" ? request.documentId : null,
+      recipient: request.to,
+      language: request.language,
+      subject: mail.subject,
+      status: sendError ? "failed" : "sent",
+      message_id: messageId,
+      error: sendError?.slice(0, 1000) ?? null,
+      sent_by: request.userId,
+    })
+    .select()
+    .single();
+
+  if (logError) console.error("Failed to record document email:", logError);
+
+  if (sendError) {
+    throw new ApiError(`The email could not be sent: ${sendError}`, "EMAIL_FAILED", 502, { email: log });
+  }
+
+  return log;
+}
@@ -0,0 +1,407 @@
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { ApiError } from "../types.ts";
+import { EInvoiceAllowance, EInvoiceDocument, EInvoiceLine, EInvoiceTaxSubtotal, InvoiceTypeCode, TaxCategoryCode } from "../zatca/ubl.ts";
+import { INITIAL_PREVIOUS_HASH, SigningCredentials, stampInvoice } from "../zatca/signer.ts";
+import { TEST_CERTIFICATE, TEST_PRIVATE_KEY } from "../zatca/testCredentials.ts";
+
+const MAX_CHAIN_RETRIES = 5;
+
+export interface ZatcaSettings {
+  name: string;
+  address?: string | null;
+  tax_number?: string | null;
+  commercial_registration?: string | null;
+  zatca_certificate?: string | null;
+  zatca_environment?: string | null;
+}
+
+type VatCategory = "standard" | "zero_rated" | "exempt";
+
+interface DocumentLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  /** Amount after the line discount */
+  total: number;
+  vat_category?: VatCategory | null;
+}
+
+/** A row of invoice_tax_breakdown() / invoice_note_tax_breakdown() */
+interface TaxBreakdownRow {
+  vat_category: VatCategory;
+  tax_rate: number;
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+/** The invoice or credit / debit note being reported */
+interface SourceDocument {
+  number: string;
+  created_at: string;
+  /** Invoices only, notes are issued when they are created */
+  issued_at?: string | null;
+  discount_amount: number | null;
+  tax_rate: number | null;
+  tax_type: string | null;
+  tax_amount: number | null;
+  total: number;
+  lines: DocumentLine[];
+  taxBreakdown: TaxBreakdownRow[];
+  typeCode: InvoiceTypeCode;
+  billingReference?: string;
+  instructionNote?: string;
+}
+
+interface SigningContext {
+  settings: ZatcaSettings | null;
+  credentials: SigningCredentials;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const CATEGORY_CODES: Record<VatCategory, TaxCategoryCode> = {
+  standard: "S",
+  zero_rated: "Z",
+  exempt: "E",
+};
+
+const EXEMPTION_REASONS: Partial<Record<TaxCategoryCode, string>> = {
+  Z: "Zero rated supply",
+  E: "Exempt supply",
+  O: "Not subject to VAT",
+};
+
+/**
+ * Resolves the signing credentials of an organization. The development
+ * environment falls back to the bundled test key pair.
+ */
+export function resolveCredentials(settings: ZatcaSettings | null, privateKey: string | null): SigningCredentials {
+  if (privateKey && settings?.zatca_certificate) {
+    return { privateKey, certificate: settings.zatca_certificate };
+  }
+
+  if (!settings?.zatca_environment || settings.zatca_environment === "development") {
+    return { privateKey: TEST_PRIVATE_KEY, certificate: TEST_CERTIFICATE };
+  }
+
+  throw new ApiError("ZATCA signing key and certificate are not configured", "ZATCA_NOT_CONFIGURED", 422);
+}
+
+function buildDocument(
+  source: SourceDocument,
+  customerName: string,
+  settings: ZatcaSettings | null,
+  icv: number,
+  previousHash: string
+): EInvoiceDocument {
+  const rate = Number(source.tax_rate) || 0;
+  const taxAmount = Number(source.tax_amount) || 0;
+  const inclusive = source.tax_type === "inclusive";
+  // Without a VAT rate on the document every line is outside the scope of VAT
+  const subjectToVat = rate > 0;
+  const categoryOf = (line: DocumentLine): TaxCategoryCode =>
+    subjectToVat ? CATEGORY_CODES[line.vat_category || "standard"] : "O";
+
+  const lines: EInvoiceLine[] = source.lines.map((item, index) => {
+    const category = categoryOf(item);
+    const percent = category === "S" ? rate : 0;
+    // Only standard rated amounts include VAT on tax inclusive documents
+    const factor = inclusive ? 1 + percent / 100 : 1;
+    const netAmount = round(Number(item.total) / factor);
+    return {
+      id: index + 1,
+      name: item.description,
+      quantity: Number(item.quantity) || 1,
+      unitPrice: round(Number(item.unit_price) / factor),
+      netAmount,
+      taxCategory: category,
+      taxPercent: percent,
+      taxAmount: round((netAmount * percent) / 100),
+    };
+  });
+
+  const lineExtensionAmount = round(lines.reduce((sum, line) => sum + line.netAmount, 0));
+  const total = Number(source.total) || 0;
+  const taxExclusiveAmount = round(total - taxAmount);
+
+  const taxSubtotals: EInvoiceTaxSubtotal[] = subjectToVat && source.taxBreakdown.length > 0
+    ? source.taxBreakdown.map((row) => {
+      const category = CATEGORY_CODES[row.vat_category];
+      return {
+        taxCategory: category,
+        taxPercent: category === "S" ? Number(row.tax_rate) || 0 : 0,
+        taxableAmount: round(Number(row.taxable_amount) || 0),
+        taxAmount: round(Number(row.tax_amount) || 0),
+        exemptionReason: EXEMPTION_REASONS[category],
+      };
+    })
+    : [{
+      taxCategory: subjectToVat ? "S" : "O",
+      taxPercent: subjectToVat ? rate : 0,
+      taxableAmount: taxExclusiveAmount,
+      taxAmount,
+      exemptionReason: subjectToVat ? undefined : EXEMPTION_REASONS.O,
+    }];
+
+  // The document discount of each category is whatever separates its lines
+  // from its taxable amount
+  const allowances: EInvoiceAllowance[] = Number(source.discount_amount) > 0
+    ? taxSubtotals.map((subtotal) => {
+      // A single subtotal covers every line
+      const linesAmount = taxSubtotals.length === 1
+        ? lineExtensionAmount
+        : lines
+          .filter((line) => line.taxCategory === subtotal.taxCategory && line.taxPercent === subtotal.taxPercent)
+          .reduce((sum, line) => sum + line.netAmount, 0);
+      return {
+        taxCategory: subtotal.taxCategory,
+        taxPercent: subtotal.taxPercent,
+        amount: Math.max(round(linesAmount - subtotal.taxableAmount), 0),
+      };
+    })
+    : [];
+  const allowanceTotal = round(allowances.reduce((sum, allowance) => sum + allowance.amount, 0));
+
+  return {
+    uuid: crypto.randomUUID(),
+    number: source.number,
+    icv,
+    previousHash,
+    issuedAt: new Date(source.issued_at || source.created_at),
+    typeCode: source.typeCode,
+    subtype: "0200000",
+    currency: "SAR",
+    seller: {
+      name: settings?.name || "",
+      vatNumber: settings?.tax_number,
+      crNumber: settings?.commercial_registration,
+      address: settings?.address,
+    },
+    buyer: { name: customerName },
+    lines,
+    taxSubtotals,
+    lineExtensionAmount,
+    allowances,
+    allowanceTotal,
+    taxExclusiveAmount,
+    taxTotal: taxAmount,
+    payableAmount: total,
+    billingReference: source.billingReference,
+    instructionNote: source.instructionNote,
+  };
+}
+
+async function loadSigningContext(supabase: SupabaseClient, organizationId: string): Promise<SigningContext> {
+  const { data: settings, error: settingsError } = await supabase
+    .from("workshop_settings")
+    .select("name, address, tax_number, commercial_registration, zatca_certificate, zatca_environment")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (settingsError) throw new ApiError(settingsError.message, "DB_ERROR", 500);
+
+  const { data: key, error: keyError } = await supabase
+    .from("zatca_credentials")
+    .select("private_key")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (keyError) throw new ApiError(keyError.message, "DB_ERROR", 500);
+
+  return { settings, credentials: resolveCredentials(settings, key?.private_key || null) };
+}
+
+async function customerName(supabase: SupabaseClient, customerId: string): Promise<string> {
+  const { data: customer } = await supabase
+    .from("customers")
+    .select("name")
+    .eq("id", customerId)
+    .maybeSingle();
+
+  return customer?.name || "";
+}
+
+async function taxBreakdown(
+  supabase: SupabaseClient,
+  fn: "invoice_tax_breakdown" | "invoice_note_tax_breakdown",
+  args: Record<string, string>
+): Promise<TaxBreakdownRow[]> {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+  return data || [];
+}
+
+/**
+ * Appends a document to the e-invoice chain of an organization.
+ *
+ * The invoice counter (ICV) and previous invoice hash (PIH) form a chain per
+ * organization. The unique (organization_id, icv) constraint rejects a
+ * concurrent writer, in which case the chain head is re-read and retried.
+ * `findIssued` detects a concurrent writer that issued the same document.
+ */
+async function appendToChain(
+  supabase: SupabaseClient,
+  organizationId: string,
+  source: SourceDocument,
+  buyerName: string,
+  reference: { invoice_id: string; note_id?: string },
+  findIssued: () => Promise<unknown>
+) {
+  const { settings, credentials } = await loadSigningContext(supabase, organizationId);
+
+  for (let attempt = 0; attempt < MAX_CHAIN_RETRIES; attempt++) {
+    const { data: head, error: headError } = await supabase
+      .from("invoice_einvoices")
+      .select("icv, invoice_hash")
+      .eq("organization_id", organizationId)
+      .order("icv", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (headError) throw new ApiError(headError.message, "DB_ERROR", 500);
+
+    const document = buildDocument(
+      source,
+      buyerName,
+      settings,
+      (head?.icv || 0) + 1,
+      head?.invoice_hash || INITIAL_PREVIOUS_HASH
+    );
+    const stamped = await stampInvoice(document, credentials);
+
+    const { data, error } = await supabase
+      .from("invoice_einvoices")
+      .insert({
+        organization_id: organizationId,
+        ...reference,
+        icv: document.icv,
+        uuid: document.uuid,
+        previous_hash: document.previousHash,
+        invoice_hash: stamped.invoiceHash,
+        signature: stamped.signature,
+        qr_code: stamped.qrCode,
+        xml: stamped.xml,
+        environment: settings?.zatca_environment || "development",
+      })
+      .select()
+      .single();
+
+    if (!error) return data;
+    // 23505 = unique_violation: the counter value was taken, or this
+    // document was issued concurrently
+    if (error.code !== "23505") throw new ApiError(error.message, "DB_ERROR", 500);
+
+    const issued = await findIssued();
+    if (issued) return issued;
+  }
+
+  throw new ApiError("Could not allocate an e-invoice counter, please retry", "EINVOICE_CONFLICT", 409);
+}
+
+/**
+ * Generates, stamps and stores the e-invoice of an issued invoice.
+ * Must be called with a service role client: e-invoices are never written
+ * through RLS.
+ */
+export async function issueEInvoice(supabase: SupabaseClient, invoiceId: string, organizationId: string) {
+  const findIssued = async () => {
+    const { data, error } = await supabase
+      .from("invoice_einvoices")
+      .select("*")
+      .eq("invoice_id", invoiceId)
+      .is("note_id", null)
+      .maybeSingle();
+
+    if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+    return data;
+  };
+
+  const existing = await findIssued();
+  if (existing) return existing;
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from("invoices")
+    .select(`
+      id, invoice_number, status, created_at, issued_at, subtotal, discount_amount,
+      tax_rate, tax_type, tax_amount, total, customer_id,
+      invoice_items(description, quantity, unit_price, total, vat_category)
+    `)
+    .eq("id", invoiceId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (invoiceError) throw new ApiError(invoiceError.message, "DB_ERROR", 500);
+  if (!invoice) throw new ApiError("Invoice not found", "NOT_FOUND", 404);
+  if (invoice.status !== "issued") {
+    throw new ApiError("Draft invoices cannot be reported", "INVOICE_NOT_ISSUED", 409);
+  }
+
+  return appendToChain(
+    supabase,
+    organizationId,
+    {
+      ...invoice,
+      number: invoice.invoice_number,
+      lines: invoice.invoice_items || [],
+      taxBreakdown: await taxBreakdown(supabase, "invoice_tax_breakdown", { p_invoice_id: invoiceId }),
+      typeCode: "388",
+    },
+    await customerName(supabase, invoice.customer_id),
+    { invoice_id: invoiceId },
+    findIssued
+  );
+}
+
+/**
+ * Generates, stamps and stores the e-invoice of a credit note (381) or
+ * debit note (383), referencing the original invoice.
+ */
+export async function issueNoteEInvoice(supabase: SupabaseClient, noteId: string, organizationId: string) {
+  const findIssued = async () => {
+    const { data, error } = await supabase
+      .from("invoice_einvoices")
+      .select("*")
+      .eq("note_id", noteId)
+      .maybeSingle();
+
+    if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+    return data;
+  };
+
+  const existing = await findIssued();
+  if (existing) return existing;
+
+  const { data: note, error: noteError } = await supabase
+    .from("invoice_notes")
+    .select(`
+      id, invoice_id, note_type, note_number, reason, created_at, discount_amount,
+      tax_rate, tax_type, tax_amount, total,
+      invoice:invoices(invoice_number, customer_id),
+      invoice_note_items(description, quantity, unit_price, total, vat_category)
+    `)
+    .eq("id", noteId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (noteError) throw new ApiError(noteError.message, "DB_ERROR", 500);
+  if (!note) throw new ApiError("Note not found", "NOT_FOUND", 404);
+
+  const invoice = note.invoice as unknown as { invoice_number: string; customer_id: string };
+
+  return appendToChain(
+    supabase,
+    organizationId,
+    {
+      ...note,
+      number: note.note_number,
+      lines: note.invoice_note_items || [],
+      taxBreakdown: await taxBreakdown(supabase, "invoice_note_tax_breakdown", { p_note_id: noteId }),
+      typeCode: note.note_type === "credit" ? "381" : "383",
+      billingReference: invoice.invoice_number,
+      instructionNote: note.reason,
+    },
+    await customerName(supabase, invoice.customer_id),
+    { invoice_id: note.invoice_id, note_id: noteId },
+    findIssued
+  );
+}
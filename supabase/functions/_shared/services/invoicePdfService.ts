@@ -0,0 +1,240 @@
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { ApiError } from "../types.ts";
+import { buildQrPayloadOrNull } from "../zatca/tlv.ts";
+import { PdfFormat, PdfInvoice, PdfWorkshop, renderInvoicesPdf } from "../pdf/invoicePdf.ts";
+
+const MAX_BATCH_INVOICES = 200;
+
+export interface InvoicePdfSelection {
+  invoiceId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// A date without a time covers the whole day
+function endOfDay(value: string): string {
+  return value.length === 10 ? `${value}T23:59:59.999` : value;
+}
+
+/**
+ * Loads one invoice, or every invoice created in a date range, and renders
+ * them into a single PDF.
+ */
+export async function buildInvoicesPdf(
+  supabase: SupabaseClient,
+  settingsClient: SupabaseClient,
+  organizationId: string,
+  selection: InvoicePdfSelection,
+  format: PdfFormat
+): Promise<{ pdf: Uint8Array; filename: string }> {
+  let query = supabase
+    .from("invoices")
+    .select(`
+      id, invoice_number, status, created_at, issued_at, customer_id, vehicle_id, notes,
+      is_consolidated, period_start, period_end,
+      subtotal, discount_percentage, discount_amount, tax_rate, tax_type, tax_amount, total, paid_amount,
+      invoice_items(description, quantity, unit_price, discount_percentage, discount_amount, vat_category, total, work_order_id, created_at)
+    `)
+    .eq("organization_id", organizationId)
+    .is("deleted_at", null);
+
+  if (selection.invoiceId) {
+    query = query.eq("id", selection.invoiceId);
+  } else {
+    if (!selection.startDate || !selection.endDate) {
+      throw new ApiError("startDate and endDate are required", "VALIDATION_ERROR", 400);
+    }
+    query = query
+      .gte("created_at", selection.startDate)
+      .lte("created_at", endOfDay(selection.endDate))
+      .order("created_at", { ascending: true })
+      .limit(MAX_BATCH_INVOICES + 1);
+  }
+
+  const { data: invoices, error } = await query;
+  if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+  if (!invoices || invoices.length === 0) {
+    throw new ApiError(selection.invoiceId ? "Invoice not found" : "No invoices in this period", "NOT_FOUND", 404);
+  }
+  if (invoices.length > MAX_BATCH_INVOICES) {
+    throw new ApiError(
+      `More than ${MAX_BATCH_INVOICES} invoices in this period, choose a shorter range`,
+      "VALIDATION_ERROR",
+      400
+    );
+  }
+
+  const ids = invoices.map((invoice) => invoice.id);
+  const customerIds = [...new Set(invoices.map((invoice) => invoice.customer_id).filter(Boolean))];
+  const vehicleIds = [...new Set(invoices.map((invoice) => invoice.vehicle_id).filter(Boolean))];
+  const workOrderIds = [...new Set(invoices
+    .filter((invoice) => invoice.is_consolidated)
+    .flatMap((invoice) => (invoice.invoice_items || []).map((item) => item.work_order_id))
+    .filter(Boolean))];
+
+  // Only invoices with zero rated or exempt lines print a breakdown per category
+  const mixedCategoryIds = invoices
+    .filter((invoice) => (invoice.invoice_items || []).some((item) => item.vat_category !== "standard"))
+    .map((invoice) => invoice.id);
+
+  const [{ data: customers }, { data: vehicles }, { data: workOrders }, { data: einvoices }, { data: settings }, breakdowns] = await Promise.all([
+    customerIds.length
+      ? supabase.from("customers").select("id, name, phone").in("id", customerIds)
+      : Promise.resolve({ data: [] }),
+    vehicleIds.length
+      ? supabase.from("vehicles").select("id, plate_number, car_make, car_model").in("id", vehicleIds)
+      : Promise.resolve({ data: [] }),
+    workOrderIds.length
+      ? supabase
+        .from("work_orders")
+        .select("id, order_number, completed_at, vehicle:vehicles(plate_number, car_make, car_model)")
+        .in("id", workOrderIds)
+      : Promise.resolve({ data: [] }),
+    supabase
+      .from("invoice_einvoices")
+      .select("invoice_id, qr_code")
+      .in("invoice_id", ids)
+      .is("note_id", null),
+    settingsClient
+      .from("workshop_settings")
+      .select("name, address, phone, tax_number, commercial_registration, logo_url")
+      .eq("organization_id", organizationId)
+      .maybeSingle(),
+    Promise.all(mixedCategoryIds.map(async (id) => {
+      const { data, error } = await supabase.rpc("invoice_tax_breakdown", { p_invoice_id: id });
+      if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+      return [id, data] as const;
+    })),
+  ]);
+
+  const breakdownOf = new Map(breakdowns);
+
+  const workshop: PdfWorkshop = settings || { name: "" };
+
+  const documents: PdfInvoice[] = invoices.map((invoice) => {
+    const einvoice = (einvoices || []).find((row) => row.invoice_id === invoice.id);
+    const orderOf = (id: string | null) => (workOrders || []).find((order) => order.id === id);
+    const lines = [...(invoice.invoice_items || [])]
+      .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+
+    // Consolidated invoices list their lines per vehicle and work order
+    const items = invoice.is_consolidated
+      ? lines
+        .sort((a, b) =>
+          String(orderOf(a.work_order_id)?.completed_at).localeCompare(String(orderOf(b.work_order_id)?.completed_at)))
+        .map((item) => {
+          const order = orderOf(item.work_order_id);
+          const vehicle = order?.vehicle as PdfInvoice["vehicle"] | undefined;
+          return {
+            ...item,
+            group: order
+              ? [vehicle?.plate_number, vehicle?.car_make, vehicle?.car_model, `- ${order.order_number}`].filter(Boolean).join(" ")
+              : null,
+          };
+        })
+      : lines;
+
+    return {
+      ...invoice,
+      customer: (customers || []).find((customer) => customer.id === invoice.customer_id) || null,
+      vehicle: (vehicles || []).find((vehicle) => vehicle.id === invoice.vehicle_id) || null,
+      items,
+      tax_breakdown: breakdownOf.get(invoice.id) || [],
+      period: invoice.is_consolidated && invoice.period_start
+        ? `${invoice.period_start} - ${invoice.period_end}`
+        : null,
+      // Drafts are not tax invoices yet and carry no QR code
+      qr_code: invoice.status === "draft"
+        ? null
+        : einvoice?.qr_code || buildQrPayloadOrNull({
+          sellerName: workshop.name || "",
+          vatNumber: workshop.tax_number || "",
+          timestamp: new Date(invoice.issued_at || invoice.created_at).toISOString().slice(0, 19) + "Z",
+          total: Number(invoice.total) || 0,
+          vatTotal: Number(invoice.tax_amount) || 0,
+        }),
+    };
+  });
+
+  const pdf = await renderInvoicesPdf(documents, workshop, format);
+  const filename = selection.invoiceId
+    ? `${invoices[0].invoice_number}.pdf`
+    : `invoices-${selection.startDate}-${selection.endDate}.pdf`;
+
+  return { pdf, filename };
+}
+
+/**
+ * Renders a quotation with the invoice layout: services first, then spare
+ * parts, as they are listed on the quotation.
+ */
+export async function buildQuotationPdf(
+  supabase: SupabaseClient,
+  settingsClient: SupabaseClient,
+  organizationId: string,
+  quotationId: string,
+  format: PdfFormat
+): Promise<{ pdf: Uint8Array; filename: string }> {
+  const { data: quotation, error } = await supabase
+    .from("quotations")
+    .select(`
+      id, quotation_number, status, issue_date, valid_until, notes,
+      subtotal, discount_percentage, discount_amount, tax_rate, tax_type, tax_amount, total,
+      customer:customers(name, phone),
+      vehicle:vehicles(plate_number, car_make, car_model),
+      services:quotation_services(description, labor_cost, created_at),
+      spare_parts:quotation_spare_parts(quantity, unit_price, total, created_at, spare_part:spare_parts(name))
+    `)
+    .eq("id", quotationId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+  if (!quotation) throw new ApiError("Quotation not found", "NOT_FOUND", 404);
+
+  const { data: settings } = await settingsClient
+    .from("workshop_settings")
+    .select("name, address, phone, tax_number, commercial_registration, logo_url")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  const byCreation = (a: { created_at: string }, b: { created_at: string }) =>
+    String(a.created_at).localeCompare(String(b.created_at));
+
+  const document: PdfInvoice = {
+    kind: "quotation",
+    invoice_number: quotation.quotation_number,
+    status: quotation.status,
+    created_at: quotation.issue_date,
+    valid_until: quotation.valid_until,
+    discount_percentage: quotation.discount_percentage,
+    discount_amount: quotation.discount_amount,
+    tax_rate: quotation.tax_rate,
+    tax_type: quotation.tax_type,
+    tax_amount: quotation.tax_amount,
+    subtotal: quotation.subtotal,
+    total: quotation.total,
+    paid_amount: 0,
+    notes: quotation.notes,
+    customer: quotation.customer as unknown as PdfInvoice["customer"],
+    vehicle: quotation.vehicle as unknown as PdfInvoice["vehicle"],
+    items: [
+      ...[...(quotation.services || [])].sort(byCreation).map((service) => ({
+        description: service.description,
+        quantity: 1,
+        unit_price: Number(service.labor_cost),
+        total: Number(service.labor_cost),
+      })),
+      ...[...(quotation.spare_parts || [])].sort(byCreation).map((part) => ({
+        description: (part.spare_part as unknown as { name: string } | null)?.name || "",
+        quantity: Number(part.quantity),
+        unit_price: Number(part.unit_price),
+        total: Number(part.total),
+      })),
+    ],
+    qr_code: null,
+  };
+
+  const pdf = await renderInvoicesPdf([document], settings || { name: "" }, format);
+  return { pdf, filename: `${quotation.quotation_number}.pdf` };
+}
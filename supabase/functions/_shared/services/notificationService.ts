@@ -0,0 +1,98 @@
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { createProvider, NotificationSendError, ProviderName } from "../notifications/providers.ts";
+
+const BATCH_SIZE = 20;
+
+interface QueuedMessage {
+  id: string;
+  organization_id: string;
+  provider: ProviderName;
+  recipient: string;
+  body: string;
+}
+
+interface ProviderSettings {
+  notification_api_url: string | null;
+  notification_sender: string | null;
+  api_key: string | null;
+}
+
+export interface ProcessResult {
+  sent: number;
+  failed: number;
+}
+
+async function loadProviderSettings(supabase: SupabaseClient, organizationId: string): Promise<ProviderSettings> {
+  const [{ data: settings }, { data: credentials }] = await Promise.all([
+    supabase
+      .from("workshop_settings")
+      .select("notification_api_url, notification_sender")
+      .eq("organization_id", organizationId)
+      .maybeSingle(),
+    supabase
+      .from("notification_credentials")
+      .select("api_key")
+      .eq("organization_id", organizationId)
+      .maybeSingle(),
+  ]);
+
+  return {
+    notification_api_url: settings?.notification_api_url ?? null,
+    notification_sender: settings?.notification_sender ?? null,
+    api_key: credentials?.api_key ?? null,
+  };
+}
+
+/**
+ * Sends the due messages of the queue, of one organization or of all of them.
+ * Needs the service role client: provider credentials are not readable by users.
+ */
+export async function processNotificationQueue(
+  supabase: SupabaseClient,
+  organizationId: string | null = null
+): Promise<ProcessResult> {
+  const { data, error } = await supabase.rpc("claim_notification_messages", {
+    p_organization_id: organizationId,
+    p_limit: BATCH_SIZE,
+  });
+  if (error) throw new Error(error.message);
+
+  const messages = (data || []) as QueuedMessage[];
+  const settingsByOrg = new Map<string, ProviderSettings>();
+  const result: ProcessResult = { sent: 0, failed: 0 };
+
+  for (const message of messages) {
+    try {
+      let settings = settingsByOrg.get(message.organization_id);
+      if (!settings) {
+        settings = await loadProviderSettings(supabase, message.organization_id);
+        settingsByOrg.set(message.organization_id, settings);
+      }
+
+      const provider = createProvider({
+        provider: message.provider,
+        apiUrl: settings.notification_api_url,
+        sender: settings.notification_sender,
+        apiKey: settings.api_key,
+      });
+      const providerMessageId = await provider.send({ id: message.id, to: message.recipient, body: message.body });
+
+      await supabase.rpc("complete_notification_message", {
+        p_message_id: message.id,
+        p_provider_message_id: providerMessageId,
+      });
+      result.sent++;
+    } catch (sendError) {
+      console.error(`Notification ${message.id} failed:`, sendError);
+      await supabase.rpc("fail_notification_message", {
+        p_message_id: message.id,
+        p_error: sendError instanceof Error ? sendError.message : String(sendError),
+        // Network errors and the like are worth another attempt
+        p_retryable: sendError instanceof NotificationSendError ? sendError.retryable : true,
+      });
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -62,7 +62,17 @@ export interface WorkOrder {
   customer_id: string;
   vehicle_id: string;
   description: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+  status:
+    | 'received'
+    | 'diagnosing'
+    | 'awaiting_approval'
+    | 'awaiting_parts'
+    | 'in_progress'
+    | 'quality_check'
+    | 'ready_for_pickup'
+    | 'delivered'
+    | 'cancelled';
+  cancellation_reason?: string | null;
   priority?: 'low' | 'medium' | 'high';
   assigned_technician_id?: string;
   estimated_cost?: number;
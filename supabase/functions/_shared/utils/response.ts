@@ -66,4 +66,15 @@ export function errorResponse(
   });
 }
 
+export function fileResponse(body: Uint8Array, contentType: string, filename: string): Response {
+  return new Response(body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": contentType,
+      "Content-Disposition": `inline; filename="${filename}"`,
+    },
+  });
+}
+
 export { corsHeaders };
\ No newline at end of file
@@ -0,0 +1,137 @@
+/**
+ * Minimal PEM / DER helpers for the ZATCA compliance certificate and EC key.
+ * Only the fields required by the cryptographic stamp are extracted.
+ */
+import { base64ToBytes } from "./tlv.ts";
+
+export interface ParsedCertificate {
+  /** Base64 body of the PEM (no header/footer, no line breaks) */
+  base64: string;
+  der: Uint8Array;
+  serialNumber: string;
+  issuerName: string;
+  /** DER encoded SubjectPublicKeyInfo - QR tag 8 */
+  publicKey: Uint8Array;
+  /** Raw signature value of the certificate - QR tag 9 */
+  signature: Uint8Array;
+}
+
+interface DerNode {
+  tag: number;
+  start: number;
+  valueStart: number;
+  end: number;
+}
+
+const OID_NAMES: Record<string, string> = {
+  "2.5.4.3": "CN",
+  "2.5.4.5": "SERIALNUMBER",
+  "2.5.4.6": "C",
+  "2.5.4.7": "L",
+  "2.5.4.8": "ST",
+  "2.5.4.10": "O",
+  "2.5.4.11": "OU",
+  "0.9.2342.19200300.100.1.25": "DC",
+  "1.2.840.113549.1.9.1": "E",
+};
+
+function readNode(bytes: Uint8Array, offset: number): DerNode {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let valueStart = offset + 2;
+
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = (length << 8) | bytes[valueStart + i];
+    }
+    valueStart += count;
+  }
+
+  return { tag, start: offset, valueStart, end: valueStart + length };
+}
+
+function children(bytes: Uint8Array, node: DerNode): DerNode[] {
+  const result: DerNode[] = [];
+  let offset = node.valueStart;
+  while (offset < node.end) {
+    const child = readNode(bytes, offset);
+    result.push(child);
+    offset = child.end;
+  }
+  return result;
+}
+
+function decodeOid(bytes: Uint8Array): string {
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = (value << 7) | (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+function decodeName(bytes: Uint8Array, name: DerNode): string {
+  const decoder = new TextDecoder();
+  const rdns = children(bytes, name).map((set) => {
+    const [oidNode, valueNode] = children(bytes, children(bytes, set)[0]);
+    const oid = decodeOid(bytes.slice(oidNode.valueStart, oidNode.end));
+    const value = decoder.decode(bytes.slice(valueNode.valueStart, valueNode.end));
+    return `${OID_NAMES[oid] || oid}=${value}`;
+  });
+  // RFC 4514 string representation lists the most specific RDN first
+  return rdns.reverse().join(", ");
+}
+
+export function pemBody(pem: string): string {
+  return pem
+    .replace(/-----BEGIN [^-]+-----/, "")
+    .replace(/-----END [^-]+-----/, "")
+    .replace(/\s+/g, "");
+}
+
+export function parseCertificate(pem: string): ParsedCertificate {
+  const base64 = pemBody(pem);
+  const der = base64ToBytes(base64);
+
+  const root = readNode(der, 0);
+  const [tbs, , signatureValue] = children(der, root);
+  const tbsFields = children(der, tbs);
+  const fields = tbsFields[0].tag === 0xa0 ? tbsFields.slice(1) : tbsFields;
+  const [serial, , issuer, , , spki] = fields;
+
+  let serialNumber = 0n;
+  for (const byte of der.slice(serial.valueStart, serial.end)) {
+    serialNumber = (serialNumber << 8n) | BigInt(byte);
+  }
+
+  return {
+    base64,
+    der,
+    serialNumber: serialNumber.toString(),
+    issuerName: decodeName(der, issuer),
+    publicKey: der.slice(spki.start, spki.end),
+    // First byte of a BIT STRING is the number of unused bits
+    signature: der.slice(signatureValue.valueStart + 1, signatureValue.end),
+  };
+}
+
+/**
+ * Extracts the 32 byte secp256k1 scalar from either a SEC1
+ * ("EC PRIVATE KEY") or PKCS#8 ("PRIVATE KEY") PEM.
+ */
+export function parsePrivateKey(pem: string): Uint8Array {
+  const der = base64ToBytes(pemBody(pem));
+  // ECPrivateKey ::= SEQUENCE { version INTEGER (1), privateKey OCTET STRING (32) ... }
+  for (let i = 0; i < der.length - 37; i++) {
+    if (der[i] === 0x02 && der[i + 1] === 0x01 && der[i + 2] === 0x01 && der[i + 3] === 0x04 && der[i + 4] === 0x20) {
+      return der.slice(i + 5, i + 37);
+    }
+  }
+  throw new Error("Unsupported private key format");
+}
@@ -0,0 +1,137 @@
+/**
+ * Cryptographic stamp for ZATCA Phase 2 (XAdES-BES enveloped signature,
+ * ECDSA over secp256k1 with SHA-256).
+ */
+import { secp256k1 } from "npm:@noble/curves@1.4.0/secp256k1";
+import { buildInvoiceXml, EInvoiceDocument, escapeXml } from "./ubl.ts";
+import { buildQrPayload, bytesToBase64 } from "./tlv.ts";
+import { parseCertificate, parsePrivateKey } from "./certificate.ts";
+
+export interface SigningCredentials {
+  privateKey: string;
+  certificate: string;
+}
+
+export interface StampedInvoice {
+  xml: string;
+  invoiceHash: string;
+  signature: string;
+  qrCode: string;
+}
+
+/**
+ * PIH of the first invoice in a chain (base64 of the hex SHA-256 of "0")
+ */
+export const INITIAL_PREVIOUS_HASH =
+  "NWZlY2ViNjZmZmM4NmYzOGQ5NTI3ODZjNmQ2OTZjNzljMmRiYzIzOWRkNGU5MWI0NjcyOWQ3M2EyN2ZiNTdlOQ==";
+
+const encoder = new TextEncoder();
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(value)));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function signedProperties(signingTime: string, certDigest: string, issuerName: string, serialNumber: string): string {
+  return `<xades:SignedProperties xmlns:xades="http://uri.etsi.org/01903/v1.3.2#" Id="xadesSignedProperties">` +
+    `<xades:SignedSignatureProperties>` +
+    `<xades:SigningTime>${signingTime}</xades:SigningTime>` +
+    `<xades:SigningCertificate><xades:Cert><xades:CertDigest>` +
+    `<ds:DigestMethod xmlns:ds="http://www.w3.org/2000/09/xmldsig#" Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/>` +
+    `<ds:DigestValue xmlns:ds="http://www.w3.org/2000/09/xmldsig#">${certDigest}</ds:DigestValue>` +
+    `</xades:CertDigest><xades:IssuerSerial>` +
+    `<ds:X509IssuerName xmlns:ds="http://www.w3.org/2000/09/xmldsig#">${escapeXml(issuerName)}</ds:X509IssuerName>` +
+    `<ds:X509SerialNumber xmlns:ds="http://www.w3.org/2000/09/xmldsig#">${serialNumber}</ds:X509SerialNumber>` +
+    `</xades:IssuerSerial></xades:Cert></xades:SigningCertificate>` +
+    `</xades:SignedSignatureProperties>` +
+    `</xades:SignedProperties>`;
+}
+
+function ublExtensions(
+  invoiceHash: string,
+  signedPropertiesXml: string,
+  signedPropertiesHash: string,
+  signature: string,
+  certificate: string
+): string {
+  return `<ext:UBLExtensions><ext:UBLExtension>` +
+    `<ext:ExtensionURI>urn:oasis:names:specification:ubl:dsig:enveloped:xades</ext:ExtensionURI>` +
+    `<ext:ExtensionContent>` +
+    `<sig:UBLDocumentSignatures xmlns:sig="urn:oasis:names:specification:ubl:schema:xsd:CommonSignatureComponents-2"` +
+    ` xmlns:sac="urn:oasis:names:specification:ubl:schema:xsd:SignatureAggregateComponents-2"` +
+    ` xmlns:sbc="urn:oasis:names:specification:ubl:schema:xsd:SignatureBasicComponents-2">` +
+    `<sac:SignatureInformation>` +
+    `<cbc:ID>urn:oasis:names:specification:ubl:signature:1</cbc:ID>` +
+    `<sbc:ReferencedSignatureID>urn:oasis:names:specification:ubl:signature:Invoice</sbc:ReferencedSignatureID>` +
+    `<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#" Id="signature">` +
+    `<ds:SignedInfo>` +
+    `<ds:CanonicalizationMethod Algorithm="http://www.w3.org/2006/12/xml-c14n11"/>` +
+    `<ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256"/>` +
+    `<ds:Reference Id="invoiceSignedData" URI="">` +
+    `<ds:Transforms>` +
+    `<ds:Transform Algorithm="http://www.w3.org/TR/1999/REC-xpath-19991116"><ds:XPath>not(//ancestor-or-self::ext:UBLExtensions)</ds:XPath></ds:Transform>` +
+    `<ds:Transform Algorithm="http://www.w3.org/TR/1999/REC-xpath-19991116"><ds:XPath>not(//ancestor-or-self::cac:Signature)</ds:XPath></ds:Transform>` +
+    `<ds:Transform Algorithm="http://www.w3.org/TR/1999/REC-xpath-19991116"><ds:XPath>not(//ancestor-or-self::cac:AdditionalDocumentReference[cbc:ID='QR'])</ds:XPath></ds:Transform>` +
+    `<ds:Transform Algorithm="http://www.w3.org/2006/12/xml-c14n11"/>` +
+    `</ds:Transforms>` +
+    `<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/>` +
+    `<ds:DigestValue>${invoiceHash}</ds:DigestValue>` +
+    `</ds:Reference>` +
+    `<ds:Reference Type="http://www.w3.org/2000/09/xmldsig#SignatureProperties" URI="#xadesSignedProperties">` +
+    `<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/>` +
+    `<ds:DigestValue>${signedPropertiesHash}</ds:DigestValue>` +
+    `</ds:Reference>` +
+    `</ds:SignedInfo>` +
+    `<ds:SignatureValue>${signature}</ds:SignatureValue>` +
+    `<ds:KeyInfo><ds:X509Data><ds:X509Certificate>${certificate}</ds:X509Certificate></ds:X509Data></ds:KeyInfo>` +
+    `<ds:Object><xades:QualifyingProperties xmlns:xades="http://uri.etsi.org/01903/v1.3.2#" Target="signature">` +
+    signedPropertiesXml +
+    `</xades:QualifyingProperties></ds:Object>` +
+    `</ds:Signature>` +
+    `</sac:SignatureInformation>` +
+    `</sig:UBLDocumentSignatures>` +
+    `</ext:ExtensionContent>` +
+    `</ext:UBLExtension></ext:UBLExtensions>`;
+}
+
+export async function stampInvoice(doc: EInvoiceDocument, credentials: SigningCredentials): Promise<StampedInvoice> {
+  const privateKey = parsePrivateKey(credentials.privateKey);
+  const certificate = parseCertificate(credentials.certificate);
+
+  const publicKey = secp256k1.getPublicKey(privateKey, false);
+  if (toHex(certificate.publicKey.slice(-65)) !== toHex(publicKey)) {
+    throw new Error("ZATCA private key does not match the configured certificate");
+  }
+
+  const digest = await sha256(buildInvoiceXml(doc));
+  const invoiceHash = bytesToBase64(digest);
+  const signature = bytesToBase64(secp256k1.sign(digest, privateKey).toDERRawBytes());
+
+  // ZATCA digests the base64 certificate text and encodes the hex digest
+  const certDigest = btoa(toHex(await sha256(certificate.base64)));
+  const signingTime = doc.issuedAt.toISOString().slice(0, 19);
+  const properties = signedProperties(signingTime, certDigest, certificate.issuerName, certificate.serialNumber);
+  const propertiesHash = btoa(toHex(await sha256(properties)));
+
+  const qrCode = buildQrPayload({
+    sellerName: doc.seller.name,
+    vatNumber: doc.seller.vatNumber || "",
+    timestamp: signingTime,
+    total: doc.payableAmount,
+    vatTotal: doc.taxTotal,
+    invoiceHash,
+    signature,
+    publicKey: certificate.publicKey,
+    certificateSignature: certificate.signature,
+  });
+
+  const xml = '<?xml version="1.0" encoding="UTF-8"?>' + buildInvoiceXml(doc, {
+    ublExtensions: ublExtensions(invoiceHash, properties, propertiesHash, signature, certificate.base64),
+    qrCode,
+  });
+
+  return { xml, invoiceHash, signature, qrCode };
+}
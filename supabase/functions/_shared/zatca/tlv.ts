@@ -0,0 +1,97 @@
+/**
+ * ZATCA QR code payload (TLV = Tag-Length-Value, base64 encoded)
+ *
+ * Tags 1-5 are required on every simplified tax invoice (Phase 1).
+ * Tags 6-9 carry the cryptographic stamp once the invoice is signed (Phase 2).
+ */
+
+export interface QrFields {
+  sellerName: string;
+  vatNumber: string;
+  timestamp: string;
+  total: number;
+  vatTotal: number;
+  invoiceHash?: string;
+  signature?: string;
+  publicKey?: Uint8Array;
+  certificateSignature?: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+/** A TLV value is at most 255 bytes */
+export const QR_FIELD_MAX_BYTES = 255;
+
+export class QrFieldTooLongError extends Error {
+  constructor(tag: number) {
+    super(`QR tag ${tag} exceeds ${QR_FIELD_MAX_BYTES} bytes`);
+    this.name = "QrFieldTooLongError";
+  }
+}
+
+/** Whether a text field, e.g. the seller name, fits in the QR code */
+export function fitsQrField(value: string): boolean {
+  return encoder.encode(value).length <= QR_FIELD_MAX_BYTES;
+}
+
+function tlv(tag: number, value: Uint8Array): Uint8Array {
+  if (value.length > QR_FIELD_MAX_BYTES) {
+    throw new QrFieldTooLongError(tag);
+  }
+  const out = new Uint8Array(value.length + 2);
+  out[0] = tag;
+  out[1] = value.length;
+  out.set(value, 2);
+  return out;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function buildQrPayload(fields: QrFields): string {
+  const parts: Uint8Array[] = [
+    tlv(1, encoder.encode(fields.sellerName)),
+    tlv(2, encoder.encode(fields.vatNumber)),
+    tlv(3, encoder.encode(fields.timestamp)),
+    tlv(4, encoder.encode(fields.total.toFixed(2))),
+    tlv(5, encoder.encode(fields.vatTotal.toFixed(2))),
+  ];
+
+  if (fields.invoiceHash) parts.push(tlv(6, encoder.encode(fields.invoiceHash)));
+  if (fields.signature) parts.push(tlv(7, encoder.encode(fields.signature)));
+  if (fields.publicKey) parts.push(tlv(8, fields.publicKey));
+  if (fields.certificateSignature) parts.push(tlv(9, fields.certificateSignature));
+
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const payload = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    payload.set(part, offset);
+    offset += part.length;
+  }
+
+  return bytesToBase64(payload);
+}
+
+/**
+ * The QR payload shown with an invoice, or null when a field does not fit,
+ * e.g. a seller name saved before the name length was checked.
+ */
+export function buildQrPayloadOrNull(fields: QrFields): string | null {
+  try {
+    return buildQrPayload(fields);
+  } catch (error) {
+    if (error instanceof QrFieldTooLongError) return null;
+    throw error;
+  }
+}
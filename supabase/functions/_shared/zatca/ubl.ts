@@ -0,0 +1,214 @@
+/**
+ * UBL 2.1 invoice document builder (ZATCA profile "reporting:1.0")
+ *
+ * The XML is emitted without insignificant whitespace so that removing
+ * UBLExtensions, the QR reference and cac:Signature yields exactly the
+ * byte sequence that was hashed before stamping.
+ */
+
+export type InvoiceTypeCode = "388" | "381" | "383";
+export type TaxCategoryCode = "S" | "Z" | "E" | "O";
+
+export interface EInvoiceParty {
+  name: string;
+  vatNumber?: string | null;
+  crNumber?: string | null;
+  address?: string | null;
+}
+
+export interface EInvoiceLine {
+  id: number;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  netAmount: number;
+  taxCategory: TaxCategoryCode;
+  taxPercent: number;
+  taxAmount: number;
+}
+
+export interface EInvoiceTaxSubtotal {
+  taxCategory: TaxCategoryCode;
+  taxPercent: number;
+  taxableAmount: number;
+  taxAmount: number;
+  exemptionReason?: string;
+}
+
+/** Document level discount booked against one tax category */
+export interface EInvoiceAllowance {
+  taxCategory: TaxCategoryCode;
+  taxPercent: number;
+  amount: number;
+}
+
+export interface EInvoiceDocument {
+  uuid: string;
+  number: string;
+  icv: number;
+  previousHash: string;
+  issuedAt: Date;
+  typeCode: InvoiceTypeCode;
+  /** "0100000" standard (B2B) or "0200000" simplified (B2C) */
+  subtype: string;
+  currency: string;
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+  lines: EInvoiceLine[];
+  taxSubtotals: EInvoiceTaxSubtotal[];
+  lineExtensionAmount: number;
+  /** One per tax category, so each category's taxable amount is its lines less its allowance */
+  allowances: EInvoiceAllowance[];
+  allowanceTotal: number;
+  taxExclusiveAmount: number;
+  taxTotal: number;
+  payableAmount: number;
+  /** Original invoice number for credit / debit notes */
+  billingReference?: string;
+  /** Reason for issuing a credit / debit note */
+  instructionNote?: string;
+}
+
+export interface EInvoiceStamp {
+  ublExtensions: string;
+  qrCode: string;
+}
+
+const NAMESPACES =
+  'xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"' +
+  ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"' +
+  ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"' +
+  ' xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"';
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function amount(tag: string, value: number, currency: string): string {
+  return `<cbc:${tag} currencyID="${currency}">${value.toFixed(2)}</cbc:${tag}>`;
+}
+
+function text(tag: string, value: string | number): string {
+  return `<cbc:${tag}>${escapeXml(String(value))}</cbc:${tag}>`;
+}
+
+function taxCategory(tag: string, code: TaxCategoryCode, percent: number, exemptionReason?: string): string {
+  return `<cac:${tag}>` +
+    text("ID", code) +
+    text("Percent", percent.toFixed(2)) +
+    (exemptionReason ? text("TaxExemptionReason", exemptionReason) : "") +
+    `<cac:TaxScheme>${text("ID", "VAT")}</cac:TaxScheme>` +
+    `</cac:${tag}>`;
+}
+
+function party(tag: string, p: EInvoiceParty): string {
+  const identification = p.crNumber
+    ? `<cac:PartyIdentification><cbc:ID schemeID="CRN">${escapeXml(p.crNumber)}</cbc:ID></cac:PartyIdentification>`
+    : "";
+  const address = `<cac:PostalAddress>` +
+    (p.address ? text("StreetName", p.address) : "") +
+    `<cac:Country>${text("IdentificationCode", "SA")}</cac:Country>` +
+    `</cac:PostalAddress>`;
+  const taxScheme = p.vatNumber
+    ? `<cac:PartyTaxScheme>${text("CompanyID", p.vatNumber)}<cac:TaxScheme>${text("ID", "VAT")}</cac:TaxScheme></cac:PartyTaxScheme>`
+    : "";
+
+  return `<cac:${tag}><cac:Party>` +
+    identification +
+    address +
+    taxScheme +
+    `<cac:PartyLegalEntity>${text("RegistrationName", p.name)}</cac:PartyLegalEntity>` +
+    `</cac:Party></cac:${tag}>`;
+}
+
+function documentReference(id: string, inner: string): string {
+  return `<cac:AdditionalDocumentReference>${text("ID", id)}${inner}</cac:AdditionalDocumentReference>`;
+}
+
+function attachment(value: string): string {
+  return `<cac:Attachment><cbc:EmbeddedDocumentBinaryObject mimeCode="text/plain">${value}</cbc:EmbeddedDocumentBinaryObject></cac:Attachment>`;
+}
+
+/**
+ * Renders the invoice. Without a stamp the result is the canonical
+ * "signed data" form used to compute the invoice hash.
+ */
+export function buildInvoiceXml(doc: EInvoiceDocument, stamp?: EInvoiceStamp): string {
+  const c = doc.currency;
+  const iso = doc.issuedAt.toISOString();
+
+  const lines = doc.lines.map((line) =>
+    `<cac:InvoiceLine>` +
+    text("ID", line.id) +
+    `<cbc:InvoicedQuantity unitCode="PCE">${line.quantity.toFixed(2)}</cbc:InvoicedQuantity>` +
+    amount("LineExtensionAmount", line.netAmount, c) +
+    `<cac:TaxTotal>` +
+    amount("TaxAmount", line.taxAmount, c) +
+    amount("RoundingAmount", line.netAmount + line.taxAmount, c) +
+    `</cac:TaxTotal>` +
+    `<cac:Item>${text("Name", line.name)}${taxCategory("ClassifiedTaxCategory", line.taxCategory, line.taxPercent)}</cac:Item>` +
+    `<cac:Price>${amount("PriceAmount", line.unitPrice, c)}</cac:Price>` +
+    `</cac:InvoiceLine>`
+  ).join("");
+
+  const subtotals = doc.taxSubtotals.map((s) =>
+    `<cac:TaxSubtotal>` +
+    amount("TaxableAmount", s.taxableAmount, c) +
+    amount("TaxAmount", s.taxAmount, c) +
+    taxCategory("TaxCategory", s.taxCategory, s.taxPercent, s.exemptionReason) +
+    `</cac:TaxSubtotal>`
+  ).join("");
+
+  const allowances = doc.allowances.filter((a) => a.amount > 0).map((a) =>
+    `<cac:AllowanceCharge>` +
+    text("ChargeIndicator", "false") +
+    text("AllowanceChargeReason", "discount") +
+    amount("Amount", a.amount, c) +
+    taxCategory("TaxCategory", a.taxCategory, a.taxPercent) +
+    `</cac:AllowanceCharge>`
+  ).join("");
+
+  const billingReference = doc.billingReference
+    ? `<cac:BillingReference><cac:InvoiceDocumentReference>${text("ID", doc.billingReference)}</cac:InvoiceDocumentReference></cac:BillingReference>`
+    : "";
+
+  return `<Invoice ${NAMESPACES}>` +
+    (stamp ? stamp.ublExtensions : "") +
+    text("ProfileID", "reporting:1.0") +
+    text("ID", doc.number) +
+    text("UUID", doc.uuid) +
+    text("IssueDate", iso.slice(0, 10)) +
+    text("IssueTime", iso.slice(11, 19)) +
+    `<cbc:InvoiceTypeCode name="${doc.subtype}">${doc.typeCode}</cbc:InvoiceTypeCode>` +
+    text("DocumentCurrencyCode", c) +
+    text("TaxCurrencyCode", c) +
+    billingReference +
+    documentReference("ICV", text("UUID", doc.icv)) +
+    documentReference("PIH", attachment(doc.previousHash)) +
+    (stamp ? documentReference("QR", attachment(stamp.qrCode)) : "") +
+    (stamp
+      ? `<cac:Signature>${text("ID", "urn:oasis:names:specification:ubl:signature:Invoice")}${text("SignatureMethod", "urn:oasis:names:specification:ubl:dsig:enveloped:xades")}</cac:Signature>`
+      : "") +
+    party("AccountingSupplierParty", doc.seller) +
+    party("AccountingCustomerParty", doc.buyer) +
+    `<cac:PaymentMeans>${text("PaymentMeansCode", "10")}` +
+    (doc.instructionNote ? text("InstructionNote", doc.instructionNote) : "") +
+    `</cac:PaymentMeans>` +
+    allowances +
+    `<cac:TaxTotal>${amount("TaxAmount", doc.taxTotal, c)}</cac:TaxTotal>` +
+    `<cac:TaxTotal>${amount("TaxAmount", doc.taxTotal, c)}${subtotals}</cac:TaxTotal>` +
+    `<cac:LegalMonetaryTotal>` +
+    amount("LineExtensionAmount", doc.lineExtensionAmount, c) +
+    amount("TaxExclusiveAmount", doc.taxExclusiveAmount, c) +
+    amount("TaxInclusiveAmount", doc.payableAmount, c) +
+    amount("AllowanceTotalAmount", doc.allowanceTotal, c) +
+    amount("PayableAmount", doc.payableAmount, c) +
+    `</cac:LegalMonetaryTotal>` +
+    lines +
+    `</Invoice>`;
+}
@@ -0,0 +1,208 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getAuthenticatedClient } from "../_shared/utils/supabase.ts";
+import { authenticateWithPermissions } from "../_shared/middleware/authWithPermissions.ts";
+import { requirePermission } from "../_shared/middleware/permissionChecker.ts";
+import { corsResponse, successResponse } from "../_shared/utils/response.ts";
+import { handleError, dbError } from "../_shared/middleware/errorHandler.ts";
+import { validateUUID } from "../_shared/utils/validation.ts";
+import { ApiError } from "../_shared/types.ts";
+
+const APPOINTMENT_SELECT = `
+  *,
+  customer:customers(id, name, phone),
+  vehicle:vehicles(id, car_make, car_model, plate_number),
+  bay:workshop_bays(id, name, kind),
+  technician:technicians(id, name),
+  work_order:work_orders(id, order_number, status)
+`;
+
+const STATUS_ACTIONS: Record<string, string> = {
+  confirm: "confirmed",
+  cancel: "cancelled",
+  "no-show": "no_show",
+};
+
+interface SlotQuery {
+  starts_at?: unknown;
+  duration_minutes?: unknown;
+  bay_id?: unknown;
+  technician_id?: unknown;
+}
+
+function optionalUUID(value: unknown, name: string): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  return validateUUID(String(value), name);
+}
+
+async function findConflicts(supabase: SupabaseClient, slot: SlotQuery, excludeId: string | null) {
+  const startsAt = new Date(String(slot.starts_at ?? ""));
+  const duration = Number(slot.duration_minutes);
+
+  if (isNaN(startsAt.getTime()) || !Number.isInteger(duration) || duration < 5 || duration > 1440) {
+    throw new ApiError("A valid start time and a duration between 5 and 1440 minutes are required", "VALIDATION_ERROR", 400);
+  }
+
+  const { data, error } = await supabase.rpc("appointment_conflicts", {
+    p_starts_at: startsAt.toISOString(),
+    p_duration_minutes: duration,
+    p_bay_id: optionalUUID(slot.bay_id, "Bay ID"),
+    p_technician_id: optionalUUID(slot.technician_id, "Technician ID"),
+    p_exclude_id: excludeId,
+  });
+
+  if (error) throw dbError(error);
+  return (data || []) as unknown[];
+}
+
+async function getAppointment(supabase: SupabaseClient, appointmentId: string, organizationId: string) {
+  const { data, error } = await supabase
+    .from("appointments")
+    .select(APPOINTMENT_SELECT)
+    .eq("id", appointmentId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) throw dbError(error);
+  if (!data) throw new ApiError("Appointment not found", "NOT_FOUND", 404);
+
+  return data;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return corsResponse();
+  }
+
+  try {
+    const auth = await authenticateWithPermissions(req);
+    const supabase = getAuthenticatedClient(req);
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/").filter(Boolean);
+
+    // appointments[/:id[/confirm | /cancel | /no-show | /convert]], appointments/conflicts
+    const [appointmentId, action] = pathParts.slice(pathParts.lastIndexOf("appointments") + 1);
+
+    switch (req.method) {
+      case "GET": {
+        requirePermission(auth, "appointments.view");
+
+        if (appointmentId === "conflicts") {
+          const params = Object.fromEntries(url.searchParams);
+          return successResponse(await findConflicts(supabase, params, optionalUUID(params.exclude_id, "Appointment ID")));
+        }
+
+        if (appointmentId) {
+          validateUUID(appointmentId, "Appointment ID");
+          return successResponse(await getAppointment(supabase, appointmentId, auth.organizationId));
+        }
+
+        const from = new Date(url.searchParams.get("from") || "");
+        const to = new Date(url.searchParams.get("to") || "");
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+          throw new ApiError("A valid from/to range is required", "VALIDATION_ERROR", 400);
+        }
+        if (to.getTime() - from.getTime() > 42 * 24 * 60 * 60 * 1000) {
+          throw new ApiError("The range cannot exceed six weeks", "VALIDATION_ERROR", 400);
+        }
+
+        const { data, error } = await supabase
+          .from("appointments")
+          .select(APPOINTMENT_SELECT)
+          .eq("organization_id", auth.organizationId)
+          .lt("starts_at", to.toISOString())
+          .gt("ends_at", from.toISOString())
+          .order("starts_at", { ascending: true });
+
+        if (error) throw dbError(error);
+        return successResponse(data || []);
+      }
+
+      case "POST":
+      case "PUT": {
+        if (req.method === "POST" && appointmentId) {
+          validateUUID(appointmentId, "Appointment ID");
+          requirePermission(auth, "appointments.update");
+
+          let rpc;
+          if (action === "convert") {
+            requirePermission(auth, "work_orders.create");
+            rpc = supabase.rpc("convert_appointment_to_work_order", { p_appointment_id: appointmentId });
+          } else if (STATUS_ACTIONS[action]) {
+            rpc = supabase.rpc("set_appointment_status", {
+              p_appointment_id: appointmentId,
+              p_status: STATUS_ACTIONS[action],
+            });
+          } else {
+            throw new ApiError("Unknown appointment action", "NOT_FOUND", 404);
+          }
+
+          const { error } = await rpc;
+          if (error) throw dbError(error);
+          return successResponse(await getAppointment(supabase, appointmentId, auth.organizationId));
+        }
+
+        if (req.method === "PUT") {
+          requirePermission(auth, "appointments.update");
+          validateUUID(appointmentId, "Appointment ID");
+        } else {
+          requirePermission(auth, "appointments.create");
+        }
+
+        const body = await req.json();
+
+        // Report what the slot clashes with before save_appointment refuses it
+        // with a bare message
+        const existing = req.method === "PUT"
+          ? await getAppointment(supabase, appointmentId, auth.organizationId)
+          : null;
+        const conflicts = await findConflicts(supabase, {
+          starts_at: body.starts_at ?? existing?.starts_at,
+          duration_minutes: body.duration_minutes ?? existing?.duration_minutes ?? 60,
+          bay_id: "bay_id" in body ? body.bay_id : existing?.bay_id,
+          technician_id: "technician_id" in body ? body.technician_id : existing?.technician_id,
+        }, existing?.id ?? null);
+
+        if (conflicts.length > 0) {
+          throw new ApiError("The bay or the technician is already booked at this time", "SCHEDULING_CONFLICT", 409, conflicts);
+        }
+
+        const { data, error } = await supabase.rpc("save_appointment", {
+          p_appointment_id: existing?.id ?? null,
+          p_appointment: body,
+        });
+
+        if (error) throw dbError(error);
+        return successResponse(
+          await getAppointment(supabase, data.id, auth.organizationId),
+          req.method === "POST" ? 201 : 200
+        );
+      }
+
+      case "DELETE": {
+        requirePermission(auth, "appointments.delete");
+        validateUUID(appointmentId, "Appointment ID");
+
+        // Appointments that became work orders are kept (enforced by RLS)
+        const { data, error } = await supabase
+          .from("appointments")
+          .delete()
+          .eq("id", appointmentId)
+          .eq("organization_id", auth.organizationId)
+          .select("id");
+
+        if (error) throw dbError(error);
+        if (!data || data.length === 0) {
+          throw new ApiError("Appointment not found or already converted to a work order", "CONSTRAINT_VIOLATION", 409);
+        }
+
+        return successResponse({ deleted: true });
+      }
+
+      default:
+        throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+    }
+  } catch (error) {
+    return handleError(error);
+  }
+});
@@ -0,0 +1,135 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { getAuthenticatedClient } from "../_shared/utils/supabase.ts";
+import { authenticateWithPermissions } from "../_shared/middleware/authWithPermissions.ts";
+import { requireAnyPermission, requirePermission } from "../_shared/middleware/permissionChecker.ts";
+import { corsResponse, successResponse } from "../_shared/utils/response.ts";
+import { handleError, dbError } from "../_shared/middleware/errorHandler.ts";
+import { validateUUID } from "../_shared/utils/validation.ts";
+import { ApiError } from "../_shared/types.ts";
+
+const BAY_KINDS = ["bay", "lift"];
+
+interface BayBody {
+  name?: string;
+  kind?: string;
+  capacity?: number;
+  is_active?: boolean;
+  sort_order?: number;
+}
+
+function pickBayFields(body: BayBody, partial: boolean) {
+  const fields: BayBody = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      throw new ApiError("Bay name is required", "VALIDATION_ERROR", 400);
+    }
+    fields.name = body.name.trim();
+  }
+  if (body.kind !== undefined) {
+    if (!BAY_KINDS.includes(body.kind)) throw new ApiError("Invalid bay kind", "VALIDATION_ERROR", 400);
+    fields.kind = body.kind;
+  }
+  if (body.capacity !== undefined) {
+    if (!Number.isInteger(body.capacity) || body.capacity < 1 || body.capacity > 20) {
+      throw new ApiError("Capacity must be between 1 and 20", "VALIDATION_ERROR", 400);
+    }
+    fields.capacity = body.capacity;
+  }
+  if (body.is_active !== undefined) fields.is_active = body.is_active === true;
+  if (body.sort_order !== undefined) fields.sort_order = Number(body.sort_order) || 0;
+
+  return fields;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return corsResponse();
+  }
+
+  try {
+    const auth = await authenticateWithPermissions(req);
+    const supabase = getAuthenticatedClient(req);
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/").filter(Boolean);
+
+    // bays[/:id]
+    const [bayId] = pathParts.slice(pathParts.lastIndexOf("bays") + 1);
+
+    switch (req.method) {
+      case "GET": {
+        requireAnyPermission(auth, ["appointments.view", "work_orders.view"]);
+
+        let query = supabase
+          .from("workshop_bays")
+          .select("*")
+          .eq("organization_id", auth.organizationId);
+
+        if (url.searchParams.get("activeOnly") === "true") {
+          query = query.eq("is_active", true);
+        }
+
+        const { data, error } = await query
+          .order("sort_order", { ascending: true })
+          .order("name", { ascending: true });
+
+        if (error) throw dbError(error);
+        return successResponse(data || []);
+      }
+
+      case "POST": {
+        requirePermission(auth, "settings.update");
+
+        const { data, error } = await supabase
+          .from("workshop_bays")
+          .insert({ ...pickBayFields(await req.json(), false), organization_id: auth.organizationId })
+          .select()
+          .single();
+
+        if (error) throw dbError(error);
+        return successResponse(data, 201);
+      }
+
+      case "PUT": {
+        requirePermission(auth, "settings.update");
+        validateUUID(bayId, "Bay ID");
+
+        const { data, error } = await supabase
+          .from("workshop_bays")
+          .update({ ...pickBayFields(await req.json(), true), updated_at: new Date().toISOString() })
+          .eq("id", bayId)
+          .eq("organization_id", auth.organizationId)
+          .select()
+          .maybeSingle();
+
+        if (error) throw dbError(error);
+        if (!data) throw new ApiError("Bay not found", "NOT_FOUND", 404);
+
+        return successResponse(data);
+      }
+
+      case "DELETE": {
+        requirePermission(auth, "settings.update");
+        validateUUID(bayId, "Bay ID");
+
+        // Appointments on the bay keep their slot and lose the bay
+        const { data, error } = await supabase
+          .from("workshop_bays")
+          .delete()
+          .eq("id", bayId)
+          .eq("organization_id", auth.organizationId)
+          .select("id");
+
+        if (error) throw dbError(error);
+        if (!data || data.length === 0) throw new ApiError("Bay not found", "NOT_FOUND", 404);
+
+        return successResponse({ deleted: true });
+      }
+
+      default:
+        throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+    }
+  } catch (error) {
+    return handleError(error);
+  }
+});
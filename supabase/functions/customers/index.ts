@@ -1,10 +1,37 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
 import { getAuthenticatedClient } from '../_shared/utils/supabase.ts';
 import { authenticateWithPermissions } from '../_shared/middleware/authWithPermissions.ts';
 import { requirePermission } from '../_shared/middleware/permissionChecker.ts';
 import { corsResponse, successResponse, errorResponse } from '../_shared/utils/response.ts';
 import { handleError } from '../_shared/middleware/errorHandler.ts';
 
+type CustomerRow = { id: string } & Record<string, unknown>;
+
+/**
+ * Adds `deposit_balance`: the work order deposits of each customer that are
+ * not applied to an invoice yet. Zero for users who cannot see deposits.
+ */
+async function withDepositBalances(supabase: SupabaseClient, customers: CustomerRow[]) {
+  if (customers.length === 0) return customers;
+
+  // An RPC rather than .in(): a page can hold up to 1000 customers
+  const { data: balances, error } = await supabase.rpc('get_customer_deposit_balances', {
+    p_customer_ids: customers.map((customer) => customer.id),
+  });
+
+  if (error) console.error('Failed to load deposit balances:', error);
+
+  const byCustomer = new Map<string, number>(
+    (balances || []).map((row: { customer_id: string; balance: number }) => [row.customer_id, Number(row.balance)])
+  );
+
+  return customers.map((customer) => ({
+    ...customer,
+    deposit_balance: byCustomer.get(customer.id) || 0,
+  }));
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return corsResponse();
@@ -25,14 +52,15 @@ Deno.serve(async (req: Request) => {
         if (customerId) {
           const { data, error } = await supabase
             .from('customers')
-            .select('id, name, phone, email, created_at')
+            .select('id, name, phone, email, payment_terms, preferred_language, created_at')
             .eq('id', customerId)
             .eq('organization_id', auth.organizationId)
             .maybeSingle();
 
           if (error) throw new Error(error.message);
           if (!data) throw new Error('Customer not found');
-          return successResponse(data);
+          const [customer] = await withDepositBalances(supabase, [data]);
+          return successResponse(customer);
         }
 
         const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 1000);
@@ -40,7 +68,7 @@ Deno.serve(async (req: Request) => {
 
         const { data, error, count } = await supabase
           .from('customers')
-          .select('id, name, phone, email, created_at', { count: 'exact' })
+          .select('id, name, phone, email, payment_terms, preferred_language, created_at', { count: 'exact' })
           .eq('organization_id', auth.organizationId)
           .order('created_at', { ascending: false })
           .range(offset, offset + limit - 1);
@@ -48,7 +76,7 @@ Deno.serve(async (req: Request) => {
         if (error) throw new Error(error.message);
 
         return successResponse({
-          data: data || [],
+          data: await withDepositBalances(supabase, data || []),
           total: count || 0,
           hasMore: offset + limit < (count || 0),
         });
@@ -4,6 +4,7 @@ import { authenticateWithPermissions, type AuthContext } from "../_shared/middle
 import { AuthorizationError, handleError } from "../_shared/middleware/errorHandler.ts";
 import { getServiceRoleClient } from "../_shared/utils/supabase.ts";
 import type { DashboardStats } from "../_shared/types/api.ts";
+import { IN_PROGRESS_STATUSES, WAITING_STATUSES } from "../_shared/constants/workOrderStatus.ts";
 
 function hasPermission(auth: AuthContext, permissionKey: string): boolean {
   if (auth.isAdmin) return true;
@@ -211,7 +212,7 @@ async function getOpenOrders(supabase: any, auth: AuthContext) {
       )
     `)
     .eq('organization_id', auth.organizationId)
-    .in('status', ['in_progress', 'pending'])
+    .in('status', [...IN_PROGRESS_STATUSES, ...WAITING_STATUSES])
     .is('deleted_at', null)
     .order('created_at', { ascending: false })
     .limit(10);
@@ -227,8 +228,8 @@ async function getOpenOrders(supabase: any, auth: AuthContext) {
     };
   }
 
-  const inProgress = data?.filter((wo: any) => wo.status === 'in_progress') || [];
-  const pending = data?.filter((wo: any) => wo.status === 'pending') || [];
+  const inProgress = data?.filter((wo: any) => IN_PROGRESS_STATUSES.includes(wo.status)) || [];
+  const pending = data?.filter((wo: any) => WAITING_STATUSES.includes(wo.status)) || [];
 
   return {
     inProgress: inProgress.slice(0, 5),
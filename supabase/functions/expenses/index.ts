@@ -78,14 +78,14 @@ Deno.serve(async (req: Request) => {
       case 'POST': {
         requirePermission(auth, 'expenses.create');
 
+        // expense_number is assigned from the organization's sequence on insert
         const body = await req.json();
-        const { data: expenseNumber } = await supabase.rpc('generate_expense_number');
+        delete body.expense_number;
 
         const { data, error } = await supabase
           .from('expenses')
           .insert({
             ...body,
-            expense_number: expenseNumber,
             organization_id: auth.organizationId,
           })
           .select()
@@ -0,0 +1,259 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getAuthenticatedClient, getServiceRoleClient } from "../_shared/utils/supabase.ts";
+import { authenticateWithPermissions } from "../_shared/middleware/authWithPermissions.ts";
+import { requirePermission } from "../_shared/middleware/permissionChecker.ts";
+import { corsResponse, successResponse } from "../_shared/utils/response.ts";
+import { handleError, dbError } from "../_shared/middleware/errorHandler.ts";
+import { validateUUID } from "../_shared/utils/validation.ts";
+import { ApiError } from "../_shared/types.ts";
+
+const PHOTO_BUCKET = "work-order-photos";
+
+interface SaveTemplateBody {
+  items?: unknown[];
+  [field: string]: unknown;
+}
+
+interface SaveInspectionBody {
+  notes?: string | null;
+  complete?: boolean;
+  items?: Array<{ id: string; rating?: string | null; note?: string | null; photos?: string[] }>;
+}
+
+const INSPECTION_SELECT = `
+  *,
+  items:work_order_inspection_items(id, category, label, estimated_cost, sort_order, rating, note, photos, service_id)
+`;
+
+/**
+ * Adds short-lived links to the photos of every item and the name of the
+ * technician; the bucket is private and users.view is not required.
+ */
+async function withPhotosAndInspector<T extends {
+  inspected_by: string | null;
+  items: Array<{ photos: string[] }>;
+}>(inspections: T[]) {
+  const serviceClient = getServiceRoleClient();
+
+  const paths = [...new Set(inspections.flatMap((inspection) => inspection.items.flatMap((item) => item.photos)))];
+  const { data: signed } = paths.length > 0
+    ? await serviceClient.storage.from(PHOTO_BUCKET).createSignedUrls(paths, 60 * 60)
+    : { data: [] };
+  const urls = new Map((signed || []).map((item) => [item.path, item.signedUrl]));
+
+  const inspectorIds = [...new Set(inspections.map((inspection) => inspection.inspected_by).filter(Boolean))];
+  const { data: inspectors } = inspectorIds.length > 0
+    ? await serviceClient.from("users").select("id, full_name").in("id", inspectorIds)
+    : { data: [] };
+
+  return inspections.map((inspection) => ({
+    ...inspection,
+    inspected_by_name: (inspectors || []).find((user) => user.id === inspection.inspected_by)?.full_name || null,
+    items: inspection.items.map((item) => ({
+      ...item,
+      photo_urls: item.photos.map((path) => urls.get(path) || ""),
+    })),
+  }));
+}
+
+async function getInspection(supabase: SupabaseClient, inspectionId: string, organizationId: string) {
+  const { data, error } = await supabase
+    .from("work_order_inspections")
+    .select(INSPECTION_SELECT)
+    .eq("id", inspectionId)
+    .eq("organization_id", organizationId)
+    .order("sort_order", { referencedTable: "work_order_inspection_items", ascending: true })
+    .maybeSingle();
+
+  if (error) throw dbError(error);
+  if (!data) throw new ApiError("Inspection not found", "NOT_FOUND", 404);
+
+  const [inspection] = await withPhotosAndInspector([data]);
+  return inspection;
+}
+
+async function handleTemplates(req: Request, supabase: SupabaseClient, organizationId: string, templateId?: string) {
+  switch (req.method) {
+    case "GET": {
+      const { data, error } = await supabase
+        .from("inspection_templates")
+        .select("*, items:inspection_template_items(id, category, label, estimated_cost, sort_order)")
+        .eq("organization_id", organizationId)
+        .order("name", { ascending: true })
+        .order("sort_order", { referencedTable: "inspection_template_items", ascending: true });
+
+      if (error) throw dbError(error);
+      return successResponse(data || []);
+    }
+
+    case "POST":
+    case "PUT": {
+      if (req.method === "PUT") validateUUID(templateId, "Template ID");
+
+      const { items, ...templateData } = await req.json() as SaveTemplateBody;
+      const { data, error } = await supabase.rpc("save_inspection_template", {
+        p_template_id: req.method === "PUT" ? templateId : null,
+        p_template: templateData,
+        p_items: items ?? null,
+      });
+
+      if (error) throw dbError(error);
+      return successResponse(data, req.method === "POST" ? 201 : 200);
+    }
+
+    case "DELETE": {
+      validateUUID(templateId, "Template ID");
+
+      const { data, error } = await supabase
+        .from("inspection_templates")
+        .delete()
+        .eq("id", templateId)
+        .eq("organization_id", organizationId)
+        .select("id");
+
+      if (error) throw dbError(error);
+      if (!data || data.length === 0) throw new ApiError("Inspection template not found", "NOT_FOUND", 404);
+
+      return successResponse({ deleted: true });
+    }
+
+    default:
+      throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return corsResponse();
+  }
+
+  try {
+    const auth = await authenticateWithPermissions(req);
+    const supabase = getAuthenticatedClient(req);
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/").filter(Boolean);
+
+    // inspections[/:id[/propose-services]], inspections/templates[/:id]
+    const [inspectionId, action] = pathParts.slice(pathParts.lastIndexOf("inspections") + 1);
+
+    if (inspectionId === "templates") {
+      requirePermission(auth, req.method === "GET" ? "work_orders.view" : "settings.update");
+      return await handleTemplates(req, supabase, auth.organizationId, action);
+    }
+
+    switch (req.method) {
+      case "GET": {
+        requirePermission(auth, "work_orders.view");
+
+        if (inspectionId) {
+          validateUUID(inspectionId, "Inspection ID");
+          return successResponse(await getInspection(supabase, inspectionId, auth.organizationId));
+        }
+
+        const workOrderId = validateUUID(url.searchParams.get("work_order_id") ?? undefined, "Work order ID");
+
+        const { data, error } = await supabase
+          .from("work_order_inspections")
+          .select(INSPECTION_SELECT)
+          .eq("work_order_id", workOrderId)
+          .eq("organization_id", auth.organizationId)
+          .order("created_at", { ascending: true })
+          .order("sort_order", { referencedTable: "work_order_inspection_items", ascending: true });
+
+        if (error) throw dbError(error);
+        return successResponse(await withPhotosAndInspector(data || []));
+      }
+
+      case "POST": {
+        requirePermission(auth, "work_orders.update");
+
+        if (inspectionId) {
+          validateUUID(inspectionId, "Inspection ID");
+          if (action !== "propose-services") {
+            throw new ApiError("Unknown inspection action", "NOT_FOUND", 404);
+          }
+
+          const { item_ids } = await req.json() as { item_ids?: string[] };
+          const { data, error } = await supabase.rpc("propose_inspection_services", {
+            p_inspection_id: inspectionId,
+            p_item_ids: item_ids && item_ids.length > 0 ? item_ids : null,
+          });
+
+          if (error) throw dbError(error);
+          return successResponse({
+            created: data,
+            inspection: await getInspection(supabase, inspectionId, auth.organizationId),
+          });
+        }
+
+        const { work_order_id, template_id } = await req.json();
+        validateUUID(work_order_id, "Work order ID");
+        validateUUID(template_id, "Template ID");
+
+        const { data, error } = await supabase.rpc("start_inspection", {
+          p_work_order_id: work_order_id,
+          p_template_id: template_id,
+        });
+
+        if (error) throw dbError(error);
+        return successResponse(await getInspection(supabase, data.id, auth.organizationId), 201);
+      }
+
+      case "PUT": {
+        requirePermission(auth, "work_orders.update");
+        validateUUID(inspectionId, "Inspection ID");
+
+        const body = await req.json() as SaveInspectionBody;
+
+        // Photos are uploaded by the browser into the folder of the work order
+        const { data: inspection, error: inspectionError } = await supabase
+          .from("work_order_inspections")
+          .select("work_order_id")
+          .eq("id", inspectionId)
+          .eq("organization_id", auth.organizationId)
+          .maybeSingle();
+
+        if (inspectionError) throw dbError(inspectionError);
+        if (!inspection) throw new ApiError("Inspection not found", "NOT_FOUND", 404);
+
+        const photoFolder = `${auth.organizationId}/${inspection.work_order_id}/`;
+        if ((body.items || []).some((item) => (item.photos || []).some((path) => !path.startsWith(photoFolder)))) {
+          throw new ApiError("Photos must be uploaded to the folder of this work order", "VALIDATION_ERROR", 400);
+        }
+
+        const { error } = await supabase.rpc("save_inspection", {
+          p_inspection_id: inspectionId,
+          p_items: body.items || [],
+          p_notes: body.notes ?? null,
+          p_complete: body.complete === true,
+        });
+
+        if (error) throw dbError(error);
+        return successResponse(await getInspection(supabase, inspectionId, auth.organizationId));
+      }
+
+      case "DELETE": {
+        requirePermission(auth, "work_orders.update");
+        validateUUID(inspectionId, "Inspection ID");
+
+        const { data, error } = await supabase
+          .from("work_order_inspections")
+          .delete()
+          .eq("id", inspectionId)
+          .eq("organization_id", auth.organizationId)
+          .select("id");
+
+        if (error) throw dbError(error);
+        if (!data || data.length === 0) throw new ApiError("Inspection not found", "NOT_FOUND", 404);
+
+        return successResponse({ deleted: true });
+      }
+
+      default:
+        throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+    }
+  } catch (error) {
+    return handleError(error);
+  }
+});
@@ -1,9 +1,18 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { getAuthenticatedClient } from "../_shared/utils/supabase.ts";
-import { authenticateWithPermissions } from "../_shared/middleware/authWithPermissions.ts";
-import { requirePermission, hasPermission } from "../_shared/middleware/permissionChecker.ts";
-import { corsResponse, successResponse, errorResponse } from "../_shared/utils/response.ts";
-import { handleError } from "../_shared/middleware/errorHandler.ts";
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getAuthenticatedClient, getServiceRoleClient } from "../_shared/utils/supabase.ts";
+import { authenticateWithPermissions, AuthContext } from "../_shared/middleware/authWithPermissions.ts";
+import { requirePermission, requireAnyPermission, hasPermission } from "../_shared/middleware/permissionChecker.ts";
+import { corsResponse, successResponse, errorResponse, fileResponse } from "../_shared/utils/response.ts";
+import { handleError, dbError } from "../_shared/middleware/errorHandler.ts";
+import { ApiError } from "../_shared/types.ts";
+import { issueEInvoice, issueNoteEInvoice } from "../_shared/services/einvoiceService.ts";
+import { processNotificationQueue } from "../_shared/services/notificationService.ts";
+import { buildQrPayloadOrNull } from "../_shared/zatca/tlv.ts";
+import { buildInvoicesPdf } from "../_shared/services/invoicePdfService.ts";
+import { resolveRecipient, sendDocumentEmail } from "../_shared/services/documentMailService.ts";
+import { PDF_FORMATS, PdfFormat } from "../_shared/pdf/invoicePdf.ts";
+import { FINISHED_STATUSES } from "../_shared/constants/workOrderStatus.ts";
 
 function validateUUID(id: string | undefined, fieldName: string = "ID"): string {
   if (!id || id.trim() === "") {
@@ -36,6 +45,429 @@ async function validateRequestBody<T>(req: Request, requiredFields?: string[]):
   return body as T;
 }
 
+interface CreateNoteBody {
+  note_type: 'credit' | 'debit';
+  reason: string;
+  items?: { invoice_item_id?: string; description?: string; quantity: number; unit_price?: number }[];
+}
+
+interface CreatePaymentBody {
+  amount: number;
+  payment_method?: string;
+  card_type?: 'mada' | 'visa' | null;
+  reference?: string;
+  paid_at?: string;
+}
+
+interface CreateRefundBody {
+  amount: number;
+  refund_method?: string;
+  card_type?: 'mada' | 'visa' | null;
+  reference?: string;
+  reason: string;
+  note_id?: string | null;
+  /** User holding invoices.refund who approved the refund */
+  approved_by: string;
+}
+
+interface CreateConsolidatedBody {
+  customer_id: string;
+  period_start: string;
+  period_end: string;
+  /** Defaults to every completed, uninvoiced work order of the period */
+  work_order_ids?: string[];
+  discount_percentage?: number;
+  tax_rate?: number;
+  tax_type?: 'inclusive' | 'exclusive';
+  notes?: string;
+  due_date?: string;
+}
+
+const PAYMENT_METHODS = ['cash', 'card', 'bank_transfer', 'other'];
+
+const PAYMENT_STATUSES = ['unpaid', 'partial', 'paid'];
+const LIST_ORDER_COLUMNS = ['created_at', 'invoice_number', 'total', 'paid_amount', 'due_date'];
+
+interface ListFilters {
+  search: string | null;
+  paymentStatus: string | null;
+  paymentMethod: string | null;
+  startDate: string | null;
+  /** Exclusive, the day after the requested end date */
+  endDate: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+}
+
+function parseDateParam(value: string | null, name: string): Date | null {
+  if (!value) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new ApiError(`${name} must be a date (YYYY-MM-DD)`, "VALIDATION_ERROR", 400);
+  }
+  return date;
+}
+
+function parseAmountParam(value: string | null, name: string): number | null {
+  if (value === null || value.trim() === "") return null;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new ApiError(`${name} must be a non-negative number`, "VALIDATION_ERROR", 400);
+  }
+  return amount;
+}
+
+function validateListFilters(params: URLSearchParams): ListFilters {
+  const paymentStatus = params.get("paymentStatus") || null;
+  if (paymentStatus && !PAYMENT_STATUSES.includes(paymentStatus)) {
+    throw new ApiError(`Invalid paymentStatus, expected one of: ${PAYMENT_STATUSES.join(", ")}`, "VALIDATION_ERROR", 400);
+  }
+
+  const paymentMethod = params.get("paymentMethod") || null;
+  if (paymentMethod && !PAYMENT_METHODS.includes(paymentMethod)) {
+    throw new ApiError(`Invalid paymentMethod, expected one of: ${PAYMENT_METHODS.join(", ")}`, "VALIDATION_ERROR", 400);
+  }
+
+  const startDate = parseDateParam(params.get("startDate"), "startDate");
+  const endDate = parseDateParam(params.get("endDate"), "endDate");
+  if (startDate && endDate && endDate < startDate) {
+    throw new ApiError("endDate cannot be before startDate", "VALIDATION_ERROR", 400);
+  }
+  endDate?.setUTCDate(endDate.getUTCDate() + 1);
+
+  const minAmount = parseAmountParam(params.get("minAmount"), "minAmount");
+  const maxAmount = parseAmountParam(params.get("maxAmount"), "maxAmount");
+  if (minAmount !== null && maxAmount !== null && maxAmount < minAmount) {
+    throw new ApiError("maxAmount cannot be below minAmount", "VALIDATION_ERROR", 400);
+  }
+
+  return {
+    search: params.get("search")?.trim().slice(0, 100) || null,
+    paymentStatus,
+    paymentMethod,
+    startDate: startDate ? startDate.toISOString() : null,
+    endDate: endDate ? endDate.toISOString() : null,
+    minAmount,
+    maxAmount,
+  };
+}
+
+function validatePdfFormat(value: string | null): PdfFormat {
+  const format = value || 'a4';
+  if (!PDF_FORMATS.includes(format as PdfFormat)) {
+    throw new ApiError(`Invalid format, expected one of: ${PDF_FORMATS.join(", ")}`, "VALIDATION_ERROR", 400);
+  }
+  return format as PdfFormat;
+}
+
+/**
+ * Settles the invoice with the unapplied deposits of its work orders. Runs
+ * before any tender is recorded, so the cashier only collects the rest.
+ */
+async function applyDeposits(supabase: SupabaseClient, invoiceId: string) {
+  const { error } = await supabase.rpc("apply_work_order_deposits", { p_invoice_id: invoiceId });
+  if (error) throw dbError(error);
+}
+
+/**
+ * Issues a draft invoice. From here on the invoice is immutable; the
+ * e-invoice is generated right away and can be retried via POST :id/einvoice.
+ */
+async function issueInvoice(supabase: SupabaseClient, invoiceId: string, organizationId: string) {
+  // Deposits taken while the invoice was a draft
+  await applyDeposits(supabase, invoiceId);
+
+  const { data: invoice, error } = await supabase
+    .from("invoices")
+    .update({ status: "issued", updated_at: new Date().toISOString() })
+    .eq("id", invoiceId)
+    .eq("organization_id", organizationId)
+    .select()
+    .single();
+
+  if (error) throw dbError(error);
+  return await completeIssue(invoice, organizationId);
+}
+
+/**
+ * Generates the e-invoice of a just issued invoice and sends the customer
+ * notification queued by issuing it.
+ */
+async function completeIssue(invoice: { id: string }, organizationId: string) {
+  let einvoice = null;
+  try {
+    einvoice = await issueEInvoice(getServiceRoleClient(), invoice.id, organizationId);
+  } catch (einvoiceError) {
+    console.error("Failed to issue e-invoice:", einvoiceError);
+  }
+
+  // Issuing queued the customer notification; send it after responding
+  EdgeRuntime.waitUntil(
+    processNotificationQueue(getServiceRoleClient(), organizationId)
+      .catch((notifyError) => console.error("Failed to send notifications:", notifyError))
+  );
+
+  return { ...invoice, einvoice };
+}
+
+// Payments can be recorded by cashiers who cannot otherwise edit invoices
+function requirePaymentPermission(auth: AuthContext) {
+  if (!hasPermission(auth, 'invoices.update')) {
+    requirePermission(auth, 'invoices.manage_payments');
+  }
+}
+
+async function listPayments(supabase: SupabaseClient, invoiceId: string, organizationId: string, paymentId?: string) {
+  let query = supabase
+    .from("invoice_payments")
+    .select("*")
+    .eq("invoice_id", invoiceId)
+    .eq("organization_id", organizationId);
+
+  if (paymentId) {
+    query = query.eq("id", paymentId);
+  }
+
+  const { data: payments, error } = await query.order("paid_at", { ascending: true });
+  if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+  if (!payments || payments.length === 0) return [];
+
+  // Receiver names are printed on receipts, also for users without users.view
+  const receiverIds = [...new Set(payments.map((payment) => payment.received_by).filter(Boolean))];
+  const { data: receivers } = receiverIds.length > 0
+    ? await getServiceRoleClient().from("users").select("id, full_name").in("id", receiverIds)
+    : { data: [] };
+
+  return payments.map((payment) => ({
+    ...payment,
+    received_by_name: (receivers || []).find((user) => user.id === payment.received_by)?.full_name || null,
+  }));
+}
+
+async function listRefunds(supabase: SupabaseClient, invoiceId: string, organizationId: string, refundId?: string) {
+  let query = supabase
+    .from("invoice_refunds")
+    .select("*, note:invoice_notes(id, note_number)")
+    .eq("invoice_id", invoiceId)
+    .eq("organization_id", organizationId);
+
+  if (refundId) {
+    query = query.eq("id", refundId);
+  }
+
+  const { data: refunds, error } = await query.order("refunded_at", { ascending: true });
+  if (error) throw dbError(error);
+  if (!refunds || refunds.length === 0) return [];
+
+  const userIds = [...new Set(refunds.flatMap((refund) => [refund.approved_by, refund.recorded_by]).filter(Boolean))];
+  const { data: users } = userIds.length > 0
+    ? await getServiceRoleClient().from("users").select("id, full_name").in("id", userIds)
+    : { data: [] };
+
+  return refunds.map((refund) => ({
+    ...refund,
+    approved_by_name: (users || []).find((user) => user.id === refund.approved_by)?.full_name || null,
+    recorded_by_name: (users || []).find((user) => user.id === refund.recorded_by)?.full_name || null,
+  }));
+}
+
+function validateRefund(body: CreateRefundBody) {
+  const method = body.refund_method || "cash";
+
+  if (!(Number(body.amount) > 0)) {
+    throw new ApiError("amount must be greater than zero", "VALIDATION_ERROR", 400);
+  }
+  if (!PAYMENT_METHODS.includes(method)) {
+    throw new ApiError(`refund_method must be one of ${PAYMENT_METHODS.join(", ")}`, "VALIDATION_ERROR", 400);
+  }
+  if (method === "bank_transfer" && !body.reference?.trim()) {
+    throw new ApiError("Bank transfer refunds require a reference", "VALIDATION_ERROR", 400);
+  }
+  if (!body.reason?.trim()) {
+    throw new ApiError("A reason is required", "VALIDATION_ERROR", 400);
+  }
+  if (body.note_id) validateUUID(body.note_id, "Note ID");
+  validateUUID(body.approved_by, "Approver ID");
+}
+
+/**
+ * Completed work orders of a customer in a period that are not on any
+ * invoice yet, with their billable total.
+ */
+async function listConsolidationCandidates(
+  supabase: SupabaseClient,
+  organizationId: string,
+  customerId: string,
+  startDate: string,
+  endDate: string
+) {
+  const { data: orders, error } = await supabase
+    .from("work_orders")
+    .select(`
+      id, order_number, description, completed_at,
+      vehicle:vehicles(id, plate_number, car_make, car_model, car_year),
+      services:work_order_services(labor_cost),
+      spare_parts:work_order_spare_parts(total)
+    `)
+    .eq("organization_id", organizationId)
+    .eq("customer_id", customerId)
+    .in("status", FINISHED_STATUSES)
+    .is("deleted_at", null)
+    .gte("completed_at", startDate)
+    .lte("completed_at", `${endDate}T23:59:59.999`)
+    .order("completed_at", { ascending: true });
+
+  if (error) throw dbError(error);
+  if (!orders || orders.length === 0) return [];
+
+  const { data: invoiced, error: invoicedError } = await supabase
+    .from("invoice_work_orders")
+    .select("work_order_id")
+    .in("work_order_id", orders.map((order) => order.id));
+
+  if (invoicedError) throw dbError(invoicedError);
+  const invoicedIds = new Set((invoiced || []).map((row) => row.work_order_id));
+
+  return orders
+    .filter((order) => !invoicedIds.has(order.id))
+    .map(({ services, spare_parts, ...order }) => ({
+      ...order,
+      total: (services || []).reduce((sum, service) => sum + Number(service.labor_cost || 0), 0)
+        + (spare_parts || []).reduce((sum, part) => sum + Number(part.total || 0), 0),
+    }));
+}
+
+function validateTender(tender: CreatePaymentBody, index: number) {
+  const method = tender.payment_method || "cash";
+
+  if (!(Number(tender.amount) > 0)) {
+    throw new ApiError(`Tender ${index + 1}: amount must be greater than zero`, "VALIDATION_ERROR", 400);
+  }
+  if (!PAYMENT_METHODS.includes(method)) {
+    throw new ApiError(
+      `Tender ${index + 1}: payment_method must be one of ${PAYMENT_METHODS.join(", ")}`,
+      "VALIDATION_ERROR",
+      400
+    );
+  }
+  if (method === "bank_transfer" && !tender.reference?.trim()) {
+    throw new ApiError(`Tender ${index + 1}: bank transfers require a reference`, "VALIDATION_ERROR", 400);
+  }
+}
+
+/**
+ * Records the tenders of one checkout (e.g. part cash, part mada). They are
+ * inserted in a single statement, so either all of them are recorded or none.
+ */
+async function recordPayments(
+  supabase: SupabaseClient,
+  invoiceId: string,
+  organizationId: string,
+  tenders: CreatePaymentBody[]
+): Promise<string[]> {
+  if (!Array.isArray(tenders) || tenders.length === 0) {
+    throw new ApiError("At least one tender is required", "VALIDATION_ERROR", 400);
+  }
+
+  tenders.forEach(validateTender);
+
+  const rows = tenders.map((tender) => {
+    const method = tender.payment_method || "cash";
+    return {
+      invoice_id: invoiceId,
+      organization_id: organizationId,
+      amount: Number(tender.amount),
+      payment_method: method,
+      card_type: method === "card" ? tender.card_type || null : null,
+      reference: tender.reference?.trim() || null,
+      ...(tender.paid_at ? { paid_at: tender.paid_at } : {}),
+    };
+  });
+
+  const { data, error } = await supabase
+    .from("invoice_payments")
+    .insert(rows)
+    .select("id");
+
+  if (error) throw dbError(error);
+  return (data || []).map((payment) => payment.id);
+}
+
+/**
+ * Emails an issued invoice as an A4 PDF to the customer (or to `to`). Every
+ * attempt is kept in `document_emails`, listed by GET :id/emails.
+ */
+async function emailInvoice(supabase: SupabaseClient, auth: AuthContext, invoiceId: string, body: { to?: unknown; language?: unknown }) {
+  const { data: invoice, error } = await supabase
+    .from("invoices")
+    .select("id, invoice_number, status, created_at, total, paid_amount, customer_id")
+    .eq("id", invoiceId)
+    .eq("organization_id", auth.organizationId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) throw dbError(error);
+  if (!invoice) throw new ApiError("Invoice not found", "NOT_FOUND", 404);
+  if (invoice.status === 'draft') {
+    throw new ApiError("Draft invoices cannot be emailed, issue the invoice first", "VALIDATION_ERROR", 400);
+  }
+
+  const { data: customer } = await supabase
+    .from("customers")
+    .select("name, email, preferred_language")
+    .eq("id", invoice.customer_id)
+    .maybeSingle();
+
+  const { to, language } = resolveRecipient(body, customer);
+  const { pdf, filename } = await buildInvoicesPdf(supabase, getServiceRoleClient(), auth.organizationId, { invoiceId }, "a4");
+
+  return await sendDocumentEmail(getServiceRoleClient(), {
+    organizationId: auth.organizationId,
+    userId: auth.userId,
+    kind: "invoice",
+    documentId: invoiceId,
+    to,
+    language,
+    context: {
+      number: invoice.invoice_number,
+      date: String(invoice.created_at).slice(0, 10),
+      total: Number(invoice.total),
+      balance: Number(invoice.total) - (Number(invoice.paid_amount) || 0),
+      customerName: customer?.name,
+    },
+    pdf,
+    filename,
+  });
+}
+
+async function listNotes(supabase: SupabaseClient, invoiceId: string, organizationId: string, noteId?: string) {
+  let query = supabase
+    .from("invoice_notes")
+    .select("*, items:invoice_note_items(*)")
+    .eq("invoice_id", invoiceId)
+    .eq("organization_id", organizationId);
+
+  if (noteId) {
+    query = query.eq("id", noteId);
+  }
+
+  const { data: notes, error } = await query.order("created_at", { ascending: true });
+  if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+  if (!notes || notes.length === 0) return [];
+
+  const { data: einvoices, error: einvoicesError } = await supabase
+    .from("invoice_einvoices")
+    .select("id, note_id, icv, uuid, invoice_hash, qr_code, created_at")
+    .in("note_id", notes.map((note) => note.id));
+
+  if (einvoicesError) throw new ApiError(einvoicesError.message, "DB_ERROR", 500);
+
+  return notes.map((note) => ({
+    ...note,
+    einvoice: (einvoices || []).find((einvoice) => einvoice.note_id === note.id) || null,
+  }));
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return corsResponse();
@@ -47,20 +479,104 @@ Deno.serve(async (req: Request) => {
     const url = new URL(req.url);
     const pathParts = url.pathname.split("/").filter(Boolean);
 
-    const lastPart = pathParts[pathParts.length - 1];
-    const action = lastPart === 'generate-number' ? 'generate-number' : undefined;
-    const invoiceId = lastPart !== 'invoices' && action !== 'generate-number' ? lastPart : undefined;
+    // invoices[/pdf | /consolidated | /refund-approvers | /:id[/pdf | /einvoice | /email | /emails | /notes[/:noteId/einvoice] | /payments[/:paymentId] | /refunds]]
+    const [resourceId, subResource, childId, childAction] = pathParts.slice(pathParts.lastIndexOf('invoices') + 1);
+    const action = ['generate-number', 'pdf', 'consolidated', 'refund-approvers'].includes(resourceId) ? resourceId : undefined;
+    const invoiceId = action ? undefined : resourceId;
 
     switch (req.method) {
       case "GET": {
         requirePermission(auth, 'invoices.view');
 
         if (action === 'generate-number') {
-          const { data: invoiceNumber, error } = await supabase.rpc("generate_invoice_number");
+          // Only a preview: the number is taken when the invoice is inserted
+          const { data: invoiceNumber, error } = await supabase.rpc("preview_document_number", { p_document_type: "invoice" });
           if (error) throw new ApiError(error.message, "DB_ERROR", 500);
           return successResponse(invoiceNumber);
         }
 
+        if (action === 'pdf' || (invoiceId && subResource === 'pdf')) {
+          if (invoiceId) validateUUID(invoiceId, "Invoice ID");
+
+          const { pdf, filename } = await buildInvoicesPdf(
+            supabase,
+            // Workshop details are printed on every invoice, not only for users with settings.view
+            getServiceRoleClient(),
+            auth.organizationId,
+            invoiceId
+              ? { invoiceId }
+              : { startDate: url.searchParams.get("startDate") || undefined, endDate: url.searchParams.get("endDate") || undefined },
+            validatePdfFormat(url.searchParams.get("format"))
+          );
+
+          return fileResponse(pdf, "application/pdf", filename);
+        }
+
+        if (action === 'consolidated') {
+          const customerId = validateUUID(url.searchParams.get("customerId") || undefined, "Customer ID");
+          const startDate = url.searchParams.get("startDate");
+          const endDate = url.searchParams.get("endDate");
+          if (!startDate || !endDate) {
+            throw new ApiError("startDate and endDate are required", "VALIDATION_ERROR", 400);
+          }
+
+          return successResponse(
+            await listConsolidationCandidates(supabase, auth.organizationId, customerId, startDate, endDate)
+          );
+        }
+
+        if (action === 'refund-approvers') {
+          const { data, error } = await supabase.rpc("get_refund_approvers");
+          if (error) throw dbError(error);
+          return successResponse(data || []);
+        }
+
+        if (invoiceId && subResource === 'einvoice') {
+          validateUUID(invoiceId, "Invoice ID");
+
+          const { data, error } = await supabase
+            .from("invoice_einvoices")
+            .select("*")
+            .eq("invoice_id", invoiceId)
+            .is("note_id", null)
+            .eq("organization_id", auth.organizationId)
+            .maybeSingle();
+
+          if (error) throw new ApiError(error.message, "DB_ERROR", 500);
+          if (!data) throw new ApiError("E-invoice not found", "NOT_FOUND", 404);
+
+          return successResponse(data);
+        }
+
+        if (invoiceId && subResource === 'notes') {
+          validateUUID(invoiceId, "Invoice ID");
+          return successResponse(await listNotes(supabase, invoiceId, auth.organizationId));
+        }
+
+        if (invoiceId && subResource === 'payments') {
+          validateUUID(invoiceId, "Invoice ID");
+          return successResponse(await listPayments(supabase, invoiceId, auth.organizationId));
+        }
+
+        if (invoiceId && subResource === 'refunds') {
+          validateUUID(invoiceId, "Invoice ID");
+          return successResponse(await listRefunds(supabase, invoiceId, auth.organizationId));
+        }
+
+        if (invoiceId && subResource === 'emails') {
+          validateUUID(invoiceId, "Invoice ID");
+
+          const { data, error } = await supabase
+            .from("document_emails")
+            .select("id, recipient, language, subject, status, message_id, error, sent_by, created_at")
+            .eq("invoice_id", invoiceId)
+            .eq("organization_id", auth.organizationId)
+            .order("created_at", { ascending: false });
+
+          if (error) throw dbError(error);
+          return successResponse(data || []);
+        }
+
         if (invoiceId) {
           validateUUID(invoiceId, "Invoice ID");
 
@@ -68,11 +584,21 @@ Deno.serve(async (req: Request) => {
             .from("invoices")
             .select(`
               *,
-              work_order:work_orders(
+              work_order:work_orders!work_order_id(
                 id,
+                order_number,
+                description,
                 customer:customers(id, name, phone, email)
               ),
-              invoice_items(*)
+              invoice_items(*),
+              invoice_work_orders(
+                work_order:work_orders(
+                  id,
+                  order_number,
+                  completed_at,
+                  vehicle:vehicles(id, car_make, car_model, car_year, plate_number)
+                )
+              )
             `)
             .eq("id", invoiceId)
             .eq("organization_id", auth.organizationId)
@@ -81,13 +607,64 @@ Deno.serve(async (req: Request) => {
           if (error) throw new ApiError(error.message, "DB_ERROR", 500);
           if (!data) throw new ApiError("Invoice not found", "NOT_FOUND", 404);
 
+          const [{ data: customer }, { data: vehicle }, { data: settings }, { data: einvoice }, { data: taxBreakdown }] = await Promise.all([
+            supabase
+              .from("customers")
+              .select("id, name, phone, email")
+              .eq("id", data.customer_id)
+              .maybeSingle(),
+            data.vehicle_id
+              ? supabase
+                .from("vehicles")
+                .select("id, car_make, car_model, car_year, plate_number")
+                .eq("id", data.vehicle_id)
+                .maybeSingle()
+              : Promise.resolve({ data: null }),
+            // Seller details are needed by every cashier, not only users with settings.view
+            getServiceRoleClient()
+              .from("workshop_settings")
+              .select("name, tax_number")
+              .eq("organization_id", auth.organizationId)
+              .maybeSingle(),
+            supabase
+              .from("invoice_einvoices")
+              .select("id, icv, uuid, invoice_hash, qr_code, created_at")
+              .eq("invoice_id", invoiceId)
+              .is("note_id", null)
+              .maybeSingle(),
+            supabase.rpc("invoice_tax_breakdown", { p_invoice_id: invoiceId }),
+          ]);
+
           const result = {
             ...data,
-            customer: data.work_order?.customer || null,
-            items: data.invoice_items
+            customer: data.work_order?.customer || customer || null,
+            vehicle,
+            work_order: data.work_order
+              ? { id: data.work_order.id, order_number: data.work_order.order_number, description: data.work_order.description }
+              : null,
+            items: data.invoice_items,
+            // Work orders billed by a consolidated invoice, in completion order
+            work_orders: data.is_consolidated
+              ? (data.invoice_work_orders || [])
+                .map((row: { work_order: unknown }) => row.work_order)
+                .filter(Boolean)
+                .sort((a: { completed_at: string }, b: { completed_at: string }) =>
+                  String(a.completed_at).localeCompare(String(b.completed_at)))
+              : [],
+            einvoice,
+            // Taxable amount and VAT per category, after the invoice discount
+            tax_breakdown: taxBreakdown || [],
+            // ZATCA Phase 1 simplified tax invoice QR (TLV, base64)
+            qr_code: buildQrPayloadOrNull({
+              sellerName: settings?.name || "",
+              vatNumber: settings?.tax_number || "",
+              timestamp: new Date(data.issued_at || data.created_at).toISOString().slice(0, 19) + "Z",
+              total: Number(data.total) || 0,
+              vatTotal: Number(data.tax_amount) || 0,
+            }),
           };
-          delete result.work_order;
           delete result.invoice_items;
+          delete result.invoice_work_orders;
 
           return successResponse(result);
         }
@@ -100,13 +677,21 @@ Deno.serve(async (req: Request) => {
         const offset = pagination.offset;
         const orderBy = url.searchParams.get("orderBy") || "created_at";
         const orderDir = url.searchParams.get("orderDir") || "desc";
-        const paymentStatus = url.searchParams.get("paymentStatus");
+        if (!LIST_ORDER_COLUMNS.includes(orderBy)) {
+          throw new ApiError(`Invalid orderBy, expected one of: ${LIST_ORDER_COLUMNS.join(", ")}`, "VALIDATION_ERROR", 400);
+        }
+
+        const filters = validateListFilters(url.searchParams);
 
         let query = supabase
-          .from("invoices")
+          .rpc("search_invoices", {
+            p_search: filters.search,
+            p_payment_method: filters.paymentMethod,
+          }, { count: "exact" })
           .select(`
             id,
             invoice_number,
+            status,
             work_order_id,
             subtotal,
             discount_percentage,
@@ -118,17 +703,28 @@ Deno.serve(async (req: Request) => {
             payment_status,
             payment_method,
             card_type,
-            created_at,
-            work_order:work_orders!inner(
-              id,
-              order_number,
-              customer:customers!inner(id, name, phone)
-            )
-          `, { count: "exact" })
+            is_consolidated,
+            period_start,
+            period_end,
+            customer_id,
+            created_at
+          `)
           .eq("organization_id", auth.organizationId);
 
-        if (paymentStatus) {
-          query = query.eq("payment_status", paymentStatus);
+        if (filters.paymentStatus) {
+          query = query.eq("payment_status", filters.paymentStatus);
+        }
+        if (filters.startDate) {
+          query = query.gte("created_at", filters.startDate);
+        }
+        if (filters.endDate) {
+          query = query.lt("created_at", filters.endDate);
+        }
+        if (filters.minAmount !== null) {
+          query = query.gte("total", filters.minAmount);
+        }
+        if (filters.maxAmount !== null) {
+          query = query.lte("total", filters.maxAmount);
         }
 
         const { data, error, count } = await query
@@ -137,13 +733,20 @@ Deno.serve(async (req: Request) => {
 
         if (error) throw new ApiError(error.message, "DB_ERROR", 500);
 
+        // Consolidated invoices have no work order, so customers are loaded
+        // from the invoices themselves
+        const customerIds = [...new Set((data || []).map(item => item.customer_id).filter(Boolean))];
+        const { data: customers, error: customersError } = customerIds.length > 0
+          ? await supabase.from("customers").select("id, name, phone").in("id", customerIds)
+          : { data: [], error: null };
+
+        if (customersError) throw new ApiError(customersError.message, "DB_ERROR", 500);
+
         const results = (data || []).map(item => ({
           ...item,
-          customer: item.work_order?.customer || null
+          customer: (customers || []).find(customer => customer.id === item.customer_id) || null
         }));
 
-        results.forEach(item => delete item.work_order);
-
         return successResponse({
           data: results,
           total: count || 0,
@@ -152,50 +755,170 @@ Deno.serve(async (req: Request) => {
       }
 
       case "POST": {
+        if (invoiceId && subResource === 'notes') {
+          validateUUID(invoiceId, "Invoice ID");
+
+          if (childId && childAction === 'einvoice') {
+            requirePermission(auth, 'invoices.create');
+            validateUUID(childId, "Note ID");
+            const einvoice = await issueNoteEInvoice(getServiceRoleClient(), childId, auth.organizationId);
+            return successResponse(einvoice, 201);
+          }
+
+          const body = await validateRequestBody<CreateNoteBody>(req, ["note_type", "reason"]);
+          if (body.note_type !== 'credit' && body.note_type !== 'debit') {
+            throw new ApiError("note_type must be credit or debit", "VALIDATION_ERROR", 400);
+          }
+          requirePermission(auth, body.note_type === 'credit' ? 'invoices.void' : 'invoices.create');
+
+          const { data: note, error } = await supabase.rpc("create_invoice_note", {
+            p_invoice_id: invoiceId,
+            p_note_type: body.note_type,
+            p_reason: body.reason,
+            p_items: body.items || [],
+          });
+
+          if (error) throw dbError(error);
+
+          // The note is already saved; a failed stamp can be retried via POST :id/notes/:noteId/einvoice
+          try {
+            await issueNoteEInvoice(getServiceRoleClient(), note.id, auth.organizationId);
+          } catch (einvoiceError) {
+            console.error("Failed to issue note e-invoice:", einvoiceError);
+          }
+
+          const [created] = await listNotes(supabase, invoiceId, auth.organizationId, note.id);
+          return successResponse(created, 201);
+        }
+
+        if (invoiceId && subResource === 'email') {
+          // Emailing sends the document outside the company, viewing it is not enough
+          requirePermission(auth, 'invoices.update');
+          validateUUID(invoiceId, "Invoice ID");
+          return successResponse(await emailInvoice(supabase, auth, invoiceId, await req.json()), 201);
+        }
+
+        if (invoiceId && subResource === 'payments') {
+          requirePaymentPermission(auth);
+          validateUUID(invoiceId, "Invoice ID");
+
+          // Either a single payment or { tenders: [...] } for a split checkout
+          const body = await req.json();
+          const tenders: CreatePaymentBody[] = Array.isArray(body.tenders) ? body.tenders : [body];
+          const paymentIds = await recordPayments(supabase, invoiceId, auth.organizationId, tenders);
+
+          const payments = await listPayments(supabase, invoiceId, auth.organizationId);
+          const created = payments.filter((payment) => paymentIds.includes(payment.id));
+          return successResponse(Array.isArray(body.tenders) ? created : created[0], 201);
+        }
+
+        if (invoiceId && subResource === 'refunds') {
+          // A cashier may hand out the money, the approver holds invoices.refund
+          requireAnyPermission(auth, ['invoices.refund', 'invoices.manage_payments']);
+          validateUUID(invoiceId, "Invoice ID");
+
+          const body = await validateRequestBody<CreateRefundBody>(req, ["amount", "reason", "approved_by"]);
+          validateRefund(body);
+
+          const method = body.refund_method || "cash";
+          const { data: refund, error } = await supabase
+            .from("invoice_refunds")
+            .insert({
+              invoice_id: invoiceId,
+              organization_id: auth.organizationId,
+              note_id: body.note_id || null,
+              amount: Number(body.amount),
+              refund_method: method,
+              card_type: method === "card" ? body.card_type || null : null,
+              reference: body.reference?.trim() || null,
+              reason: body.reason.trim(),
+              approved_by: body.approved_by,
+            })
+            .select("id")
+            .single();
+
+          if (error) throw dbError(error);
+
+          const [created] = await listRefunds(supabase, invoiceId, auth.organizationId, refund.id);
+          return successResponse(created, 201);
+        }
+
         requirePermission(auth, 'invoices.create');
 
-        const body = await validateRequestBody(req, ["work_order_id", "subtotal", "total"]);
-        const { items, ...invoiceData } = body;
+        if (action === 'consolidated') {
+          const body = await validateRequestBody<CreateConsolidatedBody>(req, ["customer_id", "period_start", "period_end"]);
+          validateUUID(body.customer_id, "Customer ID");
+          if (body.work_order_ids !== undefined && !Array.isArray(body.work_order_ids)) {
+            throw new ApiError("work_order_ids must be an array", "VALIDATION_ERROR", 400);
+          }
+          body.work_order_ids?.forEach((id) => validateUUID(id, "Work order ID"));
 
-        const { data: invoiceNumber } = await supabase.rpc("generate_invoice_number");
+          const { customer_id, period_start, period_end, work_order_ids, ...invoiceData } = body;
+          const { data: invoice, error } = await supabase.rpc("create_consolidated_invoice", {
+            p_customer_id: customer_id,
+            p_period_start: period_start,
+            p_period_end: period_end,
+            p_work_order_ids: work_order_ids?.length ? work_order_ids : null,
+            p_invoice: invoiceData,
+          });
 
-        const { data: invoice, error: invoiceError } = await supabase
-          .from("invoices")
-          .insert({
-            ...invoiceData,
-            invoice_number: invoiceNumber,
-            organization_id: auth.organizationId,
-          })
-          .select()
-          .single();
+          if (error) throw dbError(error);
+          await applyDeposits(supabase, invoice.id);
 
-        if (invoiceError) throw new ApiError(invoiceError.message, "DB_ERROR", 500);
+          // Reviewed as a draft, then issued like any other invoice
+          return successResponse({ ...invoice, einvoice: null }, 201);
+        }
 
-        if (items && items.length > 0) {
-          const itemsToInsert = items.map((item: any) => ({
-            ...item,
-            invoice_id: invoice.id,
-          }));
+        if (invoiceId && subResource === 'einvoice') {
+          validateUUID(invoiceId, "Invoice ID");
+          const einvoice = await issueEInvoice(getServiceRoleClient(), invoiceId, auth.organizationId);
+          return successResponse(einvoice, 201);
+        }
 
-          const { error: itemsError } = await supabase
-            .from("invoice_items")
-            .insert(itemsToInsert);
+        const body = await validateRequestBody(req, ["work_order_id", "subtotal", "total"]);
+        // Checkout tenders are recorded in the ledger, which derives paid_amount.
+        // A bare paid_amount is still accepted as a single tender.
+        const { items, status, tenders: bodyTenders, paid_amount: initialPayment, ...invoiceData } = body;
+        const tenders: CreatePaymentBody[] = Array.isArray(bodyTenders)
+          ? bodyTenders
+          : Number(initialPayment) > 0
+            ? [{ amount: Number(initialPayment), payment_method: invoiceData.payment_method, card_type: invoiceData.card_type }]
+            : [];
+
+        tenders.forEach(validateTender);
+
+        // Saved with its items, settled with the deposits and the tenders and
+        // issued in one transaction. Totals are computed by the database, which
+        // also caps the tenders at the balance left after the deposits
+        const { data: invoice, error: invoiceError } = await supabase.rpc("create_invoice", {
+          p_invoice: invoiceData,
+          p_items: items || [],
+          p_tenders: tenders.map((tender) => ({ ...tender, amount: Number(tender.amount) })),
+          p_issue: status !== 'draft',
+        });
 
-          if (itemsError) throw new ApiError(itemsError.message, "DB_ERROR", 500);
+        if (invoiceError) throw dbError(invoiceError);
+
+        if (status === 'draft') {
+          return successResponse({ ...invoice, einvoice: null }, 201);
         }
 
-        return successResponse(invoice, 201);
+        return successResponse(await completeIssue(invoice, auth.organizationId), 201);
       }
 
       case "PUT": {
         validateUUID(invoiceId, "Invoice ID");
 
         const body = await req.json();
-        const { items, ...invoiceData } = body;
+        const { items, status, ...invoiceData } = body;
+
+        // Derived from the payments ledger, see invoices/:id/payments
+        delete invoiceData.paid_amount;
+        delete invoiceData.payment_status;
 
         // Check if only updating payment info
-        const paymentFields = ['paid_amount', 'payment_status', 'payment_method', 'card_type'];
-        const isPaymentOnlyUpdate = Object.keys(invoiceData).every(key =>
+        const paymentFields = ['payment_method', 'card_type'];
+        const isPaymentOnlyUpdate = !items && status === undefined && Object.keys(invoiceData).every(key =>
           paymentFields.includes(key) || key === 'updated_at'
         );
 
@@ -210,45 +933,95 @@ Deno.serve(async (req: Request) => {
           requirePermission(auth, 'invoices.update');
         }
 
-        const { data, error } = await supabase
+        if (status !== undefined && status !== 'issued') {
+          throw new ApiError("status can only be changed to issued", "VALIDATION_ERROR", 400);
+        }
+
+        const { data: current, error: currentError } = await supabase
           .from("invoices")
-          .update({ ...invoiceData, updated_at: new Date().toISOString() })
+          .select("status, is_consolidated")
           .eq("id", invoiceId)
           .eq("organization_id", auth.organizationId)
-          .select()
           .maybeSingle();
 
-        if (error) throw new ApiError(error.message, "DB_ERROR", 500);
-        if (!data) throw new ApiError("Invoice not found or you don't have permission", "NOT_FOUND", 404);
+        if (currentError) throw new ApiError(currentError.message, "DB_ERROR", 500);
+        if (!current) throw new ApiError("Invoice not found or you don't have permission", "NOT_FOUND", 404);
 
-        if (items) {
-          await supabase.from("invoice_items").delete().eq("invoice_id", invoiceId);
+        // Lines of a consolidated invoice come from its work orders
+        if (current.is_consolidated && items !== undefined) {
+          throw new ApiError(
+            "The lines of a consolidated invoice cannot be edited, delete the draft and create it again",
+            "CONSTRAINT_VIOLATION",
+            409
+          );
+        }
 
-          if (items.length > 0) {
-            const itemsToInsert = items.map((item: any) => ({
-              ...item,
-              invoice_id: invoiceId,
-            }));
+        if (current.status === 'issued' && !isPaymentOnlyUpdate) {
+          throw new ApiError(
+            "Issued invoices cannot be modified, issue a credit or debit note instead",
+            "INVOICE_ISSUED",
+            409
+          );
+        }
 
-            const { error: itemsError } = await supabase
-              .from("invoice_items")
-              .insert(itemsToInsert);
+        let data;
+        if (isPaymentOnlyUpdate) {
+          const { data: updated, error } = await supabase
+            .from("invoices")
+            .update({ ...invoiceData, updated_at: new Date().toISOString() })
+            .eq("id", invoiceId)
+            .eq("organization_id", auth.organizationId)
+            .select()
+            .maybeSingle();
 
-            if (itemsError) throw new ApiError(itemsError.message, "DB_ERROR", 500);
-          }
+          if (error) throw dbError(error);
+          if (!updated) throw new ApiError("Invoice not found or you don't have permission", "NOT_FOUND", 404);
+          data = updated;
+        } else {
+          // Items are replaced only when sent; totals are recomputed either way
+          const { data: saved, error } = await supabase.rpc("save_invoice", {
+            p_invoice_id: invoiceId,
+            p_invoice: invoiceData,
+            p_items: items ?? null,
+          });
+
+          if (error) throw dbError(error);
+          data = saved;
+        }
+
+        if (status === 'issued' && current.status === 'draft') {
+          return successResponse(await issueInvoice(supabase, invoiceId!, auth.organizationId));
         }
 
         return successResponse(data);
       }
 
       case "DELETE": {
-        requirePermission(auth, 'invoices.delete');
         validateUUID(invoiceId, "Invoice ID");
 
-        // First, get the invoice to find the work_order_id
+        if (subResource === 'payments') {
+          requirePaymentPermission(auth);
+          validateUUID(childId, "Payment ID");
+
+          const { data: deleted, error } = await supabase
+            .from("invoice_payments")
+            .delete()
+            .eq("id", childId)
+            .eq("invoice_id", invoiceId)
+            .eq("organization_id", auth.organizationId)
+            .select("id");
+
+          if (error) throw dbError(error);
+          if (!deleted || deleted.length === 0) throw new ApiError("Payment not found", "NOT_FOUND", 404);
+
+          return successResponse({ deleted: true });
+        }
+
+        requirePermission(auth, 'invoices.delete');
+
         const { data: invoice, error: fetchError } = await supabase
           .from("invoices")
-          .select("work_order_id")
+          .select("status, invoice_number")
           .eq("id", invoiceId)
           .eq("organization_id", auth.organizationId)
           .maybeSingle();
@@ -256,32 +1029,61 @@ Deno.serve(async (req: Request) => {
         if (fetchError) throw new ApiError(fetchError.message, "DB_ERROR", 500);
         if (!invoice) throw new ApiError("Invoice not found", "NOT_FOUND", 404);
 
+        if (invoice.status === 'issued') {
+          throw new ApiError(
+            "Issued invoices cannot be deleted, issue a credit note instead",
+            "INVOICE_ISSUED",
+            409
+          );
+        }
+
+        // Drafts saved before invoices were numbered on issue already hold
+        // their number, deleting one would leave a gap
+        if (!invoice.invoice_number.startsWith("DRAFT-")) {
+          throw new ApiError(
+            "This draft already holds its invoice number, issue it and then a credit note instead",
+            "INVOICE_NUMBERED",
+            409
+          );
+        }
+
+        const { count: paymentCount } = await supabase
+          .from("invoice_payments")
+          .select("id", { count: "exact", head: true })
+          .eq("invoice_id", invoiceId)
+          .is("deposit_id", null);
+
+        if (paymentCount) {
+          throw new ApiError(
+            "Invoices with recorded payments cannot be deleted, delete the payments first",
+            "INVOICE_HAS_PAYMENTS",
+            409
+          );
+        }
+
+        // Applied deposits go back to the customer's account
+        const { error: releaseError } = await getServiceRoleClient()
+          .from("invoice_payments")
+          .delete()
+          .eq("invoice_id", invoiceId)
+          .eq("organization_id", auth.organizationId)
+          .not("deposit_id", "is", null);
+
+        if (releaseError) throw dbError(releaseError);
+
         // Delete invoice items
         await supabase.from("invoice_items").delete().eq("invoice_id", invoiceId);
 
-        // Delete the invoice
+        // Delete the draft
         const { error } = await supabase
           .from("invoices")
           .delete()
           .eq("id", invoiceId)
           .eq("organization_id", auth.organizationId);
 
-        if (error) throw new ApiError(error.message, "DB_ERROR", 500);
-
-        // Reset work order status to 'in_progress' if it was linked to this invoice
-        if (invoice.work_order_id) {
-          await supabase
-            .from("work_orders")
-            .update({
-              status: "in_progress",
-              updated_at: new Date().toISOString()
-            })
-            .eq("id", invoice.work_order_id)
-            .eq("organization_id", auth.organizationId);
-          // Ignore errors - invoice is already deleted
-        }
+        if (error) throw dbError(error);
 
-        return successResponse({ deleted: true, workOrderReset: !!invoice.work_order_id });
+        return successResponse({ deleted: true });
       }
 
       default:
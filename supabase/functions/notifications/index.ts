@@ -0,0 +1,142 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { getAuthenticatedClient, getServiceRoleClient } from "../_shared/utils/supabase.ts";
+import { authenticateWithPermissions } from "../_shared/middleware/authWithPermissions.ts";
+import { requirePermission } from "../_shared/middleware/permissionChecker.ts";
+import { corsResponse, successResponse } from "../_shared/utils/response.ts";
+import { handleError, dbError } from "../_shared/middleware/errorHandler.ts";
+import { validateUUID } from "../_shared/utils/validation.ts";
+import { processNotificationQueue } from "../_shared/services/notificationService.ts";
+import { ApiError } from "../_shared/types.ts";
+
+const MESSAGE_STATUSES = ["pending", "sending", "sent", "failed"];
+
+/** Scheduled runs (pg_cron) call `process` with the service role key */
+function isServiceRoleRequest(req: Request): boolean {
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return !!serviceKey && req.headers.get("Authorization") === `Bearer ${serviceKey}`;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return corsResponse();
+  }
+
+  try {
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/").filter(Boolean);
+
+    // notifications[/process | /templates[/:event] | /:id/retry]
+    const [segment, action] = pathParts.slice(pathParts.lastIndexOf("notifications") + 1);
+
+    if (segment === "process" && req.method === "POST" && isServiceRoleRequest(req)) {
+      return successResponse(await processNotificationQueue(getServiceRoleClient()));
+    }
+
+    const auth = await authenticateWithPermissions(req);
+    const supabase = getAuthenticatedClient(req);
+
+    // Any user of the organization may flush its queue: it only sends what
+    // the database has already queued
+    if (segment === "process") {
+      if (req.method !== "POST") throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+      return successResponse(await processNotificationQueue(getServiceRoleClient(), auth.organizationId));
+    }
+
+    if (segment === "templates") {
+      if (req.method === "GET") {
+        requirePermission(auth, "settings.view");
+        const { data, error } = await supabase.rpc("get_notification_templates");
+        if (error) throw dbError(error);
+        return successResponse(data || []);
+      }
+
+      if (req.method === "PUT") {
+        requirePermission(auth, "settings.update");
+        if (!action) throw new ApiError("Event required", "VALIDATION_ERROR", 400);
+
+        const body = await req.json();
+        const { error } = await supabase.rpc("configure_notification_template", {
+          p_event: action,
+          p_body_en: body.body_en,
+          p_body_ar: body.body_ar,
+          p_is_active: body.is_active !== false,
+        });
+        if (error) throw dbError(error);
+
+        const { data, error: listError } = await supabase.rpc("get_notification_templates");
+        if (listError) throw dbError(listError);
+        return successResponse((data || []).find((row: { event: string }) => row.event === action));
+      }
+
+      throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+    }
+
+    switch (req.method) {
+      case "GET": {
+        requirePermission(auth, "customers.view");
+
+        const limit = Math.min(Math.max(1, parseInt(url.searchParams.get("limit") || "20")), 100);
+        const offset = Math.max(0, parseInt(url.searchParams.get("offset") || "0"));
+        const customerId = url.searchParams.get("customer_id");
+        const status = url.searchParams.get("status");
+
+        let query = supabase
+          .from("notification_messages")
+          .select(`
+            id, customer_id, event, reference_type, reference_id, provider, recipient, language, body,
+            status, attempts, max_attempts, next_attempt_at, last_error, sent_at, created_at
+          `, { count: "exact" })
+          .eq("organization_id", auth.organizationId);
+
+        if (customerId) {
+          validateUUID(customerId, "Customer ID");
+          query = query.eq("customer_id", customerId);
+        }
+
+        if (status) {
+          if (!MESSAGE_STATUSES.includes(status)) {
+            throw new ApiError("Invalid status", "VALIDATION_ERROR", 400);
+          }
+          query = query.eq("status", status);
+        }
+
+        const { data, error, count } = await query
+          .order("created_at", { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (error) throw dbError(error);
+
+        return successResponse({
+          data: data || [],
+          total: count || 0,
+          hasMore: (count || 0) > offset + limit,
+        });
+      }
+
+      case "POST": {
+        if (action !== "retry" || !segment) throw new ApiError("Not found", "NOT_FOUND", 404);
+        requirePermission(auth, "customers.update");
+        validateUUID(segment, "Message ID");
+
+        const { data, error } = await supabase.rpc("retry_notification_message", { p_message_id: segment });
+        if (error) throw dbError(error);
+
+        // Send right away instead of waiting for the next scheduled run
+        await processNotificationQueue(getServiceRoleClient(), auth.organizationId);
+
+        const { data: message } = await supabase
+          .from("notification_messages")
+          .select("*")
+          .eq("id", segment)
+          .maybeSingle();
+
+        return successResponse(message ?? data);
+      }
+
+      default:
+        throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+    }
+  } catch (error) {
+    return handleError(error);
+  }
+});
@@ -0,0 +1,268 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getAuthenticatedClient, getServiceRoleClient } from "../_shared/utils/supabase.ts";
+import { authenticateWithPermissions, AuthContext } from "../_shared/middleware/authWithPermissions.ts";
+import { requirePermission } from "../_shared/middleware/permissionChecker.ts";
+import { corsResponse, successResponse, fileResponse } from "../_shared/utils/response.ts";
+import { handleError, dbError } from "../_shared/middleware/errorHandler.ts";
+import { validateUUID } from "../_shared/utils/validation.ts";
+import { ApiError } from "../_shared/types.ts";
+import { buildQuotationPdf } from "../_shared/services/invoicePdfService.ts";
+import { resolveRecipient, sendDocumentEmail } from "../_shared/services/documentMailService.ts";
+
+const QUOTATION_STATUSES = ["draft", "sent", "accepted", "rejected", "expired"];
+
+interface SaveQuotationBody {
+  services?: unknown[];
+  spare_parts?: unknown[];
+  [field: string]: unknown;
+}
+
+/**
+ * Emails the quotation as an A4 PDF. A draft counts as sent once the email
+ * went out.
+ */
+async function emailQuotation(supabase: SupabaseClient, auth: AuthContext, quotationId: string, body: { to?: unknown; language?: unknown }) {
+  const { data: quotation, error } = await supabase
+    .from("quotations")
+    .select("id, quotation_number, status, issue_date, valid_until, total, customer:customers(name, email, preferred_language)")
+    .eq("id", quotationId)
+    .eq("organization_id", auth.organizationId)
+    .maybeSingle();
+
+  if (error) throw dbError(error);
+  if (!quotation) throw new ApiError("Quotation not found", "NOT_FOUND", 404);
+
+  const customer = quotation.customer as unknown as { name: string; email: string | null; preferred_language: string | null } | null;
+  const { to, language } = resolveRecipient(body, customer);
+  const { pdf, filename } = await buildQuotationPdf(supabase, getServiceRoleClient(), auth.organizationId, quotationId, "a4");
+
+  const email = await sendDocumentEmail(getServiceRoleClient(), {
+    organizationId: auth.organizationId,
+    userId: auth.userId,
+    kind: "quotation",
+    documentId: quotationId,
+    to,
+    language,
+    context: {
+      number: quotation.quotation_number,
+      date: quotation.issue_date,
+      total: Number(quotation.total),
+      validUntil: quotation.valid_until,
+      customerName: customer?.name,
+    },
+    pdf,
+    filename,
+  });
+
+  if (quotation.status === "draft") {
+    const { error: statusError } = await supabase.rpc("set_quotation_status", {
+      p_quotation_id: quotationId,
+      p_status: "sent",
+    });
+    if (statusError) console.error("Failed to mark quotation as sent:", statusError);
+  }
+
+  return email;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return corsResponse();
+  }
+
+  try {
+    const auth = await authenticateWithPermissions(req);
+    const supabase = getAuthenticatedClient(req);
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/").filter(Boolean);
+
+    // quotations[/:id[/pdf | /emails | /send | /reject | /accept | /invoice | /email]]
+    const [quotationId, action] = pathParts.slice(pathParts.lastIndexOf("quotations") + 1);
+
+    switch (req.method) {
+      case "GET": {
+        requirePermission(auth, "quotations.view");
+
+        if (quotationId && action === "pdf") {
+          validateUUID(quotationId, "Quotation ID");
+          const { pdf, filename } = await buildQuotationPdf(
+            supabase,
+            getServiceRoleClient(),
+            auth.organizationId,
+            quotationId,
+            "a4"
+          );
+          return fileResponse(pdf, "application/pdf", filename);
+        }
+
+        if (quotationId && action === "emails") {
+          validateUUID(quotationId, "Quotation ID");
+
+          const { data, error } = await supabase
+            .from("document_emails")
+            .select("id, recipient, language, subject, status, message_id, error, sent_by, created_at")
+            .eq("quotation_id", quotationId)
+            .eq("organization_id", auth.organizationId)
+            .order("created_at", { ascending: false });
+
+          if (error) throw dbError(error);
+          return successResponse(data || []);
+        }
+
+        if (quotationId) {
+          validateUUID(quotationId, "Quotation ID");
+
+          const { data, error } = await supabase
+            .from("quotations")
+            .select(`
+              *,
+              customer:customers(id, name, phone, email),
+              vehicle:vehicles(id, car_make, car_model, car_year, plate_number),
+              work_order:work_orders(id, order_number, status),
+              invoice:invoices(id, invoice_number, status),
+              services:quotation_services(id, service_type, description, labor_cost, catalog_item_id, created_at),
+              spare_parts:quotation_spare_parts(
+                id, spare_part_id, quantity, unit_price, total, created_at,
+                spare_part:spare_parts(id, name, part_number)
+              )
+            `)
+            .eq("id", quotationId)
+            .eq("organization_id", auth.organizationId)
+            .order("created_at", { referencedTable: "quotation_services", ascending: true })
+            .order("created_at", { referencedTable: "quotation_spare_parts", ascending: true })
+            .maybeSingle();
+
+          if (error) throw dbError(error);
+          if (!data) throw new ApiError("Quotation not found", "NOT_FOUND", 404);
+
+          return successResponse(data);
+        }
+
+        // Sent quotations past their validity date are listed as expired
+        const { error: expireError } = await supabase.rpc("expire_quotations");
+        if (expireError) throw dbError(expireError);
+
+        const limit = Math.min(Math.max(1, parseInt(url.searchParams.get("limit") || "20")), 100);
+        const offset = Math.max(0, parseInt(url.searchParams.get("offset") || "0"));
+        const status = url.searchParams.get("status");
+
+        let query = supabase
+          .from("quotations")
+          .select(`
+            id, quotation_number, status, issue_date, valid_until, total, work_order_id, invoice_id, created_at,
+            customer:customers(id, name, phone),
+            vehicle:vehicles(id, car_make, car_model, plate_number)
+          `, { count: "exact" })
+          .eq("organization_id", auth.organizationId);
+
+        if (status) {
+          if (!QUOTATION_STATUSES.includes(status)) {
+            throw new ApiError("Invalid status", "VALIDATION_ERROR", 400);
+          }
+          query = query.eq("status", status);
+        }
+
+        const { data, error, count } = await query
+          .order("created_at", { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (error) throw dbError(error);
+
+        return successResponse({
+          data: data || [],
+          total: count || 0,
+          hasMore: (count || 0) > offset + limit,
+        });
+      }
+
+      case "POST": {
+        if (quotationId) {
+          validateUUID(quotationId, "Quotation ID");
+          requirePermission(auth, "quotations.update");
+
+          let rpc;
+          switch (action) {
+            case "send":
+            case "reject":
+              rpc = supabase.rpc("set_quotation_status", {
+                p_quotation_id: quotationId,
+                p_status: action === "send" ? "sent" : "rejected",
+              });
+              break;
+            case "accept":
+              requirePermission(auth, "work_orders.create");
+              rpc = supabase.rpc("accept_quotation", { p_quotation_id: quotationId });
+              break;
+            case "invoice":
+              requirePermission(auth, "invoices.create");
+              rpc = supabase.rpc("convert_quotation_to_invoice", { p_quotation_id: quotationId });
+              break;
+            case "email":
+              return successResponse(await emailQuotation(supabase, auth, quotationId, await req.json()), 201);
+            default:
+              throw new ApiError("Unknown quotation action", "NOT_FOUND", 404);
+          }
+
+          const { data, error } = await rpc;
+          if (error) throw dbError(error);
+          return successResponse(data);
+        }
+
+        requirePermission(auth, "quotations.create");
+
+        const { services, spare_parts, ...quotationData } = await req.json() as SaveQuotationBody;
+        const { data, error } = await supabase.rpc("save_quotation", {
+          p_quotation_id: null,
+          p_quotation: quotationData,
+          p_services: services || [],
+          p_spare_parts: spare_parts || [],
+        });
+
+        if (error) throw dbError(error);
+        return successResponse(data, 201);
+      }
+
+      case "PUT": {
+        requirePermission(auth, "quotations.update");
+        validateUUID(quotationId, "Quotation ID");
+
+        const { services, spare_parts, ...quotationData } = await req.json() as SaveQuotationBody;
+        const { data, error } = await supabase.rpc("save_quotation", {
+          p_quotation_id: quotationId,
+          p_quotation: quotationData,
+          p_services: services ?? null,
+          p_spare_parts: spare_parts ?? null,
+        });
+
+        if (error) throw dbError(error);
+        return successResponse(data);
+      }
+
+      case "DELETE": {
+        requirePermission(auth, "quotations.delete");
+        validateUUID(quotationId, "Quotation ID");
+
+        // Only drafts can be deleted (enforced by RLS)
+        const { data, error } = await supabase
+          .from("quotations")
+          .delete()
+          .eq("id", quotationId)
+          .eq("organization_id", auth.organizationId)
+          .select("id");
+
+        if (error) throw dbError(error);
+        if (!data || data.length === 0) {
+          throw new ApiError("Only draft quotations can be deleted", "CONSTRAINT_VIOLATION", 409);
+        }
+
+        return successResponse({ deleted: true });
+      }
+
+      default:
+        throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+    }
+  } catch (error) {
+    return handleError(error);
+  }
+});
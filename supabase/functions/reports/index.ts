@@ -11,6 +11,11 @@ const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
 
+// Work order statuses as counted by the overview; the work is done once the car is ready for pickup
+const WAITING_STATUSES = ["received", "diagnosing", "awaiting_approval", "awaiting_parts"];
+const IN_PROGRESS_STATUSES = ["in_progress", "quality_check"];
+const FINISHED_STATUSES = ["ready_for_pickup", "delivered"];
+
 class ApiError extends Error {
   constructor(
     message: string,
@@ -112,20 +117,39 @@ Deno.serve(async (req: Request) => {
           .from("invoices")
           .select("id, total, payment_status, created_at", { count: "exact" })
           .eq("organization_id", profile.organization_id)
+          .eq("status", "issued")
+          .limit(5000);
+
+        let notesQuery = supabase
+          .from("invoice_notes")
+          .select("note_type, total")
+          .eq("organization_id", profile.organization_id)
+          .limit(5000);
+
+        let refundsQuery = supabase
+          .from("invoice_refunds")
+          .select("amount")
+          .eq("organization_id", profile.organization_id)
           .limit(5000);
 
         if (startDate) {
           workOrdersQuery = workOrdersQuery.gte("created_at", startDate);
           invoicesQuery = invoicesQuery.gte("created_at", startDate);
+          notesQuery = notesQuery.gte("created_at", startDate);
+          refundsQuery = refundsQuery.gte("refunded_at", startDate);
         }
         if (endDate) {
           workOrdersQuery = workOrdersQuery.lte("created_at", endDate);
           invoicesQuery = invoicesQuery.lte("created_at", endDate);
+          notesQuery = notesQuery.lte("created_at", endDate);
+          refundsQuery = refundsQuery.lte("refunded_at", endDate);
         }
 
-        const [workOrdersResult, invoicesResult, sparePartsResult, allSpareParts] = await Promise.all([
+        const [workOrdersResult, invoicesResult, notesResult, refundsResult, sparePartsResult, allSpareParts] = await Promise.all([
           workOrdersQuery,
           invoicesQuery,
+          notesQuery,
+          refundsQuery,
           supabase.from("work_order_spare_parts").select("quantity, unit_price").limit(5000),
           supabase
             .from("spare_parts")
@@ -141,16 +165,23 @@ Deno.serve(async (req: Request) => {
           (sp: any) => sp.quantity <= sp.minimum_quantity
         ).length;
 
-        const completedOrders = workOrders.filter((wo: any) => wo.status === "completed").length;
-        const pendingOrders = workOrders.filter((wo: any) => wo.status === "pending").length;
-        const inProgressOrders = workOrders.filter((wo: any) => wo.status === "in_progress").length;
+        const completedOrders = workOrders.filter((wo: any) => FINISHED_STATUSES.includes(wo.status)).length;
+        const pendingOrders = workOrders.filter((wo: any) => WAITING_STATUSES.includes(wo.status)).length;
+        const inProgressOrders = workOrders.filter((wo: any) => IN_PROGRESS_STATUSES.includes(wo.status)).length;
 
         const paidInvoices = invoices.filter((inv: any) => inv.payment_status === "paid").length;
         const unpaidInvoices = invoices.filter(
           (inv: any) => inv.payment_status === "unpaid" || inv.payment_status === "partial"
         ).length;
 
-        const totalRevenue = invoices.reduce((sum: number, inv: any) => sum + (Number(inv.total) || 0), 0);
+        // Credit notes reduce and debit notes add to the revenue of the period they are issued in
+        const notesAdjustment = (notesResult.data || []).reduce(
+          (sum: number, note) => sum + (note.note_type === "debit" ? 1 : -1) * (Number(note.total) || 0),
+          0
+        );
+        const totalRevenue = invoices.reduce((sum: number, inv: any) => sum + (Number(inv.total) || 0), 0) + notesAdjustment;
+        // Money paid back in the period; the revenue itself is already reduced by the credit notes
+        const totalRefunds = (refundsResult.data || []).reduce((sum: number, refund) => sum + (Number(refund.amount) || 0), 0);
         const sparePartsRevenue = sparePartsSold.reduce(
           (sum: number, sp: any) => sum + sp.quantity * sp.unit_price,
           0
@@ -159,6 +190,7 @@ Deno.serve(async (req: Request) => {
 
         result = {
           totalRevenue,
+          totalRefunds,
           totalWorkOrders: workOrders.length,
           completedOrders,
           pendingOrders,
@@ -234,11 +266,14 @@ Deno.serve(async (req: Request) => {
             service:work_order_services!inner(
               service_type,
               description,
+              billed_hours,
+              assignments:technician_assignments(share_amount),
+              time_entries:service_time_entries(technician_id, started_at, ended_at),
               work_order:work_orders!inner(status, created_at)
             )
           `)
           .in("technician_id", (technicians || []).map((t: any) => t.id))
-          .eq("service.work_order.status", "completed")
+          .in("service.work_order.status", FINISHED_STATUSES)
           .limit(5000);
 
         if (startDate) {
@@ -265,6 +300,19 @@ Deno.serve(async (req: Request) => {
           const jobsCompleted = assignments.length;
           const averageJobValue = jobsCompleted > 0 ? totalRevenue / jobsCompleted : 0;
 
+          // Clocked hours against the billed hours of the services, credited like the revenue
+          let actualHours = 0;
+          let billedHours = 0;
+          for (const a of assignments) {
+            for (const entry of a.service?.time_entries || []) {
+              if (entry.technician_id !== technician.id || !entry.ended_at) continue;
+              actualHours += (new Date(entry.ended_at).getTime() - new Date(entry.started_at).getTime()) / 3600000;
+            }
+            const shares = (a.service?.assignments || []).reduce((sum: number, s: { share_amount: number | null }) => sum + (s.share_amount || 0), 0);
+            const portion = shares > 0 ? (a.share_amount || 0) / shares : 1 / (a.service?.assignments?.length || 1);
+            billedHours += (a.service?.billed_hours || 0) * portion;
+          }
+
           let totalEarnings = 0;
           if (technician.contract_type === "percentage") {
             totalEarnings = (totalRevenue * technician.percentage) / 100;
@@ -278,6 +326,9 @@ Deno.serve(async (req: Request) => {
             totalEarnings,
             jobsCompleted,
             averageJobValue,
+            actualHours: Math.round(actualHours * 100) / 100,
+            billedHours: Math.round(billedHours * 100) / 100,
+            efficiency: actualHours > 0 ? Math.round((billedHours / actualHours) * 100) : null,
             jobs: assignments.map((a: any) => ({
               service_type: a.service?.service_type || "",
               description: a.service?.description || "",
@@ -291,8 +342,299 @@ Deno.serve(async (req: Request) => {
         break;
       }
 
+      case "vat": {
+        let invoicesQuery = supabase
+          .from("invoices")
+          .select("total, tax_amount")
+          .eq("organization_id", profile.organization_id)
+          .eq("status", "issued")
+          .limit(5000);
+
+        let notesQuery = supabase
+          .from("invoice_notes")
+          .select("note_type, total, tax_amount")
+          .eq("organization_id", profile.organization_id)
+          .limit(5000);
+
+        if (startDate) {
+          invoicesQuery = invoicesQuery.gte("created_at", startDate);
+          notesQuery = notesQuery.gte("created_at", startDate);
+        }
+        if (endDate) {
+          invoicesQuery = invoicesQuery.lte("created_at", endDate);
+          notesQuery = notesQuery.lte("created_at", endDate);
+        }
+
+        const [invoicesResult, notesResult, categoriesResult] = await Promise.all([
+          invoicesQuery,
+          notesQuery,
+          supabase.rpc("get_vat_category_totals", {
+            p_start_date: startDate || null,
+            p_end_date: endDate || null,
+          }),
+        ]);
+
+        if (invoicesResult.error) throw new ApiError(invoicesResult.error.message, "DATABASE_ERROR", 500);
+        if (notesResult.error) throw new ApiError(notesResult.error.message, "DATABASE_ERROR", 500);
+        if (categoriesResult.error) throw new ApiError(categoriesResult.error.message, "DATABASE_ERROR", 500);
+
+        const summarize = (rows: { total: number; tax_amount: number }[]) => {
+          const total = rows.reduce((sum, row) => sum + (Number(row.total) || 0), 0);
+          const vat = rows.reduce((sum, row) => sum + (Number(row.tax_amount) || 0), 0);
+          return { count: rows.length, taxableAmount: total - vat, vatAmount: vat, total };
+        };
+
+        const notes = notesResult.data || [];
+        const invoices = summarize(invoicesResult.data || []);
+        const creditNotes = summarize(notes.filter((note) => note.note_type === "credit"));
+        const debitNotes = summarize(notes.filter((note) => note.note_type === "debit"));
+
+        // Net taxable amount and VAT per category; credit notes count negatively
+        type CategoryRow = { document_type: "invoice" | "credit" | "debit"; vat_category: string; taxable_amount: number; tax_amount: number };
+        const categoryRows: CategoryRow[] = categoriesResult.data || [];
+        const categories = ["standard", "zero_rated", "exempt"].map((category) => {
+          const rows = categoryRows.filter((row) => row.vat_category === category);
+          const net = (field: "taxable_amount" | "tax_amount") => rows.reduce(
+            (sum, row) => sum + (row.document_type === "credit" ? -1 : 1) * (Number(row[field]) || 0),
+            0
+          );
+          return { category, taxableAmount: net("taxable_amount"), vatAmount: net("tax_amount") };
+        });
+
+        result = {
+          invoices,
+          creditNotes,
+          debitNotes,
+          categories,
+          net: {
+            taxableAmount: invoices.taxableAmount - creditNotes.taxableAmount + debitNotes.taxableAmount,
+            vatAmount: invoices.vatAmount - creditNotes.vatAmount + debitNotes.vatAmount,
+            total: invoices.total - creditNotes.total + debitNotes.total,
+          },
+        };
+        break;
+      }
+
+      case "reconciliation": {
+        // Payments that apply a deposit carry the deposit's date and method, but
+        // the money was already counted on the day the deposit was taken
+        let paymentsQuery = supabase
+          .from("invoice_payments")
+          .select("amount, payment_method, card_type, received_by")
+          .eq("organization_id", profile.organization_id)
+          .is("deposit_id", null)
+          .limit(10000);
+
+        let depositsQuery = supabase
+          .from("work_order_deposits")
+          .select("amount, payment_method, card_type, received_by")
+          .eq("organization_id", profile.organization_id)
+          .limit(10000);
+
+        // Applied in the period, reported apart from the drawer
+        let appliedDepositsQuery = supabase
+          .from("invoice_payments")
+          .select("amount")
+          .eq("organization_id", profile.organization_id)
+          .not("deposit_id", "is", null)
+          .limit(10000);
+
+        let refundsQuery = supabase
+          .from("invoice_refunds")
+          .select("amount, refund_method, card_type, recorded_by")
+          .eq("organization_id", profile.organization_id)
+          .limit(10000);
+
+        if (startDate) {
+          paymentsQuery = paymentsQuery.gte("paid_at", startDate);
+          depositsQuery = depositsQuery.gte("paid_at", startDate);
+          appliedDepositsQuery = appliedDepositsQuery.gte("created_at", startDate);
+          refundsQuery = refundsQuery.gte("refunded_at", startDate);
+        }
+        if (endDate) {
+          paymentsQuery = paymentsQuery.lte("paid_at", endDate);
+          depositsQuery = depositsQuery.lte("paid_at", endDate);
+          appliedDepositsQuery = appliedDepositsQuery.lte("created_at", endDate);
+          refundsQuery = refundsQuery.lte("refunded_at", endDate);
+        }
+
+        const [paymentsResult, depositsResult, appliedDepositsResult, refundsResult] = await Promise.all([
+          paymentsQuery,
+          depositsQuery,
+          appliedDepositsQuery,
+          refundsQuery,
+        ]);
+        if (paymentsResult.error) throw new ApiError(paymentsResult.error.message, "DATABASE_ERROR", 500);
+        if (depositsResult.error) throw new ApiError(depositsResult.error.message, "DATABASE_ERROR", 500);
+        if (appliedDepositsResult.error) throw new ApiError(appliedDepositsResult.error.message, "DATABASE_ERROR", 500);
+        if (refundsResult.error) throw new ApiError(refundsResult.error.message, "DATABASE_ERROR", 500);
+
+        // Method columns and the total include deposits taken and are net of
+        // refunds, i.e. what should be in the drawer
+        type Totals = {
+          cash: number; card: number; mada: number; visa: number; bankTransfer: number; other: number;
+          total: number; count: number; deposits: number; depositCount: number; refunds: number; refundCount: number;
+        };
+        const emptyTotals = (): Totals => ({
+          cash: 0, card: 0, mada: 0, visa: 0, bankTransfer: 0, other: 0,
+          total: 0, count: 0, deposits: 0, depositCount: 0, refunds: 0, refundCount: 0,
+        });
+
+        type Movement = { amount: number; method: string; card_type: string | null; isDeposit?: boolean };
+        const addMovement = (totals: Totals, movement: Movement, sign: 1 | -1) => {
+          const amount = sign * (Number(movement.amount) || 0);
+          if (movement.method === "cash") totals.cash += amount;
+          else if (movement.method === "card") {
+            totals.card += amount;
+            if (movement.card_type === "mada") totals.mada += amount;
+            if (movement.card_type === "visa") totals.visa += amount;
+          } else if (movement.method === "bank_transfer") totals.bankTransfer += amount;
+          else totals.other += amount;
+          totals.total += amount;
+          if (sign > 0 && movement.isDeposit) {
+            totals.deposits += amount;
+            totals.depositCount += 1;
+          } else if (sign > 0) {
+            totals.count += 1;
+          } else {
+            totals.refunds -= amount;
+            totals.refundCount += 1;
+          }
+        };
+
+        const totals = emptyTotals();
+        const byCashier = new Map<string, Totals>();
+        const addToCashier = (userId: string | null, movement: Movement, sign: 1 | -1) => {
+          addMovement(totals, movement, sign);
+          const key = userId || "";
+          if (!byCashier.has(key)) byCashier.set(key, emptyTotals());
+          addMovement(byCashier.get(key)!, movement, sign);
+        };
+
+        for (const payment of paymentsResult.data || []) {
+          addToCashier(payment.received_by, { ...payment, method: payment.payment_method }, 1);
+        }
+        for (const deposit of depositsResult.data || []) {
+          addToCashier(deposit.received_by, { ...deposit, method: deposit.payment_method, isDeposit: true }, 1);
+        }
+        for (const refund of refundsResult.data || []) {
+          addToCashier(refund.recorded_by, { ...refund, method: refund.refund_method }, -1);
+        }
+
+        const cashierIds = [...byCashier.keys()].filter(Boolean);
+        const { data: cashiers } = cashierIds.length > 0
+          ? await supabaseAdmin.from("users").select("id, full_name").in("id", cashierIds)
+          : { data: [] };
+
+        const appliedDeposits = appliedDepositsResult.data || [];
+
+        result = {
+          totals,
+          appliedDeposits: {
+            amount: appliedDeposits.reduce((sum: number, payment) => sum + (Number(payment.amount) || 0), 0),
+            count: appliedDeposits.length,
+          },
+          cashiers: [...byCashier.entries()]
+            .map(([id, cashierTotals]) => ({
+              userId: id || null,
+              name: (cashiers || []).find((cashier) => cashier.id === id)?.full_name || null,
+              ...cashierTotals,
+            }))
+            .sort((a, b) => b.total - a.total),
+        };
+        break;
+      }
+
+      case "aging": {
+        const asOf = url.searchParams.get("asOf") || new Date().toISOString().split("T")[0];
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+          throw new ApiError("asOf must be a date (YYYY-MM-DD)", "VALIDATION_ERROR", 400);
+        }
+        const customerId = url.searchParams.get("customerId");
+        if (customerId && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+          throw new ApiError("Invalid customerId", "VALIDATION_ERROR", 400);
+        }
+
+        const { data, error } = await supabase.rpc("get_ar_aging", {
+          p_as_of: asOf,
+          p_customer_id: customerId || null,
+        });
+        if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
+
+        type Buckets = { "0_30": number; "31_60": number; "61_90": number; "90_plus": number; total: number; count: number };
+        type AgingRow = {
+          invoice_id: string;
+          invoice_number: string;
+          customer_id: string | null;
+          customer_name: string | null;
+          customer_phone: string | null;
+          payment_terms: string | null;
+          invoice_date: string;
+          due_date: string;
+          total: number;
+          paid_amount: number;
+          adjustments: number;
+          balance: number;
+          days_overdue: number;
+          bucket: "0_30" | "31_60" | "61_90" | "90_plus";
+        };
+        const rows: AgingRow[] = data || [];
+        const emptyBuckets = (): Buckets => ({ "0_30": 0, "31_60": 0, "61_90": 0, "90_plus": 0, total: 0, count: 0 });
+
+        const addInvoice = (buckets: Buckets, row: AgingRow) => {
+          const balance = Number(row.balance) || 0;
+          buckets[row.bucket] += balance;
+          buckets.total += balance;
+          buckets.count += 1;
+        };
+
+        const totals = emptyBuckets();
+        const byCustomer = new Map<string, Buckets & { customerId: string | null; name: string | null; phone: string | null; paymentTerms: string | null; maxDaysOverdue: number }>();
+
+        for (const row of rows) {
+          addInvoice(totals, row);
+          const key = row.customer_id || "";
+          if (!byCustomer.has(key)) {
+            byCustomer.set(key, {
+              ...emptyBuckets(),
+              customerId: row.customer_id,
+              name: row.customer_name,
+              phone: row.customer_phone,
+              paymentTerms: row.payment_terms,
+              maxDaysOverdue: 0,
+            });
+          }
+          const customer = byCustomer.get(key)!;
+          addInvoice(customer, row);
+          customer.maxDaysOverdue = Math.max(customer.maxDaysOverdue, row.days_overdue);
+        }
+
+        result = {
+          asOf,
+          totals,
+          customers: [...byCustomer.values()].sort((a, b) => b.total - a.total),
+          // Invoice level detail only for a single customer (drill-down)
+          invoices: customerId
+            ? rows.map((row) => ({
+              invoiceId: row.invoice_id,
+              invoiceNumber: row.invoice_number,
+              invoiceDate: row.invoice_date,
+              dueDate: row.due_date,
+              paymentTerms: row.payment_terms,
+              total: Number(row.total),
+              paidAmount: Number(row.paid_amount),
+              adjustments: Number(row.adjustments),
+              balance: Number(row.balance),
+              daysOverdue: row.days_overdue,
+              bucket: row.bucket,
+            }))
+            : [],
+        };
+        break;
+      }
+
       default:
-        throw new ApiError("Invalid report type. Use: overview, inventory, or technicians", "INVALID_REPORT_TYPE", 400);
+        throw new ApiError("Invalid report type. Use: overview, inventory, technicians, vat, reconciliation, or aging", "INVALID_REPORT_TYPE", 400);
     }
 
     return new Response(
@@ -93,14 +93,14 @@ Deno.serve(async (req: Request) => {
       case "POST": {
         requirePermission(auth, 'salaries.create');
 
+        // salary_number is assigned from the organization's sequence on insert
         const body = await req.json();
-        const { data: salaryNumber } = await supabase.rpc("generate_salary_number");
+        delete body.salary_number;
 
         const { data, error } = await supabase
           .from("salaries")
           .insert({
             ...body,
-            salary_number: salaryNumber,
             organization_id: auth.organizationId,
           })
           .select(`*, technician:technicians(*)`)
@@ -0,0 +1,188 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { getAuthenticatedClient } from "../_shared/utils/supabase.ts";
+import { authenticateWithPermissions } from "../_shared/middleware/authWithPermissions.ts";
+import { requireAnyPermission, requirePermission } from "../_shared/middleware/permissionChecker.ts";
+import { corsResponse, successResponse } from "../_shared/utils/response.ts";
+import { handleError, dbError } from "../_shared/middleware/errorHandler.ts";
+import { validateUUID } from "../_shared/utils/validation.ts";
+import { ApiError } from "../_shared/types.ts";
+
+const CATEGORIES = ["mechanics", "electricity", "ac", "tires", "bodywork", "other"];
+
+interface CatalogItemBody {
+  code?: string;
+  name_ar?: string;
+  name_en?: string | null;
+  category?: string;
+  standard_hours?: number;
+  default_price?: number;
+  default_parts?: Array<{ spare_part_id: string; quantity: number }>;
+  is_active?: boolean;
+}
+
+function pickItemFields(body: CatalogItemBody, partial: boolean) {
+  const fields: CatalogItemBody = {};
+
+  if (body.code !== undefined || !partial) {
+    if (typeof body.code !== "string" || !body.code.trim()) {
+      throw new ApiError("Code is required", "VALIDATION_ERROR", 400);
+    }
+    fields.code = body.code.trim().toUpperCase();
+  }
+  if (body.name_ar !== undefined || !partial) {
+    if (typeof body.name_ar !== "string" || !body.name_ar.trim()) {
+      throw new ApiError("Arabic name is required", "VALIDATION_ERROR", 400);
+    }
+    fields.name_ar = body.name_ar.trim();
+  }
+  if (body.name_en !== undefined) fields.name_en = body.name_en?.trim() || null;
+  if (body.category !== undefined) {
+    if (!CATEGORIES.includes(body.category)) {
+      throw new ApiError(`category must be one of ${CATEGORIES.join(", ")}`, "VALIDATION_ERROR", 400);
+    }
+    fields.category = body.category;
+  }
+  if (body.standard_hours !== undefined) {
+    if (!(Number(body.standard_hours) >= 0)) {
+      throw new ApiError("standard_hours must be zero or more", "VALIDATION_ERROR", 400);
+    }
+    fields.standard_hours = Number(body.standard_hours);
+  }
+  if (body.default_price !== undefined) {
+    if (!(Number(body.default_price) >= 0)) {
+      throw new ApiError("default_price must be zero or more", "VALIDATION_ERROR", 400);
+    }
+    fields.default_price = Number(body.default_price);
+  }
+  if (body.default_parts !== undefined) {
+    if (!Array.isArray(body.default_parts)) {
+      throw new ApiError("default_parts must be an array", "VALIDATION_ERROR", 400);
+    }
+    fields.default_parts = body.default_parts.map((part) => {
+      validateUUID(part.spare_part_id, "Spare part ID");
+      if (!(Number(part.quantity) > 0)) {
+        throw new ApiError("Default part quantities must be greater than zero", "VALIDATION_ERROR", 400);
+      }
+      return { spare_part_id: part.spare_part_id, quantity: Number(part.quantity) };
+    });
+  }
+  if (body.is_active !== undefined) fields.is_active = body.is_active === true;
+
+  return fields;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return corsResponse();
+  }
+
+  try {
+    const auth = await authenticateWithPermissions(req);
+    const supabase = getAuthenticatedClient(req);
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/").filter(Boolean);
+
+    // service-catalog[/:id]
+    const [itemId] = pathParts.slice(pathParts.lastIndexOf("service-catalog") + 1);
+
+    // Default parts must come from the organization's inventory
+    const checkParts = async (fields: CatalogItemBody) => {
+      const partIds = [...new Set((fields.default_parts || []).map((part) => part.spare_part_id))];
+      if (partIds.length === 0) return;
+
+      const { data, error } = await supabase
+        .from("spare_parts")
+        .select("id")
+        .eq("organization_id", auth.organizationId)
+        .in("id", partIds);
+
+      if (error) throw dbError(error);
+      if ((data || []).length !== partIds.length) {
+        throw new ApiError("Spare part not found", "NOT_FOUND", 404);
+      }
+    };
+
+    switch (req.method) {
+      case "GET": {
+        requireAnyPermission(auth, ["work_orders.view", "quotations.view", "settings.view"]);
+
+        let query = supabase
+          .from("service_catalog_items")
+          .select("*")
+          .eq("organization_id", auth.organizationId);
+
+        if (url.searchParams.get("activeOnly") === "true") {
+          query = query.eq("is_active", true);
+        }
+
+        const { data, error } = await query
+          .order("code", { ascending: true })
+          .limit(2000);
+
+        if (error) throw dbError(error);
+        return successResponse(data || []);
+      }
+
+      case "POST": {
+        requirePermission(auth, "settings.update");
+
+        const fields = pickItemFields(await req.json(), false);
+        await checkParts(fields);
+
+        // A code already in use is refused by the database
+        const { data, error } = await supabase
+          .from("service_catalog_items")
+          .insert({ ...fields, organization_id: auth.organizationId })
+          .select()
+          .single();
+
+        if (error) throw dbError(error);
+        return successResponse(data, 201);
+      }
+
+      case "PUT": {
+        requirePermission(auth, "settings.update");
+        validateUUID(itemId, "Catalog item ID");
+
+        const fields = pickItemFields(await req.json(), true);
+        await checkParts(fields);
+
+        const { data, error } = await supabase
+          .from("service_catalog_items")
+          .update({ ...fields, updated_at: new Date().toISOString() })
+          .eq("id", itemId)
+          .eq("organization_id", auth.organizationId)
+          .select()
+          .maybeSingle();
+
+        if (error) throw dbError(error);
+        if (!data) throw new ApiError("Catalog item not found", "NOT_FOUND", 404);
+
+        return successResponse(data);
+      }
+
+      case "DELETE": {
+        requirePermission(auth, "settings.update");
+        validateUUID(itemId, "Catalog item ID");
+
+        // Work order and quotation lines keep their text and price
+        const { data, error } = await supabase
+          .from("service_catalog_items")
+          .delete()
+          .eq("id", itemId)
+          .eq("organization_id", auth.organizationId)
+          .select("id");
+
+        if (error) throw dbError(error);
+        if (!data || data.length === 0) throw new ApiError("Catalog item not found", "NOT_FOUND", 404);
+
+        return successResponse({ deleted: true });
+      }
+
+      default:
+        throw new ApiError("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+    }
+  } catch (error) {
+    return handleError(error);
+  }
+});
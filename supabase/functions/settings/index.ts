@@ -2,8 +2,162 @@ import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import { authenticateWithPermissions } from "../_shared/middleware/authWithPermissions.ts";
 import { requirePermission } from "../_shared/middleware/permissionChecker.ts";
 import { successResponse, errorResponse, corsResponse } from "../_shared/utils/response.ts";
-import { getSupabaseClient } from "../_shared/utils/supabase.ts";
+import { getAuthenticatedClient, getSupabaseClient } from "../_shared/utils/supabase.ts";
+import { dbError } from "../_shared/middleware/errorHandler.ts";
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
 import { ApiError } from "../_shared/types.ts";
+import { parsePrivateKey } from "../_shared/zatca/certificate.ts";
+import { fitsQrField, QR_FIELD_MAX_BYTES } from "../_shared/zatca/tlv.ts";
+import { loadSmtpConfig } from "../_shared/services/documentMailService.ts";
+import { sendMail } from "../_shared/mail/smtp.ts";
+
+/**
+ * The ZATCA private key lives in `zatca_credentials`, the messaging API key
+ * in `notification_credentials` and the SMTP password in `mail_credentials`
+ * (all service role only). They are write-only: clients only learn whether
+ * one is configured.
+ */
+async function withKeyStatus(supabase: SupabaseClient, settings: Record<string, unknown> | null) {
+  if (!settings) return settings;
+  const [{ data: zatca }, { data: notification }, { data: mail }] = await Promise.all([
+    supabase
+      .from('zatca_credentials')
+      .select('organization_id')
+      .eq('organization_id', settings.organization_id)
+      .maybeSingle(),
+    supabase
+      .from('notification_credentials')
+      .select('organization_id')
+      .eq('organization_id', settings.organization_id)
+      .maybeSingle(),
+    supabase
+      .from('mail_credentials')
+      .select('organization_id')
+      .eq('organization_id', settings.organization_id)
+      .maybeSingle(),
+  ]);
+  return {
+    ...settings,
+    zatca_private_key_configured: !!zatca,
+    notification_api_key_configured: !!notification,
+    smtp_password_configured: !!mail,
+  };
+}
+
+async function saveSettingsBody(supabase: SupabaseClient, organizationId: string, body: Record<string, unknown>) {
+  const { zatca_private_key, notification_api_key, smtp_password, ...data } = body;
+  delete data.zatca_private_key_configured;
+  delete data.notification_api_key_configured;
+  delete data.smtp_password_configured;
+
+  // The name is the seller on the e-invoice QR code
+  if (typeof data.name === 'string' && !fitsQrField(data.name)) {
+    throw new ApiError(`The workshop name may not exceed ${QR_FIELD_MAX_BYTES} bytes`, 'VALIDATION_ERROR', 400);
+  }
+
+  // An empty key keeps the stored one; send null to remove it
+  if (zatca_private_key === null) {
+    const { error } = await supabase.from('zatca_credentials').delete().eq('organization_id', organizationId);
+    if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
+  } else if (typeof zatca_private_key === 'string' && zatca_private_key.trim() !== '') {
+    try {
+      parsePrivateKey(zatca_private_key);
+    } catch {
+      throw new ApiError('Invalid ZATCA private key', 'VALIDATION_ERROR', 400);
+    }
+    const { error } = await supabase
+      .from('zatca_credentials')
+      .upsert({ organization_id: organizationId, private_key: zatca_private_key.trim(), updated_at: new Date().toISOString() });
+    if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
+  }
+
+  if (notification_api_key === null) {
+    const { error } = await supabase.from('notification_credentials').delete().eq('organization_id', organizationId);
+    if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
+  } else if (typeof notification_api_key === 'string' && notification_api_key.trim() !== '') {
+    const { error } = await supabase
+      .from('notification_credentials')
+      .upsert({ organization_id: organizationId, api_key: notification_api_key.trim(), updated_at: new Date().toISOString() });
+    if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
+  }
+
+  // Passwords may legitimately start or end with spaces, so they are kept as typed
+  if (smtp_password === null) {
+    const { error } = await supabase.from('mail_credentials').delete().eq('organization_id', organizationId);
+    if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
+  } else if (typeof smtp_password === 'string' && smtp_password !== '') {
+    const { error } = await supabase
+      .from('mail_credentials')
+      .upsert({ organization_id: organizationId, smtp_password, updated_at: new Date().toISOString() });
+    if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
+  }
+
+  return data;
+}
+
+/**
+ * settings/sequences            GET  numbering of every document type
+ * settings/sequences/:type      PUT  { prefix, reset_period, padding }
+ *
+ * Runs with the user's token: the database functions check the permissions
+ * and resolve the organization themselves.
+ */
+async function handleSequences(req: Request, documentType: string | undefined) {
+  const supabase = getAuthenticatedClient(req);
+
+  if (req.method === 'GET') {
+    const { data, error } = await supabase.rpc('get_document_sequences');
+    if (error) throw dbError(error);
+    return successResponse(data || []);
+  }
+
+  if (req.method === 'PUT') {
+    if (!documentType) throw new ApiError('Document type required', 'VALIDATION_ERROR', 400);
+    const body = await req.json();
+
+    const { error } = await supabase.rpc('configure_document_sequence', {
+      p_document_type: documentType,
+      p_prefix: typeof body.prefix === 'string' ? body.prefix.trim() : '',
+      p_reset_period: body.reset_period,
+      p_padding: Number(body.padding),
+    });
+    if (error) throw dbError(error);
+
+    const { data, error: listError } = await supabase.rpc('get_document_sequences');
+    if (listError) throw dbError(listError);
+    return successResponse((data || []).find((row: { document_type: string }) => row.document_type === documentType));
+  }
+
+  throw new ApiError('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+}
+
+/**
+ * settings/test-email   POST { to }
+ *
+ * Sends a short message with the saved SMTP settings, e.g. to a local
+ * catcher, so the configuration can be checked before emailing customers.
+ */
+async function handleTestEmail(req: Request, organizationId: string) {
+  if (req.method !== 'POST') throw new ApiError('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+
+  const { to } = await req.json();
+  if (typeof to !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to.trim())) {
+    throw new ApiError('Invalid email address', 'VALIDATION_ERROR', 400);
+  }
+
+  const { config, workshopName } = await loadSmtpConfig(getSupabaseClient(), organizationId);
+  try {
+    const messageId = await sendMail(config, {
+      to: to.trim(),
+      subject: `${workshopName}: test email / رسالة تجريبية`,
+      text: 'The email settings work. / إعدادات البريد الإلكتروني تعمل.',
+      html: '<p>The email settings work.</p><p dir="rtl">إعدادات البريد الإلكتروني تعمل.</p>',
+    });
+    return successResponse({ sent: true, message_id: messageId });
+  } catch (error) {
+    throw new ApiError(`The email could not be sent: ${error instanceof Error ? error.message : error}`, 'EMAIL_FAILED', 502);
+  }
+}
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -16,6 +170,18 @@ Deno.serve(async (req: Request) => {
     const supabase = getSupabaseClient();
     const url = new URL(req.url);
     const pathParts = url.pathname.split('/').filter(Boolean);
+
+    const sequencesIndex = pathParts.indexOf('sequences');
+    if (sequencesIndex !== -1) {
+      requirePermission(auth, req.method === 'GET' ? 'settings.view' : 'settings.update');
+      return await handleSequences(req, pathParts[sequencesIndex + 1]);
+    }
+
+    if (pathParts[pathParts.length - 1] === 'test-email') {
+      requirePermission(auth, 'settings.update');
+      return await handleTestEmail(req, auth.organizationId);
+    }
+
     const settingsId = pathParts[pathParts.length - 1] !== 'settings' ? pathParts[pathParts.length - 1] : undefined;
 
     switch (req.method) {
@@ -29,13 +195,13 @@ Deno.serve(async (req: Request) => {
           .maybeSingle();
 
         if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
-        return successResponse(data);
+        return successResponse(await withKeyStatus(supabase, data));
       }
 
       case 'POST': {
         requirePermission(auth, 'settings.update');
 
-        const body = await req.json();
+        const body = await saveSettingsBody(supabase, auth.organizationId, await req.json());
         const { data, error } = await supabase
           .from('workshop_settings')
           .insert({ ...body, organization_id: auth.organizationId })
@@ -43,14 +209,14 @@ Deno.serve(async (req: Request) => {
           .single();
 
         if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
-        return successResponse(data, 201);
+        return successResponse(await withKeyStatus(supabase, data), 201);
       }
 
       case 'PUT': {
         requirePermission(auth, 'settings.update');
         if (!settingsId) throw new ApiError('Settings ID required', 'VALIDATION_ERROR', 400);
 
-        const body = await req.json();
+        const body = await saveSettingsBody(supabase, auth.organizationId, await req.json());
         const { data, error } = await supabase
           .from('workshop_settings')
           .update({ ...body, updated_at: new Date().toISOString() })
@@ -60,7 +226,7 @@ Deno.serve(async (req: Request) => {
           .single();
 
         if (error) throw new ApiError(error.message, "DATABASE_ERROR", 500);
-        return successResponse(data);
+        return successResponse(await withKeyStatus(supabase, data));
       }
 
       default:
@@ -1,9 +1,353 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
-import { getAuthenticatedClient } from '../_shared/utils/supabase.ts';
-import { authenticateWithPermissions } from '../_shared/middleware/authWithPermissions.ts';
-import { requirePermission } from '../_shared/middleware/permissionChecker.ts';
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { getAuthenticatedClient, getServiceRoleClient } from '../_shared/utils/supabase.ts';
+import { authenticateWithPermissions, AuthContext } from '../_shared/middleware/authWithPermissions.ts';
+import { requirePermission, hasPermission } from '../_shared/middleware/permissionChecker.ts';
 import { corsResponse, successResponse, errorResponse } from '../_shared/utils/response.ts';
-import { handleError } from '../_shared/middleware/errorHandler.ts';
+import { handleError, dbError } from '../_shared/middleware/errorHandler.ts';
+import { ApiError } from '../_shared/types.ts';
+import { validateUUID } from '../_shared/utils/validation.ts';
+import { processNotificationQueue } from '../_shared/services/notificationService.ts';
+
+const PAYMENT_METHODS = ['cash', 'card', 'bank_transfer', 'other'];
+
+const DAMAGE_TYPES = ['scratch', 'dent', 'crack', 'broken'];
+const PHOTO_BUCKET = 'work-order-photos';
+
+interface CheckInBody {
+  odometer?: number | null;
+  fuel_level?: number | null;
+  complaints?: string;
+  valuables?: string;
+  damage_marks?: Array<{ x: number; y: number; type: string; note?: string }>;
+  photos?: string[];
+}
+
+// received -> diagnosing -> awaiting_approval -> awaiting_parts -> in_progress
+// -> quality_check -> ready_for_pickup -> delivered, with the usual detours
+const STATUS_TRANSITIONS: Record<string, string[]> = {
+  received: ['diagnosing', 'cancelled'],
+  diagnosing: ['awaiting_approval', 'awaiting_parts', 'in_progress', 'cancelled'],
+  awaiting_approval: ['diagnosing', 'awaiting_parts', 'in_progress', 'cancelled'],
+  awaiting_parts: ['in_progress', 'cancelled'],
+  in_progress: ['awaiting_parts', 'quality_check', 'cancelled'],
+  quality_check: ['in_progress', 'ready_for_pickup'],
+  ready_for_pickup: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+// Finishing and cancelling an order have their own permissions
+const STATUS_PERMISSIONS: Record<string, string> = {
+  ready_for_pickup: 'work_orders.complete',
+  delivered: 'work_orders.complete',
+  cancelled: 'work_orders.cancel',
+};
+
+// Orders shown on the job board: everything still at the workshop
+const BOARD_STATUSES = [
+  'received',
+  'diagnosing',
+  'awaiting_approval',
+  'awaiting_parts',
+  'in_progress',
+  'quality_check',
+  'ready_for_pickup',
+];
+
+const LABOR_ACTIONS = ['start', 'pause', 'finish'];
+const PAUSE_REASONS = ['waiting_parts', 'waiting_approval', 'break', 'other_job', 'end_of_shift', 'other'];
+
+interface ClockBody {
+  service_id?: string;
+  technician_id?: string;
+  action?: string;
+  pause_reason?: string;
+  note?: string;
+}
+
+interface TimeEntry {
+  id: string;
+  service_id: string;
+  technician_id: string;
+  started_at: string;
+  ended_at: string | null;
+  end_reason: 'pause' | 'finish' | null;
+  pause_reason: string | null;
+  note: string | null;
+}
+
+interface CreateDepositBody {
+  amount: number;
+  payment_method?: string;
+  card_type?: 'mada' | 'visa' | null;
+  reference?: string;
+  notes?: string;
+  paid_at?: string;
+}
+
+// Deposits are taken at the counter, like invoice payments
+function requireDepositPermission(auth: AuthContext) {
+  if (!hasPermission(auth, 'invoices.update')) {
+    requirePermission(auth, 'invoices.manage_payments');
+  }
+}
+
+async function listDeposits(supabase: SupabaseClient, workOrderId: string, organizationId: string) {
+  const { data: deposits, error } = await supabase
+    .from('work_order_deposits')
+    .select('*, applications:invoice_payments(id, amount, invoice:invoices(id, invoice_number))')
+    .eq('work_order_id', workOrderId)
+    .eq('organization_id', organizationId)
+    .order('paid_at', { ascending: true });
+
+  if (error) throw dbError(error);
+  if (!deposits || deposits.length === 0) return [];
+
+  // Receiver names are printed on receipts, also for users without users.view
+  const receiverIds = [...new Set(deposits.map((deposit) => deposit.received_by).filter(Boolean))];
+  const { data: receivers } = receiverIds.length > 0
+    ? await getServiceRoleClient().from('users').select('id, full_name').in('id', receiverIds)
+    : { data: [] };
+
+  return deposits.map((deposit) => ({
+    ...deposit,
+    received_by_name: (receivers || []).find((user) => user.id === deposit.received_by)?.full_name || null,
+  }));
+}
+
+async function getCheckIn(supabase: SupabaseClient, workOrderId: string, organizationId: string) {
+  const { data: checkIn, error } = await supabase
+    .from('work_order_check_ins')
+    .select('*')
+    .eq('work_order_id', workOrderId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) throw dbError(error);
+  if (!checkIn) return null;
+
+  // The bucket is private; photos are shown through short-lived links
+  const serviceClient = getServiceRoleClient();
+  const { data: signed } = checkIn.photos.length > 0
+    ? await serviceClient.storage.from(PHOTO_BUCKET).createSignedUrls(checkIn.photos, 60 * 60)
+    : { data: [] };
+  const { data: inspector } = checkIn.checked_in_by
+    ? await serviceClient.from('users').select('full_name').eq('id', checkIn.checked_in_by).maybeSingle()
+    : { data: null };
+
+  return {
+    ...checkIn,
+    photo_urls: (signed || []).map((item) => item.signedUrl || ''),
+    checked_in_by_name: inspector?.full_name || null,
+  };
+}
+
+function validateCheckIn(body: CheckInBody, photoFolder: string) {
+  if (body.odometer != null && !(Number.isInteger(Number(body.odometer)) && Number(body.odometer) >= 0)) {
+    throw new ApiError('odometer must be a whole number of zero or more', 'VALIDATION_ERROR', 400);
+  }
+  if (body.fuel_level != null && !(Number(body.fuel_level) >= 0 && Number(body.fuel_level) <= 100)) {
+    throw new ApiError('fuel_level must be between 0 and 100', 'VALIDATION_ERROR', 400);
+  }
+  for (const mark of body.damage_marks || []) {
+    if (!DAMAGE_TYPES.includes(mark.type)) {
+      throw new ApiError(`damage type must be one of ${DAMAGE_TYPES.join(', ')}`, 'VALIDATION_ERROR', 400);
+    }
+    if (!(mark.x >= 0 && mark.x <= 100 && mark.y >= 0 && mark.y <= 100)) {
+      throw new ApiError('damage marks must lie on the diagram', 'VALIDATION_ERROR', 400);
+    }
+  }
+  if ((body.photos || []).some((path) => !path.startsWith(photoFolder))) {
+    throw new ApiError('Photos must be uploaded to the folder of this work order', 'VALIDATION_ERROR', 400);
+  }
+}
+
+async function listEvents(supabase: SupabaseClient, workOrderId: string, organizationId: string) {
+  const { data: events, error } = await supabase
+    .from('work_order_events')
+    .select('*')
+    .eq('work_order_id', workOrderId)
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw dbError(error);
+  if (!events || events.length === 0) return [];
+
+  const actorIds = [...new Set(events.map((event) => event.actor_id).filter(Boolean))];
+  const { data: actors } = actorIds.length > 0
+    ? await getServiceRoleClient().from('users').select('id, full_name').in('id', actorIds)
+    : { data: [] };
+
+  return events.map((event) => ({
+    ...event,
+    actor_name: (actors || []).find((user) => user.id === event.actor_id)?.full_name || null,
+  }));
+}
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+// Billed hours earned per actual hour, as a percentage
+const efficiency = (billedHours: number, actualHours: number) =>
+  actualHours > 0 ? Math.round((billedHours / actualHours) * 100) : null;
+
+async function getLabor(supabase: SupabaseClient, workOrderId: string, organizationId: string) {
+  const [servicesResult, entriesResult] = await Promise.all([
+    supabase
+      .from('work_order_services')
+      .select(`
+        id,
+        service_type,
+        description,
+        labor_cost,
+        billed_hours,
+        assignments:technician_assignments(share_amount, technician:technicians(id, name))
+      `)
+      .eq('work_order_id', workOrderId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('service_time_entries')
+      .select('id, service_id, technician_id, started_at, ended_at, end_reason, pause_reason, note')
+      .eq('work_order_id', workOrderId)
+      .eq('organization_id', organizationId)
+      .order('started_at', { ascending: true }),
+  ]);
+
+  if (servicesResult.error) throw dbError(servicesResult.error);
+  if (entriesResult.error) throw dbError(entriesResult.error);
+
+  const entries = (entriesResult.data || []) as TimeEntry[];
+  const now = Date.now();
+  const entryHours = (entry: TimeEntry) =>
+    ((entry.ended_at ? new Date(entry.ended_at).getTime() : now) - new Date(entry.started_at).getTime()) / 3600000;
+
+  const technicianTotals = new Map<string, { technician_id: string; name: string; actual: number; billed: number }>();
+
+  const services = (servicesResult.data || []).map(({ assignments, ...service }) => {
+    const billedHours = service.billed_hours === null ? null : Number(service.billed_hours);
+    const serviceEntries = entries.filter((entry) => entry.service_id === service.id);
+    const totalShares = (assignments || []).reduce((sum, assignment) => sum + Number(assignment.share_amount || 0), 0);
+
+    const technicians = (assignments || []).map((assignment) => {
+      const technician = assignment.technician as unknown as { id: string; name: string };
+      const own = serviceEntries.filter((entry) => entry.technician_id === technician.id);
+      const last = own[own.length - 1];
+      const actual = own.reduce((sum, entry) => sum + entryHours(entry), 0);
+
+      // Billed hours are credited to technicians like the labor revenue
+      const portion = totalShares > 0
+        ? Number(assignment.share_amount || 0) / totalShares
+        : 1 / assignments.length;
+      const totals = technicianTotals.get(technician.id)
+        || { technician_id: technician.id, name: technician.name, actual: 0, billed: 0 };
+      totals.actual += actual;
+      totals.billed += (billedHours || 0) * portion;
+      technicianTotals.set(technician.id, totals);
+
+      return {
+        technician_id: technician.id,
+        name: technician.name,
+        actual_hours: roundHours(actual),
+        state: !last ? 'idle' : !last.ended_at ? 'working' : last.end_reason === 'pause' ? 'paused' : 'finished',
+        since: last ? last.ended_at || last.started_at : null,
+        pause_reason: last?.end_reason === 'pause' ? last.pause_reason : null,
+      };
+    });
+
+    const actual = serviceEntries.reduce((sum, entry) => sum + entryHours(entry), 0);
+    return {
+      ...service,
+      billed_hours: billedHours,
+      actual_hours: roundHours(actual),
+      efficiency: billedHours === null ? null : efficiency(billedHours, actual),
+      technicians,
+    };
+  });
+
+  const actualHours = entries.reduce((sum, entry) => sum + entryHours(entry), 0);
+  const billedHours = services.reduce((sum, service) => sum + (service.billed_hours || 0), 0);
+
+  return {
+    services,
+    technicians: [...technicianTotals.values()].map((totals) => ({
+      technician_id: totals.technician_id,
+      name: totals.name,
+      actual_hours: roundHours(totals.actual),
+      billed_hours: roundHours(totals.billed),
+      efficiency: efficiency(totals.billed, totals.actual),
+    })),
+    entries,
+    actual_hours: roundHours(actualHours),
+    billed_hours: roundHours(billedHours),
+    efficiency: efficiency(billedHours, actualHours),
+  };
+}
+
+function validateDeposit(body: CreateDepositBody) {
+  const method = body.payment_method || 'cash';
+
+  if (!(Number(body.amount) > 0)) {
+    throw new ApiError('amount must be greater than zero', 'VALIDATION_ERROR', 400);
+  }
+  if (!PAYMENT_METHODS.includes(method)) {
+    throw new ApiError(`payment_method must be one of ${PAYMENT_METHODS.join(', ')}`, 'VALIDATION_ERROR', 400);
+  }
+  if (method === 'bank_transfer' && !body.reference?.trim()) {
+    throw new ApiError('Bank transfers require a reference', 'VALIDATION_ERROR', 400);
+  }
+}
+
+/**
+ * Checks a status change against the lifecycle and returns the status it
+ * was checked from along with the fields to update.
+ */
+async function statusChange(
+  supabase: SupabaseClient,
+  auth: AuthContext,
+  workOrderId: string,
+  status: string,
+  cancellationReason?: string
+) {
+  if (!(status in STATUS_TRANSITIONS)) {
+    throw new ApiError(`status must be one of ${Object.keys(STATUS_TRANSITIONS).join(', ')}`, 'VALIDATION_ERROR', 400);
+  }
+
+  const { data: order, error } = await supabase
+    .from('work_orders')
+    .select('status')
+    .eq('id', workOrderId)
+    .eq('organization_id', auth.organizationId)
+    .maybeSingle();
+
+  if (error) throw dbError(error);
+  if (!order) throw new ApiError('Work order not found', 'NOT_FOUND', 404);
+  if (order.status === status) return { from: order.status, fields: {} };
+
+  if (!STATUS_TRANSITIONS[order.status]?.includes(status)) {
+    throw new ApiError(
+      `A work order cannot move from ${order.status} to ${status}`,
+      'INVALID_TRANSITION',
+      409,
+      { from: order.status, to: status, allowed: STATUS_TRANSITIONS[order.status] || [] }
+    );
+  }
+
+  requirePermission(auth, STATUS_PERMISSIONS[status] || 'work_orders.update');
+
+  if (status === 'cancelled') {
+    if (!cancellationReason?.trim()) {
+      throw new ApiError('A cancellation reason is required', 'VALIDATION_ERROR', 400);
+    }
+    return { from: order.status, fields: { status, cancellation_reason: cancellationReason.trim() } };
+  }
+
+  return {
+    from: order.status,
+    fields: status === 'ready_for_pickup'
+      ? { status, completed_at: new Date().toISOString() }
+      : { status },
+  };
+}
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -16,7 +360,254 @@ Deno.serve(async (req: Request) => {
 
     const url = new URL(req.url);
     const pathParts = url.pathname.split('/').filter(Boolean);
-    const workOrderId = pathParts[pathParts.length - 1] !== 'work-orders' ? pathParts[pathParts.length - 1] : undefined;
+    // work-orders/:id, work-orders/:id/deposits, work-orders/:id/deposits/:depositId, work-orders/:id/events,
+    // work-orders/:id/check-in, work-orders/:id/labor, work-orders/:id/labor/:serviceId, work-orders/board
+    const [workOrderId, subResource, childId] = pathParts.slice(pathParts.lastIndexOf('work-orders') + 1);
+
+    if (workOrderId === 'board') {
+      if (req.method !== 'GET') throw new ApiError('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+      requirePermission(auth, 'work_orders.view');
+
+      const { data, error } = await supabase
+        .from('work_orders')
+        .select(`
+          id,
+          order_number,
+          status,
+          bay_id,
+          created_at,
+          status_changed_at,
+          customer:customers(id, name, phone),
+          vehicle:vehicles(id, car_make, car_model, plate_number),
+          bay:workshop_bays(id, name, kind),
+          services:work_order_services(
+            id,
+            assignments:technician_assignments(technician:technicians(id, name))
+          )
+        `)
+        .eq('organization_id', auth.organizationId)
+        .in('status', BOARD_STATUSES)
+        .order('status_changed_at', { ascending: true })
+        .limit(500);
+
+      if (error) throw dbError(error);
+
+      return successResponse((data || []).map(({ services, ...order }) => {
+        const technicians = new Map<string, { id: string; name: string }>();
+        for (const service of services || []) {
+          for (const assignment of service.assignments || []) {
+            const technician = assignment.technician as unknown as { id: string; name: string } | null;
+            if (technician) technicians.set(technician.id, technician);
+          }
+        }
+        return { ...order, technicians: [...technicians.values()] };
+      }));
+    }
+
+    if (workOrderId && subResource === 'check-in') {
+      switch (req.method) {
+        case 'GET': {
+          requirePermission(auth, 'work_orders.view');
+          return successResponse(await getCheckIn(supabase, workOrderId, auth.organizationId));
+        }
+
+        case 'PUT': {
+          // Taken while the order is opened, corrected later
+          if (!hasPermission(auth, 'work_orders.create')) {
+            requirePermission(auth, 'work_orders.update');
+          }
+
+          const body: CheckInBody = await req.json();
+          validateCheckIn(body, `${auth.organizationId}/${workOrderId}/`);
+
+          const { error } = await supabase
+            .from('work_order_check_ins')
+            .upsert({
+              work_order_id: workOrderId,
+              organization_id: auth.organizationId,
+              odometer: body.odometer ?? null,
+              fuel_level: body.fuel_level ?? null,
+              complaints: body.complaints?.trim() || null,
+              valuables: body.valuables?.trim() || null,
+              damage_marks: (body.damage_marks || []).map((mark) => ({
+                x: Math.round(mark.x * 10) / 10,
+                y: Math.round(mark.y * 10) / 10,
+                type: mark.type,
+                ...(mark.note?.trim() ? { note: mark.note.trim() } : {}),
+              })),
+              photos: body.photos || [],
+              updated_at: new Date().toISOString(),
+            }, { onConflict: 'work_order_id' });
+
+          if (error) throw dbError(error);
+          return successResponse(await getCheckIn(supabase, workOrderId, auth.organizationId));
+        }
+
+        default:
+          throw new ApiError('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+      }
+    }
+
+    if (workOrderId && subResource === 'labor') {
+      switch (req.method) {
+        case 'GET': {
+          requirePermission(auth, 'work_orders.view');
+          return successResponse(await getLabor(supabase, workOrderId, auth.organizationId));
+        }
+
+        case 'POST': {
+          requirePermission(auth, 'work_orders.update');
+
+          const body: ClockBody = await req.json();
+          validateUUID(body.service_id, 'Service ID');
+          validateUUID(body.technician_id, 'Technician ID');
+          if (!body.action || !LABOR_ACTIONS.includes(body.action)) {
+            throw new ApiError(`action must be one of ${LABOR_ACTIONS.join(', ')}`, 'VALIDATION_ERROR', 400);
+          }
+          if (body.action === 'pause' && !PAUSE_REASONS.includes(body.pause_reason || '')) {
+            throw new ApiError(`pause_reason must be one of ${PAUSE_REASONS.join(', ')}`, 'VALIDATION_ERROR', 400);
+          }
+
+          // Sessions are opened and closed by the database so a technician never works two jobs at once
+          const { error } = await supabase.rpc('clock_service_labor', {
+            p_service_id: body.service_id,
+            p_technician_id: body.technician_id,
+            p_action: body.action,
+            p_pause_reason: body.action === 'pause' ? body.pause_reason : null,
+            p_note: body.note?.trim() || null,
+          });
+
+          if (error) throw dbError(error);
+          return successResponse(await getLabor(supabase, workOrderId, auth.organizationId));
+        }
+
+        case 'PUT': {
+          requirePermission(auth, 'work_orders.update');
+          validateUUID(childId, 'Service ID');
+
+          const body: { billed_hours?: number | null } = await req.json();
+          const billedHours = body.billed_hours == null ? null : Number(body.billed_hours);
+          if (billedHours !== null && !(billedHours >= 0)) {
+            throw new ApiError('billed_hours must be zero or more', 'VALIDATION_ERROR', 400);
+          }
+
+          const { data: updated, error } = await supabase
+            .from('work_order_services')
+            .update({ billed_hours: billedHours })
+            .eq('id', childId)
+            .eq('work_order_id', workOrderId)
+            .select('id');
+
+          if (error) throw dbError(error);
+          if (!updated || updated.length === 0) throw new ApiError('Service not found', 'NOT_FOUND', 404);
+
+          return successResponse(await getLabor(supabase, workOrderId, auth.organizationId));
+        }
+
+        default:
+          throw new ApiError('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+      }
+    }
+
+    // The timeline is written by database triggers; users only add notes
+    if (workOrderId && subResource === 'events') {
+      switch (req.method) {
+        case 'GET': {
+          requirePermission(auth, 'work_orders.view');
+          return successResponse(await listEvents(supabase, workOrderId, auth.organizationId));
+        }
+
+        case 'POST': {
+          requirePermission(auth, 'work_orders.update');
+
+          const body: { note?: string } = await req.json();
+          const note = body.note?.trim();
+          if (!note) throw new ApiError('note is required', 'VALIDATION_ERROR', 400);
+
+          const { data: event, error } = await supabase
+            .from('work_order_events')
+            .insert({
+              work_order_id: workOrderId,
+              organization_id: auth.organizationId,
+              event_type: 'note',
+              data: { note },
+              actor_id: auth.userId,
+            })
+            .select('id')
+            .single();
+
+          if (error) throw dbError(error);
+
+          const events = await listEvents(supabase, workOrderId, auth.organizationId);
+          return successResponse(events.find((item) => item.id === event.id), 201);
+        }
+
+        default:
+          throw new ApiError('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+      }
+    }
+
+    if (workOrderId && subResource === 'deposits') {
+      switch (req.method) {
+        case 'GET': {
+          if (!hasPermission(auth, 'work_orders.view')) {
+            requirePermission(auth, 'invoices.view');
+          }
+          return successResponse(await listDeposits(supabase, workOrderId, auth.organizationId));
+        }
+
+        case 'POST': {
+          requireDepositPermission(auth);
+
+          const body: CreateDepositBody = await req.json();
+          validateDeposit(body);
+
+          // Organization, customer and receipt number are set by the database
+          const method = body.payment_method || 'cash';
+          const { data: deposit, error } = await supabase
+            .from('work_order_deposits')
+            .insert({
+              work_order_id: workOrderId,
+              organization_id: auth.organizationId,
+              amount: Number(body.amount),
+              payment_method: method,
+              card_type: method === 'card' ? body.card_type || null : null,
+              reference: body.reference?.trim() || null,
+              notes: body.notes?.trim() || null,
+              ...(body.paid_at ? { paid_at: body.paid_at } : {}),
+            })
+            .select('id')
+            .single();
+
+          if (error) throw dbError(error);
+
+          const deposits = await listDeposits(supabase, workOrderId, auth.organizationId);
+          return successResponse(deposits.find((item) => item.id === deposit.id), 201);
+        }
+
+        case 'DELETE': {
+          requireDepositPermission(auth);
+          if (!childId) throw new ApiError('Deposit ID required', 'VALIDATION_ERROR', 400);
+
+          // Applied deposits are refused by the database
+          const { data: deleted, error } = await supabase
+            .from('work_order_deposits')
+            .delete()
+            .eq('id', childId)
+            .eq('work_order_id', workOrderId)
+            .eq('organization_id', auth.organizationId)
+            .select('id');
+
+          if (error) throw dbError(error);
+          if (!deleted || deleted.length === 0) throw new ApiError('Deposit not found', 'NOT_FOUND', 404);
+
+          return successResponse({ deleted: true });
+        }
+
+        default:
+          throw new ApiError('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+      }
+    }
 
     switch (req.method) {
       case 'GET': {
@@ -33,12 +624,15 @@ Deno.serve(async (req: Request) => {
               total_parts_cost,
               customer_id,
               vehicle_id,
+              bay_id,
               organization_id,
               created_at,
               updated_at,
               completed_at,
+              status_changed_at,
               customer:customers(id, name, phone, email),
-              vehicle:vehicles(id, car_make, car_model, car_year, plate_number)
+              vehicle:vehicles(id, car_make, car_model, car_year, plate_number),
+              bay:workshop_bays(id, name, kind)
             `)
             .eq('id', workOrderId)
             .eq('organization_id', auth.organizationId)
@@ -91,7 +685,8 @@ Deno.serve(async (req: Request) => {
         const body = await req.json();
         const { data, error } = await supabase
           .from('work_orders')
-          .insert({ ...body, organization_id: auth.organizationId })
+          // New orders always start at reception
+          .insert({ ...body, status: 'received', cancellation_reason: null, completed_at: null, organization_id: auth.organizationId })
           .select(`
             *,
             customer:customers(*),
@@ -104,25 +699,70 @@ Deno.serve(async (req: Request) => {
       }
 
       case 'PUT': {
-        requirePermission(auth, 'work_orders.update');
         if (!workOrderId) throw new Error('Work order ID required');
 
         const body = await req.json();
-        const { organization_id, ...updateData } = body;
+        // Status, completion and cancellation only change through the lifecycle
+        const { organization_id, status, cancellation_reason, ...updateData } = body;
+        delete updateData.completed_at;
+        delete updateData.status_changed_at;
 
-        const { data, error } = await supabase
+        if (updateData.bay_id !== undefined && updateData.bay_id !== null) {
+          validateUUID(updateData.bay_id, 'Bay ID');
+        }
+
+        // A status change alone is covered by the permission of the transition
+        if (status === undefined || Object.keys(updateData).length > 0) {
+          requirePermission(auth, 'work_orders.update');
+        }
+        let checkedStatus: string | undefined;
+        if (status !== undefined) {
+          const change = await statusChange(supabase, auth, workOrderId, status, cancellation_reason);
+          checkedStatus = change.from;
+          Object.assign(updateData, change.fields);
+        }
+
+        let query = supabase
           .from('work_orders')
           .update({ ...updateData, updated_at: new Date().toISOString() })
           .eq('id', workOrderId)
-          .eq('organization_id', auth.organizationId)
+          .eq('organization_id', auth.organizationId);
+
+        // Applies only if the order has not moved since the transition was checked
+        if (updateData.status !== undefined) {
+          query = query.eq('status', checkedStatus);
+        }
+
+        const { data, error } = await query
           .select(`
             *,
             customer:customers(*),
             vehicle:vehicles(*)
           `)
-          .single();
+          .maybeSingle();
+
+        // A full bay is refused by the database
+        if (error) throw dbError(error);
+        if (!data) {
+          if (updateData.status !== undefined) {
+            throw new ApiError(
+              `The work order is no longer ${checkedStatus}, reload it and try again`,
+              'INVALID_TRANSITION',
+              409,
+              { from: checkedStatus, to: updateData.status }
+            );
+          }
+          throw new ApiError('Work order not found', 'NOT_FOUND', 404);
+        }
+
+        // Reaching ready_for_pickup queued the "ready for pickup" message
+        if (updateData.status === 'ready_for_pickup') {
+          EdgeRuntime.waitUntil(
+            processNotificationQueue(getServiceRoleClient(), auth.organizationId)
+              .catch((notifyError) => console.error('Failed to send notifications:', notifyError))
+          );
+        }
 
-        if (error) throw new Error(error.message);
         return successResponse(data);
       }
 
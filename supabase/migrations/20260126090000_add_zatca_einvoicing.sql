@@ -0,0 +1,104 @@
+/*
+  # ZATCA Phase 2 E-Invoicing
+
+  1. Purpose
+    - Every created invoice produces a UBL 2.1 XML e-invoice carrying the
+      invoice counter value (ICV), the previous invoice hash (PIH), a signed
+      hash (cryptographic stamp) and the embedded QR code
+    - Stored e-invoices are immutable
+
+  2. Changes
+    - `workshop_settings`
+      - `zatca_environment` (development | simulation | production)
+      - `zatca_certificate` (PEM compliance / production certificate)
+    - New table `zatca_credentials`
+      - Holds the signing private key (PEM, secp256k1) per organization
+      - Kept out of `workshop_settings` so no SELECT policy can ever expose it
+    - New table `invoice_einvoices`
+      - One row per invoice, chained per organization through `icv` / `previous_hash`
+      - UNIQUE (organization_id, icv) serializes concurrent issuers
+
+  3. Security
+    - `zatca_credentials`: RLS enabled without policies (service role only)
+    - `invoice_einvoices`: RLS enabled, SELECT requires `invoices.view`
+    - No INSERT/UPDATE/DELETE policies: rows are written by the edge function
+      with the service role only
+    - Triggers reject UPDATE and DELETE for every role
+*/
+
+-- 1. Signing credentials per organization
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'workshop_settings' AND column_name = 'zatca_environment'
+  ) THEN
+    ALTER TABLE workshop_settings
+    ADD COLUMN zatca_environment text DEFAULT 'development'
+    CHECK (zatca_environment IN ('development', 'simulation', 'production'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'workshop_settings' AND column_name = 'zatca_certificate'
+  ) THEN
+    ALTER TABLE workshop_settings ADD COLUMN zatca_certificate text;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS zatca_credentials (
+  organization_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  private_key text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE zatca_credentials ENABLE ROW LEVEL SECURITY;
+
+-- 2. Stored e-invoices
+CREATE TABLE IF NOT EXISTS invoice_einvoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  invoice_id uuid NOT NULL UNIQUE REFERENCES invoices(id) ON DELETE RESTRICT,
+  icv bigint NOT NULL CHECK (icv > 0),
+  uuid uuid NOT NULL UNIQUE,
+  previous_hash text NOT NULL,
+  invoice_hash text NOT NULL,
+  signature text NOT NULL,
+  qr_code text NOT NULL,
+  xml text NOT NULL,
+  environment text NOT NULL DEFAULT 'development',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT invoice_einvoices_org_icv_unique UNIQUE (organization_id, icv)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_einvoices_org_icv ON invoice_einvoices(organization_id, icv DESC);
+
+ALTER TABLE invoice_einvoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view einvoices with permission" ON invoice_einvoices;
+CREATE POLICY "Users can view einvoices with permission"
+  ON invoice_einvoices FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'invoices.view')
+  );
+
+-- 3. Immutability
+CREATE OR REPLACE FUNCTION prevent_einvoice_modification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RAISE EXCEPTION 'E-invoices are immutable (% rejected)', TG_OP
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_einvoice_update ON invoice_einvoices;
+CREATE TRIGGER trigger_prevent_einvoice_update
+  BEFORE UPDATE OR DELETE ON invoice_einvoices
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_einvoice_modification();
@@ -0,0 +1,429 @@
+/*
+  # Credit / Debit Notes and Immutable Issued Invoices
+
+  1. Purpose
+    - Issued invoices can no longer be edited or deleted; corrections are made
+      with a credit note (full or partial reversal) or a debit note (additional
+      charge) that references the original invoice
+    - Invoices can be saved as drafts, which remain editable until issued
+
+  2. Changes
+    - `invoices.status` (draft | issued), existing invoices are issued
+    - New table `invoice_notes` (numbered CN-000001 / DN-000001)
+    - New table `invoice_note_items`, optionally referencing the reversed
+      `invoice_items` row so partial reversals can be capped per line
+    - `create_invoice_note()` creates a note and its items in one transaction
+    - `invoice_einvoices.note_id`: notes share the e-invoice counter chain
+    - Permission `invoices.void` (credit notes)
+
+  3. Security
+    - RLS on both tables, SELECT requires `invoices.view`
+    - No INSERT/UPDATE/DELETE policies: notes are only written through
+      `create_invoice_note()` and are immutable once created
+*/
+
+-- 1. Invoice status
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE invoices
+    ADD COLUMN status text NOT NULL DEFAULT 'issued'
+    CHECK (status IN ('draft', 'issued'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_org_status ON invoices(organization_id, status);
+
+-- 2. Issued invoices are immutable except for their payment fields
+CREATE OR REPLACE FUNCTION protect_issued_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_mutable text[] := ARRAY[
+    'paid_amount', 'payment_status', 'payment_method', 'card_type',
+    'paid_at', 'due_date', 'updated_at'
+  ];
+BEGIN
+  IF OLD.status <> 'issued' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Invoice % is issued and cannot be deleted, issue a credit note instead', OLD.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (to_jsonb(NEW) - v_mutable) IS DISTINCT FROM (to_jsonb(OLD) - v_mutable) THEN
+    RAISE EXCEPTION 'Invoice % is issued and cannot be modified, issue a credit or debit note instead', OLD.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_issued_invoice ON invoices;
+CREATE TRIGGER trigger_protect_issued_invoice
+  BEFORE UPDATE OR DELETE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_issued_invoice();
+
+CREATE OR REPLACE FUNCTION protect_issued_invoice_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM invoices
+    WHERE id = COALESCE(NEW.invoice_id, OLD.invoice_id)
+    AND status = 'issued'
+  ) THEN
+    RAISE EXCEPTION 'Items of an issued invoice cannot be changed (% rejected)', TG_OP
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_issued_invoice_items ON invoice_items;
+CREATE TRIGGER trigger_protect_issued_invoice_items
+  BEFORE INSERT OR UPDATE OR DELETE ON invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_issued_invoice_items();
+
+-- 3. Credit / debit notes
+CREATE TABLE IF NOT EXISTS invoice_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE RESTRICT,
+  note_type text NOT NULL CHECK (note_type IN ('credit', 'debit')),
+  note_number text NOT NULL UNIQUE,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  discount_amount numeric(10,2) NOT NULL DEFAULT 0,
+  tax_rate numeric NOT NULL DEFAULT 0,
+  tax_type text NOT NULL DEFAULT 'exclusive' CHECK (tax_type IN ('inclusive', 'exclusive')),
+  tax_amount numeric(10,2) NOT NULL DEFAULT 0,
+  total numeric(10,2) NOT NULL CHECK (total > 0),
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS invoice_note_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id uuid NOT NULL REFERENCES invoice_notes(id) ON DELETE RESTRICT,
+  invoice_item_id uuid REFERENCES invoice_items(id) ON DELETE RESTRICT,
+  item_type text NOT NULL DEFAULT 'service' CHECK (item_type IN ('service', 'part')),
+  description text NOT NULL,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),
+  total numeric(10,2) NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_notes_invoice ON invoice_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_notes_org_created ON invoice_notes(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoice_note_items_note ON invoice_note_items(note_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_note_items_invoice_item ON invoice_note_items(invoice_item_id);
+
+ALTER TABLE invoice_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_note_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view invoice notes with permission" ON invoice_notes;
+CREATE POLICY "Users can view invoice notes with permission"
+  ON invoice_notes FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'invoices.view')
+  );
+
+DROP POLICY IF EXISTS "Users can view invoice note items with permission" ON invoice_note_items;
+CREATE POLICY "Users can view invoice note items with permission"
+  ON invoice_note_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invoice_notes n
+      WHERE n.id = invoice_note_items.note_id
+      AND n.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    )
+    AND user_has_permission(auth.uid(), 'invoices.view')
+  );
+
+CREATE OR REPLACE FUNCTION prevent_invoice_note_modification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Credit and debit notes are immutable (% rejected)', TG_OP
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_invoice_note_update ON invoice_notes;
+CREATE TRIGGER trigger_prevent_invoice_note_update
+  BEFORE UPDATE OR DELETE ON invoice_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_invoice_note_modification();
+
+DROP TRIGGER IF EXISTS trigger_prevent_invoice_note_item_update ON invoice_note_items;
+CREATE TRIGGER trigger_prevent_invoice_note_item_update
+  BEFORE UPDATE OR DELETE ON invoice_note_items
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_invoice_note_modification();
+
+-- 4. Numbering (separate sequences for credit and debit notes)
+CREATE OR REPLACE FUNCTION generate_invoice_note_number(p_note_type text)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_prefix text := CASE p_note_type WHEN 'credit' THEN 'CN-' ELSE 'DN-' END;
+  v_next integer;
+BEGIN
+  SELECT COALESCE(MAX(CAST(SUBSTRING(note_number FROM 4) AS integer)), 0) + 1
+  INTO v_next
+  FROM invoice_notes
+  WHERE note_number LIKE v_prefix || '%';
+
+  RETURN v_prefix || LPAD(v_next::text, 6, '0');
+END;
+$$;
+
+-- 5. Note creation
+CREATE OR REPLACE FUNCTION create_invoice_note(
+  p_invoice_id uuid,
+  p_note_type text,
+  p_reason text,
+  p_items jsonb DEFAULT '[]'::jsonb
+)
+RETURNS invoice_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_invoice invoices%ROWTYPE;
+  v_source invoice_items%ROWTYPE;
+  v_note invoice_notes%ROWTYPE;
+  v_line jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_quantity numeric;
+  v_unit_price numeric;
+  v_remaining numeric;
+  v_gross numeric := 0;
+  v_discount numeric;
+  v_after_discount numeric;
+  v_tax numeric;
+  v_balance numeric;
+BEGIN
+  IF p_note_type NOT IN ('credit', 'debit') THEN
+    RAISE EXCEPTION 'Invalid note type: %', p_note_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT user_has_permission(auth.uid(), CASE p_note_type WHEN 'credit' THEN 'invoices.void' ELSE 'invoices.create' END) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+
+  -- Locking the invoice serializes concurrent notes against it
+  SELECT * INTO v_invoice
+  FROM invoices
+  WHERE id = p_invoice_id
+  AND organization_id = v_org_id
+  AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_invoice.status <> 'issued' THEN
+    RAISE EXCEPTION 'Notes can only be issued against issued invoices' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- A credit note without lines reverses everything not yet credited
+  IF p_note_type = 'credit' AND jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'invoice_item_id', ii.id,
+      'quantity', ii.quantity + COALESCE(adjusted.quantity, 0)
+    )), '[]'::jsonb)
+    INTO p_items
+    FROM invoice_items ii
+    LEFT JOIN LATERAL (
+      SELECT SUM(CASE n.note_type WHEN 'debit' THEN ni.quantity ELSE -ni.quantity END) AS quantity
+      FROM invoice_note_items ni
+      JOIN invoice_notes n ON n.id = ni.note_id
+      WHERE ni.invoice_item_id = ii.id
+    ) adjusted ON true
+    WHERE ii.invoice_id = p_invoice_id
+    AND ii.quantity + COALESCE(adjusted.quantity, 0) > 0;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::numeric, 0);
+
+    IF v_line->>'invoice_item_id' IS NOT NULL THEN
+      SELECT * INTO v_source
+      FROM invoice_items
+      WHERE id = (v_line->>'invoice_item_id')::uuid
+      AND invoice_id = p_invoice_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item does not belong to invoice %', v_invoice.invoice_number
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      IF p_note_type = 'credit' THEN
+        SELECT v_source.quantity + COALESCE(SUM(
+          CASE n.note_type WHEN 'debit' THEN ni.quantity ELSE -ni.quantity END
+        ), 0)
+        INTO v_remaining
+        FROM invoice_note_items ni
+        JOIN invoice_notes n ON n.id = ni.note_id
+        WHERE ni.invoice_item_id = v_source.id;
+
+        IF v_quantity > v_remaining THEN
+          RAISE EXCEPTION 'Cannot credit % of "%", only % remaining', v_quantity, v_source.description, v_remaining
+            USING ERRCODE = 'check_violation';
+        END IF;
+      END IF;
+
+      v_unit_price := COALESCE((v_line->>'unit_price')::numeric, v_source.unit_price);
+      v_line := jsonb_build_object(
+        'invoice_item_id', v_source.id,
+        'item_type', v_source.item_type,
+        'description', COALESCE(NULLIF(trim(v_line->>'description'), ''), v_source.description)
+      );
+    ELSE
+      v_unit_price := COALESCE((v_line->>'unit_price')::numeric, 0);
+      IF COALESCE(trim(v_line->>'description'), '') = '' THEN
+        RAISE EXCEPTION 'Each line requires a description' USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+      v_line := jsonb_build_object(
+        'invoice_item_id', NULL,
+        'item_type', COALESCE(v_line->>'item_type', 'service'),
+        'description', trim(v_line->>'description')
+      );
+    END IF;
+
+    IF v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Unit price cannot be negative' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_array(v_line || jsonb_build_object(
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'total', round(v_quantity * v_unit_price, 2)
+    ));
+    v_gross := v_gross + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF jsonb_array_length(v_lines) = 0 OR v_gross <= 0 THEN
+    RAISE EXCEPTION 'Nothing to %', CASE p_note_type WHEN 'credit' THEN 'credit' ELSE 'charge' END
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Same totals semantics as the invoice: the invoice discount applies to the
+  -- lines, then VAT is added (exclusive) or extracted (inclusive)
+  v_discount := round(v_gross * COALESCE(v_invoice.discount_percentage, 0) / 100, 2);
+  v_after_discount := v_gross - v_discount;
+
+  IF COALESCE(v_invoice.tax_type, 'exclusive') = 'inclusive' THEN
+    v_tax := round(v_after_discount * COALESCE(v_invoice.tax_rate, 0) / (100 + COALESCE(v_invoice.tax_rate, 0)), 2);
+  ELSE
+    v_tax := round(v_after_discount * COALESCE(v_invoice.tax_rate, 0) / 100, 2);
+  END IF;
+
+  v_note.total := CASE
+    WHEN COALESCE(v_invoice.tax_type, 'exclusive') = 'inclusive' THEN v_after_discount
+    ELSE v_after_discount + v_tax
+  END;
+
+  IF p_note_type = 'credit' THEN
+    SELECT v_invoice.total + COALESCE(SUM(CASE note_type WHEN 'debit' THEN total ELSE -total END), 0)
+    INTO v_balance
+    FROM invoice_notes
+    WHERE invoice_id = p_invoice_id;
+
+    IF v_note.total > v_balance + 0.01 THEN
+      RAISE EXCEPTION 'Credit of % exceeds the invoice balance of %', v_note.total, v_balance
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO invoice_notes (
+    organization_id, invoice_id, note_type, note_number, reason,
+    subtotal, discount_amount, tax_rate, tax_type, tax_amount, total, created_by
+  ) VALUES (
+    v_org_id, p_invoice_id, p_note_type, generate_invoice_note_number(p_note_type), trim(p_reason),
+    CASE
+      WHEN COALESCE(v_invoice.tax_type, 'exclusive') = 'inclusive' THEN v_after_discount - v_tax
+      ELSE v_after_discount
+    END,
+    v_discount, COALESCE(v_invoice.tax_rate, 0), COALESCE(v_invoice.tax_type, 'exclusive'),
+    v_tax, v_note.total, auth.uid()
+  )
+  RETURNING * INTO v_note;
+
+  INSERT INTO invoice_note_items (note_id, invoice_item_id, item_type, description, quantity, unit_price, total)
+  SELECT
+    v_note.id,
+    (line->>'invoice_item_id')::uuid,
+    line->>'item_type',
+    line->>'description',
+    (line->>'quantity')::numeric,
+    (line->>'unit_price')::numeric,
+    (line->>'total')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  RETURN v_note;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_invoice_note(uuid, text, text, jsonb) TO authenticated;
+
+-- 6. Notes share the e-invoice counter chain of their organization
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_einvoices' AND column_name = 'note_id'
+  ) THEN
+    ALTER TABLE invoice_einvoices
+    ADD COLUMN note_id uuid UNIQUE REFERENCES invoice_notes(id) ON DELETE RESTRICT;
+  END IF;
+END $$;
+
+ALTER TABLE invoice_einvoices DROP CONSTRAINT IF EXISTS invoice_einvoices_invoice_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_einvoices_invoice_unique
+  ON invoice_einvoices(invoice_id)
+  WHERE note_id IS NULL;
+
+-- 7. Permission
+INSERT INTO permissions (key, resource, action, name_ar, name_en, description_ar, description_en, category, display_order)
+VALUES
+  ('invoices.void', 'invoices', 'void', 'إلغاء الفواتير', 'Void Invoices', 'إصدار إشعارات دائنة لعكس الفواتير كلياً أو جزئياً', 'Issue credit notes that fully or partially reverse invoices', 'financial', 46)
+ON CONFLICT (key) DO NOTHING;
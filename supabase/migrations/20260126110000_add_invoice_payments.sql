@@ -0,0 +1,255 @@
+/*
+  # Invoice Payments Ledger
+
+  1. Purpose
+    - An invoice can be settled through several partial payments; each one is
+      kept with its amount, method, reference, time and receiving user instead
+      of overwriting a single `paid_amount` on the invoice
+    - Every payment gets a printable receipt number (RC-000001)
+
+  2. Changes
+    - New table `invoice_payments`
+    - `invoices.paid_amount`, `payment_status` and `paid_at` are derived from
+      the ledger on every write; `payment_method` / `card_type` follow the
+      latest payment
+    - Existing paid amounts are backfilled as one payment per invoice
+    - Permission `invoices.manage_payments`
+
+  3. Security
+    - RLS enabled, SELECT requires `invoices.view`
+    - INSERT / DELETE require `invoices.update` or `invoices.manage_payments`
+    - Payments are never updated, a wrong payment is deleted and re-entered
+*/
+
+-- 1. Ledger
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE RESTRICT,
+  receipt_number text NOT NULL UNIQUE,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  payment_method text NOT NULL DEFAULT 'cash'
+    CHECK (payment_method IN ('cash', 'card', 'bank_transfer', 'other')),
+  card_type text CHECK (card_type IN ('mada', 'visa')),
+  reference text,
+  paid_at timestamptz NOT NULL DEFAULT now(),
+  received_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id, paid_at);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_org_paid_at ON invoice_payments(organization_id, paid_at DESC);
+
+-- 2. Backfill: the current paid amount becomes the first payment of each invoice
+INSERT INTO invoice_payments (
+  organization_id, invoice_id, receipt_number, amount, payment_method, card_type, paid_at, received_by
+)
+SELECT
+  i.organization_id,
+  i.id,
+  'RC-' || LPAD((ROW_NUMBER() OVER (ORDER BY i.created_at, i.id))::text, 6, '0'),
+  i.paid_amount,
+  COALESCE(i.payment_method, 'cash'),
+  CASE WHEN i.payment_method = 'card' THEN i.card_type END,
+  COALESCE(i.paid_at, i.updated_at, i.created_at),
+  NULL
+FROM invoices i
+WHERE i.paid_amount > 0
+  AND i.organization_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM invoice_payments p WHERE p.invoice_id = i.id);
+
+-- 3. Receipt numbers
+CREATE OR REPLACE FUNCTION generate_payment_receipt_number()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_next integer;
+BEGIN
+  SELECT COALESCE(MAX(CAST(SUBSTRING(receipt_number FROM 4) AS integer)), 0) + 1
+  INTO v_next
+  FROM invoice_payments
+  WHERE receipt_number ~ '^RC-[0-9]+$';
+
+  RETURN 'RC-' || LPAD(v_next::text, 6, '0');
+END;
+$$;
+
+-- 4. A payment cannot exceed the outstanding balance
+CREATE OR REPLACE FUNCTION prepare_invoice_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_paid numeric;
+BEGIN
+  -- Serializes concurrent payments on the same invoice
+  SELECT * INTO v_invoice FROM invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM invoice_payments
+  WHERE invoice_id = NEW.invoice_id;
+
+  IF v_paid + NEW.amount > v_invoice.total + 0.01 THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of % on invoice %',
+      NEW.amount, GREATEST(v_invoice.total - v_paid, 0), v_invoice.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.organization_id := v_invoice.organization_id;
+  NEW.received_by := COALESCE(auth.uid(), NEW.received_by);
+  NEW.receipt_number := COALESCE(NEW.receipt_number, generate_payment_receipt_number());
+  IF NEW.payment_method <> 'card' THEN
+    NEW.card_type := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_invoice_payment ON invoice_payments;
+CREATE TRIGGER trigger_prepare_invoice_payment
+  BEFORE INSERT ON invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_invoice_payment();
+
+CREATE OR REPLACE FUNCTION prevent_invoice_payment_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Payments cannot be modified, delete and re-enter the payment instead'
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_invoice_payment_update ON invoice_payments;
+CREATE TRIGGER trigger_prevent_invoice_payment_update
+  BEFORE UPDATE ON invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_invoice_payment_update();
+
+-- 5. Invoice payment fields are derived from the ledger
+CREATE OR REPLACE FUNCTION derive_invoice_payment_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_paid numeric := 0;
+  v_last_paid_at timestamptz;
+  v_latest invoice_payments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(SUM(amount), 0), MAX(paid_at)
+    INTO v_paid, v_last_paid_at
+    FROM invoice_payments
+    WHERE invoice_id = NEW.id;
+
+    SELECT * INTO v_latest
+    FROM invoice_payments
+    WHERE invoice_id = NEW.id
+    ORDER BY paid_at DESC, created_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      NEW.payment_method := v_latest.payment_method;
+      NEW.card_type := v_latest.card_type;
+    END IF;
+  END IF;
+
+  NEW.paid_amount := v_paid;
+  NEW.payment_status := CASE
+    WHEN v_paid <= 0 THEN 'unpaid'
+    WHEN v_paid >= NEW.total - 0.01 THEN 'paid'
+    ELSE 'partial'
+  END;
+  NEW.paid_at := CASE WHEN NEW.payment_status = 'paid' THEN v_last_paid_at END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_derive_invoice_payment_fields ON invoices;
+CREATE TRIGGER trigger_derive_invoice_payment_fields
+  BEFORE INSERT OR UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION derive_invoice_payment_fields();
+
+CREATE OR REPLACE FUNCTION sync_invoice_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Touching the invoice re-derives its payment fields
+  UPDATE invoices
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_invoice_payments ON invoice_payments;
+CREATE TRIGGER trigger_sync_invoice_payments
+  AFTER INSERT OR DELETE ON invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_invoice_payments();
+
+-- Bring existing invoices in line with the backfilled ledger
+UPDATE invoices SET updated_at = updated_at;
+
+-- 6. Row level security
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view invoice payments with permission" ON invoice_payments;
+CREATE POLICY "Users can view invoice payments with permission"
+  ON invoice_payments FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'invoices.view')
+  );
+
+DROP POLICY IF EXISTS "Users can record invoice payments with permission" ON invoice_payments;
+CREATE POLICY "Users can record invoice payments with permission"
+  ON invoice_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'invoices.update')
+      OR user_has_permission(auth.uid(), 'invoices.manage_payments')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete invoice payments with permission" ON invoice_payments;
+CREATE POLICY "Users can delete invoice payments with permission"
+  ON invoice_payments FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'invoices.update')
+      OR user_has_permission(auth.uid(), 'invoices.manage_payments')
+    )
+  );
+
+-- 7. Permission
+INSERT INTO permissions (key, resource, action, name_ar, name_en, description_ar, description_en, category, display_order)
+VALUES
+  ('invoices.manage_payments', 'invoices', 'manage_payments', 'إدارة المدفوعات', 'Manage Payments', 'تسجيل وحذف دفعات الفواتير', 'Record and delete invoice payments', 'financial', 47)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,81 @@
+/*
+  # Split Tender and Bank Transfer Payments
+
+  1. Purpose
+    - One checkout can be settled with several tenders (e.g. part cash, part
+      mada), each recorded as its own payment with its own reference
+    - Bank transfers are accepted on invoices, as they already are on
+      expenses and salaries
+
+  2. Changes
+    - `invoices.payment_method` accepts `split`; it is derived as `split` when
+      the payments of an invoice use more than one method
+    - Bank transfer payments require a reference (enforced for new rows only)
+*/
+
+-- 1. Split payment method on invoices
+DO $$
+BEGIN
+  ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_payment_method_check;
+  ALTER TABLE invoices ADD CONSTRAINT invoices_payment_method_check
+    CHECK (payment_method IN ('cash', 'card', 'bank_transfer', 'other', 'split'));
+END $$;
+
+-- 2. Transfers must be traceable
+ALTER TABLE invoice_payments DROP CONSTRAINT IF EXISTS invoice_payments_transfer_reference_check;
+ALTER TABLE invoice_payments ADD CONSTRAINT invoice_payments_transfer_reference_check
+  CHECK (payment_method <> 'bank_transfer' OR length(trim(COALESCE(reference, ''))) > 0)
+  NOT VALID;
+
+-- 3. Derive `split` when several methods were used
+CREATE OR REPLACE FUNCTION derive_invoice_payment_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_paid numeric := 0;
+  v_last_paid_at timestamptz;
+  v_methods integer := 0;
+  v_latest invoice_payments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(SUM(amount), 0), MAX(paid_at), COUNT(DISTINCT payment_method)
+    INTO v_paid, v_last_paid_at, v_methods
+    FROM invoice_payments
+    WHERE invoice_id = NEW.id;
+
+    IF v_methods > 1 THEN
+      NEW.payment_method := 'split';
+      NEW.card_type := NULL;
+    ELSIF v_methods = 1 THEN
+      SELECT * INTO v_latest
+      FROM invoice_payments
+      WHERE invoice_id = NEW.id
+      ORDER BY paid_at DESC, created_at DESC
+      LIMIT 1;
+
+      NEW.payment_method := v_latest.payment_method;
+      NEW.card_type := v_latest.card_type;
+    END IF;
+  END IF;
+
+  NEW.paid_amount := v_paid;
+  NEW.payment_status := CASE
+    WHEN v_paid <= 0 THEN 'unpaid'
+    WHEN v_paid >= NEW.total - 0.01 THEN 'paid'
+    ELSE 'partial'
+  END;
+  NEW.paid_at := CASE WHEN NEW.payment_status = 'paid' THEN v_last_paid_at END;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE invoices SET updated_at = updated_at
+WHERE id IN (
+  SELECT invoice_id FROM invoice_payments
+  GROUP BY invoice_id
+  HAVING COUNT(DISTINCT payment_method) > 1
+);
@@ -0,0 +1,295 @@
+/*
+  # Transactional Invoice Save With Server-Side Totals
+
+  1. Purpose
+    - Creating or editing an invoice used to insert the invoice, then delete
+      and re-insert its items in separate calls; a failure in between left an
+      invoice without lines
+    - Subtotal, tax and total were trusted from the client, while the item
+      trigger recalculated them with different (tax exclusive only) rules
+
+  2. Changes
+    - `calculate_invoice_totals()`: the single definition of invoice totals.
+      The discount applies to the lines, then VAT is added (exclusive) or
+      extracted (inclusive); `subtotal` is the amount before VAT
+    - `update_invoice_subtotal()` and `recalculate_invoice_totals()` use it,
+      and tax type changes now trigger a recalculation as well
+    - `save_invoice()` creates or updates a draft invoice and replaces its
+      items in one transaction; totals sent by the client are only compared
+      against the computed ones and rejected when they differ by more than
+      0.01
+*/
+
+-- 1. Canonical totals
+CREATE OR REPLACE FUNCTION calculate_invoice_totals(
+  p_lines_total numeric,
+  p_discount_percentage numeric,
+  p_tax_rate numeric,
+  p_tax_type text
+)
+RETURNS TABLE (subtotal numeric, discount_amount numeric, tax_amount numeric, total numeric)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rate numeric := COALESCE(p_tax_rate, 0);
+  v_after_discount numeric;
+BEGIN
+  discount_amount := round(COALESCE(p_lines_total, 0) * COALESCE(p_discount_percentage, 0) / 100, 2);
+  v_after_discount := COALESCE(p_lines_total, 0) - discount_amount;
+
+  IF COALESCE(p_tax_type, 'exclusive') = 'inclusive' THEN
+    tax_amount := round(v_after_discount * v_rate / (100 + v_rate), 2);
+    subtotal := v_after_discount - tax_amount;
+    total := v_after_discount;
+  ELSE
+    tax_amount := round(v_after_discount * v_rate / 100, 2);
+    subtotal := v_after_discount;
+    total := v_after_discount + tax_amount;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- 2. Item changes recalculate the invoice
+CREATE OR REPLACE FUNCTION update_invoice_subtotal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice_id uuid := COALESCE(NEW.invoice_id, OLD.invoice_id);
+BEGIN
+  UPDATE invoices i
+  SET
+    subtotal = t.subtotal,
+    discount_amount = t.discount_amount,
+    tax_amount = t.tax_amount,
+    total = t.total,
+    updated_at = now()
+  FROM calculate_invoice_totals(
+    (SELECT COALESCE(SUM(ii.total), 0) FROM invoice_items ii WHERE ii.invoice_id = v_invoice_id),
+    (SELECT discount_percentage FROM invoices WHERE id = v_invoice_id),
+    (SELECT tax_rate FROM invoices WHERE id = v_invoice_id),
+    (SELECT tax_type FROM invoices WHERE id = v_invoice_id)
+  ) t
+  WHERE i.id = v_invoice_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- 3. Discount and tax changes recalculate the invoice
+CREATE OR REPLACE FUNCTION recalculate_invoice_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_totals record;
+BEGIN
+  IF NEW.discount_percentage IS DISTINCT FROM OLD.discount_percentage
+    OR NEW.tax_rate IS DISTINCT FROM OLD.tax_rate
+    OR NEW.tax_type IS DISTINCT FROM OLD.tax_type
+  THEN
+    SELECT * INTO v_totals
+    FROM calculate_invoice_totals(
+      (SELECT COALESCE(SUM(total), 0) FROM invoice_items WHERE invoice_id = NEW.id),
+      NEW.discount_percentage,
+      NEW.tax_rate,
+      NEW.tax_type
+    );
+
+    NEW.subtotal := v_totals.subtotal;
+    NEW.discount_amount := v_totals.discount_amount;
+    NEW.tax_amount := v_totals.tax_amount;
+    NEW.total := v_totals.total;
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION calculate_invoice_totals(numeric, numeric, numeric, text) IS 'Invoice totals from the sum of its lines, discount percentage and VAT settings (inclusive or exclusive).';
+COMMENT ON FUNCTION update_invoice_subtotal() IS 'Recalculates invoice subtotal, discount, tax and total when items change.';
+COMMENT ON FUNCTION recalculate_invoice_totals() IS 'Recalculates invoice totals when the discount percentage, tax rate or tax type changes.';
+
+-- 4. Transactional create / update
+CREATE OR REPLACE FUNCTION save_invoice(
+  p_invoice_id uuid,
+  p_invoice jsonb,
+  p_items jsonb DEFAULT NULL
+)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_invoice invoices%ROWTYPE;
+  v_line jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_quantity numeric;
+  v_unit_price numeric;
+  v_line_total numeric;
+  v_lines_total numeric := 0;
+  v_totals record;
+  v_field text;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), CASE WHEN p_invoice_id IS NULL THEN 'invoices.create' ELSE 'invoices.update' END) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_invoice := COALESCE(p_invoice, '{}'::jsonb);
+
+  IF p_invoice_id IS NOT NULL THEN
+    SELECT * INTO v_invoice
+    FROM invoices
+    WHERE id = p_invoice_id
+    AND organization_id = v_org_id
+    AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_invoice.status <> 'draft' THEN
+      RAISE EXCEPTION 'Invoice % is issued and cannot be modified, issue a credit or debit note instead', v_invoice.invoice_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF COALESCE(p_invoice->>'customer_id', '') = '' THEN
+    RAISE EXCEPTION 'customer_id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Lines: without items on update the current lines are kept
+  IF p_items IS NULL AND p_invoice_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(total), 0) INTO v_lines_total FROM invoice_items WHERE invoice_id = p_invoice_id;
+  ELSE
+    FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+    LOOP
+      v_quantity := COALESCE((v_line->>'quantity')::numeric, 1);
+      v_unit_price := COALESCE((v_line->>'unit_price')::numeric, 0);
+
+      IF COALESCE(trim(v_line->>'description'), '') = '' THEN
+        RAISE EXCEPTION 'Each line requires a description' USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      IF v_quantity <= 0 OR v_unit_price < 0 THEN
+        RAISE EXCEPTION 'Invalid quantity or price on "%"', v_line->>'description'
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      v_line_total := round(v_quantity * v_unit_price, 2);
+
+      IF v_line ? 'total' AND abs((v_line->>'total')::numeric - v_line_total) > 0.01 THEN
+        RAISE EXCEPTION 'Line total of "%" should be %, got %', v_line->>'description', v_line_total, v_line->>'total'
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'item_type', COALESCE(v_line->>'item_type', 'service'),
+        'service_type', v_line->>'service_type',
+        'description', trim(v_line->>'description'),
+        'quantity', v_quantity,
+        'unit_price', v_unit_price,
+        'total', v_line_total
+      ));
+      v_lines_total := v_lines_total + v_line_total;
+    END LOOP;
+  END IF;
+
+  SELECT * INTO v_totals
+  FROM calculate_invoice_totals(
+    v_lines_total,
+    CASE WHEN p_invoice ? 'discount_percentage' THEN (p_invoice->>'discount_percentage')::numeric ELSE v_invoice.discount_percentage END,
+    CASE WHEN p_invoice ? 'tax_rate' THEN (p_invoice->>'tax_rate')::numeric ELSE v_invoice.tax_rate END,
+    CASE WHEN p_invoice ? 'tax_type' THEN p_invoice->>'tax_type' ELSE v_invoice.tax_type END
+  );
+
+  -- Client totals are only a consistency check
+  FOREACH v_field IN ARRAY ARRAY['subtotal', 'discount_amount', 'tax_amount', 'total']
+  LOOP
+    IF p_invoice ? v_field
+      AND abs((p_invoice->>v_field)::numeric - (to_jsonb(v_totals)->>v_field)::numeric) > 0.01
+    THEN
+      RAISE EXCEPTION 'Invoice % should be %, got %', v_field, to_jsonb(v_totals)->>v_field, p_invoice->>v_field
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END LOOP;
+
+  IF p_invoice_id IS NOT NULL AND v_totals.total < v_invoice.paid_amount - 0.01 THEN
+    RAISE EXCEPTION 'Invoice total of % is less than the % already paid', v_totals.total, v_invoice.paid_amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_invoice_id IS NULL THEN
+    INSERT INTO invoices (
+      organization_id, status, work_order_id, customer_id, vehicle_id,
+      discount_percentage, tax_rate, tax_type, notes, due_date,
+      subtotal, discount_amount, tax_amount, total
+    ) VALUES (
+      v_org_id,
+      'draft',
+      NULLIF(p_invoice->>'work_order_id', '')::uuid,
+      (p_invoice->>'customer_id')::uuid,
+      NULLIF(p_invoice->>'vehicle_id', '')::uuid,
+      COALESCE((p_invoice->>'discount_percentage')::numeric, 0),
+      COALESCE((p_invoice->>'tax_rate')::numeric, 0),
+      COALESCE(p_invoice->>'tax_type', 'exclusive'),
+      COALESCE(p_invoice->>'notes', ''),
+      (p_invoice->>'due_date')::timestamptz,
+      v_totals.subtotal, v_totals.discount_amount, v_totals.tax_amount, v_totals.total
+    )
+    RETURNING * INTO v_invoice;
+  ELSE
+    UPDATE invoices SET
+      work_order_id = CASE WHEN p_invoice ? 'work_order_id' THEN NULLIF(p_invoice->>'work_order_id', '')::uuid ELSE work_order_id END,
+      customer_id = COALESCE((p_invoice->>'customer_id')::uuid, customer_id),
+      vehicle_id = CASE WHEN p_invoice ? 'vehicle_id' THEN NULLIF(p_invoice->>'vehicle_id', '')::uuid ELSE vehicle_id END,
+      discount_percentage = COALESCE((p_invoice->>'discount_percentage')::numeric, discount_percentage),
+      tax_rate = COALESCE((p_invoice->>'tax_rate')::numeric, tax_rate),
+      tax_type = COALESCE(p_invoice->>'tax_type', tax_type),
+      notes = CASE WHEN p_invoice ? 'notes' THEN COALESCE(p_invoice->>'notes', '') ELSE notes END,
+      due_date = CASE WHEN p_invoice ? 'due_date' THEN (p_invoice->>'due_date')::timestamptz ELSE due_date END,
+      updated_at = now()
+    WHERE id = p_invoice_id;
+  END IF;
+
+  IF p_items IS NOT NULL OR p_invoice_id IS NULL THEN
+    DELETE FROM invoice_items WHERE invoice_id = v_invoice.id;
+
+    INSERT INTO invoice_items (invoice_id, item_type, service_type, description, quantity, unit_price, total)
+    SELECT
+      v_invoice.id,
+      line->>'item_type',
+      line->>'service_type',
+      line->>'description',
+      (line->>'quantity')::numeric,
+      (line->>'unit_price')::numeric,
+      (line->>'total')::numeric
+    FROM jsonb_array_elements(v_lines) AS line;
+  END IF;
+
+  -- The item triggers already arrive at the same totals; setting them once
+  -- more keeps the payment status derived against the final total
+  UPDATE invoices SET
+    subtotal = v_totals.subtotal,
+    discount_amount = v_totals.discount_amount,
+    tax_amount = v_totals.tax_amount,
+    total = v_totals.total
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_invoice(uuid, jsonb, jsonb) TO authenticated;
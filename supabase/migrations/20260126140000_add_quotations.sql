@@ -0,0 +1,562 @@
+/*
+  # Quotations
+
+  1. Purpose
+    - A customer can be given a priced estimate before any work starts,
+      instead of opening a work order or an invoice straight away
+    - An accepted quotation becomes a work order, and later an invoice, with
+      the same service and spare part lines
+
+  2. Changes
+    - New tables `quotations`, `quotation_services` (same shape as
+      `work_order_services`) and `quotation_spare_parts` (same shape as
+      `work_order_spare_parts`)
+    - Quotation numbers QT-000001
+    - Totals use `calculate_invoice_totals()` so a quotation and the invoice
+      created from it always agree
+    - `save_quotation()` creates or updates a quotation and replaces its lines
+      in one transaction
+    - `set_quotation_status()` sends or rejects a quotation;
+      `expire_quotations()` marks sent quotations past their validity date as
+      expired
+    - `accept_quotation()` creates the work order (services and spare parts,
+      which deduct stock as usual) and `convert_quotation_to_invoice()`
+      creates a draft invoice from the same lines
+    - Permissions `quotations.view`, `create`, `update`, `delete`
+
+  3. Security
+    - RLS enabled on all three tables, SELECT requires `quotations.view`
+    - All writes go through the functions above, which check permissions
+*/
+
+-- 1. Tables
+CREATE OR REPLACE FUNCTION generate_quotation_number()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_next integer;
+BEGIN
+  SELECT COALESCE(MAX(CAST(SUBSTRING(quotation_number FROM 4) AS integer)), 0) + 1
+  INTO v_next
+  FROM quotations
+  WHERE quotation_number ~ '^QT-[0-9]+$';
+
+  RETURN 'QT-' || LPAD(v_next::text, 6, '0');
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS quotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  quotation_number text NOT NULL UNIQUE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  vehicle_id uuid REFERENCES vehicles(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'accepted', 'rejected', 'expired')),
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  valid_until date NOT NULL DEFAULT CURRENT_DATE + 14,
+  notes text DEFAULT '',
+  discount_percentage numeric(5,2) NOT NULL DEFAULT 0 CHECK (discount_percentage BETWEEN 0 AND 100),
+  tax_rate numeric(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0),
+  tax_type text NOT NULL DEFAULT 'exclusive' CHECK (tax_type IN ('inclusive', 'exclusive')),
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  discount_amount numeric(10,2) NOT NULL DEFAULT 0,
+  tax_amount numeric(10,2) NOT NULL DEFAULT 0,
+  total numeric(10,2) NOT NULL DEFAULT 0,
+  work_order_id uuid REFERENCES work_orders(id) ON DELETE SET NULL,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  sent_at timestamptz,
+  responded_at timestamptz,
+  created_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT quotations_valid_until_after_issue CHECK (valid_until >= issue_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotations_org_created ON quotations(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quotations_org_status ON quotations(organization_id, status);
+CREATE INDEX IF NOT EXISTS idx_quotations_customer ON quotations(customer_id);
+
+CREATE TABLE IF NOT EXISTS quotation_services (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid NOT NULL REFERENCES quotations(id) ON DELETE CASCADE,
+  service_type text NOT NULL,
+  description text NOT NULL,
+  labor_cost numeric(10,2) NOT NULL DEFAULT 0 CHECK (labor_cost >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_services_quotation ON quotation_services(quotation_id);
+
+CREATE TABLE IF NOT EXISTS quotation_spare_parts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid NOT NULL REFERENCES quotations(id) ON DELETE CASCADE,
+  spare_part_id uuid NOT NULL REFERENCES spare_parts(id) ON DELETE RESTRICT,
+  quantity decimal(10, 2) NOT NULL CHECK (quantity > 0),
+  unit_price decimal(10, 2) NOT NULL CHECK (unit_price >= 0),
+  total decimal(10, 2) GENERATED ALWAYS AS (quantity * unit_price) STORED,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_spare_parts_quotation ON quotation_spare_parts(quotation_id);
+CREATE INDEX IF NOT EXISTS idx_quotation_spare_parts_part ON quotation_spare_parts(spare_part_id);
+
+ALTER TABLE quotations ALTER COLUMN quotation_number SET DEFAULT generate_quotation_number();
+
+-- 2. Transactional create / update
+CREATE OR REPLACE FUNCTION save_quotation(
+  p_quotation_id uuid,
+  p_quotation jsonb,
+  p_services jsonb DEFAULT NULL,
+  p_spare_parts jsonb DEFAULT NULL
+)
+RETURNS quotations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_quotation quotations%ROWTYPE;
+  v_line jsonb;
+  v_lines_total numeric := 0;
+  v_totals record;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), CASE WHEN p_quotation_id IS NULL THEN 'quotations.create' ELSE 'quotations.update' END) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_quotation := COALESCE(p_quotation, '{}'::jsonb);
+
+  IF p_quotation_id IS NOT NULL THEN
+    SELECT * INTO v_quotation
+    FROM quotations
+    WHERE id = p_quotation_id
+    AND organization_id = v_org_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_quotation.status NOT IN ('draft', 'sent') THEN
+      RAISE EXCEPTION 'Quotation % is % and can no longer be modified', v_quotation.quotation_number, v_quotation.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF COALESCE(p_quotation->>'customer_id', '') = '' THEN
+    RAISE EXCEPTION 'customer_id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_services, '[]'::jsonb))
+  LOOP
+    IF COALESCE(trim(v_line->>'service_type'), '') = '' OR COALESCE(trim(v_line->>'description'), '') = '' THEN
+      RAISE EXCEPTION 'Each service requires a type and a description' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    IF COALESCE((v_line->>'labor_cost')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Invalid labor cost on "%"', v_line->>'description' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END LOOP;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_spare_parts, '[]'::jsonb))
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM spare_parts
+      WHERE id = NULLIF(v_line->>'spare_part_id', '')::uuid
+      AND organization_id = v_org_id
+    ) THEN
+      RAISE EXCEPTION 'Spare part not found' USING ERRCODE = 'no_data_found';
+    END IF;
+    IF COALESCE((v_line->>'quantity')::numeric, 0) <= 0 OR COALESCE((v_line->>'unit_price')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Invalid spare part quantity or price' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END LOOP;
+
+  IF p_quotation_id IS NULL THEN
+    INSERT INTO quotations (
+      organization_id, customer_id, vehicle_id, issue_date, valid_until, notes,
+      discount_percentage, tax_rate, tax_type
+    ) VALUES (
+      v_org_id,
+      (p_quotation->>'customer_id')::uuid,
+      NULLIF(p_quotation->>'vehicle_id', '')::uuid,
+      COALESCE((p_quotation->>'issue_date')::date, CURRENT_DATE),
+      COALESCE((p_quotation->>'valid_until')::date, COALESCE((p_quotation->>'issue_date')::date, CURRENT_DATE) + 14),
+      COALESCE(p_quotation->>'notes', ''),
+      COALESCE((p_quotation->>'discount_percentage')::numeric, 0),
+      COALESCE((p_quotation->>'tax_rate')::numeric, 0),
+      COALESCE(p_quotation->>'tax_type', 'exclusive')
+    )
+    RETURNING * INTO v_quotation;
+  ELSE
+    UPDATE quotations SET
+      customer_id = COALESCE((p_quotation->>'customer_id')::uuid, customer_id),
+      vehicle_id = CASE WHEN p_quotation ? 'vehicle_id' THEN NULLIF(p_quotation->>'vehicle_id', '')::uuid ELSE vehicle_id END,
+      issue_date = COALESCE((p_quotation->>'issue_date')::date, issue_date),
+      valid_until = COALESCE((p_quotation->>'valid_until')::date, valid_until),
+      notes = CASE WHEN p_quotation ? 'notes' THEN COALESCE(p_quotation->>'notes', '') ELSE notes END,
+      discount_percentage = COALESCE((p_quotation->>'discount_percentage')::numeric, discount_percentage),
+      tax_rate = COALESCE((p_quotation->>'tax_rate')::numeric, tax_rate),
+      tax_type = COALESCE(p_quotation->>'tax_type', tax_type),
+      updated_at = now()
+    WHERE id = p_quotation_id
+    RETURNING * INTO v_quotation;
+  END IF;
+
+  -- Lines: on update, lines that are not sent are kept
+  IF p_services IS NOT NULL OR p_quotation_id IS NULL THEN
+    DELETE FROM quotation_services WHERE quotation_id = v_quotation.id;
+
+    INSERT INTO quotation_services (quotation_id, service_type, description, labor_cost)
+    SELECT
+      v_quotation.id,
+      trim(line->>'service_type'),
+      trim(line->>'description'),
+      round(COALESCE((line->>'labor_cost')::numeric, 0), 2)
+    FROM jsonb_array_elements(COALESCE(p_services, '[]'::jsonb)) AS line;
+  END IF;
+
+  IF p_spare_parts IS NOT NULL OR p_quotation_id IS NULL THEN
+    DELETE FROM quotation_spare_parts WHERE quotation_id = v_quotation.id;
+
+    INSERT INTO quotation_spare_parts (quotation_id, spare_part_id, quantity, unit_price)
+    SELECT
+      v_quotation.id,
+      (line->>'spare_part_id')::uuid,
+      (line->>'quantity')::numeric,
+      (line->>'unit_price')::numeric
+    FROM jsonb_array_elements(COALESCE(p_spare_parts, '[]'::jsonb)) AS line;
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(labor_cost) FROM quotation_services WHERE quotation_id = v_quotation.id), 0)
+    + COALESCE((SELECT SUM(total) FROM quotation_spare_parts WHERE quotation_id = v_quotation.id), 0)
+  INTO v_lines_total;
+
+  IF NOT EXISTS (SELECT 1 FROM quotation_services WHERE quotation_id = v_quotation.id)
+    AND NOT EXISTS (SELECT 1 FROM quotation_spare_parts WHERE quotation_id = v_quotation.id)
+  THEN
+    RAISE EXCEPTION 'A quotation requires at least one service or spare part' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_totals
+  FROM calculate_invoice_totals(v_lines_total, v_quotation.discount_percentage, v_quotation.tax_rate, v_quotation.tax_type);
+
+  UPDATE quotations SET
+    subtotal = v_totals.subtotal,
+    discount_amount = v_totals.discount_amount,
+    tax_amount = v_totals.tax_amount,
+    total = v_totals.total
+  WHERE id = v_quotation.id
+  RETURNING * INTO v_quotation;
+
+  RETURN v_quotation;
+END;
+$$;
+
+-- 3. Status changes
+CREATE OR REPLACE FUNCTION expire_quotations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE quotations
+  SET status = 'expired', updated_at = now()
+  WHERE organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  AND status = 'sent'
+  AND valid_until < CURRENT_DATE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Locks a quotation of the caller's organization for a status change
+CREATE OR REPLACE FUNCTION lock_quotation(p_quotation_id uuid)
+RETURNS quotations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quotation quotations%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'quotations.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_quotation
+  FROM quotations
+  WHERE id = p_quotation_id
+  AND organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_quotation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_quotation_status(p_quotation_id uuid, p_status text)
+RETURNS quotations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quotation quotations%ROWTYPE;
+BEGIN
+  v_quotation := lock_quotation(p_quotation_id);
+
+  IF p_status = 'sent' AND v_quotation.status = 'draft' THEN
+    UPDATE quotations SET status = 'sent', sent_at = now(), updated_at = now()
+    WHERE id = p_quotation_id
+    RETURNING * INTO v_quotation;
+  ELSIF p_status = 'rejected' AND v_quotation.status IN ('draft', 'sent') THEN
+    UPDATE quotations SET status = 'rejected', responded_at = now(), updated_at = now()
+    WHERE id = p_quotation_id
+    RETURNING * INTO v_quotation;
+  ELSE
+    RAISE EXCEPTION 'Quotation % cannot change from % to %', v_quotation.quotation_number, v_quotation.status, p_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN v_quotation;
+END;
+$$;
+
+-- 4. Conversion
+CREATE OR REPLACE FUNCTION accept_quotation(p_quotation_id uuid)
+RETURNS quotations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quotation quotations%ROWTYPE;
+  v_work_order_id uuid;
+BEGIN
+  v_quotation := lock_quotation(p_quotation_id);
+
+  IF NOT user_has_permission(auth.uid(), 'work_orders.create') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_quotation.status NOT IN ('draft', 'sent') THEN
+    RAISE EXCEPTION 'Quotation % is % and cannot be accepted', v_quotation.quotation_number, v_quotation.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_quotation.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Quotation % expired on %', v_quotation.quotation_number, v_quotation.valid_until
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO work_orders (organization_id, customer_id, vehicle_id, status, description)
+  VALUES (
+    v_quotation.organization_id,
+    v_quotation.customer_id,
+    v_quotation.vehicle_id,
+    'in_progress',
+    NULLIF(v_quotation.notes, '')
+  )
+  RETURNING id INTO v_work_order_id;
+
+  INSERT INTO work_order_services (work_order_id, service_type, description, labor_cost)
+  SELECT v_work_order_id, service_type, description, labor_cost
+  FROM quotation_services
+  WHERE quotation_id = p_quotation_id
+  ORDER BY created_at;
+
+  -- Spare parts are taken from stock here, as for any work order
+  INSERT INTO work_order_spare_parts (work_order_id, spare_part_id, quantity, unit_price)
+  SELECT v_work_order_id, spare_part_id, quantity, unit_price
+  FROM quotation_spare_parts
+  WHERE quotation_id = p_quotation_id
+  ORDER BY created_at;
+
+  UPDATE quotations SET
+    status = 'accepted',
+    work_order_id = v_work_order_id,
+    responded_at = now(),
+    updated_at = now()
+  WHERE id = p_quotation_id
+  RETURNING * INTO v_quotation;
+
+  RETURN v_quotation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION convert_quotation_to_invoice(p_quotation_id uuid)
+RETURNS quotations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quotation quotations%ROWTYPE;
+  v_items jsonb;
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  v_quotation := lock_quotation(p_quotation_id);
+
+  IF v_quotation.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Quotation % must be accepted before it is invoiced', v_quotation.quotation_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_quotation.invoice_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Quotation % is already invoiced', v_quotation.quotation_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(line ORDER BY line_order, created_at), '[]'::jsonb)
+  INTO v_items
+  FROM (
+    SELECT
+      1 AS line_order,
+      s.created_at,
+      jsonb_build_object(
+        'item_type', 'service',
+        'service_type', s.service_type,
+        'description', s.description,
+        'quantity', 1,
+        'unit_price', s.labor_cost
+      ) AS line
+    FROM quotation_services s
+    WHERE s.quotation_id = p_quotation_id
+    UNION ALL
+    SELECT
+      2,
+      qp.created_at,
+      jsonb_build_object(
+        'item_type', 'part',
+        'description', sp.name,
+        'quantity', qp.quantity,
+        'unit_price', qp.unit_price
+      )
+    FROM quotation_spare_parts qp
+    JOIN spare_parts sp ON sp.id = qp.spare_part_id
+    WHERE qp.quotation_id = p_quotation_id
+  ) lines;
+
+  -- Permission and totals checks are those of any new invoice
+  v_invoice := save_invoice(
+    NULL,
+    jsonb_build_object(
+      'work_order_id', v_quotation.work_order_id,
+      'customer_id', v_quotation.customer_id,
+      'vehicle_id', v_quotation.vehicle_id,
+      'discount_percentage', v_quotation.discount_percentage,
+      'tax_rate', v_quotation.tax_rate,
+      'tax_type', v_quotation.tax_type,
+      'notes', v_quotation.notes
+    ),
+    v_items
+  );
+
+  UPDATE quotations SET invoice_id = v_invoice.id, updated_at = now()
+  WHERE id = p_quotation_id
+  RETURNING * INTO v_quotation;
+
+  RETURN v_quotation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_quotation(uuid, jsonb, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION expire_quotations() TO authenticated;
+GRANT EXECUTE ON FUNCTION set_quotation_status(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_quotation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION convert_quotation_to_invoice(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION lock_quotation(uuid) FROM PUBLIC;
+
+-- 5. Row level security
+ALTER TABLE quotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quotation_services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quotation_spare_parts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view quotations with permission" ON quotations;
+CREATE POLICY "Users can view quotations with permission"
+  ON quotations FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'quotations.view')
+  );
+
+DROP POLICY IF EXISTS "Users can delete draft quotations with permission" ON quotations;
+CREATE POLICY "Users can delete draft quotations with permission"
+  ON quotations FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND status = 'draft'
+    AND user_has_permission(auth.uid(), 'quotations.delete')
+  );
+
+DROP POLICY IF EXISTS "Users can view quotation services with permission" ON quotation_services;
+CREATE POLICY "Users can view quotation services with permission"
+  ON quotation_services FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotations q
+      WHERE q.id = quotation_services.quotation_id
+      AND q.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    )
+    AND user_has_permission(auth.uid(), 'quotations.view')
+  );
+
+DROP POLICY IF EXISTS "Users can view quotation spare parts with permission" ON quotation_spare_parts;
+CREATE POLICY "Users can view quotation spare parts with permission"
+  ON quotation_spare_parts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotations q
+      WHERE q.id = quotation_spare_parts.quotation_id
+      AND q.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    )
+    AND user_has_permission(auth.uid(), 'quotations.view')
+  );
+
+-- 6. Permissions
+INSERT INTO permissions (key, resource, action, name_ar, name_en, description_ar, description_en, category, display_order)
+VALUES
+  ('quotations.view', 'quotations', 'view', 'عرض عروض الأسعار', 'View Quotations', 'القدرة على عرض عروض الأسعار', 'Ability to view quotations', 'operations', 25),
+  ('quotations.create', 'quotations', 'create', 'إنشاء عرض سعر', 'Create Quotation', 'القدرة على إنشاء عروض أسعار جديدة', 'Ability to create new quotations', 'operations', 26),
+  ('quotations.update', 'quotations', 'update', 'تعديل عروض الأسعار', 'Update Quotations', 'القدرة على تعديل عروض الأسعار وإرسالها وقبولها', 'Ability to update, send and accept quotations', 'operations', 27),
+  ('quotations.delete', 'quotations', 'delete', 'حذف عروض الأسعار', 'Delete Quotations', 'القدرة على حذف مسودات عروض الأسعار', 'Ability to delete draft quotations', 'operations', 28)
+ON CONFLICT (key) DO NOTHING;
+
+-- Same access as work orders for the system roles
+DO $$
+DECLARE
+  v_role record;
+BEGIN
+  FOR v_role IN
+    SELECT id, key FROM roles WHERE key IN ('customer_service', 'receptionist') AND is_system_role = true
+  LOOP
+    INSERT INTO role_permissions (role_id, permission_id)
+    SELECT v_role.id, p.id
+    FROM permissions p
+    WHERE p.key = ANY(
+      CASE WHEN v_role.key = 'customer_service'
+        THEN ARRAY['quotations.view', 'quotations.create', 'quotations.update']
+        ELSE ARRAY['quotations.view', 'quotations.create']
+      END
+    )
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+  END LOOP;
+END $$;
+
+SELECT refresh_user_active_permissions();
@@ -0,0 +1,266 @@
+/*
+  # Consolidated Invoices For Fleet Customers
+
+  1. Purpose
+    - Company customers bring many vehicles a month and are billed once for
+      all of them, while `invoices.work_order_id` links an invoice to a
+      single work order
+    - A work order must not end up on two invoices
+
+  2. Changes
+    - New table `invoice_work_orders`: the work orders billed by an invoice.
+      A work order appears at most once; rows of ordinary invoices are kept in
+      sync from `invoices.work_order_id`, and deleting an invoice frees its
+      work orders again
+    - `invoices.is_consolidated`, `period_start`, `period_end`
+    - `invoice_items.work_order_id`: the work order a line was billed from,
+      used to group the lines of a consolidated invoice by vehicle
+    - `create_consolidated_invoice()` bundles the completed, not yet invoiced
+      work orders of one customer over a period into a draft invoice
+
+  3. Security
+    - RLS enabled on `invoice_work_orders`, SELECT requires `invoices.view`
+    - Rows are only written by the trigger and the function above
+*/
+
+-- 1. Schema
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS is_consolidated boolean NOT NULL DEFAULT false;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS period_start date;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS period_end date;
+
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS work_order_id uuid REFERENCES work_orders(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS invoice_work_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  work_order_id uuid NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT invoice_work_orders_work_order_key UNIQUE (work_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_work_orders_invoice ON invoice_work_orders(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_work_order ON invoice_items(work_order_id) WHERE work_order_id IS NOT NULL;
+
+-- Existing invoices; the oldest one wins when a work order was invoiced twice
+INSERT INTO invoice_work_orders (organization_id, invoice_id, work_order_id, created_at)
+SELECT DISTINCT ON (i.work_order_id) i.organization_id, i.id, i.work_order_id, i.created_at
+FROM invoices i
+WHERE i.work_order_id IS NOT NULL
+AND i.deleted_at IS NULL
+AND i.organization_id IS NOT NULL
+ORDER BY i.work_order_id, i.created_at
+ON CONFLICT (work_order_id) DO NOTHING;
+
+-- 2. Ordinary invoices mark their work order as invoiced
+CREATE OR REPLACE FUNCTION sync_invoice_work_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order_number text;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    DELETE FROM invoice_work_orders WHERE invoice_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.work_order_id IS DISTINCT FROM NEW.work_order_id AND OLD.work_order_id IS NOT NULL THEN
+    DELETE FROM invoice_work_orders WHERE invoice_id = NEW.id AND work_order_id = OLD.work_order_id;
+  END IF;
+
+  IF NEW.work_order_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM invoice_work_orders
+      WHERE work_order_id = NEW.work_order_id
+      AND invoice_id <> NEW.id
+    ) THEN
+      SELECT order_number INTO v_order_number FROM work_orders WHERE id = NEW.work_order_id;
+      RAISE EXCEPTION 'Work order % is already invoiced', v_order_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO invoice_work_orders (organization_id, invoice_id, work_order_id)
+    VALUES (NEW.organization_id, NEW.id, NEW.work_order_id)
+    ON CONFLICT (work_order_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_invoice_work_order ON invoices;
+CREATE TRIGGER trigger_sync_invoice_work_order
+  AFTER INSERT OR UPDATE OF work_order_id, deleted_at ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_invoice_work_order();
+
+COMMENT ON FUNCTION sync_invoice_work_order() IS 'Keeps invoice_work_orders in step with invoices.work_order_id and frees the work orders of deleted invoices.';
+
+-- 3. Consolidated invoice
+CREATE OR REPLACE FUNCTION create_consolidated_invoice(
+  p_customer_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_work_order_ids uuid[] DEFAULT NULL,
+  p_invoice jsonb DEFAULT '{}'::jsonb
+)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_order_ids uuid[];
+  v_lines_total numeric;
+  v_totals record;
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'invoices.create') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_customer_id IS NULL OR p_period_start IS NULL OR p_period_end IS NULL THEN
+    RAISE EXCEPTION 'customer_id, period_start and period_end are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'period_end cannot be before period_start' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_invoice := COALESCE(p_invoice, '{}'::jsonb);
+
+  -- Locked so two invoices cannot pick up the same work orders
+  SELECT array_agg(wo.id ORDER BY wo.completed_at)
+  INTO v_order_ids
+  FROM (
+    SELECT wo.id, wo.completed_at
+    FROM work_orders wo
+    WHERE wo.organization_id = v_org_id
+    AND wo.customer_id = p_customer_id
+    AND wo.status = 'completed'
+    AND wo.deleted_at IS NULL
+    AND wo.completed_at >= p_period_start
+    AND wo.completed_at < p_period_end + 1
+    AND (p_work_order_ids IS NULL OR wo.id = ANY(p_work_order_ids))
+    AND NOT EXISTS (SELECT 1 FROM invoice_work_orders iwo WHERE iwo.work_order_id = wo.id)
+    FOR UPDATE
+  ) wo;
+
+  IF v_order_ids IS NULL THEN
+    RAISE EXCEPTION 'No completed work orders to invoice in this period' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_work_order_ids IS NOT NULL AND cardinality(v_order_ids) <> cardinality(ARRAY(SELECT DISTINCT unnest(p_work_order_ids))) THEN
+    RAISE EXCEPTION 'Some work orders are not completed in this period or are already invoiced'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(wos.labor_cost), 0) INTO v_lines_total
+  FROM work_order_services wos
+  WHERE wos.work_order_id = ANY(v_order_ids);
+
+  v_lines_total := v_lines_total + (
+    SELECT COALESCE(SUM(wosp.total), 0)
+    FROM work_order_spare_parts wosp
+    WHERE wosp.work_order_id = ANY(v_order_ids)
+  );
+
+  SELECT * INTO v_totals
+  FROM calculate_invoice_totals(
+    v_lines_total,
+    COALESCE((p_invoice->>'discount_percentage')::numeric, 0),
+    COALESCE((p_invoice->>'tax_rate')::numeric, 0),
+    COALESCE(p_invoice->>'tax_type', 'exclusive')
+  );
+
+  INSERT INTO invoices (
+    organization_id, status, customer_id, is_consolidated, period_start, period_end,
+    discount_percentage, tax_rate, tax_type, notes, due_date,
+    subtotal, discount_amount, tax_amount, total
+  ) VALUES (
+    v_org_id,
+    'draft',
+    p_customer_id,
+    true,
+    p_period_start,
+    p_period_end,
+    COALESCE((p_invoice->>'discount_percentage')::numeric, 0),
+    COALESCE((p_invoice->>'tax_rate')::numeric, 0),
+    COALESCE(p_invoice->>'tax_type', 'exclusive'),
+    COALESCE(p_invoice->>'notes', ''),
+    (p_invoice->>'due_date')::timestamptz,
+    v_totals.subtotal, v_totals.discount_amount, v_totals.tax_amount, v_totals.total
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO invoice_work_orders (organization_id, invoice_id, work_order_id)
+  SELECT v_org_id, v_invoice.id, unnest(v_order_ids);
+
+  -- Lines in work order order, services before spare parts
+  INSERT INTO invoice_items (invoice_id, work_order_id, item_type, service_type, description, quantity, unit_price, total)
+  SELECT v_invoice.id, work_order_id, item_type, service_type, description, quantity, unit_price, total
+  FROM (
+    SELECT
+      wos.work_order_id,
+      'service' AS item_type,
+      wos.service_type,
+      wos.description,
+      1::numeric AS quantity,
+      wos.labor_cost AS unit_price,
+      wos.labor_cost AS total,
+      array_position(v_order_ids, wos.work_order_id) AS order_position,
+      1 AS line_order,
+      wos.created_at
+    FROM work_order_services wos
+    WHERE wos.work_order_id = ANY(v_order_ids)
+    UNION ALL
+    SELECT
+      wosp.work_order_id,
+      'part',
+      NULL,
+      sp.name,
+      wosp.quantity,
+      wosp.unit_price,
+      wosp.total,
+      array_position(v_order_ids, wosp.work_order_id),
+      2,
+      wosp.created_at
+    FROM work_order_spare_parts wosp
+    JOIN spare_parts sp ON sp.id = wosp.spare_part_id
+    WHERE wosp.work_order_id = ANY(v_order_ids)
+  ) lines
+  ORDER BY order_position, line_order, created_at;
+
+  -- Same final pass as save_invoice(), after the item triggers ran
+  UPDATE invoices SET
+    subtotal = v_totals.subtotal,
+    discount_amount = v_totals.discount_amount,
+    tax_amount = v_totals.tax_amount,
+    total = v_totals.total
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_consolidated_invoice(uuid, date, date, uuid[], jsonb) TO authenticated;
+
+COMMENT ON FUNCTION create_consolidated_invoice(uuid, date, date, uuid[], jsonb) IS 'Creates one draft invoice for the completed, not yet invoiced work orders of a customer over a period.';
+
+-- 4. Row level security
+ALTER TABLE invoice_work_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view invoice work orders with permission" ON invoice_work_orders;
+CREATE POLICY "Users can view invoice work orders with permission"
+  ON invoice_work_orders FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'invoices.view')
+  );
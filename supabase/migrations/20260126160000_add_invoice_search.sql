@@ -0,0 +1,97 @@
+/*
+  # Server-Side Invoice Search
+
+  1. Purpose
+    - The invoices list only filtered by payment status, so finding an old
+      invoice meant loading every page and searching in the browser
+    - Customers and vehicles cannot be embedded into invoices (there is no
+      foreign key on `invoices.customer_id`), so the text search runs in SQL
+
+  2. Changes
+    - `search_invoices(p_search, p_payment_method)` returns the invoices whose
+      number, customer name / phone or plate number contains `p_search`.
+      Plates of consolidated invoices are matched through their work orders.
+      `p_payment_method` matches invoices with at least one payment of that
+      method, so split payments are found by each of their tenders.
+      The result is a set of `invoices` rows, so date / amount filters,
+      ordering, ranges and counts are applied by PostgREST on top of it
+    - Trigram index on `invoices.invoice_number`, indexes for the amount
+      and payment method filters
+
+  3. Security
+    - SECURITY INVOKER: the RLS policies of invoices, customers and vehicles
+      apply as for a plain SELECT
+*/
+
+-- 1. Indexes
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_invoice_number_trgm
+  ON invoices USING GIN(invoice_number gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_org_total
+  ON invoices(organization_id, total);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_org_payment_method
+  ON invoices(organization_id, payment_method);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_method
+  ON invoice_payments(payment_method, invoice_id);
+
+-- Already created with the full-text search migration, kept here because the
+-- search below depends on them
+CREATE INDEX IF NOT EXISTS idx_customers_name_trgm
+  ON customers USING GIN(name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_customers_phone_trgm
+  ON customers USING GIN(phone gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_plate_trgm
+  ON vehicles USING GIN(plate_number gin_trgm_ops);
+
+-- 2. Search
+CREATE OR REPLACE FUNCTION search_invoices(
+  p_search text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL
+)
+RETURNS SETOF invoices
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT i.*
+  FROM invoices i
+  CROSS JOIN (
+    -- LIKE wildcards typed by the user are matched literally
+    SELECT '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ) s
+  WHERE (
+    NULLIF(btrim(p_search), '') IS NULL
+    OR i.invoice_number ILIKE s.pattern
+    OR i.customer_id IN (
+      SELECT c.id FROM customers c
+      WHERE c.name ILIKE s.pattern OR c.phone ILIKE s.pattern
+    )
+    OR i.vehicle_id IN (
+      SELECT v.id FROM vehicles v WHERE v.plate_number ILIKE s.pattern
+    )
+    OR i.id IN (
+      SELECT iwo.invoice_id
+      FROM invoice_work_orders iwo
+      JOIN work_orders wo ON wo.id = iwo.work_order_id
+      JOIN vehicles v ON v.id = wo.vehicle_id
+      WHERE v.plate_number ILIKE s.pattern
+    )
+  )
+  AND (
+    p_payment_method IS NULL
+    OR i.payment_method = p_payment_method
+    OR i.id IN (
+      SELECT ip.invoice_id FROM invoice_payments ip WHERE ip.payment_method = p_payment_method
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION search_invoices(text, text) TO authenticated;
+
+COMMENT ON FUNCTION search_invoices(text, text) IS 'Invoices matching a number, customer name / phone or plate number, optionally paid (partly) with a given method.';
@@ -0,0 +1,247 @@
+/*
+  # Payment Terms, Computed Due Dates and Receivables Aging
+
+  1. Purpose
+    - `invoices.due_date` was only backfilled once (created_at + 30 days) and
+      never set for new invoices, so overdue lists had to guess from the age
+      of the invoice
+    - Fleet and company customers pay on account (net 15 / net 30) while walk-in
+      customers pay on delivery
+
+  2. Changes
+    - `customers.payment_terms`: cash | net_15 | net_30, defaults to cash
+    - `invoices.payment_terms`: the terms the invoice was raised under, taken
+      from the customer. `due_date` is derived from it and the invoice date by
+      `set_invoice_due_date()`; older invoices keep their stored due date
+    - `get_overdue_invoices()` uses the due date instead of the invoice age
+    - `get_ar_aging()` lists the open balance of every issued invoice as of a
+      date, bucketed by days past due (0-30, 31-60, 61-90, 90+). Payments and
+      credit / debit notes after that date are not counted
+
+  3. Security
+    - `get_ar_aging()` requires `reports.view` and only reads the caller's
+      organization
+*/
+
+-- 1. Payment terms
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS payment_terms text NOT NULL DEFAULT 'cash';
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS payment_terms text;
+
+DO $$
+BEGIN
+  ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_payment_terms_check;
+  ALTER TABLE customers ADD CONSTRAINT customers_payment_terms_check
+    CHECK (payment_terms IN ('cash', 'net_15', 'net_30'));
+
+  ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_payment_terms_check;
+  ALTER TABLE invoices ADD CONSTRAINT invoices_payment_terms_check
+    CHECK (payment_terms IS NULL OR payment_terms IN ('cash', 'net_15', 'net_30'));
+END $$;
+
+CREATE OR REPLACE FUNCTION payment_terms_days(p_terms text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_terms
+    WHEN 'net_15' THEN 15
+    WHEN 'net_30' THEN 30
+    ELSE 0
+  END;
+$$;
+
+-- 2. Due dates
+CREATE OR REPLACE FUNCTION set_invoice_due_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Invoices from before payment terms keep the due date they were given
+    IF NEW.payment_terms IS NULL AND NEW.customer_id IS NOT DISTINCT FROM OLD.customer_id THEN
+      RETURN NEW;
+    END IF;
+
+    -- A draft moved to another customer takes over that customer's terms
+    IF NEW.customer_id IS DISTINCT FROM OLD.customer_id AND NEW.payment_terms IS NOT DISTINCT FROM OLD.payment_terms THEN
+      NEW.payment_terms := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.payment_terms IS NULL THEN
+    SELECT payment_terms INTO NEW.payment_terms FROM customers WHERE id = NEW.customer_id;
+    NEW.payment_terms := COALESCE(NEW.payment_terms, 'cash');
+  END IF;
+
+  NEW.due_date := (COALESCE(NEW.created_at, now())::date + payment_terms_days(NEW.payment_terms))::timestamptz;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_invoice_due_date ON invoices;
+CREATE TRIGGER trigger_set_invoice_due_date
+  BEFORE INSERT OR UPDATE OF customer_id, payment_terms, due_date, created_at ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION set_invoice_due_date();
+
+COMMENT ON FUNCTION set_invoice_due_date() IS 'Derives invoices.due_date from the invoice date and the payment terms of the customer.';
+
+-- 3. Overdue invoices
+CREATE OR REPLACE FUNCTION get_overdue_invoices(org_id uuid)
+RETURNS TABLE (
+  invoice_id uuid,
+  invoice_number text,
+  customer_name text,
+  total_amount numeric,
+  paid_amount numeric,
+  remaining_amount numeric,
+  days_overdue integer,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  user_org_id uuid;
+BEGIN
+  SELECT organization_id INTO user_org_id
+  FROM users
+  WHERE id = auth.uid();
+
+  IF user_org_id IS NULL THEN
+    RAISE EXCEPTION 'User not found or not authenticated';
+  END IF;
+
+  IF user_org_id != org_id THEN
+    RAISE EXCEPTION 'Access denied: Cannot access data from another organization';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    i.id AS invoice_id,
+    i.invoice_number,
+    c.name AS customer_name,
+    i.total AS total_amount,
+    i.paid_amount,
+    i.total - i.paid_amount AS remaining_amount,
+    (CURRENT_DATE - COALESCE(i.due_date, i.created_at)::date)::integer AS days_overdue,
+    i.created_at
+  FROM invoices i
+  LEFT JOIN customers c ON i.customer_id = c.id
+  WHERE i.organization_id = org_id
+    AND i.status = 'issued'
+    AND i.payment_status != 'paid'
+    AND i.deleted_at IS NULL
+    AND COALESCE(i.due_date, i.created_at)::date < CURRENT_DATE
+  ORDER BY COALESCE(i.due_date, i.created_at) ASC
+  LIMIT 50;
+END;
+$$;
+
+-- 4. Aging
+CREATE OR REPLACE FUNCTION get_ar_aging(
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_customer_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  invoice_id uuid,
+  invoice_number text,
+  customer_id uuid,
+  customer_name text,
+  customer_phone text,
+  payment_terms text,
+  invoice_date timestamptz,
+  due_date timestamptz,
+  total numeric,
+  paid_amount numeric,
+  adjustments numeric,
+  balance numeric,
+  days_overdue integer,
+  bucket text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'reports.view') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_as_of := COALESCE(p_as_of, CURRENT_DATE);
+
+  RETURN QUERY
+  WITH open_invoices AS (
+    SELECT
+      i.id,
+      i.invoice_number,
+      i.customer_id,
+      COALESCE(i.payment_terms, c.payment_terms) AS payment_terms,
+      i.created_at,
+      COALESCE(i.due_date, i.created_at) AS due_date,
+      i.total,
+      COALESCE((
+        SELECT SUM(ip.amount) FROM invoice_payments ip
+        WHERE ip.invoice_id = i.id AND ip.paid_at < p_as_of + 1
+      ), 0) AS paid_amount,
+      -- Credit notes reduce the amount owed, debit notes add to it
+      COALESCE((
+        SELECT SUM(CASE WHEN n.note_type = 'debit' THEN n.total ELSE -n.total END) FROM invoice_notes n
+        WHERE n.invoice_id = i.id AND n.created_at < p_as_of + 1
+      ), 0) AS adjustments,
+      c.name AS customer_name,
+      c.phone AS customer_phone
+    FROM invoices i
+    LEFT JOIN customers c ON c.id = i.customer_id
+    WHERE i.organization_id = v_org_id
+    AND i.status = 'issued'
+    AND i.deleted_at IS NULL
+    AND i.created_at < p_as_of + 1
+    AND (p_customer_id IS NULL OR i.customer_id = p_customer_id)
+  ),
+  balances AS (
+    SELECT
+      o.*,
+      o.total + o.adjustments - o.paid_amount AS balance,
+      -- Not yet due counts as 0 days
+      GREATEST(p_as_of - o.due_date::date, 0) AS days_overdue
+    FROM open_invoices o
+  )
+  SELECT
+    b.id,
+    b.invoice_number,
+    b.customer_id,
+    b.customer_name,
+    b.customer_phone,
+    b.payment_terms,
+    b.created_at,
+    b.due_date,
+    b.total,
+    b.paid_amount,
+    b.adjustments,
+    ROUND(b.balance, 2),
+    b.days_overdue,
+    CASE
+      WHEN b.days_overdue <= 30 THEN '0_30'
+      WHEN b.days_overdue <= 60 THEN '31_60'
+      WHEN b.days_overdue <= 90 THEN '61_90'
+      ELSE '90_plus'
+    END
+  FROM balances b
+  WHERE b.balance > 0.01
+  ORDER BY b.customer_name, b.due_date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_ar_aging(date, uuid) TO authenticated;
+
+COMMENT ON FUNCTION get_ar_aging(date, uuid) IS 'Open balance of every issued invoice as of a date, with days past due and aging bucket.';
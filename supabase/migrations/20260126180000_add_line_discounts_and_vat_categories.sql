@@ -0,0 +1,750 @@
+/*
+  # Per-Line Discounts And VAT Categories
+
+  1. Purpose
+    - A discount could only be given on the whole invoice, so a discount on
+      one part had to be folded into its unit price
+    - Every line was taxed at the invoice rate, while some items are zero
+      rated (exports, international transport) or exempt from VAT
+
+  2. Changes
+    - `invoice_items` and `invoice_note_items`: `discount_percentage`,
+      `discount_amount` and `vat_category` (standard | zero_rated | exempt).
+      `total` is the line amount after its own discount; existing lines are
+      standard rated without a discount
+    - `calculate_invoice_totals()` takes the total of the standard rated lines
+      as well. The invoice discount applies to all lines, VAT only to the
+      standard rated part. The four argument version is kept for callers
+      without categories and taxes every line
+    - `save_invoice()` and `create_invoice_note()` accept and validate the new
+      line fields; note lines reversing an invoice line keep its discount and
+      category
+    - `invoice_tax_breakdown()` / `invoice_note_tax_breakdown()`: taxable
+      amount and VAT per category of one document, after the invoice discount
+    - `get_vat_category_totals()`: the same per category for the VAT report
+
+  3. Security
+    - The breakdown and report functions are SECURITY INVOKER, so the RLS
+      policies of invoices, notes and their items apply
+*/
+
+-- 1. Schema
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS discount_percentage numeric NOT NULL DEFAULT 0;
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS discount_amount numeric NOT NULL DEFAULT 0;
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS vat_category text NOT NULL DEFAULT 'standard';
+
+ALTER TABLE invoice_note_items ADD COLUMN IF NOT EXISTS discount_percentage numeric NOT NULL DEFAULT 0;
+ALTER TABLE invoice_note_items ADD COLUMN IF NOT EXISTS vat_category text NOT NULL DEFAULT 'standard';
+
+DO $$
+BEGIN
+  ALTER TABLE invoice_items DROP CONSTRAINT IF EXISTS invoice_items_discount_percentage_check;
+  ALTER TABLE invoice_items ADD CONSTRAINT invoice_items_discount_percentage_check
+    CHECK (discount_percentage >= 0 AND discount_percentage <= 100);
+
+  ALTER TABLE invoice_items DROP CONSTRAINT IF EXISTS invoice_items_vat_category_check;
+  ALTER TABLE invoice_items ADD CONSTRAINT invoice_items_vat_category_check
+    CHECK (vat_category IN ('standard', 'zero_rated', 'exempt'));
+
+  ALTER TABLE invoice_note_items DROP CONSTRAINT IF EXISTS invoice_note_items_vat_category_check;
+  ALTER TABLE invoice_note_items ADD CONSTRAINT invoice_note_items_vat_category_check
+    CHECK (vat_category IN ('standard', 'zero_rated', 'exempt'));
+END $$;
+
+-- 2. Totals
+CREATE OR REPLACE FUNCTION calculate_invoice_totals(
+  p_lines_total numeric,
+  p_taxable_lines_total numeric,
+  p_discount_percentage numeric,
+  p_tax_rate numeric,
+  p_tax_type text
+)
+RETURNS TABLE (subtotal numeric, discount_amount numeric, tax_amount numeric, total numeric)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rate numeric := COALESCE(p_tax_rate, 0);
+  v_after_discount numeric;
+  v_taxable numeric;
+BEGIN
+  discount_amount := round(COALESCE(p_lines_total, 0) * COALESCE(p_discount_percentage, 0) / 100, 2);
+  v_after_discount := COALESCE(p_lines_total, 0) - discount_amount;
+  -- The invoice discount is spread over all lines, so the taxed part shrinks by the same percentage
+  v_taxable := COALESCE(p_taxable_lines_total, 0)
+    - round(COALESCE(p_taxable_lines_total, 0) * COALESCE(p_discount_percentage, 0) / 100, 2);
+
+  IF COALESCE(p_tax_type, 'exclusive') = 'inclusive' THEN
+    tax_amount := round(v_taxable * v_rate / (100 + v_rate), 2);
+    subtotal := v_after_discount - tax_amount;
+    total := v_after_discount;
+  ELSE
+    tax_amount := round(v_taxable * v_rate / 100, 2);
+    subtotal := v_after_discount;
+    total := v_after_discount + tax_amount;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_invoice_totals(
+  p_lines_total numeric,
+  p_discount_percentage numeric,
+  p_tax_rate numeric,
+  p_tax_type text
+)
+RETURNS TABLE (subtotal numeric, discount_amount numeric, tax_amount numeric, total numeric)
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT * FROM calculate_invoice_totals(p_lines_total, p_lines_total, p_discount_percentage, p_tax_rate, p_tax_type);
+$$;
+
+CREATE OR REPLACE FUNCTION update_invoice_subtotal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice_id uuid := COALESCE(NEW.invoice_id, OLD.invoice_id);
+BEGIN
+  UPDATE invoices i
+  SET
+    subtotal = t.subtotal,
+    discount_amount = t.discount_amount,
+    tax_amount = t.tax_amount,
+    total = t.total,
+    updated_at = now()
+  FROM (
+    SELECT
+      COALESCE(SUM(ii.total), 0) AS lines_total,
+      COALESCE(SUM(ii.total) FILTER (WHERE ii.vat_category = 'standard'), 0) AS taxable_total
+    FROM invoice_items ii
+    WHERE ii.invoice_id = v_invoice_id
+  ) l
+  CROSS JOIN LATERAL calculate_invoice_totals(
+    l.lines_total,
+    l.taxable_total,
+    (SELECT discount_percentage FROM invoices WHERE id = v_invoice_id),
+    (SELECT tax_rate FROM invoices WHERE id = v_invoice_id),
+    (SELECT tax_type FROM invoices WHERE id = v_invoice_id)
+  ) t
+  WHERE i.id = v_invoice_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION recalculate_invoice_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_lines_total numeric;
+  v_taxable_total numeric;
+  v_totals record;
+BEGIN
+  IF NEW.discount_percentage IS DISTINCT FROM OLD.discount_percentage
+    OR NEW.tax_rate IS DISTINCT FROM OLD.tax_rate
+    OR NEW.tax_type IS DISTINCT FROM OLD.tax_type
+  THEN
+    SELECT COALESCE(SUM(total), 0), COALESCE(SUM(total) FILTER (WHERE vat_category = 'standard'), 0)
+    INTO v_lines_total, v_taxable_total
+    FROM invoice_items
+    WHERE invoice_id = NEW.id;
+
+    SELECT * INTO v_totals
+    FROM calculate_invoice_totals(v_lines_total, v_taxable_total, NEW.discount_percentage, NEW.tax_rate, NEW.tax_type);
+
+    NEW.subtotal := v_totals.subtotal;
+    NEW.discount_amount := v_totals.discount_amount;
+    NEW.tax_amount := v_totals.tax_amount;
+    NEW.total := v_totals.total;
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION calculate_invoice_totals(numeric, numeric, numeric, numeric, text) IS 'Invoice totals from the sum of its lines, the sum of its standard rated lines, discount percentage and VAT settings (inclusive or exclusive).';
+COMMENT ON FUNCTION calculate_invoice_totals(numeric, numeric, numeric, text) IS 'Invoice totals when every line is standard rated.';
+
+-- 3. Transactional save
+
+CREATE OR REPLACE FUNCTION save_invoice(
+  p_invoice_id uuid,
+  p_invoice jsonb,
+  p_items jsonb DEFAULT NULL
+)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_invoice invoices%ROWTYPE;
+  v_line jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_quantity numeric;
+  v_unit_price numeric;
+  v_line_discount_percentage numeric;
+  v_vat_category text;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_line_total numeric;
+  v_lines_total numeric := 0;
+  v_taxable_total numeric := 0;
+  v_totals record;
+  v_field text;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), CASE WHEN p_invoice_id IS NULL THEN 'invoices.create' ELSE 'invoices.update' END) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_invoice := COALESCE(p_invoice, '{}'::jsonb);
+
+  IF p_invoice_id IS NOT NULL THEN
+    SELECT * INTO v_invoice
+    FROM invoices
+    WHERE id = p_invoice_id
+    AND organization_id = v_org_id
+    AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_invoice.status <> 'draft' THEN
+      RAISE EXCEPTION 'Invoice % is issued and cannot be modified, issue a credit or debit note instead', v_invoice.invoice_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF COALESCE(p_invoice->>'customer_id', '') = '' THEN
+    RAISE EXCEPTION 'customer_id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- RLS does not apply here, the references must belong to the organization
+  IF COALESCE(p_invoice->>'customer_id', '') <> '' AND NOT EXISTS (
+    SELECT 1 FROM customers
+    WHERE id = (p_invoice->>'customer_id')::uuid
+    AND organization_id = v_org_id
+  ) THEN
+    RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF COALESCE(p_invoice->>'vehicle_id', '') <> '' AND NOT EXISTS (
+    SELECT 1 FROM vehicles
+    WHERE id = (p_invoice->>'vehicle_id')::uuid
+    AND organization_id = v_org_id
+  ) THEN
+    RAISE EXCEPTION 'Vehicle not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF COALESCE(p_invoice->>'work_order_id', '') <> '' AND NOT EXISTS (
+    SELECT 1 FROM work_orders
+    WHERE id = (p_invoice->>'work_order_id')::uuid
+    AND organization_id = v_org_id
+  ) THEN
+    RAISE EXCEPTION 'Work order not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Lines: without items on update the current lines are kept
+  IF p_items IS NULL AND p_invoice_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(total), 0), COALESCE(SUM(total) FILTER (WHERE vat_category = 'standard'), 0)
+    INTO v_lines_total, v_taxable_total
+    FROM invoice_items WHERE invoice_id = p_invoice_id;
+  ELSE
+    FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+    LOOP
+      v_quantity := COALESCE((v_line->>'quantity')::numeric, 1);
+      v_unit_price := COALESCE((v_line->>'unit_price')::numeric, 0);
+      v_line_discount_percentage := COALESCE((v_line->>'discount_percentage')::numeric, 0);
+      v_vat_category := COALESCE(NULLIF(v_line->>'vat_category', ''), 'standard');
+
+      IF COALESCE(trim(v_line->>'description'), '') = '' THEN
+        RAISE EXCEPTION 'Each line requires a description' USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      IF v_quantity <= 0 OR v_unit_price < 0 THEN
+        RAISE EXCEPTION 'Invalid quantity or price on "%"', v_line->>'description'
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      IF v_line_discount_percentage < 0 OR v_line_discount_percentage > 100 THEN
+        RAISE EXCEPTION 'Invalid discount on "%"', v_line->>'description'
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      IF v_vat_category NOT IN ('standard', 'zero_rated', 'exempt') THEN
+        RAISE EXCEPTION 'Invalid VAT category "%"', v_vat_category
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      v_gross := round(v_quantity * v_unit_price, 2);
+      v_line_discount := round(v_gross * v_line_discount_percentage / 100, 2);
+      v_line_total := v_gross - v_line_discount;
+
+      IF v_line ? 'total' AND abs((v_line->>'total')::numeric - v_line_total) > 0.01 THEN
+        RAISE EXCEPTION 'Line total of "%" should be %, got %', v_line->>'description', v_line_total, v_line->>'total'
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'item_type', COALESCE(v_line->>'item_type', 'service'),
+        'service_type', v_line->>'service_type',
+        'description', trim(v_line->>'description'),
+        'quantity', v_quantity,
+        'unit_price', v_unit_price,
+        'discount_percentage', v_line_discount_percentage,
+        'discount_amount', v_line_discount,
+        'vat_category', v_vat_category,
+        'total', v_line_total
+      ));
+      v_lines_total := v_lines_total + v_line_total;
+      IF v_vat_category = 'standard' THEN
+        v_taxable_total := v_taxable_total + v_line_total;
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT * INTO v_totals
+  FROM calculate_invoice_totals(
+    v_lines_total,
+    v_taxable_total,
+    CASE WHEN p_invoice ? 'discount_percentage' THEN (p_invoice->>'discount_percentage')::numeric ELSE v_invoice.discount_percentage END,
+    CASE WHEN p_invoice ? 'tax_rate' THEN (p_invoice->>'tax_rate')::numeric ELSE v_invoice.tax_rate END,
+    CASE WHEN p_invoice ? 'tax_type' THEN p_invoice->>'tax_type' ELSE v_invoice.tax_type END
+  );
+
+  -- Client totals are only a consistency check
+  FOREACH v_field IN ARRAY ARRAY['subtotal', 'discount_amount', 'tax_amount', 'total']
+  LOOP
+    IF p_invoice ? v_field
+      AND abs((p_invoice->>v_field)::numeric - (to_jsonb(v_totals)->>v_field)::numeric) > 0.01
+    THEN
+      RAISE EXCEPTION 'Invoice % should be %, got %', v_field, to_jsonb(v_totals)->>v_field, p_invoice->>v_field
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END LOOP;
+
+  IF p_invoice_id IS NOT NULL AND v_totals.total < v_invoice.paid_amount - 0.01 THEN
+    RAISE EXCEPTION 'Invoice total of % is less than the % already paid', v_totals.total, v_invoice.paid_amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_invoice_id IS NULL THEN
+    INSERT INTO invoices (
+      organization_id, status, work_order_id, customer_id, vehicle_id,
+      discount_percentage, tax_rate, tax_type, notes, due_date,
+      subtotal, discount_amount, tax_amount, total
+    ) VALUES (
+      v_org_id,
+      'draft',
+      NULLIF(p_invoice->>'work_order_id', '')::uuid,
+      (p_invoice->>'customer_id')::uuid,
+      NULLIF(p_invoice->>'vehicle_id', '')::uuid,
+      COALESCE((p_invoice->>'discount_percentage')::numeric, 0),
+      COALESCE((p_invoice->>'tax_rate')::numeric, 0),
+      COALESCE(p_invoice->>'tax_type', 'exclusive'),
+      COALESCE(p_invoice->>'notes', ''),
+      (p_invoice->>'due_date')::timestamptz,
+      v_totals.subtotal, v_totals.discount_amount, v_totals.tax_amount, v_totals.total
+    )
+    RETURNING * INTO v_invoice;
+  ELSE
+    UPDATE invoices SET
+      work_order_id = CASE WHEN p_invoice ? 'work_order_id' THEN NULLIF(p_invoice->>'work_order_id', '')::uuid ELSE work_order_id END,
+      customer_id = COALESCE((p_invoice->>'customer_id')::uuid, customer_id),
+      vehicle_id = CASE WHEN p_invoice ? 'vehicle_id' THEN NULLIF(p_invoice->>'vehicle_id', '')::uuid ELSE vehicle_id END,
+      discount_percentage = COALESCE((p_invoice->>'discount_percentage')::numeric, discount_percentage),
+      tax_rate = COALESCE((p_invoice->>'tax_rate')::numeric, tax_rate),
+      tax_type = COALESCE(p_invoice->>'tax_type', tax_type),
+      notes = CASE WHEN p_invoice ? 'notes' THEN COALESCE(p_invoice->>'notes', '') ELSE notes END,
+      due_date = CASE WHEN p_invoice ? 'due_date' THEN (p_invoice->>'due_date')::timestamptz ELSE due_date END,
+      updated_at = now()
+    WHERE id = p_invoice_id;
+  END IF;
+
+  IF p_items IS NOT NULL OR p_invoice_id IS NULL THEN
+    DELETE FROM invoice_items WHERE invoice_id = v_invoice.id;
+
+    INSERT INTO invoice_items (
+      invoice_id, item_type, service_type, description, quantity, unit_price,
+      discount_percentage, discount_amount, vat_category, total
+    )
+    SELECT
+      v_invoice.id,
+      line->>'item_type',
+      line->>'service_type',
+      line->>'description',
+      (line->>'quantity')::numeric,
+      (line->>'unit_price')::numeric,
+      (line->>'discount_percentage')::numeric,
+      (line->>'discount_amount')::numeric,
+      line->>'vat_category',
+      (line->>'total')::numeric
+    FROM jsonb_array_elements(v_lines) AS line;
+  END IF;
+
+  -- The item triggers already arrive at the same totals; setting them once
+  -- more keeps the payment status derived against the final total
+  UPDATE invoices SET
+    subtotal = v_totals.subtotal,
+    discount_amount = v_totals.discount_amount,
+    tax_amount = v_totals.tax_amount,
+    total = v_totals.total
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_invoice(uuid, jsonb, jsonb) TO authenticated;
+
+-- 4. Credit and debit notes
+CREATE OR REPLACE FUNCTION create_invoice_note(
+  p_invoice_id uuid,
+  p_note_type text,
+  p_reason text,
+  p_items jsonb DEFAULT '[]'::jsonb
+)
+RETURNS invoice_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_invoice invoices%ROWTYPE;
+  v_source invoice_items%ROWTYPE;
+  v_note invoice_notes%ROWTYPE;
+  v_line jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_quantity numeric;
+  v_unit_price numeric;
+  v_line_discount_percentage numeric;
+  v_vat_category text;
+  v_line_total numeric;
+  v_remaining numeric;
+  v_gross numeric := 0;
+  v_taxable numeric := 0;
+  v_totals record;
+  v_balance numeric;
+BEGIN
+  IF p_note_type NOT IN ('credit', 'debit') THEN
+    RAISE EXCEPTION 'Invalid note type: %', p_note_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT user_has_permission(auth.uid(), CASE p_note_type WHEN 'credit' THEN 'invoices.void' ELSE 'invoices.create' END) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+
+  -- Locking the invoice serializes concurrent notes against it
+  SELECT * INTO v_invoice
+  FROM invoices
+  WHERE id = p_invoice_id
+  AND organization_id = v_org_id
+  AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_invoice.status <> 'issued' THEN
+    RAISE EXCEPTION 'Notes can only be issued against issued invoices' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- A credit note without lines reverses everything not yet credited
+  IF p_note_type = 'credit' AND jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'invoice_item_id', ii.id,
+      'quantity', ii.quantity + COALESCE(adjusted.quantity, 0)
+    )), '[]'::jsonb)
+    INTO p_items
+    FROM invoice_items ii
+    LEFT JOIN LATERAL (
+      SELECT SUM(CASE n.note_type WHEN 'debit' THEN ni.quantity ELSE -ni.quantity END) AS quantity
+      FROM invoice_note_items ni
+      JOIN invoice_notes n ON n.id = ni.note_id
+      WHERE ni.invoice_item_id = ii.id
+    ) adjusted ON true
+    WHERE ii.invoice_id = p_invoice_id
+    AND ii.quantity + COALESCE(adjusted.quantity, 0) > 0;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::numeric, 0);
+
+    IF v_line->>'invoice_item_id' IS NOT NULL THEN
+      SELECT * INTO v_source
+      FROM invoice_items
+      WHERE id = (v_line->>'invoice_item_id')::uuid
+      AND invoice_id = p_invoice_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item does not belong to invoice %', v_invoice.invoice_number
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      IF p_note_type = 'credit' THEN
+        SELECT v_source.quantity + COALESCE(SUM(
+          CASE n.note_type WHEN 'debit' THEN ni.quantity ELSE -ni.quantity END
+        ), 0)
+        INTO v_remaining
+        FROM invoice_note_items ni
+        JOIN invoice_notes n ON n.id = ni.note_id
+        WHERE ni.invoice_item_id = v_source.id;
+
+        IF v_quantity > v_remaining THEN
+          RAISE EXCEPTION 'Cannot credit % of "%", only % remaining', v_quantity, v_source.description, v_remaining
+            USING ERRCODE = 'check_violation';
+        END IF;
+      END IF;
+
+      v_unit_price := COALESCE((v_line->>'unit_price')::numeric, v_source.unit_price);
+      -- A reversal is priced like the line it reverses
+      v_line_discount_percentage := v_source.discount_percentage;
+      v_vat_category := v_source.vat_category;
+      v_line := jsonb_build_object(
+        'invoice_item_id', v_source.id,
+        'item_type', v_source.item_type,
+        'description', COALESCE(NULLIF(trim(v_line->>'description'), ''), v_source.description)
+      );
+    ELSE
+      v_unit_price := COALESCE((v_line->>'unit_price')::numeric, 0);
+      v_line_discount_percentage := 0;
+      v_vat_category := COALESCE(NULLIF(v_line->>'vat_category', ''), 'standard');
+      IF v_vat_category NOT IN ('standard', 'zero_rated', 'exempt') THEN
+        RAISE EXCEPTION 'Invalid VAT category "%"', v_vat_category USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+      IF COALESCE(trim(v_line->>'description'), '') = '' THEN
+        RAISE EXCEPTION 'Each line requires a description' USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+      v_line := jsonb_build_object(
+        'invoice_item_id', NULL,
+        'item_type', COALESCE(v_line->>'item_type', 'service'),
+        'description', trim(v_line->>'description')
+      );
+    END IF;
+
+    IF v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Unit price cannot be negative' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_line_total := round(v_quantity * v_unit_price, 2);
+    v_line_total := v_line_total - round(v_line_total * v_line_discount_percentage / 100, 2);
+
+    v_lines := v_lines || jsonb_build_array(v_line || jsonb_build_object(
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'discount_percentage', v_line_discount_percentage,
+      'vat_category', v_vat_category,
+      'total', v_line_total
+    ));
+    v_gross := v_gross + v_line_total;
+    IF v_vat_category = 'standard' THEN
+      v_taxable := v_taxable + v_line_total;
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_lines) = 0 OR v_gross <= 0 THEN
+    RAISE EXCEPTION 'Nothing to %', CASE p_note_type WHEN 'credit' THEN 'credit' ELSE 'charge' END
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Same totals semantics as the invoice
+  SELECT * INTO v_totals
+  FROM calculate_invoice_totals(v_gross, v_taxable, v_invoice.discount_percentage, v_invoice.tax_rate, v_invoice.tax_type);
+
+  v_note.total := v_totals.total;
+
+  IF p_note_type = 'credit' THEN
+    SELECT v_invoice.total + COALESCE(SUM(CASE note_type WHEN 'debit' THEN total ELSE -total END), 0)
+    INTO v_balance
+    FROM invoice_notes
+    WHERE invoice_id = p_invoice_id;
+
+    IF v_note.total > v_balance + 0.01 THEN
+      RAISE EXCEPTION 'Credit of % exceeds the invoice balance of %', v_note.total, v_balance
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO invoice_notes (
+    organization_id, invoice_id, note_type, note_number, reason,
+    subtotal, discount_amount, tax_rate, tax_type, tax_amount, total, created_by
+  ) VALUES (
+    v_org_id, p_invoice_id, p_note_type, generate_invoice_note_number(p_note_type), trim(p_reason),
+    v_totals.subtotal,
+    v_totals.discount_amount, COALESCE(v_invoice.tax_rate, 0), COALESCE(v_invoice.tax_type, 'exclusive'),
+    v_totals.tax_amount, v_note.total, auth.uid()
+  )
+  RETURNING * INTO v_note;
+
+  INSERT INTO invoice_note_items (
+    note_id, invoice_item_id, item_type, description, quantity, unit_price,
+    discount_percentage, vat_category, total
+  )
+  SELECT
+    v_note.id,
+    (line->>'invoice_item_id')::uuid,
+    line->>'item_type',
+    line->>'description',
+    (line->>'quantity')::numeric,
+    (line->>'unit_price')::numeric,
+    (line->>'discount_percentage')::numeric,
+    line->>'vat_category',
+    (line->>'total')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  RETURN v_note;
+END;
+$$;
+
+
+GRANT EXECUTE ON FUNCTION create_invoice_note(uuid, text, text, jsonb) TO authenticated;
+
+-- 5. VAT per category
+CREATE OR REPLACE FUNCTION split_vat_categories(
+  p_standard_total numeric,
+  p_zero_rated_total numeric,
+  p_exempt_total numeric,
+  p_discount_percentage numeric,
+  p_subtotal numeric,
+  p_tax_rate numeric,
+  p_tax_amount numeric
+)
+RETURNS TABLE (vat_category text, tax_rate numeric, taxable_amount numeric, tax_amount numeric)
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  WITH untaxed AS (
+    SELECT c.vat_category, c.lines_total - round(c.lines_total * COALESCE(p_discount_percentage, 0) / 100, 2) AS taxable_amount
+    FROM (VALUES
+      ('zero_rated', COALESCE(p_zero_rated_total, 0)),
+      ('exempt', COALESCE(p_exempt_total, 0))
+    ) AS c(vat_category, lines_total)
+    WHERE c.lines_total <> 0
+  )
+  -- The standard rated part is what remains of the subtotal, so the
+  -- categories always add up to the document
+  SELECT
+    'standard',
+    COALESCE(p_tax_rate, 0),
+    COALESCE(p_subtotal, 0) - COALESCE((SELECT SUM(u.taxable_amount) FROM untaxed u), 0),
+    COALESCE(p_tax_amount, 0)
+  WHERE COALESCE(p_standard_total, 0) <> 0
+  UNION ALL
+  SELECT u.vat_category, 0, u.taxable_amount, 0
+  FROM untaxed u;
+$$;
+
+CREATE OR REPLACE FUNCTION invoice_tax_breakdown(p_invoice_id uuid)
+RETURNS TABLE (vat_category text, tax_rate numeric, taxable_amount numeric, tax_amount numeric)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT b.*
+  FROM invoices i
+  CROSS JOIN LATERAL (
+    SELECT
+      SUM(ii.total) FILTER (WHERE ii.vat_category = 'standard') AS standard_total,
+      SUM(ii.total) FILTER (WHERE ii.vat_category = 'zero_rated') AS zero_rated_total,
+      SUM(ii.total) FILTER (WHERE ii.vat_category = 'exempt') AS exempt_total
+    FROM invoice_items ii
+    WHERE ii.invoice_id = i.id
+  ) l
+  CROSS JOIN LATERAL split_vat_categories(
+    l.standard_total, l.zero_rated_total, l.exempt_total,
+    i.discount_percentage, i.subtotal, i.tax_rate, i.tax_amount
+  ) b
+  WHERE i.id = p_invoice_id;
+$$;
+
+CREATE OR REPLACE FUNCTION invoice_note_tax_breakdown(p_note_id uuid)
+RETURNS TABLE (vat_category text, tax_rate numeric, taxable_amount numeric, tax_amount numeric)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT b.*
+  FROM invoice_notes n
+  JOIN invoices i ON i.id = n.invoice_id
+  CROSS JOIN LATERAL (
+    SELECT
+      SUM(ni.total) FILTER (WHERE ni.vat_category = 'standard') AS standard_total,
+      SUM(ni.total) FILTER (WHERE ni.vat_category = 'zero_rated') AS zero_rated_total,
+      SUM(ni.total) FILTER (WHERE ni.vat_category = 'exempt') AS exempt_total
+    FROM invoice_note_items ni
+    WHERE ni.note_id = n.id
+  ) l
+  CROSS JOIN LATERAL split_vat_categories(
+    l.standard_total, l.zero_rated_total, l.exempt_total,
+    i.discount_percentage, n.subtotal, n.tax_rate, n.tax_amount
+  ) b
+  WHERE n.id = p_note_id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_vat_category_totals(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL
+)
+RETURNS TABLE (document_type text, vat_category text, taxable_amount numeric, tax_amount numeric)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH documents AS (
+    SELECT 'invoice' AS document_type, b.*
+    FROM invoices i
+    CROSS JOIN LATERAL invoice_tax_breakdown(i.id) b
+    WHERE i.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND i.status = 'issued'
+    AND (p_start_date IS NULL OR i.created_at >= p_start_date)
+    AND (p_end_date IS NULL OR i.created_at <= p_end_date)
+    UNION ALL
+    SELECT n.note_type, b.*
+    FROM invoice_notes n
+    CROSS JOIN LATERAL invoice_note_tax_breakdown(n.id) b
+    WHERE n.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (p_start_date IS NULL OR n.created_at >= p_start_date)
+    AND (p_end_date IS NULL OR n.created_at <= p_end_date)
+  )
+  SELECT d.document_type, d.vat_category, SUM(d.taxable_amount), SUM(d.tax_amount)
+  FROM documents d
+  GROUP BY d.document_type, d.vat_category
+  ORDER BY d.document_type, d.vat_category;
+$$;
+
+GRANT EXECUTE ON FUNCTION invoice_tax_breakdown(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION invoice_note_tax_breakdown(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_vat_category_totals(timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION split_vat_categories(numeric, numeric, numeric, numeric, numeric, numeric, numeric) IS 'Splits the subtotal and VAT of a document over its VAT categories.';
+COMMENT ON FUNCTION invoice_tax_breakdown(uuid) IS 'Taxable amount and VAT per category of an invoice, after the invoice discount.';
+COMMENT ON FUNCTION invoice_note_tax_breakdown(uuid) IS 'Taxable amount and VAT per category of a credit or debit note.';
+COMMENT ON FUNCTION get_vat_category_totals(timestamptz, timestamptz) IS 'Taxable amount and VAT per category of the issued invoices and notes in a period, for the VAT report.';
@@ -0,0 +1,485 @@
+/*
+  # Configurable, Gap-Free Document Numbering
+
+  1. Purpose
+    - `generate_invoice_number()`, `generate_work_order_number()` and the other
+      generators each hard-coded their format and took MAX(number) + 1 over all
+      organizations, so two concurrent inserts could get the same number and a
+      failed insert could be followed by a number that skips one
+    - Numbers were unique across all workshops instead of per workshop
+
+  2. Changes
+    - New table `document_sequences`: one counter per organization and
+      document type (invoice, credit_note, debit_note, quotation, work_order,
+      expense, salary) with its prefix, reset period (never | yearly | monthly)
+      and zero padding. Existing organizations continue from their highest
+      number in the current format
+    - `next_document_number()` takes the next number inside the inserting
+      transaction. The counter row stays locked until commit, so concurrent
+      inserts are serialized and a rollback gives the number back
+    - Numbers are assigned by BEFORE INSERT triggers; a number sent by the
+      client is ignored. The old column defaults are dropped
+    - The old `generate_*_number()` functions and `preview_document_number()`
+      only show the next number without taking it
+    - Document numbers are unique per organization
+    - `configure_document_sequence()` changes the format of one sequence
+
+  3. Security
+    - RLS enabled on `document_sequences`, SELECT requires `settings.view`
+    - Counters are only written by the SECURITY DEFINER functions above;
+      `configure_document_sequence()` requires `settings.update`
+*/
+
+-- 1. Schema
+CREATE TABLE IF NOT EXISTS document_sequences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary')),
+  prefix text NOT NULL DEFAULT '' CHECK (prefix ~ '^[A-Za-z0-9/_-]{0,20}$'),
+  reset_period text NOT NULL DEFAULT 'never' CHECK (reset_period IN ('never', 'yearly', 'monthly')),
+  padding integer NOT NULL DEFAULT 6 CHECK (padding BETWEEN 1 AND 12),
+  -- Period the counter belongs to: '' (never), 'YYYY' or 'YYYYMM'
+  current_period text NOT NULL DEFAULT '',
+  last_number bigint NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT document_sequences_org_type_key UNIQUE (organization_id, document_type)
+);
+
+-- Formats used before this migration
+CREATE OR REPLACE FUNCTION document_sequence_default_prefix(p_document_type text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN 'INV-'
+    WHEN 'credit_note' THEN 'CN-'
+    WHEN 'debit_note' THEN 'DN-'
+    WHEN 'quotation' THEN 'QT-'
+    WHEN 'work_order' THEN 'WO-'
+    WHEN 'expense' THEN 'EXP-'
+    WHEN 'salary' THEN 'SAL-'
+  END;
+$$;
+
+-- Existing organizations continue after their highest number in the old
+-- format. Timestamp based work order numbers (13 digits) are not counted
+WITH existing AS (
+  SELECT organization_id, 'invoice' AS document_type, invoice_number AS number FROM invoices
+  UNION ALL
+  SELECT organization_id, note_type || '_note', note_number FROM invoice_notes
+  UNION ALL
+  SELECT organization_id, 'quotation', quotation_number FROM quotations
+  UNION ALL
+  SELECT organization_id, 'work_order', order_number FROM work_orders
+  UNION ALL
+  SELECT organization_id, 'expense', expense_number FROM expenses
+  UNION ALL
+  SELECT organization_id, 'salary', salary_number FROM salaries
+),
+types AS (
+  SELECT unnest(ARRAY['invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary']) AS document_type
+)
+INSERT INTO document_sequences (organization_id, document_type, prefix, last_number)
+SELECT
+  o.id,
+  t.document_type,
+  document_sequence_default_prefix(t.document_type),
+  COALESCE((
+    SELECT MAX(substring(e.number FROM length(document_sequence_default_prefix(t.document_type)) + 1)::bigint)
+    FROM existing e
+    WHERE e.organization_id = o.id
+    AND e.document_type = t.document_type
+    AND e.number ~ ('^' || document_sequence_default_prefix(t.document_type) || '[0-9]{1,9}$')
+  ), 0)
+FROM organizations o
+CROSS JOIN types t
+ON CONFLICT (organization_id, document_type) DO NOTHING;
+
+-- Numbers are unique per organization
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_invoice_number_key;
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_org_invoice_number_key;
+ALTER TABLE invoices ADD CONSTRAINT invoices_org_invoice_number_key UNIQUE (organization_id, invoice_number);
+
+ALTER TABLE invoice_notes DROP CONSTRAINT IF EXISTS invoice_notes_note_number_key;
+ALTER TABLE invoice_notes DROP CONSTRAINT IF EXISTS invoice_notes_org_note_number_key;
+ALTER TABLE invoice_notes ADD CONSTRAINT invoice_notes_org_note_number_key UNIQUE (organization_id, note_number);
+
+ALTER TABLE quotations DROP CONSTRAINT IF EXISTS quotations_quotation_number_key;
+ALTER TABLE quotations DROP CONSTRAINT IF EXISTS quotations_org_quotation_number_key;
+ALTER TABLE quotations ADD CONSTRAINT quotations_org_quotation_number_key UNIQUE (organization_id, quotation_number);
+
+ALTER TABLE work_orders DROP CONSTRAINT IF EXISTS work_orders_order_number_key;
+ALTER TABLE work_orders DROP CONSTRAINT IF EXISTS work_orders_org_order_number_key;
+ALTER TABLE work_orders ADD CONSTRAINT work_orders_org_order_number_key UNIQUE (organization_id, order_number);
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_expense_number_key;
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_org_expense_number_key;
+ALTER TABLE expenses ADD CONSTRAINT expenses_org_expense_number_key UNIQUE (organization_id, expense_number);
+
+ALTER TABLE salaries DROP CONSTRAINT IF EXISTS salaries_salary_number_key;
+ALTER TABLE salaries DROP CONSTRAINT IF EXISTS salaries_org_salary_number_key;
+ALTER TABLE salaries ADD CONSTRAINT salaries_org_salary_number_key UNIQUE (organization_id, salary_number);
+
+-- 2. Formatting
+CREATE OR REPLACE FUNCTION document_sequence_period(p_reset_period text, p_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_reset_period
+    WHEN 'yearly' THEN to_char(p_date, 'YYYY')
+    WHEN 'monthly' THEN to_char(p_date, 'YYYYMM')
+    ELSE ''
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION format_document_number(p_prefix text, p_period text, p_padding integer, p_number bigint)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  -- INV-000042, INV-2026-000042, INV-202601-000042
+  SELECT p_prefix
+    || CASE WHEN p_period = '' THEN '' ELSE p_period || '-' END
+    || CASE
+      WHEN length(p_number::text) >= p_padding THEN p_number::text
+      ELSE lpad(p_number::text, p_padding, '0')
+    END;
+$$;
+
+-- Document dates follow the workshop's clock, not UTC
+CREATE OR REPLACE FUNCTION document_sequence_today()
+RETURNS date
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT (now() AT TIME ZONE 'Asia/Riyadh')::date;
+$$;
+
+-- 3. Taking a number
+CREATE OR REPLACE FUNCTION next_document_number(p_organization_id uuid, p_document_type text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_sequence document_sequences%ROWTYPE;
+  v_period text;
+BEGIN
+  IF p_organization_id IS NULL THEN
+    RAISE EXCEPTION 'Organization is required to number a %', p_document_type
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO document_sequences (organization_id, document_type, prefix)
+  VALUES (p_organization_id, p_document_type, document_sequence_default_prefix(p_document_type))
+  ON CONFLICT (organization_id, document_type) DO NOTHING;
+
+  -- The row lock is held until the inserting transaction ends
+  SELECT * INTO v_sequence
+  FROM document_sequences
+  WHERE organization_id = p_organization_id
+  AND document_type = p_document_type
+  FOR UPDATE;
+
+  v_period := document_sequence_period(v_sequence.reset_period, document_sequence_today());
+
+  UPDATE document_sequences SET
+    last_number = CASE WHEN current_period = v_period THEN last_number + 1 ELSE 1 END,
+    current_period = v_period,
+    updated_at = now()
+  WHERE id = v_sequence.id
+  RETURNING * INTO v_sequence;
+
+  RETURN format_document_number(v_sequence.prefix, v_sequence.current_period, v_sequence.padding, v_sequence.last_number);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION next_document_number(uuid, text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION preview_document_number(p_document_type text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_sequence document_sequences%ROWTYPE;
+  v_period text;
+BEGIN
+  SELECT s.* INTO v_sequence
+  FROM document_sequences s
+  WHERE s.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  AND s.document_type = p_document_type;
+
+  IF NOT FOUND THEN
+    v_sequence.prefix := document_sequence_default_prefix(p_document_type);
+    v_sequence.reset_period := 'never';
+    v_sequence.padding := 6;
+    v_sequence.current_period := '';
+    v_sequence.last_number := 0;
+  END IF;
+
+  v_period := document_sequence_period(v_sequence.reset_period, document_sequence_today());
+
+  RETURN format_document_number(
+    v_sequence.prefix,
+    v_period,
+    v_sequence.padding,
+    CASE WHEN v_sequence.current_period = v_period THEN v_sequence.last_number + 1 ELSE 1 END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION preview_document_number(text) TO authenticated;
+
+-- 4. Numbering on insert
+CREATE OR REPLACE FUNCTION assign_document_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid := COALESCE(NEW.organization_id, get_user_organization_id());
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'invoices' THEN
+      NEW.invoice_number := next_document_number(v_org_id, 'invoice');
+    WHEN 'invoice_notes' THEN
+      NEW.note_number := next_document_number(v_org_id, NEW.note_type || '_note');
+    WHEN 'quotations' THEN
+      NEW.quotation_number := next_document_number(v_org_id, 'quotation');
+    WHEN 'work_orders' THEN
+      NEW.order_number := next_document_number(v_org_id, 'work_order');
+    WHEN 'expenses' THEN
+      NEW.expense_number := next_document_number(v_org_id, 'expense');
+    WHEN 'salaries' THEN
+      NEW.salary_number := next_document_number(v_org_id, 'salary');
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE invoices ALTER COLUMN invoice_number DROP DEFAULT;
+ALTER TABLE work_orders ALTER COLUMN order_number DROP DEFAULT;
+
+DROP TRIGGER IF EXISTS trigger_assign_invoice_number ON invoices;
+CREATE TRIGGER trigger_assign_invoice_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number();
+
+DROP TRIGGER IF EXISTS trigger_assign_note_number ON invoice_notes;
+CREATE TRIGGER trigger_assign_note_number
+  BEFORE INSERT ON invoice_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number();
+
+DROP TRIGGER IF EXISTS trigger_assign_quotation_number ON quotations;
+CREATE TRIGGER trigger_assign_quotation_number
+  BEFORE INSERT ON quotations
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number();
+
+DROP TRIGGER IF EXISTS trigger_assign_order_number ON work_orders;
+CREATE TRIGGER trigger_assign_order_number
+  BEFORE INSERT ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number();
+
+DROP TRIGGER IF EXISTS trigger_assign_expense_number ON expenses;
+CREATE TRIGGER trigger_assign_expense_number
+  BEFORE INSERT ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number();
+
+DROP TRIGGER IF EXISTS trigger_assign_salary_number ON salaries;
+CREATE TRIGGER trigger_assign_salary_number
+  BEFORE INSERT ON salaries
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number();
+
+-- 5. Former generators only preview the next number
+CREATE OR REPLACE FUNCTION generate_invoice_number()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT preview_document_number('invoice');
+$$;
+
+CREATE OR REPLACE FUNCTION generate_invoice_note_number(p_note_type text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT preview_document_number(p_note_type || '_note');
+$$;
+
+CREATE OR REPLACE FUNCTION generate_quotation_number()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT preview_document_number('quotation');
+$$;
+
+CREATE OR REPLACE FUNCTION generate_work_order_number()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT preview_document_number('work_order');
+$$;
+
+CREATE OR REPLACE FUNCTION generate_expense_number()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT preview_document_number('expense');
+$$;
+
+CREATE OR REPLACE FUNCTION generate_salary_number()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT preview_document_number('salary');
+$$;
+
+-- 6. Configuration
+CREATE OR REPLACE FUNCTION get_document_sequences()
+RETURNS TABLE (
+  document_type text,
+  prefix text,
+  reset_period text,
+  padding integer,
+  last_number bigint,
+  next_number text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.view') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.document_type,
+    COALESCE(s.prefix, document_sequence_default_prefix(t.document_type)),
+    COALESCE(s.reset_period, 'never'),
+    COALESCE(s.padding, 6),
+    COALESCE(s.last_number, 0),
+    preview_document_number(t.document_type)
+  FROM unnest(ARRAY['invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary'])
+    WITH ORDINALITY AS t(document_type, position)
+  LEFT JOIN document_sequences s
+    ON s.document_type = t.document_type
+    AND s.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  ORDER BY t.position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION configure_document_sequence(
+  p_document_type text,
+  p_prefix text,
+  p_reset_period text,
+  p_padding integer
+)
+RETURNS document_sequences
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_sequence document_sequences%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF document_sequence_default_prefix(p_document_type) IS NULL THEN
+    RAISE EXCEPTION 'Unknown document type: %', p_document_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(p_prefix, '') !~ '^[A-Za-z0-9/_-]{0,20}$' THEN
+    RAISE EXCEPTION 'The prefix may only contain up to 20 letters, digits, "-", "_" or "/"'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_reset_period NOT IN ('never', 'yearly', 'monthly') THEN
+    RAISE EXCEPTION 'Invalid reset period: %', p_reset_period USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_padding IS NULL OR p_padding NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'Padding must be between 1 and 12' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+
+  INSERT INTO document_sequences (organization_id, document_type, prefix)
+  VALUES (v_org_id, p_document_type, document_sequence_default_prefix(p_document_type))
+  ON CONFLICT (organization_id, document_type) DO NOTHING;
+
+  -- The counter itself is never set by hand. After a change of reset period
+  -- the next number starts again at 1, as for a new period
+  UPDATE document_sequences SET
+    prefix = COALESCE(p_prefix, ''),
+    reset_period = p_reset_period,
+    padding = p_padding,
+    updated_at = now()
+  WHERE organization_id = v_org_id
+  AND document_type = p_document_type
+  RETURNING * INTO v_sequence;
+
+  RETURN v_sequence;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_document_sequences() TO authenticated;
+GRANT EXECUTE ON FUNCTION configure_document_sequence(text, text, text, integer) TO authenticated;
+
+COMMENT ON FUNCTION next_document_number(uuid, text) IS 'Takes the next number of a document sequence; the counter row stays locked until the transaction ends, so numbers are gap-free.';
+COMMENT ON FUNCTION preview_document_number(text) IS 'Next number of a document sequence of the current organization, without taking it.';
+COMMENT ON FUNCTION assign_document_number() IS 'Numbers invoices, notes, quotations, work orders, expenses and salaries on insert.';
+COMMENT ON FUNCTION get_document_sequences() IS 'Numbering settings of every document type of the current organization, with the next number.';
+COMMENT ON FUNCTION configure_document_sequence(text, text, text, integer) IS 'Changes the prefix, reset period and padding of a document sequence.';
+
+-- 7. Row level security
+ALTER TABLE document_sequences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view document sequences with permission" ON document_sequences;
+CREATE POLICY "Users can view document sequences with permission"
+  ON document_sequences FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.view')
+  );
@@ -0,0 +1,510 @@
+/*
+  # Customer Notifications (SMS / WhatsApp)
+
+  1. Purpose
+    - Receptionists call every customer by hand when a car is ready or an
+      invoice is issued. These messages are now queued automatically and sent
+      through the provider configured for the workshop
+
+  2. Changes
+    - `workshop_settings`
+      - `notifications_enabled` (off by default)
+      - `notification_provider`: log | http_sms | whatsapp. `log` only writes
+        the message to the function logs and is meant for development
+      - `notification_api_url`: endpoint of the HTTP SMS gateway
+      - `notification_sender`: SMS sender name, or the WhatsApp Business
+        phone number id
+    - `customers.preferred_language` (ar | en) selects the template language
+    - New table `notification_credentials`: the provider API key / access
+      token per organization, kept out of `workshop_settings` like the ZATCA
+      private key
+    - New table `notification_templates`: the bilingual text per event
+      (work_order_completed, invoice_issued). Placeholders are written as
+      `{{customer_name}}`, `{{vehicle}}`, `{{plate_number}}`,
+      `{{document_number}}`, `{{amount}}` and `{{workshop_name}}`.
+      Organizations without a row use the default texts
+    - New table `notification_messages`: the send queue and the message
+      history of each customer. Messages are rendered when they are queued
+    - Deferred triggers queue a message when a work order becomes
+      `completed` and when an invoice is issued. They run at commit, so the
+      invoice totals written after the items are already final
+    - `claim_notification_messages()` / `complete_notification_message()` /
+      `fail_notification_message()` drive the sender. Failed sends are retried
+      with exponential backoff (2, 4, 8, 16 minutes) up to `max_attempts`.
+      The `notifications` edge function drains the queue; schedule
+      `POST /functions/v1/notifications/process` with the service role key
+      (e.g. every minute with pg_cron + pg_net) so retries are picked up
+
+  3. Security
+    - `notification_credentials`: RLS enabled without policies (service role only)
+    - `notification_messages`: SELECT requires `customers.view`. Only the
+      service role claims and completes messages; `retry_notification_message()`
+      requires `customers.update`
+    - `notification_templates`: SELECT requires `settings.view`, changes go
+      through `configure_notification_template()` which requires `settings.update`
+*/
+
+-- 1. Settings
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS notifications_enabled boolean NOT NULL DEFAULT false;
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS notification_provider text NOT NULL DEFAULT 'log';
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS notification_api_url text;
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS notification_sender text;
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS preferred_language text NOT NULL DEFAULT 'ar';
+
+DO $$
+BEGIN
+  ALTER TABLE workshop_settings DROP CONSTRAINT IF EXISTS workshop_settings_notification_provider_check;
+  ALTER TABLE workshop_settings ADD CONSTRAINT workshop_settings_notification_provider_check
+    CHECK (notification_provider IN ('log', 'http_sms', 'whatsapp'));
+
+  ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_preferred_language_check;
+  ALTER TABLE customers ADD CONSTRAINT customers_preferred_language_check
+    CHECK (preferred_language IN ('ar', 'en'));
+END $$;
+
+CREATE TABLE IF NOT EXISTS notification_credentials (
+  organization_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  api_key text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notification_credentials ENABLE ROW LEVEL SECURITY;
+
+-- 2. Templates
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('work_order_completed', 'invoice_issued')),
+  body_en text NOT NULL CHECK (length(body_en) BETWEEN 1 AND 1000),
+  body_ar text NOT NULL CHECK (length(body_ar) BETWEEN 1 AND 1000),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT notification_templates_org_event_key UNIQUE (organization_id, event)
+);
+
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION notification_default_template(p_event text, p_language text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_event || ':' || p_language
+    WHEN 'work_order_completed:en' THEN
+      'Dear {{customer_name}}, your {{vehicle}} ({{plate_number}}) is ready for pickup. Work order {{document_number}}, amount {{amount}} SAR. {{workshop_name}}'
+    WHEN 'work_order_completed:ar' THEN
+      'عزيزنا {{customer_name}}، سيارتكم {{vehicle}} ({{plate_number}}) جاهزة للاستلام. أمر العمل {{document_number}} بمبلغ {{amount}} ر.س. {{workshop_name}}'
+    WHEN 'invoice_issued:en' THEN
+      'Dear {{customer_name}}, invoice {{document_number}} of {{amount}} SAR has been issued for your {{vehicle}} ({{plate_number}}). Thank you for choosing {{workshop_name}}.'
+    WHEN 'invoice_issued:ar' THEN
+      'عزيزنا {{customer_name}}، تم إصدار الفاتورة {{document_number}} بمبلغ {{amount}} ر.س لسيارتكم {{vehicle}} ({{plate_number}}). شكراً لاختياركم {{workshop_name}}.'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION render_notification_template(p_body text, p_values jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_key text;
+  v_value text;
+BEGIN
+  FOR v_key, v_value IN SELECT key, value FROM jsonb_each_text(p_values) LOOP
+    p_body := replace(p_body, '{{' || v_key || '}}', COALESCE(v_value, ''));
+  END LOOP;
+
+  -- Missing values leave no empty brackets behind
+  RETURN btrim(regexp_replace(replace(p_body, '()', ''), '\s{2,}', ' ', 'g'));
+END;
+$$;
+
+-- 3. Queue and history
+CREATE TABLE IF NOT EXISTS notification_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  event text NOT NULL,
+  reference_type text NOT NULL CHECK (reference_type IN ('work_order', 'invoice')),
+  reference_id uuid NOT NULL,
+  provider text NOT NULL,
+  recipient text NOT NULL,
+  language text NOT NULL,
+  body text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  last_error text,
+  provider_message_id text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_messages_queue
+  ON notification_messages(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_notification_messages_customer
+  ON notification_messages(customer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_messages_reference
+  ON notification_messages(reference_id, event);
+
+ALTER TABLE notification_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION enqueue_customer_notification(p_event text, p_reference_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_customer_id uuid;
+  v_vehicle_id uuid;
+  v_document_number text;
+  v_amount numeric;
+  v_settings workshop_settings%ROWTYPE;
+  v_template notification_templates%ROWTYPE;
+  v_customer customers%ROWTYPE;
+  v_vehicle vehicles%ROWTYPE;
+  v_language text;
+  v_body text;
+  v_message_id uuid;
+BEGIN
+  IF p_event = 'work_order_completed' THEN
+    SELECT organization_id, customer_id, vehicle_id, order_number,
+      COALESCE(total_labor_cost, 0) + COALESCE(total_parts_cost, 0)
+    INTO v_org_id, v_customer_id, v_vehicle_id, v_document_number, v_amount
+    FROM work_orders WHERE id = p_reference_id;
+  ELSIF p_event = 'invoice_issued' THEN
+    SELECT organization_id, customer_id, vehicle_id, invoice_number, total
+    INTO v_org_id, v_customer_id, v_vehicle_id, v_document_number, v_amount
+    FROM invoices WHERE id = p_reference_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown notification event: %', p_event USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_settings FROM workshop_settings WHERE organization_id = v_org_id LIMIT 1;
+  IF NOT FOUND OR NOT v_settings.notifications_enabled THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_template FROM notification_templates WHERE organization_id = v_org_id AND event = p_event;
+  IF FOUND AND NOT v_template.is_active THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = v_customer_id;
+  IF NOT FOUND OR NULLIF(btrim(v_customer.phone), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Saving a work order twice before the first message went out must not
+  -- send it twice
+  IF EXISTS (
+    SELECT 1 FROM notification_messages
+    WHERE reference_id = p_reference_id AND event = p_event
+    AND (status IN ('pending', 'sending') OR p_event = 'invoice_issued')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_vehicle FROM vehicles WHERE id = v_vehicle_id;
+
+  v_language := COALESCE(v_customer.preferred_language, 'ar');
+  v_body := CASE v_language
+    WHEN 'en' THEN COALESCE(v_template.body_en, notification_default_template(p_event, 'en'))
+    ELSE COALESCE(v_template.body_ar, notification_default_template(p_event, 'ar'))
+  END;
+
+  v_body := render_notification_template(v_body, jsonb_build_object(
+    'customer_name', v_customer.name,
+    'vehicle', btrim(COALESCE(v_vehicle.car_make, '') || ' ' || COALESCE(v_vehicle.car_model, '')),
+    'plate_number', v_vehicle.plate_number,
+    'document_number', v_document_number,
+    'amount', to_char(ROUND(COALESCE(v_amount, 0), 2), 'FM999999990.00'),
+    'workshop_name', v_settings.name
+  ));
+
+  INSERT INTO notification_messages (
+    organization_id, customer_id, event, reference_type, reference_id,
+    provider, recipient, language, body
+  ) VALUES (
+    v_org_id, v_customer.id, p_event,
+    CASE p_event WHEN 'invoice_issued' THEN 'invoice' ELSE 'work_order' END,
+    p_reference_id, v_settings.notification_provider, btrim(v_customer.phone), v_language, v_body
+  )
+  RETURNING id INTO v_message_id;
+
+  RETURN v_message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_customer_notification(text, uuid) FROM PUBLIC;
+
+-- 4. Triggers
+CREATE OR REPLACE FUNCTION notify_work_order_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'completed' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Deferred: the order may have been moved on again in the same transaction
+  IF (SELECT status FROM work_orders WHERE id = NEW.id) = 'completed' THEN
+    PERFORM enqueue_customer_notification('work_order_completed', NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_invoice_issued()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'issued' THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM invoices WHERE id = NEW.id AND status = 'issued' AND deleted_at IS NULL) THEN
+    PERFORM enqueue_customer_notification('invoice_issued', NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_notify_work_order_completed ON work_orders;
+CREATE CONSTRAINT TRIGGER trigger_notify_work_order_completed
+  AFTER INSERT OR UPDATE OF status ON work_orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed')
+  EXECUTE FUNCTION notify_work_order_completed();
+
+DROP TRIGGER IF EXISTS trigger_notify_invoice_issued ON invoices;
+CREATE CONSTRAINT TRIGGER trigger_notify_invoice_issued
+  AFTER INSERT OR UPDATE OF status ON invoices
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.status = 'issued')
+  EXECUTE FUNCTION notify_invoice_issued();
+
+-- 5. Sender
+CREATE OR REPLACE FUNCTION claim_notification_messages(
+  p_organization_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF notification_messages
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  -- Messages left in `sending` by a sender that died are taken over after
+  -- five minutes
+  UPDATE notification_messages m SET
+    status = 'sending',
+    attempts = m.attempts + 1,
+    locked_at = now()
+  WHERE m.id IN (
+    SELECT q.id FROM notification_messages q
+    WHERE (
+      (q.status = 'pending' AND q.next_attempt_at <= now())
+      OR (q.status = 'sending' AND q.locked_at < now() - interval '5 minutes')
+    )
+    AND (p_organization_id IS NULL OR q.organization_id = p_organization_id)
+    ORDER BY q.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_notification_message(p_message_id uuid, p_provider_message_id text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  UPDATE notification_messages SET
+    status = 'sent',
+    provider_message_id = p_provider_message_id,
+    sent_at = now(),
+    locked_at = NULL,
+    last_error = NULL
+  WHERE id = p_message_id AND status = 'sending';
+$$;
+
+CREATE OR REPLACE FUNCTION fail_notification_message(p_message_id uuid, p_error text, p_retryable boolean DEFAULT true)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  UPDATE notification_messages SET
+    status = CASE WHEN p_retryable AND attempts < max_attempts THEN 'pending' ELSE 'failed' END,
+    next_attempt_at = now() + interval '1 minute' * power(2, attempts),
+    locked_at = NULL,
+    last_error = left(p_error, 1000)
+  WHERE id = p_message_id AND status = 'sending';
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_notification_messages(uuid, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION complete_notification_message(uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION fail_notification_message(uuid, text, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_notification_messages(uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_notification_message(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_notification_message(uuid, text, boolean) TO service_role;
+
+CREATE OR REPLACE FUNCTION retry_notification_message(p_message_id uuid)
+RETURNS notification_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_message notification_messages%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'customers.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE notification_messages SET
+    status = 'pending',
+    attempts = 0,
+    next_attempt_at = now()
+  WHERE id = p_message_id
+  AND organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  AND status = 'failed'
+  RETURNING * INTO v_message;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Failed message not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_message;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION retry_notification_message(uuid) TO authenticated;
+
+-- 6. Template settings
+CREATE OR REPLACE FUNCTION get_notification_templates()
+RETURNS TABLE (
+  event text,
+  body_en text,
+  body_ar text,
+  is_active boolean,
+  is_default boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.view') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.event,
+    COALESCE(t.body_en, notification_default_template(e.event, 'en')),
+    COALESCE(t.body_ar, notification_default_template(e.event, 'ar')),
+    COALESCE(t.is_active, true),
+    t.id IS NULL
+  FROM unnest(ARRAY['work_order_completed', 'invoice_issued']) WITH ORDINALITY AS e(event, position)
+  LEFT JOIN notification_templates t
+    ON t.event = e.event
+    AND t.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  ORDER BY e.position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION configure_notification_template(
+  p_event text,
+  p_body_en text,
+  p_body_ar text,
+  p_is_active boolean
+)
+RETURNS notification_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_template notification_templates%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF notification_default_template(p_event, 'en') IS NULL THEN
+    RAISE EXCEPTION 'Unknown notification event: %', p_event USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF length(btrim(COALESCE(p_body_en, ''))) NOT BETWEEN 1 AND 1000
+    OR length(btrim(COALESCE(p_body_ar, ''))) NOT BETWEEN 1 AND 1000 THEN
+    RAISE EXCEPTION 'Both message texts are required and may not exceed 1000 characters'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO notification_templates (organization_id, event, body_en, body_ar, is_active)
+  VALUES (
+    (SELECT organization_id FROM users WHERE id = auth.uid()),
+    p_event, btrim(p_body_en), btrim(p_body_ar), COALESCE(p_is_active, true)
+  )
+  ON CONFLICT (organization_id, event) DO UPDATE SET
+    body_en = EXCLUDED.body_en,
+    body_ar = EXCLUDED.body_ar,
+    is_active = EXCLUDED.is_active,
+    updated_at = now()
+  RETURNING * INTO v_template;
+
+  RETURN v_template;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_notification_templates() TO authenticated;
+GRANT EXECUTE ON FUNCTION configure_notification_template(text, text, text, boolean) TO authenticated;
+
+-- 7. Policies
+DROP POLICY IF EXISTS "Users can view notification messages with permission" ON notification_messages;
+CREATE POLICY "Users can view notification messages with permission"
+  ON notification_messages FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'customers.view')
+  );
+
+DROP POLICY IF EXISTS "Users can view notification templates with permission" ON notification_templates;
+CREATE POLICY "Users can view notification templates with permission"
+  ON notification_templates FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.view')
+  );
+
+COMMENT ON FUNCTION enqueue_customer_notification(text, uuid) IS 'Renders the template of an event for the customer of a work order / invoice and queues the message.';
+COMMENT ON FUNCTION claim_notification_messages(uuid, integer) IS 'Locks up to p_limit due messages for sending; used by the notifications edge function.';
+COMMENT ON FUNCTION fail_notification_message(uuid, text, boolean) IS 'Records a failed send; retryable failures are queued again with exponential backoff until max_attempts.';
+COMMENT ON FUNCTION retry_notification_message(uuid) IS 'Queues a failed message again.';
+COMMENT ON FUNCTION get_notification_templates() IS 'Message texts of every notification event of the current organization, defaults included.';
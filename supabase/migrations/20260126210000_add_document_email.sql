@@ -0,0 +1,86 @@
+/*
+  # Email Delivery of Invoices and Quotations
+
+  1. Purpose
+    - Fleet customers ask for their invoices by email. Invoices and
+      quotations can now be sent from the workshop's own mailbox with the PDF
+      attached, and every attempt is kept on the document
+
+  2. Changes
+    - `workshop_settings`
+      - `smtp_host`, `smtp_port`, `smtp_secure` (implicit TLS, usually port
+        465; otherwise STARTTLS is used when the server offers it)
+      - `smtp_username`, `smtp_from_email`, `smtp_from_name`
+      - A local catcher such as Mailpit or MailHog works with host
+        `host.docker.internal`, port 1025, no TLS and no username
+    - New table `mail_credentials`: the SMTP password per organization, kept
+      out of `workshop_settings` like the other secrets
+    - New table `document_emails`: one row per email sent (or failed) for an
+      invoice or a quotation, with the recipient, language, subject, the
+      server's message id or the error
+
+  3. Security
+    - `mail_credentials`: RLS enabled without policies (service role only)
+    - `document_emails`: SELECT requires `invoices.view` for invoice rows and
+      `quotations.view` for quotation rows. Rows are written by the edge
+      functions with the service role only
+*/
+
+-- 1. Settings
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS smtp_host text;
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS smtp_port integer NOT NULL DEFAULT 587;
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS smtp_secure boolean NOT NULL DEFAULT false;
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS smtp_username text;
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS smtp_from_email text;
+ALTER TABLE workshop_settings ADD COLUMN IF NOT EXISTS smtp_from_name text;
+
+DO $$
+BEGIN
+  ALTER TABLE workshop_settings DROP CONSTRAINT IF EXISTS workshop_settings_smtp_port_check;
+  ALTER TABLE workshop_settings ADD CONSTRAINT workshop_settings_smtp_port_check
+    CHECK (smtp_port BETWEEN 1 AND 65535);
+END $$;
+
+CREATE TABLE IF NOT EXISTS mail_credentials (
+  organization_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  smtp_password text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE mail_credentials ENABLE ROW LEVEL SECURITY;
+
+-- 2. Delivery log
+CREATE TABLE IF NOT EXISTS document_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE CASCADE,
+  quotation_id uuid REFERENCES quotations(id) ON DELETE CASCADE,
+  recipient text NOT NULL,
+  language text NOT NULL CHECK (language IN ('ar', 'en')),
+  subject text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  message_id text,
+  error text,
+  sent_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT document_emails_one_document CHECK (num_nonnulls(invoice_id, quotation_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_emails_invoice ON document_emails(invoice_id, created_at DESC) WHERE invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_document_emails_quotation ON document_emails(quotation_id, created_at DESC) WHERE quotation_id IS NOT NULL;
+
+ALTER TABLE document_emails ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view document emails with permission" ON document_emails;
+CREATE POLICY "Users can view document emails with permission"
+  ON document_emails FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      (invoice_id IS NOT NULL AND user_has_permission(auth.uid(), 'invoices.view'))
+      OR (quotation_id IS NOT NULL AND user_has_permission(auth.uid(), 'quotations.view'))
+    )
+  );
+
+COMMENT ON TABLE document_emails IS 'Emails sent for invoices and quotations, with the delivery result.';
@@ -0,0 +1,435 @@
+/*
+  # Advance Deposits on Work Orders
+
+  1. Purpose
+    - Customers often pay a deposit before an expensive repair starts. Until
+      now it could only be written into the notes; the deposit is now recorded
+      against the work order with its own receipt and later settles the
+      invoice of that work order
+
+  2. Changes
+    - New table `work_order_deposits`: amount, method, card type, reference
+      and receiving user of each deposit, numbered by the new `deposit`
+      document sequence (DEP-000001). `applied_amount` is derived from the
+      invoice payments that use the deposit
+    - `invoice_payments.deposit_id`: a payment that applies (part of) a
+      deposit to an invoice. It keeps the method and date of the deposit, so
+      cash reports count the money on the day it was received
+    - `apply_work_order_deposits()` applies the unapplied deposits of the
+      work orders on an invoice, oldest first, up to the invoice balance. The
+      invoices API calls it when an invoice is created or issued
+    - Whatever is not applied stays on the customer's account
+      (`amount - applied_amount`, summed by `get_customer_deposit_balances()`);
+      deleting the application payment from an invoice returns the amount to
+      the deposit
+    - Deposits are never updated. A deposit can be deleted only while nothing
+      of it has been applied
+
+  3. Security
+    - RLS enabled, SELECT requires `work_orders.view` or `invoices.view`
+    - INSERT / DELETE require `invoices.update` or `invoices.manage_payments`,
+      like invoice payments
+    - `apply_work_order_deposits()` is SECURITY DEFINER and checks
+      `invoices.create`, `invoices.update` or `invoices.manage_payments`
+*/
+
+-- 1. Deposit numbering
+DO $$
+BEGIN
+  ALTER TABLE document_sequences DROP CONSTRAINT IF EXISTS document_sequences_document_type_check;
+  ALTER TABLE document_sequences ADD CONSTRAINT document_sequences_document_type_check
+    CHECK (document_type IN ('invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary', 'deposit'));
+END $$;
+
+CREATE OR REPLACE FUNCTION document_sequence_default_prefix(p_document_type text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN 'INV-'
+    WHEN 'credit_note' THEN 'CN-'
+    WHEN 'debit_note' THEN 'DN-'
+    WHEN 'quotation' THEN 'QT-'
+    WHEN 'work_order' THEN 'WO-'
+    WHEN 'expense' THEN 'EXP-'
+    WHEN 'salary' THEN 'SAL-'
+    WHEN 'deposit' THEN 'DEP-'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_document_sequences()
+RETURNS TABLE (
+  document_type text,
+  prefix text,
+  reset_period text,
+  padding integer,
+  last_number bigint,
+  next_number text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.view') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.document_type,
+    COALESCE(s.prefix, document_sequence_default_prefix(t.document_type)),
+    COALESCE(s.reset_period, 'never'),
+    COALESCE(s.padding, 6),
+    COALESCE(s.last_number, 0),
+    preview_document_number(t.document_type)
+  FROM unnest(ARRAY['invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary', 'deposit'])
+    WITH ORDINALITY AS t(document_type, position)
+  LEFT JOIN document_sequences s
+    ON s.document_type = t.document_type
+    AND s.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  ORDER BY t.position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_document_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid := COALESCE(NEW.organization_id, get_user_organization_id());
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'invoices' THEN
+      NEW.invoice_number := next_document_number(v_org_id, 'invoice');
+    WHEN 'invoice_notes' THEN
+      NEW.note_number := next_document_number(v_org_id, NEW.note_type || '_note');
+    WHEN 'quotations' THEN
+      NEW.quotation_number := next_document_number(v_org_id, 'quotation');
+    WHEN 'work_orders' THEN
+      NEW.order_number := next_document_number(v_org_id, 'work_order');
+    WHEN 'expenses' THEN
+      NEW.expense_number := next_document_number(v_org_id, 'expense');
+    WHEN 'salaries' THEN
+      NEW.salary_number := next_document_number(v_org_id, 'salary');
+    WHEN 'work_order_deposits' THEN
+      NEW.receipt_number := next_document_number(v_org_id, 'deposit');
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Deposits
+CREATE TABLE IF NOT EXISTS work_order_deposits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  work_order_id uuid NOT NULL REFERENCES work_orders(id) ON DELETE RESTRICT,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  receipt_number text NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  applied_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (applied_amount >= 0),
+  payment_method text NOT NULL DEFAULT 'cash'
+    CHECK (payment_method IN ('cash', 'card', 'bank_transfer', 'other')),
+  card_type text CHECK (card_type IN ('mada', 'visa')),
+  reference text,
+  notes text,
+  paid_at timestamptz NOT NULL DEFAULT now(),
+  received_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT work_order_deposits_org_receipt_number_key UNIQUE (organization_id, receipt_number),
+  CONSTRAINT work_order_deposits_applied_check CHECK (applied_amount <= amount),
+  CONSTRAINT work_order_deposits_transfer_reference_check
+    CHECK (payment_method <> 'bank_transfer' OR length(trim(COALESCE(reference, ''))) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_deposits_work_order ON work_order_deposits(work_order_id, paid_at);
+CREATE INDEX IF NOT EXISTS idx_work_order_deposits_customer ON work_order_deposits(customer_id) WHERE applied_amount < amount;
+
+CREATE OR REPLACE FUNCTION prepare_work_order_deposit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order work_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM work_orders WHERE id = NEW.work_order_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Work order % is cancelled and cannot take a deposit', v_order.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.organization_id := v_order.organization_id;
+  NEW.customer_id := v_order.customer_id;
+  NEW.applied_amount := 0;
+  NEW.received_by := COALESCE(auth.uid(), NEW.received_by);
+  IF NEW.payment_method <> 'card' THEN
+    NEW.card_type := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_work_order_deposit ON work_order_deposits;
+CREATE TRIGGER trigger_prepare_work_order_deposit
+  BEFORE INSERT ON work_order_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_work_order_deposit();
+
+DROP TRIGGER IF EXISTS trigger_assign_deposit_number ON work_order_deposits;
+CREATE TRIGGER trigger_assign_deposit_number
+  BEFORE INSERT ON work_order_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number();
+
+-- Only the derived applied amount ever changes
+CREATE OR REPLACE FUNCTION protect_work_order_deposit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.applied_amount > 0 THEN
+      RAISE EXCEPTION 'Deposit % has been applied to an invoice, remove it from the invoice payments first', OLD.receipt_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF (NEW.organization_id, NEW.work_order_id, NEW.customer_id, NEW.receipt_number, NEW.amount,
+      NEW.payment_method, NEW.card_type, NEW.reference, NEW.notes, NEW.paid_at, NEW.received_by)
+    IS DISTINCT FROM
+     (OLD.organization_id, OLD.work_order_id, OLD.customer_id, OLD.receipt_number, OLD.amount,
+      OLD.payment_method, OLD.card_type, OLD.reference, OLD.notes, OLD.paid_at, OLD.received_by)
+  THEN
+    RAISE EXCEPTION 'Deposits cannot be modified, delete and re-enter the deposit instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_work_order_deposit ON work_order_deposits;
+CREATE TRIGGER trigger_protect_work_order_deposit
+  BEFORE UPDATE OR DELETE ON work_order_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_work_order_deposit();
+
+-- 3. Applying deposits to invoices
+ALTER TABLE invoice_payments ADD COLUMN IF NOT EXISTS deposit_id uuid REFERENCES work_order_deposits(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_deposit ON invoice_payments(deposit_id) WHERE deposit_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION check_deposit_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_deposit work_order_deposits%ROWTYPE;
+  v_customer_id uuid;
+BEGIN
+  IF NEW.deposit_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serializes concurrent applications of the same deposit
+  SELECT * INTO v_deposit FROM work_order_deposits WHERE id = NEW.deposit_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deposit not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT customer_id INTO v_customer_id FROM invoices WHERE id = NEW.invoice_id;
+
+  IF v_customer_id IS DISTINCT FROM v_deposit.customer_id THEN
+    RAISE EXCEPTION 'Deposit % belongs to another customer', v_deposit.receipt_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.amount > v_deposit.amount - v_deposit.applied_amount + 0.01 THEN
+    RAISE EXCEPTION 'Only % of deposit % is left to apply', v_deposit.amount - v_deposit.applied_amount, v_deposit.receipt_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.payment_method := v_deposit.payment_method;
+  NEW.card_type := v_deposit.card_type;
+  NEW.reference := v_deposit.receipt_number;
+  NEW.paid_at := v_deposit.paid_at;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs before trigger_prepare_invoice_payment (triggers fire in name order)
+DROP TRIGGER IF EXISTS trigger_check_deposit_application ON invoice_payments;
+CREATE TRIGGER trigger_check_deposit_application
+  BEFORE INSERT ON invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_deposit_application();
+
+CREATE OR REPLACE FUNCTION sync_deposit_applied_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_deposit_id uuid := COALESCE(NEW.deposit_id, OLD.deposit_id);
+BEGIN
+  IF v_deposit_id IS NOT NULL THEN
+    UPDATE work_order_deposits SET
+      applied_amount = (
+        SELECT COALESCE(SUM(amount), 0) FROM invoice_payments WHERE deposit_id = v_deposit_id
+      )
+    WHERE id = v_deposit_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_deposit_applied_amount ON invoice_payments;
+CREATE TRIGGER trigger_sync_deposit_applied_amount
+  AFTER INSERT OR DELETE ON invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_deposit_applied_amount();
+
+CREATE OR REPLACE FUNCTION apply_work_order_deposits(p_invoice_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_deposit work_order_deposits%ROWTYPE;
+  v_balance numeric;
+  v_amount numeric;
+  v_applied numeric := 0;
+BEGIN
+  IF NOT (
+    user_has_permission(auth.uid(), 'invoices.create')
+    OR user_has_permission(auth.uid(), 'invoices.update')
+    OR user_has_permission(auth.uid(), 'invoices.manage_payments')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_invoice
+  FROM invoices
+  WHERE id = p_invoice_id
+  AND organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_balance := v_invoice.total - v_invoice.paid_amount;
+
+  -- The work order of the invoice, or every work order of a consolidated one
+  FOR v_deposit IN
+    SELECT d.*
+    FROM work_order_deposits d
+    WHERE d.customer_id = v_invoice.customer_id
+    AND d.applied_amount < d.amount
+    AND (
+      d.work_order_id = v_invoice.work_order_id
+      OR d.work_order_id IN (SELECT work_order_id FROM invoice_work_orders WHERE invoice_id = v_invoice.id)
+    )
+    ORDER BY d.paid_at, d.created_at
+    FOR UPDATE OF d
+  LOOP
+    EXIT WHEN v_balance <= 0.01;
+
+    v_amount := LEAST(v_deposit.amount - v_deposit.applied_amount, v_balance);
+
+    INSERT INTO invoice_payments (invoice_id, organization_id, amount, deposit_id)
+    VALUES (v_invoice.id, v_invoice.organization_id, v_amount, v_deposit.id);
+
+    v_balance := v_balance - v_amount;
+    v_applied := v_applied + v_amount;
+  END LOOP;
+
+  RETURN v_applied;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_work_order_deposits(uuid) TO authenticated;
+
+-- 4. Customer account
+-- Runs with the caller's rights, so the deposits follow their RLS policy
+CREATE OR REPLACE FUNCTION get_customer_deposit_balances(p_customer_ids uuid[])
+RETURNS TABLE (customer_id uuid, balance numeric)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT d.customer_id, SUM(d.amount - d.applied_amount)
+  FROM work_order_deposits d
+  WHERE d.customer_id = ANY(p_customer_ids)
+  AND d.applied_amount < d.amount
+  GROUP BY d.customer_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_customer_deposit_balances(uuid[]) TO authenticated;
+
+-- 5. Row level security
+ALTER TABLE work_order_deposits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view work order deposits with permission" ON work_order_deposits;
+CREATE POLICY "Users can view work order deposits with permission"
+  ON work_order_deposits FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'work_orders.view')
+      OR user_has_permission(auth.uid(), 'invoices.view')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can record work order deposits with permission" ON work_order_deposits;
+CREATE POLICY "Users can record work order deposits with permission"
+  ON work_order_deposits FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'invoices.update')
+      OR user_has_permission(auth.uid(), 'invoices.manage_payments')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete work order deposits with permission" ON work_order_deposits;
+CREATE POLICY "Users can delete work order deposits with permission"
+  ON work_order_deposits FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'invoices.update')
+      OR user_has_permission(auth.uid(), 'invoices.manage_payments')
+    )
+  );
+
+COMMENT ON TABLE work_order_deposits IS 'Advance payments taken against a work order; applied_amount is derived from the invoice payments that use them.';
+COMMENT ON FUNCTION apply_work_order_deposits(uuid) IS 'Applies the unapplied deposits of the work orders of an invoice, oldest first, up to the invoice balance. Returns the amount applied.';
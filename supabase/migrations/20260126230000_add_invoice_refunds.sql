@@ -0,0 +1,452 @@
+/*
+  # Invoice Refunds
+
+  1. Purpose
+    - Money returned to a customer was recorded by lowering the paid amount of
+      the invoice, which hid the refund from the cash drawer and left no trace
+      of who approved it, who recorded it or why
+    - A refund is now its own record against the invoice and, when the money
+      is returned because of a credit note, against that note
+
+  2. Changes
+    - New `refund` document type (RF-000001)
+    - New table `invoice_refunds` with amount, method, reference, reason,
+      approving user, recording user and time. Refunds are never updated or
+      deleted
+    - The approver must be an active user of the organization holding
+      `invoices.refund`; the cashier handing out the money is the recording
+      user
+    - New `get_refund_approvers()` lists the users who may approve a refund
+    - The refunds of an invoice cannot exceed what was paid on it, and the
+      refunds against a credit note cannot exceed the note
+    - A payment can no longer be deleted when that would leave the invoice
+      with more refunded than paid
+    - `get_ar_aging()` counts refunds as money owed again
+
+  3. Security
+    - RLS enabled, SELECT requires `invoices.view`
+    - INSERT requires the new `invoices.refund` permission or
+      `invoices.manage_payments`, the approval itself requires
+      `invoices.refund`
+    - No UPDATE / DELETE policies
+*/
+
+-- 1. Refund numbering
+DO $$
+BEGIN
+  ALTER TABLE document_sequences DROP CONSTRAINT IF EXISTS document_sequences_document_type_check;
+  ALTER TABLE document_sequences ADD CONSTRAINT document_sequences_document_type_check
+    CHECK (document_type IN ('invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary', 'deposit', 'refund'));
+END $$;
+
+CREATE OR REPLACE FUNCTION document_sequence_default_prefix(p_document_type text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN 'INV-'
+    WHEN 'credit_note' THEN 'CN-'
+    WHEN 'debit_note' THEN 'DN-'
+    WHEN 'quotation' THEN 'QT-'
+    WHEN 'work_order' THEN 'WO-'
+    WHEN 'expense' THEN 'EXP-'
+    WHEN 'salary' THEN 'SAL-'
+    WHEN 'deposit' THEN 'DEP-'
+    WHEN 'refund' THEN 'RF-'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_document_sequences()
+RETURNS TABLE (
+  document_type text,
+  prefix text,
+  reset_period text,
+  padding integer,
+  last_number bigint,
+  next_number text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.view') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.document_type,
+    COALESCE(s.prefix, document_sequence_default_prefix(t.document_type)),
+    COALESCE(s.reset_period, 'never'),
+    COALESCE(s.padding, 6),
+    COALESCE(s.last_number, 0),
+    preview_document_number(t.document_type)
+  FROM unnest(ARRAY['invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary', 'deposit', 'refund'])
+    WITH ORDINALITY AS t(document_type, position)
+  LEFT JOIN document_sequences s
+    ON s.document_type = t.document_type
+    AND s.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  ORDER BY t.position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_document_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid := COALESCE(NEW.organization_id, get_user_organization_id());
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'invoices' THEN
+      NEW.invoice_number := next_document_number(v_org_id, 'invoice');
+    WHEN 'invoice_notes' THEN
+      NEW.note_number := next_document_number(v_org_id, NEW.note_type || '_note');
+    WHEN 'quotations' THEN
+      NEW.quotation_number := next_document_number(v_org_id, 'quotation');
+    WHEN 'work_orders' THEN
+      NEW.order_number := next_document_number(v_org_id, 'work_order');
+    WHEN 'expenses' THEN
+      NEW.expense_number := next_document_number(v_org_id, 'expense');
+    WHEN 'salaries' THEN
+      NEW.salary_number := next_document_number(v_org_id, 'salary');
+    WHEN 'work_order_deposits' THEN
+      NEW.receipt_number := next_document_number(v_org_id, 'deposit');
+    WHEN 'invoice_refunds' THEN
+      NEW.refund_number := next_document_number(v_org_id, 'refund');
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Refunds
+CREATE TABLE IF NOT EXISTS invoice_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE RESTRICT,
+  note_id uuid REFERENCES invoice_notes(id) ON DELETE RESTRICT,
+  refund_number text NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  refund_method text NOT NULL DEFAULT 'cash'
+    CHECK (refund_method IN ('cash', 'card', 'bank_transfer', 'other')),
+  card_type text CHECK (card_type IN ('mada', 'visa')),
+  reference text,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  refunded_at timestamptz NOT NULL DEFAULT now(),
+  approved_by uuid NOT NULL REFERENCES users(id),
+  recorded_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT invoice_refunds_org_refund_number_key UNIQUE (organization_id, refund_number),
+  CONSTRAINT invoice_refunds_transfer_reference_check
+    CHECK (refund_method <> 'bank_transfer' OR length(trim(COALESCE(reference, ''))) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_refunds_invoice ON invoice_refunds(invoice_id, refunded_at);
+CREATE INDEX IF NOT EXISTS idx_invoice_refunds_note ON invoice_refunds(note_id) WHERE note_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoice_refunds_org_refunded_at ON invoice_refunds(organization_id, refunded_at DESC);
+
+CREATE OR REPLACE FUNCTION prepare_invoice_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_note invoice_notes%ROWTYPE;
+  v_paid numeric;
+  v_refunded numeric;
+BEGIN
+  -- Same lock as payments, so a payment cannot be deleted underneath the refund
+  SELECT * INTO v_invoice FROM invoices WHERE id = NEW.invoice_id AND deleted_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_invoice.status <> 'issued' THEN
+    RAISE EXCEPTION 'Refunds can only be made on issued invoices' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM invoice_payments WHERE invoice_id = NEW.invoice_id;
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM invoice_refunds WHERE invoice_id = NEW.invoice_id;
+
+  IF v_refunded + NEW.amount > v_paid + 0.01 THEN
+    RAISE EXCEPTION 'Refund of % exceeds the refundable % paid on invoice %',
+      NEW.amount, GREATEST(v_paid - v_refunded, 0), v_invoice.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.note_id IS NOT NULL THEN
+    SELECT * INTO v_note FROM invoice_notes WHERE id = NEW.note_id AND invoice_id = NEW.invoice_id;
+
+    IF NOT FOUND OR v_note.note_type <> 'credit' THEN
+      RAISE EXCEPTION 'Refunds can only reference a credit note of invoice %', v_invoice.invoice_number
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM invoice_refunds WHERE note_id = NEW.note_id;
+
+    IF v_refunded + NEW.amount > v_note.total + 0.01 THEN
+      RAISE EXCEPTION 'Refund of % exceeds the % left on credit note %',
+        NEW.amount, GREATEST(v_note.total - v_refunded, 0), v_note.note_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = NEW.approved_by
+    AND organization_id = v_invoice.organization_id
+    AND is_active = true
+  ) OR NOT user_has_permission(NEW.approved_by, 'invoices.refund') THEN
+    RAISE EXCEPTION 'Refunds must be approved by a user with the refund permission'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  NEW.organization_id := v_invoice.organization_id;
+  NEW.recorded_by := COALESCE(auth.uid(), NEW.recorded_by);
+  NEW.reason := trim(NEW.reason);
+  IF NEW.refund_method <> 'card' THEN
+    NEW.card_type := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_invoice_refund ON invoice_refunds;
+CREATE TRIGGER trigger_prepare_invoice_refund
+  BEFORE INSERT ON invoice_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_invoice_refund();
+
+DROP TRIGGER IF EXISTS trigger_assign_refund_number ON invoice_refunds;
+CREATE TRIGGER trigger_assign_refund_number
+  BEFORE INSERT ON invoice_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number();
+
+CREATE OR REPLACE FUNCTION prevent_invoice_refund_modification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Refunds cannot be modified or deleted (% rejected)', TG_OP
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_invoice_refund_modification ON invoice_refunds;
+CREATE TRIGGER trigger_prevent_invoice_refund_modification
+  BEFORE UPDATE OR DELETE ON invoice_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_invoice_refund_modification();
+
+-- Users of the organization who may approve a refund
+CREATE OR REPLACE FUNCTION get_refund_approvers()
+RETURNS TABLE (id uuid, full_name text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT (
+    user_has_permission(auth.uid(), 'invoices.refund')
+    OR user_has_permission(auth.uid(), 'invoices.manage_payments')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.full_name
+  FROM users u
+  WHERE u.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  AND u.is_active = true
+  AND user_has_permission(u.id, 'invoices.refund')
+  ORDER BY u.full_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_refund_approvers() TO authenticated;
+
+-- 3. Payments stay above what was refunded
+CREATE OR REPLACE FUNCTION check_payment_refunds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_paid numeric;
+  v_refunded numeric;
+BEGIN
+  PERFORM 1 FROM invoices WHERE id = OLD.invoice_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM invoice_refunds WHERE invoice_id = OLD.invoice_id;
+  IF v_refunded = 0 THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM invoice_payments WHERE invoice_id = OLD.invoice_id;
+
+  IF v_paid - OLD.amount < v_refunded - 0.01 THEN
+    RAISE EXCEPTION 'Payment % cannot be deleted, % has been refunded on this invoice', OLD.receipt_number, v_refunded
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_check_payment_refunds ON invoice_payments;
+CREATE TRIGGER trigger_check_payment_refunds
+  BEFORE DELETE ON invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_payment_refunds();
+
+-- 4. Aging: a refund is owed again
+CREATE OR REPLACE FUNCTION get_ar_aging(
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_customer_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  invoice_id uuid,
+  invoice_number text,
+  customer_id uuid,
+  customer_name text,
+  customer_phone text,
+  payment_terms text,
+  invoice_date timestamptz,
+  due_date timestamptz,
+  total numeric,
+  paid_amount numeric,
+  adjustments numeric,
+  balance numeric,
+  days_overdue integer,
+  bucket text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'reports.view') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_as_of := COALESCE(p_as_of, CURRENT_DATE);
+
+  RETURN QUERY
+  WITH open_invoices AS (
+    SELECT
+      i.id,
+      i.invoice_number,
+      i.customer_id,
+      COALESCE(i.payment_terms, c.payment_terms) AS payment_terms,
+      i.created_at,
+      COALESCE(i.due_date, i.created_at) AS due_date,
+      i.total,
+      -- Paid net of refunds
+      COALESCE((
+        SELECT SUM(ip.amount) FROM invoice_payments ip
+        WHERE ip.invoice_id = i.id AND ip.paid_at < p_as_of + 1
+      ), 0) - COALESCE((
+        SELECT SUM(r.amount) FROM invoice_refunds r
+        WHERE r.invoice_id = i.id AND r.refunded_at < p_as_of + 1
+      ), 0) AS paid_amount,
+      -- Credit notes reduce the amount owed, debit notes add to it
+      COALESCE((
+        SELECT SUM(CASE WHEN n.note_type = 'debit' THEN n.total ELSE -n.total END) FROM invoice_notes n
+        WHERE n.invoice_id = i.id AND n.created_at < p_as_of + 1
+      ), 0) AS adjustments,
+      c.name AS customer_name,
+      c.phone AS customer_phone
+    FROM invoices i
+    LEFT JOIN customers c ON c.id = i.customer_id
+    WHERE i.organization_id = v_org_id
+    AND i.status = 'issued'
+    AND i.deleted_at IS NULL
+    AND i.created_at < p_as_of + 1
+    AND (p_customer_id IS NULL OR i.customer_id = p_customer_id)
+  ),
+  balances AS (
+    SELECT
+      o.*,
+      o.total + o.adjustments - o.paid_amount AS balance,
+      -- Not yet due counts as 0 days
+      GREATEST(p_as_of - o.due_date::date, 0) AS days_overdue
+    FROM open_invoices o
+  )
+  SELECT
+    b.id,
+    b.invoice_number,
+    b.customer_id,
+    b.customer_name,
+    b.customer_phone,
+    b.payment_terms,
+    b.created_at,
+    b.due_date,
+    b.total,
+    b.paid_amount,
+    b.adjustments,
+    ROUND(b.balance, 2),
+    b.days_overdue,
+    CASE
+      WHEN b.days_overdue <= 30 THEN '0_30'
+      WHEN b.days_overdue <= 60 THEN '31_60'
+      WHEN b.days_overdue <= 90 THEN '61_90'
+      ELSE '90_plus'
+    END
+  FROM balances b
+  WHERE b.balance > 0.01
+  ORDER BY b.customer_name, b.due_date;
+END;
+$$;
+
+-- 5. Row level security
+ALTER TABLE invoice_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view invoice refunds with permission" ON invoice_refunds;
+CREATE POLICY "Users can view invoice refunds with permission"
+  ON invoice_refunds FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'invoices.view')
+  );
+
+DROP POLICY IF EXISTS "Users can record invoice refunds with permission" ON invoice_refunds;
+CREATE POLICY "Users can record invoice refunds with permission"
+  ON invoice_refunds FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'invoices.refund')
+      OR user_has_permission(auth.uid(), 'invoices.manage_payments')
+    )
+  );
+
+-- 6. Permission
+INSERT INTO permissions (key, resource, action, name_ar, name_en, description_ar, description_en, category, display_order)
+VALUES
+  ('invoices.refund', 'invoices', 'refund', 'استرداد المبالغ', 'Refund Payments', 'الموافقة على المبالغ المستردة للعملاء وتسجيلها', 'Approve and record money returned to customers', 'financial', 48)
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE invoice_refunds IS 'Money returned to customers against an invoice, optionally for a credit note. Immutable.';
+COMMENT ON COLUMN invoice_refunds.approved_by IS 'User holding invoices.refund who approved the refund; recorded_by is the user who recorded it.';
+COMMENT ON FUNCTION get_refund_approvers() IS 'Active users of the organization who may approve a refund.';
@@ -0,0 +1,478 @@
+/*
+  # Work Order Lifecycle
+
+  1. Purpose
+    - Work orders only knew pending / in_progress / completed / cancelled,
+      while a car actually goes through reception, diagnosis, customer
+      approval, parts, repair, quality check, pickup and delivery
+    - Cancelling an order has to say why
+
+  2. Changes
+    - Statuses are now `received`, `diagnosing`, `awaiting_approval`,
+      `awaiting_parts`, `in_progress`, `quality_check`, `ready_for_pickup`,
+      `delivered` and `cancelled`. Existing orders are moved over:
+      pending -> received, completed -> delivered
+    - The allowed transitions are enforced by the work-orders edge function
+    - `work_orders.cancellation_reason`, required for cancelled orders
+    - Work is finished once the order is `ready_for_pickup`; that status
+      stamps `completed_at` and queues the "ready for pickup" message.
+      Salaries, consolidated invoices and the dashboard count
+      `ready_for_pickup` and `delivered` orders as completed
+
+  3. Security
+    - No RLS changes; transitions are checked against `work_orders.update`,
+      `work_orders.complete` and `work_orders.cancel` by the edge function
+*/
+
+-- 1. Statuses
+ALTER TABLE work_orders DROP CONSTRAINT IF EXISTS check_work_orders_status;
+
+UPDATE work_orders SET status = 'received' WHERE status = 'pending' OR status IS NULL;
+UPDATE work_orders SET status = 'delivered' WHERE status = 'completed';
+
+ALTER TABLE work_orders ALTER COLUMN status SET DEFAULT 'received';
+
+ALTER TABLE work_orders
+  ADD CONSTRAINT check_work_orders_status
+  CHECK (status IN (
+    'received', 'diagnosing', 'awaiting_approval', 'awaiting_parts', 'in_progress',
+    'quality_check', 'ready_for_pickup', 'delivered', 'cancelled'
+  ));
+
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS cancellation_reason text;
+
+-- Orders cancelled before this migration have no reason on record
+ALTER TABLE work_orders
+  ADD CONSTRAINT check_work_orders_cancellation_reason
+  CHECK (status <> 'cancelled' OR COALESCE(btrim(cancellation_reason), '') <> '')
+  NOT VALID;
+
+COMMENT ON COLUMN work_orders.cancellation_reason IS 'Why the order was cancelled; required once the status is cancelled.';
+
+DROP INDEX IF EXISTS idx_work_orders_active;
+CREATE INDEX IF NOT EXISTS idx_work_orders_active
+  ON work_orders (organization_id, created_at DESC)
+  WHERE status NOT IN ('delivered', 'cancelled');
+
+-- 2. Notifications: the message goes out when the car is ready for pickup
+CREATE OR REPLACE FUNCTION notify_work_order_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'ready_for_pickup' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Deferred: the order may have been moved on again in the same transaction
+  IF (SELECT status FROM work_orders WHERE id = NEW.id) = 'ready_for_pickup' THEN
+    PERFORM enqueue_customer_notification('work_order_completed', NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_notify_work_order_completed ON work_orders;
+CREATE CONSTRAINT TRIGGER trigger_notify_work_order_completed
+  AFTER INSERT OR UPDATE OF status ON work_orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.status = 'ready_for_pickup')
+  EXECUTE FUNCTION notify_work_order_completed();
+
+-- 3. Salaries count finished orders
+CREATE OR REPLACE FUNCTION calculate_technician_salary(
+  p_technician_id uuid,
+  p_month integer,
+  p_year integer
+)
+RETURNS TABLE (
+  basic_salary numeric,
+  commission_amount numeric,
+  work_orders_count bigint,
+  total_work_orders_value numeric
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    CASE
+      WHEN t.contract_type = 'fixed' THEN COALESCE(t.fixed_salary, 0) + COALESCE(t.allowances, 0)
+      ELSE 0
+    END as basic_salary,
+    CASE
+      WHEN t.contract_type = 'percentage' THEN COALESCE(SUM(i.total) * t.percentage / 100, 0)
+      ELSE 0
+    END as commission_amount,
+    COUNT(DISTINCT wo.id) as work_orders_count,
+    COALESCE(SUM(i.total), 0) as total_work_orders_value
+  FROM technicians t
+  LEFT JOIN technician_assignments ta ON ta.technician_id = t.id
+  LEFT JOIN work_order_services wos ON wos.id = ta.service_id
+  LEFT JOIN work_orders wo ON wo.id = wos.work_order_id
+  LEFT JOIN invoices i ON i.work_order_id = wo.id
+  WHERE t.id = p_technician_id
+    AND wo.status IN ('ready_for_pickup', 'delivered')
+    AND EXTRACT(MONTH FROM wo.completed_at) = p_month
+    AND EXTRACT(YEAR FROM wo.completed_at) = p_year
+    AND i.payment_status = 'paid'
+  GROUP BY t.id, t.contract_type, t.fixed_salary, t.allowances, t.percentage;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. Consolidated invoices bundle finished orders
+CREATE OR REPLACE FUNCTION create_consolidated_invoice(
+  p_customer_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_work_order_ids uuid[] DEFAULT NULL,
+  p_invoice jsonb DEFAULT '{}'::jsonb
+)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_order_ids uuid[];
+  v_lines_total numeric;
+  v_totals record;
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'invoices.create') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_customer_id IS NULL OR p_period_start IS NULL OR p_period_end IS NULL THEN
+    RAISE EXCEPTION 'customer_id, period_start and period_end are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'period_end cannot be before period_start' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_invoice := COALESCE(p_invoice, '{}'::jsonb);
+
+  -- Locked so two invoices cannot pick up the same work orders
+  SELECT array_agg(wo.id ORDER BY wo.completed_at)
+  INTO v_order_ids
+  FROM (
+    SELECT wo.id, wo.completed_at
+    FROM work_orders wo
+    WHERE wo.organization_id = v_org_id
+    AND wo.customer_id = p_customer_id
+    AND wo.status IN ('ready_for_pickup', 'delivered')
+    AND wo.deleted_at IS NULL
+    AND wo.completed_at >= p_period_start
+    AND wo.completed_at < p_period_end + 1
+    AND (p_work_order_ids IS NULL OR wo.id = ANY(p_work_order_ids))
+    AND NOT EXISTS (SELECT 1 FROM invoice_work_orders iwo WHERE iwo.work_order_id = wo.id)
+    FOR UPDATE
+  ) wo;
+
+  IF v_order_ids IS NULL THEN
+    RAISE EXCEPTION 'No completed work orders to invoice in this period' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_work_order_ids IS NOT NULL AND cardinality(v_order_ids) <> cardinality(ARRAY(SELECT DISTINCT unnest(p_work_order_ids))) THEN
+    RAISE EXCEPTION 'Some work orders are not completed in this period or are already invoiced'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(wos.labor_cost), 0) INTO v_lines_total
+  FROM work_order_services wos
+  WHERE wos.work_order_id = ANY(v_order_ids);
+
+  v_lines_total := v_lines_total + (
+    SELECT COALESCE(SUM(wosp.total), 0)
+    FROM work_order_spare_parts wosp
+    WHERE wosp.work_order_id = ANY(v_order_ids)
+  );
+
+  SELECT * INTO v_totals
+  FROM calculate_invoice_totals(
+    v_lines_total,
+    COALESCE((p_invoice->>'discount_percentage')::numeric, 0),
+    COALESCE((p_invoice->>'tax_rate')::numeric, 0),
+    COALESCE(p_invoice->>'tax_type', 'exclusive')
+  );
+
+  INSERT INTO invoices (
+    organization_id, status, customer_id, is_consolidated, period_start, period_end,
+    discount_percentage, tax_rate, tax_type, notes, due_date,
+    subtotal, discount_amount, tax_amount, total
+  ) VALUES (
+    v_org_id,
+    'draft',
+    p_customer_id,
+    true,
+    p_period_start,
+    p_period_end,
+    COALESCE((p_invoice->>'discount_percentage')::numeric, 0),
+    COALESCE((p_invoice->>'tax_rate')::numeric, 0),
+    COALESCE(p_invoice->>'tax_type', 'exclusive'),
+    COALESCE(p_invoice->>'notes', ''),
+    (p_invoice->>'due_date')::timestamptz,
+    v_totals.subtotal, v_totals.discount_amount, v_totals.tax_amount, v_totals.total
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO invoice_work_orders (organization_id, invoice_id, work_order_id)
+  SELECT v_org_id, v_invoice.id, unnest(v_order_ids);
+
+  -- Lines in work order order, services before spare parts
+  INSERT INTO invoice_items (invoice_id, work_order_id, item_type, service_type, description, quantity, unit_price, total)
+  SELECT v_invoice.id, work_order_id, item_type, service_type, description, quantity, unit_price, total
+  FROM (
+    SELECT
+      wos.work_order_id,
+      'service' AS item_type,
+      wos.service_type,
+      wos.description,
+      1::numeric AS quantity,
+      wos.labor_cost AS unit_price,
+      wos.labor_cost AS total,
+      array_position(v_order_ids, wos.work_order_id) AS order_position,
+      1 AS line_order,
+      wos.created_at
+    FROM work_order_services wos
+    WHERE wos.work_order_id = ANY(v_order_ids)
+    UNION ALL
+    SELECT
+      wosp.work_order_id,
+      'part',
+      NULL,
+      sp.name,
+      wosp.quantity,
+      wosp.unit_price,
+      wosp.total,
+      array_position(v_order_ids, wosp.work_order_id),
+      2,
+      wosp.created_at
+    FROM work_order_spare_parts wosp
+    JOIN spare_parts sp ON sp.id = wosp.spare_part_id
+    WHERE wosp.work_order_id = ANY(v_order_ids)
+  ) lines
+  ORDER BY order_position, line_order, created_at;
+
+  -- Same final pass as save_invoice(), after the item triggers ran
+  UPDATE invoices SET
+    subtotal = v_totals.subtotal,
+    discount_amount = v_totals.discount_amount,
+    tax_amount = v_totals.tax_amount,
+    total = v_totals.total
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_consolidated_invoice(uuid, date, date, uuid[], jsonb) TO authenticated;
+
+COMMENT ON FUNCTION create_consolidated_invoice(uuid, date, date, uuid[], jsonb) IS 'Creates one draft invoice for the completed, not yet invoiced work orders of a customer over a period.';
+
+-- 5. Dashboard: waiting orders are "pending", repair and quality check are
+-- "in progress", ready and delivered orders are "completed"
+DROP VIEW IF EXISTS dashboard_cache_info;
+DROP MATERIALIZED VIEW IF EXISTS dashboard_stats_cache CASCADE;
+
+CREATE MATERIALIZED VIEW dashboard_stats_cache AS
+SELECT
+  o.id as organization_id,
+
+  -- Work Orders Statistics
+  COUNT(DISTINCT wo.id) FILTER (WHERE wo.deleted_at IS NULL) as total_work_orders,
+  COUNT(DISTINCT wo.id) FILTER (WHERE wo.status IN ('received', 'diagnosing', 'awaiting_approval', 'awaiting_parts') AND wo.deleted_at IS NULL) as pending_work_orders,
+  COUNT(DISTINCT wo.id) FILTER (WHERE wo.status IN ('in_progress', 'quality_check') AND wo.deleted_at IS NULL) as in_progress_work_orders,
+  COUNT(DISTINCT wo.id) FILTER (WHERE wo.status IN ('ready_for_pickup', 'delivered') AND wo.deleted_at IS NULL) as completed_work_orders,
+  COUNT(DISTINCT wo.id) FILTER (WHERE wo.status = 'cancelled' AND wo.deleted_at IS NULL) as cancelled_work_orders,
+
+  -- Invoice Statistics
+  COUNT(DISTINCT i.id) FILTER (WHERE i.deleted_at IS NULL) as total_invoices,
+  COUNT(DISTINCT i.id) FILTER (WHERE i.payment_status = 'unpaid' AND i.deleted_at IS NULL) as unpaid_invoices,
+  COUNT(DISTINCT i.id) FILTER (WHERE i.payment_status = 'partial' AND i.deleted_at IS NULL) as partial_invoices,
+  COUNT(DISTINCT i.id) FILTER (WHERE i.payment_status = 'paid' AND i.deleted_at IS NULL) as paid_invoices,
+
+  -- Financial Statistics
+  COALESCE(SUM(i.total) FILTER (WHERE i.deleted_at IS NULL), 0) as total_revenue,
+  COALESCE(SUM(i.paid_amount) FILTER (WHERE i.deleted_at IS NULL), 0) as collected_revenue,
+  COALESCE(SUM(i.total - i.paid_amount) FILTER (WHERE i.payment_status != 'paid' AND i.deleted_at IS NULL), 0) as outstanding_revenue,
+
+  -- Current Month Statistics
+  COUNT(DISTINCT wo.id) FILTER (WHERE DATE_TRUNC('month', wo.created_at) = DATE_TRUNC('month', CURRENT_DATE) AND wo.deleted_at IS NULL) as current_month_work_orders,
+  COALESCE(SUM(i.total) FILTER (WHERE DATE_TRUNC('month', i.created_at) = DATE_TRUNC('month', CURRENT_DATE) AND i.deleted_at IS NULL), 0) as current_month_revenue,
+
+  -- Customer Statistics
+  COUNT(DISTINCT c.id) FILTER (WHERE c.deleted_at IS NULL) as total_customers,
+  COUNT(DISTINCT v.id) FILTER (WHERE v.deleted_at IS NULL) as total_vehicles,
+
+  -- Inventory Statistics
+  COUNT(DISTINCT sp.id) FILTER (WHERE sp.deleted_at IS NULL) as total_spare_parts,
+  COUNT(DISTINCT sp.id) FILTER (WHERE sp.quantity <= sp.minimum_quantity AND sp.deleted_at IS NULL) as low_stock_items,
+  COALESCE(SUM(sp.quantity * sp.unit_price) FILTER (WHERE sp.deleted_at IS NULL), 0) as inventory_value,
+
+  -- Technician Statistics
+  COUNT(DISTINCT t.id) FILTER (WHERE t.is_active = true AND t.deleted_at IS NULL) as active_technicians,
+
+  -- Expense Statistics (Current Month)
+  COALESCE(SUM(e.amount) FILTER (WHERE DATE_TRUNC('month', e.expense_date) = DATE_TRUNC('month', CURRENT_DATE) AND e.deleted_at IS NULL), 0) as current_month_expenses,
+
+  -- Last updated timestamp
+  NOW() as last_updated
+
+FROM organizations o
+LEFT JOIN work_orders wo ON wo.organization_id = o.id
+LEFT JOIN invoices i ON i.organization_id = o.id
+LEFT JOIN customers c ON c.organization_id = o.id
+LEFT JOIN vehicles v ON v.organization_id = o.id
+LEFT JOIN spare_parts sp ON sp.organization_id = o.id
+LEFT JOIN technicians t ON t.organization_id = o.id
+LEFT JOIN expenses e ON e.organization_id = o.id
+GROUP BY o.id;
+
+-- Needed by REFRESH ... CONCURRENTLY
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dashboard_stats_cache_org
+  ON dashboard_stats_cache(organization_id);
+
+REVOKE ALL ON dashboard_stats_cache FROM authenticated;
+REVOKE ALL ON dashboard_stats_cache FROM anon;
+REVOKE ALL ON dashboard_stats_cache FROM public;
+GRANT SELECT ON dashboard_stats_cache TO service_role;
+
+COMMENT ON MATERIALIZED VIEW dashboard_stats_cache IS 'SECURED: Cached dashboard stats. Access via get_dashboard_stats() or get_dashboard_stats_cache_filtered().';
+
+-- The function and dashboard_cache_info depend on the materialized view and are recreated with it
+CREATE OR REPLACE FUNCTION get_dashboard_stats_cache_filtered()
+RETURNS SETOF dashboard_stats_cache
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  user_org_id uuid;
+BEGIN
+  SELECT organization_id INTO user_org_id
+  FROM users
+  WHERE id = auth.uid();
+
+  IF user_org_id IS NULL THEN
+    RAISE EXCEPTION 'User not found or not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM dashboard_stats_cache
+  WHERE organization_id = user_org_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dashboard_stats_cache_filtered() TO authenticated;
+
+CREATE OR REPLACE VIEW dashboard_cache_info AS
+SELECT
+  organization_id,
+  last_updated,
+  now() - last_updated as age,
+  CASE
+    WHEN now() - last_updated < INTERVAL '1 minute' THEN 'fresh'
+    WHEN now() - last_updated < INTERVAL '5 minutes' THEN 'acceptable'
+    WHEN now() - last_updated < INTERVAL '15 minutes' THEN 'stale'
+    ELSE 'very_stale'
+  END as freshness_status
+FROM dashboard_stats_cache;
+
+GRANT SELECT ON dashboard_cache_info TO authenticated;
+
+COMMENT ON VIEW dashboard_cache_info IS
+  'معلومات عن freshness الـ dashboard cache لكل organization';
+
+CREATE OR REPLACE FUNCTION get_dashboard_stats_enhanced(org_uuid uuid)
+RETURNS json
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = pg_catalog, public
+STABLE
+AS $$
+  WITH stats AS (
+    SELECT
+      -- Work Orders Stats
+      COUNT(DISTINCT wo.id) FILTER (WHERE wo.status IN ('received', 'diagnosing', 'awaiting_approval', 'awaiting_parts')) as pending_orders,
+      COUNT(DISTINCT wo.id) FILTER (WHERE wo.status IN ('in_progress', 'quality_check')) as in_progress_orders,
+      COUNT(DISTINCT wo.id) FILTER (WHERE wo.status IN ('ready_for_pickup', 'delivered') AND wo.created_at >= CURRENT_DATE - INTERVAL '30 days') as completed_orders_month,
+      COUNT(DISTINCT wo.id) FILTER (WHERE wo.created_at >= CURRENT_DATE - INTERVAL '7 days') as new_orders_week,
+
+      -- Invoices Stats
+      COUNT(DISTINCT inv.id) FILTER (WHERE inv.payment_status = 'pending') as pending_invoices,
+      COUNT(DISTINCT inv.id) FILTER (WHERE inv.payment_status = 'partial') as partial_invoices,
+      COALESCE(SUM(inv.total) FILTER (WHERE inv.payment_status = 'pending'), 0) as pending_amount,
+      COALESCE(SUM(inv.total) FILTER (WHERE inv.payment_status = 'paid' AND inv.created_at >= CURRENT_DATE - INTERVAL '30 days'), 0) as revenue_month,
+      COALESCE(SUM(inv.total) FILTER (WHERE inv.payment_status = 'paid' AND inv.created_at >= CURRENT_DATE - INTERVAL '7 days'), 0) as revenue_week,
+
+      -- Customers Stats
+      COUNT(DISTINCT c.id) as total_customers,
+      COUNT(DISTINCT c.id) FILTER (WHERE c.created_at >= CURRENT_DATE - INTERVAL '30 days') as new_customers_month,
+
+      -- Spare Parts Stats (low stock)
+      COUNT(DISTINCT sp.id) FILTER (WHERE sp.quantity <= sp.minimum_quantity AND sp.deleted_at IS NULL) as low_stock_items,
+      COUNT(DISTINCT sp.id) FILTER (WHERE sp.quantity = 0 AND sp.deleted_at IS NULL) as out_of_stock_items,
+
+      -- Expenses Stats
+      COALESCE(SUM(e.amount) FILTER (WHERE e.created_at >= CURRENT_DATE - INTERVAL '30 days'), 0) as expenses_month,
+      COALESCE(SUM(e.amount) FILTER (WHERE e.created_at >= CURRENT_DATE - INTERVAL '7 days'), 0) as expenses_week,
+
+      -- Technicians Stats
+      COUNT(DISTINCT t.id) FILTER (WHERE t.is_active = true) as active_technicians
+
+    FROM organizations org
+    LEFT JOIN work_orders wo ON wo.organization_id = org.id
+    LEFT JOIN invoices inv ON inv.organization_id = org.id
+    LEFT JOIN customers c ON c.organization_id = org.id
+    LEFT JOIN spare_parts sp ON sp.organization_id = org.id
+    LEFT JOIN expenses e ON e.organization_id = org.id
+    LEFT JOIN technicians t ON t.organization_id = org.id
+    WHERE org.id = org_uuid
+  )
+  SELECT json_build_object(
+    'work_orders', json_build_object(
+      'pending', pending_orders,
+      'in_progress', in_progress_orders,
+      'completed_month', completed_orders_month,
+      'new_week', new_orders_week
+    ),
+    'invoices', json_build_object(
+      'pending_count', pending_invoices,
+      'partial_count', partial_invoices,
+      'pending_amount', pending_amount,
+      'revenue_month', revenue_month,
+      'revenue_week', revenue_week
+    ),
+    'customers', json_build_object(
+      'total', total_customers,
+      'new_month', new_customers_month
+    ),
+    'inventory', json_build_object(
+      'low_stock', low_stock_items,
+      'out_of_stock', out_of_stock_items
+    ),
+    'expenses', json_build_object(
+      'month', expenses_month,
+      'week', expenses_week
+    ),
+    'technicians', json_build_object(
+      'active', active_technicians
+    ),
+    'profit', json_build_object(
+      'month', revenue_month - expenses_month,
+      'week', revenue_week - expenses_week
+    )
+  )
+  FROM stats;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dashboard_stats_enhanced(uuid) TO authenticated;
@@ -0,0 +1,336 @@
+/*
+  # Work Order Timeline
+
+  1. Purpose
+    - Updating a work order only bumps `updated_at`, so nobody can tell who
+      moved it along, added parts or reassigned technicians, or when
+
+  2. Changes
+    - New append-only table `work_order_events`: event type, details as
+      jsonb, the acting user and the time
+    - Triggers log, for every work order:
+      - creation and status changes (with the cancellation reason)
+      - services, spare parts and technician assignments added, changed
+        or removed
+      - deposits and invoice payments received. Payments made from a
+        deposit are not logged again
+    - Notes are added by users through the work-orders edge function
+
+  3. Security
+    - RLS enabled, SELECT requires `work_orders.view`
+    - INSERT of notes only, requires `work_orders.update`; everything else
+      is written by the SECURITY DEFINER triggers
+    - Events are never updated; they are only removed together with their
+      work order
+*/
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS work_order_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  work_order_id uuid NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'created', 'status_changed',
+    'service_added', 'service_updated', 'service_removed',
+    'part_added', 'part_updated', 'part_removed',
+    'technician_assigned', 'technician_unassigned',
+    'payment_received', 'note'
+  )),
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  actor_id uuid REFERENCES users(id) DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT work_order_events_note_check
+    CHECK (event_type <> 'note' OR COALESCE(btrim(data->>'note'), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_events_work_order ON work_order_events(work_order_id, created_at);
+
+COMMENT ON TABLE work_order_events IS 'Append-only history of a work order: status changes, lines, technicians, payments and notes.';
+
+CREATE OR REPLACE FUNCTION prevent_work_order_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Work order events cannot be modified' USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_work_order_event_update ON work_order_events;
+CREATE TRIGGER trigger_prevent_work_order_event_update
+  BEFORE UPDATE ON work_order_events
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_work_order_event_update();
+
+-- 2. Logging
+CREATE OR REPLACE FUNCTION log_work_order_event(
+  p_work_order_id uuid,
+  p_event_type text,
+  p_data jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Lines removed by a cascading delete of the order itself are not logged
+  INSERT INTO work_order_events (organization_id, work_order_id, event_type, data)
+  SELECT wo.organization_id, wo.id, p_event_type, jsonb_strip_nulls(COALESCE(p_data, '{}'::jsonb))
+  FROM work_orders wo
+  WHERE wo.id = p_work_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION log_work_order_event(uuid, text, jsonb) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION log_work_order_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM log_work_order_event(NEW.id, 'created', jsonb_build_object('status', NEW.status));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM log_work_order_event(NEW.id, 'status_changed', jsonb_build_object(
+      'from', OLD.status,
+      'to', NEW.status,
+      'reason', CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_work_order_service_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_row work_order_services%ROWTYPE;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.service_type IS NOT DISTINCT FROM OLD.service_type
+    AND NEW.description IS NOT DISTINCT FROM OLD.description
+    AND NEW.labor_cost IS NOT DISTINCT FROM OLD.labor_cost THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM log_work_order_event(
+    v_row.work_order_id,
+    CASE TG_OP WHEN 'INSERT' THEN 'service_added' WHEN 'UPDATE' THEN 'service_updated' ELSE 'service_removed' END,
+    jsonb_build_object(
+      'service_type', v_row.service_type,
+      'description', v_row.description,
+      'labor_cost', v_row.labor_cost,
+      'previous_labor_cost', CASE WHEN TG_OP = 'UPDATE' AND NEW.labor_cost IS DISTINCT FROM OLD.labor_cost THEN OLD.labor_cost END
+    )
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_work_order_part_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_row work_order_spare_parts%ROWTYPE;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.quantity IS NOT DISTINCT FROM OLD.quantity
+    AND NEW.unit_price IS NOT DISTINCT FROM OLD.unit_price THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM log_work_order_event(
+    v_row.work_order_id,
+    CASE TG_OP WHEN 'INSERT' THEN 'part_added' WHEN 'UPDATE' THEN 'part_updated' ELSE 'part_removed' END,
+    jsonb_build_object(
+      'spare_part_id', v_row.spare_part_id,
+      'name', (SELECT sp.name FROM spare_parts sp WHERE sp.id = v_row.spare_part_id),
+      'quantity', v_row.quantity,
+      'unit_price', v_row.unit_price,
+      'previous_quantity', CASE WHEN TG_OP = 'UPDATE' AND NEW.quantity IS DISTINCT FROM OLD.quantity THEN OLD.quantity END
+    )
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_technician_assignment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_row technician_assignments%ROWTYPE;
+  v_service work_order_services%ROWTYPE;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  -- Gone when the whole service was removed, which is logged on its own
+  SELECT * INTO v_service FROM work_order_services WHERE id = v_row.service_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.technician_id IS NOT DISTINCT FROM OLD.technician_id THEN
+      RETURN NULL;
+    END IF;
+    -- A reassignment is the old technician leaving and the new one joining
+    PERFORM log_work_order_event(v_service.work_order_id, 'technician_unassigned', jsonb_build_object(
+      'technician_id', OLD.technician_id,
+      'technician_name', (SELECT t.name FROM technicians t WHERE t.id = OLD.technician_id),
+      'service_type', v_service.service_type
+    ));
+  END IF;
+
+  PERFORM log_work_order_event(
+    v_service.work_order_id,
+    CASE WHEN TG_OP = 'DELETE' THEN 'technician_unassigned' ELSE 'technician_assigned' END,
+    jsonb_build_object(
+      'technician_id', v_row.technician_id,
+      'technician_name', (SELECT t.name FROM technicians t WHERE t.id = v_row.technician_id),
+      'service_type', v_service.service_type,
+      'share_amount', CASE WHEN TG_OP <> 'DELETE' THEN v_row.share_amount END
+    )
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_work_order_deposit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM log_work_order_event(NEW.work_order_id, 'payment_received', jsonb_build_object(
+    'source', 'deposit',
+    'receipt_number', NEW.receipt_number,
+    'amount', NEW.amount,
+    'payment_method', NEW.payment_method,
+    'card_type', NEW.card_type
+  ));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_work_order_invoice_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_work_order_id uuid;
+  v_invoice_number text;
+BEGIN
+  -- The money of an applied deposit was logged when it was received
+  IF NEW.deposit_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT invoice_number INTO v_invoice_number FROM invoices WHERE id = NEW.invoice_id;
+
+  -- A consolidated invoice pays for all of its work orders
+  FOR v_work_order_id IN
+    SELECT iwo.work_order_id FROM invoice_work_orders iwo WHERE iwo.invoice_id = NEW.invoice_id
+  LOOP
+    PERFORM log_work_order_event(v_work_order_id, 'payment_received', jsonb_build_object(
+      'source', 'invoice',
+      'invoice_number', v_invoice_number,
+      'receipt_number', NEW.receipt_number,
+      'amount', NEW.amount,
+      'payment_method', NEW.payment_method,
+      'card_type', NEW.card_type
+    ));
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_work_order_change ON work_orders;
+CREATE TRIGGER trigger_log_work_order_change
+  AFTER INSERT OR UPDATE OF status ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION log_work_order_change();
+
+DROP TRIGGER IF EXISTS trigger_log_work_order_service_change ON work_order_services;
+CREATE TRIGGER trigger_log_work_order_service_change
+  AFTER INSERT OR UPDATE OR DELETE ON work_order_services
+  FOR EACH ROW
+  EXECUTE FUNCTION log_work_order_service_change();
+
+DROP TRIGGER IF EXISTS trigger_log_work_order_part_change ON work_order_spare_parts;
+CREATE TRIGGER trigger_log_work_order_part_change
+  AFTER INSERT OR UPDATE OR DELETE ON work_order_spare_parts
+  FOR EACH ROW
+  EXECUTE FUNCTION log_work_order_part_change();
+
+DROP TRIGGER IF EXISTS trigger_log_technician_assignment_change ON technician_assignments;
+CREATE TRIGGER trigger_log_technician_assignment_change
+  AFTER INSERT OR UPDATE OR DELETE ON technician_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION log_technician_assignment_change();
+
+DROP TRIGGER IF EXISTS trigger_log_work_order_deposit ON work_order_deposits;
+CREATE TRIGGER trigger_log_work_order_deposit
+  AFTER INSERT ON work_order_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION log_work_order_deposit();
+
+DROP TRIGGER IF EXISTS trigger_log_work_order_invoice_payment ON invoice_payments;
+CREATE TRIGGER trigger_log_work_order_invoice_payment
+  AFTER INSERT ON invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION log_work_order_invoice_payment();
+
+-- 3. Row level security
+ALTER TABLE work_order_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view work order events with permission" ON work_order_events;
+CREATE POLICY "Users can view work order events with permission"
+  ON work_order_events FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'work_orders.view')
+  );
+
+DROP POLICY IF EXISTS "Users can add work order notes with permission" ON work_order_events;
+CREATE POLICY "Users can add work order notes with permission"
+  ON work_order_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    event_type = 'note'
+    AND actor_id = auth.uid()
+    AND organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM work_orders wo
+      WHERE wo.id = work_order_events.work_order_id
+      AND wo.organization_id = work_order_events.organization_id
+    )
+    AND user_has_permission(auth.uid(), 'work_orders.update')
+  );
@@ -0,0 +1,127 @@
+/*
+  # Vehicle Check-In
+
+  1. Purpose
+    - Nothing recorded the condition of a car at drop-off, which leads to
+      disputes about scratches, fuel and items left in the car
+
+  2. Changes
+    - New table `work_order_check_ins`, one per work order: odometer, fuel
+      level (percent), customer complaints, valuables left in the car, damage
+      marked on the car outline and the paths of the photos taken
+    - `damage_marks` is a jsonb array of `{ x, y, type, note }`; x and y are
+      percentages of the diagram, type is scratch, dent, crack or broken
+    - New private storage bucket `work-order-photos`. Files are stored under
+      `<organization_id>/<work_order_id>/`
+
+  3. Security
+    - RLS enabled on `work_order_check_ins`: SELECT requires
+      `work_orders.view`, INSERT / UPDATE require `work_orders.create` or
+      `work_orders.update`
+    - Storage policies scope the bucket to the folder of the user's
+      organization with the same permissions; deleting a photo requires
+      `work_orders.update`
+*/
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS work_order_check_ins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  work_order_id uuid NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  odometer integer CHECK (odometer >= 0),
+  fuel_level smallint CHECK (fuel_level BETWEEN 0 AND 100),
+  complaints text,
+  valuables text,
+  damage_marks jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(damage_marks) = 'array'),
+  photos text[] NOT NULL DEFAULT '{}',
+  checked_in_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  checked_in_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT work_order_check_ins_work_order_key UNIQUE (work_order_id)
+);
+
+COMMENT ON TABLE work_order_check_ins IS 'Condition of the car when it was dropped off, signed by the customer on the printed sheet.';
+COMMENT ON COLUMN work_order_check_ins.damage_marks IS 'Array of { x, y, type, note } marked on the car outline; x and y are percentages.';
+COMMENT ON COLUMN work_order_check_ins.photos IS 'Object paths in the work-order-photos storage bucket.';
+
+-- 2. Row level security
+ALTER TABLE work_order_check_ins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view check-ins with permission" ON work_order_check_ins;
+CREATE POLICY "Users can view check-ins with permission"
+  ON work_order_check_ins FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'work_orders.view')
+  );
+
+DROP POLICY IF EXISTS "Users can record check-ins with permission" ON work_order_check_ins;
+CREATE POLICY "Users can record check-ins with permission"
+  ON work_order_check_ins FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM work_orders wo
+      WHERE wo.id = work_order_check_ins.work_order_id
+      AND wo.organization_id = work_order_check_ins.organization_id
+    )
+    AND (
+      user_has_permission(auth.uid(), 'work_orders.create')
+      OR user_has_permission(auth.uid(), 'work_orders.update')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update check-ins with permission" ON work_order_check_ins;
+CREATE POLICY "Users can update check-ins with permission"
+  ON work_order_check_ins FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'work_orders.create')
+      OR user_has_permission(auth.uid(), 'work_orders.update')
+    )
+  )
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  );
+
+-- 3. Photo storage
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('work-order-photos', 'work-order-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can view work order photos with permission" ON storage.objects;
+CREATE POLICY "Users can view work order photos with permission"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'work-order-photos'
+    AND (storage.foldername(name))[1] = (SELECT organization_id::text FROM public.users WHERE id = auth.uid())
+    AND public.user_has_permission(auth.uid(), 'work_orders.view')
+  );
+
+DROP POLICY IF EXISTS "Users can upload work order photos with permission" ON storage.objects;
+CREATE POLICY "Users can upload work order photos with permission"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'work-order-photos'
+    AND (storage.foldername(name))[1] = (SELECT organization_id::text FROM public.users WHERE id = auth.uid())
+    AND (
+      public.user_has_permission(auth.uid(), 'work_orders.create')
+      OR public.user_has_permission(auth.uid(), 'work_orders.update')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete work order photos with permission" ON storage.objects;
+CREATE POLICY "Users can delete work order photos with permission"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'work-order-photos'
+    AND (storage.foldername(name))[1] = (SELECT organization_id::text FROM public.users WHERE id = auth.uid())
+    AND public.user_has_permission(auth.uid(), 'work_orders.update')
+  );
@@ -0,0 +1,435 @@
+/*
+  # Vehicle Inspections
+
+  1. Purpose
+    - Technicians wrote their findings on paper, so nothing reached the
+      customer or the work order in a usable form
+    - A workshop defines its own multi-point checklists; a technician fills
+      one in against a work order and rates every point red, amber or green
+
+  2. Changes
+    - New tables `inspection_templates` and `inspection_template_items`. Items
+      are grouped by a free-text category (brakes, suspension, fluids, tires,
+      ...) and may carry an estimated labor cost
+    - New tables `work_order_inspections` and `work_order_inspection_items`.
+      Starting an inspection copies the template items, so editing a template
+      later does not change past inspections
+    - Each inspection item has a rating (red / amber / green), a note and
+      photos (paths in the `work-order-photos` bucket, under the folder of the
+      work order)
+    - `save_inspection_template()` creates or updates a template and replaces
+      its items
+    - `start_inspection()`, `save_inspection()` (optionally completing it) and
+      `propose_inspection_services()`, which turns red and amber items into
+      `work_order_services` lines priced at the item's estimated cost. Each
+      item is proposed at most once
+
+  3. Security
+    - RLS enabled on all four tables; SELECT requires `work_orders.view`
+    - Templates are written through `save_inspection_template()` which
+      requires `settings.update`; inspections through the functions above,
+      which require `work_orders.update`
+    - Deleting an inspection requires `work_orders.update`
+*/
+
+-- 1. Templates
+CREATE TABLE IF NOT EXISTS inspection_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  name text NOT NULL CHECK (trim(name) <> ''),
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inspection_templates_org ON inspection_templates(organization_id, name);
+
+CREATE TABLE IF NOT EXISTS inspection_template_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL REFERENCES inspection_templates(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  label text NOT NULL,
+  estimated_cost numeric(10,2) NOT NULL DEFAULT 0 CHECK (estimated_cost >= 0),
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_inspection_template_items_template ON inspection_template_items(template_id, sort_order);
+
+-- 2. Inspections of a work order
+CREATE TABLE IF NOT EXISTS work_order_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  work_order_id uuid NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  template_id uuid REFERENCES inspection_templates(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  notes text,
+  inspected_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_inspections_work_order ON work_order_inspections(work_order_id, created_at);
+
+CREATE TABLE IF NOT EXISTS work_order_inspection_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  inspection_id uuid NOT NULL REFERENCES work_order_inspections(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  label text NOT NULL,
+  estimated_cost numeric(10,2) NOT NULL DEFAULT 0,
+  sort_order integer NOT NULL DEFAULT 0,
+  rating text CHECK (rating IN ('red', 'amber', 'green')),
+  note text,
+  photos text[] NOT NULL DEFAULT '{}',
+  service_id uuid REFERENCES work_order_services(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_inspection_items_inspection ON work_order_inspection_items(inspection_id, sort_order);
+
+COMMENT ON COLUMN work_order_inspection_items.photos IS 'Object paths in the work-order-photos storage bucket.';
+COMMENT ON COLUMN work_order_inspection_items.service_id IS 'Work order service proposed from this item, if any.';
+
+-- 3. Row level security
+ALTER TABLE inspection_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inspection_template_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_order_inspections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_order_inspection_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view inspection templates with permission" ON inspection_templates;
+CREATE POLICY "Users can view inspection templates with permission"
+  ON inspection_templates FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'work_orders.view')
+  );
+
+DROP POLICY IF EXISTS "Users can delete inspection templates with permission" ON inspection_templates;
+CREATE POLICY "Users can delete inspection templates with permission"
+  ON inspection_templates FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.update')
+  );
+
+DROP POLICY IF EXISTS "Users can view inspection template items with permission" ON inspection_template_items;
+CREATE POLICY "Users can view inspection template items with permission"
+  ON inspection_template_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM inspection_templates it
+      WHERE it.id = inspection_template_items.template_id
+      AND it.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    )
+    AND user_has_permission(auth.uid(), 'work_orders.view')
+  );
+
+DROP POLICY IF EXISTS "Users can view inspections with permission" ON work_order_inspections;
+CREATE POLICY "Users can view inspections with permission"
+  ON work_order_inspections FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'work_orders.view')
+  );
+
+DROP POLICY IF EXISTS "Users can delete inspections with permission" ON work_order_inspections;
+CREATE POLICY "Users can delete inspections with permission"
+  ON work_order_inspections FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'work_orders.update')
+  );
+
+DROP POLICY IF EXISTS "Users can view inspection items with permission" ON work_order_inspection_items;
+CREATE POLICY "Users can view inspection items with permission"
+  ON work_order_inspection_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_order_inspections woi
+      WHERE woi.id = work_order_inspection_items.inspection_id
+      AND woi.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    )
+    AND user_has_permission(auth.uid(), 'work_orders.view')
+  );
+
+-- 4. Templates
+CREATE OR REPLACE FUNCTION save_inspection_template(
+  p_template_id uuid,
+  p_template jsonb,
+  p_items jsonb DEFAULT NULL
+)
+RETURNS inspection_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_template inspection_templates%ROWTYPE;
+  v_line jsonb;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_template := COALESCE(p_template, '{}'::jsonb);
+
+  IF p_template_id IS NULL AND COALESCE(trim(p_template->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'name is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_template_id IS NULL AND jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A template requires at least one item' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    IF COALESCE(trim(v_line->>'category'), '') = '' OR COALESCE(trim(v_line->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Each item requires a category and a label' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    IF COALESCE((v_line->>'estimated_cost')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Invalid estimated cost on "%"', v_line->>'label' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END LOOP;
+
+  IF p_template_id IS NULL THEN
+    INSERT INTO inspection_templates (organization_id, name, description, is_active)
+    VALUES (
+      v_org_id,
+      trim(p_template->>'name'),
+      NULLIF(trim(p_template->>'description'), ''),
+      COALESCE((p_template->>'is_active')::boolean, true)
+    )
+    RETURNING * INTO v_template;
+  ELSE
+    UPDATE inspection_templates SET
+      name = COALESCE(NULLIF(trim(p_template->>'name'), ''), name),
+      description = CASE WHEN p_template ? 'description' THEN NULLIF(trim(p_template->>'description'), '') ELSE description END,
+      is_active = COALESCE((p_template->>'is_active')::boolean, is_active),
+      updated_at = now()
+    WHERE id = p_template_id
+    AND organization_id = v_org_id
+    RETURNING * INTO v_template;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inspection template not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_items IS NOT NULL AND jsonb_array_length(p_items) = 0 THEN
+      RAISE EXCEPTION 'A template requires at least one item' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END IF;
+
+  -- Inspections keep their own copy of the items, so replacing them is safe
+  IF p_items IS NOT NULL THEN
+    DELETE FROM inspection_template_items WHERE template_id = v_template.id;
+
+    INSERT INTO inspection_template_items (template_id, category, label, estimated_cost, sort_order)
+    SELECT
+      v_template.id,
+      trim(line->>'category'),
+      trim(line->>'label'),
+      round(COALESCE((line->>'estimated_cost')::numeric, 0), 2),
+      lines.ord
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS lines(line, ord);
+  END IF;
+
+  RETURN v_template;
+END;
+$$;
+
+-- 5. Inspections
+-- Locks an inspection of the caller's organization that is still being filled in
+CREATE OR REPLACE FUNCTION lock_inspection(p_inspection_id uuid)
+RETURNS work_order_inspections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_inspection work_order_inspections%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'work_orders.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_inspection
+  FROM work_order_inspections
+  WHERE id = p_inspection_id
+  AND organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inspection not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_inspection;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_inspection(p_work_order_id uuid, p_template_id uuid)
+RETURNS work_order_inspections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_status text;
+  v_template inspection_templates%ROWTYPE;
+  v_inspection work_order_inspections%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'work_orders.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+
+  SELECT status INTO v_status
+  FROM work_orders
+  WHERE id = p_work_order_id
+  AND organization_id = v_org_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_status IN ('delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'Work order is % and cannot be inspected', v_status USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_template
+  FROM inspection_templates
+  WHERE id = p_template_id
+  AND organization_id = v_org_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inspection template not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO work_order_inspections (organization_id, work_order_id, template_id, name)
+  VALUES (v_org_id, p_work_order_id, v_template.id, v_template.name)
+  RETURNING * INTO v_inspection;
+
+  INSERT INTO work_order_inspection_items (inspection_id, category, label, estimated_cost, sort_order)
+  SELECT v_inspection.id, category, label, estimated_cost, sort_order
+  FROM inspection_template_items
+  WHERE template_id = v_template.id;
+
+  RETURN v_inspection;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_inspection(
+  p_inspection_id uuid,
+  p_items jsonb,
+  p_notes text DEFAULT NULL,
+  p_complete boolean DEFAULT false
+)
+RETURNS work_order_inspections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_inspection work_order_inspections%ROWTYPE;
+  v_line jsonb;
+BEGIN
+  v_inspection := lock_inspection(p_inspection_id);
+
+  IF v_inspection.status = 'completed' THEN
+    RAISE EXCEPTION 'Inspection is completed and can no longer be modified' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    IF NULLIF(v_line->>'rating', '') IS NOT NULL AND v_line->>'rating' NOT IN ('red', 'amber', 'green') THEN
+      RAISE EXCEPTION 'rating must be red, amber or green' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE work_order_inspection_items SET
+      rating = NULLIF(v_line->>'rating', ''),
+      note = NULLIF(trim(v_line->>'note'), ''),
+      photos = COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_line->'photos')), '{}')
+    WHERE id = (v_line->>'id')::uuid
+    AND inspection_id = p_inspection_id;
+  END LOOP;
+
+  IF p_complete AND EXISTS (
+    SELECT 1 FROM work_order_inspection_items
+    WHERE inspection_id = p_inspection_id
+    AND rating IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Every item must be rated before the inspection is completed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE work_order_inspections SET
+    notes = CASE WHEN p_notes IS NULL THEN notes ELSE NULLIF(trim(p_notes), '') END,
+    status = CASE WHEN p_complete THEN 'completed' ELSE status END,
+    completed_at = CASE WHEN p_complete THEN now() ELSE completed_at END,
+    inspected_by = auth.uid(),
+    updated_at = now()
+  WHERE id = p_inspection_id
+  RETURNING * INTO v_inspection;
+
+  RETURN v_inspection;
+END;
+$$;
+
+-- Red and amber items become services of the work order, each at most once
+CREATE OR REPLACE FUNCTION propose_inspection_services(p_inspection_id uuid, p_item_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_inspection work_order_inspections%ROWTYPE;
+  v_status text;
+  v_item record;
+  v_service_id uuid;
+  v_count integer := 0;
+BEGIN
+  v_inspection := lock_inspection(p_inspection_id);
+
+  SELECT status INTO v_status FROM work_orders WHERE id = v_inspection.work_order_id FOR UPDATE;
+
+  IF v_status IN ('ready_for_pickup', 'delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'Work order is % and no services can be added', v_status USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_item IN
+    SELECT *
+    FROM work_order_inspection_items
+    WHERE inspection_id = p_inspection_id
+    AND rating IN ('red', 'amber')
+    AND service_id IS NULL
+    AND (p_item_ids IS NULL OR id = ANY(p_item_ids))
+    ORDER BY sort_order
+  LOOP
+    INSERT INTO work_order_services (work_order_id, service_type, description, labor_cost)
+    VALUES (
+      v_inspection.work_order_id,
+      v_item.category,
+      v_item.label || COALESCE(' - ' || v_item.note, ''),
+      v_item.estimated_cost
+    )
+    RETURNING id INTO v_service_id;
+
+    UPDATE work_order_inspection_items SET service_id = v_service_id WHERE id = v_item.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
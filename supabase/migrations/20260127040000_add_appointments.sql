@@ -0,0 +1,537 @@
+/*
+  # Appointments and Bays
+
+  1. Purpose
+    - Book cars in ahead of time without double-booking a bay or a technician
+    - An appointment reserves a bay and a technician for a customer's car and
+      becomes a work order when the car arrives
+
+  2. Changes
+    - New table `workshop_bays`: the bays and lifts of an organization, each
+      holding `capacity` cars at the same time
+    - New table `appointments`: customer, vehicle, start and estimated
+      duration (`ends_at` is kept in sync by a trigger), bay, technician and
+      the requested services as a jsonb array of
+      `{ service_type, description, labor_cost }`
+    - Statuses: scheduled, confirmed, arrived (converted into a work order),
+      cancelled and no_show. Only scheduled and confirmed appointments occupy
+      a bay or a technician
+    - `appointment_conflicts()` lists what a time slot clashes with: the bay
+      already holding `capacity` cars at some point of the slot, or the
+      technician booked on an overlapping appointment
+    - `save_appointment()` creates or updates an appointment and refuses
+      conflicting slots; `set_appointment_status()` confirms, cancels or
+      marks a no-show; `convert_appointment_to_work_order()` opens the work
+      order with the requested services assigned to the technician
+    - Permissions `appointments.view`, `create`, `update`, `delete`
+
+  3. Security
+    - RLS enabled on both tables. Bays are visible with `appointments.view`
+      or `work_orders.view` and managed with `settings.update`
+    - Appointment SELECT requires `appointments.view`; writes go through the
+      functions above, which check permissions. Deleting requires
+      `appointments.delete` and is limited to appointments that were not
+      converted
+*/
+
+-- 1. Bays
+CREATE TABLE IF NOT EXISTS workshop_bays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  name text NOT NULL CHECK (trim(name) <> ''),
+  kind text NOT NULL DEFAULT 'bay' CHECK (kind IN ('bay', 'lift')),
+  capacity integer NOT NULL DEFAULT 1 CHECK (capacity BETWEEN 1 AND 20),
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT workshop_bays_org_name_key UNIQUE (organization_id, name)
+);
+
+ALTER TABLE workshop_bays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view bays with permission" ON workshop_bays;
+CREATE POLICY "Users can view bays with permission"
+  ON workshop_bays FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'appointments.view')
+      OR user_has_permission(auth.uid(), 'work_orders.view')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can add bays with permission" ON workshop_bays;
+CREATE POLICY "Users can add bays with permission"
+  ON workshop_bays FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.update')
+  );
+
+DROP POLICY IF EXISTS "Users can update bays with permission" ON workshop_bays;
+CREATE POLICY "Users can update bays with permission"
+  ON workshop_bays FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.update')
+  )
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can delete bays with permission" ON workshop_bays;
+CREATE POLICY "Users can delete bays with permission"
+  ON workshop_bays FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.update')
+  );
+
+-- 2. Appointments
+CREATE TABLE IF NOT EXISTS appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  vehicle_id uuid REFERENCES vehicles(id) ON DELETE SET NULL,
+  starts_at timestamptz NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 60 CHECK (duration_minutes BETWEEN 5 AND 1440),
+  ends_at timestamptz NOT NULL,
+  bay_id uuid REFERENCES workshop_bays(id) ON DELETE SET NULL,
+  technician_id uuid REFERENCES technicians(id) ON DELETE SET NULL,
+  requested_services jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(requested_services) = 'array'),
+  notes text,
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'confirmed', 'arrived', 'cancelled', 'no_show')),
+  work_order_id uuid REFERENCES work_orders(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_org_starts ON appointments(organization_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_bay_starts ON appointments(bay_id, starts_at) WHERE bay_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_appointments_technician_starts ON appointments(technician_id, starts_at) WHERE technician_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_appointments_customer ON appointments(customer_id);
+
+CREATE OR REPLACE FUNCTION set_appointment_ends_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.ends_at := NEW.starts_at + make_interval(mins => NEW.duration_minutes);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_appointment_ends_at ON appointments;
+CREATE TRIGGER trigger_set_appointment_ends_at
+  BEFORE INSERT OR UPDATE OF starts_at, duration_minutes ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_appointment_ends_at();
+
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view appointments with permission" ON appointments;
+CREATE POLICY "Users can view appointments with permission"
+  ON appointments FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'appointments.view')
+  );
+
+DROP POLICY IF EXISTS "Users can delete appointments with permission" ON appointments;
+CREATE POLICY "Users can delete appointments with permission"
+  ON appointments FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND status <> 'arrived'
+    AND user_has_permission(auth.uid(), 'appointments.delete')
+  );
+
+-- 3. Conflict detection
+CREATE OR REPLACE FUNCTION appointment_conflicts(
+  p_starts_at timestamptz,
+  p_duration_minutes integer,
+  p_bay_id uuid DEFAULT NULL,
+  p_technician_id uuid DEFAULT NULL,
+  p_exclude_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_ends_at timestamptz := p_starts_at + make_interval(mins => p_duration_minutes);
+  v_capacity integer;
+  v_peak integer;
+  v_conflicts jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'appointments.view') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+
+  IF p_bay_id IS NOT NULL THEN
+    SELECT capacity INTO v_capacity
+    FROM workshop_bays
+    WHERE id = p_bay_id
+    AND organization_id = v_org_id;
+
+    -- Most cars on the bay at once during the slot: the count can only rise
+    -- at the start of the slot or when another appointment starts inside it
+    WITH overlapping AS (
+      SELECT starts_at, ends_at
+      FROM appointments
+      WHERE organization_id = v_org_id
+      AND bay_id = p_bay_id
+      AND status IN ('scheduled', 'confirmed')
+      AND id IS DISTINCT FROM p_exclude_id
+      AND starts_at < v_ends_at
+      AND ends_at > p_starts_at
+    )
+    SELECT COALESCE(MAX((
+      SELECT COUNT(*) FROM overlapping o WHERE o.starts_at <= points.point_at AND o.ends_at > points.point_at
+    )), 0)
+    INTO v_peak
+    FROM (
+      SELECT p_starts_at AS point_at
+      UNION
+      SELECT starts_at FROM overlapping WHERE starts_at > p_starts_at
+    ) points;
+
+    IF v_peak >= COALESCE(v_capacity, 1) THEN
+      SELECT v_conflicts || COALESCE(jsonb_agg(jsonb_build_object(
+        'type', 'bay',
+        'appointment_id', a.id,
+        'starts_at', a.starts_at,
+        'ends_at', a.ends_at,
+        'customer_name', c.name
+      ) ORDER BY a.starts_at), '[]'::jsonb)
+      INTO v_conflicts
+      FROM appointments a
+      JOIN customers c ON c.id = a.customer_id
+      WHERE a.organization_id = v_org_id
+      AND a.bay_id = p_bay_id
+      AND a.status IN ('scheduled', 'confirmed')
+      AND a.id IS DISTINCT FROM p_exclude_id
+      AND a.starts_at < v_ends_at
+      AND a.ends_at > p_starts_at;
+    END IF;
+  END IF;
+
+  IF p_technician_id IS NOT NULL THEN
+    SELECT v_conflicts || COALESCE(jsonb_agg(jsonb_build_object(
+      'type', 'technician',
+      'appointment_id', a.id,
+      'starts_at', a.starts_at,
+      'ends_at', a.ends_at,
+      'customer_name', c.name
+    ) ORDER BY a.starts_at), '[]'::jsonb)
+    INTO v_conflicts
+    FROM appointments a
+    JOIN customers c ON c.id = a.customer_id
+    WHERE a.organization_id = v_org_id
+    AND a.technician_id = p_technician_id
+    AND a.status IN ('scheduled', 'confirmed')
+    AND a.id IS DISTINCT FROM p_exclude_id
+    AND a.starts_at < v_ends_at
+    AND a.ends_at > p_starts_at;
+  END IF;
+
+  RETURN v_conflicts;
+END;
+$$;
+
+-- 4. Create / update
+CREATE OR REPLACE FUNCTION save_appointment(p_appointment_id uuid, p_appointment jsonb)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_appointment appointments%ROWTYPE;
+  v_customer_id uuid;
+  v_vehicle_id uuid;
+  v_bay_id uuid;
+  v_technician_id uuid;
+  v_starts_at timestamptz;
+  v_duration integer;
+  v_services jsonb;
+  v_line jsonb;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), CASE WHEN p_appointment_id IS NULL THEN 'appointments.create' ELSE 'appointments.update' END) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_appointment := COALESCE(p_appointment, '{}'::jsonb);
+
+  IF p_appointment_id IS NOT NULL THEN
+    SELECT * INTO v_appointment
+    FROM appointments
+    WHERE id = p_appointment_id
+    AND organization_id = v_org_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Appointment not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_appointment.status NOT IN ('scheduled', 'confirmed') THEN
+      RAISE EXCEPTION 'Appointment is % and can no longer be modified', v_appointment.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  v_customer_id := COALESCE(NULLIF(p_appointment->>'customer_id', '')::uuid, v_appointment.customer_id);
+  v_vehicle_id := CASE WHEN p_appointment ? 'vehicle_id' THEN NULLIF(p_appointment->>'vehicle_id', '')::uuid ELSE v_appointment.vehicle_id END;
+  v_bay_id := CASE WHEN p_appointment ? 'bay_id' THEN NULLIF(p_appointment->>'bay_id', '')::uuid ELSE v_appointment.bay_id END;
+  v_technician_id := CASE WHEN p_appointment ? 'technician_id' THEN NULLIF(p_appointment->>'technician_id', '')::uuid ELSE v_appointment.technician_id END;
+  v_starts_at := COALESCE((p_appointment->>'starts_at')::timestamptz, v_appointment.starts_at);
+  v_duration := COALESCE((p_appointment->>'duration_minutes')::integer, v_appointment.duration_minutes, 60);
+  v_services := COALESCE(p_appointment->'requested_services', v_appointment.requested_services, '[]'::jsonb);
+
+  IF v_customer_id IS NULL OR v_starts_at IS NULL THEN
+    RAISE EXCEPTION 'customer_id and starts_at are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM customers WHERE id = v_customer_id AND organization_id = v_org_id) THEN
+    RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_vehicle_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM vehicles WHERE id = v_vehicle_id AND customer_id = v_customer_id
+  ) THEN
+    RAISE EXCEPTION 'Vehicle does not belong to the customer' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- The bay and the technician stay locked until commit, so concurrent
+  -- bookings of either run their conflict check one after the other
+  IF v_bay_id IS NOT NULL THEN
+    PERFORM 1 FROM workshop_bays
+    WHERE id = v_bay_id AND organization_id = v_org_id AND is_active
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Bay not found or not in use' USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  IF v_technician_id IS NOT NULL THEN
+    PERFORM 1 FROM technicians
+    WHERE id = v_technician_id
+    AND organization_id = v_org_id
+    AND is_active
+    AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Technician not found or not available' USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(v_services) <> 'array' THEN
+    RAISE EXCEPTION 'requested_services must be an array' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_services)
+  LOOP
+    IF COALESCE(trim(v_line->>'service_type'), '') = '' OR COALESCE(trim(v_line->>'description'), '') = '' THEN
+      RAISE EXCEPTION 'Each requested service requires a type and a description' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    IF COALESCE((v_line->>'labor_cost')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Invalid labor cost on "%"', v_line->>'description' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(appointment_conflicts(v_starts_at, v_duration, v_bay_id, v_technician_id, p_appointment_id)) > 0 THEN
+    RAISE EXCEPTION 'The bay or the technician is already booked at this time' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_appointment_id IS NULL THEN
+    INSERT INTO appointments (
+      organization_id, customer_id, vehicle_id, starts_at, duration_minutes, bay_id, technician_id,
+      requested_services, notes, status
+    ) VALUES (
+      v_org_id, v_customer_id, v_vehicle_id, v_starts_at, v_duration, v_bay_id, v_technician_id,
+      v_services,
+      NULLIF(trim(p_appointment->>'notes'), ''),
+      CASE WHEN p_appointment->>'status' = 'confirmed' THEN 'confirmed' ELSE 'scheduled' END
+    )
+    RETURNING * INTO v_appointment;
+  ELSE
+    UPDATE appointments SET
+      customer_id = v_customer_id,
+      vehicle_id = v_vehicle_id,
+      starts_at = v_starts_at,
+      duration_minutes = v_duration,
+      bay_id = v_bay_id,
+      technician_id = v_technician_id,
+      requested_services = v_services,
+      notes = CASE WHEN p_appointment ? 'notes' THEN NULLIF(trim(p_appointment->>'notes'), '') ELSE notes END,
+      updated_at = now()
+    WHERE id = p_appointment_id
+    RETURNING * INTO v_appointment;
+  END IF;
+
+  RETURN v_appointment;
+END;
+$$;
+
+-- 5. Status changes
+CREATE OR REPLACE FUNCTION set_appointment_status(p_appointment_id uuid, p_status text)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_appointment appointments%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'appointments.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_appointment
+  FROM appointments
+  WHERE id = p_appointment_id
+  AND organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_status NOT IN ('confirmed', 'cancelled', 'no_show')
+    OR v_appointment.status NOT IN ('scheduled', 'confirmed')
+    OR (p_status = 'confirmed' AND v_appointment.status <> 'scheduled')
+  THEN
+    RAISE EXCEPTION 'Appointment cannot change from % to %', v_appointment.status, p_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE appointments SET status = p_status, updated_at = now()
+  WHERE id = p_appointment_id
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+-- 6. Arrival
+CREATE OR REPLACE FUNCTION convert_appointment_to_work_order(p_appointment_id uuid)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_appointment appointments%ROWTYPE;
+  v_work_order_id uuid;
+  v_line jsonb;
+  v_service_id uuid;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'appointments.update')
+    OR NOT user_has_permission(auth.uid(), 'work_orders.create')
+  THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_appointment
+  FROM appointments
+  WHERE id = p_appointment_id
+  AND organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_appointment.status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'Appointment is % and cannot be converted', v_appointment.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_appointment.vehicle_id IS NULL THEN
+    RAISE EXCEPTION 'Select the vehicle of the appointment before opening a work order'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO work_orders (organization_id, customer_id, vehicle_id, status, description)
+  VALUES (
+    v_appointment.organization_id,
+    v_appointment.customer_id,
+    v_appointment.vehicle_id,
+    'received',
+    v_appointment.notes
+  )
+  RETURNING id INTO v_work_order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_appointment.requested_services)
+  LOOP
+    INSERT INTO work_order_services (work_order_id, service_type, description, labor_cost)
+    VALUES (
+      v_work_order_id,
+      trim(v_line->>'service_type'),
+      trim(v_line->>'description'),
+      round(COALESCE((v_line->>'labor_cost')::numeric, 0), 2)
+    )
+    RETURNING id INTO v_service_id;
+
+    -- The booked technician takes the whole labor of each service
+    IF v_appointment.technician_id IS NOT NULL THEN
+      INSERT INTO technician_assignments (service_id, technician_id, share_amount)
+      VALUES (v_service_id, v_appointment.technician_id, round(COALESCE((v_line->>'labor_cost')::numeric, 0), 2));
+    END IF;
+  END LOOP;
+
+  UPDATE appointments SET
+    status = 'arrived',
+    work_order_id = v_work_order_id,
+    updated_at = now()
+  WHERE id = p_appointment_id
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+-- 7. Permissions
+INSERT INTO permissions (key, resource, action, name_ar, name_en, description_ar, description_en, category, display_order)
+VALUES
+  ('appointments.view', 'appointments', 'view', 'عرض المواعيد', 'View Appointments', 'القدرة على عرض تقويم المواعيد', 'Ability to view the appointment calendar', 'operations', 40),
+  ('appointments.create', 'appointments', 'create', 'حجز موعد', 'Create Appointment', 'القدرة على حجز مواعيد جديدة', 'Ability to book new appointments', 'operations', 41),
+  ('appointments.update', 'appointments', 'update', 'تعديل المواعيد', 'Update Appointments', 'القدرة على تعديل المواعيد وتأكيدها وإلغائها وتحويلها إلى أوامر عمل', 'Ability to update, confirm, cancel and convert appointments', 'operations', 42),
+  ('appointments.delete', 'appointments', 'delete', 'حذف المواعيد', 'Delete Appointments', 'القدرة على حذف المواعيد', 'Ability to delete appointments', 'operations', 43)
+ON CONFLICT (key) DO NOTHING;
+
+-- Front desk roles book the appointments
+DO $$
+DECLARE
+  v_role record;
+BEGIN
+  FOR v_role IN
+    SELECT id FROM roles WHERE key IN ('customer_service', 'receptionist') AND is_system_role = true
+  LOOP
+    INSERT INTO role_permissions (role_id, permission_id)
+    SELECT v_role.id, p.id
+    FROM permissions p
+    WHERE p.key IN ('appointments.view', 'appointments.create', 'appointments.update')
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+  END LOOP;
+END $$;
+
+SELECT refresh_user_active_permissions();
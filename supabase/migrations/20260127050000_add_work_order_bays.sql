@@ -0,0 +1,140 @@
+/*
+  # Work Order Bays
+
+  1. Purpose
+    - Show which car is on which bay or lift, and how long each job has been
+      in its current status, on the live job board
+
+  2. Changes
+    - `work_orders.bay_id`: the bay the car is on. A bay holds at most
+      `capacity` open work orders; the car leaves its bay when the order is
+      ready for pickup, delivered or cancelled
+    - `work_orders.status_changed_at`: when the order entered its current
+      status, backfilled from the event log
+    - New event type `bay_changed` in `work_order_events`
+
+  3. Security
+    - No new policies: the bay is set through the existing work order update,
+      which requires `work_orders.update`
+*/
+
+-- 1. Columns
+ALTER TABLE work_orders
+  ADD COLUMN IF NOT EXISTS bay_id uuid REFERENCES workshop_bays(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_bay ON work_orders(bay_id) WHERE bay_id IS NOT NULL;
+
+UPDATE work_orders wo
+SET status_changed_at = COALESCE(
+  (
+    SELECT MAX(e.created_at)
+    FROM work_order_events e
+    WHERE e.work_order_id = wo.id
+    AND e.event_type = 'status_changed'
+  ),
+  wo.created_at,
+  wo.status_changed_at
+);
+
+-- 2. Bay capacity
+CREATE OR REPLACE FUNCTION check_work_order_bay()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_bay workshop_bays%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+  END IF;
+
+  IF NEW.status IN ('ready_for_pickup', 'delivered', 'cancelled') THEN
+    NEW.bay_id := NULL;
+  END IF;
+
+  IF NEW.bay_id IS NULL OR (TG_OP = 'UPDATE' AND NEW.bay_id IS NOT DISTINCT FROM OLD.bay_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locking the bay serializes concurrent assignments to it
+  SELECT * INTO v_bay
+  FROM workshop_bays
+  WHERE id = NEW.bay_id
+  AND organization_id = NEW.organization_id
+  AND is_active
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bay not found or not in use' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF (
+    SELECT COUNT(*)
+    FROM work_orders
+    WHERE bay_id = NEW.bay_id
+    AND id <> NEW.id
+    AND status NOT IN ('ready_for_pickup', 'delivered', 'cancelled')
+  ) >= v_bay.capacity THEN
+    RAISE EXCEPTION '% is full', v_bay.name USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_check_work_order_bay ON work_orders;
+CREATE TRIGGER trigger_check_work_order_bay
+  BEFORE INSERT OR UPDATE OF status, bay_id ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION check_work_order_bay();
+
+-- 3. Event log
+ALTER TABLE work_order_events DROP CONSTRAINT IF EXISTS work_order_events_event_type_check;
+ALTER TABLE work_order_events ADD CONSTRAINT work_order_events_event_type_check
+  CHECK (event_type IN (
+    'created', 'status_changed', 'bay_changed',
+    'service_added', 'service_updated', 'service_removed',
+    'part_added', 'part_updated', 'part_removed',
+    'technician_assigned', 'technician_unassigned',
+    'payment_received', 'note'
+  ));
+
+CREATE OR REPLACE FUNCTION log_work_order_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM log_work_order_event(NEW.id, 'created', jsonb_build_object('status', NEW.status));
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM log_work_order_event(NEW.id, 'status_changed', jsonb_build_object(
+      'from', OLD.status,
+      'to', NEW.status,
+      'reason', CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END
+    ));
+  END IF;
+
+  IF NEW.bay_id IS DISTINCT FROM OLD.bay_id THEN
+    PERFORM log_work_order_event(NEW.id, 'bay_changed', jsonb_build_object(
+      'bay_name', (SELECT name FROM workshop_bays WHERE id = NEW.bay_id),
+      'previous_bay_name', (SELECT name FROM workshop_bays WHERE id = OLD.bay_id)
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_work_order_change ON work_orders;
+CREATE TRIGGER trigger_log_work_order_change
+  AFTER INSERT OR UPDATE OF status, bay_id ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION log_work_order_change();
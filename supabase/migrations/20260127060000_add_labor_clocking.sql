@@ -0,0 +1,193 @@
+/*
+  # Labor Clocking
+
+  1. Purpose
+    - Record how long technicians actually work on each service of a work
+      order, so actual labor hours can be compared with the hours billed to
+      the customer
+
+  2. Changes
+    - New table `service_time_entries`: one row per work session of a
+      technician on a `work_order_services` line. A session is open while
+      `ended_at` is null and ends with a pause (with a reason) or with the
+      technician finishing the service. A service can take any number of
+      sessions, a technician has at most one open session. A service with
+      sessions cannot be deleted; its sessions go only with the work order
+    - `work_order_services.billed_hours`: the labor hours charged for the
+      service, compared against the clocked hours
+    - `clock_service_labor()` starts, pauses or finishes a session. Starting a
+      service pauses the technician's session on another service
+    - Open sessions are closed when the work order is ready for pickup,
+      delivered or cancelled
+
+  3. Security
+    - RLS enabled on `service_time_entries`; entries are visible with
+      `work_orders.view` and only written through `clock_service_labor()`,
+      which requires `work_orders.update`
+*/
+
+-- 1. Time entries
+CREATE TABLE IF NOT EXISTS service_time_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  work_order_id uuid NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  service_id uuid NOT NULL REFERENCES work_order_services(id),
+  technician_id uuid NOT NULL REFERENCES technicians(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  end_reason text CHECK (end_reason IN ('pause', 'finish')),
+  pause_reason text CHECK (pause_reason IN (
+    'waiting_parts', 'waiting_approval', 'break', 'other_job', 'end_of_shift', 'other'
+  )),
+  note text,
+  created_by uuid REFERENCES users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CHECK (ended_at IS NULL OR ended_at >= started_at),
+  CHECK ((ended_at IS NULL) = (end_reason IS NULL)),
+  CHECK (pause_reason IS NULL OR end_reason = 'pause')
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_time_entries_work_order ON service_time_entries(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_service_time_entries_service ON service_time_entries(service_id);
+CREATE INDEX IF NOT EXISTS idx_service_time_entries_technician_started ON service_time_entries(technician_id, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_time_entries_one_open
+  ON service_time_entries(technician_id) WHERE ended_at IS NULL;
+
+ALTER TABLE service_time_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view service time entries with permission" ON service_time_entries;
+CREATE POLICY "Users can view service time entries with permission"
+  ON service_time_entries FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'work_orders.view')
+  );
+
+-- 2. Billed hours
+ALTER TABLE work_order_services
+  ADD COLUMN IF NOT EXISTS billed_hours numeric CHECK (billed_hours IS NULL OR billed_hours >= 0);
+
+-- 3. Clocking
+CREATE OR REPLACE FUNCTION clock_service_labor(
+  p_service_id uuid,
+  p_technician_id uuid,
+  p_action text,
+  p_pause_reason text DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS service_time_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_order work_orders%ROWTYPE;
+  v_open service_time_entries%ROWTYPE;
+  v_entry service_time_entries%ROWTYPE;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'work_orders.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_action NOT IN ('start', 'pause', 'finish') THEN
+    RAISE EXCEPTION 'action must be start, pause or finish' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_action = 'pause' AND p_pause_reason IS NULL THEN
+    RAISE EXCEPTION 'A pause reason is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+
+  SELECT wo.* INTO v_order
+  FROM work_order_services wos
+  JOIN work_orders wo ON wo.id = wos.work_order_id
+  WHERE wos.id = p_service_id
+  AND wo.organization_id = v_org_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM technician_assignments
+    WHERE service_id = p_service_id
+    AND technician_id = p_technician_id
+  ) THEN
+    RAISE EXCEPTION 'The technician is not assigned to this service' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Serializes clocking of the same technician from two devices
+  PERFORM 1 FROM technicians WHERE id = p_technician_id FOR UPDATE;
+
+  SELECT * INTO v_open
+  FROM service_time_entries
+  WHERE technician_id = p_technician_id
+  AND ended_at IS NULL;
+
+  IF p_action = 'start' THEN
+    IF v_order.status IN ('ready_for_pickup', 'delivered', 'cancelled') THEN
+      RAISE EXCEPTION 'Work order % is closed', v_order.order_number USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_open.service_id = p_service_id THEN
+      RAISE EXCEPTION 'The technician is already clocked on this service' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_open.id IS NOT NULL THEN
+      UPDATE service_time_entries
+      SET ended_at = now(), end_reason = 'pause', pause_reason = 'other_job'
+      WHERE id = v_open.id;
+    END IF;
+
+    INSERT INTO service_time_entries (organization_id, work_order_id, service_id, technician_id, note)
+    VALUES (v_org_id, v_order.id, p_service_id, p_technician_id, NULLIF(trim(p_note), ''))
+    RETURNING * INTO v_entry;
+
+    RETURN v_entry;
+  END IF;
+
+  IF v_open.id IS NULL OR v_open.service_id <> p_service_id THEN
+    RAISE EXCEPTION 'The technician is not clocked on this service' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE service_time_entries
+  SET
+    ended_at = now(),
+    end_reason = p_action,
+    pause_reason = CASE WHEN p_action = 'pause' THEN p_pause_reason END,
+    note = COALESCE(NULLIF(trim(p_note), ''), note)
+  WHERE id = v_open.id
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- 4. Closing sessions with the work order
+CREATE OR REPLACE FUNCTION close_work_order_time_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.status IN ('ready_for_pickup', 'delivered', 'cancelled') THEN
+    UPDATE service_time_entries
+    SET ended_at = now(), end_reason = 'finish'
+    WHERE work_order_id = NEW.id
+    AND ended_at IS NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_close_work_order_time_entries ON work_orders;
+CREATE TRIGGER trigger_close_work_order_time_entries
+  AFTER UPDATE OF status ON work_orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION close_work_order_time_entries();
@@ -0,0 +1,411 @@
+/*
+  # Service Catalog
+
+  1. Purpose
+    - Price the same job the same way whichever advisor writes the work order
+      or the quotation
+    - Standard labor hours of catalog jobs become the billed hours of the
+      service, compared with the clocked hours
+
+  2. Changes
+    - New table `service_catalog_items`: per organization, a unique code,
+      Arabic and English names, category (the service types of the work
+      order form), standard hours, default price and the spare parts the job
+      usually takes, as a jsonb array of `{ spare_part_id, quantity }`
+    - `work_order_services.catalog_item_id` and
+      `quotation_services.catalog_item_id`: the catalog job a line was
+      taken from
+    - A catalog line keeps the default price unless the user may override
+      prices. Work order lines also keep the price the customer accepted on a
+      quotation
+    - `save_quotation()` stores the catalog job of each line and
+      `accept_quotation()` carries it, with the standard hours, to the work
+      order
+    - Permissions `work_orders.override_price` and
+      `quotations.override_price`
+
+  3. Security
+    - RLS enabled on `service_catalog_items`. Items are visible with
+      `work_orders.view`, `quotations.view` or `settings.view` and managed
+      with `settings.update`
+*/
+
+-- 1. Catalog
+CREATE TABLE IF NOT EXISTS service_catalog_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) DEFAULT get_user_organization_id(),
+  code text NOT NULL CHECK (trim(code) <> ''),
+  name_ar text NOT NULL CHECK (trim(name_ar) <> ''),
+  name_en text,
+  category text NOT NULL DEFAULT 'other'
+    CHECK (category IN ('mechanics', 'electricity', 'ac', 'tires', 'bodywork', 'other')),
+  standard_hours numeric(6,2) NOT NULL DEFAULT 0 CHECK (standard_hours >= 0),
+  default_price numeric(10,2) NOT NULL DEFAULT 0 CHECK (default_price >= 0),
+  default_parts jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(default_parts) = 'array'),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT service_catalog_items_org_code_key UNIQUE (organization_id, code)
+);
+
+ALTER TABLE service_catalog_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view service catalog with permission" ON service_catalog_items;
+CREATE POLICY "Users can view service catalog with permission"
+  ON service_catalog_items FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND (
+      user_has_permission(auth.uid(), 'work_orders.view')
+      OR user_has_permission(auth.uid(), 'quotations.view')
+      OR user_has_permission(auth.uid(), 'settings.view')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can add service catalog items with permission" ON service_catalog_items;
+CREATE POLICY "Users can add service catalog items with permission"
+  ON service_catalog_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.update')
+  );
+
+DROP POLICY IF EXISTS "Users can update service catalog items with permission" ON service_catalog_items;
+CREATE POLICY "Users can update service catalog items with permission"
+  ON service_catalog_items FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.update')
+  )
+  WITH CHECK (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can delete service catalog items with permission" ON service_catalog_items;
+CREATE POLICY "Users can delete service catalog items with permission"
+  ON service_catalog_items FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+    AND user_has_permission(auth.uid(), 'settings.update')
+  );
+
+-- 2. Catalog lines
+ALTER TABLE work_order_services
+  ADD COLUMN IF NOT EXISTS catalog_item_id uuid REFERENCES service_catalog_items(id) ON DELETE SET NULL;
+
+ALTER TABLE quotation_services
+  ADD COLUMN IF NOT EXISTS catalog_item_id uuid REFERENCES service_catalog_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_work_order_services_catalog_item
+  ON work_order_services(catalog_item_id) WHERE catalog_item_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quotation_services_catalog_item
+  ON quotation_services(catalog_item_id) WHERE catalog_item_id IS NOT NULL;
+
+-- 3. Price overrides on work orders
+CREATE OR REPLACE FUNCTION check_work_order_service_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_item service_catalog_items%ROWTYPE;
+BEGIN
+  IF NEW.catalog_item_id IS NULL OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.catalog_item_id IS NOT DISTINCT FROM OLD.catalog_item_id
+    AND NEW.labor_cost IS NOT DISTINCT FROM OLD.labor_cost THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_item
+  FROM service_catalog_items
+  WHERE id = NEW.catalog_item_id
+  AND organization_id = (SELECT organization_id FROM work_orders WHERE id = NEW.work_order_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Catalog service not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NEW.labor_cost IS DISTINCT FROM v_item.default_price
+    AND NOT user_has_permission(auth.uid(), 'work_orders.override_price')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM quotations q
+      JOIN quotation_services qs ON qs.quotation_id = q.id
+      WHERE q.work_order_id = NEW.work_order_id
+      AND qs.catalog_item_id = NEW.catalog_item_id
+      AND qs.labor_cost = NEW.labor_cost
+    )
+  THEN
+    RAISE EXCEPTION 'The price of % is set by the service catalog', v_item.code
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_check_work_order_service_price ON work_order_services;
+CREATE TRIGGER trigger_check_work_order_service_price
+  BEFORE INSERT OR UPDATE OF labor_cost, catalog_item_id ON work_order_services
+  FOR EACH ROW
+  EXECUTE FUNCTION check_work_order_service_price();
+
+-- 4. Quotations
+CREATE OR REPLACE FUNCTION save_quotation(
+  p_quotation_id uuid,
+  p_quotation jsonb,
+  p_services jsonb DEFAULT NULL,
+  p_spare_parts jsonb DEFAULT NULL
+)
+RETURNS quotations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_quotation quotations%ROWTYPE;
+  v_line jsonb;
+  v_item service_catalog_items%ROWTYPE;
+  v_lines_total numeric := 0;
+  v_totals record;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), CASE WHEN p_quotation_id IS NULL THEN 'quotations.create' ELSE 'quotations.update' END) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+  p_quotation := COALESCE(p_quotation, '{}'::jsonb);
+
+  IF p_quotation_id IS NOT NULL THEN
+    SELECT * INTO v_quotation
+    FROM quotations
+    WHERE id = p_quotation_id
+    AND organization_id = v_org_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_quotation.status NOT IN ('draft', 'sent') THEN
+      RAISE EXCEPTION 'Quotation % is % and can no longer be modified', v_quotation.quotation_number, v_quotation.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF COALESCE(p_quotation->>'customer_id', '') = '' THEN
+    RAISE EXCEPTION 'customer_id is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_services, '[]'::jsonb))
+  LOOP
+    IF COALESCE(trim(v_line->>'service_type'), '') = '' OR COALESCE(trim(v_line->>'description'), '') = '' THEN
+      RAISE EXCEPTION 'Each service requires a type and a description' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    IF COALESCE((v_line->>'labor_cost')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Invalid labor cost on "%"', v_line->>'description' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF NULLIF(v_line->>'catalog_item_id', '') IS NOT NULL THEN
+      SELECT * INTO v_item
+      FROM service_catalog_items
+      WHERE id = (v_line->>'catalog_item_id')::uuid
+      AND organization_id = v_org_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Catalog service not found' USING ERRCODE = 'no_data_found';
+      END IF;
+
+      -- Lines already quoted at their price stay as they are
+      IF round(COALESCE((v_line->>'labor_cost')::numeric, 0), 2) <> v_item.default_price
+        AND NOT user_has_permission(auth.uid(), 'quotations.override_price')
+        AND NOT EXISTS (
+          SELECT 1 FROM quotation_services
+          WHERE quotation_id = p_quotation_id
+          AND catalog_item_id = v_item.id
+          AND labor_cost = round(COALESCE((v_line->>'labor_cost')::numeric, 0), 2)
+        )
+      THEN
+        RAISE EXCEPTION 'The price of % is set by the service catalog', v_item.code
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+    END IF;
+  END LOOP;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_spare_parts, '[]'::jsonb))
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM spare_parts
+      WHERE id = NULLIF(v_line->>'spare_part_id', '')::uuid
+      AND organization_id = v_org_id
+    ) THEN
+      RAISE EXCEPTION 'Spare part not found' USING ERRCODE = 'no_data_found';
+    END IF;
+    IF COALESCE((v_line->>'quantity')::numeric, 0) <= 0 OR COALESCE((v_line->>'unit_price')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Invalid spare part quantity or price' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END LOOP;
+
+  IF p_quotation_id IS NULL THEN
+    INSERT INTO quotations (
+      organization_id, customer_id, vehicle_id, issue_date, valid_until, notes,
+      discount_percentage, tax_rate, tax_type
+    ) VALUES (
+      v_org_id,
+      (p_quotation->>'customer_id')::uuid,
+      NULLIF(p_quotation->>'vehicle_id', '')::uuid,
+      COALESCE((p_quotation->>'issue_date')::date, CURRENT_DATE),
+      COALESCE((p_quotation->>'valid_until')::date, COALESCE((p_quotation->>'issue_date')::date, CURRENT_DATE) + 14),
+      COALESCE(p_quotation->>'notes', ''),
+      COALESCE((p_quotation->>'discount_percentage')::numeric, 0),
+      COALESCE((p_quotation->>'tax_rate')::numeric, 0),
+      COALESCE(p_quotation->>'tax_type', 'exclusive')
+    )
+    RETURNING * INTO v_quotation;
+  ELSE
+    UPDATE quotations SET
+      customer_id = COALESCE((p_quotation->>'customer_id')::uuid, customer_id),
+      vehicle_id = CASE WHEN p_quotation ? 'vehicle_id' THEN NULLIF(p_quotation->>'vehicle_id', '')::uuid ELSE vehicle_id END,
+      issue_date = COALESCE((p_quotation->>'issue_date')::date, issue_date),
+      valid_until = COALESCE((p_quotation->>'valid_until')::date, valid_until),
+      notes = CASE WHEN p_quotation ? 'notes' THEN COALESCE(p_quotation->>'notes', '') ELSE notes END,
+      discount_percentage = COALESCE((p_quotation->>'discount_percentage')::numeric, discount_percentage),
+      tax_rate = COALESCE((p_quotation->>'tax_rate')::numeric, tax_rate),
+      tax_type = COALESCE(p_quotation->>'tax_type', tax_type),
+      updated_at = now()
+    WHERE id = p_quotation_id
+    RETURNING * INTO v_quotation;
+  END IF;
+
+  -- Lines: on update, lines that are not sent are kept
+  IF p_services IS NOT NULL OR p_quotation_id IS NULL THEN
+    DELETE FROM quotation_services WHERE quotation_id = v_quotation.id;
+
+    INSERT INTO quotation_services (quotation_id, service_type, description, labor_cost, catalog_item_id)
+    SELECT
+      v_quotation.id,
+      trim(line->>'service_type'),
+      trim(line->>'description'),
+      round(COALESCE((line->>'labor_cost')::numeric, 0), 2),
+      NULLIF(line->>'catalog_item_id', '')::uuid
+    FROM jsonb_array_elements(COALESCE(p_services, '[]'::jsonb)) AS line;
+  END IF;
+
+  IF p_spare_parts IS NOT NULL OR p_quotation_id IS NULL THEN
+    DELETE FROM quotation_spare_parts WHERE quotation_id = v_quotation.id;
+
+    INSERT INTO quotation_spare_parts (quotation_id, spare_part_id, quantity, unit_price)
+    SELECT
+      v_quotation.id,
+      (line->>'spare_part_id')::uuid,
+      (line->>'quantity')::numeric,
+      (line->>'unit_price')::numeric
+    FROM jsonb_array_elements(COALESCE(p_spare_parts, '[]'::jsonb)) AS line;
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(labor_cost) FROM quotation_services WHERE quotation_id = v_quotation.id), 0)
+    + COALESCE((SELECT SUM(total) FROM quotation_spare_parts WHERE quotation_id = v_quotation.id), 0)
+  INTO v_lines_total;
+
+  IF NOT EXISTS (SELECT 1 FROM quotation_services WHERE quotation_id = v_quotation.id)
+    AND NOT EXISTS (SELECT 1 FROM quotation_spare_parts WHERE quotation_id = v_quotation.id)
+  THEN
+    RAISE EXCEPTION 'A quotation requires at least one service or spare part' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_totals
+  FROM calculate_invoice_totals(v_lines_total, v_quotation.discount_percentage, v_quotation.tax_rate, v_quotation.tax_type);
+
+  UPDATE quotations SET
+    subtotal = v_totals.subtotal,
+    discount_amount = v_totals.discount_amount,
+    tax_amount = v_totals.tax_amount,
+    total = v_totals.total
+  WHERE id = v_quotation.id
+  RETURNING * INTO v_quotation;
+
+  RETURN v_quotation;
+END;
+$$;
+
+-- The quotation is linked to the work order before the services are copied,
+-- so the accepted prices pass the catalog price check
+CREATE OR REPLACE FUNCTION accept_quotation(p_quotation_id uuid)
+RETURNS quotations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quotation quotations%ROWTYPE;
+  v_work_order_id uuid;
+BEGIN
+  v_quotation := lock_quotation(p_quotation_id);
+
+  IF NOT user_has_permission(auth.uid(), 'work_orders.create') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_quotation.status NOT IN ('draft', 'sent') THEN
+    RAISE EXCEPTION 'Quotation % is % and cannot be accepted', v_quotation.quotation_number, v_quotation.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_quotation.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Quotation % expired on %', v_quotation.quotation_number, v_quotation.valid_until
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO work_orders (organization_id, customer_id, vehicle_id, status, description)
+  VALUES (
+    v_quotation.organization_id,
+    v_quotation.customer_id,
+    v_quotation.vehicle_id,
+    'in_progress',
+    NULLIF(v_quotation.notes, '')
+  )
+  RETURNING id INTO v_work_order_id;
+
+  UPDATE quotations SET
+    status = 'accepted',
+    work_order_id = v_work_order_id,
+    responded_at = now(),
+    updated_at = now()
+  WHERE id = p_quotation_id
+  RETURNING * INTO v_quotation;
+
+  INSERT INTO work_order_services (work_order_id, service_type, description, labor_cost, catalog_item_id, billed_hours)
+  SELECT v_work_order_id, qs.service_type, qs.description, qs.labor_cost, qs.catalog_item_id, sci.standard_hours
+  FROM quotation_services qs
+  LEFT JOIN service_catalog_items sci ON sci.id = qs.catalog_item_id
+  WHERE qs.quotation_id = p_quotation_id
+  ORDER BY qs.created_at;
+
+  -- Spare parts are taken from stock here, as for any work order
+  INSERT INTO work_order_spare_parts (work_order_id, spare_part_id, quantity, unit_price)
+  SELECT v_work_order_id, spare_part_id, quantity, unit_price
+  FROM quotation_spare_parts
+  WHERE quotation_id = p_quotation_id
+  ORDER BY created_at;
+
+  RETURN v_quotation;
+END;
+$$;
+
+-- 5. Permissions
+INSERT INTO permissions (key, resource, action, name_ar, name_en, description_ar, description_en, category, display_order)
+VALUES
+  ('quotations.override_price', 'quotations', 'override_price', 'تعديل أسعار الكتالوج في عروض الأسعار', 'Override Catalog Prices on Quotations', 'القدرة على تغيير سعر خدمة من كتالوج الخدمات في عرض السعر', 'Ability to change the price of a catalog service on a quotation', 'operations', 29),
+  ('work_orders.override_price', 'work_orders', 'override_price', 'تعديل أسعار الكتالوج في أوامر العمل', 'Override Catalog Prices on Work Orders', 'القدرة على تغيير سعر خدمة من كتالوج الخدمات في أمر العمل', 'Ability to change the price of a catalog service on a work order', 'operations', 37)
+ON CONFLICT (key) DO NOTHING;
+
+SELECT refresh_user_active_permissions();
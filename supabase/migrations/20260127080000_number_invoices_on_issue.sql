@@ -0,0 +1,255 @@
+/*
+  # Number Invoices On Issue
+
+  1. Purpose
+    - Invoices took their number from the sequence when the draft was saved,
+      and drafts can still be deleted, which left gaps in the invoice numbers
+    - The e-invoice and the QR code of an invoice carried the time its draft
+      was created instead of the time it was issued
+    - Changing the reset period of a sequence started it again at 1, so going
+      back to an earlier format handed out numbers that were already used
+
+  2. Changes
+    - A draft gets a placeholder number (DRAFT-1A2B3C4D5E) and takes the next
+      invoice number when it is issued. Invoices inserted as issued are
+      numbered straight away
+    - New `invoices.issued_at`, set when the invoice is issued. Invoices
+      issued before this migration take their creation time
+    - Drafts numbered before this migration keep their number when issued and
+      can no longer be deleted
+    - `configure_document_sequence()` continues after the highest number
+      already used with the new prefix and period instead of starting at 1
+
+  3. Security
+    - No policy changes
+*/
+
+-- 1. Invoice numbering
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS issued_at timestamptz;
+
+-- Issued invoices cannot be modified, the backfill bypasses the check once
+ALTER TABLE invoices DISABLE TRIGGER trigger_protect_issued_invoice;
+UPDATE invoices SET issued_at = created_at WHERE status = 'issued' AND issued_at IS NULL;
+ALTER TABLE invoices ENABLE TRIGGER trigger_protect_issued_invoice;
+
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.status = 'issued' THEN
+    -- Drafts numbered before this migration keep their number
+    IF TG_OP = 'INSERT' OR (OLD.status <> 'issued' AND OLD.invoice_number LIKE 'DRAFT-%') THEN
+      NEW.invoice_number := next_document_number(COALESCE(NEW.organization_id, get_user_organization_id()), 'invoice');
+    END IF;
+    IF TG_OP = 'INSERT' OR OLD.status <> 'issued' THEN
+      NEW.issued_at := now();
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    NEW.invoice_number := 'DRAFT-' || upper(left(replace(NEW.id::text, '-', ''), 10));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_assign_invoice_number ON invoices;
+CREATE TRIGGER trigger_assign_invoice_number
+  BEFORE INSERT OR UPDATE OF status ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_invoice_number();
+
+CREATE OR REPLACE FUNCTION assign_document_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid := COALESCE(NEW.organization_id, get_user_organization_id());
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'invoice_notes' THEN
+      NEW.note_number := next_document_number(v_org_id, NEW.note_type || '_note');
+    WHEN 'quotations' THEN
+      NEW.quotation_number := next_document_number(v_org_id, 'quotation');
+    WHEN 'work_orders' THEN
+      NEW.order_number := next_document_number(v_org_id, 'work_order');
+    WHEN 'expenses' THEN
+      NEW.expense_number := next_document_number(v_org_id, 'expense');
+    WHEN 'salaries' THEN
+      NEW.salary_number := next_document_number(v_org_id, 'salary');
+    WHEN 'work_order_deposits' THEN
+      NEW.receipt_number := next_document_number(v_org_id, 'deposit');
+    WHEN 'invoice_refunds' THEN
+      NEW.refund_number := next_document_number(v_org_id, 'refund');
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Numbered drafts cannot be deleted
+CREATE OR REPLACE FUNCTION protect_issued_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_mutable text[] := ARRAY[
+    'paid_amount', 'payment_status', 'payment_method', 'card_type',
+    'paid_at', 'due_date', 'updated_at'
+  ];
+BEGIN
+  IF TG_OP = 'DELETE' AND OLD.status = 'draft' AND OLD.invoice_number NOT LIKE 'DRAFT-%' THEN
+    RAISE EXCEPTION 'Invoice % already holds its number and cannot be deleted, issue it and then a credit note', OLD.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status <> 'issued' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Invoice % is issued and cannot be deleted, issue a credit note instead', OLD.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (to_jsonb(NEW) - v_mutable) IS DISTINCT FROM (to_jsonb(OLD) - v_mutable) THEN
+    RAISE EXCEPTION 'Invoice % is issued and cannot be modified, issue a credit or debit note instead', OLD.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Reconfiguring a sequence
+-- Highest number of a document type already used with the given prefix and
+-- period. Timestamp based work order numbers (13 digits) are not counted
+CREATE OR REPLACE FUNCTION document_sequence_highest_number(
+  p_organization_id uuid,
+  p_document_type text,
+  p_prefix text,
+  p_period text
+)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH used AS (
+    SELECT invoice_number AS number FROM invoices
+    WHERE organization_id = p_organization_id AND p_document_type = 'invoice'
+    UNION ALL
+    SELECT note_number FROM invoice_notes
+    WHERE organization_id = p_organization_id AND note_type || '_note' = p_document_type
+    UNION ALL
+    SELECT quotation_number FROM quotations
+    WHERE organization_id = p_organization_id AND p_document_type = 'quotation'
+    UNION ALL
+    SELECT order_number FROM work_orders
+    WHERE organization_id = p_organization_id AND p_document_type = 'work_order'
+    UNION ALL
+    SELECT expense_number FROM expenses
+    WHERE organization_id = p_organization_id AND p_document_type = 'expense'
+    UNION ALL
+    SELECT salary_number FROM salaries
+    WHERE organization_id = p_organization_id AND p_document_type = 'salary'
+    UNION ALL
+    SELECT receipt_number FROM work_order_deposits
+    WHERE organization_id = p_organization_id AND p_document_type = 'deposit'
+    UNION ALL
+    SELECT refund_number FROM invoice_refunds
+    WHERE organization_id = p_organization_id AND p_document_type = 'refund'
+  ),
+  stem AS (
+    -- INV-, INV-2026-, INV-202601-
+    SELECT p_prefix || CASE WHEN p_period = '' THEN '' ELSE p_period || '-' END AS value
+  )
+  SELECT COALESCE(MAX(substring(u.number FROM length(s.value) + 1)::bigint), 0)
+  FROM used u, stem s
+  WHERE left(u.number, length(s.value)) = s.value
+  AND substring(u.number FROM length(s.value) + 1) ~ '^[0-9]{1,12}$';
+$$;
+
+REVOKE EXECUTE ON FUNCTION document_sequence_highest_number(uuid, text, text, text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION configure_document_sequence(
+  p_document_type text,
+  p_prefix text,
+  p_reset_period text,
+  p_padding integer
+)
+RETURNS document_sequences
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_sequence document_sequences%ROWTYPE;
+  v_period text;
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.update') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF document_sequence_default_prefix(p_document_type) IS NULL THEN
+    RAISE EXCEPTION 'Unknown document type: %', p_document_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(p_prefix, '') !~ '^[A-Za-z0-9/_-]{0,20}$' THEN
+    RAISE EXCEPTION 'The prefix may only contain up to 20 letters, digits, "-", "_" or "/"'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_reset_period NOT IN ('never', 'yearly', 'monthly') THEN
+    RAISE EXCEPTION 'Invalid reset period: %', p_reset_period USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_padding IS NULL OR p_padding NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'Padding must be between 1 and 12' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT organization_id INTO v_org_id FROM users WHERE id = auth.uid();
+
+  INSERT INTO document_sequences (organization_id, document_type, prefix)
+  VALUES (v_org_id, p_document_type, document_sequence_default_prefix(p_document_type))
+  ON CONFLICT (organization_id, document_type) DO NOTHING;
+
+  SELECT * INTO v_sequence
+  FROM document_sequences
+  WHERE organization_id = v_org_id
+  AND document_type = p_document_type
+  FOR UPDATE;
+
+  -- A new prefix or reset period may lead back to a format that was used
+  -- before, so the counter continues after the highest number in it
+  IF v_sequence.prefix IS DISTINCT FROM COALESCE(p_prefix, '') OR v_sequence.reset_period IS DISTINCT FROM p_reset_period THEN
+    v_period := document_sequence_period(p_reset_period, document_sequence_today());
+    v_sequence.current_period := v_period;
+    v_sequence.last_number := document_sequence_highest_number(v_org_id, p_document_type, COALESCE(p_prefix, ''), v_period);
+  END IF;
+
+  UPDATE document_sequences SET
+    prefix = COALESCE(p_prefix, ''),
+    reset_period = p_reset_period,
+    padding = p_padding,
+    current_period = v_sequence.current_period,
+    last_number = v_sequence.last_number,
+    updated_at = now()
+  WHERE id = v_sequence.id
+  RETURNING * INTO v_sequence;
+
+  RETURN v_sequence;
+END;
+$$;
+
+COMMENT ON FUNCTION assign_invoice_number() IS 'Gives draft invoices a placeholder number and takes the next invoice number and the issue time when an invoice is issued.';
+COMMENT ON COLUMN invoices.issued_at IS 'When the invoice was issued; the time on its e-invoice and QR code.';
+COMMENT ON FUNCTION assign_document_number() IS 'Numbers notes, quotations, work orders, expenses, salaries, deposits and refunds on insert.';
+COMMENT ON FUNCTION document_sequence_highest_number(uuid, text, text, text) IS 'Highest number of a document type already used with a prefix and period.';
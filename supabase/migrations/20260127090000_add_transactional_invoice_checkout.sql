@@ -0,0 +1,88 @@
+/*
+  # Transactional Invoice Checkout
+
+  1. Purpose
+    - Creating an invoice at checkout saved the draft, applied the deposits,
+      recorded the tenders and issued the invoice in separate calls. A failure
+      half way left a draft behind and a retry created a second one
+    - The tendered amount was checked against the total sent by the client
+      and ignored the deposits already applied
+
+  2. Changes
+    - New `create_invoice()`: saves the invoice with its items, applies the
+      work order deposits, records the tenders and optionally issues the
+      invoice in one transaction
+    - The tenders may not exceed the total computed by the database less the
+      applied deposits
+
+  3. Security
+    - SECURITY DEFINER; saving checks `invoices.create` as before, tenders
+      additionally require `invoices.update` or `invoices.manage_payments`,
+      like the payments API
+*/
+
+CREATE OR REPLACE FUNCTION create_invoice(
+  p_invoice jsonb,
+  p_items jsonb DEFAULT NULL,
+  p_tenders jsonb DEFAULT '[]'::jsonb,
+  p_issue boolean DEFAULT true
+)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_tendered numeric;
+BEGIN
+  p_tenders := COALESCE(p_tenders, '[]'::jsonb);
+
+  IF jsonb_array_length(p_tenders) > 0 AND NOT (
+    user_has_permission(auth.uid(), 'invoices.update')
+    OR user_has_permission(auth.uid(), 'invoices.manage_payments')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Checks invoices.create
+  v_invoice := save_invoice(NULL, p_invoice, p_items);
+
+  PERFORM apply_work_order_deposits(v_invoice.id);
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = v_invoice.id;
+
+  SELECT COALESCE(SUM((t->>'amount')::numeric), 0) INTO v_tendered
+  FROM jsonb_array_elements(p_tenders) t;
+
+  IF v_tendered > v_invoice.total - v_invoice.paid_amount + 0.01 THEN
+    RAISE EXCEPTION 'Tendered amount of % exceeds the balance of % after deposits',
+      v_tendered, v_invoice.total - v_invoice.paid_amount
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO invoice_payments (invoice_id, organization_id, amount, payment_method, card_type, reference, paid_at)
+  SELECT
+    v_invoice.id,
+    v_invoice.organization_id,
+    (t->>'amount')::numeric,
+    COALESCE(t->>'payment_method', 'cash'),
+    t->>'card_type',
+    NULLIF(trim(t->>'reference'), ''),
+    COALESCE((t->>'paid_at')::timestamptz, now())
+  FROM jsonb_array_elements(p_tenders) t;
+
+  IF p_issue THEN
+    UPDATE invoices SET status = 'issued', updated_at = now()
+    WHERE id = v_invoice.id;
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = v_invoice.id;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_invoice(jsonb, jsonb, jsonb, boolean) TO authenticated;
+
+COMMENT ON FUNCTION create_invoice(jsonb, jsonb, jsonb, boolean) IS 'Creates an invoice at checkout: saves it with its items, applies the work order deposits, records the tenders and optionally issues it, all in one transaction.';
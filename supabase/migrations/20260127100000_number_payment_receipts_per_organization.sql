@@ -0,0 +1,188 @@
+/*
+  # Payment Receipt Numbers Per Organization
+
+  1. Purpose
+    - `generate_payment_receipt_number()` took MAX(number) + 1 over the
+      receipts of all organizations while receipt numbers were unique across
+      all of them: two concurrent payments could get the same number, and the
+      gaps in a workshop's receipts showed how many payments other workshops
+      took
+
+  2. Changes
+    - New `payment` document type (RC-000001). Receipt numbers are taken from
+      the organization's sequence when the payment is recorded, like deposit
+      and refund numbers. Existing organizations continue after their highest
+      receipt number
+    - Receipt numbers are unique per organization
+    - `generate_payment_receipt_number()` is dropped
+
+  3. Security
+    - No policy changes
+*/
+
+-- 1. Payment numbering
+DO $$
+BEGIN
+  ALTER TABLE document_sequences DROP CONSTRAINT IF EXISTS document_sequences_document_type_check;
+  ALTER TABLE document_sequences ADD CONSTRAINT document_sequences_document_type_check
+    CHECK (document_type IN ('invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary', 'payment', 'deposit', 'refund'));
+END $$;
+
+CREATE OR REPLACE FUNCTION document_sequence_default_prefix(p_document_type text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN 'INV-'
+    WHEN 'credit_note' THEN 'CN-'
+    WHEN 'debit_note' THEN 'DN-'
+    WHEN 'quotation' THEN 'QT-'
+    WHEN 'work_order' THEN 'WO-'
+    WHEN 'expense' THEN 'EXP-'
+    WHEN 'salary' THEN 'SAL-'
+    WHEN 'payment' THEN 'RC-'
+    WHEN 'deposit' THEN 'DEP-'
+    WHEN 'refund' THEN 'RF-'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_document_sequences()
+RETURNS TABLE (
+  document_type text,
+  prefix text,
+  reset_period text,
+  padding integer,
+  last_number bigint,
+  next_number text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT user_has_permission(auth.uid(), 'settings.view') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.document_type,
+    COALESCE(s.prefix, document_sequence_default_prefix(t.document_type)),
+    COALESCE(s.reset_period, 'never'),
+    COALESCE(s.padding, 6),
+    COALESCE(s.last_number, 0),
+    preview_document_number(t.document_type)
+  FROM unnest(ARRAY['invoice', 'credit_note', 'debit_note', 'quotation', 'work_order', 'expense', 'salary', 'payment', 'deposit', 'refund'])
+    WITH ORDINALITY AS t(document_type, position)
+  LEFT JOIN document_sequences s
+    ON s.document_type = t.document_type
+    AND s.organization_id = (SELECT organization_id FROM users WHERE id = auth.uid())
+  ORDER BY t.position;
+END;
+$$;
+
+-- Counts receipt numbers too
+CREATE OR REPLACE FUNCTION document_sequence_highest_number(
+  p_organization_id uuid,
+  p_document_type text,
+  p_prefix text,
+  p_period text
+)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH used AS (
+    SELECT invoice_number AS number FROM invoices
+    WHERE organization_id = p_organization_id AND p_document_type = 'invoice'
+    UNION ALL
+    SELECT note_number FROM invoice_notes
+    WHERE organization_id = p_organization_id AND note_type || '_note' = p_document_type
+    UNION ALL
+    SELECT quotation_number FROM quotations
+    WHERE organization_id = p_organization_id AND p_document_type = 'quotation'
+    UNION ALL
+    SELECT order_number FROM work_orders
+    WHERE organization_id = p_organization_id AND p_document_type = 'work_order'
+    UNION ALL
+    SELECT expense_number FROM expenses
+    WHERE organization_id = p_organization_id AND p_document_type = 'expense'
+    UNION ALL
+    SELECT salary_number FROM salaries
+    WHERE organization_id = p_organization_id AND p_document_type = 'salary'
+    UNION ALL
+    SELECT receipt_number FROM work_order_deposits
+    WHERE organization_id = p_organization_id AND p_document_type = 'deposit'
+    UNION ALL
+    SELECT refund_number FROM invoice_refunds
+    WHERE organization_id = p_organization_id AND p_document_type = 'refund'
+    UNION ALL
+    SELECT receipt_number FROM invoice_payments
+    WHERE organization_id = p_organization_id AND p_document_type = 'payment'
+  ),
+  stem AS (
+    -- INV-, INV-2026-, INV-202601-
+    SELECT p_prefix || CASE WHEN p_period = '' THEN '' ELSE p_period || '-' END AS value
+  )
+  SELECT COALESCE(MAX(substring(u.number FROM length(s.value) + 1)::bigint), 0)
+  FROM used u, stem s
+  WHERE left(u.number, length(s.value)) = s.value
+  AND substring(u.number FROM length(s.value) + 1) ~ '^[0-9]{1,12}$';
+$$;
+
+-- 2. Receipt numbers are unique per organization
+ALTER TABLE invoice_payments DROP CONSTRAINT IF EXISTS invoice_payments_receipt_number_key;
+ALTER TABLE invoice_payments DROP CONSTRAINT IF EXISTS invoice_payments_org_receipt_number_key;
+ALTER TABLE invoice_payments ADD CONSTRAINT invoice_payments_org_receipt_number_key UNIQUE (organization_id, receipt_number);
+
+-- Existing organizations continue after their highest receipt number
+INSERT INTO document_sequences (organization_id, document_type, prefix, last_number)
+SELECT o.id, 'payment', 'RC-', document_sequence_highest_number(o.id, 'payment', 'RC-', '')
+FROM organizations o
+ON CONFLICT (organization_id, document_type) DO NOTHING;
+
+-- 3. Numbering a payment
+CREATE OR REPLACE FUNCTION prepare_invoice_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_paid numeric;
+BEGIN
+  -- Serializes concurrent payments on the same invoice
+  SELECT * INTO v_invoice FROM invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM invoice_payments
+  WHERE invoice_id = NEW.invoice_id;
+
+  IF v_paid + NEW.amount > v_invoice.total + 0.01 THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of % on invoice %',
+      NEW.amount, GREATEST(v_invoice.total - v_paid, 0), v_invoice.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.organization_id := v_invoice.organization_id;
+  NEW.received_by := COALESCE(auth.uid(), NEW.received_by);
+  NEW.receipt_number := next_document_number(v_invoice.organization_id, 'payment');
+  IF NEW.payment_method <> 'card' THEN
+    NEW.card_type := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS generate_payment_receipt_number();
@@ -0,0 +1,146 @@
+/*
+  # Refunds In The Paid Amount
+
+  1. Purpose
+    - Refunds were kept apart from the invoice: `paid_amount` and
+      `payment_status` only counted the payments, so an invoice that was paid
+      and then refunded still showed as paid in full
+
+  2. Changes
+    - `paid_amount` is the payments less the refunds. An invoice paid with
+      more than one method stays `split`
+    - `payment_status` compares it with the total adjusted by the credit and
+      debit notes, so a credited and refunded invoice stays settled
+    - A payment may not exceed that adjusted total less the net paid amount
+    - Recording a refund or a note re-derives the payment fields of the
+      invoice; existing invoices with refunds or notes are brought in line
+
+  3. Security
+    - No policy changes
+*/
+
+-- 1. Invoice payment fields
+CREATE OR REPLACE FUNCTION derive_invoice_payment_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_paid numeric := 0;
+  v_due numeric := NEW.total;
+  v_last_paid_at timestamptz;
+  v_methods integer := 0;
+  v_latest invoice_payments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(SUM(amount), 0), MAX(paid_at), COUNT(DISTINCT payment_method)
+    INTO v_paid, v_last_paid_at, v_methods
+    FROM invoice_payments
+    WHERE invoice_id = NEW.id;
+
+    v_paid := v_paid - (SELECT COALESCE(SUM(amount), 0) FROM invoice_refunds WHERE invoice_id = NEW.id);
+
+    -- Credit notes reduce the amount owed, debit notes add to it
+    v_due := v_due + (
+      SELECT COALESCE(SUM(CASE WHEN note_type = 'debit' THEN total ELSE -total END), 0)
+      FROM invoice_notes
+      WHERE invoice_id = NEW.id
+    );
+
+    IF v_methods > 1 THEN
+      NEW.payment_method := 'split';
+      NEW.card_type := NULL;
+    ELSIF v_methods = 1 THEN
+      SELECT * INTO v_latest
+      FROM invoice_payments
+      WHERE invoice_id = NEW.id
+      ORDER BY paid_at DESC, created_at DESC
+      LIMIT 1;
+
+      NEW.payment_method := v_latest.payment_method;
+      NEW.card_type := v_latest.card_type;
+    END IF;
+  END IF;
+
+  NEW.paid_amount := v_paid;
+  NEW.payment_status := CASE
+    WHEN v_paid <= 0 AND v_due > 0.01 THEN 'unpaid'
+    WHEN v_paid >= v_due - 0.01 THEN 'paid'
+    ELSE 'partial'
+  END;
+  NEW.paid_at := CASE WHEN NEW.payment_status = 'paid' THEN v_last_paid_at END;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. A payment cannot exceed the outstanding balance
+CREATE OR REPLACE FUNCTION prepare_invoice_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_paid numeric;
+  v_due numeric;
+BEGIN
+  -- Serializes concurrent payments on the same invoice
+  SELECT * INTO v_invoice FROM invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_due := v_invoice.total + (
+    SELECT COALESCE(SUM(CASE WHEN note_type = 'debit' THEN total ELSE -total END), 0)
+    FROM invoice_notes
+    WHERE invoice_id = NEW.invoice_id
+  );
+
+  -- Summed from the ledger: the tenders of one checkout are inserted in one
+  -- statement, before the invoice is re-derived
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM invoice_payments
+  WHERE invoice_id = NEW.invoice_id;
+
+  v_paid := v_paid - (SELECT COALESCE(SUM(amount), 0) FROM invoice_refunds WHERE invoice_id = NEW.invoice_id);
+
+  IF v_paid + NEW.amount > v_due + 0.01 THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of % on invoice %',
+      NEW.amount, GREATEST(v_due - v_paid, 0), v_invoice.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.organization_id := v_invoice.organization_id;
+  NEW.received_by := COALESCE(auth.uid(), NEW.received_by);
+  NEW.receipt_number := next_document_number(v_invoice.organization_id, 'payment');
+  IF NEW.payment_method <> 'card' THEN
+    NEW.card_type := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Refunds and notes re-derive the invoice like payments do
+DROP TRIGGER IF EXISTS trigger_sync_invoice_refunds ON invoice_refunds;
+CREATE TRIGGER trigger_sync_invoice_refunds
+  AFTER INSERT ON invoice_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_invoice_payments();
+
+DROP TRIGGER IF EXISTS trigger_sync_invoice_notes ON invoice_notes;
+CREATE TRIGGER trigger_sync_invoice_notes
+  AFTER INSERT ON invoice_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_invoice_payments();
+
+UPDATE invoices SET updated_at = updated_at
+WHERE id IN (
+  SELECT invoice_id FROM invoice_refunds
+  UNION
+  SELECT invoice_id FROM invoice_notes
+);